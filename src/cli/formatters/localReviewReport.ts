@@ -0,0 +1,35 @@
+import type { LocalReviewFinding, LocalReviewResult } from '@/frameworks/claude/localReviewInvoker.js';
+
+type CompletedLocalReview = Extract<LocalReviewResult, { status: 'completed' }>;
+
+function findingLine(finding: LocalReviewFinding): string {
+  const location = finding.filePath === null
+    ? '(general)'
+    : `${finding.filePath}${finding.line === null ? '' : `:${finding.line}`}`;
+  const [firstLine = '', ...rest] = finding.body.trim().split('\n');
+  return [`  - ${location}: ${firstLine}`, ...rest.map((line) => `    ${line}`)].join('\n');
+}
+
+export function formatLocalReviewReport(result: CompletedLocalReview): string {
+  const minutes = Math.round(result.durationMs / 60000);
+  const lines: string[] = [
+    '',
+    `Review of ${result.base}..${result.head} (${result.baseSha.slice(0, 8)}..${result.headSha.slice(0, 8)})`,
+    `  Skill:     ${result.skill}`,
+    `  Model:     ${result.model}`,
+    `  Duration:  ${minutes} min`,
+    '',
+    result.report.trim() || 'The session wrote no report.',
+    '',
+    `Findings (${result.findings.length}):`,
+    ...(result.findings.length === 0 ? ['  none'] : result.findings.map(findingLine)),
+    '',
+  ];
+
+  return lines.join('\n');
+}
+
+export function formatLocalReviewJson(result: CompletedLocalReview): string {
+  const { status: _status, ...report } = result;
+  return JSON.stringify(report, null, 2);
+}
@@ -61,13 +61,22 @@ interface SetupArgs {
   showSecrets: boolean;
 }
 
+interface ReviewArgs {
+  command: 'review';
+  path: string | undefined;
+  base: string | undefined;
+  head: string;
+  focus: string | undefined;
+  json: boolean;
+}
+
 interface HelpArgs {
   command: 'help';
 }
 
-export type CliArgs = StartArgs | StopArgs | StatusArgs | LogsArgs | InitArgs | DiscoverArgs | ValidateArgs | FollowupImportantsArgs | SetupArgs | VersionArgs | HelpArgs;
+export type CliArgs = StartArgs | StopArgs | StatusArgs | LogsArgs | InitArgs | DiscoverArgs | ValidateArgs | FollowupImportantsArgs | SetupArgs | ReviewArgs | VersionArgs | HelpArgs;
 
-const KNOWN_COMMANDS = ['start', 'stop', 'status', 'logs', 'init', 'discover', 'validate', 'followup-importants', 'setup'] as const;
+const KNOWN_COMMANDS = ['start', 'stop', 'status', 'logs', 'init', 'discover', 'validate', 'followup-importants', 'setup', 'review'] as const;
 type KnownCommand = (typeof KNOWN_COMMANDS)[number];
 
 function hasFlag(args: string[], long: string, short?: string): boolean {
@@ -189,6 +198,17 @@ function parseSetupArgs(args: string[]): SetupArgs {
   };
 }
 
+function parseReviewArgs(args: string[]): ReviewArgs {
+  return {
+    command: 'review',
+    path: getFlagValue(args, '--path'),
+    base: getFlagValue(args, '--base'),
+    head: getFlagValue(args, '--head') ?? 'HEAD',
+    focus: getFlagValue(args, '--focus'),
+    json: hasFlag(args, '--json'),
+  };
+}
+
 export function parseCliArgs(args: string[]): CliArgs {
   if (hasFlag(args, '--version', '-v')) {
     return { command: 'version' };
@@ -219,5 +239,7 @@ export function parseCliArgs(args: string[]): CliArgs {
       return parseFollowupImportantsArgs(args);
     case 'setup':
       return parseSetupArgs(args);
+    case 'review':
+      return parseReviewArgs(args);
   }
 }
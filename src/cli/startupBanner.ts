@@ -2,7 +2,7 @@ import { green, bold, dim } from '../shared/services/ansiColors.js';
 
 interface StartupBannerInput {
   port: number;
-  enabledPlatforms: Array<'gitlab' | 'github'>;
+  enabledPlatforms: Array<'gitlab' | 'github' | 'bitbucket' | 'gitea'>;
   daemonPid: number | null;
 }
 
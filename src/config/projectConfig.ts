@@ -1,6 +1,8 @@
 import { readFileSync, existsSync } from 'node:fs';
 import { join } from 'node:path';
+import { z } from 'zod';
 import type { AgentDefinition } from '@/modules/review-execution/entities/progress/agentDefinition.type.js';
+import { agentDefinitionSchema } from '@/modules/review-execution/entities/progress/agentDefinition.schema.js';
 import type { Language } from '@/modules/shared-kernel/entities/language/language.schema.js';
 import type { RoutingPolicy } from '@/modules/review-execution/entities/modelRouting/modelRouting.schema.js';
 import {
@@ -15,10 +17,39 @@ import {
   MAX_PROJECT_CONCURRENCY_CAP,
   MIN_PROJECT_CONCURRENCY_CAP,
 } from '@/modules/cli-configuration/entities/projectConcurrencyCap/projectConcurrencyCap.valueObject.js';
+import {
+  type TriggerRules,
+  triggerRulesSchema,
+} from '@/modules/platform-integration/entities/triggerRules/triggerRules.schema.js';
+import {
+  type PriorityRules,
+  priorityRulesSchema,
+} from '@/modules/review-execution/entities/jobPriority/jobPriority.schema.js';
+import {
+  type ReviewSchedule,
+  reviewScheduleSchema,
+} from '@/modules/review-execution/entities/reviewWindow/reviewWindow.schema.js';
+import {
+  type PublishMode,
+  publishModeSchema,
+} from '@/modules/review-execution/entities/publishMode/publishMode.schema.js';
+import {
+  type RetryPolicies,
+  type RetryPolicyOverrides,
+  retryPolicyOverridesSchema,
+} from '@/modules/claude-invocation/entities/retrySchedule/retryPolicy.schema.js';
+import { resolveRetryPolicies } from '@/modules/claude-invocation/entities/retrySchedule/retrySchedule.valueObject.js';
+import {
+  DEFAULT_REVIEW_ENGINE,
+  type ReviewEngineConfig,
+  reviewEngineConfigSchema,
+} from '@/modules/claude-invocation/entities/reviewEngine/reviewEngine.schema.js';
 
 export interface ProjectConfig {
   github: boolean;
   gitlab: boolean;
+  bitbucket?: boolean;
+  gitea?: boolean;
   defaultModel: 'haiku' | 'sonnet' | 'opus';
   reviewSkill: string;
   reviewFollowupSkill: string;
@@ -31,6 +62,25 @@ export interface ProjectConfig {
   externalLink?: string;
   qualityThreshold?: number;
   maxConcurrentReviews?: number;
+  triggers?: TriggerRules;
+  /** Queue lanes derived from labels, target branches and job type. */
+  priority?: PriorityRules;
+  /** Hours reviews of this project may run, over the server-wide `queue.schedule`. */
+  schedule?: ReviewSchedule;
+  /** Retry policies of failed review sessions, by failure class. */
+  retry?: RetryPolicyOverrides;
+  /** Follow-ups review only the commits pushed since the last reviewed head. */
+  incrementalFollowups?: boolean;
+  /** A push cancels the running review of the MR and queues a fresh one on the new head. */
+  supersedeOnPush?: boolean;
+  /** Publish the `reviewflow/review` commit status (GitHub and GitLab). */
+  commitStatus?: boolean;
+  /** `shadow` records what reviews would post in a local log instead of posting it. */
+  publishMode?: PublishMode;
+  /** Finished reviews wait for a maintainer to approve their comments from the dashboard. */
+  reviewBeforePublish?: boolean;
+  /** What runs the review sessions, the Claude CLI when unset. */
+  reviewEngine?: ReviewEngineConfig;
 }
 
 function parseExternalLink(value: unknown): string | undefined {
@@ -79,25 +129,96 @@ function parseMaxConcurrentReviews(value: unknown): number | undefined {
   return value;
 }
 
-function validateAgents(agents: unknown): agents is AgentDefinition[] {
-  if (!Array.isArray(agents)) {
-    return false;
+function parseTriggers(value: unknown): TriggerRules | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const result = triggerRulesSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.length > 0 ? `triggers.${issue.path.join('.')}` : 'triggers';
+    throw new Error(`Invalid ${field}: ${issue.message}`);
   }
+  return result.data;
+}
 
-  return agents.every((agent) => {
-    if (agent === null || typeof agent !== 'object') {
-      return false;
-    }
-    const record = agent as Record<string, unknown>;
-    const name = record.name;
-    const displayName = record.displayName;
-    return (
-      typeof name === 'string' &&
-      typeof displayName === 'string' &&
-      name.length > 0 &&
-      displayName.length > 0
-    );
-  });
+function parsePriority(value: unknown): PriorityRules | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const result = priorityRulesSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.length > 0 ? `priority.${issue.path.join('.')}` : 'priority';
+    throw new Error(`Invalid ${field}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+function parseSchedule(value: unknown): ReviewSchedule | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const result = reviewScheduleSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.length > 0 ? `schedule.${issue.path.join('.')}` : 'schedule';
+    throw new Error(`Invalid ${field}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+function parsePublishMode(value: unknown): PublishMode | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const result = publishModeSchema.safeParse(value);
+  if (!result.success) {
+    throw new Error(`Invalid publishMode: must be one of ${publishModeSchema.options.join(', ')}`);
+  }
+  return result.data;
+}
+
+function parseRetry(value: unknown): RetryPolicyOverrides | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const result = retryPolicyOverridesSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.length > 0 ? `retry.${issue.path.join('.')}` : 'retry';
+    throw new Error(`Invalid ${field}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+function parseReviewEngine(value: unknown): ReviewEngineConfig | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const result = reviewEngineConfigSchema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.length > 0 ? `reviewEngine.${issue.path.join('.')}` : 'reviewEngine';
+    throw new Error(`Invalid ${field}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+function parseAgents(value: unknown, field: 'agents' | 'followupAgents'): AgentDefinition[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const result = z.array(agentDefinitionSchema).safeParse(value);
+  if (result.success) {
+    return result.data;
+  }
+  const issue = result.error.issues[0];
+  const [index, key, ...rest] = issue.path;
+  if (typeof index !== 'number' || key === undefined || key === 'name' || key === 'displayName') {
+    throw new Error(`Invalid ${field} format: must be array of { name: string, displayName: string }`);
+  }
+  throw new Error(`Invalid ${field}[${index}].${[key, ...rest].join('.')}: ${issue.message}`);
 }
 
 function parseRoutingPolicy(value: unknown): RoutingPolicy | undefined {
@@ -187,23 +308,8 @@ export function parseProjectConfig(parsed: Record<string, unknown>): ProjectConf
     ? String(parsed.reviewSkill)
     : reviewSkillForFocus(reviewFocus as ReviewFocus);
 
-  // Validate agents if present
-  if ('agents' in parsed && parsed.agents !== undefined) {
-    if (!validateAgents(parsed.agents)) {
-      throw new Error(
-        'Invalid agents format: must be array of { name: string, displayName: string }'
-      );
-    }
-  }
-
-  // Validate followupAgents if present
-  if ('followupAgents' in parsed && parsed.followupAgents !== undefined) {
-    if (!validateAgents(parsed.followupAgents)) {
-      throw new Error(
-        'Invalid followupAgents format: must be array of { name: string, displayName: string }'
-      );
-    }
-  }
+  const agents = parseAgents(parsed.agents, 'agents');
+  const followupAgents = parseAgents(parsed.followupAgents, 'followupAgents');
 
   const config: ProjectConfig = {
     github: Boolean(parsed.github),
@@ -213,11 +319,19 @@ export function parseProjectConfig(parsed: Record<string, unknown>): ProjectConf
     reviewFollowupSkill: String(parsed.reviewFollowupSkill),
     language: parsed.language === 'fr' ? 'fr' : 'en',
     retentionDays: parseRetentionDays(parsed.retentionDays),
-    agents: validateAgents(parsed.agents) ? parsed.agents : undefined,
-    followupAgents: validateAgents(parsed.followupAgents) ? parsed.followupAgents : undefined,
+    agents,
+    followupAgents,
     routingPolicy: parseRoutingPolicy(parsed.routingPolicy),
   };
 
+  if (parsed.bitbucket === true) {
+    config.bitbucket = true;
+  }
+
+  if (parsed.gitea === true) {
+    config.gitea = true;
+  }
+
   if (reviewFocus !== undefined) {
     config.reviewFocus = reviewFocus;
   }
@@ -237,6 +351,52 @@ export function parseProjectConfig(parsed: Record<string, unknown>): ProjectConf
     config.maxConcurrentReviews = maxConcurrentReviews;
   }
 
+  const triggers = parseTriggers(parsed.triggers);
+  if (triggers !== undefined) {
+    config.triggers = triggers;
+  }
+
+  const priority = parsePriority(parsed.priority);
+  if (priority !== undefined) {
+    config.priority = priority;
+  }
+
+  const schedule = parseSchedule(parsed.schedule);
+  if (schedule !== undefined) {
+    config.schedule = schedule;
+  }
+
+  const retry = parseRetry(parsed.retry);
+  if (retry !== undefined) {
+    config.retry = retry;
+  }
+
+  if (parsed.commitStatus === true) {
+    config.commitStatus = true;
+  }
+
+  if (parsed.incrementalFollowups === true) {
+    config.incrementalFollowups = true;
+  }
+
+  if (parsed.supersedeOnPush === true) {
+    config.supersedeOnPush = true;
+  }
+
+  const publishMode = parsePublishMode(parsed.publishMode);
+  if (publishMode !== undefined) {
+    config.publishMode = publishMode;
+  }
+
+  if (parsed.reviewBeforePublish === true) {
+    config.reviewBeforePublish = true;
+  }
+
+  const reviewEngine = parseReviewEngine(parsed.reviewEngine);
+  if (reviewEngine !== undefined) {
+    config.reviewEngine = reviewEngine;
+  }
+
   return config;
 }
 
@@ -289,6 +449,29 @@ export function getProjectLanguage(localPath: string): Language {
   }
 }
 
+/**
+ * Get retry policies from project config, defaulting to DEFAULT_RETRY_POLICIES
+ */
+export function getProjectRetryPolicies(localPath: string): RetryPolicies {
+  try {
+    const config = loadProjectConfig(localPath);
+    return resolveRetryPolicies(config?.retry);
+  } catch {
+    return resolveRetryPolicies();
+  }
+}
+
+/**
+ * Get the review engine from project config, defaulting to the Claude CLI
+ */
+export function getProjectReviewEngine(localPath: string): ReviewEngineConfig {
+  try {
+    return loadProjectConfig(localPath)?.reviewEngine ?? DEFAULT_REVIEW_ENGINE;
+  } catch {
+    return DEFAULT_REVIEW_ENGINE;
+  }
+}
+
 /**
  * Get followup agents from project config or undefined for defaults
  */
@@ -55,3 +55,17 @@ export function formatLogTime(timestamp) {
   const locale = getLanguage() === 'fr' ? 'fr-FR' : 'en-US';
   return date.toLocaleTimeString(locale);
 }
+
+/**
+ * When a deferred review may start: the time alone today, the weekday and time later on.
+ * @param {string | null | undefined} dateStr
+ * @returns {string}
+ */
+export function formatDeferredUntil(dateStr) {
+  if (!dateStr) return '-';
+  const date = new Date(dateStr);
+  const locale = getLanguage() === 'fr' ? 'fr-FR' : 'en-US';
+  const time = date.toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' });
+  if (date.toDateString() === new Date().toDateString()) return time;
+  return `${date.toLocaleDateString(locale, { weekday: 'short' })} ${time}`;
+}
@@ -213,6 +213,17 @@ const translations = {
     'review.type.review': 'Review',
     'review.type.followup': 'Follow-up',
     'review.description': 'Description',
+    'review.resumed': 'Resumed after restart',
+    'review.resumedInterrupted': 'Restarted after an interrupted run',
+    'review.dragToReorder': 'Drag to reorder the queue',
+    'review.deferredUntil': 'Deferred until {{time}}',
+    'review.retrying': 'Retry {{attempt}}/{{maxAttempts}} in {{delay}}',
+    'review.shadow.title': 'Shadow mode: {{count}} action(s) not posted',
+    'review.shadow.comment': 'Comment',
+    'review.shadow.inlineComment': 'Inline comment on {{location}}',
+    'review.shadow.reply': 'Reply to thread {{threadId}}',
+    'review.shadow.resolve': 'Resolve thread {{threadId}}',
+    'review.shadow.label': 'Add label {{label}}',
     'review.status.running': 'Review in progress',
     'review.status.queued': 'Waiting in queue',
     'review.status.completed': 'Review completed',
@@ -220,6 +231,7 @@ const translations = {
 
     // Buttons
     'button.cancel': 'Cancel',
+    'button.startNow': 'Start now',
     'button.open': 'Open',
     'button.followup': 'Run follow-up',
     'button.autoFollowup': 'Auto follow-up',
@@ -261,6 +273,7 @@ const translations = {
 
     // Success
     'success.reviewCancelled': 'Review cancelled',
+    'success.reviewStarted': 'Review started',
     'success.reviewAlreadyCompleted': 'This review is already completed',
     'success.markedAsMerged': 'MR marked as merged',
 
@@ -275,6 +288,8 @@ const translations = {
     'error.approveMr': 'Error approving',
     'error.syncThreads': 'Error syncing threads',
     'error.cancelReview': 'Error cancelling review',
+    'error.startNow': 'Error starting review',
+    'error.reorderQueue': 'Error reordering the queue',
     'error.markAsMerged': 'Error marking as merged',
     'error.selectOrEnterPath': 'Select or enter a path',
     'error.projectNotLoaded': 'Load a project first',
@@ -300,6 +315,33 @@ const translations = {
     'sheet.outOf10': '/10',
     'sheet.target': 'Target: {{target}}/10',
     'sheet.approve': 'Approve',
+    'sheet.findings.title': 'Findings ({{count}})',
+    'sheet.findings.blocking': 'Blocking',
+    'sheet.findings.warning': 'Warning',
+    'sheet.findings.suggestion': 'Suggestion',
+    'sheet.findings.confidence': '{{percent}}% confidence',
+    'sheet.links.title': 'Linked merge requests',
+    'sheet.links.empty': 'No linked merge request. Add a "Depends on group/project!123" line to the description, or link one here.',
+    'sheet.links.placeholder': 'group/project!123',
+    'sheet.links.add': 'Link',
+    'sheet.links.remove': 'Remove link',
+    'error.linkMergeRequest': 'Error updating linked merge requests',
+    'sheet.publication.title': 'Waiting for approval',
+    'sheet.publication.undecided': '{{count}} comment(s) still to approve or drop',
+    'sheet.publication.ready': 'Every comment has a decision',
+    'sheet.publication.summary': 'Summary comment',
+    'sheet.publication.thread': 'Reply to thread {{threadId}}',
+    'sheet.publication.pending': 'To review',
+    'sheet.publication.approved': 'Approved',
+    'sheet.publication.dropped': 'Dropped',
+    'sheet.publication.edited': 'edited',
+    'sheet.publication.save': 'Save',
+    'sheet.publication.approve': 'Approve',
+    'sheet.publication.drop': 'Drop',
+    'sheet.publication.publish': 'Publish',
+    'sheet.publication.published': 'Review comments published',
+    'sheet.publication.partial': 'Some comments could not be posted and are still waiting',
+    'error.pendingPublication': 'Failed to update the pending publication',
     'sheet.commits': 'Commits',
     'sheet.additions': 'Additions',
     'sheet.deletions': 'Deletions',
@@ -645,6 +687,17 @@ const translations = {
     'review.type.review': 'Review',
     'review.type.followup': 'Follow-up',
     'review.description': 'Description',
+    'review.resumed': 'Reprise après redémarrage',
+    'review.resumedInterrupted': 'Relancée après une exécution interrompue',
+    'review.dragToReorder': 'Glisser pour réordonner la file',
+    'review.deferredUntil': 'Différée jusqu\'à {{time}}',
+    'review.retrying': 'Nouvelle tentative {{attempt}}/{{maxAttempts}} dans {{delay}}',
+    'review.shadow.title': 'Mode shadow : {{count}} action(s) non publiée(s)',
+    'review.shadow.comment': 'Commentaire',
+    'review.shadow.inlineComment': 'Commentaire en ligne sur {{location}}',
+    'review.shadow.reply': 'Réponse au thread {{threadId}}',
+    'review.shadow.resolve': 'Résolution du thread {{threadId}}',
+    'review.shadow.label': 'Ajout du label {{label}}',
     'review.status.running': 'Review en cours',
     'review.status.queued': 'En attente dans la file',
     'review.status.completed': 'Review terminée',
@@ -652,6 +705,7 @@ const translations = {
 
     // Buttons
     'button.cancel': 'Annuler',
+    'button.startNow': 'Lancer maintenant',
     'button.open': 'Ouvrir',
     'button.followup': 'Lancer le follow-up',
     'button.autoFollowup': 'Auto follow-up',
@@ -693,6 +747,7 @@ const translations = {
 
     // Success
     'success.reviewCancelled': 'Review annulée',
+    'success.reviewStarted': 'Review lancée',
     'success.reviewAlreadyCompleted': 'Cette review est déjà terminée',
     'success.markedAsMerged': 'MR marquée comme mergée',
 
@@ -707,6 +762,8 @@ const translations = {
     'error.approveMr': "Erreur lors de l'approbation",
     'error.syncThreads': 'Erreur lors de la synchronisation des threads',
     'error.cancelReview': "Erreur lors de l'annulation",
+    'error.startNow': 'Erreur lors du lancement de la review',
+    'error.reorderQueue': 'Erreur lors du réordonnancement de la file',
     'error.markAsMerged': 'Erreur lors du marquage',
     'error.selectOrEnterPath': 'Sélectionnez ou entrez un chemin',
     'error.projectNotLoaded': "Charger un projet d'abord",
@@ -728,6 +785,33 @@ const translations = {
     'sheet.outOf10': '/10',
     'sheet.target': 'Cible : {{target}}/10',
     'sheet.approve': 'Terminer',
+    'sheet.findings.title': 'Constats ({{count}})',
+    'sheet.findings.blocking': 'Bloquant',
+    'sheet.findings.warning': 'Important',
+    'sheet.findings.suggestion': 'Suggestion',
+    'sheet.findings.confidence': 'confiance {{percent}} %',
+    'sheet.links.title': 'MR liées',
+    'sheet.links.empty': 'Aucune MR liée. Ajoutez une ligne « Depends on groupe/projet!123 » à la description, ou liez-en une ici.',
+    'sheet.links.placeholder': 'groupe/projet!123',
+    'sheet.links.add': 'Lier',
+    'sheet.links.remove': 'Retirer le lien',
+    'error.linkMergeRequest': 'Erreur lors de la mise à jour des MR liées',
+    'sheet.publication.title': 'En attente de validation',
+    'sheet.publication.undecided': '{{count}} commentaire(s) à valider ou écarter',
+    'sheet.publication.ready': 'Chaque commentaire a une décision',
+    'sheet.publication.summary': 'Commentaire de synthèse',
+    'sheet.publication.thread': 'Réponse au thread {{threadId}}',
+    'sheet.publication.pending': 'À relire',
+    'sheet.publication.approved': 'Validé',
+    'sheet.publication.dropped': 'Écarté',
+    'sheet.publication.edited': 'modifié',
+    'sheet.publication.save': 'Enregistrer',
+    'sheet.publication.approve': 'Valider',
+    'sheet.publication.drop': 'Écarter',
+    'sheet.publication.publish': 'Publier',
+    'sheet.publication.published': 'Commentaires de la review publiés',
+    'sheet.publication.partial': "Certains commentaires n'ont pas pu être publiés et restent en attente",
+    'error.pendingPublication': 'Échec de la mise à jour de la publication en attente',
     'sheet.commits': 'Commits',
     'sheet.additions': 'Ajouts',
     'sheet.deletions': 'Suppressions',
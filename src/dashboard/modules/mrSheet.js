@@ -132,6 +132,12 @@ export function renderMrSheetContent(mr, translate, mrType) {
     </div>`;
     })()}
 
+    ${renderReviewFindingsSection(mr, translate)}
+
+    <div id="mr-sheet-publication"></div>
+
+    <div id="mr-sheet-links">${renderLinkedMergeRequestsSection(mr, translate)}</div>
+
     <div class="sheet-section">
       <div class="sheet-section-title"><i data-lucide="trending-up"></i> ${translate('sheet.scoreTimeline')}</div>
       <div class="sheet-canvas-wrap">
@@ -184,6 +190,138 @@ export function renderMrSheetContent(mr, translate, mrType) {
   `;
 }
 
+/**
+ * @param {{ type: string, filePath?: string, line?: number, threadId?: string }} action
+ * @param {(key: string, params?: Record<string, string|number>) => string} translate
+ * @returns {string}
+ */
+function publicationItemLocation(action, translate) {
+  if (action.type === 'POST_INLINE_COMMENT') {
+    return `${action.filePath}:${action.line}`;
+  }
+  if (action.type === 'THREAD_REPLY') {
+    return translate('sheet.publication.thread', { threadId: action.threadId });
+  }
+  return translate('sheet.publication.summary');
+}
+
+/**
+ * Comments of a finished review waiting for approval, each editable until published.
+ * @param {{ mergeRequestId: string, items: Array<{ itemId: string, decision: string, edited: boolean, action: { type: string, body?: string, message?: string, filePath?: string, line?: number, threadId?: string } }> } | null} publication
+ * @param {(key: string, params?: Record<string, string|number>) => string} translate
+ * @returns {string}
+ */
+export function renderPendingPublicationSection(publication, translate) {
+  if (!publication || !Array.isArray(publication.items) || publication.items.length === 0) {
+    return '';
+  }
+
+  const encodedMrId = encodeURIComponent(String(publication.mergeRequestId ?? ''));
+  const undecided = publication.items.filter(item => item.decision === 'pending').length;
+
+  const items = publication.items.map(item => {
+    const action = item.action ?? {};
+    const text = action.type === 'THREAD_REPLY' ? action.message : action.body;
+    const itemId = escapeHtml(String(item.itemId));
+    const decision = ['approved', 'dropped'].includes(item.decision) ? item.decision : 'pending';
+    return `<div class="publication-item ${decision}">
+      <div class="publication-item-header">
+        <span class="publication-item-location">${escapeHtml(publicationItemLocation(action, translate))}</span>
+        <span class="publication-item-decision">${translate(`sheet.publication.${decision}`)}${item.edited ? ` · ${translate('sheet.publication.edited')}` : ''}</span>
+      </div>
+      <textarea class="publication-item-text" id="publication-item-${itemId}" rows="4">${escapeHtml(String(text ?? ''))}</textarea>
+      <div class="publication-item-actions">
+        <button class="btn-action" onclick="savePublicationItem('${encodedMrId}', '${itemId}')"><i data-lucide="save"></i> ${translate('sheet.publication.save')}</button>
+        <button class="btn-action approve" onclick="decidePublicationItem('${encodedMrId}', '${itemId}', 'approved')"><i data-lucide="check"></i> ${translate('sheet.publication.approve')}</button>
+        <button class="btn-action" onclick="decidePublicationItem('${encodedMrId}', '${itemId}', 'dropped')"><i data-lucide="trash-2"></i> ${translate('sheet.publication.drop')}</button>
+      </div>
+    </div>`;
+  }).join('');
+
+  return `
+    <div class="sheet-section pending-publication">
+      <div class="sheet-section-title"><i data-lucide="mail-check"></i> ${translate('sheet.publication.title')}</div>
+      <div class="sheet-stat-detail">${undecided > 0 ? translate('sheet.publication.undecided', { count: undecided }) : translate('sheet.publication.ready')}</div>
+      ${items}
+      <div class="sheet-footer-actions">
+        <button class="btn-action approve" onclick="publishPendingPublication('${encodedMrId}')"${undecided > 0 ? ' disabled' : ''}><i data-lucide="send"></i> ${translate('sheet.publication.publish')}</button>
+      </div>
+    </div>`;
+}
+
+/**
+ * @param {{ filePath: string|null, startLine: number|null, endLine: number|null }} finding
+ * @returns {string}
+ */
+function findingLocation(finding) {
+  if (!finding.filePath) return '';
+  if (finding.startLine === null || finding.startLine === undefined) return finding.filePath;
+  const end = finding.endLine ?? finding.startLine;
+  return end === finding.startLine ? `${finding.filePath}:${finding.startLine}` : `${finding.filePath}:${finding.startLine}-${end}`;
+}
+
+/**
+ * Findings the agents reported on the latest review that reported any.
+ * Reviews whose stats came from the Markdown report have none.
+ * @param {{ reviews?: Array<{ findings?: Array<{ severity: string, agent: string, title: string, filePath: string|null, startLine: number|null, endLine: number|null, confidence: number }> }> }} mr
+ * @param {(key: string, params?: Record<string, string|number>) => string} translate
+ * @returns {string}
+ */
+export function renderReviewFindingsSection(mr, translate) {
+  const findings = [...(mr.reviews ?? [])].reverse().find(r => (r.findings ?? []).length > 0)?.findings;
+  if (!findings) return '';
+
+  const items = findings.map(finding => {
+    const severity = ['blocking', 'warning', 'suggestion'].includes(finding.severity) ? finding.severity : 'suggestion';
+    const location = findingLocation(finding);
+    return `<div class="review-finding ${severity}">
+      <div class="review-finding-header">
+        <span class="review-finding-severity">${translate(`sheet.findings.${severity}`)}</span>
+        <span class="review-finding-title">${escapeHtml(String(finding.title ?? ''))}</span>
+      </div>
+      <div class="review-finding-meta">
+        ${location ? `<span class="review-finding-location">${escapeHtml(location)}</span>` : ''}
+        <span>${escapeHtml(String(finding.agent ?? ''))} · ${translate('sheet.findings.confidence', { percent: Math.round(Number(finding.confidence ?? 0) * 100) })}</span>
+      </div>
+    </div>`;
+  }).join('');
+
+  return `
+    <div class="sheet-section review-findings">
+      <div class="sheet-section-title"><i data-lucide="list-checks"></i> ${translate('sheet.findings.title', { count: findings.length })}</div>
+      ${items}
+    </div>`;
+}
+
+/**
+ * Merge requests of other repositories reviewed together with this one.
+ * @param {{ id?: string, platform?: string, linkedMrs?: Array<{ projectPath: string, mrNumber: number }> }} mr
+ * @param {(key: string, params?: Record<string, string|number>) => string} translate
+ * @returns {string}
+ */
+export function renderLinkedMergeRequestsSection(mr, translate) {
+  const encodedMrId = encodeURIComponent(String(mr.id ?? ''));
+  const separator = mr.platform === 'gitlab' ? '!' : '#';
+  const links = (mr.linkedMrs ?? []).map(link => {
+    const reference = `${link.projectPath}${separator}${link.mrNumber}`;
+    const encodedReference = encodeURIComponent(reference);
+    return `<div class="linked-mr-item">
+      <span class="linked-mr-reference">${escapeHtml(reference)}</span>
+      <button class="btn-action" onclick="unlinkMergeRequest('${encodedMrId}', '${encodedReference}')" aria-label="${translate('sheet.links.remove')}"><i data-lucide="unlink"></i></button>
+    </div>`;
+  }).join('');
+
+  return `
+    <div class="sheet-section linked-mrs">
+      <div class="sheet-section-title"><i data-lucide="link"></i> ${translate('sheet.links.title')}</div>
+      ${links || `<div class="sheet-stat-detail">${translate('sheet.links.empty')}</div>`}
+      <div class="linked-mr-add">
+        <input type="text" id="linked-mr-reference" class="linked-mr-input" placeholder="${translate('sheet.links.placeholder')}">
+        <button class="btn-action" onclick="linkMergeRequest('${encodedMrId}')"><i data-lucide="link-2"></i> ${translate('sheet.links.add')}</button>
+      </div>
+    </div>`;
+}
+
 /**
  * @param {CanvasRenderingContext2D} context
  * @param {number} cssWidth
@@ -25,3 +25,50 @@ export function buildQueueLanesModel(rankedPendingFix, pendingApproval) {
     readyToApproveCount: readyToApproveItems.length,
   };
 }
+
+/**
+ * Active jobs in queue order: started jobs first, then queued jobs by descending
+ * priority. Jobs of equal priority keep the server order.
+ * @template {{ status: string, priority?: number }} Job
+ * @param {Job[]} activeReviews
+ * @returns {Job[]}
+ */
+export function orderActiveReviews(activeReviews) {
+  const started = activeReviews.filter((job) => job.status !== 'queued');
+  const queued = activeReviews
+    .filter((job) => job.status === 'queued')
+    .sort((left, right) => (right.priority ?? 0) - (left.priority ?? 0));
+  return [...started, ...queued];
+}
+
+/**
+ * Priorities to send when a queued job is dropped at `targetIndex`. The dragged
+ * job lands just above its new neighbour below; jobs above it are only raised
+ * when needed to stay ahead. Ties are avoided because the queue puts a
+ * reprioritized job behind the others of its priority.
+ * @param {{ id: string, priority?: number }[]} queuedJobs - in queue order
+ * @param {string} draggedId
+ * @param {number} targetIndex - position of the dragged job in the new order
+ * @returns {{ jobId: string, priority: number }[]}
+ */
+export function planQueueReorder(queuedJobs, draggedId, targetIndex) {
+  const dragged = queuedJobs.find((job) => job.id === draggedId);
+  if (!dragged) return [];
+
+  const others = queuedJobs.filter((job) => job.id !== draggedId);
+  const index = Math.max(0, Math.min(targetIndex, others.length));
+  const order = [...others.slice(0, index), dragged, ...others.slice(index)];
+  if (order.every((job, position) => job.id === queuedJobs[position].id)) return [];
+
+  const priorities = order.map((job) => job.priority ?? 0);
+  const below = order[index + 1];
+  priorities[index] = below ? (below.priority ?? 0) + 1 : (order[index - 1].priority ?? 0) - 1;
+  for (let position = index - 1; position >= 0 && priorities[position] <= priorities[position + 1]; position -= 1) {
+    priorities[position] = priorities[position + 1] + 1;
+  }
+
+  return order
+    .map((job, position) => ({ jobId: job.id, priority: priorities[position], previous: job.priority ?? 0 }))
+    .filter((change) => change.priority !== change.previous)
+    .map(({ jobId, priority }) => ({ jobId, priority }));
+}
@@ -0,0 +1,70 @@
+import { t } from './i18n.js';
+import { escapeHtml, markdownToHtml } from './html.js';
+
+/**
+ * @typedef {Object} ShadowAction
+ * @property {string} type
+ * @property {string} [body]
+ * @property {string} [message]
+ * @property {string} [threadId]
+ * @property {string} [label]
+ * @property {string} [filePath]
+ * @property {number} [line]
+ */
+
+/**
+ * @typedef {Object} ShadowLogEntry
+ * @property {string} recordedAt
+ * @property {ShadowAction[]} actions
+ */
+
+/**
+ * @param {ShadowAction} action
+ * @returns {{ heading: string, body: string | null } | null}
+ */
+function describeShadowAction(action) {
+  switch (action.type) {
+    case 'POST_COMMENT':
+      return { heading: t('review.shadow.comment'), body: action.body ?? '' };
+    case 'POST_INLINE_COMMENT':
+      return {
+        heading: t('review.shadow.inlineComment', { location: `${action.filePath}:${action.line}` }),
+        body: action.body ?? '',
+      };
+    case 'THREAD_REPLY':
+      return { heading: t('review.shadow.reply', { threadId: action.threadId }), body: action.message ?? '' };
+    case 'THREAD_RESOLVE':
+      return { heading: t('review.shadow.resolve', { threadId: action.threadId }), body: null };
+    case 'ADD_LABEL':
+      return { heading: t('review.shadow.label', { label: action.label }), body: null };
+    default:
+      return null;
+  }
+}
+
+/**
+ * What a shadow review would have posted, shown above its report. Empty when
+ * the review published live.
+ * @param {ShadowLogEntry[] | null | undefined} entries
+ * @returns {string}
+ */
+export function renderShadowPreviewHtml(entries) {
+  const actions = (Array.isArray(entries) ? entries : []).flatMap((entry) => entry.actions ?? []);
+  const items = actions.map(describeShadowAction).filter((item) => item !== null);
+  if (items.length === 0) return '';
+
+  return `
+    <div class="shadow-preview">
+      <div class="shadow-preview-title">${escapeHtml(t('review.shadow.title', { count: items.length }))}</div>
+      ${items
+        .map(
+          (item) => `
+        <div class="shadow-preview-item">
+          <div class="shadow-preview-heading">${escapeHtml(item.heading)}</div>
+          ${item.body !== null ? `<div class="shadow-preview-body">${markdownToHtml(item.body)}</div>` : ''}
+        </div>`,
+        )
+        .join('')}
+    </div>
+  `.trim();
+}
@@ -1,22 +1,37 @@
 import { spawn } from 'node:child_process';
-import { writeFileSync, mkdirSync, existsSync, unlinkSync } from 'node:fs';
+import { writeFileSync, mkdirSync, existsSync, readFileSync, unlinkSync } from 'node:fs';
 import { join, dirname } from 'node:path';
 import { fileURLToPath } from 'node:url';
 import type { Logger } from 'pino';
-import type { ReviewJob } from '@/frameworks/queue/pQueueAdapter.js';
+import { type ReviewJob, setJobRetry, waitForJobRetry } from '@/frameworks/queue/pQueueAdapter.js';
 import type { ReviewProgress, ProgressEvent } from '@/modules/review-execution/entities/progress/progress.type.js';
+import {
+  type AgentDefinition,
+  agentDispatchOf,
+} from '@/modules/review-execution/entities/progress/agentDefinition.type.js';
 import { logInfo, logWarn, logError } from '@/frameworks/logging/logBuffer.js';
 import { getModel } from '@/frameworks/settings/runtimeSettings.js';
-import { getProjectAgents, getFollowupAgents, loadProjectConfig } from '@/config/projectConfig.js';
-import { addReviewStats } from '@/modules/statistics-insights/services/statsService.js';
+import {
+  getProjectAgents,
+  getFollowupAgents,
+  getProjectRetryPolicies,
+  getProjectReviewEngine,
+  loadProjectConfig,
+} from '@/config/projectConfig.js';
+import { parseReviewOutput, recordReviewStats } from '@/modules/statistics-insights/services/statsService.js';
 import { fetchDiffStatsSafely } from '@/modules/statistics-insights/services/fetchDiffStatsSafely.js';
 import { FileSystemReviewRequestTrackingGateway } from '@/modules/tracking/interface-adapters/gateways/fileSystem/reviewRequestTracking.fileSystem.js';
 import { ProjectStatsCalculator } from '@/modules/statistics-insights/interface-adapters/presenters/projectStats.calculator.js';
 import { GitLabDiffStatsFetchGateway } from '@/modules/statistics-insights/interface-adapters/gateways/diffStatsFetch.gitlab.gateway.js';
 import { GitHubDiffStatsFetchGateway } from '@/modules/statistics-insights/interface-adapters/gateways/diffStatsFetch.github.gateway.js';
+import { BitbucketDiffStatsFetchGateway } from '@/modules/statistics-insights/interface-adapters/gateways/diffStatsFetch.bitbucket.gateway.js';
+import { defaultBitbucketExecutor } from '@/modules/platform-integration/interface-adapters/gateways/bitbucketApi.js';
+import { GiteaDiffStatsFetchGateway } from '@/modules/statistics-insights/interface-adapters/gateways/diffStatsFetch.gitea.gateway.js';
+import { defaultGiteaExecutor } from '@/modules/platform-integration/interface-adapters/gateways/giteaApi.js';
 import { defaultGitLabExecutor } from '@/modules/platform-integration/interface-adapters/gateways/threadFetch.gitlab.gateway.js';
 import { defaultGitHubExecutor } from '@/modules/platform-integration/interface-adapters/gateways/threadFetch.github.gateway.js';
 import type { DiffStats } from '@/modules/shared-kernel/entities/diffStats/diffStats.js';
+import type { ReviewPreferences } from '@/modules/tracking/entities/tracking/trackedMr.js';
 import { resolveClaudePath } from '@/shared/services/claudePathResolver.js';
 import { getJobContextFilePath } from '@/shared/services/mcpJobContext.js';
 import { buildLanguageDirective } from '@/frameworks/claude/languageDirective.js';
@@ -38,7 +53,12 @@ import { FileSystemMcpCompletionBridge } from '@/modules/claude-invocation/inter
 import { ReviewReportFileSystemGateway } from '@/modules/claude-invocation/interface-adapters/gateways/reviewReport.fileSystem.gateway.js';
 import { InMemoryBillingStateGateway } from '@/modules/claude-invocation/interface-adapters/gateways/billingState.memory.gateway.js';
 import { ProcessEnvironmentGateway } from '@/modules/claude-invocation/interface-adapters/gateways/environment.process.gateway.js';
-import { runClaudeReviewJob } from '@/modules/claude-invocation/usecases/runClaudeReviewJob.usecase.js';
+import type { RunClaudeReviewJobResult } from '@/modules/claude-invocation/usecases/runClaudeReviewJob.usecase.js';
+import type { ReviewEngineGateway, ReviewEngineRunInput } from '@/modules/claude-invocation/entities/reviewEngine/reviewEngine.gateway.js';
+import type { ReviewEngineConfig } from '@/modules/claude-invocation/entities/reviewEngine/reviewEngine.schema.js';
+import { ClaudeCliReviewEngineGateway } from '@/modules/claude-invocation/interface-adapters/gateways/reviewEngine.claudeCli.gateway.js';
+import { OpenAiCompatibleReviewEngineGateway } from '@/modules/claude-invocation/interface-adapters/gateways/reviewEngine.openaiCompatible.gateway.js';
+import { StdioMcpToolClient } from '@/modules/claude-invocation/interface-adapters/gateways/mcpToolClient.stdio.gateway.js';
 import type { ClaudeSessionGateway } from '@/modules/claude-invocation/entities/claudeSession/claudeSession.gateway.js';
 import type { McpCompletionBridge } from '@/modules/claude-invocation/entities/sessionCompletion/mcpCompletion.gateway.js';
 import type { ReviewReportGateway } from '@/modules/claude-invocation/entities/sessionCompletion/reviewReport.gateway.js';
@@ -50,6 +70,27 @@ import { WorktreeFileSystemGateway } from '@/modules/worktree-management/interfa
 import { GitCommandCliGateway } from '@/modules/worktree-management/interface-adapters/gateways/gitCommand.cli.gateway.js';
 import type { GitCommandExecutor } from '@/modules/worktree-management/entities/gitCommand/gitCommand.gateway.js';
 import { resolveClaudeCwd } from '@/modules/worktree-management/services/claudeCwd.js';
+import { readWorktreeHead } from '@/modules/worktree-management/services/worktreeHead.js';
+import {
+  computeIncrementalDiff,
+  type IncrementalDiffResult,
+} from '@/modules/worktree-management/usecases/computeIncrementalDiff.usecase.js';
+import type { ReviewContextGateway } from '@/modules/review-execution/entities/reviewContext/reviewContext.gateway.js';
+import { resolveReviewStats } from '@/modules/review-execution/entities/reviewFinding/reviewFinding.js';
+import { ReviewContextFileSystemGateway } from '@/modules/review-execution/interface-adapters/gateways/reviewContext.fileSystem.gateway.js';
+import { resolveSelectedAgents } from '@/modules/review-execution/entities/progress/agentSelection.js';
+import { findRepositoryByProjectPath, type RepositoryConfig } from '@/config/loader.js';
+import type { LinkedMergeRequest } from '@/modules/review-execution/entities/linkedMergeRequest/linkedMergeRequest.schema.js';
+import {
+  CROSS_REPO_SECTION_HEADING,
+  collectLinkedMergeRequests,
+  formatLinkedMergeRequest,
+  parseDependsOnLinks,
+} from '@/modules/review-execution/entities/linkedMergeRequest/linkedMergeRequest.js';
+import { createTrackedMrId } from '@/modules/tracking/entities/tracking/trackedMr.js';
+
+export const REVIEW_ALLOWED_TOOLS = 'Read,Glob,Grep,Bash,Edit,Task,Skill,Write,LSP,mcp__review-progress__*';
+export const REVIEW_DISALLOWED_TOOLS = 'EnterPlanMode,AskUserQuestion';
 
 /**
  * Bundle of gateways needed by runClaudeReviewJob. Built in the composition
@@ -73,8 +114,8 @@ export interface ClaudeInvocationDeps {
  */
 export interface ClaudeInvokerDependencies {
   diffStatsFetchFactory: (
-    platform: 'gitlab' | 'github',
-  ) => GitLabDiffStatsFetchGateway | GitHubDiffStatsFetchGateway;
+    platform: 'gitlab' | 'github' | 'bitbucket' | 'gitea',
+  ) => GitLabDiffStatsFetchGateway | GitHubDiffStatsFetchGateway | BitbucketDiffStatsFetchGateway | GiteaDiffStatsFetchGateway;
   routingPolicyGateway: ProjectConfigRoutingPolicyGateway;
   selectModelForReview: SelectModelForReviewUseCase;
   trackingGateway: FileSystemReviewRequestTrackingGateway;
@@ -86,6 +127,17 @@ export interface ClaudeInvokerDependencies {
   invocation: ClaudeInvocationDeps;
   worktreeGateway: WorktreeGateway;
   gitExecutor: GitCommandExecutor;
+  reviewContextGateway: ReviewContextGateway;
+  /** Repository of a linked merge request, the server configuration by default. */
+  findRepository?: (projectPath: string) => RepositoryConfig | undefined;
+  /** Engine running the sessions of a project, the `reviewEngine` of its config by default. */
+  selectReviewEngine?: (localPath: string) => ReviewEngineGateway;
+  /**
+   * Trusted-actor gate (SPEC-197) of the job's platform, for the `Depends on`
+   * links of a description. Without it every description is trusted, as the
+   * webhook triggers are without a gate.
+   */
+  isTrustedActor?: (input: { platform: ReviewJob['platform']; projectPath: string; username: string }) => Promise<boolean>;
 }
 
 /**
@@ -160,15 +212,50 @@ export function createDefaultClaudeInvocationDeps(): ClaudeInvocationDeps {
   };
 }
 
+/** Adapter of the engine a project configured, sharing the invocation gateways. */
+export function createReviewEngine(
+  config: ReviewEngineConfig,
+  invocation: ClaudeInvocationDeps,
+): ReviewEngineGateway {
+  if (config.provider === 'openai-compatible') {
+    return new OpenAiCompatibleReviewEngineGateway(
+      config,
+      config.apiKeyEnv ? process.env[config.apiKeyEnv] : undefined,
+      {
+        fetch: globalThis.fetch,
+        connectMcp: StdioMcpToolClient.connect,
+        gitExecutor: new GitCommandCliGateway(),
+        completionBridge: invocation.completionBridge,
+        reportGateway: invocation.reportGateway,
+        now: () => new Date(),
+        timeoutMs: invocation.timeoutMs,
+      },
+    );
+  }
+  return new ClaudeCliReviewEngineGateway({
+    sessionGateway: invocation.sessionGateway,
+    completionBridge: invocation.completionBridge,
+    reportGateway: invocation.reportGateway,
+    billingState: invocation.billingState,
+    environment: invocation.environment,
+    now: () => new Date(),
+    timeoutMs: invocation.timeoutMs,
+    pollIntervalMs: invocation.pollIntervalMs,
+  });
+}
+
 export function createDefaultClaudeInvokerDependencies(): ClaudeInvokerDependencies {
   const tokenUsageGateway = new FilesystemTokenUsageGateway();
   const budgetGateway = new FilesystemBudgetGateway();
   const gitExecutor = new GitCommandCliGateway();
   return {
-    diffStatsFetchFactory: platform =>
-      platform === 'github'
+    diffStatsFetchFactory: platform => {
+      if (platform === 'bitbucket') return new BitbucketDiffStatsFetchGateway(defaultBitbucketExecutor);
+      if (platform === 'gitea') return new GiteaDiffStatsFetchGateway(defaultGiteaExecutor);
+      return platform === 'github'
         ? new GitHubDiffStatsFetchGateway(defaultGitHubExecutor)
-        : new GitLabDiffStatsFetchGateway(defaultGitLabExecutor),
+        : new GitLabDiffStatsFetchGateway(defaultGitLabExecutor);
+    },
     routingPolicyGateway: new ProjectConfigRoutingPolicyGateway(),
     selectModelForReview: new SelectModelForReviewUseCase(),
     trackingGateway: new FileSystemReviewRequestTrackingGateway(new ProjectStatsCalculator()),
@@ -179,6 +266,7 @@ export function createDefaultClaudeInvokerDependencies(): ClaudeInvokerDependenc
     invocation: createDefaultClaudeInvocationDeps(),
     worktreeGateway: new WorktreeFileSystemGateway({ executor: gitExecutor }),
     gitExecutor,
+    reviewContextGateway: new ReviewContextFileSystemGateway(),
   };
 }
 
@@ -269,6 +357,12 @@ export interface InvocationResult {
   cancelled?: boolean;
   usage?: TokenUsage | null;
   selectedModel?: ClaudeModelName;
+  // Head commit of the worktree the review ran on.
+  reviewedHeadSha?: string;
+  // Report file the session wrote (or was expected to write, for followups).
+  reportPath?: string;
+  // Linked merge requests checked out next to the reviewed one.
+  linkedMergeRequests?: LinkedMergeRequest[];
 }
 
 function fetchDiffStatsForJob(
@@ -280,15 +374,37 @@ function fetchDiffStatsForJob(
   return fetchDiffStatsSafely(gateway, job.projectPath, job.mrNumber, logger);
 }
 
+/**
+ * `/reviewflow focus` and `/reviewflow model` preferences of the tracked MR.
+ * A tracking read failure only drops the preferences, never the review.
+ */
+function loadReviewPreferences(
+  job: ReviewJob,
+  deps: ClaudeInvokerDependencies,
+  logger: Logger,
+): ReviewPreferences | null {
+  try {
+    const mrId = `${job.platform}-${job.projectPath}-${job.mrNumber}`;
+    return deps.trackingGateway.getById(job.localPath, mrId)?.preferences ?? null;
+  } catch (error) {
+    logger.warn({ jobId: job.id, error }, 'Failed to read review preferences, using defaults');
+    return null;
+  }
+}
+
 async function resolveModel(
   job: ReviewJob,
   diffStats: DiffStats | null,
   deps: ClaudeInvokerDependencies,
   logger: Logger,
+  preferredModel: ClaudeModelName | undefined,
 ): Promise<ClaudeModelName> {
   if (job.model) {
     return job.model;
   }
+  if (preferredModel) {
+    return preferredModel;
+  }
 
   let defaultModel: ClaudeModelName = getModel();
   try {
@@ -310,11 +426,29 @@ async function resolveModel(
 
 export type ProgressCallback = (progress: ReviewProgress, event?: ProgressEvent) => void;
 
+function buildReviewerRequests(job: ReviewJob, preferences: ReviewPreferences | null): string {
+  const requests: string[] = [];
+  if (preferences?.focus) {
+    requests.push(
+      `- **Focus**: the team asked to focus on **${preferences.focus}**. Keep the usual scope, but dig deepest there and list those findings first.`,
+    );
+  }
+  if (job.explainThreadId) {
+    requests.push(
+      `- **Explain thread \`${job.explainThreadId}\`**: reply to that thread only, with \`add_action({ jobId: "${job.id}", type: "THREAD_REPLY", threadId: "${job.explainThreadId}", message: "..." })\`, explaining the finding, why it matters and how to fix it. Do NOT resolve threads or post any other comment.`,
+    );
+  }
+  if (requests.length === 0) {
+    return '';
+  }
+  return `## Reviewer Requests\n\n${requests.join('\n')}\n\n`;
+}
+
 /**
  * Build MCP system prompt for progress tracking
  * This instruction is AUTHORITATIVE and forces Claude to use MCP tools
  */
-export function buildMcpSystemPrompt(job: ReviewJob): string {
+export function buildMcpSystemPrompt(job: ReviewJob, preferences: ReviewPreferences | null = null): string {
   return `
 # AUTOMATED REVIEW MODE - EXECUTE IMMEDIATELY
 
@@ -385,13 +519,34 @@ Use \`POST_INLINE_COMMENT\` to post comments directly on specific lines in the d
 - **line**: The line number in the NEW version of the file (must be a line visible in the diff)
 - **body**: The comment text (supports markdown)
 - The diff metadata (SHAs) is pre-fetched automatically — just provide filePath, line, and body
+- A line outside the diff is posted as a general comment linking to \`filePath:line\`
+
+### Findings and Result
+\`\`\`
+report_finding({ jobId: "${job.id}", severity: "blocking", agent: "agent-name", title: "...", body: "...", filePath: "src/file.ts", startLine: 40, endLine: 42, suggestedPatch: "...", confidence: 0.9 })
+submit_result({ jobId: "${job.id}", score: 7.5, verdict: "needs_fixes" })
+\`\`\`
+- Call \`report_finding\` once per finding (severity: \`blocking\`, \`warning\` or \`suggestion\`). Stats and tracking count these findings instead of parsing the report
+- A finding with \`filePath\` and a line is published as an inline comment on \`endLine\`: do NOT add a \`POST_INLINE_COMMENT\` for it
+- Call \`submit_result\` once, after the synthesis (verdict: \`ready_to_merge\`, \`needs_fixes\` or \`needs_discussion\`)
+
+### Change Exploration (read-only)
+\`\`\`
+get_mr_metadata({ jobId: "${job.id}" })
+get_changed_files({ jobId: "${job.id}" })
+get_diff({ jobId: "${job.id}", paths: ["src/file.ts"], page: 1, pageSize: 10 })
+get_file_at_ref({ jobId: "${job.id}", path: "src/file.ts", ref: "base", startLine: 1, endLine: 200 })
+\`\`\`
+- \`get_mr_metadata\` returns the title, description, labels and linked issues: do NOT fetch them with glab/gh
+- \`get_diff\` is paginated by file: follow \`totalPages\` instead of loading the whole diff at once
+- \`ref: "base"\` reads the file before the change, \`ref: "head"\` after it
 
 ## Workflow Pattern
 
 1. **Start**: \`set_phase({ jobId: "${job.id}", phase: "initializing" })\`
 2. **Before each audit**: \`start_agent({ jobId: "${job.id}", agentName: "xxx" })\`
 3. **After each audit**: \`complete_agent({ jobId: "${job.id}", agentName: "xxx", status: "success" })\`
-4. **Synthesis**: \`set_phase({ jobId: "${job.id}", phase: "synthesizing" })\`
+4. **Synthesis**: \`set_phase({ jobId: "${job.id}", phase: "synthesizing" })\` then \`submit_result\`
 5. **Threads**: \`start_agent({ jobId: "${job.id}", agentName: "threads" })\` then \`complete_agent\`
 6. **Report**: \`start_agent({ jobId: "${job.id}", agentName: "report" })\` then \`complete_agent\`
 7. **Publishing**: \`set_phase({ jobId: "${job.id}", phase: "publishing" })\`
@@ -402,10 +557,311 @@ Use \`POST_INLINE_COMMENT\` to post comments directly on specific lines in the d
 - Using text markers like [PROGRESS:xxx] → Dashboard won't update
 - Waiting for user approval → Review will hang forever
 
-${buildLanguageDirective(job.language ?? 'en')}
+${buildReviewerRequests(job, preferences)}${buildLanguageDirective(job.language ?? 'en')}
 `.trim();
 }
 
+// The system prompt is one argv entry, which Linux caps at 128 KiB (MAX_ARG_STRLEN).
+// Past this many bytes the delta does not fit: review the whole MR instead. The
+// headroom is for the linked merge requests and retry directives appended later.
+const MAX_SYSTEM_PROMPT_BYTES = 100_000;
+
+type IncrementalDiff = Extract<IncrementalDiffResult, { status: 'computed' }>;
+
+/**
+ * Delta pushed since the last reviewed head, when the project runs incremental
+ * follow-ups. null sends the follow-up over the whole MR.
+ */
+async function planIncrementalFollowup(
+  job: ReviewJob,
+  worktreePath: string,
+  systemPrompt: string,
+  deps: ClaudeInvokerDependencies,
+  logger: Logger,
+): Promise<{ delta: IncrementalDiff; systemPrompt: string } | null> {
+  try {
+    if (loadProjectConfig(job.localPath)?.incrementalFollowups !== true) {
+      return null;
+    }
+    const mrId = `${job.platform}-${job.projectPath}-${job.mrNumber}`;
+    const reviews = deps.trackingGateway.getById(job.localPath, mrId)?.reviews ?? [];
+    const sinceSha = [...reviews].reverse().find(event => event.headSha)?.headSha;
+    if (!sinceSha) {
+      logger.info({ jobId: job.id }, 'No reviewed head recorded, running a full followup');
+      return null;
+    }
+
+    const delta = await computeIncrementalDiff({ worktreePath, sinceSha }, { executor: deps.gitExecutor });
+    if (delta.status === 'unavailable') {
+      logger.info({ jobId: job.id, sinceSha, reason: delta.reason }, 'Incremental diff unavailable, running a full followup');
+      return null;
+    }
+    const incrementalPrompt = withIncrementalFollowupDirective(systemPrompt, delta);
+    if (incrementalPrompt === null) {
+      logger.info({ jobId: job.id, sinceSha, diffLength: delta.diff.length }, 'Incremental diff too large, running a full followup');
+      return null;
+    }
+    return { delta, systemPrompt: incrementalPrompt };
+  } catch (error) {
+    logger.warn({ jobId: job.id, error }, 'Failed to plan incremental followup, running a full followup');
+    return null;
+  }
+}
+
+/** System prompt section restricting a follow-up to the delta since the last review. */
+export function buildIncrementalFollowupDirective(delta: IncrementalDiff): string {
+  const since = delta.sinceSha.slice(0, 12);
+  const source =
+    delta.mode === 'fast-forward'
+      ? `The delta below is \`git diff ${since} HEAD\`.`
+      : `The branch was force-pushed since then: the delta below is \`git range-diff ${since}...HEAD\`, comparing the reviewed commits with the new ones.`;
+  const diff = delta.diff.trim().length > 0 ? delta.diff.trimEnd() : '(no code change)';
+  return `
+## INCREMENTAL FOLLOWUP
+
+The last review ran on \`${since}\`. Review ONLY what was pushed since (${delta.diffStats.commitsCount} commit(s), +${delta.diffStats.additions}/-${delta.diffStats.deletions}); do NOT review the whole merge request again.
+- Check each open thread from \`get_threads\` against this delta.
+- Report new issues only when the delta introduces them.
+
+${source}
+
+\`\`\`\`diff
+${diff}
+\`\`\`\`
+`;
+}
+
+/**
+ * The system prompt with the incremental follow-up directive, or null when it
+ * no longer fits one argv entry. Bytes are counted, not characters: accented
+ * or CJK content takes two to four bytes per character.
+ */
+export function withIncrementalFollowupDirective(systemPrompt: string, delta: IncrementalDiff): string | null {
+  const prompt = `${systemPrompt}\n${buildIncrementalFollowupDirective(delta)}`.trimEnd();
+  return Buffer.byteLength(prompt, 'utf8') > MAX_SYSTEM_PROMPT_BYTES ? null : prompt;
+}
+
+export interface LinkedWorktree extends LinkedMergeRequest {
+  worktreePath: string;
+  sourceBranch: string;
+  targetBranch: string;
+}
+
+/**
+ * Merge requests the job is linked to: those linked from the dashboard, and the
+ * `Depends on` lines of its description when its author or trigger actor passes
+ * the trusted-actor gate. Anyone able to edit a description could otherwise have
+ * another repository checked out, read and commented on.
+ */
+export async function collectJobLinkedMergeRequests(
+  job: ReviewJob,
+  dashboardLinks: readonly LinkedMergeRequest[],
+  isTrustedActor: ClaudeInvokerDependencies['isTrustedActor'],
+): Promise<LinkedMergeRequest[]> {
+  const self = { projectPath: job.projectPath, mrNumber: job.mrNumber };
+  const descriptionLinks = parseDependsOnLinks(job.description);
+  if (descriptionLinks.length === 0 || !isTrustedActor) {
+    return collectLinkedMergeRequests(self, descriptionLinks, dashboardLinks);
+  }
+
+  const actors = new Set([job.author?.username, job.triggeredBy].filter((username): username is string => !!username));
+  for (const username of actors) {
+    if (await isTrustedActor({ platform: job.platform, projectPath: job.projectPath, username })) {
+      return collectLinkedMergeRequests(self, descriptionLinks, dashboardLinks);
+    }
+  }
+  logWarn('Liens « Depends on » ignorés : ni l’auteur ni le déclencheur ne sont de confiance', {
+    jobId: job.id,
+    linked: descriptionLinks.map((link) => formatLinkedMergeRequest(link, job.platform)),
+  });
+  return collectLinkedMergeRequests(self, dashboardLinks);
+}
+
+/**
+ * Worktrees of the merge requests the job is linked to (see
+ * collectJobLinkedMergeRequests). A link is skipped when its
+ * repository is not configured or ReviewFlow does not track its merge request,
+ * since its branch is then unknown.
+ */
+async function prepareLinkedWorktrees(
+  job: ReviewJob,
+  deps: ClaudeInvokerDependencies,
+  logger: Logger,
+): Promise<LinkedWorktree[]> {
+  let links: LinkedMergeRequest[];
+  try {
+    const mrId = createTrackedMrId(job.platform, job.projectPath, job.mrNumber);
+    const dashboardLinks = deps.trackingGateway.getById(job.localPath, mrId)?.linkedMrs ?? [];
+    links = await collectJobLinkedMergeRequests(job, dashboardLinks, deps.isTrustedActor);
+  } catch (error) {
+    logger.warn({ jobId: job.id, error }, 'Failed to read linked merge requests, reviewing this one alone');
+    return [];
+  }
+
+  const findRepository = deps.findRepository ?? findRepositoryByProjectPath;
+  const worktrees: LinkedWorktree[] = [];
+  for (const link of links) {
+    const reference = formatLinkedMergeRequest(link, job.platform);
+    const repository = findRepository(link.projectPath);
+    if (!repository) {
+      logWarn('MR liée ignorée : dépôt non configuré', { jobId: job.id, linked: reference });
+      continue;
+    }
+    const tracked = deps.trackingGateway.getById(
+      repository.localPath,
+      createTrackedMrId(job.platform, link.projectPath, link.mrNumber),
+    );
+    if (!tracked) {
+      logWarn('MR liée ignorée : MR non suivie, branche inconnue', { jobId: job.id, linked: reference });
+      continue;
+    }
+    const ensured = await deps.worktreeGateway.ensure({
+      identity: { platform: job.platform, projectPath: link.projectPath, mrNumber: link.mrNumber },
+      sourceBranch: tracked.sourceBranch,
+      source: { kind: 'origin' },
+      sourceCheckoutPath: repository.localPath,
+    });
+    if (ensured.status === 'failed') {
+      logWarn('MR liée ignorée : préparation worktree échouée', { jobId: job.id, linked: reference, reason: ensured.reason });
+      continue;
+    }
+    worktrees.push({
+      ...link,
+      worktreePath: ensured.path,
+      sourceBranch: tracked.sourceBranch,
+      targetBranch: tracked.targetBranch,
+    });
+  }
+  return worktrees;
+}
+
+/** System prompt section giving the session the worktrees of the linked merge requests. */
+export function buildLinkedMergeRequestsDirective(
+  platform: ReviewJob['platform'],
+  linked: readonly LinkedWorktree[],
+): string {
+  const list = linked
+    .map(link => `- \`${formatLinkedMergeRequest(link, platform)}\` (\`${link.sourceBranch}\` into \`${link.targetBranch}\`): \`${link.worktreePath}\``)
+    .join('\n');
+  return `
+## LINKED MERGE REQUESTS
+
+This merge request ships together with the merge requests below, each checked out in its own worktree:
+${list}
+
+Review them together with this one for cross-repository consistency: API contracts, shared types and payloads that no longer match, schema changes without their migration. \`git -C <worktree> diff origin/<target>...HEAD\` shows what a linked merge request changes. Do not comment on the linked merge requests yourself.
+
+End the review report with a \`${CROSS_REPO_SECTION_HEADING}\` section listing each mismatch, or stating that none was found, and include it in your summary comment. ReviewFlow posts that section on every linked merge request.
+`;
+}
+
+export interface RetryResumeState {
+  attempt: number;
+  contextFilePath: string;
+  completedSteps: readonly string[];
+  recordedActions: number;
+}
+
+/**
+ * System prompt section of a retried session: the audits a previous session
+ * finished are not run again, their actions stay in the context file.
+ * Empty when the previous sessions left nothing to reuse.
+ */
+export function buildRetryResumeDirective(state: RetryResumeState): string {
+  if (state.completedSteps.length === 0 && state.recordedActions === 0) {
+    return '';
+  }
+  const steps = state.completedSteps.map(step => `\`${step}\``).join(', ');
+  return `
+## RESUMED REVIEW (attempt ${state.attempt + 1})
+
+A previous session of this review stopped before the end. Reuse its work:
+${steps ? `- Audits already finished: ${steps}. Do NOT run them again.\n` : ''}- ${state.recordedActions} action(s) recorded by the previous session are already in \`${state.contextFilePath}\`. Read them for those findings, include them in the report and do NOT add them again.
+- Run the remaining audits, then synthesize and publish as usual.
+`;
+}
+
+function formatAgentDispatch(agent: AgentDefinition): string | null {
+  const dispatch = agentDispatchOf(agent);
+  if (!dispatch) {
+    return null;
+  }
+  const settings = [
+    dispatch.model ? `model \`${dispatch.model}\`` : null,
+    dispatch.allowedTools ? `tools ${dispatch.allowedTools.map(tool => `\`${tool}\``).join(', ')}` : null,
+    dispatch.timeoutMs ? `timeout ${Math.ceil(dispatch.timeoutMs / 1000)}s` : null,
+    dispatch.promptFile ? `instructions from \`${dispatch.promptFile}\`` : null,
+  ].filter(setting => setting !== null);
+  return `- \`${agent.name}\`: ${settings.join(', ')}`;
+}
+
+/**
+ * System prompt section telling the skill how to run the agents the project
+ * configures a model, tools, a timeout or instructions for.
+ * Empty when no agent has such settings.
+ */
+export function buildAgentDispatchDirective(agents: readonly AgentDefinition[]): string {
+  const lines = agents.map(formatAgentDispatch).filter(line => line !== null);
+  if (lines.length === 0) {
+    return '';
+  }
+  return `
+## AGENT DISPATCH
+
+The project sets how these agents run:
+${lines.join('\n')}
+
+Each of them is a subagent of this session, with its model, tools and instructions already set. Run it with the \`Task\` tool, after \`start_agent\`:
+- Use the agent name as \`subagent_type\` and give the job ID as its prompt.
+- Once its timeout has passed, the server marks the agent failed with \`error: "timeout"\`: stop waiting for the subagent and move on.
+- Pass the total tokens the \`Task\` result reports to \`complete_agent({ ..., tokens })\`.
+Agents not listed here run in this session, as usual.
+`;
+}
+
+/** A subagent definition of the `--agents` flag of the Claude CLI. */
+interface SubagentDefinition {
+  description: string;
+  prompt: string;
+  tools?: string[];
+  model?: string;
+}
+
+/**
+ * The `--agents` value defining the agents of buildAgentDispatchDirective as
+ * subagents, so the CLI enforces their model and tools. `readPromptFile` reads
+ * a `promptFile` of the project, null when it cannot. Null when no agent has
+ * dispatch settings.
+ */
+export function buildSubagentsJson(
+  agents: readonly AgentDefinition[],
+  readPromptFile: (promptFile: string) => string | null,
+): string | null {
+  const definitions: Record<string, SubagentDefinition> = {};
+  for (const agent of agents) {
+    const dispatch = agentDispatchOf(agent);
+    if (!dispatch) {
+      continue;
+    }
+    const instructions = dispatch.promptFile ? readPromptFile(dispatch.promptFile) : null;
+    definitions[agent.name] = {
+      description: `${agent.displayName} audit of the merge request under review`,
+      prompt: instructions ?? `You run the ${agent.displayName} audit of the merge request review whose job ID you are given.`,
+      ...(dispatch.allowedTools ? { tools: dispatch.allowedTools } : {}),
+      ...(dispatch.model ? { model: dispatch.model } : {}),
+    };
+  }
+  return Object.keys(definitions).length > 0 ? JSON.stringify(definitions) : null;
+}
+
+function readProjectPromptFile(localPath: string, promptFile: string): string | null {
+  try {
+    return readFileSync(join(localPath, promptFile), 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Invoke Claude Code CLI for a review job
  * @param job - The review job to execute
@@ -428,11 +884,28 @@ export async function invokeClaudeReview(
   // Fetch diff stats once: reused for both model routing and end-of-review stats
   const diffStats = fetchDiffStatsForJob(job, deps, logger);
 
-  // Select model: explicit job override > routing policy + diff stats > project default > runtime default
-  const model = await resolveModel(job, diffStats, deps, logger);
+  const preferences = loadReviewPreferences(job, deps, logger);
+
+  // Select model: explicit job override > `/reviewflow model` > routing policy + diff stats > project default > runtime default
+  const model = await resolveModel(job, diffStats, deps, logger, preferences?.model);
+
+  // Load project-specific agents configuration (use followup agents for followup jobs)
+  const isFollowup = job.jobType === 'followup';
+  const projectAgents = isFollowup
+    ? getFollowupAgents(job.localPath)
+    : getProjectAgents(job.localPath);
+  // Only the agents selected for the changed files are dispatched
+  const reviewContext = deps.reviewContextGateway.read(
+    job.localPath,
+    `${job.platform}-${job.projectPath}-${job.mrNumber}`,
+  );
+  const dispatchedAgents = resolveSelectedAgents(projectAgents, reviewContext?.progress.agents) ?? [];
 
   // Build MCP system prompt injection
-  const mcpSystemPrompt = buildMcpSystemPrompt(job);
+  const mcpSystemPrompt = `${buildMcpSystemPrompt(job, preferences)}\n${buildAgentDispatchDirective(dispatchedAgents)}`.trimEnd();
+  const subagentsJson = buildSubagentsJson(dispatchedAgents, promptFile =>
+    readProjectPromptFile(job.localPath, promptFile),
+  );
 
   // Build MCP config: isolated from project .mcp.json to avoid
   // third-party MCP servers (e.g. gitnexus) causing initialization timeouts
@@ -448,8 +921,9 @@ export async function invokeClaudeReview(
     '--append-system-prompt', mcpSystemPrompt,
     '--mcp-config', mcpConfigJson,
     '--strict-mcp-config',
-    '--allowedTools', 'Read,Glob,Grep,Bash,Edit,Task,Skill,Write,LSP,mcp__review-progress__*',
-    '--disallowedTools', 'EnterPlanMode,AskUserQuestion',
+    ...(subagentsJson ? ['--agents', subagentsJson] : []),
+    '--allowedTools', REVIEW_ALLOWED_TOOLS,
+    '--disallowedTools', REVIEW_DISALLOWED_TOOLS,
     prompt,
   ];
 
@@ -465,12 +939,6 @@ export async function invokeClaudeReview(
     'Invocation Claude CLI'
   );
 
-  // Load project-specific agents configuration (use followup agents for followup jobs)
-  const isFollowup = job.jobType === 'followup';
-  const projectAgents = isFollowup
-    ? getFollowupAgents(job.localPath)
-    : getProjectAgents(job.localPath);
-
   // Log to dashboard
   logInfo(isFollowup ? 'Démarrage followup Claude' : 'Démarrage review Claude', {
     jobId: job.id,
@@ -500,8 +968,10 @@ export async function invokeClaudeReview(
       job,
       prompt,
       model,
+      preferences,
       mcpSystemPrompt,
       mcpConfigJson,
+      subagentsJson,
       diffStats,
       startTime,
       signal,
@@ -516,8 +986,10 @@ interface BackgroundDispatchContext {
   job: ReviewJob;
   prompt: string;
   model: ClaudeModelName;
+  preferences: ReviewPreferences | null;
   mcpSystemPrompt: string;
   mcpConfigJson: string;
+  subagentsJson: string | null;
   diffStats: DiffStats | null;
   startTime: number;
   signal?: AbortSignal;
@@ -536,7 +1008,8 @@ async function invokeViaBackgroundSession(
   onProgress: ProgressCallback | undefined,
   deps: ClaudeInvokerDependencies,
 ): Promise<InvocationResult> {
-  const { job, prompt, model, mcpSystemPrompt, mcpConfigJson, diffStats, startTime, signal } = context;
+  const { job, prompt, preferences, mcpConfigJson, subagentsJson, diffStats, startTime, signal } = context;
+  let { model, mcpSystemPrompt } = context;
   const invocation = deps.invocation;
   const mergeRequestId = `${job.platform}-${job.projectPath}-${job.mrNumber}`;
   const jobType = job.jobType === 'followup' ? 'followup' : 'review';
@@ -590,25 +1063,61 @@ async function invokeViaBackgroundSession(
       'Claude cwd points to a sub-path of the worktree (monorepo source checkout)',
     );
   }
-  // attempt counter is reserved for the queue layer to re-enqueue with backoff
-  // when status === 'retry' is returned. Until that wiring exists, every
-  // invocation is treated as attempt 0 and a single retry signal surfaces back
-  // to the controller as a soft failure.
-  const attempt = 0;
+  const reviewedHeadSha = (await readWorktreeHead(worktreePath, deps.gitExecutor)) ?? undefined;
+
+  const incrementalFollowup =
+    jobType === 'followup' ? await planIncrementalFollowup(job, worktreePath, mcpSystemPrompt, deps, logger) : null;
+  if (incrementalFollowup) {
+    const incrementalDelta = incrementalFollowup.delta;
+    mcpSystemPrompt = incrementalFollowup.systemPrompt;
+    // Route on the size of the delta, not of the whole MR.
+    model = await resolveModel(job, incrementalDelta.diffStats, deps, logger, preferences?.model);
+    logInfo('Followup incrémental', {
+      jobId: job.id,
+      since: incrementalDelta.sinceSha.slice(0, 12),
+      mode: incrementalDelta.mode,
+      commits: incrementalDelta.diffStats.commitsCount,
+      model,
+    });
+  }
+
+  const linkedWorktrees = await prepareLinkedWorktrees(job, deps, logger);
+  if (linkedWorktrees.length > 0) {
+    mcpSystemPrompt = `${mcpSystemPrompt}\n${buildLinkedMergeRequestsDirective(job.platform, linkedWorktrees)}`.trimEnd();
+    logInfo('Review multi-dépôts', {
+      jobId: job.id,
+      linked: linkedWorktrees.map(link => formatLinkedMergeRequest(link, job.platform)).join(', '),
+    });
+  }
 
   const flags = {
     model,
     mcpConfigJson,
     systemPrompt: mcpSystemPrompt,
-    allowedTools: 'Read,Glob,Grep,Bash,Edit,Task,Skill,Write,LSP,mcp__review-progress__*',
-    disallowedTools: 'EnterPlanMode,AskUserQuestion',
+    allowedTools: REVIEW_ALLOWED_TOOLS,
+    disallowedTools: REVIEW_DISALLOWED_TOOLS,
     permissionMode: 'auto' as const,
+    additionalDirectories: linkedWorktrees.map(link => link.worktreePath),
+    ...(subagentsJson ? { agentsJson: subagentsJson } : {}),
   };
 
-  let result: Awaited<ReturnType<typeof runClaudeReviewJob>>;
-  try {
-    result = await runClaudeReviewJob(
-      {
+  const engine =
+    deps.selectReviewEngine?.(job.localPath) ?? createReviewEngine(getProjectReviewEngine(job.localPath), invocation);
+  if (engine.provider !== 'claude') {
+    logInfo('Moteur de review', { jobId: job.id, provider: engine.provider });
+  }
+
+  // Failed sessions are retried in place: the job gives up its slot while it
+  // waits, but keeps the review context created by the controller, so a retry
+  // can reuse the finished audits. Each failure class spends its own attempts.
+  const retryPolicies = getProjectRetryPolicies(job.localPath);
+  const completedSteps = new Set<string>();
+  const attempts: ReviewEngineRunInput['attempts'] = {};
+  let retries = 0;
+  let result: RunClaudeReviewJobResult;
+  for (;;) {
+    try {
+      result = await engine.run({
         jobId: job.id,
         jobType,
         prompt,
@@ -617,33 +1126,71 @@ async function invokeViaBackgroundSession(
         reportFallbackLocalPath: worktreePath,
         mergeRequestId,
         mergeRequestNumber: job.mrNumber,
-        attempt,
+        attempts,
+        retryPolicies,
         signal,
-      },
-      {
-        sessionGateway: invocation.sessionGateway,
-        completionBridge: invocation.completionBridge,
-        reportGateway: invocation.reportGateway,
-        billingState: invocation.billingState,
-        environment: invocation.environment,
-        now: () => new Date(),
-        timeoutMs: invocation.timeoutMs,
-        pollIntervalMs: invocation.pollIntervalMs,
-      },
-    );
-  } catch (error) {
-    cleanupMcpContext(job.id);
-    const message = error instanceof Error ? error.message : String(error);
-    logger.error({ error: message, jobId: job.id }, 'runClaudeReviewJob threw');
-    logError('Review en erreur', { jobId: job.id, message });
-    return {
-      success: false,
-      exitCode: null,
-      stdout: '',
-      stderr: message,
-      durationMs: Date.now() - startTime,
-      selectedModel: model,
-    };
+      });
+    } catch (error) {
+      cleanupMcpContext(job.id);
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error({ error: message, jobId: job.id, provider: engine.provider }, 'Review engine threw');
+      logError('Review en erreur', { jobId: job.id, message });
+      return {
+        success: false,
+        exitCode: null,
+        stdout: '',
+        stderr: message,
+        durationMs: Date.now() - startTime,
+        selectedModel: model,
+      };
+    }
+
+    if (result.status !== 'retry') {
+      break;
+    }
+
+    logWarn('Session de review en échec — nouvelle tentative programmée', {
+      jobId: job.id,
+      failureClass: result.failureClass,
+      reason: result.reason,
+      delayMs: result.delayMs,
+      attempt: `${result.attempt}/${result.maxAttempts}`,
+    });
+    setJobRetry(job.id, {
+      attempt: result.attempt,
+      maxAttempts: result.maxAttempts,
+      failureClass: result.failureClass,
+      retryAt: new Date(Date.now() + result.delayMs),
+    });
+    const retryDue = await waitForJobRetry(job.id, result.delayMs, signal);
+    setJobRetry(job.id, null);
+    if (!retryDue) {
+      cleanupMcpContext(job.id);
+      logWarn('Review annulée pendant l\'attente de la nouvelle tentative', { jobId: job.id });
+      return {
+        success: false,
+        exitCode: null,
+        stdout: '',
+        stderr: 'Review cancelled while waiting for retry',
+        durationMs: Date.now() - startTime,
+        cancelled: true,
+        selectedModel: model,
+      };
+    }
+
+    attempts[result.failureClass] = result.attempt;
+    retries += 1;
+    const reviewContext = deps.reviewContextGateway.read(job.localPath, mergeRequestId);
+    for (const step of reviewContext?.progress.stepsCompleted ?? []) {
+      completedSteps.add(step);
+    }
+    const resumeDirective = buildRetryResumeDirective({
+      attempt: retries,
+      contextFilePath: deps.reviewContextGateway.getFilePath(job.localPath, mergeRequestId),
+      completedSteps: [...completedSteps],
+      recordedActions: reviewContext?.actions.length ?? 0,
+    });
+    flags.systemPrompt = `${mcpSystemPrompt}\n${resumeDirective}`.trimEnd();
   }
 
   cleanupMcpContext(job.id);
@@ -665,11 +1212,14 @@ async function invokeViaBackgroundSession(
         const mrId = `${job.platform}-${job.projectPath}-${job.mrNumber}`;
         const mrDetails = deps.trackingGateway.getById(job.localPath, mrId);
         const assignedBy = mrDetails?.assignment?.username;
-        const reviewStats = addReviewStats(
+        const reviewStats = recordReviewStats(
           job.localPath,
           job.mrNumber,
           durationMs,
-          result.content,
+          resolveReviewStats(
+            parseReviewOutput(result.content),
+            deps.reviewContextGateway.read(job.localPath, mergeRequestId),
+          ),
           assignedBy,
           diffStats,
         );
@@ -731,22 +1281,9 @@ async function invokeViaBackgroundSession(
       durationMs,
       usage: result.usage?.usage ?? null,
       selectedModel: model,
-    };
-  }
-
-  if (result.status === 'retry') {
-    logWarn('Rate-limited — backoff demandé', {
-      jobId: job.id,
-      delayMs: result.delayMs,
-      nextAttempt: result.attempt,
-    });
-    return {
-      success: false,
-      exitCode: 1,
-      stdout: '',
-      stderr: `rate-limited; retry in ${result.delayMs}ms (attempt ${result.attempt})`,
-      durationMs,
-      selectedModel: model,
+      reviewedHeadSha,
+      reportPath: result.reportPath,
+      linkedMergeRequests: linkedWorktrees.map(({ projectPath, mrNumber }) => ({ projectPath, mrNumber })),
     };
   }
 
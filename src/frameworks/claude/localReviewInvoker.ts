@@ -0,0 +1,323 @@
+import { basename } from 'node:path';
+import type { ReviewJob } from '@/frameworks/queue/pQueueAdapter.js';
+import { getModel } from '@/frameworks/settings/runtimeSettings.js';
+import { loadProjectConfig, type ProjectConfig } from '@/config/projectConfig.js';
+import {
+  REVIEW_ALLOWED_TOOLS,
+  REVIEW_DISALLOWED_TOOLS,
+  buildMcpConfigJson,
+  buildMcpSystemPrompt,
+  cleanupMcpContext,
+  createDefaultClaudeInvocationDeps,
+  createReviewEngine,
+  writeMcpContext,
+} from '@/frameworks/claude/claudeInvoker.js';
+import type {
+  ReviewEngineRunInput,
+  ReviewEngineRunResult,
+} from '@/modules/claude-invocation/entities/reviewEngine/reviewEngine.gateway.js';
+import {
+  DEFAULT_REVIEW_ENGINE,
+  type ReviewEngineConfig,
+} from '@/modules/claude-invocation/entities/reviewEngine/reviewEngine.schema.js';
+import type { ClaudeModelName } from '@/modules/review-execution/entities/modelRouting/modelRouting.schema.js';
+import { DEFAULT_AGENTS } from '@/modules/review-execution/entities/progress/agentDefinition.type.js';
+import { selectAgentsForChanges } from '@/modules/review-execution/entities/progress/agentSelection.js';
+import {
+  type ReviewFocus,
+  defaultAgentsForFocus,
+  reviewSkillForFocus,
+} from '@/modules/review-execution/entities/progress/reviewFocus.type.js';
+import type { ReviewContextGateway } from '@/modules/review-execution/entities/reviewContext/reviewContext.gateway.js';
+import { findingAnchorLine, formatFindingComment } from '@/modules/review-execution/entities/reviewFinding/reviewFinding.js';
+import { ReviewContextFileSystemGateway } from '@/modules/review-execution/interface-adapters/gateways/reviewContext.fileSystem.gateway.js';
+import type { GitCommandExecutor } from '@/modules/worktree-management/entities/gitCommand/gitCommand.gateway.js';
+import type { WorktreeGateway } from '@/modules/worktree-management/entities/worktree/worktree.gateway.js';
+import type { WorktreeIdentity } from '@/modules/worktree-management/entities/worktree/worktree.schema.js';
+import { GitCommandCliGateway } from '@/modules/worktree-management/interface-adapters/gateways/gitCommand.cli.gateway.js';
+import { WorktreeFileSystemGateway } from '@/modules/worktree-management/interface-adapters/gateways/worktree.fileSystem.gateway.js';
+import { resolveClaudeCwd } from '@/modules/worktree-management/services/claudeCwd.js';
+
+export interface LocalReviewRequest {
+  /** Directory of the checkout to review, a sub-directory of a monorepo included. */
+  localPath: string;
+  base: string;
+  head: string;
+  focus?: ReviewFocus;
+}
+
+export interface LocalReviewFinding {
+  filePath: string | null;
+  line: number | null;
+  body: string;
+}
+
+export type LocalReviewResult =
+  | {
+      status: 'completed';
+      base: string;
+      head: string;
+      baseSha: string;
+      headSha: string;
+      skill: string;
+      model: ClaudeModelName;
+      report: string;
+      findings: LocalReviewFinding[];
+      durationMs: number;
+    }
+  | { status: 'failed'; reason: string };
+
+/**
+ * Gateways of a review run from the CLI. No platform gateway: a local review
+ * reads the commits from the checkout and publishes nothing.
+ */
+export interface LocalReviewDependencies {
+  gitExecutor: GitCommandExecutor;
+  worktreeGateway: WorktreeGateway;
+  reviewContextGateway: ReviewContextGateway;
+  loadProjectConfig: (localPath: string) => ProjectConfig | undefined;
+  runSession: (input: ReviewEngineRunInput, engine: ReviewEngineConfig) => Promise<ReviewEngineRunResult>;
+  buildMcpConfigJson: () => string;
+  writeMcpContext: (job: ReviewJob) => void;
+  cleanupMcpContext: (jobId: string) => void;
+  defaultModel: () => ClaudeModelName;
+  now: () => Date;
+}
+
+export function createDefaultLocalReviewDependencies(): LocalReviewDependencies {
+  const gitExecutor = new GitCommandCliGateway();
+  const invocation = createDefaultClaudeInvocationDeps();
+  return {
+    gitExecutor,
+    worktreeGateway: new WorktreeFileSystemGateway({ executor: gitExecutor }),
+    reviewContextGateway: new ReviewContextFileSystemGateway(),
+    loadProjectConfig,
+    runSession: (input, engine) => createReviewEngine(engine, invocation).run(input),
+    buildMcpConfigJson,
+    writeMcpContext,
+    cleanupMcpContext,
+    defaultModel: getModel,
+    now: () => new Date(),
+  };
+}
+
+/** System prompt section telling the session it reviews commits, not a merge request. */
+export function buildLocalReviewDirective(
+  range: { base: string; head: string; baseSha: string; headSha: string },
+  mrNumber: number,
+): string {
+  return `
+## LOCAL REVIEW
+
+There is no merge request: this session reviews commits of a local checkout, before any merge request is opened.
+- **Changes under review**: \`git diff ${range.baseSha}...${range.headSha}\` (\`${range.base}\` to \`${range.head}\`). The working directory is checked out at \`${range.headSha}\`.
+- MR number ${mrNumber} only names the report file.
+- There are no discussion threads and nothing is published. Do NOT run glab, gh or any platform API: skip the steps that fetch merge request metadata, threads or pipelines.
+- \`get_changed_files\`, \`get_diff\` and \`get_file_at_ref\` work on this range. \`get_mr_metadata\` does not: there is no merge request.
+- Record every finding with \`report_finding\` and the summary with \`add_action\` (\`POST_COMMENT\`), as usual. ReviewFlow prints them in the terminal.
+`;
+}
+
+async function resolveCommit(
+  ref: string,
+  localPath: string,
+  executor: GitCommandExecutor,
+): Promise<string | null> {
+  const result = await executor.execute({
+    kind: 'rev-parse-commit',
+    args: ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`],
+    cwd: localPath,
+  });
+  const sha = result.stdout.trim();
+  return result.exitCode === 0 && sha.length > 0 ? sha : null;
+}
+
+function resolveSkill(focus: ReviewFocus | undefined, config: ProjectConfig | undefined): string | null {
+  if (focus) return reviewSkillForFocus(focus);
+  return config?.reviewSkill ?? null;
+}
+
+function resolveAgents(focus: ReviewFocus | undefined, config: ProjectConfig | undefined) {
+  if (focus) return defaultAgentsForFocus(focus);
+  if (config?.agents) return config.agents;
+  return config?.reviewFocus ? defaultAgentsForFocus(config.reviewFocus) : DEFAULT_AGENTS;
+}
+
+/** Paths the commits change since their merge base, null when git fails. */
+async function listChangedPaths(
+  baseSha: string,
+  headSha: string,
+  cwd: string,
+  executor: GitCommandExecutor,
+): Promise<string[] | null> {
+  const diff = await executor.execute({
+    kind: 'diff',
+    args: ['diff', '--name-only', '-z', `${baseSha}...${headSha}`],
+    cwd,
+  });
+  if (diff.exitCode !== 0) return null;
+  return diff.stdout.split('\0').filter((path) => path.length > 0);
+}
+
+/**
+ * Reviews the commits `base..head` of a local checkout with the skill and
+ * agents of the project, through the same session path as a merge request
+ * review. The commits are checked out in a worktree removed afterwards; the
+ * findings the session records are returned instead of published.
+ */
+export async function runLocalReview(
+  request: LocalReviewRequest,
+  deps: LocalReviewDependencies,
+): Promise<LocalReviewResult> {
+  const startTime = deps.now().getTime();
+  const toplevel = await deps.gitExecutor.execute({
+    kind: 'rev-parse-toplevel',
+    args: ['rev-parse', '--show-toplevel'],
+    cwd: request.localPath,
+  });
+  if (toplevel.exitCode !== 0) {
+    return { status: 'failed', reason: `not a git repository: ${request.localPath}` };
+  }
+
+  const baseSha = await resolveCommit(request.base, request.localPath, deps.gitExecutor);
+  if (!baseSha) return { status: 'failed', reason: `unknown base: ${request.base}` };
+  const headSha = await resolveCommit(request.head, request.localPath, deps.gitExecutor);
+  if (!headSha) return { status: 'failed', reason: `unknown head: ${request.head}` };
+
+  const commits = await deps.gitExecutor.execute({
+    kind: 'rev-list',
+    args: ['rev-list', '--count', `${baseSha}..${headSha}`],
+    cwd: request.localPath,
+  });
+  if (commits.exitCode === 0 && commits.stdout.trim() === '0') {
+    return { status: 'failed', reason: `no commits between ${request.base} and ${request.head}` };
+  }
+
+  let config: ProjectConfig | undefined;
+  try {
+    config = deps.loadProjectConfig(request.localPath);
+  } catch (error) {
+    return { status: 'failed', reason: `invalid project config: ${error instanceof Error ? error.message : String(error)}` };
+  }
+  const skill = resolveSkill(request.focus, config);
+  if (!skill) {
+    return { status: 'failed', reason: 'no review skill: configure .claude/reviews/config.json or pass --focus' };
+  }
+
+  // The head names the run, so reviewing the same commits again reuses its worktree.
+  const mrNumber = Number.parseInt(headSha.slice(0, 7), 16) || 1;
+  const identity: WorktreeIdentity = {
+    platform: config?.github ? 'github' : 'gitlab',
+    projectPath: `local/${basename(toplevel.stdout.trim())}`,
+    mrNumber,
+  };
+  const mergeRequestId = `${identity.platform}-${identity.projectPath}-${mrNumber}`;
+  const model = config?.defaultModel ?? deps.defaultModel();
+  const job: ReviewJob = {
+    id: `local:${identity.projectPath}:${mrNumber}`,
+    platform: identity.platform,
+    projectPath: identity.projectPath,
+    localPath: request.localPath,
+    mrNumber,
+    skill,
+    mrUrl: '',
+    sourceBranch: request.head,
+    targetBranch: request.base,
+    jobType: 'review',
+    language: config?.language ?? 'en',
+    model,
+    title: `Local review of ${request.base}..${request.head}`,
+  };
+
+  const ensured = await deps.worktreeGateway.ensure({
+    identity,
+    sourceBranch: headSha,
+    source: { kind: 'local' },
+    sourceCheckoutPath: request.localPath,
+  });
+  if (ensured.status === 'failed') {
+    return { status: 'failed', reason: `worktree preparation failed: ${ensured.reason}` };
+  }
+
+  try {
+    const claudeCwd = await resolveClaudeCwd({
+      localPath: request.localPath,
+      worktreePath: ensured.path,
+      executor: deps.gitExecutor,
+    });
+    const agents = selectAgentsForChanges(
+      resolveAgents(request.focus, config),
+      await listChangedPaths(baseSha, headSha, request.localPath, deps.gitExecutor),
+    );
+    deps.reviewContextGateway.create({
+      localPath: request.localPath,
+      mergeRequestId,
+      platform: identity.platform,
+      projectPath: identity.projectPath,
+      mergeRequestNumber: mrNumber,
+      threads: [],
+      agents: agents.agents,
+      diffMetadata: { baseSha, headSha, startSha: baseSha },
+      skippedAgents: agents.skipped,
+    });
+    deps.writeMcpContext(job);
+
+    const range = { base: request.base, head: request.head, baseSha, headSha };
+    const result = await deps.runSession(
+      {
+        jobId: job.id,
+        jobType: 'review',
+        prompt: `/${skill} ${mrNumber}`,
+        flags: {
+          model,
+          mcpConfigJson: deps.buildMcpConfigJson(),
+          systemPrompt: `${buildMcpSystemPrompt(job)}\n${buildLocalReviewDirective(range, mrNumber)}`.trimEnd(),
+          allowedTools: REVIEW_ALLOWED_TOOLS,
+          disallowedTools: REVIEW_DISALLOWED_TOOLS,
+          permissionMode: 'auto',
+        },
+        localPath: claudeCwd,
+        reportFallbackLocalPath: ensured.path,
+        mergeRequestId,
+        mergeRequestNumber: mrNumber,
+        attempts: {},
+      },
+      config?.reviewEngine ?? DEFAULT_REVIEW_ENGINE,
+    );
+
+    if (result.status !== 'completed') {
+      return { status: 'failed', reason: result.reason };
+    }
+
+    const context = deps.reviewContextGateway.read(request.localPath, mergeRequestId);
+    const reported = (context?.findings ?? []).map((finding): LocalReviewFinding => ({
+      filePath: finding.filePath,
+      line: findingAnchorLine(finding),
+      body: formatFindingComment(finding),
+    }));
+    // Inline comments queued by report_finding are already listed above.
+    const recorded = (context?.actions ?? []).flatMap((action): LocalReviewFinding[] => {
+      if (action.type === 'POST_INLINE_COMMENT' && !action.findingId) {
+        return [{ filePath: action.filePath, line: action.line, body: action.body }];
+      }
+      if (action.type === 'POST_COMMENT') {
+        return [{ filePath: null, line: null, body: action.body }];
+      }
+      return [];
+    });
+
+    return {
+      status: 'completed',
+      ...range,
+      skill,
+      model,
+      report: result.content,
+      findings: [...reported, ...recorded],
+      durationMs: deps.now().getTime() - startTime,
+    };
+  } finally {
+    deps.cleanupMcpContext(job.id);
+    deps.reviewContextGateway.delete(request.localPath, mergeRequestId);
+    await deps.worktreeGateway.remove({ identity, sourceCheckoutPath: request.localPath, force: true });
+  }
+}
@@ -8,6 +8,10 @@ import {
   isReviewFocus,
   reviewSkillForFocus,
 } from '@/modules/review-execution/entities/progress/reviewFocus.type.js';
+import {
+  type ReviewSchedule,
+  reviewScheduleSchema,
+} from '@/modules/review-execution/entities/reviewWindow/reviewWindow.schema.js';
 
 const configDir = getConfigDir();
 const xdgEnvPath = join(configDir, '.env');
@@ -28,7 +32,7 @@ interface RepositoryInput {
 // Types for enriched config
 export interface RepositoryConfig {
   name: string;
-  platform: 'gitlab' | 'github';
+  platform: 'gitlab' | 'github' | 'bitbucket' | 'gitea';
   remoteUrl: string;
   localPath: string;
   skill: string;
@@ -37,17 +41,24 @@ export interface RepositoryConfig {
 
 export interface ServerConfig {
   port: number;
+  /** URL the dashboard is reachable at from the forge, used in commit status links. */
+  publicUrl?: string;
 }
 
 export interface UserConfig {
   gitlabUsername: string;
   githubUsername: string;
+  bitbucketUsername?: string;
+  giteaUsername?: string;
 }
 
 export interface QueueConfig {
   maxConcurrent: number;
   deduplicationWindowMs: number;
   jobHistoryRetentionDays: number;
+  webhookIdempotencyRetentionHours: number;
+  /** Hours reviews may run; projects can override it. Unset means any time. */
+  schedule?: ReviewSchedule;
 }
 
 export type TriggerMode = 'full-auto' | 'semi-auto';
@@ -63,11 +74,15 @@ export interface Config {
 export interface EnvSecrets {
   gitlabWebhookToken: string;
   githubWebhookSecret: string;
+  bitbucketWebhookSecret: string | null;
+  giteaWebhookSecret: string | null;
 }
 
 interface ProjectConfig {
   github?: boolean;
   gitlab?: boolean;
+  bitbucket?: boolean;
+  gitea?: boolean;
   reviewSkill?: string;
   reviewFocus?: ReviewFocus;
 }
@@ -87,6 +102,12 @@ function loadProjectConfig(localPath: string): ProjectConfig | null {
     if (typeof parsed.gitlab === 'boolean') {
       result.gitlab = parsed.gitlab;
     }
+    if (typeof parsed.bitbucket === 'boolean') {
+      result.bitbucket = parsed.bitbucket;
+    }
+    if (typeof parsed.gitea === 'boolean') {
+      result.gitea = parsed.gitea;
+    }
     if (typeof parsed.reviewSkill === 'string') {
       result.reviewSkill = parsed.reviewSkill;
     }
@@ -121,6 +142,12 @@ function getGitRemoteUrl(localPath: string): string | null {
   }
 }
 
+function detectRepositoryPlatform(projectConfig: ProjectConfig | null): RepositoryConfig['platform'] {
+  if (projectConfig?.bitbucket) return 'bitbucket';
+  if (projectConfig?.gitea) return 'gitea';
+  return projectConfig?.gitlab ? 'gitlab' : 'github';
+}
+
 function enrichRepository(input: RepositoryInput): RepositoryConfig | null {
   const projectConfig = loadProjectConfig(input.localPath);
   const remoteUrl = getGitRemoteUrl(input.localPath);
@@ -135,7 +162,7 @@ function enrichRepository(input: RepositoryInput): RepositoryConfig | null {
     return null;
   }
 
-  const platform: 'gitlab' | 'github' = projectConfig.gitlab ? 'gitlab' : 'github';
+  const platform = detectRepositoryPlatform(projectConfig);
   const skill =
     projectConfig.reviewSkill ||
     (projectConfig.reviewFocus ? reviewSkillForFocus(projectConfig.reviewFocus) : 'review-code');
@@ -154,7 +181,7 @@ export function enrichSingleRepository(input: RepositoryInput): RepositoryConfig
   const projectConfig = loadProjectConfig(input.localPath);
   const remoteUrl = getGitRemoteUrl(input.localPath);
 
-  const platform: 'gitlab' | 'github' = projectConfig?.gitlab ? 'gitlab' : 'github';
+  const platform = detectRepositoryPlatform(projectConfig);
   const skill =
     projectConfig?.reviewSkill ||
     (projectConfig?.reviewFocus ? reviewSkillForFocus(projectConfig.reviewFocus) : 'review-code');
@@ -184,6 +211,12 @@ export function validateAndEnrichConfig(data: unknown): Config {
   if (typeof server.port !== 'number' || server.port < 1 || server.port > 65535) {
     throw new Error('Configuration invalide : port invalide');
   }
+  if (
+    server.publicUrl !== undefined &&
+    (typeof server.publicUrl !== 'string' || !/^https?:\/\/\S+$/.test(server.publicUrl))
+  ) {
+    throw new Error('Invalid configuration: server.publicUrl must be an http(s) URL');
+  }
 
   // Validate user
   if (!config.user || typeof config.user !== 'object') {
@@ -196,6 +229,12 @@ export function validateAndEnrichConfig(data: unknown): Config {
   if (typeof user.githubUsername !== 'string') {
     throw new Error('Invalid configuration: githubUsername must be a string');
   }
+  if (user.bitbucketUsername !== undefined && typeof user.bitbucketUsername !== 'string') {
+    throw new Error('Invalid configuration: bitbucketUsername must be a string');
+  }
+  if (user.giteaUsername !== undefined && typeof user.giteaUsername !== 'string') {
+    throw new Error('Invalid configuration: giteaUsername must be a string');
+  }
 
   // Validate queue
   if (!config.queue || typeof config.queue !== 'object') {
@@ -222,6 +261,29 @@ export function validateAndEnrichConfig(data: unknown): Config {
     jobHistoryRetentionDays = queue.jobHistoryRetentionDays;
   }
 
+  let webhookIdempotencyRetentionHours = 24;
+  if (queue.webhookIdempotencyRetentionHours !== undefined && queue.webhookIdempotencyRetentionHours !== null) {
+    if (
+      typeof queue.webhookIdempotencyRetentionHours !== 'number' ||
+      !Number.isInteger(queue.webhookIdempotencyRetentionHours) ||
+      queue.webhookIdempotencyRetentionHours < 1 ||
+      queue.webhookIdempotencyRetentionHours > 720
+    ) {
+      throw new Error('Configuration invalide : webhookIdempotencyRetentionHours invalide');
+    }
+    webhookIdempotencyRetentionHours = queue.webhookIdempotencyRetentionHours;
+  }
+
+  let schedule: ReviewSchedule | undefined;
+  if (queue.schedule !== undefined && queue.schedule !== null) {
+    const result = reviewScheduleSchema.safeParse(queue.schedule);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new Error(`Invalid configuration: queue.schedule.${issue.path.join('.')} ${issue.message}`);
+    }
+    schedule = result.data;
+  }
+
   // Validate triggerMode (optional, defaults to 'full-auto')
   let triggerMode: TriggerMode = 'full-auto';
   if (config.triggerMode !== undefined && config.triggerMode !== null) {
@@ -269,15 +331,22 @@ export function validateAndEnrichConfig(data: unknown): Config {
   }
 
   return {
-    server: { port: server.port as number },
+    server: {
+      port: server.port as number,
+      ...(typeof server.publicUrl === 'string' ? { publicUrl: server.publicUrl.replace(/\/+$/, '') } : {}),
+    },
     user: {
       gitlabUsername: user.gitlabUsername as string,
       githubUsername: user.githubUsername as string,
+      ...(typeof user.bitbucketUsername === 'string' ? { bitbucketUsername: user.bitbucketUsername } : {}),
+      ...(typeof user.giteaUsername === 'string' ? { giteaUsername: user.giteaUsername } : {}),
     },
     queue: {
       maxConcurrent: queue.maxConcurrent as number,
       deduplicationWindowMs: queue.deduplicationWindowMs as number,
       jobHistoryRetentionDays,
+      webhookIdempotencyRetentionHours,
+      ...(schedule ? { schedule } : {}),
     },
     repositories: enrichedRepositories,
     triggerMode,
@@ -295,7 +364,13 @@ function loadSecrets(): EnvSecrets {
     throw new Error('Variable d\'environnement GITHUB_WEBHOOK_SECRET manquante');
   }
 
-  return { gitlabWebhookToken, githubWebhookSecret };
+  // Bitbucket is opt-in: without a secret the /webhooks/bitbucket endpoint
+  // rejects every delivery instead of blocking startup for GitLab/GitHub users.
+  const bitbucketWebhookSecret = process.env.BITBUCKET_WEBHOOK_SECRET || null;
+  // Same for Gitea/Forgejo, which are usually self-hosted alongside another forge.
+  const giteaWebhookSecret = process.env.GITEA_WEBHOOK_SECRET || null;
+
+  return { gitlabWebhookToken, githubWebhookSecret, bitbucketWebhookSecret, giteaWebhookSecret };
 }
 
 // Main loader
@@ -357,10 +432,14 @@ export function findRepositoryByProjectPath(projectPath: string): RepositoryConf
 
   return config.repositories.find(repo => {
     if (!repo.enabled) return false;
-    const urlPath = repo.remoteUrl
+    let urlPath = repo.remoteUrl
       .replace(/^https?:\/\/[^/]+\//, '')
       .replace(/\.git$/, '')
       .toLowerCase();
+    // Bitbucket Data Center clones from <host>[/<context>]/scm/<PROJECT>/<repo>.git
+    if (repo.platform === 'bitbucket') {
+      urlPath = urlPath.replace(/^(?:.*\/)?scm\//, '');
+    }
     return urlPath === normalizedPath;
   });
 }
@@ -5,10 +5,11 @@ import { ProjectSemaphore } from '@/frameworks/queue/projectSemaphore.js';
 import type { ReviewProgress, ProgressEvent } from '@/modules/review-execution/entities/progress/progress.type.js';
 import type { Language } from '@/modules/shared-kernel/entities/language/language.schema.js';
 import type { ClaudeModelName } from '@/modules/review-execution/entities/modelRouting/modelRouting.schema.js';
+import type { PublishMode } from '@/modules/review-execution/entities/publishMode/publishMode.schema.js';
 
 export interface ReviewJob {
   id: string; // Unique identifier: platform:project:mrNumber
-  platform: 'gitlab' | 'github';
+  platform: 'gitlab' | 'github' | 'bitbucket' | 'gitea';
   projectPath: string;
   localPath: string;
   mrNumber: number;
@@ -43,6 +44,23 @@ export interface ReviewJob {
   // SPEC-170 FR-8: clone URL of the source fork for cross-fork PRs (GitHub).
   // null/undefined means the MR/PR source is the same repository as the base.
   sourceForkCloneUrl?: string;
+  // `/reviewflow explain`: the followup only answers this review thread.
+  explainThreadId?: string;
+  // Platform user whose event queued the job. Stdout thread actions are trusted
+  // only when this user passes the trusted-actor gate (SPEC-197).
+  triggeredBy?: string;
+  // Labels of the MR/PR when the webhook carries them, used by priority rules.
+  labels?: string[];
+  // Queue priority: higher runs first. Resolved at enqueue time when unset,
+  // then only changed by a manual reorder.
+  priority?: number;
+  // Set when the job was replayed from the queue journal after a restart:
+  // 'running' means its previous run was interrupted.
+  resumedFrom?: 'queued' | 'running';
+  // Head commit of the push that queued the job, when the webhook carries it.
+  headSha?: string;
+  // Overrides the project's publish mode: 'shadow' records the actions instead of posting them.
+  publishMode?: PublishMode;
 }
 
 // Deduplication tracking
@@ -59,6 +77,21 @@ export interface JobStatus {
   completedAt?: Date;
   error?: string;
   progress?: ReviewProgress;
+  // Set while the job waits for a review window (still 'queued').
+  deferredUntil?: Date;
+  // Review sessions dispatched so far, set once a session is retried.
+  attempts?: number;
+  // Set while a failed session waits for its retry (still 'running', without a slot).
+  retry?: JobRetry;
+  // Set when a newer push cancelled the job: a fresh job may take its id.
+  superseded?: boolean;
+}
+
+export interface JobRetry {
+  attempt: number;
+  maxAttempts: number;
+  failureClass: string;
+  retryAt: Date;
 }
 
 // Progress change callback type
@@ -71,6 +104,17 @@ export type StateChangeCallback = () => void;
 // Best-effort: implementations must never throw nor delay the queue task.
 export type PersistJobRecordCallback = (jobStatus: JobStatus, abortSignalAborted: boolean) => Promise<void>;
 
+// Job lifecycle callback type - fired when a job is queued, dispatched and finished.
+// Best-effort like the persist callback: errors are swallowed, never awaited.
+export type JobLifecycleEvent = 'queued' | 'running' | 'finished';
+export type JobLifecycleCallback = (event: JobLifecycleEvent, jobStatus: JobStatus) => void;
+
+// Job priority resolver type - computes the priority of a job enqueued without one.
+export type JobPriorityResolver = (job: ReviewJob) => number;
+
+// Job deferral resolver type - returns when a job may start, or null when it may start now.
+export type JobDeferralResolver = (job: ReviewJob, now: Date) => Date | null;
+
 // Global progress change listener
 let progressChangeCallback: ProgressChangeCallback | null = null;
 
@@ -80,7 +124,76 @@ let stateChangeCallback: StateChangeCallback | null = null;
 // Global persist callback (wired by composition root)
 let persistJobRecordCallback: PersistJobRecordCallback | null = null;
 
+// Global job lifecycle listener (wired by composition root)
+let jobLifecycleCallback: JobLifecycleCallback | null = null;
+
+// Global job priority resolver (wired by composition root)
+let jobPriorityResolver: JobPriorityResolver | null = null;
+
+// Global job deferral resolver (wired by composition root)
+let jobDeferralResolver: JobDeferralResolver | null = null;
+
+// Jobs held outside the review windows: jobId -> release
+const deferredJobReleases = new Map<string, () => void>();
+
+function resolveDeferral(job: ReviewJob): Date | null {
+  try {
+    return jobDeferralResolver?.(job, new Date()) ?? null;
+  } catch (error) {
+    logger?.warn({ jobId: job.id, error }, 'Job deferral resolver failed');
+    return null;
+  }
+}
+
+/**
+ * Holds a job until its review window opens, it is started manually or it is
+ * cancelled. It does not take a project slot while it waits.
+ */
+async function waitForReviewWindow(jobStatus: JobStatus, signal: AbortSignal): Promise<void> {
+  const { job } = jobStatus;
+  const deferredUntil = resolveDeferral(job);
+  if (!deferredUntil || signal.aborted) {
+    return;
+  }
+
+  jobStatus.deferredUntil = deferredUntil;
+  logger?.info({ jobId: job.id, deferredUntil: deferredUntil.toISOString() }, 'Job différé jusqu\'à la prochaine fenêtre de review');
+  stateChangeCallback?.();
+
+  await new Promise<void>((resolve) => {
+    const release = (): void => {
+      signal.removeEventListener('abort', release);
+      deferredJobReleases.delete(job.id);
+      resolve();
+    };
+    deferredJobReleases.set(job.id, release);
+    signal.addEventListener('abort', release, { once: true });
+  });
+
+  jobStatus.deferredUntil = undefined;
+  stateChangeCallback?.();
+}
+
+function resolvePriority(job: ReviewJob): number {
+  try {
+    return jobPriorityResolver?.(job) ?? 0;
+  } catch (error) {
+    logger?.warn({ jobId: job.id, error }, 'Job priority resolver failed');
+    return 0;
+  }
+}
+
+function notifyJobLifecycle(event: JobLifecycleEvent, jobStatus: JobStatus): void {
+  try {
+    jobLifecycleCallback?.(event, jobStatus);
+  } catch (error) {
+    logger?.warn({ jobId: jobStatus.job.id, event, error }, 'Job lifecycle callback failed');
+  }
+}
+
 const activeJobs = new Map<string, JobStatus>();
+// Settled once the processor of the job has returned and its slot is released.
+const jobSettlements = new WeakMap<JobStatus, Promise<void>>();
 const completedJobs: JobStatus[] = []; // Keep last 20
 const MAX_COMPLETED_JOBS = 20;
 
@@ -104,6 +217,43 @@ function createMrConcurrencyKey(platform: string, projectPath: string, mrNumber:
 const projectSemaphore = new ProjectSemaphore();
 const projectCaps = new Map<string, number>();
 
+// Releases the project and PQueue slots a running job holds. A job waiting for
+// a session retry holds none, and has no entry.
+const jobSlotReleases = new WeakMap<JobStatus, () => void>();
+
+/**
+ * Takes a project slot then a PQueue slot for the job, in priority order.
+ * PQueue runs a placeholder task that holds its slot until the release: the
+ * queue sets no task timeout, which would free the slot of a job still running.
+ */
+async function acquireJobSlot(jobStatus: JobStatus): Promise<void> {
+  const { job } = jobStatus;
+  await projectSemaphore.acquire(job.projectPath, job.priority, job.id);
+  let releaseQueueSlot: () => void = () => {};
+  const released = new Promise<void>((resolve) => {
+    releaseQueueSlot = resolve;
+  });
+  await new Promise<void>((granted) => {
+    getQueue()
+      .add(async () => {
+        granted();
+        await released;
+      }, { priority: job.priority, id: job.id })
+      .catch((error) => {
+        logger?.error({ jobId: job.id, error }, 'Erreur du slot de la queue');
+      });
+  });
+  jobSlotReleases.set(jobStatus, () => {
+    jobSlotReleases.delete(jobStatus);
+    releaseQueueSlot();
+    projectSemaphore.release(job.projectPath);
+  });
+}
+
+function releaseJobSlot(jobStatus: JobStatus): void {
+  jobSlotReleases.get(jobStatus)?.();
+}
+
 export function setProjectConcurrencyCap(projectPath: string, cap: number): void {
   projectCaps.set(projectPath, cap);
   projectSemaphore.setCapacity(projectPath, cap);
@@ -132,14 +282,16 @@ export function __resetProjectConcurrencyState(): void {
 let queue: PQueue | null = null;
 let logger: Logger | null = null;
 
+// A job still running after this delay is aborted and fails. It keeps its slot
+// until its processor returns.
+export const JOB_TIMEOUT_MS = 30 * 60 * 1000;
+
 export function initQueue(log: Logger): PQueue {
   const config = loadConfig();
   logger = log;
 
   queue = new PQueue({
     concurrency: config.queue.maxConcurrent,
-    timeout: 30 * 60 * 1000, // 30 minutes max per job
-    throwOnTimeout: true,
   });
 
   // Log queue events
@@ -224,12 +376,17 @@ export async function enqueueReview(
     return false;
   }
 
-  // Check if job is already active (prevent concurrent runs of same MR)
-  if (activeJobs.has(job.id)) {
+  // Check if job is already active (prevent concurrent runs of same MR).
+  // A superseded job still winding down does not count: its replacement
+  // waits for it on the MR chain.
+  const activeJob = activeJobs.get(job.id);
+  if (activeJob && !activeJob.superseded) {
     log.info({ jobId: job.id }, 'Job déjà en cours, ignoré');
     return false;
   }
 
+  job.priority ??= resolvePriority(job);
+
   // Create abort controller for this job
   const abortController = new AbortController();
   jobAbortControllers.set(job.id, abortController);
@@ -240,15 +397,21 @@ export async function enqueueReview(
     status: 'queued',
   };
   activeJobs.set(job.id, jobStatus);
+  let markSettled: () => void = () => {};
+  jobSettlements.set(jobStatus, new Promise<void>((resolve) => {
+    markSettled = resolve;
+  }));
 
   // Notify state change (job queued)
   stateChangeCallback?.();
+  notifyJobLifecycle('queued', jobStatus);
 
   log.info(
     {
       jobId: job.id,
       mrNumber: job.mrNumber,
       skill: job.skill,
+      priority: job.priority,
       queueSize: q.size,
       pending: q.pending,
     },
@@ -260,66 +423,88 @@ export async function enqueueReview(
   // concurrency.
   // SPEC-186: after the MR-chain wait, the per-project semaphore gates entry
   // into PQueue.add() so a single project cannot saturate the global queue.
+  // Both gates take the job priority; setJobPriority() reorders either one.
   const mrKey = createMrConcurrencyKey(job.platform, job.projectPath, job.mrNumber);
   const previousTail = mrChains.get(mrKey) ?? Promise.resolve();
 
   const newTail: Promise<void> = previousTail.then(async () => {
-    await projectSemaphore.acquire(job.projectPath);
-    await q.add(async () => {
-      jobStatus.status = 'running';
-      jobStatus.startedAt = new Date();
-      log.info({ jobId: job.id }, 'Début du traitement');
-
-      // Notify state change (job started)
-      stateChangeCallback?.();
-
-      try {
-        await processor(job, abortController.signal);
-        jobStatus.status = abortController.signal.aborted ? 'failed' : 'completed';
-        jobStatus.completedAt = new Date();
-        if (abortController.signal.aborted) {
-          jobStatus.error = 'Annulé par utilisateur';
-          // Clear deduplication on cancel to allow retry
-          clearJobDeduplication(job.id);
-          log.info({ jobId: job.id }, 'Traitement annulé');
-        } else {
-          // Only mark as processed on SUCCESS (prevents failed jobs from blocking retries)
-          markJobProcessed(job.id);
-          log.info({ jobId: job.id }, 'Traitement terminé avec succès');
-        }
-      } catch (error) {
-        jobStatus.status = 'failed';
-        jobStatus.completedAt = new Date();
-        jobStatus.error = error instanceof Error ? error.message : String(error);
-        // Clear deduplication on failure to allow retry
+    await waitForReviewWindow(jobStatus, abortController.signal);
+    await acquireJobSlot(jobStatus);
+    jobStatus.status = 'running';
+    jobStatus.startedAt = new Date();
+    log.info({ jobId: job.id }, 'Début du traitement');
+
+    // Notify state change (job started)
+    stateChangeCallback?.();
+    notifyJobLifecycle('running', jobStatus);
+
+    let timedOut = false;
+    const jobTimeout = setTimeout(() => {
+      timedOut = true;
+      log.warn({ jobId: job.id, timeoutMs: JOB_TIMEOUT_MS }, 'Délai du job dépassé, annulation');
+      abortController.abort();
+    }, JOB_TIMEOUT_MS);
+
+    try {
+      await processor(job, abortController.signal);
+      jobStatus.status = abortController.signal.aborted ? 'failed' : 'completed';
+      jobStatus.completedAt = new Date();
+      if (timedOut) {
+        jobStatus.error = `Job timeout: ${JOB_TIMEOUT_MS / 60000} minutes dépassées`;
+        clearJobDeduplication(job.id);
+        log.error({ jobId: job.id }, 'Traitement interrompu par le délai du job');
+      } else if (abortController.signal.aborted) {
+        jobStatus.error = jobStatus.superseded ? 'Remplacé par un push plus récent' : 'Annulé par utilisateur';
+        // Clear deduplication on cancel to allow retry
         clearJobDeduplication(job.id);
-        log.error({ jobId: job.id, error }, 'Erreur pendant le traitement');
-      } finally {
-        // Cleanup abort controller
+        log.info({ jobId: job.id }, 'Traitement annulé');
+      } else {
+        // Only mark as processed on SUCCESS (prevents failed jobs from blocking retries)
+        markJobProcessed(job.id);
+        log.info({ jobId: job.id }, 'Traitement terminé avec succès');
+      }
+    } catch (error) {
+      jobStatus.status = 'failed';
+      jobStatus.completedAt = new Date();
+      jobStatus.error = timedOut
+        ? `Job timeout: ${JOB_TIMEOUT_MS / 60000} minutes dépassées`
+        : error instanceof Error ? error.message : String(error);
+      // Clear deduplication on failure to allow retry
+      clearJobDeduplication(job.id);
+      log.error({ jobId: job.id, error }, 'Erreur pendant le traitement');
+    } finally {
+      clearTimeout(jobTimeout);
+      // Cleanup abort controller, unless a superseding job already took the id
+      if (jobAbortControllers.get(job.id) === abortController) {
         jobAbortControllers.delete(job.id);
-        // Move to completed jobs
+      }
+      // Move to completed jobs
+      if (activeJobs.get(job.id) === jobStatus) {
         activeJobs.delete(job.id);
-        completedJobs.unshift(jobStatus);
-        if (completedJobs.length > MAX_COMPLETED_JOBS) {
-          completedJobs.pop();
-        }
-        // SPEC-186: release the per-project slot in the same finally block as
-        // the MR-chain teardown so a project never holds a phantom slot after a
-        // crash or abort.
-        projectSemaphore.release(job.projectPath);
-
-        // Best-effort persistence (SPEC-176): fire the callback without
-        // awaiting and swallow any rejection so the queue task is never
-        // delayed nor failed by a disk write.
-        const persistPromise = persistJobRecordCallback?.(jobStatus, abortController.signal.aborted);
-        if (persistPromise) {
-          persistPromise.catch(() => {});
-        }
-
-        // Notify state change (job completed/failed)
-        stateChangeCallback?.();
       }
-    });
+      completedJobs.unshift(jobStatus);
+      if (completedJobs.length > MAX_COMPLETED_JOBS) {
+        completedJobs.pop();
+      }
+      // SPEC-186: release the per-project slot in the same finally block as
+      // the MR-chain teardown so a project never holds a phantom slot after a
+      // crash or abort.
+      releaseJobSlot(jobStatus);
+
+      // Best-effort persistence (SPEC-176): fire the callback without
+      // awaiting and swallow any rejection so the queue task is never
+      // delayed nor failed by a disk write.
+      // A timed-out job is recorded as a timeout, not as a cancellation.
+      const persistPromise = persistJobRecordCallback?.(jobStatus, abortController.signal.aborted && !timedOut);
+      if (persistPromise) {
+        persistPromise.catch(() => {});
+      }
+
+      // Notify state change (job completed/failed)
+      stateChangeCallback?.();
+      notifyJobLifecycle('finished', jobStatus);
+      markSettled();
+    }
   });
 
   mrChains.set(mrKey, newTail);
@@ -368,6 +553,101 @@ export function cancelJob(jobId: string): boolean {
   return false;
 }
 
+/**
+ * Get a running job by ID, null when it is queued, finished or unknown
+ */
+export function getRunningJob(jobId: string): ReviewJob | null {
+  const jobStatus = activeJobs.get(jobId);
+  return jobStatus?.status === 'running' && !jobStatus.superseded ? jobStatus.job : null;
+}
+
+/**
+ * Cancel a running job a newer push made stale. Its id is freed at once so the
+ * replacement can be enqueued; the MR chain starts it once this one has stopped.
+ * @returns false if the job is not running
+ */
+export function supersedeJob(jobId: string): boolean {
+  const jobStatus = activeJobs.get(jobId);
+  const abortController = jobAbortControllers.get(jobId);
+  if (!jobStatus || jobStatus.status !== 'running' || jobStatus.superseded || !abortController) {
+    return false;
+  }
+
+  jobStatus.superseded = true;
+  abortController.abort();
+  logger?.info({ jobId }, 'Job remplacé par un push plus récent');
+  stateChangeCallback?.();
+  return true;
+}
+
+/**
+ * Resolves once the job holding `jobId` has stopped, at once when none does.
+ * Ask before a replacement takes the id: it is then the one waited for.
+ */
+export function whenJobSettled(jobId: string): Promise<void> {
+  const jobStatus = activeJobs.get(jobId);
+  return (jobStatus && jobSettlements.get(jobStatus)) ?? Promise.resolve();
+}
+
+/**
+ * Change the priority of a queued job, wherever it waits: behind its MR chain,
+ * on the project semaphore or in PQueue. Running jobs keep their slot.
+ * @returns false if the job is not queued
+ */
+export function setJobPriority(jobId: string, priority: number): boolean {
+  const jobStatus = activeJobs.get(jobId);
+  if (!jobStatus || jobStatus.status !== 'queued') {
+    return false;
+  }
+
+  jobStatus.job.priority = priority;
+  if (!projectSemaphore.setPriority(jobId, priority)) {
+    try {
+      queue?.setPriority(jobId, priority);
+    } catch {
+      // Not in PQueue yet: the new priority applies when the job gets there.
+    }
+  }
+
+  logger?.info({ jobId, priority }, 'Job priority changed');
+  stateChangeCallback?.();
+  return true;
+}
+
+/**
+ * Re-evaluate the jobs held outside the review windows: start those whose
+ * window opened, refresh the others' deferredUntil.
+ * @returns the number of jobs started
+ */
+export function refreshDeferredJobs(): number {
+  let started = 0;
+  for (const [jobId, release] of [...deferredJobReleases]) {
+    const jobStatus = activeJobs.get(jobId);
+    const deferredUntil = jobStatus ? resolveDeferral(jobStatus.job) : null;
+    if (jobStatus && deferredUntil) {
+      jobStatus.deferredUntil = deferredUntil;
+      continue;
+    }
+    release();
+    started += 1;
+  }
+  return started;
+}
+
+/**
+ * Start a deferred job now, outside its review window.
+ * @returns false if the job is not waiting for a review window
+ */
+export function startDeferredJob(jobId: string): boolean {
+  const release = deferredJobReleases.get(jobId);
+  if (!release) {
+    return false;
+  }
+  logger?.info({ jobId }, 'Job différé démarré manuellement');
+  release();
+  return true;
+}
+
 /**
  * Clean up old deduplication entries
  */
@@ -413,6 +693,10 @@ export function getJobsStatus(): {
     author?: { username: string; displayName?: string };
     sizeMetrics?: { additions: number | null; deletions: number | null; filesChanged: number | null };
     jobType?: 'review' | 'followup';
+    priority?: number;
+    deferredUntil?: string;
+    retry?: { attempt: number; maxAttempts: number; failureClass: string; retryAt: string };
+    resumedFrom?: 'queued' | 'running';
   }>;
   recent: Array<{
     id: string;
@@ -429,6 +713,7 @@ export function getJobsStatus(): {
     author?: { username: string; displayName?: string };
     sizeMetrics?: { additions: number | null; deletions: number | null; filesChanged: number | null };
     jobType?: 'review' | 'followup';
+    attempts?: number;
   }>;
 } {
   return {
@@ -446,6 +731,10 @@ export function getJobsStatus(): {
       author: js.job.author,
       sizeMetrics: js.job.sizeMetrics,
       jobType: js.job.jobType || 'review',
+      priority: js.job.priority,
+      deferredUntil: js.deferredUntil?.toISOString(),
+      retry: js.retry && { ...js.retry, retryAt: js.retry.retryAt.toISOString() },
+      resumedFrom: js.job.resumedFrom,
     })),
     recent: completedJobs.map(js => ({
       id: js.job.id,
@@ -462,6 +751,7 @@ export function getJobsStatus(): {
       author: js.job.author,
       sizeMetrics: js.job.sizeMetrics,
       jobType: js.job.jobType || 'review',
+      attempts: js.attempts,
     })),
   };
 }
@@ -478,6 +768,59 @@ export function updateJobProgress(jobId: string, progress: ReviewProgress, event
   }
 }
 
+/**
+ * Waits for the retry of a failed session of a running job. Its project and
+ * queue slots go to other jobs meanwhile, and are taken again, in priority
+ * order, once the delay is over.
+ * @returns false when the job is cancelled first
+ */
+export async function waitForJobRetry(jobId: string, delayMs: number, signal?: AbortSignal): Promise<boolean> {
+  const jobStatus = activeJobs.get(jobId);
+  const holdsSlot = jobStatus !== undefined && jobSlotReleases.has(jobStatus);
+  if (holdsSlot) {
+    releaseJobSlot(jobStatus);
+  }
+
+  const retryDue = await new Promise<boolean>((resolve) => {
+    if (signal?.aborted) {
+      resolve(false);
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      resolve(false);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(true);
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+  if (retryDue && holdsSlot) {
+    await acquireJobSlot(jobStatus);
+  }
+  return retryDue && !signal?.aborted;
+}
+
+/**
+ * Record that a failed review session will be retried, or clear the pending
+ * retry (null) once the next session is dispatched.
+ */
+export function setJobRetry(jobId: string, retry: JobRetry | null): void {
+  const jobStatus = activeJobs.get(jobId);
+  if (!jobStatus) {
+    return;
+  }
+  if (retry) {
+    jobStatus.retry = retry;
+    jobStatus.attempts = (jobStatus.attempts ?? 1) + 1;
+  } else {
+    jobStatus.retry = undefined;
+  }
+  stateChangeCallback?.();
+}
+
 /**
  * Set the progress change callback
  */
@@ -501,6 +844,30 @@ export function setPersistJobRecordCallback(callback: PersistJobRecordCallback |
   persistJobRecordCallback = callback;
 }
 
+/**
+ * Set the job lifecycle callback (queued, running, finished).
+ * Called synchronously by the queue; long work must be scheduled by the callback.
+ */
+export function setJobLifecycleCallback(callback: JobLifecycleCallback | null): void {
+  jobLifecycleCallback = callback;
+}
+
+/**
+ * Set the job priority resolver, used for jobs enqueued without a priority.
+ * A throwing resolver leaves the job at priority 0.
+ */
+export function setJobPriorityResolver(resolver: JobPriorityResolver | null): void {
+  jobPriorityResolver = resolver;
+}
+
+/**
+ * Set the job deferral resolver, which holds jobs outside the review windows.
+ * A throwing resolver lets the job start.
+ */
+export function setJobDeferralResolver(resolver: JobDeferralResolver | null): void {
+  jobDeferralResolver = resolver;
+}
+
 /**
  * Seed the in-memory completed jobs list at startup (SPEC-176).
  * Records beyond MAX_COMPLETED_JOBS are dropped. Insertion order is preserved.
@@ -1,11 +1,14 @@
 /**
- * Per-project FIFO semaphore. Pure data structure with zero infrastructure
+ * Per-project priority semaphore. Pure data structure with zero infrastructure
  * knowledge. Used by pQueueAdapter to gate review entry into PQueue.add(),
  * preserving the existing MR-chain serialization that sits one level above.
  *
  * Behavioral contract:
  *   - acquire(key) resolves when running(key) < capacity(key); increments running.
- *   - release(key) decrements running and drains waiters in FIFO order.
+ *   - release(key) decrements running and drains waiters by descending
+ *     priority, FIFO within a priority (all waiters default to 0).
+ *   - setPriority(id, n) moves the waiter acquired with that id behind the
+ *     waiters already at priority n.
  *   - setCapacity(key, n) updates capacity; raising it drains pending waiters
  *     up to the new limit, lowering it does NOT interrupt running acquisitions.
  *   - DEFAULT_CAPACITY (2) is applied when a key has no explicit cap.
@@ -13,12 +16,16 @@
 
 const DEFAULT_CAPACITY = 2;
 
-type PendingResolver = () => void;
+interface PendingWaiter {
+  id?: string;
+  priority: number;
+  grant: () => void;
+}
 
 export class ProjectSemaphore {
   private readonly capacities = new Map<string, number>();
   private readonly running = new Map<string, number>();
-  private readonly pending = new Map<string, PendingResolver[]>();
+  private readonly pending = new Map<string, PendingWaiter[]>();
 
   setCapacity(key: string, capacity: number): void {
     this.capacities.set(key, capacity);
@@ -43,7 +50,7 @@ export class ProjectSemaphore {
     return total;
   }
 
-  acquire(key: string): Promise<boolean> {
+  acquire(key: string, priority = 0, id?: string): Promise<boolean> {
     const currentRunning = this.runningCount(key);
     const cap = this.capacityFor(key);
     if (currentRunning < cap) {
@@ -52,14 +59,30 @@ export class ProjectSemaphore {
     }
     return new Promise<boolean>((resolve) => {
       const waiters = this.pending.get(key) ?? [];
-      waiters.push(() => {
-        this.running.set(key, (this.running.get(key) ?? 0) + 1);
-        resolve(true);
+      insertByPriority(waiters, {
+        id,
+        priority,
+        grant: () => {
+          this.running.set(key, (this.running.get(key) ?? 0) + 1);
+          resolve(true);
+        },
       });
       this.pending.set(key, waiters);
     });
   }
 
+  /** @returns false when no pending waiter was acquired with this id. */
+  setPriority(id: string, priority: number): boolean {
+    for (const waiters of this.pending.values()) {
+      const index = waiters.findIndex((waiter) => waiter.id === id);
+      if (index === -1) continue;
+      const [waiter] = waiters.splice(index, 1);
+      insertByPriority(waiters, { ...waiter, priority });
+      return true;
+    }
+    return false;
+  }
+
   release(key: string): void {
     const currentRunning = this.runningCount(key);
     if (currentRunning > 0) {
@@ -75,7 +98,7 @@ export class ProjectSemaphore {
     while (waiters.length > 0 && this.runningCount(key) < cap) {
       const next = waiters.shift();
       if (!next) break;
-      next();
+      next.grant();
     }
     if (waiters.length === 0) {
       this.pending.delete(key);
@@ -84,3 +107,12 @@ export class ProjectSemaphore {
     }
   }
 }
+
+function insertByPriority(waiters: PendingWaiter[], waiter: PendingWaiter): void {
+  const index = waiters.findIndex((other) => other.priority < waiter.priority);
+  if (index === -1) {
+    waiters.push(waiter);
+  } else {
+    waiters.splice(index, 0, waiter);
+  }
+}
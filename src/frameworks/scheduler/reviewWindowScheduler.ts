@@ -0,0 +1,37 @@
+import type { Logger } from 'pino';
+
+export interface ReviewWindowSchedulerDependencies {
+  /** Starts the deferred jobs whose review window opened; returns how many started. */
+  refreshDeferredJobs: () => number;
+  logger: Logger;
+  intervalMs: number;
+}
+
+export interface ReviewWindowScheduler {
+  stop: () => void;
+}
+
+/**
+ * Checks the jobs held outside the review windows at a fixed interval, so a
+ * window opening starts them within `intervalMs`.
+ */
+export function startReviewWindowScheduler(
+  deps: ReviewWindowSchedulerDependencies,
+): ReviewWindowScheduler {
+  const runCheck = (): void => {
+    try {
+      const started = deps.refreshDeferredJobs();
+      if (started > 0) {
+        deps.logger.info({ started }, 'Review window opened, deferred jobs started');
+      }
+    } catch (error) {
+      deps.logger.error({ error }, 'Review window scheduler tick failed');
+    }
+  };
+
+  const timer = setInterval(runCheck, deps.intervalMs);
+
+  return {
+    stop: () => clearInterval(timer),
+  };
+}
@@ -13,6 +13,7 @@ import { executeInit, createInitDependencies } from '@/main/commands/init.comman
 import { executeDiscover, createDiscoverDependencies } from '@/main/commands/discover.command.js';
 import { executeValidate, createValidateDependencies } from '@/main/commands/validate.command.js';
 import { executeSetup, createSetupDependencies } from '@/main/commands/setup.command.js';
+import { executeReview, createReviewDependencies } from '@/main/commands/review.command.js';
 import { readVersion, printHelp, getGitRemoteUrl } from '@/main/shared/cliConstants.js';
 import { readPidFile, writePidFile, removePidFile, type PidFileDeps } from '@/shared/services/pidFileManager.js';
 import { isProcessRunning } from '@/shared/services/processChecker.js';
@@ -88,5 +89,12 @@ if (isDirectlyExecuted) {
         createSetupDependencies(),
       );
       break;
+
+    case 'review':
+      executeReview(
+        { path: args.path, base: args.base, head: args.head, focus: args.focus, json: args.json },
+        createReviewDependencies(),
+      );
+      break;
   }
 }
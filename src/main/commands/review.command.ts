@@ -0,0 +1,71 @@
+import { resolve } from 'node:path';
+import {
+  type LocalReviewDependencies,
+  type LocalReviewRequest,
+  type LocalReviewResult,
+  createDefaultLocalReviewDependencies,
+  runLocalReview,
+} from '@/frameworks/claude/localReviewInvoker.js';
+import { formatLocalReviewJson, formatLocalReviewReport } from '@/cli/formatters/localReviewReport.js';
+import { REVIEW_FOCUS_VALUES, isReviewFocus } from '@/modules/review-execution/entities/progress/reviewFocus.type.js';
+import { dim, red } from '@/shared/services/ansiColors.js';
+
+export interface ReviewCliArgs {
+  path: string | undefined;
+  base: string | undefined;
+  head: string;
+  focus: string | undefined;
+  json: boolean;
+}
+
+export interface ReviewDependencies {
+  runLocalReview: (request: LocalReviewRequest) => Promise<LocalReviewResult>;
+  cwd: () => string;
+  log: (...args: unknown[]) => void;
+  error: (...args: unknown[]) => void;
+  exit: (code: number) => void;
+}
+
+export async function executeReview(args: ReviewCliArgs, deps: ReviewDependencies): Promise<void> {
+  if (!args.base) {
+    deps.error(red('Missing --base: the branch or commit the changes start from, e.g. --base main'));
+    deps.exit(1);
+    return;
+  }
+
+  if (args.focus !== undefined && !isReviewFocus(args.focus)) {
+    deps.error(red(`Unknown focus "${args.focus}". Expected one of: ${REVIEW_FOCUS_VALUES.join(', ')}`));
+    deps.exit(1);
+    return;
+  }
+
+  if (!args.json) {
+    deps.log(dim(`Reviewing ${args.base}..${args.head}, this takes a few minutes...`));
+  }
+
+  const result = await deps.runLocalReview({
+    localPath: resolve(deps.cwd(), args.path ?? '.'),
+    base: args.base,
+    head: args.head,
+    focus: args.focus,
+  });
+
+  if (result.status === 'failed') {
+    deps.error(red(`Review failed: ${result.reason}`));
+    deps.exit(1);
+    return;
+  }
+
+  deps.log(args.json ? formatLocalReviewJson(result) : formatLocalReviewReport(result));
+}
+
+export function createReviewDependencies(): ReviewDependencies {
+  const localReviewDependencies: LocalReviewDependencies = createDefaultLocalReviewDependencies();
+  return {
+    runLocalReview: (request) => runLocalReview(request, localReviewDependencies),
+    cwd: () => process.cwd(),
+    log: console.log,
+    error: console.error,
+    exit: process.exit,
+  };
+}
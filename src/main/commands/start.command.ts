@@ -15,7 +15,7 @@ export interface StartDependencies {
   error: (...args: unknown[]) => void;
   log: (...args: unknown[]) => void;
   startDaemonDeps: StartDaemonDependencies;
-  loadStartupInfo: () => { enabledPlatforms: Array<'gitlab' | 'github'>; defaultPort: number };
+  loadStartupInfo: () => { enabledPlatforms: Array<'gitlab' | 'github' | 'bitbucket' | 'gitea'>; defaultPort: number };
   openInBrowser: (url: string) => void;
 }
 
@@ -98,7 +98,7 @@ export function createStartDependencies(pidDeps: PidFileDeps): StartDependencies
         const config = loadConfig();
         const enabledPlatforms = [...new Set(
           config.repositories.filter(r => r.enabled).map(r => r.platform),
-        )] as Array<'gitlab' | 'github'>;
+        )] as Array<'gitlab' | 'github' | 'bitbucket' | 'gitea'>;
         return { enabledPlatforms, defaultPort: config.server.port };
       } catch {
         return { enabledPlatforms: [], defaultPort: 3000 };
@@ -13,6 +13,7 @@ import { FileSystemInsightsGateway } from '@/modules/statistics-insights/interfa
 import { FileSystemReviewFileGateway } from '@/modules/review-execution/interface-adapters/gateways/fileSystem/reviewFile.fileSystem.js';
 import { FileSystemReviewLogFileGateway } from '@/modules/data-lifecycle/interface-adapters/gateways/fileSystem/reviewLogFile.fileSystem.gateway.js';
 import { ReviewContextFileSystemGateway } from '@/modules/review-execution/interface-adapters/gateways/reviewContext.fileSystem.gateway.js';
+import { ProcessorRegistry } from '@/modules/review-execution/services/processorRegistry.js';
 import { ReviewContextWatcherService } from '@/modules/review-execution/services/reviewContextWatcher.service.js';
 import { ReviewContextProgressPresenter } from '@/modules/review-execution/interface-adapters/presenters/reviewContextProgress.presenter.js';
 import { ProjectStatsCalculator } from '@/modules/statistics-insights/interface-adapters/presenters/projectStats.calculator.js';
@@ -53,6 +54,8 @@ export interface Dependencies {
   worktreeHealthProbeGateway: WorktreeHealthProbeGateway;
   worktreePanelPresenter: WorktreePanelPresenter;
   sweepSchedulerControls: WorktreeSchedulerControls | null;
+  /** Filled by the routes, read by the queue journal replay at boot. */
+  processorRegistry: ProcessorRegistry;
   forceCleanupLock: ForceCleanupLockService;
   logger: Logger;
   config: Config;
@@ -119,6 +122,7 @@ export function createDependencies(config: Config): Dependencies {
     worktreeHealthProbeGateway,
     worktreePanelPresenter,
     sweepSchedulerControls: null,
+    processorRegistry: new ProcessorRegistry(),
     forceCleanupLock,
     logger,
     config,
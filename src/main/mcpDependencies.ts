@@ -63,10 +63,20 @@ function syncProgressToReviewContext(
 		.filter((a) => a.status === "completed" || a.status === "failed")
 		.map((a) => a.name);
 
+	const agentRuns = progress.agents
+		.filter((a) => a.startedAt !== undefined)
+		.map((a) => ({
+			name: a.name,
+			...(a.dispatch?.model ? { model: a.dispatch.model } : {}),
+			...(a.durationMs !== undefined ? { durationMs: a.durationMs } : {}),
+			...(a.tokens !== undefined ? { tokens: a.tokens } : {}),
+		}));
+
 	reviewContextGateway.updateProgress(jobContext.localPath, jobContext.mergeRequestId, {
 		phase: progress.currentPhase,
 		currentStep: runningAgent?.name ?? null,
 		stepsCompleted: completedAgents,
+		agentRuns,
 		updatedAt: new Date().toISOString(),
 	});
 }
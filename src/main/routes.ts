@@ -6,6 +6,7 @@ import type { Dependencies } from '@/main/dependencies.js';
 import { healthRoutes } from '@/modules/cli-configuration/interface-adapters/controllers/http/health.routes.js';
 import { settingsRoutes } from '@/modules/cli-configuration/interface-adapters/controllers/http/settings.routes.js';
 import { reviewRoutes } from '@/modules/review-execution/interface-adapters/controllers/http/reviews.routes.js';
+import { ShadowLogFileSystemGateway } from '@/modules/review-execution/interface-adapters/gateways/fileSystem/shadowLog.fileSystem.gateway.js';
 import { statsRoutes } from '@/modules/statistics-insights/interface-adapters/controllers/http/stats.routes.js';
 import { overviewRoutes } from '@/modules/statistics-insights/interface-adapters/controllers/http/overview.routes.js';
 import { mrTrackingRoutes } from '@/modules/tracking/interface-adapters/controllers/http/mrTracking.routes.js';
@@ -42,15 +43,40 @@ import { defaultProcessRunner } from '@/frameworks/claude/claudeInvoker.js';
 import { ProcessEnvironmentGateway } from '@/modules/claude-invocation/interface-adapters/gateways/environment.process.gateway.js';
 import { getConfigDir } from '@/shared/services/configDir.js';
 import { homedir } from 'node:os';
-import { handleGitLabWebhook } from '@/modules/platform-integration/interface-adapters/controllers/webhook/gitlab.controller.js';
-import { handleGitHubWebhook } from '@/modules/platform-integration/interface-adapters/controllers/webhook/github.controller.js';
-import { InMemoryIdempotencyStore } from '@/modules/platform-integration/interface-adapters/gateways/inMemoryIdempotencyStore.gateway.js';
+import {
+  buildGitLabFollowupProcessor,
+  buildGitLabReviewProcessor,
+  handleGitLabWebhook,
+  type GitLabWebhookDependencies,
+} from '@/modules/platform-integration/interface-adapters/controllers/webhook/gitlab.controller.js';
+import {
+  buildPullRequestFollowupProcessor,
+  buildPullRequestReviewProcessor,
+  GITHUB_FORGE,
+  handleGitHubWebhook,
+  type GitHubWebhookDependencies,
+} from '@/modules/platform-integration/interface-adapters/controllers/webhook/github.controller.js';
+import {
+  buildBitbucketReviewProcessor,
+  handleBitbucketWebhook,
+  type BitbucketWebhookDependencies,
+} from '@/modules/platform-integration/interface-adapters/controllers/webhook/bitbucket.controller.js';
+import {
+  GITEA_FORGE,
+  handleGiteaWebhook,
+  type GiteaWebhookDependencies,
+} from '@/modules/platform-integration/interface-adapters/controllers/webhook/gitea.controller.js';
+import type { ProcessorBuilder, ProcessorKey } from '@/modules/review-execution/services/processorRegistry.js';
+import { FileSystemIdempotencyStore } from '@/modules/platform-integration/interface-adapters/gateways/fileSystemIdempotencyStore.gateway.js';
+import { idempotencyRoutes } from '@/modules/platform-integration/interface-adapters/controllers/http/idempotency.routes.js';
 import { transportGuardMiddleware } from '@/modules/platform-integration/interface-adapters/controllers/webhook/transportGuard.middleware.js';
 import { ForwardedForClientIpResolver } from '@/modules/platform-integration/interface-adapters/gateways/transport/clientIpResolver.forwardedFor.gateway.js';
 import { resolveTransportGuardConfig } from '@/security/transportGuardConfig.js';
 import {
   cancelJob,
   getJobStatus,
+  setJobPriority,
+  startDeferredJob,
   enqueueReview,
   getJobsStatus,
   setProjectConcurrencyCap,
@@ -62,12 +88,27 @@ import { RecomputeGlobalConcurrencyUseCase } from '@/modules/cli-configuration/u
 import { RepositoriesListRuntimeConfigGateway } from '@/modules/cli-configuration/interface-adapters/gateways/repositoriesList.runtimeConfig.gateway.js';
 import { GitLabThreadFetchGateway, defaultGitLabExecutor } from '@/modules/platform-integration/interface-adapters/gateways/threadFetch.gitlab.gateway.js';
 import { GitLabMemberAccessCliGateway } from '@/modules/platform-integration/interface-adapters/gateways/memberAccess.gitlab.cli.gateway.js';
+import { GitHubMemberAccessCliGateway } from '@/modules/platform-integration/interface-adapters/gateways/memberAccess.github.cli.gateway.js';
+import { BitbucketMemberAccessGateway } from '@/modules/platform-integration/interface-adapters/gateways/memberAccess.bitbucket.gateway.js';
+import { GiteaMemberAccessGateway } from '@/modules/platform-integration/interface-adapters/gateways/memberAccess.gitea.gateway.js';
 import { IsTrustedActorUseCase } from '@/modules/platform-integration/usecases/isTrustedActor.usecase.js';
 import { GitLabDiffMetadataFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/diffMetadataFetch.gitlab.gateway.js';
 import { GitHubThreadFetchGateway, defaultGitHubExecutor } from '@/modules/platform-integration/interface-adapters/gateways/threadFetch.github.gateway.js';
 import { GitHubDiffMetadataFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/diffMetadataFetch.github.gateway.js';
+import { GitLabChangedFilesFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/changedFilesFetch.gitlab.gateway.js';
+import { GitLabMergeRequestMetadataFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/mergeRequestMetadataFetch.gitlab.gateway.js';
+import { GitHubChangedFilesFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/changedFilesFetch.github.gateway.js';
+import { GitHubPullRequestFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/pullRequestFetch.github.gateway.js';
 import { GitLabDiffStatsFetchGateway } from '@/modules/statistics-insights/interface-adapters/gateways/diffStatsFetch.gitlab.gateway.js';
 import { GitHubDiffStatsFetchGateway } from '@/modules/statistics-insights/interface-adapters/gateways/diffStatsFetch.github.gateway.js';
+import { defaultBitbucketExecutor } from '@/modules/platform-integration/interface-adapters/gateways/bitbucketApi.js';
+import { BitbucketThreadFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/threadFetch.bitbucket.gateway.js';
+import { BitbucketDiffMetadataFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/diffMetadataFetch.bitbucket.gateway.js';
+import { BitbucketDiffStatsFetchGateway } from '@/modules/statistics-insights/interface-adapters/gateways/diffStatsFetch.bitbucket.gateway.js';
+import { defaultGiteaExecutor } from '@/modules/platform-integration/interface-adapters/gateways/giteaApi.js';
+import { GiteaThreadFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/threadFetch.gitea.gateway.js';
+import { GiteaDiffMetadataFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/diffMetadataFetch.gitea.gateway.js';
+import { GiteaDiffStatsFetchGateway } from '@/modules/statistics-insights/interface-adapters/gateways/diffStatsFetch.gitea.gateway.js';
 import { TrackAssignmentUseCase } from '@/modules/tracking/usecases/tracking/trackAssignment.usecase.js';
 import { RecordReviewCompletionUseCase } from '@/modules/tracking/usecases/tracking/recordReviewCompletion.usecase.js';
 import { RecordPushUseCase } from '@/modules/tracking/usecases/tracking/recordPush.usecase.js';
@@ -75,10 +116,16 @@ import { TransitionStateUseCase } from '@/modules/tracking/usecases/tracking/tra
 import { CheckFollowupNeededUseCase } from '@/modules/tracking/usecases/tracking/checkFollowupNeeded.usecase.js';
 import { SyncThreadsUseCase } from '@/modules/tracking/usecases/tracking/syncThreads.usecase.js';
 import { RecordBypassUseCase } from '@/modules/tracking/usecases/tracking/recordBypass.usecase.js';
+import { RecordReviewPreferenceUseCase } from '@/modules/tracking/usecases/tracking/recordReviewPreference.usecase.js';
+import { RecordSupersessionUseCase } from '@/modules/tracking/usecases/tracking/recordSupersession.usecase.js';
 import { HandlePlatformApprovalUseCase } from '@/modules/tracking/usecases/tracking/handlePlatformApproval.usecase.js';
 import { GitLabNoteCommentPostCliGateway } from '@/modules/platform-integration/interface-adapters/gateways/cli/noteCommentPost.gitlab.cli.gateway.js';
 import { GitHubNoteCommentPostCliGateway } from '@/modules/platform-integration/interface-adapters/gateways/cli/noteCommentPost.github.cli.gateway.js';
+import { GitHubPullRequestReviewCliGateway } from '@/modules/platform-integration/interface-adapters/gateways/cli/pullRequestReview.github.cli.gateway.js';
+import { BitbucketNoteCommentPostCliGateway } from '@/modules/platform-integration/interface-adapters/gateways/cli/noteCommentPost.bitbucket.cli.gateway.js';
+import { GiteaNoteCommentPostCliGateway } from '@/modules/platform-integration/interface-adapters/gateways/cli/noteCommentPost.gitea.cli.gateway.js';
 import { EgressScannedNoteCommentPostGateway } from '@/modules/platform-integration/interface-adapters/gateways/egressScanned.noteCommentPost.gateway.js';
+import { EgressScannedPullRequestReviewGateway } from '@/modules/platform-integration/interface-adapters/gateways/egressScanned.pullRequestReview.gateway.js';
 import { LoggerEgressTraceGateway } from '@/modules/platform-integration/interface-adapters/gateways/loggerEgressTrace.gateway.js';
 import { createEgressScanner } from '@/modules/platform-integration/entities/egressScan/egressScan.scanner.js';
 import { defaultEgressScanConfig } from '@/modules/platform-integration/entities/egressScan/egressScan.defaults.js';
@@ -105,6 +152,16 @@ import { DismissPendingReviewUseCase } from '@/modules/review-execution/usecases
 import { GateClaudeInvocationUseCase } from '@/modules/review-execution/usecases/gateClaudeInvocation.usecase.js';
 import { PendingReviewPresenter } from '@/modules/review-execution/interface-adapters/presenters/pendingReview.presenter.js';
 import { pendingReviewsRoutes } from '@/modules/review-execution/interface-adapters/controllers/http/pendingReviews.routes.js';
+import { PendingPublicationFileSystemGateway } from '@/modules/review-execution/interface-adapters/gateways/pendingPublication.fileSystem.gateway.js';
+import { ParkReviewPublicationUseCase } from '@/modules/review-execution/usecases/parkReviewPublication.usecase.js';
+import { postLinkedComments } from '@/modules/review-execution/services/crossRepoPublisher.js';
+import { GetPendingPublicationUseCase } from '@/modules/review-execution/usecases/getPendingPublication.usecase.js';
+import { UpdatePendingPublicationUseCase } from '@/modules/review-execution/usecases/updatePendingPublication.usecase.js';
+import { PublishPendingPublicationUseCase } from '@/modules/review-execution/usecases/publishPendingPublication.usecase.js';
+import { pendingPublicationsRoutes } from '@/modules/review-execution/interface-adapters/controllers/http/pendingPublications.routes.js';
+import { loadReviewBeforePublish } from '@/modules/review-execution/services/publishModeResolver.js';
+import { executeActionsFromContext } from '@/modules/review-execution/services/contextActionsExecutor.js';
+import { defaultCommandExecutor } from '@/modules/review-execution/services/threadActionsExecutor.js';
 import {
   createDefaultClaudeInvokerDependencies,
   type ClaudeInvokerDependencies,
@@ -158,9 +215,10 @@ export async function registerRoutes(
 
   await app.register(reviewRoutes, {
     reviewFileGateway: deps.reviewFileGateway,
+    shadowLogGateway: new ShadowLogFileSystemGateway(deps.logger),
     reviewRequestTrackingGateway: deps.reviewRequestTrackingGateway,
     getRepositories: () => deps.config.repositories,
-    queuePort: { getJobStatus, cancelJob },
+    queuePort: { getJobStatus, cancelJob, setJobPriority, startDeferredJob },
     logger: deps.logger,
   });
 
@@ -170,6 +228,8 @@ export async function registerRoutes(
     diffStatsFetchGateways: {
       gitlab: new GitLabDiffStatsFetchGateway(defaultGitLabExecutor),
       github: new GitHubDiffStatsFetchGateway(defaultGitHubExecutor),
+      bitbucket: new BitbucketDiffStatsFetchGateway(defaultBitbucketExecutor),
+      gitea: new GiteaDiffStatsFetchGateway(defaultGiteaExecutor),
     },
     broadcastBackfillProgress,
     logger: deps.logger,
@@ -300,9 +360,16 @@ export async function registerRoutes(
   });
 
   // SPEC-197: trigger-actor provenance gate. Membership is resolved through the
-  // scoped GitLab executor, cached per username, fail-closed.
+  // scoped platform executor, cached per username, fail-closed.
   const gitLabMemberAccessGateway = new GitLabMemberAccessCliGateway(defaultGitLabExecutor);
   const isTrustedActor = new IsTrustedActorUseCase(gitLabMemberAccessGateway);
+  const isTrustedGitHubActor = new IsTrustedActorUseCase(
+    new GitHubMemberAccessCliGateway(defaultGitHubExecutor),
+  );
+  const isTrustedBitbucketActor = new IsTrustedActorUseCase(
+    new BitbucketMemberAccessGateway(defaultBitbucketExecutor),
+  );
+  const isTrustedGiteaActor = new IsTrustedActorUseCase(new GiteaMemberAccessGateway(defaultGiteaExecutor));
 
   await app.register(pendingReviewsRoutes, {
     listPendingReviews,
@@ -321,25 +388,40 @@ export async function registerRoutes(
     // Reuse the shared invocation deps so timers (server.ts) and review jobs
     // see the same BillingState / SupervisorHealth / completion bridge.
     invocation: deps.claudeInvocationDeps,
+    isTrustedActor: async ({ platform, projectPath, username }) => {
+      if (platform === 'gitlab') return isTrustedActor.execute({ username, projectPath });
+      if (platform === 'github') return isTrustedGitHubActor.execute({ username, projectPath });
+      if (platform === 'bitbucket') return isTrustedBitbucketActor.execute({ username, projectPath });
+      return isTrustedGiteaActor.execute({ username, projectPath });
+    },
   };
 
-  const threadFetchGatewayFactory = (platform: 'gitlab' | 'github') =>
-    platform === 'github'
+  const threadFetchGatewayFactory = (platform: 'gitlab' | 'github' | 'bitbucket' | 'gitea') => {
+    if (platform === 'bitbucket') return new BitbucketThreadFetchGateway(defaultBitbucketExecutor);
+    if (platform === 'gitea') return new GiteaThreadFetchGateway(defaultGiteaExecutor);
+    return platform === 'github'
       ? new GitHubThreadFetchGateway(defaultGitHubExecutor)
       : new GitLabThreadFetchGateway(defaultGitLabExecutor);
+  };
   await app.register(mrTrackingAdvancedRoutes, {
     getRepositories: () => deps.config.repositories,
     reviewRequestTrackingGateway: deps.reviewRequestTrackingGateway,
     reviewContextGateway: new ReviewContextFileSystemGateway(),
     threadFetchGatewayFactory,
-    diffMetadataFetchGatewayFactory: (platform) =>
-      platform === 'github'
+    diffMetadataFetchGatewayFactory: (platform) => {
+      if (platform === 'bitbucket') return new BitbucketDiffMetadataFetchGateway(defaultBitbucketExecutor);
+      if (platform === 'gitea') return new GiteaDiffMetadataFetchGateway(defaultGiteaExecutor);
+      return platform === 'github'
         ? new GitHubDiffMetadataFetchGateway(defaultGitHubExecutor)
-        : new GitLabDiffMetadataFetchGateway(defaultGitLabExecutor),
-    diffStatsFetchGatewayFactory: (platform) =>
-      platform === 'github'
+        : new GitLabDiffMetadataFetchGateway(defaultGitLabExecutor);
+    },
+    diffStatsFetchGatewayFactory: (platform) => {
+      if (platform === 'bitbucket') return new BitbucketDiffStatsFetchGateway(defaultBitbucketExecutor);
+      if (platform === 'gitea') return new GiteaDiffStatsFetchGateway(defaultGiteaExecutor);
+      return platform === 'github'
         ? new GitHubDiffStatsFetchGateway(defaultGitHubExecutor)
-        : new GitLabDiffStatsFetchGateway(defaultGitLabExecutor),
+        : new GitLabDiffStatsFetchGateway(defaultGitLabExecutor);
+    },
     createSyncThreadsUseCase: (platform) =>
       new SyncThreadsUseCase(deps.reviewRequestTrackingGateway, threadFetchGatewayFactory(platform)),
     recordReviewCompletion: new RecordReviewCompletionUseCase(deps.reviewRequestTrackingGateway),
@@ -401,10 +483,16 @@ export async function registerRoutes(
 
   // TTL must be >= the platform's maximum webhook retry window so a
   // legitimately re-delivered event past that window is reprocessed, while any
-  // redelivery/replay inside it is acted upon at most once. 24h is a safe upper
-  // bound for GitLab's redelivery window.
-  const WEBHOOK_IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
-  const idempotencyStore = new InMemoryIdempotencyStore({ ttlMs: WEBHOOK_IDEMPOTENCY_TTL_MS });
+  // redelivery/replay inside it is acted upon at most once. The default 24h is a
+  // safe upper bound for GitLab's redelivery window. Keys are persisted so a
+  // restart inside that window does not replay deliveries.
+  const webhookIdempotencyTtlMs = deps.config.queue.webhookIdempotencyRetentionHours * 60 * 60 * 1000;
+  const idempotencyStore = new FileSystemIdempotencyStore({ ttlMs: webhookIdempotencyTtlMs });
+
+  await app.register(idempotencyRoutes, {
+    idempotencyStore,
+    retentionMs: webhookIdempotencyTtlMs,
+  });
 
   const removeWorktreeAction = (input: {
     identity: WorktreeIdentity;
@@ -415,6 +503,210 @@ export async function registerRoutes(
       sourceCheckoutPath: input.sourceCheckoutPath,
     });
 
+  const pendingPublicationGateway = new PendingPublicationFileSystemGateway();
+  const parkReviewPublication = new ParkReviewPublicationUseCase({
+    pendingPublicationGateway,
+    isEnabled: loadReviewBeforePublish,
+    now: () => new Date().toISOString(),
+    logger: deps.logger,
+  });
+
+  const gitLabWebhookDeps: GitLabWebhookDependencies = {
+    reviewContextGateway: deps.reviewContextGateway,
+    threadFetchGateway: threadFetchGw,
+    diffMetadataFetchGateway: new GitLabDiffMetadataFetchGateway(defaultGitLabExecutor),
+    diffStatsFetchGateway: new GitLabDiffStatsFetchGateway(defaultGitLabExecutor),
+    trackAssignment: new TrackAssignmentUseCase(trackingGw),
+    recordCompletion: new RecordReviewCompletionUseCase(trackingGw),
+    recordPush: new RecordPushUseCase(trackingGw),
+    transitionState: new TransitionStateUseCase(trackingGw),
+    checkFollowupNeeded: new CheckFollowupNeededUseCase(trackingGw),
+    syncThreads: new SyncThreadsUseCase(trackingGw, threadFetchGw),
+    enforceBudget,
+    broadcastBudgetExceeded,
+    getRepositories: () => deps.config.repositories,
+    claudeInvokerDeps,
+    gateClaudeInvocation,
+    isTrustedActor,
+    removeWorktree: removeWorktreeAction,
+    recordBypass: new RecordBypassUseCase(trackingGw),
+    recordReviewPreference: new RecordReviewPreferenceUseCase(trackingGw),
+    recordSupersession: new RecordSupersessionUseCase(trackingGw),
+    noteCommentPostGateway: new EgressScannedNoteCommentPostGateway(
+      new GitLabNoteCommentPostCliGateway(defaultGitLabExecutor),
+      egressScanner,
+      egressTraceGateway,
+    ),
+    parkReviewPublication,
+    handlePlatformApproval: new HandlePlatformApprovalUseCase(trackingGw),
+    approvalRevocationGateway: new GitLabApprovalRevocationCliGateway(defaultGitLabExecutor),
+    idempotencyStore,
+    changedFilesFetchGateway: new GitLabChangedFilesFetchGateway(defaultGitLabExecutor),
+    mergeRequestMetadataFetchGateway: new GitLabMergeRequestMetadataFetchGateway(defaultGitLabExecutor),
+    getQualityThreshold: (projectPath: string) =>
+      loadProjectConfig(projectPath)?.qualityThreshold ?? null,
+    now: () => new Date().toISOString(),
+  };
+
+  const gitHubThreadFetchGw = new GitHubThreadFetchGateway(defaultGitHubExecutor);
+  const gitHubWebhookDeps: GitHubWebhookDependencies = {
+    reviewContextGateway: deps.reviewContextGateway,
+    threadFetchGateway: gitHubThreadFetchGw,
+    diffMetadataFetchGateway: new GitHubDiffMetadataFetchGateway(defaultGitHubExecutor),
+    diffStatsFetchGateway: new GitHubDiffStatsFetchGateway(defaultGitHubExecutor),
+    trackAssignment: new TrackAssignmentUseCase(trackingGw),
+    recordCompletion: new RecordReviewCompletionUseCase(trackingGw),
+    recordPush: new RecordPushUseCase(trackingGw),
+    transitionState: new TransitionStateUseCase(trackingGw),
+    checkFollowupNeeded: new CheckFollowupNeededUseCase(trackingGw),
+    syncThreads: new SyncThreadsUseCase(trackingGw, gitHubThreadFetchGw),
+    enforceBudget,
+    broadcastBudgetExceeded,
+    getRepositories: () => deps.config.repositories,
+    claudeInvokerDeps,
+    gateClaudeInvocation,
+    isTrustedActor: isTrustedGitHubActor,
+    removeWorktree: removeWorktreeAction,
+    recordBypass: new RecordBypassUseCase(trackingGw),
+    recordReviewPreference: new RecordReviewPreferenceUseCase(trackingGw),
+    recordSupersession: new RecordSupersessionUseCase(trackingGw),
+    noteCommentPostGateway: new EgressScannedNoteCommentPostGateway(
+      new GitHubNoteCommentPostCliGateway(defaultGitHubExecutor),
+      egressScanner,
+      egressTraceGateway,
+    ),
+    parkReviewPublication,
+    pullRequestReviewGateway: new EgressScannedPullRequestReviewGateway(
+      new GitHubPullRequestReviewCliGateway(defaultGitHubExecutor),
+      egressScanner,
+      egressTraceGateway,
+    ),
+    handlePlatformApproval: new HandlePlatformApprovalUseCase(trackingGw),
+    approvalRevocationGateway: new GitHubApprovalRevocationCliGateway(defaultGitHubExecutor),
+    changedFilesFetchGateway: new GitHubChangedFilesFetchGateway(defaultGitHubExecutor),
+    pullRequestFetchGateway: new GitHubPullRequestFetchGateway(defaultGitHubExecutor),
+    getQualityThreshold: (projectPath: string) =>
+      loadProjectConfig(projectPath)?.qualityThreshold ?? null,
+    now: () => new Date().toISOString(),
+  };
+
+  const bitbucketThreadFetchGw = new BitbucketThreadFetchGateway(defaultBitbucketExecutor);
+  const bitbucketWebhookDeps: BitbucketWebhookDependencies = {
+    reviewContextGateway: deps.reviewContextGateway,
+    threadFetchGateway: bitbucketThreadFetchGw,
+    diffMetadataFetchGateway: new BitbucketDiffMetadataFetchGateway(defaultBitbucketExecutor),
+    diffStatsFetchGateway: new BitbucketDiffStatsFetchGateway(defaultBitbucketExecutor),
+    trackAssignment: new TrackAssignmentUseCase(trackingGw),
+    recordCompletion: new RecordReviewCompletionUseCase(trackingGw),
+    recordPush: new RecordPushUseCase(trackingGw),
+    transitionState: new TransitionStateUseCase(trackingGw),
+    checkFollowupNeeded: new CheckFollowupNeededUseCase(trackingGw),
+    syncThreads: new SyncThreadsUseCase(trackingGw, bitbucketThreadFetchGw),
+    enforceBudget,
+    broadcastBudgetExceeded,
+    getRepositories: () => deps.config.repositories,
+    claudeInvokerDeps,
+    gateClaudeInvocation,
+    removeWorktree: removeWorktreeAction,
+    recordBypass: new RecordBypassUseCase(trackingGw),
+    isTrustedActor: isTrustedBitbucketActor,
+    noteCommentPostGateway: new EgressScannedNoteCommentPostGateway(
+      new BitbucketNoteCommentPostCliGateway(defaultBitbucketExecutor),
+      egressScanner,
+      egressTraceGateway,
+    ),
+    parkReviewPublication,
+    idempotencyStore,
+    now: () => new Date().toISOString(),
+  };
+
+  const giteaThreadFetchGw = new GiteaThreadFetchGateway(defaultGiteaExecutor);
+  const giteaWebhookDeps: GiteaWebhookDependencies = {
+    reviewContextGateway: deps.reviewContextGateway,
+    threadFetchGateway: giteaThreadFetchGw,
+    diffMetadataFetchGateway: new GiteaDiffMetadataFetchGateway(defaultGiteaExecutor),
+    diffStatsFetchGateway: new GiteaDiffStatsFetchGateway(defaultGiteaExecutor),
+    trackAssignment: new TrackAssignmentUseCase(trackingGw),
+    recordCompletion: new RecordReviewCompletionUseCase(trackingGw),
+    recordPush: new RecordPushUseCase(trackingGw),
+    transitionState: new TransitionStateUseCase(trackingGw),
+    checkFollowupNeeded: new CheckFollowupNeededUseCase(trackingGw),
+    syncThreads: new SyncThreadsUseCase(trackingGw, giteaThreadFetchGw),
+    enforceBudget,
+    broadcastBudgetExceeded,
+    getRepositories: () => deps.config.repositories,
+    claudeInvokerDeps,
+    gateClaudeInvocation,
+    removeWorktree: removeWorktreeAction,
+    recordBypass: new RecordBypassUseCase(trackingGw),
+    recordReviewPreference: new RecordReviewPreferenceUseCase(trackingGw),
+    recordSupersession: new RecordSupersessionUseCase(trackingGw),
+    isTrustedActor: isTrustedGiteaActor,
+    noteCommentPostGateway: new EgressScannedNoteCommentPostGateway(
+      new GiteaNoteCommentPostCliGateway(defaultGiteaExecutor),
+      egressScanner,
+      egressTraceGateway,
+    ),
+    parkReviewPublication,
+    now: () => new Date().toISOString(),
+  };
+
+  const publicationWebhookDeps = {
+    gitlab: gitLabWebhookDeps,
+    github: gitHubWebhookDeps,
+    bitbucket: bitbucketWebhookDeps,
+    gitea: giteaWebhookDeps,
+  };
+  await app.register(pendingPublicationsRoutes, {
+    getPendingPublication: new GetPendingPublicationUseCase({ pendingPublicationGateway }),
+    updatePendingPublication: new UpdatePendingPublicationUseCase({ pendingPublicationGateway, logger: deps.logger }),
+    publishPendingPublication: new PublishPendingPublicationUseCase({
+      pendingPublicationGateway,
+      executeActions: (context, publication) => {
+        const { pullRequestReviewGateway } = publication.platform === 'github' ? gitHubWebhookDeps : {};
+        return executeActionsFromContext(
+          context,
+          publication.localPath,
+          deps.logger,
+          defaultCommandExecutor,
+          publication.baseUrl,
+          publicationWebhookDeps[publication.platform].noteCommentPostGateway,
+          pullRequestReviewGateway && publication.verdict
+            ? { gateway: pullRequestReviewGateway, verdict: publication.verdict }
+            : null,
+        );
+      },
+      postLinkedComments: (publication) =>
+        postLinkedComments(
+          publication.linkedComments ?? [],
+          publication.platform,
+          publicationWebhookDeps[publication.platform].noteCommentPostGateway,
+          null,
+          deps.logger,
+        ),
+      logger: deps.logger,
+    }),
+  });
+
+  // Builders the queue journal resumes jobs with after a restart: each rebuilds
+  // the processor the webhook would have queued, from the job alone.
+  const resumableProcessors: Array<[ProcessorKey['platform'], ProcessorKey['jobType'], ProcessorBuilder]> = [
+    ['gitlab', 'review', buildGitLabReviewProcessor(gitLabWebhookDeps, deps.logger)],
+    ['gitlab', 'followup', buildGitLabFollowupProcessor(gitLabWebhookDeps, deps.logger)],
+    ['github', 'review', buildPullRequestReviewProcessor(gitHubWebhookDeps, deps.logger, GITHUB_FORGE)],
+    ['github', 'followup', buildPullRequestFollowupProcessor(gitHubWebhookDeps, deps.logger, GITHUB_FORGE)],
+    ['bitbucket', 'review', buildBitbucketReviewProcessor(bitbucketWebhookDeps, deps.logger)],
+    ['bitbucket', 'followup', buildBitbucketReviewProcessor(bitbucketWebhookDeps, deps.logger)],
+    ['gitea', 'review', buildPullRequestReviewProcessor(giteaWebhookDeps, deps.logger, GITEA_FORGE)],
+    ['gitea', 'followup', buildPullRequestFollowupProcessor(giteaWebhookDeps, deps.logger, GITEA_FORGE)],
+  ];
+  for (const [platform, jobType, builder] of resumableProcessors) {
+    deps.processorRegistry.register(
+      { triggerSource: jobType === 'review' ? 'webhook-initial' : 'webhook-followup', platform, jobType },
+      builder,
+    );
+  }
+
   const transportGuardConfig = resolveTransportGuardConfig();
   const clientIpResolver = new ForwardedForClientIpResolver();
 
@@ -434,41 +726,9 @@ export async function registerRoutes(
     if (!proceed) {
       return;
     }
-    await handleGitLabWebhook(request, reply, deps.logger, trackingGw, {
-      reviewContextGateway: deps.reviewContextGateway,
-      threadFetchGateway: threadFetchGw,
-      diffMetadataFetchGateway: new GitLabDiffMetadataFetchGateway(defaultGitLabExecutor),
-      diffStatsFetchGateway: new GitLabDiffStatsFetchGateway(defaultGitLabExecutor),
-      trackAssignment: new TrackAssignmentUseCase(trackingGw),
-      recordCompletion: new RecordReviewCompletionUseCase(trackingGw),
-      recordPush: new RecordPushUseCase(trackingGw),
-      transitionState: new TransitionStateUseCase(trackingGw),
-      checkFollowupNeeded: new CheckFollowupNeededUseCase(trackingGw),
-      syncThreads: new SyncThreadsUseCase(trackingGw, threadFetchGw),
-      enforceBudget,
-      broadcastBudgetExceeded,
-      getRepositories: () => deps.config.repositories,
-      claudeInvokerDeps,
-      gateClaudeInvocation,
-      isTrustedActor,
-      removeWorktree: removeWorktreeAction,
-      recordBypass: new RecordBypassUseCase(trackingGw),
-      noteCommentPostGateway: new EgressScannedNoteCommentPostGateway(
-        new GitLabNoteCommentPostCliGateway(defaultGitLabExecutor),
-        egressScanner,
-        egressTraceGateway,
-      ),
-      handlePlatformApproval: new HandlePlatformApprovalUseCase(trackingGw),
-      approvalRevocationGateway: new GitLabApprovalRevocationCliGateway(defaultGitLabExecutor),
-      idempotencyStore,
-      getQualityThreshold: (projectPath: string) =>
-        loadProjectConfig(projectPath)?.qualityThreshold ?? null,
-      now: () => new Date().toISOString(),
-    });
+    await handleGitLabWebhook(request, reply, deps.logger, trackingGw, gitLabWebhookDeps);
   });
 
-  const gitHubThreadFetchGw = new GitHubThreadFetchGateway(defaultGitHubExecutor);
-
   app.post('/webhooks/github', async (request, reply) => {
     let proceedGitHub = false;
     transportGuardMiddleware(
@@ -485,35 +745,45 @@ export async function registerRoutes(
     if (!proceedGitHub) {
       return;
     }
-    await handleGitHubWebhook(request, reply, deps.logger, trackingGw, {
-      reviewContextGateway: deps.reviewContextGateway,
-      threadFetchGateway: gitHubThreadFetchGw,
-      diffMetadataFetchGateway: new GitHubDiffMetadataFetchGateway(defaultGitHubExecutor),
-      diffStatsFetchGateway: new GitHubDiffStatsFetchGateway(defaultGitHubExecutor),
-      trackAssignment: new TrackAssignmentUseCase(trackingGw),
-      recordCompletion: new RecordReviewCompletionUseCase(trackingGw),
-      recordPush: new RecordPushUseCase(trackingGw),
-      transitionState: new TransitionStateUseCase(trackingGw),
-      checkFollowupNeeded: new CheckFollowupNeededUseCase(trackingGw),
-      syncThreads: new SyncThreadsUseCase(trackingGw, gitHubThreadFetchGw),
-      enforceBudget,
-      broadcastBudgetExceeded,
-      getRepositories: () => deps.config.repositories,
-      claudeInvokerDeps,
-      gateClaudeInvocation,
-      removeWorktree: removeWorktreeAction,
-      recordBypass: new RecordBypassUseCase(trackingGw),
-      noteCommentPostGateway: new EgressScannedNoteCommentPostGateway(
-        new GitHubNoteCommentPostCliGateway(defaultGitHubExecutor),
-        egressScanner,
-        egressTraceGateway,
-      ),
-      handlePlatformApproval: new HandlePlatformApprovalUseCase(trackingGw),
-      approvalRevocationGateway: new GitHubApprovalRevocationCliGateway(defaultGitHubExecutor),
-      getQualityThreshold: (projectPath: string) =>
-        loadProjectConfig(projectPath)?.qualityThreshold ?? null,
-      now: () => new Date().toISOString(),
-    });
+    await handleGitHubWebhook(request, reply, deps.logger, trackingGw, gitHubWebhookDeps);
+  });
+
+  app.post('/webhooks/bitbucket', async (request, reply) => {
+    let proceedBitbucket = false;
+    transportGuardMiddleware(
+      {
+        request: { socket: { remoteAddress: request.socket.remoteAddress }, headers: request.headers },
+        reply: { code: (status) => reply.code(status), send: () => reply.send() },
+        next: () => {
+          proceedBitbucket = true;
+        },
+        resolver: clientIpResolver,
+      },
+      transportGuardConfig,
+    );
+    if (!proceedBitbucket) {
+      return;
+    }
+    await handleBitbucketWebhook(request, reply, deps.logger, trackingGw, bitbucketWebhookDeps);
+  });
+
+  app.post('/webhooks/gitea', async (request, reply) => {
+    let proceedGitea = false;
+    transportGuardMiddleware(
+      {
+        request: { socket: { remoteAddress: request.socket.remoteAddress }, headers: request.headers },
+        reply: { code: (status) => reply.code(status), send: () => reply.send() },
+        next: () => {
+          proceedGitea = true;
+        },
+        resolver: clientIpResolver,
+      },
+      transportGuardConfig,
+    );
+    if (!proceedGitea) {
+      return;
+    }
+    await handleGiteaWebhook(request, reply, deps.logger, trackingGw, giteaWebhookDeps);
   });
 
   app.get('/', async (_request, reply) => {
@@ -605,6 +875,8 @@ export async function registerRoutes(
         status: '/api/status',
         gitlab: '/webhooks/gitlab',
         github: '/webhooks/github',
+        bitbucket: '/webhooks/bitbucket',
+        gitea: '/webhooks/gitea',
       },
     };
   });
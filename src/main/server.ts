@@ -5,8 +5,13 @@ import { createDependencies, type Dependencies } from './dependencies.js';
 import { registerRoutes } from './routes.js';
 import { setupWebSocketCallbacks } from './websocket.js';
 import {
+  enqueueReview,
   initQueue,
+  refreshDeferredJobs,
   replaceCompletedJobs,
+  setJobDeferralResolver,
+  setJobLifecycleCallback,
+  setJobPriorityResolver,
   setPersistJobRecordCallback,
   type JobStatus,
 } from '../frameworks/queue/pQueueAdapter.js';
@@ -15,6 +20,11 @@ import { PersistJobRecordUseCase } from '@/modules/review-execution/usecases/job
 import { LoadRecentJobHistoryUseCase } from '@/modules/review-execution/usecases/jobHistory/loadRecentJobHistory.usecase.js';
 import { PruneJobHistoryUseCase } from '@/modules/review-execution/usecases/jobHistory/pruneJobHistory.usecase.js';
 import type { JobRecord } from '@/modules/review-execution/entities/job/jobRecord.schema.js';
+import { QueueJournalFileSystemGateway } from '@/modules/review-execution/interface-adapters/gateways/fileSystem/queueJournal.fileSystem.gateway.js';
+import { JournalJobLifecycleUseCase } from '@/modules/review-execution/usecases/queueJournal/journalJobLifecycle.usecase.js';
+import { ResumeQueuedJobsUseCase } from '@/modules/review-execution/usecases/queueJournal/resumeQueuedJobs.usecase.js';
+import { resolveQueuedJobPriority } from '@/modules/review-execution/services/jobPriorityResolver.js';
+import { createJobDeferralResolver } from '@/modules/review-execution/services/reviewWindowResolver.js';
 import { removePidFile } from '../shared/services/pidFileManager.js';
 import { PID_FILE_PATH } from '../shared/services/daemonPaths.js';
 import { startCleanupScheduler } from '../frameworks/scheduler/cleanupScheduler.js';
@@ -22,13 +32,23 @@ import { startWorktreeSweepScheduler } from '../frameworks/scheduler/worktreeSwe
 import { startClaudeInvocationTimers } from '@/frameworks/claude/timers/claudeInvocationTimers.js';
 import { InMemorySupervisorHealthGateway } from '@/modules/claude-invocation/interface-adapters/gateways/supervisorHealth.memory.gateway.js';
 import { startSupervisorScheduler } from '@/frameworks/scheduler/supervisorScheduler.js';
+import { startReviewWindowScheduler } from '@/frameworks/scheduler/reviewWindowScheduler.js';
 import { SupervisorCliGateway, createDefaultSupervisorProbe, createDefaultSupervisorSpawner } from '@/modules/supervisor-management/interface-adapters/gateways/supervisor.cli.gateway.js';
 import { SupervisorLockFileSystemGateway, createDefaultSupervisorLockFileSystem, getDefaultSupervisorLockFilePath } from '@/modules/supervisor-management/interface-adapters/gateways/supervisorLock.fileSystem.gateway.js';
-import { runReviewRecovery } from '@/modules/review-execution/services/reviewRecovery.service.js';
-import { executeActionsFromContext } from '@/modules/review-execution/services/contextActionsExecutor.js';
+import { createRecoveryActionsExecutor, runReviewRecovery } from '@/modules/review-execution/services/reviewRecovery.service.js';
 import { defaultCommandExecutor } from '@/modules/review-execution/services/threadActionsExecutor.js';
 import { configureSettingsLogger, configureSettingsPath, getDefaultSettingsPath, loadSettingsFromDisk } from '@/frameworks/settings/runtimeSettings.js';
 import { transportTrustProxyValue } from '@/security/transportGuardConfig.js';
+import { loadProjectConfig, type ProjectConfig } from '@/config/projectConfig.js';
+import { ReportReviewStatusUseCase } from '@/modules/platform-integration/usecases/reportReviewStatus.usecase.js';
+import { loadJobPublishMode } from '@/modules/review-execution/services/publishModeResolver.js';
+import { ShadowLogFileSystemGateway } from '@/modules/review-execution/interface-adapters/gateways/fileSystem/shadowLog.fileSystem.gateway.js';
+import { GitHubCommitStatusCliGateway } from '@/modules/platform-integration/interface-adapters/gateways/cli/commitStatus.github.cli.gateway.js';
+import { GitLabCommitStatusCliGateway } from '@/modules/platform-integration/interface-adapters/gateways/cli/commitStatus.gitlab.cli.gateway.js';
+import { GitHubDiffMetadataFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/diffMetadataFetch.github.gateway.js';
+import { GitLabDiffMetadataFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/diffMetadataFetch.gitlab.gateway.js';
+import { defaultGitHubExecutor } from '@/modules/platform-integration/interface-adapters/gateways/threadFetch.github.gateway.js';
+import { defaultGitLabExecutor } from '@/modules/platform-integration/interface-adapters/gateways/threadFetch.gitlab.gateway.js';
 
 export interface ServerOptions {
   config?: Config;
@@ -84,9 +104,37 @@ function reviveJobStatusFromRecord(record: JobRecord): JobStatus {
     startedAt: new Date(record.startedAt),
     completedAt: new Date(record.completedAt),
     error: record.exitReason ?? undefined,
+    attempts: record.attempts,
   };
 }
 
+function readProjectConfig(localPath: string): ProjectConfig | undefined {
+  try {
+    return loadProjectConfig(localPath);
+  } catch {
+    return undefined;
+  }
+}
+
+function createReportReviewStatus(config: Config, deps: Dependencies): ReportReviewStatusUseCase {
+  const gitHubCommitStatus = new GitHubCommitStatusCliGateway(defaultGitHubExecutor);
+  const gitLabCommitStatus = new GitLabCommitStatusCliGateway(defaultGitLabExecutor);
+  const gitHubDiffMetadata = new GitHubDiffMetadataFetchGateway(defaultGitHubExecutor);
+  const gitLabDiffMetadata = new GitLabDiffMetadataFetchGateway(defaultGitLabExecutor);
+
+  return new ReportReviewStatusUseCase({
+    commitStatusGatewayFor: (platform) =>
+      platform === 'github' ? gitHubCommitStatus : platform === 'gitlab' ? gitLabCommitStatus : null,
+    diffMetadataFetchGatewayFor: (platform) =>
+      platform === 'github' ? gitHubDiffMetadata : platform === 'gitlab' ? gitLabDiffMetadata : null,
+    trackingGateway: deps.reviewRequestTrackingGateway,
+    isEnabled: (job) => readProjectConfig(job.localPath)?.commitStatus === true && loadJobPublishMode(job) === 'live',
+    getQualityThreshold: (localPath) => readProjectConfig(localPath)?.qualityThreshold ?? null,
+    dashboardUrl: config.server.publicUrl ?? `http://localhost:${config.server.port}`,
+    logger: deps.logger,
+  });
+}
+
 async function buildServer(deps: Dependencies): Promise<FastifyInstance> {
   // trust proxy is scoped to the single loopback hop only (never true, never a
   // broad subnet) so Fastify does not inflate request attributes from client
@@ -149,6 +197,24 @@ export async function startServer(options: ServerOptions = {}): Promise<FastifyI
     });
   });
 
+  const queueJournalGateway = new QueueJournalFileSystemGateway({ logger: deps.logger });
+  const journalJobLifecycle = new JournalJobLifecycleUseCase({
+    queueJournalGateway,
+    now: () => new Date(),
+  });
+  const reportReviewStatus = createReportReviewStatus(config, deps);
+  setJobLifecycleCallback((event, jobStatus) => {
+    journalJobLifecycle.execute(event, jobStatus);
+    void reportReviewStatus.execute(event, jobStatus);
+  });
+  setJobPriorityResolver(resolveQueuedJobPriority);
+  setJobDeferralResolver(createJobDeferralResolver(() => config.queue.schedule));
+  const reviewWindowScheduler = startReviewWindowScheduler({
+    refreshDeferredJobs,
+    logger: deps.logger,
+    intervalMs: 60_000,
+  });
+
   setupWebSocketCallbacks({
     reviewContextWatcher: deps.reviewContextWatcher,
     progressPresenter: deps.progressPresenter,
@@ -178,6 +244,25 @@ export async function startServer(options: ServerOptions = {}): Promise<FastifyI
   const app = await buildServer(deps);
   const port = options.portOverride ?? config.server.port;
 
+  // Routes registered the processor builders, so the jobs a stop or crash cut
+  // off can be enqueued again.
+  const queueResume = await new ResumeQueuedJobsUseCase({
+    queueJournalGateway,
+    resolveProcessor: (job) => deps.processorRegistry.resolveJob(job),
+    enqueue: enqueueReview,
+    logger: deps.logger,
+  }).execute();
+  if (queueResume.resumed.length > 0 || queueResume.dropped.length > 0) {
+    deps.logger.info(
+      {
+        resumed: queueResume.resumed.map((entry) => entry.jobId),
+        interrupted: queueResume.resumed.filter((entry) => entry.interrupted).map((entry) => entry.jobId),
+        dropped: queueResume.dropped,
+      },
+      `Queue journal replayed: ${queueResume.resumed.length} job(s) resumed`,
+    );
+  }
+
   const supervisorGateway = new SupervisorCliGateway({
     probe: createDefaultSupervisorProbe(),
     spawn: createDefaultSupervisorSpawner(),
@@ -221,15 +306,11 @@ export async function startServer(options: ServerOptions = {}): Promise<FastifyI
   void runReviewRecovery({
     repositories: config.repositories.filter((repo) => repo.enabled),
     reviewContextGateway: deps.reviewContextGateway,
-    executeActions: async (context, localPath) => {
-      const result = await executeActionsFromContext(
-        context,
-        localPath,
-        deps.logger,
-        defaultCommandExecutor,
-      );
-      return { posted: result.succeeded, failed: result.failed };
-    },
+    executeActions: createRecoveryActionsExecutor({
+      logger: deps.logger,
+      executor: defaultCommandExecutor,
+      shadowLogGateway: new ShadowLogFileSystemGateway(deps.logger),
+    }),
     now: () => Date.now(),
     logger: deps.logger,
   })
@@ -249,6 +330,7 @@ export async function startServer(options: ServerOptions = {}): Promise<FastifyI
     worktreeSweepScheduler.stop();
     stopClaudeInvocationTimers();
     supervisorScheduler.stop();
+    reviewWindowScheduler.stop();
     removePidFile(PID_FILE_PATH);
     await app.close();
     process.exit(0);
@@ -27,6 +27,7 @@ Commands:
   validate                 Validate configuration
   discover                 Scan and add repositories to existing config
   followup-importants      Trigger followups for pending-approval MRs with Important issues
+  review                   Review a local branch or commit range, without any MR
 
 Discover options:
   --scan-path <path>       Custom scan path (repeatable)
@@ -61,6 +62,13 @@ Followup-importants options:
   -p, --project <path>     Scan specific project only
   -y, --yes                Skip confirmation prompt
 
+Review options:
+  --base <ref>             Commit the changes start from (required)
+  --head <ref>             Last commit to review (default: HEAD)
+  --path <path>            Checkout to review (default: current directory)
+  --focus <focus>          Review focus: front, back, fullstack or doc
+  --json                   Output the report and findings as JSON
+
 General options:
   -v, --version            Show version
   -h, --help               Show this help
@@ -93,7 +93,7 @@ export function broadcastBackfillProgress(progress: BackfillProgress): void {
 
 export interface BudgetExceededPayload {
   mrNumber: number;
-  platform: 'gitlab' | 'github';
+  platform: 'gitlab' | 'github' | 'bitbucket' | 'gitea';
   projectPath: string;
   limitUsd: number;
   consumedUsd: number;
@@ -14,6 +14,28 @@ import { createCompleteAgentHandler } from "@/modules/review-execution/interface
 import { createSetPhaseHandler } from "@/modules/review-execution/interface-adapters/controllers/mcp/setPhase.handler.js";
 import { createGetThreadsHandler } from "@/modules/review-execution/interface-adapters/controllers/mcp/getThreads.handler.js";
 import { createAddActionHandler } from "@/modules/review-execution/interface-adapters/controllers/mcp/addAction.handler.js";
+import { createReportFindingHandler } from "@/modules/review-execution/interface-adapters/controllers/mcp/reportFinding.handler.js";
+import { createSubmitResultHandler } from "@/modules/review-execution/interface-adapters/controllers/mcp/submitResult.handler.js";
+import { createGetDiffHandler } from "@/modules/review-execution/interface-adapters/controllers/mcp/getDiff.handler.js";
+import { createGetChangedFilesHandler } from "@/modules/review-execution/interface-adapters/controllers/mcp/getChangedFiles.handler.js";
+import { createGetFileAtRefHandler } from "@/modules/review-execution/interface-adapters/controllers/mcp/getFileAtRef.handler.js";
+import { createGetMrMetadataHandler } from "@/modules/review-execution/interface-adapters/controllers/mcp/getMrMetadata.handler.js";
+import { ReviewDiffGitGateway } from "@/modules/review-execution/interface-adapters/gateways/reviewDiff.git.gateway.js";
+import type { ReviewContext } from "@/modules/review-execution/entities/reviewContext/reviewContext.js";
+import { resolveSelectedAgents } from "@/modules/review-execution/entities/progress/agentSelection.js";
+import { GitCommandCliGateway } from "@/modules/worktree-management/interface-adapters/gateways/gitCommand.cli.gateway.js";
+import { defaultGitLabExecutor } from "@/modules/platform-integration/interface-adapters/gateways/threadFetch.gitlab.gateway.js";
+import { defaultGitHubExecutor } from "@/modules/platform-integration/interface-adapters/gateways/threadFetch.github.gateway.js";
+import { defaultGiteaExecutor } from "@/modules/platform-integration/interface-adapters/gateways/giteaApi.js";
+import { defaultBitbucketExecutor } from "@/modules/platform-integration/interface-adapters/gateways/bitbucketApi.js";
+import { GitLabDiffMetadataFetchGateway } from "@/modules/platform-integration/interface-adapters/gateways/diffMetadataFetch.gitlab.gateway.js";
+import { GitHubDiffMetadataFetchGateway } from "@/modules/platform-integration/interface-adapters/gateways/diffMetadataFetch.github.gateway.js";
+import { GiteaDiffMetadataFetchGateway } from "@/modules/platform-integration/interface-adapters/gateways/diffMetadataFetch.gitea.gateway.js";
+import { BitbucketDiffMetadataFetchGateway } from "@/modules/platform-integration/interface-adapters/gateways/diffMetadataFetch.bitbucket.gateway.js";
+import { GitLabMergeRequestMetadataFetchGateway } from "@/modules/platform-integration/interface-adapters/gateways/mergeRequestMetadataFetch.gitlab.gateway.js";
+import { GitHubMergeRequestMetadataFetchGateway } from "@/modules/platform-integration/interface-adapters/gateways/mergeRequestMetadataFetch.github.gateway.js";
+import { GiteaMergeRequestMetadataFetchGateway } from "@/modules/platform-integration/interface-adapters/gateways/mergeRequestMetadataFetch.gitea.gateway.js";
+import { BitbucketMergeRequestMetadataFetchGateway } from "@/modules/platform-integration/interface-adapters/gateways/mergeRequestMetadataFetch.bitbucket.gateway.js";
 import { FileSystemMcpCompletionBridge } from "@/modules/claude-invocation/interface-adapters/gateways/mcpCompletion.fileSystem.gateway.js";
 import { getProjectAgents, getFollowupAgents } from "../config/projectConfig.js";
 import { getJobContextFilePath } from "../shared/services/mcpJobContext.js";
@@ -78,13 +100,19 @@ export function ensureJobContextLoaded(jobId: string, mcpDeps: McpDependencies):
 	});
 	mcpLogger.info("Job context lazy-loaded and registered", { jobId });
 
-	const agents = jobContext.jobType === "followup"
+	const configuredAgents = jobContext.jobType === "followup"
 		? getFollowupAgents(jobContext.localPath)
 		: getProjectAgents(jobContext.localPath);
+	const reviewContext = mcpDeps.reviewContextGateway.read(jobContext.localPath, jobContext.mergeRequestId);
+	const agents = resolveSelectedAgents(configuredAgents, reviewContext?.progress.agents);
 
 	const agentNames = agents?.map((a) => a.name) ?? ["analysis"];
-	mcpDeps.progressGateway.createProgress(jobContext.jobId, agentNames);
-	mcpLogger.info("Progress created via lazy loading", { jobId, agentNames });
+	mcpDeps.progressGateway.createProgress(jobContext.jobId, agents ?? agentNames, reviewContext?.skippedAgents);
+	mcpLogger.info("Progress created via lazy loading", {
+		jobId,
+		agentNames,
+		skippedAgents: reviewContext?.skippedAgents?.map((agent) => agent.name) ?? [],
+	});
 }
 
 const TOOL_DEFINITIONS = [
@@ -101,7 +129,7 @@ const TOOL_DEFINITIONS = [
 	},
 	{
 		name: "start_agent",
-		description: "Signal that an agent audit is starting",
+		description: "Signal that an agent audit is starting. Returns the dispatch settings of the agent, if any",
 		inputSchema: {
 			type: "object" as const,
 			properties: {
@@ -121,6 +149,7 @@ const TOOL_DEFINITIONS = [
 				agentName: { type: "string", description: "The name of the agent completing" },
 				status: { type: "string", enum: ["success", "failed"], description: "The completion status" },
 				error: { type: "string", description: "Error message if status is failed" },
+				tokens: { type: "number", description: "Tokens the agent used, when it ran as a subagent" },
 			},
 			required: ["jobId", "agentName", "status"],
 		},
@@ -173,8 +202,125 @@ const TOOL_DEFINITIONS = [
 			required: ["jobId", "type"],
 		},
 	},
+	{
+		name: "report_finding",
+		description:
+			"Report one review finding. A finding with a file and line is also published as an inline comment",
+		inputSchema: {
+			type: "object" as const,
+			properties: {
+				jobId: { type: "string", description: "The job ID for the review" },
+				severity: {
+					type: "string",
+					enum: ["blocking", "warning", "suggestion"],
+					description: "How serious the finding is",
+				},
+				agent: { type: "string", description: "Name of the agent reporting the finding" },
+				title: { type: "string", description: "One-line summary of the finding" },
+				body: { type: "string", description: "Explanation of the finding (Markdown)" },
+				filePath: { type: "string", description: "File the finding is about, relative to the repository root" },
+				startLine: { type: "number", description: "First line of the range in the new version of the file" },
+				endLine: { type: "number", description: "Last line of the range (defaults to startLine)" },
+				suggestedPatch: { type: "string", description: "Unified diff fixing the finding" },
+				confidence: { type: "number", description: "Confidence between 0 and 1 (defaults to 1)" },
+			},
+			required: ["jobId", "severity", "agent", "title", "body"],
+		},
+	},
+	{
+		name: "submit_result",
+		description: "Submit the final score and verdict of the review",
+		inputSchema: {
+			type: "object" as const,
+			properties: {
+				jobId: { type: "string", description: "The job ID for the review" },
+				score: { type: "number", description: "Global score out of 10" },
+				verdict: {
+					type: "string",
+					enum: ["ready_to_merge", "needs_fixes", "needs_discussion"],
+					description: "Whether the merge request can be merged as is",
+				},
+			},
+			required: ["jobId", "score", "verdict"],
+		},
+	},
+	{
+		name: "get_changed_files",
+		description: "List the files changed by the MR/PR with their status, added and deleted lines and language",
+		inputSchema: {
+			type: "object" as const,
+			properties: {
+				jobId: { type: "string", description: "The job ID for the review" },
+			},
+			required: ["jobId"],
+		},
+	},
+	{
+		name: "get_diff",
+		description: "Get the hunks of the changed files, one page of files at a time",
+		inputSchema: {
+			type: "object" as const,
+			properties: {
+				jobId: { type: "string", description: "The job ID for the review" },
+				paths: {
+					type: "array",
+					items: { type: "string" },
+					description: "Only return the diff of these files (defaults to every changed file)",
+				},
+				page: { type: "number", description: "Page to return, starting at 1 (defaults to 1)" },
+				pageSize: { type: "number", description: "Files per page, at most 50 (defaults to 10)" },
+			},
+			required: ["jobId"],
+		},
+	},
+	{
+		name: "get_file_at_ref",
+		description: "Read a file as it is on the base or on the head of the MR/PR",
+		inputSchema: {
+			type: "object" as const,
+			properties: {
+				jobId: { type: "string", description: "The job ID for the review" },
+				path: { type: "string", description: "File path, relative to the repository root" },
+				ref: {
+					type: "string",
+					enum: ["base", "head"],
+					description: "Side of the change to read (defaults to head)",
+				},
+				startLine: { type: "number", description: "First line to return (defaults to 1)" },
+				endLine: { type: "number", description: "Last line to return (defaults to the end of the file)" },
+			},
+			required: ["jobId", "path"],
+		},
+	},
+	{
+		name: "get_mr_metadata",
+		description: "Get the title, description, branches, labels and linked issues of the MR/PR",
+		inputSchema: {
+			type: "object" as const,
+			properties: {
+				jobId: { type: "string", description: "The job ID for the review" },
+			},
+			required: ["jobId"],
+		},
+	},
 ];
 
+function diffMetadataFetchGatewayFor(platform: ReviewContext["platform"]) {
+	if (platform === "bitbucket") return new BitbucketDiffMetadataFetchGateway(defaultBitbucketExecutor);
+	if (platform === "gitea") return new GiteaDiffMetadataFetchGateway(defaultGiteaExecutor);
+	return platform === "github"
+		? new GitHubDiffMetadataFetchGateway(defaultGitHubExecutor)
+		: new GitLabDiffMetadataFetchGateway(defaultGitLabExecutor);
+}
+
+function mergeRequestMetadataFetchGatewayFor(platform: ReviewContext["platform"]) {
+	if (platform === "bitbucket") return new BitbucketMergeRequestMetadataFetchGateway(defaultBitbucketExecutor);
+	if (platform === "gitea") return new GiteaMergeRequestMetadataFetchGateway(defaultGiteaExecutor);
+	return platform === "github"
+		? new GitHubMergeRequestMetadataFetchGateway(defaultGitHubExecutor)
+		: new GitLabMergeRequestMetadataFetchGateway(defaultGitLabExecutor);
+}
+
 export async function startMcpServer(): Promise<void> {
 	mcpLogger.info("=== MCP Server Starting ===", {
 		logFile: mcpLogger.getLogPath(),
@@ -207,6 +353,32 @@ export async function startMcpServer(): Promise<void> {
 		reviewContextGateway: mcpDeps.reviewContextGateway,
 	});
 
+	const reportFindingHandler = createReportFindingHandler({
+		jobContextGateway: mcpDeps.jobContextGateway,
+		reviewContextGateway: mcpDeps.reviewContextGateway,
+	});
+	const submitResultHandler = createSubmitResultHandler({
+		jobContextGateway: mcpDeps.jobContextGateway,
+		reviewContextGateway: mcpDeps.reviewContextGateway,
+	});
+
+	// Read-only view of the change: git objects of the job checkout, SHAs from
+	// the review context or, failing that, from the platform.
+	const reviewDiffDeps = {
+		jobContextGateway: mcpDeps.jobContextGateway,
+		reviewContextGateway: mcpDeps.reviewContextGateway,
+		reviewDiffGateway: new ReviewDiffGitGateway(new GitCommandCliGateway()),
+		diffMetadataFetchGatewayFactory: diffMetadataFetchGatewayFor,
+	};
+	const getChangedFilesHandler = createGetChangedFilesHandler(reviewDiffDeps);
+	const getDiffHandler = createGetDiffHandler(reviewDiffDeps);
+	const getFileAtRefHandler = createGetFileAtRefHandler(reviewDiffDeps);
+	const getMrMetadataHandler = createGetMrMetadataHandler({
+		jobContextGateway: mcpDeps.jobContextGateway,
+		reviewContextGateway: mcpDeps.reviewContextGateway,
+		mergeRequestMetadataFetchGatewayFactory: mergeRequestMetadataFetchGatewayFor,
+	});
+
 	const handlers: Record<string, (args: Record<string, unknown>) => unknown> = {
 		get_workflow: getWorkflowHandler,
 		start_agent: startAgentHandler,
@@ -214,6 +386,12 @@ export async function startMcpServer(): Promise<void> {
 		set_phase: setPhaseHandler,
 		get_threads: getThreadsHandler,
 		add_action: addActionHandler,
+		report_finding: reportFindingHandler,
+		submit_result: submitResultHandler,
+		get_changed_files: getChangedFilesHandler,
+		get_diff: getDiffHandler,
+		get_file_at_ref: getFileAtRefHandler,
+		get_mr_metadata: getMrMetadataHandler,
 	};
 
 	const server = new Server(
@@ -254,7 +432,7 @@ export async function startMcpServer(): Promise<void> {
 		}
 
 		try {
-			const result = handler(args ?? {}) as {
+			const result = (await handler(args ?? {})) as {
 				content: Array<{ type: "text"; text: string }>;
 				isError?: boolean;
 			};
@@ -11,6 +11,10 @@ export interface ClaudeDispatchFlags {
   allowedTools: string;
   disallowedTools: string;
   permissionMode: 'auto' | 'plan';
+  /** Directories readable besides the session cwd, such as the worktrees of linked merge requests. */
+  additionalDirectories?: string[];
+  /** Subagents of the session, as the JSON of the `--agents` flag. */
+  agentsJson?: string;
 }
 
 export interface DispatchInput {
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import {
+  DEFAULT_RETRY_SCHEDULE_CONFIG,
+  type RetryScheduleConfig,
+} from '@/modules/claude-invocation/entities/retrySchedule/retrySchedule.schema.js';
+import type { SessionFailureClass } from '@/modules/claude-invocation/entities/sessionFailure/sessionFailure.schema.js';
+
+// `maxAttempts: 0` turns retries off for a class.
+const retryPolicyOverrideSchema = z
+  .object({
+    initialDelayMs: z.number().int().positive(),
+    maxDelayMs: z.number().int().positive(),
+    maxAttempts: z.number().int().nonnegative(),
+    multiplier: z.number().positive(),
+  })
+  .partial()
+  .strict();
+
+export const retryPolicyOverridesSchema = z
+  .object({
+    'rate-limited': retryPolicyOverrideSchema,
+    timeout: retryPolicyOverrideSchema,
+    'session-failed': retryPolicyOverrideSchema,
+    'supervisor-lost': retryPolicyOverrideSchema,
+    'report-missing': retryPolicyOverrideSchema,
+  })
+  .partial()
+  .strict();
+
+/**
+ * Per-project changes to the retry policies (`retry` in `.claude/reviews/config.json`),
+ * keyed by failure class. Unset fields keep their default.
+ */
+export type RetryPolicyOverrides = z.infer<typeof retryPolicyOverridesSchema>;
+
+export type RetryPolicies = Record<SessionFailureClass, RetryScheduleConfig>;
+
+/**
+ * A rate limit clears by itself, so it gets the most attempts. A timed-out or
+ * failed session already spent its budget once: retry it sparingly.
+ */
+export const DEFAULT_RETRY_POLICIES: RetryPolicies = {
+  'rate-limited': DEFAULT_RETRY_SCHEDULE_CONFIG,
+  timeout: { initialDelayMs: 60_000, maxDelayMs: 15 * 60_000, maxAttempts: 1, multiplier: 2 },
+  'session-failed': { initialDelayMs: 60_000, maxDelayMs: 15 * 60_000, maxAttempts: 2, multiplier: 2 },
+  'supervisor-lost': { initialDelayMs: 2 * 60_000, maxDelayMs: 15 * 60_000, maxAttempts: 3, multiplier: 2 },
+  'report-missing': { initialDelayMs: 30_000, maxDelayMs: 5 * 60_000, maxAttempts: 1, multiplier: 2 },
+};
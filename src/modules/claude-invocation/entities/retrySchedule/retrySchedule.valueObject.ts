@@ -2,6 +2,12 @@ import {
   DEFAULT_RETRY_SCHEDULE_CONFIG,
   type RetryScheduleConfig,
 } from '@/modules/claude-invocation/entities/retrySchedule/retrySchedule.schema.js';
+import {
+  DEFAULT_RETRY_POLICIES,
+  type RetryPolicies,
+  type RetryPolicyOverrides,
+} from '@/modules/claude-invocation/entities/retrySchedule/retryPolicy.schema.js';
+import type { SessionFailureClass } from '@/modules/claude-invocation/entities/sessionFailure/sessionFailure.schema.js';
 
 export type RetryDecision =
   | { status: 'retry'; delayMs: number; nextAttempt: number }
@@ -19,3 +25,12 @@ export function planRetry(
   const delayMs = Math.min(exponential, config.maxDelayMs);
   return { status: 'retry', delayMs, nextAttempt };
 }
+
+/** Default policies with the project overrides applied field by field. */
+export function resolveRetryPolicies(overrides: RetryPolicyOverrides = {}): RetryPolicies {
+  const policies = { ...DEFAULT_RETRY_POLICIES };
+  for (const failureClass of Object.keys(policies) as SessionFailureClass[]) {
+    policies[failureClass] = { ...policies[failureClass], ...overrides[failureClass] };
+  }
+  return policies;
+}
@@ -0,0 +1,20 @@
+export interface McpToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+export interface McpToolCallResult {
+  text: string;
+  isError: boolean;
+}
+
+/** Client side of the `review-progress` MCP server, for engines without native MCP support. */
+export interface McpToolClient {
+  listTools(): Promise<McpToolDefinition[]>;
+  callTool(name: string, args: Record<string, unknown>): Promise<McpToolCallResult>;
+  close(): Promise<void>;
+}
+
+/** Starts the servers of an `--mcp-config` JSON and connects to them. */
+export type McpToolClientFactory = (mcpConfigJson: string) => Promise<McpToolClient>;
@@ -0,0 +1,56 @@
+import type { ClaudeDispatchFlags } from '@/modules/claude-invocation/entities/claudeSession/claudeSession.gateway.js';
+import type { ClaudeSessionJobType } from '@/modules/claude-invocation/entities/claudeSession/claudeSession.schema.js';
+import type { SessionUsageSnapshot } from '@/modules/claude-invocation/entities/claudeSession/sessionUsage.schema.js';
+import type { RetryPolicies } from '@/modules/claude-invocation/entities/retrySchedule/retryPolicy.schema.js';
+import type { ReviewEngineProvider } from '@/modules/claude-invocation/entities/reviewEngine/reviewEngine.schema.js';
+import type { SessionFailureClass } from '@/modules/claude-invocation/entities/sessionFailure/sessionFailure.schema.js';
+
+export interface ReviewEngineRunInput {
+  jobId: string;
+  jobType: ClaudeSessionJobType;
+  /** `/<skill> <args>`: the skill the session runs. */
+  prompt: string;
+  flags: ClaudeDispatchFlags;
+  localPath: string;
+  reportFallbackLocalPath?: string;
+  mergeRequestId: string;
+  mergeRequestNumber: number;
+  /**
+   * Retries already made, by failure class: each class spends its own attempts,
+   * so a rate limit does not use up the retry of a timeout.
+   */
+  attempts: Partial<Record<SessionFailureClass, number>>;
+  /**
+   * Failures to retry, by class. Without it only a rate-limited dispatch is
+   * retried, on the default schedule.
+   */
+  retryPolicies?: RetryPolicies;
+  signal?: AbortSignal;
+}
+
+export type ReviewEngineRunResult =
+  | {
+      status: 'completed';
+      reportPath: string;
+      content: string;
+      usage: SessionUsageSnapshot | null;
+    }
+  | { status: 'failed'; reason: string }
+  | {
+      status: 'retry';
+      delayMs: number;
+      attempt: number;
+      maxAttempts: number;
+      failureClass: SessionFailureClass;
+      reason: string;
+    };
+
+/**
+ * Runs one review session to its report. Every engine reports progress
+ * through the `review-progress` MCP tools and leaves the report at
+ * `.claude/reviews/<date>-MR-<N>-<review|followup>.md`.
+ */
+export interface ReviewEngineGateway {
+  readonly provider: ReviewEngineProvider;
+  run(input: ReviewEngineRunInput): Promise<ReviewEngineRunResult>;
+}
@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+export const DEFAULT_ENGINE_MAX_TURNS = 60;
+
+const claudeEngineSchema = z.object({ provider: z.literal('claude') }).strict();
+
+const openAiCompatibleEngineSchema = z
+  .object({
+    provider: z.literal('openai-compatible'),
+    /** Root of the API, `/chat/completions` is appended: `http://localhost:11434/v1` for Ollama. */
+    baseUrl: z.string().url(),
+    model: z.string().min(1),
+    /** Environment variable holding the API key. Local servers usually need none. */
+    apiKeyEnv: z.string().min(1).optional(),
+    maxTurns: z.number().int().positive().optional(),
+  })
+  .strict();
+
+/**
+ * What runs the review sessions of a project (`reviewEngine` in
+ * `.claude/reviews/config.json`): the Claude CLI by default, or any server
+ * speaking the OpenAI chat completions API with tool calls.
+ */
+export const reviewEngineConfigSchema = z.discriminatedUnion('provider', [
+  claudeEngineSchema,
+  openAiCompatibleEngineSchema,
+]);
+
+export type ReviewEngineConfig = z.infer<typeof reviewEngineConfigSchema>;
+export type OpenAiCompatibleEngineConfig = z.infer<typeof openAiCompatibleEngineSchema>;
+export type ReviewEngineProvider = ReviewEngineConfig['provider'];
+
+export const DEFAULT_REVIEW_ENGINE: ReviewEngineConfig = { provider: 'claude' };
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+/**
+ * Retryable ways a review session can fail. Anything else (cancellation,
+ * billing guard, paused or refused dispatch) is terminal.
+ */
+export const sessionFailureClassSchema = z.enum([
+  'rate-limited',
+  'timeout',
+  'session-failed',
+  'supervisor-lost',
+  'report-missing',
+]);
+
+export type SessionFailureClass = z.infer<typeof sessionFailureClassSchema>;
@@ -0,0 +1,16 @@
+import type { SessionFailureClass } from '@/modules/claude-invocation/entities/sessionFailure/sessionFailure.schema.js';
+
+const CANCELLED_STOP_REASON = 'outcome-stopped: cancelled';
+
+/**
+ * Failure class of a `runClaudeReviewJob` failure reason, or null when the
+ * failure must not be retried.
+ */
+export function classifySessionFailure(reason: string): SessionFailureClass | null {
+  if (reason === 'timeout') return 'timeout';
+  if (reason === 'report-missing') return 'report-missing';
+  if (reason.startsWith('outcome-failed')) return 'session-failed';
+  // A session stopped without being cancelled was dropped by its supervisor.
+  if (reason.startsWith('outcome-stopped') && reason !== CANCELLED_STOP_REASON) return 'supervisor-lost';
+  return null;
+}
@@ -96,6 +96,8 @@ export class ClaudeSessionCliGateway implements ClaudeSessionGateway {
       '--mcp-config',
       input.flags.mcpConfigJson,
       '--strict-mcp-config',
+      ...(input.flags.additionalDirectories ?? []).flatMap((directory) => ['--add-dir', directory]),
+      ...(input.flags.agentsJson ? ['--agents', input.flags.agentsJson] : []),
       '--allowedTools',
       input.flags.allowedTools,
       '--disallowedTools',
@@ -0,0 +1,75 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import type {
+  McpToolCallResult,
+  McpToolClient,
+  McpToolDefinition,
+} from '@/modules/claude-invocation/entities/reviewEngine/mcpToolClient.gateway.js';
+
+interface McpServerEntry {
+  command: string;
+  args?: string[];
+}
+
+function parseServers(mcpConfigJson: string): Array<[string, McpServerEntry]> {
+  const parsed = JSON.parse(mcpConfigJson) as { mcpServers?: Record<string, McpServerEntry> };
+  return Object.entries(parsed.mcpServers ?? {});
+}
+
+/**
+ * Spawns the servers of an `--mcp-config` JSON over stdio, as `claude` would,
+ * and routes each tool call to the server that lists it.
+ */
+export class StdioMcpToolClient implements McpToolClient {
+  private readonly serverOfTool = new Map<string, Client>();
+
+  private constructor(private readonly clients: Client[]) {}
+
+  static async connect(mcpConfigJson: string): Promise<StdioMcpToolClient> {
+    const clients: Client[] = [];
+    try {
+      for (const [name, server] of parseServers(mcpConfigJson)) {
+        const client = new Client({ name: `reviewflow-${name}`, version: '1.0.0' });
+        await client.connect(new StdioClientTransport({ command: server.command, args: server.args ?? [] }));
+        clients.push(client);
+      }
+    } catch (error) {
+      await Promise.allSettled(clients.map((client) => client.close()));
+      throw error;
+    }
+    return new StdioMcpToolClient(clients);
+  }
+
+  async listTools(): Promise<McpToolDefinition[]> {
+    const definitions: McpToolDefinition[] = [];
+    for (const client of this.clients) {
+      const { tools } = await client.listTools();
+      for (const tool of tools) {
+        this.serverOfTool.set(tool.name, client);
+        definitions.push({
+          name: tool.name,
+          description: tool.description ?? '',
+          inputSchema: tool.inputSchema as Record<string, unknown>,
+        });
+      }
+    }
+    return definitions;
+  }
+
+  async callTool(name: string, args: Record<string, unknown>): Promise<McpToolCallResult> {
+    const client = this.serverOfTool.get(name);
+    if (!client) {
+      return { text: `Unknown tool: ${name}`, isError: true };
+    }
+    const result = await client.callTool({ name, arguments: args });
+    const content = Array.isArray(result.content) ? result.content : [];
+    const text = content
+      .map((part: { type?: string; text?: string }) => (part.type === 'text' ? (part.text ?? '') : ''))
+      .join('\n');
+    return { text, isError: result.isError === true };
+  }
+
+  async close(): Promise<void> {
+    await Promise.allSettled(this.clients.map((client) => client.close()));
+  }
+}
@@ -0,0 +1,23 @@
+import type {
+  ReviewEngineGateway,
+  ReviewEngineRunInput,
+  ReviewEngineRunResult,
+} from '@/modules/claude-invocation/entities/reviewEngine/reviewEngine.gateway.js';
+import {
+  type RunClaudeReviewJobDependencies,
+  runClaudeReviewJob,
+} from '@/modules/claude-invocation/usecases/runClaudeReviewJob.usecase.js';
+
+/**
+ * Runs the review in a `claude --bg` session: the skill, the tools and the
+ * MCP server are Claude Code's own.
+ */
+export class ClaudeCliReviewEngineGateway implements ReviewEngineGateway {
+  readonly provider = 'claude' as const;
+
+  constructor(private readonly deps: RunClaudeReviewJobDependencies) {}
+
+  run(input: ReviewEngineRunInput): Promise<ReviewEngineRunResult> {
+    return runClaudeReviewJob(input, this.deps);
+  }
+}
@@ -0,0 +1,421 @@
+import { existsSync, mkdirSync, readFileSync, realpathSync, statSync, writeFileSync } from 'node:fs';
+import { dirname, isAbsolute, join, relative, resolve } from 'node:path';
+import { z } from 'zod';
+import type {
+  McpToolClient,
+  McpToolClientFactory,
+} from '@/modules/claude-invocation/entities/reviewEngine/mcpToolClient.gateway.js';
+import type {
+  ReviewEngineGateway,
+  ReviewEngineRunInput,
+  ReviewEngineRunResult,
+} from '@/modules/claude-invocation/entities/reviewEngine/reviewEngine.gateway.js';
+import {
+  DEFAULT_ENGINE_MAX_TURNS,
+  type OpenAiCompatibleEngineConfig,
+} from '@/modules/claude-invocation/entities/reviewEngine/reviewEngine.schema.js';
+import type { SessionUsageSnapshot } from '@/modules/claude-invocation/entities/claudeSession/sessionUsage.schema.js';
+import type { McpCompletionBridge } from '@/modules/claude-invocation/entities/sessionCompletion/mcpCompletion.gateway.js';
+import type { ReviewReportGateway } from '@/modules/claude-invocation/entities/sessionCompletion/reviewReport.gateway.js';
+import { failOrRetry, retryRateLimited } from '@/modules/claude-invocation/usecases/runClaudeReviewJob.usecase.js';
+import type { GitCommandExecutor } from '@/modules/worktree-management/entities/gitCommand/gitCommand.gateway.js';
+
+const MAX_TOOL_OUTPUT_CHARS = 60_000;
+const READ_ONLY_GIT_SUBCOMMANDS = new Set(['diff', 'log', 'show', 'ls-files', 'grep', 'blame']);
+interface ForbiddenGitOptions {
+  long: string[];
+  short: RegExp;
+}
+
+// Options that write files, run external programs or read outside the repository.
+const FORBIDDEN_GIT_OPTIONS: ForbiddenGitOptions = {
+  long: ['--output', '--ext-diff', '--textconv', '--no-index', '--open-files-in-pager'],
+  short: /^-O/,
+};
+// Options of a subcommand that read a file given as argument, short ones possibly bundled (`-nf <file>`).
+const FORBIDDEN_SUBCOMMAND_OPTIONS: Record<string, ForbiddenGitOptions> = {
+  blame: { long: ['--contents', '--ignore-revs-file'], short: /^-[^-]*S/ },
+  grep: { long: ['--file'], short: /^-[^-]*f/ },
+  'ls-files': { long: ['--exclude-from'], short: /^-[^-]*X/ },
+};
+
+/**
+ * Git takes any unambiguous prefix of a long option (`--cont` for `--contents`)
+ * and its `--no-` form, so an argument naming a prefix of a forbidden option is
+ * refused as well as one extending it.
+ */
+function isForbiddenGitOption(arg: string, options: ForbiddenGitOptions): boolean {
+  if (!arg.startsWith('--')) return options.short.test(arg);
+  const name = arg.split('=')[0];
+  const names = name.startsWith('--no-') ? [name, `--${name.slice('--no-'.length)}`] : [name];
+  return names.some(
+    (candidate) =>
+      candidate !== '--' &&
+      options.long.some((option) => candidate.startsWith(option) || option.startsWith(candidate)),
+  );
+}
+
+export interface ReviewEngineFileSystem {
+  readFile(path: string): string | null;
+  writeFile(path: string, content: string): void;
+  /** Path with its symbolic links resolved, the path itself when it does not exist. */
+  realPath(path: string): string;
+}
+
+const defaultFs: ReviewEngineFileSystem = {
+  readFile: (path) => (existsSync(path) && statSync(path).isFile() ? readFileSync(path, 'utf-8') : null),
+  writeFile: (path, content) => {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, content);
+  },
+  realPath: (path) => {
+    try {
+      return realpathSync(path);
+    } catch {
+      return path;
+    }
+  },
+};
+
+export interface OpenAiCompatibleEngineDependencies {
+  fetch: typeof fetch;
+  connectMcp: McpToolClientFactory;
+  gitExecutor: GitCommandExecutor;
+  completionBridge: McpCompletionBridge;
+  reportGateway: ReviewReportGateway;
+  fs?: ReviewEngineFileSystem;
+  now: () => Date;
+  timeoutMs: number;
+}
+
+const toolCallSchema = z.object({
+  id: z.string(),
+  function: z.object({ name: z.string(), arguments: z.string() }),
+});
+
+type ToolCall = z.infer<typeof toolCallSchema>;
+
+const chatCompletionSchema = z.object({
+  choices: z
+    .array(
+      z.object({
+        message: z.object({
+          content: z.string().nullish(),
+          tool_calls: z.array(toolCallSchema).nullish(),
+        }),
+      }),
+    )
+    .min(1),
+  usage: z
+    .object({ prompt_tokens: z.number(), completion_tokens: z.number() })
+    .partial()
+    .nullish(),
+});
+
+type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: ToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface ChatTool {
+  type: 'function';
+  function: { name: string; description: string; parameters: Record<string, unknown> };
+}
+
+const WORKSPACE_TOOLS: ChatTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'read_file',
+      description: 'Read a file of the checkout under review, optionally a range of lines (1-based, inclusive)',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'Path relative to the checkout root' },
+          startLine: { type: 'number' },
+          endLine: { type: 'number' },
+        },
+        required: ['path'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'git',
+      description: `Run a read-only git command in the checkout: ${[...READ_ONLY_GIT_SUBCOMMANDS].join(', ')}`,
+      parameters: {
+        type: 'object',
+        properties: {
+          args: { type: 'array', items: { type: 'string' }, description: 'Arguments, the subcommand first' },
+        },
+        required: ['args'],
+      },
+    },
+  },
+];
+
+const ENGINE_DIRECTIVE = `You are a code reviewer run by ReviewFlow. There is no shell: explore the change with the \`git\` and \`read_file\` tools, and report progress and findings with the review-progress tools exactly as the instructions describe.
+When the review is done, answer with the complete Markdown report as your final message, without calling any tool: ReviewFlow saves it as the review report file.`;
+
+function truncate(text: string): string {
+  return text.length > MAX_TOOL_OUTPUT_CHARS
+    ? `${text.slice(0, MAX_TOOL_OUTPUT_CHARS)}\n[truncated: ${text.length - MAX_TOOL_OUTPUT_CHARS} more characters]`
+    : text;
+}
+
+function isWithin(root: string, path: string): boolean {
+  const fromRoot = relative(root, path);
+  return fromRoot === '' || (!fromRoot.startsWith('..') && !isAbsolute(fromRoot));
+}
+
+class RunAborted extends Error {
+  constructor(readonly reason: 'timeout' | 'cancelled') {
+    super(reason);
+  }
+}
+
+/**
+ * Runs the review against a server of the OpenAI chat completions API with
+ * tool calls (OpenAI, a llama.cpp server, Ollama...). The skill is sent as
+ * instructions, the `review-progress` MCP server is spawned and its tools
+ * exposed as functions, and the final answer is saved where a Claude session
+ * writes its report, so the rest of the pipeline sees no difference.
+ */
+export class OpenAiCompatibleReviewEngineGateway implements ReviewEngineGateway {
+  readonly provider = 'openai-compatible' as const;
+  private readonly fs: ReviewEngineFileSystem;
+
+  constructor(
+    private readonly config: OpenAiCompatibleEngineConfig,
+    private readonly apiKey: string | undefined,
+    private readonly deps: OpenAiCompatibleEngineDependencies,
+  ) {
+    this.fs = deps.fs ?? defaultFs;
+  }
+
+  async run(input: ReviewEngineRunInput): Promise<ReviewEngineRunResult> {
+    if (input.signal?.aborted) {
+      return { status: 'failed', reason: 'cancelled' };
+    }
+
+    let mcp: McpToolClient;
+    try {
+      mcp = await this.deps.connectMcp(input.flags.mcpConfigJson);
+    } catch (error) {
+      return { status: 'failed', reason: `dispatch-failed: ${error instanceof Error ? error.message : String(error)}` };
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new RunAborted('timeout')), this.deps.timeoutMs);
+    const onAbort = (): void => controller.abort(new RunAborted('cancelled'));
+    input.signal?.addEventListener('abort', onAbort);
+    // set_phase publishes a completion for the job: consume it so it does not
+    // linger for a later Claude session of the same job.
+    this.deps.completionBridge.subscribe(input.jobId, () => {});
+
+    try {
+      return await this.converse(input, mcp, controller.signal);
+    } finally {
+      clearTimeout(timer);
+      input.signal?.removeEventListener('abort', onAbort);
+      this.deps.completionBridge.unsubscribe(input.jobId);
+      await mcp.close();
+    }
+  }
+
+  private async converse(
+    input: ReviewEngineRunInput,
+    mcp: McpToolClient,
+    signal: AbortSignal,
+  ): Promise<ReviewEngineRunResult> {
+    const mcpTools = await mcp.listTools();
+    const mcpToolNames = new Set(mcpTools.map((tool) => tool.name));
+    const tools: ChatTool[] = [
+      ...mcpTools.map((tool): ChatTool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.inputSchema },
+      })),
+      ...WORKSPACE_TOOLS,
+    ];
+    const messages: ChatMessage[] = [
+      { role: 'system', content: `${ENGINE_DIRECTIVE}\n${input.flags.systemPrompt}` },
+      { role: 'user', content: this.buildInstructions(input) },
+    ];
+    const usage = { inputTokens: 0, outputTokens: 0, reported: false };
+
+    for (let turn = 0; turn < (this.config.maxTurns ?? DEFAULT_ENGINE_MAX_TURNS); turn += 1) {
+      let response: Response;
+      try {
+        response = await this.deps.fetch(`${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+          },
+          body: JSON.stringify({ model: this.config.model, messages, tools }),
+          signal,
+        });
+      } catch (error) {
+        if (signal.reason instanceof RunAborted) {
+          return signal.reason.reason === 'timeout'
+            ? failOrRetry('timeout', input)
+            : { status: 'failed', reason: 'cancelled' };
+        }
+        return failOrRetry(`outcome-failed: ${error instanceof Error ? error.message : String(error)}`, input);
+      }
+
+      if (response.status === 429) {
+        return retryRateLimited(input);
+      }
+      if (!response.ok) {
+        const detail = (await response.text()).slice(0, 200);
+        return failOrRetry(`outcome-failed: HTTP ${response.status} ${detail}`.trimEnd(), input);
+      }
+
+      let body: unknown;
+      try {
+        body = await response.json();
+      } catch {
+        // A proxy in front of the server may answer 200 with an HTML page.
+        return failOrRetry('outcome-failed: chat completion response is not JSON', input);
+      }
+      const parsed = chatCompletionSchema.safeParse(body);
+      if (!parsed.success) {
+        return failOrRetry('outcome-failed: unexpected chat completion response', input);
+      }
+      if (parsed.data.usage) {
+        usage.reported = true;
+        usage.inputTokens += parsed.data.usage.prompt_tokens ?? 0;
+        usage.outputTokens += parsed.data.usage.completion_tokens ?? 0;
+      }
+
+      const { content, tool_calls: toolCalls } = parsed.data.choices[0].message;
+      if (!toolCalls || toolCalls.length === 0) {
+        const snapshot: SessionUsageSnapshot | null = usage.reported
+          ? {
+              model: this.config.model,
+              usage: {
+                inputTokens: usage.inputTokens,
+                outputTokens: usage.outputTokens,
+                cacheCreationInputTokens: 0,
+                cacheReadInputTokens: 0,
+                costUsd: 0,
+              },
+            }
+          : null;
+        return this.saveReport(input, content?.trim() ?? '', snapshot);
+      }
+
+      messages.push({ role: 'assistant', content: content ?? null, tool_calls: toolCalls });
+      for (const call of toolCalls) {
+        const output = await this.callTool(call, input, mcp, mcpToolNames);
+        messages.push({ role: 'tool', tool_call_id: call.id, content: truncate(output) });
+      }
+    }
+
+    return failOrRetry('outcome-failed: turn limit reached', input);
+  }
+
+  private buildInstructions(input: ReviewEngineRunInput): string {
+    const match = /^\/(\S+)\s*(.*)$/s.exec(input.prompt);
+    if (!match) return input.prompt;
+    const [, skill, args] = match;
+    const roots = [input.localPath, input.reportFallbackLocalPath].filter((root): root is string => !!root);
+    for (const root of roots) {
+      const instructions = this.fs.readFile(join(root, '.claude', 'skills', skill, 'SKILL.md'));
+      if (instructions !== null) {
+        return `${instructions.trim()}\n\nArguments: ${args}`;
+      }
+    }
+    return input.prompt;
+  }
+
+  private async callTool(
+    call: ToolCall,
+    input: ReviewEngineRunInput,
+    mcp: McpToolClient,
+    mcpToolNames: Set<string>,
+  ): Promise<string> {
+    let args: Record<string, unknown>;
+    try {
+      args = JSON.parse(call.function.arguments || '{}') as Record<string, unknown>;
+    } catch {
+      return `Error: arguments of ${call.function.name} are not valid JSON`;
+    }
+
+    if (mcpToolNames.has(call.function.name)) {
+      const result = await mcp.callTool(call.function.name, args);
+      return result.isError ? `Error: ${result.text}` : result.text;
+    }
+    if (call.function.name === 'read_file') {
+      return this.readWorkspaceFile(args, input);
+    }
+    if (call.function.name === 'git') {
+      return this.runGit(args, input);
+    }
+    return `Error: unknown tool ${call.function.name}`;
+  }
+
+  private readWorkspaceFile(args: Record<string, unknown>, input: ReviewEngineRunInput): string {
+    if (typeof args.path !== 'string') return 'Error: path is required';
+    // A committed symbolic link is inside the checkout but may point anywhere:
+    // compare the resolved paths.
+    const path = this.fs.realPath(resolve(input.localPath, args.path));
+    const roots = [input.localPath, ...(input.flags.additionalDirectories ?? [])];
+    if (!roots.some((root) => isWithin(this.fs.realPath(resolve(root)), path))) {
+      return `Error: ${args.path} is outside the checkout`;
+    }
+    const content = this.fs.readFile(path);
+    if (content === null) return `Error: no such file: ${args.path}`;
+
+    const start = typeof args.startLine === 'number' ? Math.max(1, args.startLine) : 1;
+    const end = typeof args.endLine === 'number' ? args.endLine : Number.POSITIVE_INFINITY;
+    return content
+      .split('\n')
+      .slice(start - 1, end)
+      .join('\n');
+  }
+
+  private async runGit(args: Record<string, unknown>, input: ReviewEngineRunInput): Promise<string> {
+    const gitArgs = Array.isArray(args.args) ? args.args.filter((arg): arg is string => typeof arg === 'string') : [];
+    if (gitArgs.length === 0 || !READ_ONLY_GIT_SUBCOMMANDS.has(gitArgs[0])) {
+      return `Error: only ${[...READ_ONLY_GIT_SUBCOMMANDS].join(', ')} are allowed`;
+    }
+    const subcommandOptions = FORBIDDEN_SUBCOMMAND_OPTIONS[gitArgs[0]];
+    const forbidden = gitArgs.find(
+      (arg) =>
+        isForbiddenGitOption(arg, FORBIDDEN_GIT_OPTIONS) ||
+        (subcommandOptions !== undefined && isForbiddenGitOption(arg, subcommandOptions)),
+    );
+    if (forbidden) return `Error: option ${forbidden} is not allowed`;
+
+    const result = await this.deps.gitExecutor.execute({
+      kind: 'inspect',
+      args: ['--no-pager', ...gitArgs],
+      cwd: input.localPath,
+    });
+    return result.exitCode === 0 ? result.stdout : `Error (exit ${result.exitCode}): ${result.stderr}`;
+  }
+
+  private saveReport(
+    input: ReviewEngineRunInput,
+    content: string,
+    usage: SessionUsageSnapshot | null,
+  ): ReviewEngineRunResult {
+    const reportPath = this.deps.reportGateway.buildPath({
+      localPath: input.localPath,
+      isoDate: this.deps.now().toISOString().slice(0, 10),
+      mergeRequestNumber: input.mergeRequestNumber,
+      jobType: input.jobType,
+    });
+    if (content.length === 0) {
+      // Same contract as a Claude session: a followup may have nothing to report.
+      return input.jobType === 'followup'
+        ? { status: 'completed', reportPath, content: '', usage }
+        : failOrRetry('report-missing', input);
+    }
+    this.fs.writeFile(reportPath, `${content}\n`);
+    return { status: 'completed', reportPath, content: `${content}\n`, usage };
+  }
+}
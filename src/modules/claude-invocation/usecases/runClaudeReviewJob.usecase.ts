@@ -1,32 +1,22 @@
 import type { BillingStateGateway } from '@/modules/claude-invocation/entities/billingState/billingState.gateway.js';
 import type { EnvironmentGateway } from '@/modules/claude-invocation/entities/billingState/environment.gateway.js';
+import type { ClaudeSessionGateway } from '@/modules/claude-invocation/entities/claudeSession/claudeSession.gateway.js';
 import type {
-  ClaudeDispatchFlags,
-  ClaudeSessionGateway,
-} from '@/modules/claude-invocation/entities/claudeSession/claudeSession.gateway.js';
-import type { ClaudeSessionJobType } from '@/modules/claude-invocation/entities/claudeSession/claudeSession.schema.js';
-import type { SessionUsageSnapshot } from '@/modules/claude-invocation/entities/claudeSession/sessionUsage.schema.js';
+  ReviewEngineRunInput,
+  ReviewEngineRunResult,
+} from '@/modules/claude-invocation/entities/reviewEngine/reviewEngine.gateway.js';
 import type { McpCompletionBridge } from '@/modules/claude-invocation/entities/sessionCompletion/mcpCompletion.gateway.js';
 import type { SessionCompletion } from '@/modules/claude-invocation/entities/sessionCompletion/sessionCompletion.schema.js';
 import type { ReviewReportGateway } from '@/modules/claude-invocation/entities/sessionCompletion/reviewReport.gateway.js';
 import { planRetry } from '@/modules/claude-invocation/entities/retrySchedule/retrySchedule.valueObject.js';
+import { DEFAULT_RETRY_SCHEDULE_CONFIG } from '@/modules/claude-invocation/entities/retrySchedule/retrySchedule.schema.js';
+import { classifySessionFailure } from '@/modules/claude-invocation/entities/sessionFailure/sessionFailure.valueObject.js';
 import { dispatchClaudeSession } from '@/modules/claude-invocation/usecases/dispatchClaudeSession.usecase.js';
 import { awaitSessionCompletion } from '@/modules/claude-invocation/usecases/awaitSessionCompletion.usecase.js';
 import { retrieveReviewReport } from '@/modules/claude-invocation/usecases/retrieveReviewReport.usecase.js';
 import { cleanupClaudeSession } from '@/modules/claude-invocation/usecases/cleanupClaudeSession.usecase.js';
 
-export interface RunClaudeReviewJobInput {
-  jobId: string;
-  jobType: ClaudeSessionJobType;
-  prompt: string;
-  flags: ClaudeDispatchFlags;
-  localPath: string;
-  reportFallbackLocalPath?: string;
-  mergeRequestId: string;
-  mergeRequestNumber: number;
-  attempt: number;
-  signal?: AbortSignal;
-}
+export type RunClaudeReviewJobInput = ReviewEngineRunInput;
 
 export interface RunClaudeReviewJobDependencies {
   sessionGateway: ClaudeSessionGateway;
@@ -39,15 +29,48 @@ export interface RunClaudeReviewJobDependencies {
   pollIntervalMs: number;
 }
 
-export type RunClaudeReviewJobResult =
-  | {
-      status: 'completed';
-      reportPath: string;
-      content: string;
-      usage: SessionUsageSnapshot | null;
-    }
-  | { status: 'failed'; reason: string }
-  | { status: 'retry'; delayMs: number; attempt: number };
+export type RunClaudeReviewJobResult = ReviewEngineRunResult;
+
+/**
+ * Retry planned for a failed session when its failure class has a policy and
+ * attempts are left, a terminal failure otherwise. Shared by every engine.
+ */
+export function failOrRetry(reason: string, input: RunClaudeReviewJobInput): RunClaudeReviewJobResult {
+  const failureClass = classifySessionFailure(reason);
+  const schedule = failureClass !== null ? input.retryPolicies?.[failureClass] : undefined;
+  if (failureClass === null || schedule === undefined || input.signal?.aborted) {
+    return { status: 'failed', reason };
+  }
+  const retry = planRetry(input.attempts[failureClass] ?? 0, schedule);
+  if (retry.status === 'give-up') {
+    return { status: 'failed', reason };
+  }
+  return {
+    status: 'retry',
+    delayMs: retry.delayMs,
+    attempt: retry.nextAttempt,
+    maxAttempts: schedule.maxAttempts,
+    failureClass,
+    reason,
+  };
+}
+
+/** A rate limit is always retried, on the default schedule when the project sets none. */
+export function retryRateLimited(input: RunClaudeReviewJobInput): RunClaudeReviewJobResult {
+  const schedule = input.retryPolicies?.['rate-limited'] ?? DEFAULT_RETRY_SCHEDULE_CONFIG;
+  const retry = planRetry(input.attempts['rate-limited'] ?? 0, schedule);
+  if (retry.status === 'give-up') {
+    return { status: 'failed', reason: 'rate-limited-give-up' };
+  }
+  return {
+    status: 'retry',
+    delayMs: retry.delayMs,
+    attempt: retry.nextAttempt,
+    maxAttempts: schedule.maxAttempts,
+    failureClass: 'rate-limited',
+    reason: 'rate-limited',
+  };
+}
 
 export async function runClaudeReviewJob(
   input: RunClaudeReviewJobInput,
@@ -83,11 +106,7 @@ export async function runClaudeReviewJob(
   }
 
   if (dispatchResult.status === 'rate-limited') {
-    const retry = planRetry(input.attempt);
-    if (retry.status === 'give-up') {
-      return { status: 'failed', reason: 'rate-limited-give-up' };
-    }
-    return { status: 'retry', delayMs: retry.delayMs, attempt: retry.nextAttempt };
+    return retryRateLimited(input);
   }
 
   if (dispatchResult.status === 'failed') {
@@ -142,12 +161,12 @@ export async function runClaudeReviewJob(
   );
 
   if (completion.source === 'timeout') {
-    return { status: 'failed', reason: 'timeout' };
+    return failOrRetry('timeout', input);
   }
 
   if (completion.outcome !== 'completed') {
     const reasonSuffix = completion.reason !== null ? `: ${completion.reason}` : '';
-    return { status: 'failed', reason: `outcome-${completion.outcome}${reasonSuffix}` };
+    return failOrRetry(`outcome-${completion.outcome}${reasonSuffix}`, input);
   }
 
   const report = retrieveReviewReport(
@@ -169,7 +188,7 @@ export async function runClaudeReviewJob(
         usage,
       };
     }
-    return { status: 'failed', reason: 'report-missing' };
+    return failOrRetry('report-missing', input);
   }
 
   return {
@@ -8,6 +8,7 @@ import {
   isReviewFocus,
   reviewSkillForFocus,
 } from '@/modules/review-execution/entities/progress/reviewFocus.type.js';
+import { agentDefinitionSchema } from '@/modules/review-execution/entities/progress/agentDefinition.schema.js';
 import type {
   UpdateProjectConfigUseCase,
   ProjectConfigPatch,
@@ -166,20 +167,22 @@ export const projectConfigRoutes: FastifyPluginAsync<ProjectConfigRoutesOptions>
         if (!Array.isArray(config.agents)) {
           return { success: false, error: 'Field "agents" must be an array' };
         }
-        for (const agent of config.agents) {
-          if (
-            !agent ||
-            typeof agent !== 'object' ||
-            typeof agent.name !== 'string' ||
-            typeof agent.displayName !== 'string' ||
-            agent.name.length === 0 ||
-            agent.displayName.length === 0
-          ) {
+        for (const [index, agent] of config.agents.entries()) {
+          const parsedAgent = agentDefinitionSchema.safeParse(agent);
+          if (parsedAgent.success) {
+            continue;
+          }
+          const [key, ...rest] = parsedAgent.error.issues[0].path;
+          if (key === undefined || key === 'name' || key === 'displayName') {
             return {
               success: false,
               error: 'Invalid agents format: each agent must have { name: string, displayName: string }',
             };
           }
+          return {
+            success: false,
+            error: `Invalid agents[${index}].${[key, ...rest].join('.')}: ${parsedAgent.error.issues[0].message}`,
+          };
         }
       }
 
@@ -200,6 +203,19 @@ export const projectConfigRoutes: FastifyPluginAsync<ProjectConfigRoutesOptions>
         skillErrors.push(`reviewFollowupSkill "${config.reviewFollowupSkill}" not found (${followupSkillPath})`);
       }
 
+      const promptFiles = Array.isArray(config.agents)
+        ? config.agents.flatMap((agent: { name: string; promptFile?: string }) =>
+            agent.promptFile ? [{ name: agent.name, path: join(projectPath, agent.promptFile) }] : [],
+          )
+        : [];
+      for (const promptFile of promptFiles) {
+        try {
+          await stat(promptFile.path);
+        } catch {
+          skillErrors.push(`promptFile of agent "${promptFile.name}" not found (${promptFile.path})`);
+        }
+      }
+
       if (skillErrors.length > 0) {
         return { success: false, error: skillErrors.join(' | ') };
       }
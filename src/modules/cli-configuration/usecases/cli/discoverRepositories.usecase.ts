@@ -19,7 +19,7 @@ export interface DiscoverRepositoriesInput {
 export interface DiscoveredRepository {
   name: string;
   localPath: string;
-  platform: 'gitlab' | 'github' | null;
+  platform: 'gitlab' | 'github' | 'bitbucket' | 'gitea' | null;
   remoteUrl: string | null;
   hasReviewConfig: boolean;
 }
@@ -34,11 +34,13 @@ const IGNORED_DIRS = new Set([
   'node_modules', '.git', '.vscode', '.idea', 'dist', 'build', '.cache',
 ]);
 
-function detectPlatform(remoteUrl: string | null): 'gitlab' | 'github' | null {
+function detectPlatform(remoteUrl: string | null): 'gitlab' | 'github' | 'bitbucket' | 'gitea' | null {
   if (!remoteUrl) return null;
   const lower = remoteUrl.toLowerCase();
   if (lower.includes('gitlab')) return 'gitlab';
   if (lower.includes('github')) return 'github';
+  if (lower.includes('bitbucket')) return 'bitbucket';
+  if (lower.includes('gitea') || lower.includes('forgejo') || lower.includes('codeberg')) return 'gitea';
   return null;
 }
 
@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { createGuard } from '@/shared/foundation/guard.base.js';
+import { bitbucketPullRequestSchema } from '@/modules/platform-integration/entities/bitbucket/bitbucketPullRequestEvent.guard.js';
+
+const bitbucketCommentEventSchema = z.object({
+  actor: z.object({
+    display_name: z.string(),
+    nickname: z.string().optional(),
+  }),
+  comment: z.object({
+    id: z.number(),
+    content: z.object({ raw: z.string() }),
+    user: z.object({
+      display_name: z.string(),
+      nickname: z.string().optional(),
+    }),
+  }),
+  pullrequest: bitbucketPullRequestSchema,
+  repository: z.object({
+    full_name: z.string(),
+  }),
+});
+
+export const bitbucketCommentEventGuard = createGuard(
+  bitbucketCommentEventSchema,
+  'bitbucketCommentEvent',
+);
+
+export type BitbucketCommentEvent = z.infer<typeof bitbucketCommentEventSchema>;
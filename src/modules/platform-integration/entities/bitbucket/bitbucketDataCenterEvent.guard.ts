@@ -0,0 +1,54 @@
+import { z } from 'zod'
+import { createGuard } from '@/shared/foundation/guard.base.js'
+
+const bitbucketDataCenterUserSchema = z.object({
+  name: z.string(),
+  displayName: z.string(),
+})
+
+const bitbucketDataCenterRefSchema = z.object({
+  displayId: z.string(),
+  latestCommit: z.string().optional(),
+  repository: z.object({
+    slug: z.string(),
+    project: z.object({ key: z.string() }),
+  }),
+})
+
+const bitbucketDataCenterPullRequestSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  description: z.string().optional(),
+  state: z.enum(['OPEN', 'MERGED', 'DECLINED']),
+  draft: z.boolean().optional(),
+  author: z.object({ user: bitbucketDataCenterUserSchema }),
+  reviewers: z.array(z.object({ user: bitbucketDataCenterUserSchema })).optional(),
+  fromRef: bitbucketDataCenterRefSchema,
+  toRef: bitbucketDataCenterRefSchema,
+  // Webhook payloads may carry `self: [null]`.
+  links: z.object({
+    self: z.array(z.object({ href: z.string() }).nullable()).optional(),
+  }).optional(),
+})
+
+/**
+ * Pull request events of Bitbucket Data Center (`pr:*` event keys). Comment
+ * events carry the comment next to the pull request.
+ */
+const bitbucketDataCenterEventSchema = z.object({
+  actor: bitbucketDataCenterUserSchema,
+  pullRequest: bitbucketDataCenterPullRequestSchema,
+  comment: z.object({
+    id: z.number(),
+    text: z.string(),
+    author: bitbucketDataCenterUserSchema,
+  }).optional(),
+})
+
+export const bitbucketDataCenterEventGuard = createGuard(
+  bitbucketDataCenterEventSchema,
+  'bitbucketDataCenterEvent',
+)
+
+export type BitbucketDataCenterUser = z.infer<typeof bitbucketDataCenterUserSchema>
+export type BitbucketDataCenterEvent = z.infer<typeof bitbucketDataCenterEventSchema>
@@ -0,0 +1,50 @@
+import { z } from 'zod'
+import { createGuard } from '@/shared/foundation/guard.base.js'
+
+const bitbucketUserSchema = z.object({
+  display_name: z.string(),
+  nickname: z.string().optional(),
+  account_id: z.string().optional(),
+})
+
+const bitbucketRepositorySchema = z.object({
+  full_name: z.string(),
+  links: z.object({
+    html: z.object({ href: z.string() }),
+  }),
+})
+
+const bitbucketEndpointSchema = z.object({
+  branch: z.object({ name: z.string() }),
+  commit: z.object({ hash: z.string() }).nullable().optional(),
+  repository: z.object({ full_name: z.string() }).optional(),
+})
+
+export const bitbucketPullRequestSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  description: z.string().optional(),
+  state: z.enum(['OPEN', 'MERGED', 'DECLINED', 'SUPERSEDED']),
+  draft: z.boolean().optional(),
+  author: bitbucketUserSchema,
+  source: bitbucketEndpointSchema,
+  destination: bitbucketEndpointSchema,
+  reviewers: z.array(bitbucketUserSchema).optional(),
+  links: z.object({
+    html: z.object({ href: z.string() }),
+  }),
+})
+
+const bitbucketPullRequestEventSchema = z.object({
+  actor: bitbucketUserSchema,
+  pullrequest: bitbucketPullRequestSchema,
+  repository: bitbucketRepositorySchema,
+})
+
+export const bitbucketPullRequestEventGuard = createGuard(
+  bitbucketPullRequestEventSchema,
+  'bitbucketPullRequestEvent',
+)
+
+export type BitbucketUser = z.infer<typeof bitbucketUserSchema>
+export type BitbucketPullRequestEvent = z.infer<typeof bitbucketPullRequestEventSchema>
@@ -0,0 +1,4 @@
+export interface ChangedFilesFetchGateway {
+  /** Repository-relative paths touched by the merge request, old and new sides of renames included. */
+  fetchChangedFiles(projectPath: string, mergeRequestNumber: number): string[]
+}
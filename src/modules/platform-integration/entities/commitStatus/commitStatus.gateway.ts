@@ -0,0 +1,17 @@
+/** Name (context) of the status, the one branch protection rules require. */
+export const REVIEW_STATUS_NAME = 'reviewflow/review';
+
+export type CommitStatusState = 'pending' | 'running' | 'success' | 'failure';
+
+export interface CommitStatusInput {
+  projectPath: string;
+  sha: string;
+  state: CommitStatusState;
+  /** One line shown next to the status. */
+  title: string;
+  targetUrl: string | null;
+}
+
+export interface CommitStatusGateway {
+  publish(input: CommitStatusInput): Promise<void>;
+}
@@ -0,0 +1,63 @@
+import type { CommitStatusState } from './commitStatus.gateway.js';
+import type { ReviewEvent } from '@/modules/tracking/entities/tracking/reviewEvent.js';
+import { evaluateQualityGate } from '@/modules/tracking/entities/qualityGate/qualityGate.js';
+import { ReviewContextResultFactory } from '@/modules/review-execution/entities/reviewContext/reviewContextResult.factory.js';
+import type { MeasuredReviewResult } from '@/modules/review-execution/entities/reviewContext/reviewContextResult.schema.js';
+
+export interface ReviewCommitStatus {
+  state: CommitStatusState;
+  title: string;
+}
+
+export interface FinishedReviewInput {
+  jobStatus: 'completed' | 'failed';
+  error?: string;
+  /** The review recorded by this job, null when it recorded none. */
+  review: Pick<ReviewEvent, 'score' | 'blocking' | 'warnings' | 'suggestions'> | null;
+  qualityThreshold: number | null;
+}
+
+const VERDICT_LABELS: Record<MeasuredReviewResult['verdict'], string> = {
+  ready_to_merge: 'ready to merge',
+  needs_fixes: 'needs fixes',
+  needs_discussion: 'needs discussion',
+};
+
+export const PENDING_REVIEW_STATUS: ReviewCommitStatus = {
+  state: 'pending',
+  title: 'Review queued',
+};
+
+export const RUNNING_REVIEW_STATUS: ReviewCommitStatus = {
+  state: 'running',
+  title: 'Review in progress',
+};
+
+/**
+ * Final status of a review job: success only when the verdict does not ask for
+ * fixes and the project quality gate lets the score and blockers through.
+ */
+export function finishedReviewStatus(input: FinishedReviewInput): ReviewCommitStatus {
+  if (input.jobStatus === 'failed') {
+    return { state: 'failure', title: input.error ? `Review failed: ${input.error}` : 'Review failed' };
+  }
+  if (input.review === null) {
+    return { state: 'failure', title: 'No review result' };
+  }
+
+  const { review } = input;
+  const verdict = ReviewContextResultFactory.fromParsedReview(review).verdict;
+  const gate = evaluateQualityGate({
+    latestScore: review.score,
+    blockingIssues: review.blocking,
+    threshold: input.qualityThreshold,
+  });
+
+  const score = review.score === null ? 'no score' : `${review.score}/10`;
+  const title = `${score}, ${VERDICT_LABELS[verdict]}`;
+
+  return {
+    state: verdict !== 'needs_fixes' && gate.allowed ? 'success' : 'failure',
+    title: gate.allowed ? title : `${title}. ${gate.message}`,
+  };
+}
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { createGuard } from '@/shared/foundation/guard.base.js';
+import {
+  giteaRepositorySchema,
+  giteaUserSchema,
+} from '@/modules/platform-integration/entities/gitea/giteaPullRequestEvent.guard.js';
+
+const giteaIssueCommentEventSchema = z.object({
+  action: z.literal('created'),
+  issue: z.object({
+    number: z.number(),
+    pull_request: z.object({ html_url: z.string().optional() }).nullish(),
+  }),
+  comment: z.object({
+    body: z.string(),
+    user: giteaUserSchema,
+  }),
+  repository: giteaRepositorySchema,
+  sender: giteaUserSchema,
+  is_pull: z.boolean().optional(),
+});
+
+export const giteaIssueCommentEventGuard = createGuard(
+  giteaIssueCommentEventSchema,
+  'giteaIssueCommentEvent',
+);
+
+export type GiteaIssueCommentEvent = z.infer<typeof giteaIssueCommentEventSchema>;
@@ -0,0 +1,59 @@
+import { z } from 'zod'
+import { createGuard } from '@/shared/foundation/guard.base.js'
+
+export const giteaUserSchema = z.object({ login: z.string() })
+
+export const giteaRepositorySchema = z.object({
+  full_name: z.string(),
+  html_url: z.string(),
+  clone_url: z.string(),
+})
+
+/**
+ * Gitea and Forgejo send GitHub-shaped pull_request payloads with a few
+ * differences: pushes arrive as `synchronized`, label changes as
+ * `label_updated` without the changed label, `draft` is only present on
+ * recent versions, and head/base repositories can be null for deleted forks.
+ */
+const giteaPullRequestEventSchema = z.object({
+  action: z.string(),
+  number: z.number(),
+  pull_request: z.object({
+    number: z.number(),
+    title: z.string(),
+    body: z.string().nullish(),
+    state: z.enum(['open', 'closed']),
+    draft: z.boolean().optional(),
+    merged: z.boolean().optional(),
+    html_url: z.string(),
+    user: giteaUserSchema.nullish(),
+    head: z.object({
+      ref: z.string(),
+      sha: z.string().optional(),
+      repo: z.object({
+        full_name: z.string(),
+        clone_url: z.string(),
+      }).nullish(),
+    }),
+    base: z.object({
+      ref: z.string(),
+      repo: z.object({
+        full_name: z.string(),
+      }).nullish(),
+    }),
+    requested_reviewers: z.array(giteaUserSchema).nullish(),
+    assignees: z.array(giteaUserSchema).nullish(),
+    labels: z.array(z.object({ name: z.string() })).nullish(),
+    additions: z.number().optional(),
+    deletions: z.number().optional(),
+    changed_files: z.number().optional(),
+  }),
+  repository: giteaRepositorySchema,
+  sender: giteaUserSchema,
+  requested_reviewer: giteaUserSchema.nullish(),
+  label: z.object({ name: z.string() }).nullish(),
+})
+
+export const giteaPullRequestEventGuard = createGuard(giteaPullRequestEventSchema, 'giteaPullRequestEvent')
+
+export type GiteaPullRequestEvent = z.infer<typeof giteaPullRequestEventSchema>
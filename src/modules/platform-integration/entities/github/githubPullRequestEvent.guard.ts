@@ -1,36 +1,40 @@
 import { z } from 'zod'
 import { createGuard } from '@/shared/foundation/guard.base.js'
 
+const gitHubPullRequestSchema = z.object({
+  number: z.number(),
+  title: z.string(),
+  body: z.string().optional(),
+  state: z.enum(['open', 'closed']),
+  draft: z.boolean(),
+  html_url: z.string(),
+  user: z.object({ login: z.string() }).optional(),
+  head: z.object({
+    ref: z.string(),
+    sha: z.string().optional(),
+    repo: z.object({
+      full_name: z.string(),
+      clone_url: z.string(),
+    }).optional(),
+  }),
+  base: z.object({
+    ref: z.string(),
+    repo: z.object({
+      full_name: z.string(),
+    }).optional(),
+  }),
+  requested_reviewers: z.array(z.object({ login: z.string() })),
+  assignees: z.array(z.object({ login: z.string() })).optional(),
+  labels: z.array(z.object({ name: z.string() })).optional(),
+  additions: z.number().optional(),
+  deletions: z.number().optional(),
+  changed_files: z.number().optional(),
+})
+
 const gitHubPullRequestEventSchema = z.object({
   action: z.string(),
   number: z.number(),
-  pull_request: z.object({
-    number: z.number(),
-    title: z.string(),
-    body: z.string().optional(),
-    state: z.enum(['open', 'closed']),
-    draft: z.boolean(),
-    html_url: z.string(),
-    user: z.object({ login: z.string() }).optional(),
-    head: z.object({
-      ref: z.string(),
-      repo: z.object({
-        full_name: z.string(),
-        clone_url: z.string(),
-      }).optional(),
-    }),
-    base: z.object({
-      ref: z.string(),
-      repo: z.object({
-        full_name: z.string(),
-      }).optional(),
-    }),
-    requested_reviewers: z.array(z.object({ login: z.string() })),
-    assignees: z.array(z.object({ login: z.string() })).optional(),
-    additions: z.number().optional(),
-    deletions: z.number().optional(),
-    changed_files: z.number().optional(),
-  }),
+  pull_request: gitHubPullRequestSchema,
   repository: z.object({
     full_name: z.string(),
     html_url: z.string(),
@@ -44,3 +48,7 @@ const gitHubPullRequestEventSchema = z.object({
 export const gitHubPullRequestEventGuard = createGuard(gitHubPullRequestEventSchema, 'gitHubPullRequestEvent')
 
 export type GitHubPullRequestEvent = z.infer<typeof gitHubPullRequestEventSchema>
+
+export const gitHubPullRequestGuard = createGuard(gitHubPullRequestSchema, 'gitHubPullRequest')
+
+export type GitHubPullRequest = z.infer<typeof gitHubPullRequestSchema>
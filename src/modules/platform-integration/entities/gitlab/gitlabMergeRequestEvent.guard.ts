@@ -25,6 +25,9 @@ const gitLabMergeRequestEventSchema = z.object({
     target_branch: z.string(),
     url: z.string(),
     draft: z.boolean().optional(),
+    // Only sent on an `update` that pushed new commits.
+    oldrev: z.string().optional(),
+    last_commit: z.object({ id: z.string() }).optional(),
   }),
   reviewers: z
     .array(
@@ -42,6 +45,7 @@ const gitLabMergeRequestEventSchema = z.object({
       })
     )
     .optional(),
+  labels: z.array(z.object({ title: z.string() })).optional(),
   changes: z
     .object({
       reviewers: z
@@ -50,6 +54,12 @@ const gitLabMergeRequestEventSchema = z.object({
           current: z.array(z.object({ username: z.string() })),
         })
         .optional(),
+      labels: z
+        .object({
+          previous: z.array(z.object({ title: z.string() })),
+          current: z.array(z.object({ title: z.string() })),
+        })
+        .optional(),
     })
     .optional(),
 })
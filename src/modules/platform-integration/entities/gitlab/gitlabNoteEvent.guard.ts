@@ -28,6 +28,7 @@ const gitLabNoteEventSchema = z.object({
     source_branch: z.string().optional(),
     target_branch: z.string().optional(),
     url: z.string().optional(),
+    draft: z.boolean().optional(),
   }),
 });
 
@@ -1,3 +1,13 @@
+export interface IdempotencyKeyEntry {
+  eventKey: string;
+  recordedAt: number;
+  expiresAt: number;
+  /** Deliveries rejected as duplicates while the key was live. */
+  hits: number;
+}
+
 export interface IdempotencyStore {
   recordIfAbsent(eventKey: string): Promise<boolean>;
+  /** Live keys, most recently recorded first. */
+  listRecent(limit: number): Promise<IdempotencyKeyEntry[]>;
 }
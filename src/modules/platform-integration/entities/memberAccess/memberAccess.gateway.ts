@@ -1,7 +1,8 @@
 import type { ResolvedAccessLevel } from '@/modules/platform-integration/entities/memberAccess/memberAccess.js';
 
 /**
- * Resolves a GitLab actor's access level on a target project, keyed by username.
+ * Resolves an actor's access level on a target project, keyed by username.
+ * Platforms without GitLab's numeric scale map their roles onto it.
  *
  * Implementations MUST be fail-closed (SPEC-197 AC4): any lookup error, timeout,
  * ambiguous result, or unknown username resolves to `null` (non-trusted). The
@@ -0,0 +1,15 @@
+export interface MergeRequestMetadata {
+  title: string
+  description: string
+  author: string | null
+  sourceBranch: string
+  targetBranch: string
+  labels: string[]
+  /** Issues the description closes, as `#12` or `group/project#12`. */
+  linkedIssues: string[]
+  webUrl: string | null
+}
+
+export interface MergeRequestMetadataFetchGateway {
+  fetchMergeRequestMetadata(projectPath: string, mergeRequestNumber: number): MergeRequestMetadata
+}
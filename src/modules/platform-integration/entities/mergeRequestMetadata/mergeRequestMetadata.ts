@@ -0,0 +1,14 @@
+const ISSUE_REFERENCE = /(?:[\w.-]+(?:\/[\w.-]+)+)?#\d+/g
+const CLOSING_CLAUSE =
+  /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?|implement(?:s|ed)?)\b:?[ \t]+((?:[\w.-]+(?:\/[\w.-]+)+)?#\d+(?:(?:[ \t]*,[ \t]*|[ \t]+and[ \t]+)(?:[\w.-]+(?:\/[\w.-]+)+)?#\d+)*)/gi
+
+/** Issues a description closes with `Closes #12`, `Fixes group/project#3, #4` and the like, in first-seen order. */
+export function parseLinkedIssues(description: string): string[] {
+  const issues: string[] = []
+  for (const clause of description.matchAll(CLOSING_CLAUSE)) {
+    for (const reference of clause[1].match(ISSUE_REFERENCE) ?? []) {
+      if (!issues.includes(reference)) issues.push(reference)
+    }
+  }
+  return issues
+}
@@ -0,0 +1,10 @@
+import type { GitHubPullRequest } from '@/modules/platform-integration/entities/github/githubPullRequestEvent.guard.js'
+
+/**
+ * Current state of a pull request, in the shape of the `pull_request` object of
+ * GitHub webhooks. Used by flows triggered from events that do not carry it,
+ * such as PR comments.
+ */
+export interface PullRequestFetchGateway {
+  fetchPullRequest(projectPath: string, pullRequestNumber: number): GitHubPullRequest
+}
@@ -0,0 +1,22 @@
+export type PullRequestReviewEvent = 'COMMENT' | 'REQUEST_CHANGES';
+
+export interface PullRequestReviewComment {
+  path: string;
+  line: number;
+  body: string;
+}
+
+export interface PullRequestReviewInput {
+  projectPath: string;
+  mrNumber: number;
+  /** Head commit the inline comments are anchored to. */
+  commitId: string;
+  body: string;
+  event: PullRequestReviewEvent;
+  comments: PullRequestReviewComment[];
+}
+
+/** Publishes a summary and its inline comments as a single pull request review. */
+export interface PullRequestReviewGateway {
+  submitReview(input: PullRequestReviewInput): Promise<void>;
+}
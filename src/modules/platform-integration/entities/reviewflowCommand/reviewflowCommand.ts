@@ -0,0 +1,97 @@
+import {
+  type ClaudeModelName,
+  claudeModelNameSchema,
+} from '@/modules/review-execution/entities/modelRouting/modelRouting.schema.js';
+
+export type ReviewflowCommand =
+  | { name: 'review' }
+  | { name: 'followup' }
+  | { name: 'cancel' }
+  | { name: 'now' }
+  | { name: 'focus'; focus: string }
+  | { name: 'model'; model: ClaudeModelName }
+  | { name: 'explain'; threadId: string };
+
+export type ReviewflowCommandResult =
+  | { kind: 'no-command' }
+  | { kind: 'valid'; command: ReviewflowCommand }
+  | { kind: 'invalid'; message: string };
+
+export const REVIEWFLOW_COMMAND_PREFIX = '/reviewflow';
+
+const FOCUS_PATTERN = /^[a-z][a-z0-9-]{0,39}$/;
+const THREAD_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export const REVIEWFLOW_COMMAND_USAGE = [
+  'Available commands:',
+  '- `/reviewflow review`: run a full review',
+  '- `/reviewflow followup`: check the open threads against the latest push',
+  '- `/reviewflow cancel`: cancel the queued or running review',
+  '- `/reviewflow now`: start the review waiting for a review window',
+  '- `/reviewflow focus <area>`: focus the next reviews on an area (e.g. `security`)',
+  `- \`/reviewflow model <${claudeModelNameSchema.options.join('|')}>\`: pick the model of the next reviews`,
+  '- `/reviewflow explain <thread>`: explain the finding of a review thread',
+].join('\n');
+
+function invalid(reason: string): ReviewflowCommandResult {
+  return { kind: 'invalid', message: `${reason}\n\n${REVIEWFLOW_COMMAND_USAGE}` };
+}
+
+function withoutArgument(command: ReviewflowCommand, args: string[]): ReviewflowCommandResult {
+  if (args.length > 0) {
+    return invalid(`\`${REVIEWFLOW_COMMAND_PREFIX} ${command.name}\` takes no argument.`);
+  }
+  return { kind: 'valid', command };
+}
+
+/**
+ * Parses the first line of a comment that opens with `/reviewflow`. A comment
+ * without such a line is not a command; a malformed one yields the usage text.
+ */
+export function parseReviewflowCommand(commentBody: string): ReviewflowCommandResult {
+  const line = commentBody
+    .split('\n')
+    .map((candidate) => candidate.trim())
+    .find(
+      (candidate) =>
+        candidate === REVIEWFLOW_COMMAND_PREFIX || candidate.startsWith(`${REVIEWFLOW_COMMAND_PREFIX} `),
+    );
+  if (line === undefined) {
+    return { kind: 'no-command' };
+  }
+
+  const [name, ...args] = line.slice(REVIEWFLOW_COMMAND_PREFIX.length).trim().split(/\s+/).filter(Boolean);
+
+  switch (name) {
+    case undefined:
+      return invalid('Missing command.');
+    case 'review':
+    case 'followup':
+    case 'cancel':
+    case 'now':
+      return withoutArgument({ name }, args);
+    case 'focus': {
+      const focus = args[0]?.toLowerCase();
+      if (args.length !== 1 || focus === undefined || !FOCUS_PATTERN.test(focus)) {
+        return invalid('`/reviewflow focus` expects a single area, e.g. `security`.');
+      }
+      return { kind: 'valid', command: { name, focus } };
+    }
+    case 'model': {
+      const parsed = claudeModelNameSchema.safeParse(args[0]?.toLowerCase());
+      if (args.length !== 1 || !parsed.success) {
+        return invalid(`\`/reviewflow model\` expects one of ${claudeModelNameSchema.options.join(', ')}.`);
+      }
+      return { kind: 'valid', command: { name, model: parsed.data } };
+    }
+    case 'explain': {
+      const threadId = args[0];
+      if (args.length !== 1 || threadId === undefined || !THREAD_ID_PATTERN.test(threadId)) {
+        return invalid('`/reviewflow explain` expects a thread id.');
+      }
+      return { kind: 'valid', command: { name, threadId } };
+    }
+    default:
+      return invalid(`Unknown command \`${name}\`.`);
+  }
+}
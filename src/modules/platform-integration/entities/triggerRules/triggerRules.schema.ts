@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+export const DEFAULT_TRIGGER_LABEL = 'needs-review';
+
+const nonEmptyStringSchema = z.string().min(1);
+
+export const triggerRulesSchema = z
+  .object({
+    labels: z.array(nonEmptyStringSchema).default([DEFAULT_TRIGGER_LABEL]),
+    commands: z
+      .array(z.string().regex(/^\/\S+$/, 'must start with "/" and contain no whitespace'))
+      .default([]),
+    targetBranches: z.array(nonEmptyStringSchema).default([]),
+    paths: z.array(nonEmptyStringSchema).default([]),
+    skipDrafts: z.boolean().default(true),
+    authors: z
+      .object({
+        allow: z.array(nonEmptyStringSchema).default([]),
+        deny: z.array(nonEmptyStringSchema).default([]),
+      })
+      .strict()
+      .default({ allow: [], deny: [] }),
+  })
+  .strict();
+
+/**
+ * Per-project review trigger rules (`triggers` in `.claude/reviews/config.json`).
+ * Empty `targetBranches`, `paths` and `authors.allow` lists mean "no restriction".
+ */
+export type TriggerRules = z.infer<typeof triggerRulesSchema>;
+
+export const DEFAULT_TRIGGER_RULES: TriggerRules = triggerRulesSchema.parse({});
@@ -0,0 +1,95 @@
+import type { BitbucketPullRequestEvent, BitbucketUser } from '@/modules/platform-integration/entities/bitbucket/bitbucketPullRequestEvent.guard.js';
+import type { BitbucketCommentEvent } from '@/modules/platform-integration/entities/bitbucket/bitbucketCommentEvent.guard.js';
+import type {
+  BitbucketDataCenterEvent,
+  BitbucketDataCenterUser,
+} from '@/modules/platform-integration/entities/bitbucket/bitbucketDataCenterEvent.guard.js';
+import { bitbucketDataCenterUrl } from '@/modules/platform-integration/interface-adapters/gateways/bitbucketApi.js';
+
+/**
+ * Cloud event keys of the Data Center events a review reacts to. A reviewer
+ * change maps to `pullrequest:created`: it may request a review, but unlike
+ * `pullrequest:updated` it is no push that could start a follow-up.
+ */
+const CLOUD_EVENT_KEY_BY_DATA_CENTER_EVENT_KEY: Record<string, string> = {
+  'pr:opened': 'pullrequest:created',
+  'pr:reviewer:updated': 'pullrequest:created',
+  'pr:from_ref_updated': 'pullrequest:updated',
+  'pr:merged': 'pullrequest:fulfilled',
+  'pr:declined': 'pullrequest:rejected',
+  'pr:deleted': 'pullrequest:rejected',
+  'pr:comment:added': 'pullrequest:comment_created',
+};
+
+type DataCenterPullRequest = BitbucketDataCenterEvent['pullRequest'];
+
+function toCloudUser(user: BitbucketDataCenterUser): BitbucketUser {
+  return { display_name: user.displayName, nickname: user.name };
+}
+
+function toProjectPath(ref: DataCenterPullRequest['toRef']): string {
+  return `${ref.repository.project.key}/${ref.repository.slug}`;
+}
+
+function pullRequestUrl(pullRequest: DataCenterPullRequest): string {
+  const self = pullRequest.links?.self?.find((link) => link !== null);
+  if (self) return self.href;
+  const { project, slug } = pullRequest.toRef.repository;
+  return `${bitbucketDataCenterUrl() ?? ''}/projects/${project.key}/repos/${slug}/pull-requests/${pullRequest.id}`;
+}
+
+/**
+ * Bitbucket Data Center sends its own event keys and payloads. Once
+ * normalised to their Cloud shape, the Bitbucket filters and controller flow
+ * consume them unchanged: this adapter is the only place that knows about
+ * the differences.
+ */
+export class BitbucketDataCenterAdapter {
+  isDataCenterEventKey(eventKey: string): boolean {
+    return eventKey.startsWith('pr:');
+  }
+
+  /** Data Center events without a Cloud counterpart keep their key and are ignored. */
+  toCloudEventKey(eventKey: string): string {
+    return CLOUD_EVENT_KEY_BY_DATA_CENTER_EVENT_KEY[eventKey] ?? eventKey;
+  }
+
+  toCloudEvent(event: BitbucketDataCenterEvent): BitbucketPullRequestEvent & Partial<Pick<BitbucketCommentEvent, 'comment'>> {
+    const pullRequest = event.pullRequest;
+    const url = pullRequestUrl(pullRequest);
+    const endpoint = (ref: DataCenterPullRequest['fromRef']) => ({
+      branch: { name: ref.displayId },
+      commit: ref.latestCommit ? { hash: ref.latestCommit } : null,
+      repository: { full_name: toProjectPath(ref) },
+    });
+
+    return {
+      actor: toCloudUser(event.actor),
+      pullrequest: {
+        id: pullRequest.id,
+        title: pullRequest.title,
+        description: pullRequest.description,
+        state: pullRequest.state,
+        draft: pullRequest.draft,
+        author: toCloudUser(pullRequest.author.user),
+        source: endpoint(pullRequest.fromRef),
+        destination: endpoint(pullRequest.toRef),
+        reviewers: pullRequest.reviewers?.map((reviewer) => toCloudUser(reviewer.user)),
+        links: { html: { href: url } },
+      },
+      repository: {
+        full_name: toProjectPath(pullRequest.toRef),
+        links: { html: { href: url.replace(/\/pull-requests\/\d+.*$/, '') } },
+      },
+      ...(event.comment
+        ? {
+            comment: {
+              id: event.comment.id,
+              content: { raw: event.comment.text },
+              user: toCloudUser(event.comment.author),
+            },
+          }
+        : {}),
+    };
+  }
+}
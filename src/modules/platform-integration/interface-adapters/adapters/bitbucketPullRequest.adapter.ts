@@ -0,0 +1,36 @@
+import type { BitbucketPullRequestEvent } from '../controllers/webhook/eventFilter.js';
+import type { ReviewRequest, ReviewRequestState } from '@/modules/review-execution/entities/reviewRequest/reviewRequest.entity.js';
+
+function mapBitbucketState(state: string): ReviewRequestState {
+  switch (state) {
+    case 'OPEN':
+      return 'open';
+    case 'MERGED':
+      return 'merged';
+    default:
+      return 'closed';
+  }
+}
+
+export class BitbucketPullRequestAdapter {
+  translate(event: BitbucketPullRequestEvent): ReviewRequest {
+    const pullRequest = event.pullrequest;
+
+    return {
+      platform: 'bitbucket',
+      projectPath: event.repository.full_name,
+      reviewRequestNumber: pullRequest.id,
+      title: pullRequest.title,
+      description: pullRequest.description,
+      sourceBranch: pullRequest.source.branch.name,
+      targetBranch: pullRequest.destination.branch.name,
+      state: mapBitbucketState(pullRequest.state),
+      isDraft: pullRequest.draft ?? false,
+      author: pullRequest.author.nickname ?? pullRequest.author.display_name,
+      assignedReviewer: pullRequest.reviewers?.[0]?.nickname,
+      webUrl: pullRequest.links.html.href,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+  }
+}
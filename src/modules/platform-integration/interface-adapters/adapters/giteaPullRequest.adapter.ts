@@ -0,0 +1,91 @@
+import type { GitHubPullRequestEvent } from '../controllers/webhook/eventFilter.js';
+import type { GitHubIssueCommentEvent } from '@/modules/platform-integration/entities/github/githubIssueCommentEvent.guard.js';
+import type { GiteaPullRequestEvent } from '@/modules/platform-integration/entities/gitea/giteaPullRequestEvent.guard.js';
+import type { GiteaIssueCommentEvent } from '@/modules/platform-integration/entities/gitea/giteaIssueCommentEvent.guard.js';
+import type { ReviewRequest } from '@/modules/review-execution/entities/reviewRequest/reviewRequest.entity.js';
+import { GitHubPullRequestAdapter } from './githubPullRequest.adapter.js';
+
+const WIP_TITLE_PATTERN = /^\s*(\[wip\]|wip:)/i;
+
+/** Gitea actions named differently on GitHub. */
+const GITHUB_ACTION_BY_GITEA_ACTION: Record<string, string> = {
+  synchronized: 'synchronize',
+  label_updated: 'labeled',
+};
+
+/**
+ * Gitea/Forgejo payloads are close enough to GitHub's that the GitHub filter
+ * and controller flow can consume them once normalised: this adapter is the
+ * only place that knows about the differences.
+ */
+export class GiteaPullRequestAdapter {
+  private githubAdapter = new GitHubPullRequestAdapter();
+
+  toGitHubPullRequestEvent(event: GiteaPullRequestEvent): GitHubPullRequestEvent {
+    const pullRequest = event.pull_request;
+
+    return {
+      action: GITHUB_ACTION_BY_GITEA_ACTION[event.action] ?? event.action,
+      number: event.number,
+      pull_request: {
+        number: pullRequest.number,
+        title: pullRequest.title,
+        body: pullRequest.body ?? undefined,
+        state: pullRequest.state,
+        draft: pullRequest.draft ?? WIP_TITLE_PATTERN.test(pullRequest.title),
+        html_url: pullRequest.html_url,
+        user: pullRequest.user ?? undefined,
+        head: {
+          ref: pullRequest.head.ref,
+          sha: pullRequest.head.sha,
+          repo: pullRequest.head.repo ?? undefined,
+        },
+        base: {
+          ref: pullRequest.base.ref,
+          repo: pullRequest.base.repo ?? undefined,
+        },
+        requested_reviewers: pullRequest.requested_reviewers ?? [],
+        assignees: pullRequest.assignees ?? undefined,
+        labels: pullRequest.labels ?? undefined,
+        additions: pullRequest.additions,
+        deletions: pullRequest.deletions,
+        changed_files: pullRequest.changed_files,
+      },
+      repository: event.repository,
+      sender: event.sender,
+      requested_reviewer: event.requested_reviewer ?? undefined,
+      label: event.label ?? undefined,
+    };
+  }
+
+  /**
+   * Gitea fires issue_comment for issues and pull requests alike; only the
+   * latter carry `issue.pull_request`, so plain issues translate to null.
+   */
+  toGitHubIssueCommentEvent(event: GiteaIssueCommentEvent): GitHubIssueCommentEvent | null {
+    const pullRequest = event.issue.pull_request;
+    if (!pullRequest && event.is_pull !== true) {
+      return null;
+    }
+
+    return {
+      action: event.action,
+      issue: {
+        number: event.issue.number,
+        pull_request: { url: pullRequest?.html_url ?? `${event.repository.html_url}/pulls/${event.issue.number}` },
+      },
+      comment: event.comment,
+      repository: event.repository,
+      sender: event.sender,
+    };
+  }
+
+  translate(event: GiteaPullRequestEvent): ReviewRequest {
+    const reviewRequest = this.githubAdapter.translate(this.toGitHubPullRequestEvent(event));
+    return {
+      ...reviewRequest,
+      platform: 'gitea',
+      state: event.pull_request.merged ? 'merged' : reviewRequest.state,
+    };
+  }
+}
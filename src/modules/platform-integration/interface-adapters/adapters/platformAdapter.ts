@@ -1,12 +1,17 @@
 import { GitLabMergeRequestAdapter } from './gitlabMergeRequest.adapter.js';
 import { GitHubPullRequestAdapter } from './githubPullRequest.adapter.js';
-import type { GitLabMergeRequestEvent, GitHubPullRequestEvent } from '../controllers/webhook/eventFilter.js';
+import { BitbucketPullRequestAdapter } from './bitbucketPullRequest.adapter.js';
+import { GiteaPullRequestAdapter } from './giteaPullRequest.adapter.js';
+import type { GitLabMergeRequestEvent, GitHubPullRequestEvent, BitbucketPullRequestEvent } from '../controllers/webhook/eventFilter.js';
+import type { GiteaPullRequestEvent } from '@/modules/platform-integration/entities/gitea/giteaPullRequestEvent.guard.js';
 import type { ReviewRequest } from '@/modules/review-execution/entities/reviewRequest/reviewRequest.entity.js';
 import { parseReviewRequest } from '@/modules/review-execution/entities/reviewRequest/reviewRequest.guard.js';
 
 export class PlatformAdapter {
   private gitlabAdapter = new GitLabMergeRequestAdapter();
   private githubAdapter = new GitHubPullRequestAdapter();
+  private bitbucketAdapter = new BitbucketPullRequestAdapter();
+  private giteaAdapter = new GiteaPullRequestAdapter();
 
   translateGitLabEvent(event: GitLabMergeRequestEvent): ReviewRequest {
     const reviewRequest = this.gitlabAdapter.translate(event);
@@ -17,4 +22,14 @@ export class PlatformAdapter {
     const reviewRequest = this.githubAdapter.translate(event);
     return parseReviewRequest(reviewRequest);
   }
+
+  translateBitbucketEvent(event: BitbucketPullRequestEvent): ReviewRequest {
+    const reviewRequest = this.bitbucketAdapter.translate(event);
+    return parseReviewRequest(reviewRequest);
+  }
+
+  translateGiteaEvent(event: GiteaPullRequestEvent): ReviewRequest {
+    const reviewRequest = this.giteaAdapter.translate(event);
+    return parseReviewRequest(reviewRequest);
+  }
 }
@@ -0,0 +1,40 @@
+import type { FastifyPluginAsync } from 'fastify';
+import type { IdempotencyStore } from '@/modules/platform-integration/entities/idempotency/idempotencyStore.gateway.js';
+
+export interface IdempotencyRoutesOptions {
+  idempotencyStore: IdempotencyStore;
+  retentionMs: number;
+}
+
+interface IdempotencyQuery {
+  limit?: string;
+}
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+export const idempotencyRoutes: FastifyPluginAsync<IdempotencyRoutesOptions> = async (
+  fastify,
+  opts,
+) => {
+  const { idempotencyStore, retentionMs } = opts;
+
+  fastify.get<{ Querystring: IdempotencyQuery }>('/api/idempotency', async (request, reply) => {
+    const limit = request.query.limit === undefined ? DEFAULT_LIMIT : Number(request.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      reply.code(400);
+      return { error: `limit must be an integer between 1 and ${MAX_LIMIT}` };
+    }
+
+    const entries = await idempotencyStore.listRecent(limit);
+    return {
+      retentionMs,
+      keys: entries.map((entry) => ({
+        eventKey: entry.eventKey,
+        recordedAt: new Date(entry.recordedAt).toISOString(),
+        expiresAt: new Date(entry.expiresAt).toISOString(),
+        hits: entry.hits,
+      })),
+    };
+  });
+};
@@ -0,0 +1,713 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import type { Logger } from 'pino';
+import { verifyBitbucketSignature, getBitbucketEventKey, getBitbucketRequestUuid } from '@/security/verifier.js';
+import {
+  filterBitbucketEvent,
+  filterBitbucketPrUpdate,
+  filterBitbucketPrClose,
+  filterBitbucketPrMerge,
+  filterBitbucketCommentEvent,
+  type FilterResult,
+} from '@/modules/platform-integration/interface-adapters/controllers/webhook/eventFilter.js';
+import { bitbucketPullRequestEventGuard, type BitbucketPullRequestEvent } from '@/modules/platform-integration/entities/bitbucket/bitbucketPullRequestEvent.guard.js';
+import { bitbucketCommentEventGuard } from '@/modules/platform-integration/entities/bitbucket/bitbucketCommentEvent.guard.js';
+import { bitbucketDataCenterEventGuard } from '@/modules/platform-integration/entities/bitbucket/bitbucketDataCenterEvent.guard.js';
+import { BitbucketDataCenterAdapter } from '@/modules/platform-integration/interface-adapters/adapters/bitbucketDataCenter.adapter.js';
+import { findRepositoryByProjectPath, type RepositoryConfig } from '@/config/loader.js';
+import {
+  enqueueReview,
+  createJobId,
+  updateJobProgress,
+  cancelJob,
+  type ReviewJob,
+} from '@/frameworks/queue/pQueueAdapter.js';
+import type { ProcessorBuilder } from '@/modules/review-execution/services/processorRegistry.js';
+import type { ReviewRequestTrackingGateway } from '@/modules/tracking/interface-adapters/gateways/reviewRequestTracking.gateway.js';
+import type { TrackAssignmentUseCase } from '@/modules/tracking/usecases/tracking/trackAssignment.usecase.js';
+import type { RecordReviewCompletionUseCase } from '@/modules/tracking/usecases/tracking/recordReviewCompletion.usecase.js';
+import type { RecordPushUseCase } from '@/modules/tracking/usecases/tracking/recordPush.usecase.js';
+import type { TransitionStateUseCase } from '@/modules/tracking/usecases/tracking/transitionState.usecase.js';
+import type { CheckFollowupNeededUseCase } from '@/modules/tracking/usecases/tracking/checkFollowupNeeded.usecase.js';
+import type { SyncThreadsUseCase } from '@/modules/tracking/usecases/tracking/syncThreads.usecase.js';
+import type { RecordBypassUseCase } from '@/modules/tracking/usecases/tracking/recordBypass.usecase.js';
+import type { IsTrustedActorUseCase } from '@/modules/platform-integration/usecases/isTrustedActor.usecase.js';
+import type { IdempotencyStore } from '@/modules/platform-integration/entities/idempotency/idempotencyStore.gateway.js';
+import type { NoteCommentPostGateway } from '@/modules/platform-integration/entities/noteComment/noteCommentPost.gateway.js';
+import { parseReviewOutput } from '@/modules/statistics-insights/services/statsService.js';
+import { resolveReviewStats } from '@/modules/review-execution/entities/reviewFinding/reviewFinding.js';
+import { ReviewContextResultFactory } from '@/modules/review-execution/entities/reviewContext/reviewContextResult.factory.js';
+import { defaultCommandExecutor } from '@/modules/review-execution/services/threadActionsExecutor.js';
+import { executeActionsFromContext } from '@/modules/review-execution/services/contextActionsExecutor.js';
+import { holdForApproval, resolveShadowOutput } from '@/modules/review-execution/services/publishModeResolver.js';
+import { buildCrossRepoComments, postLinkedComments } from '@/modules/review-execution/services/crossRepoPublisher.js';
+import type { ParkReviewPublicationUseCase } from '@/modules/review-execution/usecases/parkReviewPublication.usecase.js';
+import type { ShadowLogGateway } from '@/modules/review-execution/entities/shadowLog/shadowLog.gateway.js';
+import { ShadowLogFileSystemGateway } from '@/modules/review-execution/interface-adapters/gateways/fileSystem/shadowLog.fileSystem.gateway.js';
+import { invokeClaudeReview, sendNotification } from '@/claude/invoker.js';
+import type { ClaudeInvokerDependencies } from '@/frameworks/claude/claudeInvoker.js';
+import type { GateClaudeInvocationUseCase } from '@/modules/review-execution/usecases/gateClaudeInvocation.usecase.js';
+import { startWatchingReviewContext, stopWatchingReviewContext } from '@/main/websocket.js';
+import { loadProjectConfig, getProjectAgentsOrFocusDefaults, getFollowupAgents, getProjectLanguage } from '@/config/projectConfig.js';
+import { DEFAULT_AGENTS, DEFAULT_FOLLOWUP_AGENTS } from '@/modules/review-execution/entities/progress/agentDefinition.type.js';
+import type { ReviewContextGateway } from '@/modules/review-execution/entities/reviewContext/reviewContext.gateway.js';
+import type { DiffMetadata } from '@/modules/review-execution/entities/reviewContext/reviewContext.js';
+import type { ThreadFetchGateway } from '@/modules/platform-integration/entities/threadFetch/threadFetch.gateway.js';
+import type { DiffMetadataFetchGateway } from '@/modules/platform-integration/entities/diffMetadata/diffMetadata.gateway.js';
+import type { DiffStatsFetchGateway } from '@/modules/shared-kernel/entities/diffStats/diffStatsFetch.gateway.js';
+import type { EnforceBudgetUseCase } from '@/modules/token-accounting/usecases/enforceBudget/enforceBudget.usecase.js';
+import type { BudgetExceededPayload } from '@/main/websocket.js';
+import type { RemoveWorktreeAction } from '@/modules/platform-integration/interface-adapters/controllers/webhook/github.controller.js';
+
+export interface BitbucketWebhookDependencies {
+  reviewContextGateway: ReviewContextGateway;
+  threadFetchGateway: ThreadFetchGateway;
+  diffMetadataFetchGateway: DiffMetadataFetchGateway;
+  diffStatsFetchGateway: DiffStatsFetchGateway;
+  trackAssignment: TrackAssignmentUseCase;
+  recordCompletion: RecordReviewCompletionUseCase;
+  recordPush: RecordPushUseCase;
+  transitionState: TransitionStateUseCase;
+  checkFollowupNeeded: CheckFollowupNeededUseCase;
+  syncThreads: SyncThreadsUseCase;
+  enforceBudget: Pick<EnforceBudgetUseCase, 'execute'>;
+  broadcastBudgetExceeded: (payload: BudgetExceededPayload) => void;
+  getRepositories: () => RepositoryConfig[];
+  claudeInvokerDeps?: ClaudeInvokerDependencies;
+  gateClaudeInvocation?: GateClaudeInvocationUseCase;
+  removeWorktree: RemoveWorktreeAction;
+  recordBypass: RecordBypassUseCase;
+  /** SPEC-197 trigger-actor provenance gate; absent = gate disabled (no-op). */
+  isTrustedActor?: IsTrustedActorUseCase;
+  noteCommentPostGateway: NoteCommentPostGateway;
+  /** Where shadow reviews record their actions, `.claude/reviews/shadow/` by default. */
+  shadowLogGateway?: ShadowLogGateway;
+  /** Holds finished reviews for approval when their project sets `reviewBeforePublish`. */
+  parkReviewPublication?: ParkReviewPublicationUseCase;
+  idempotencyStore?: IdempotencyStore;
+  now: () => string;
+}
+
+type ProcessableFilterResult = Extract<FilterResult, { shouldProcess: true }>;
+
+const dataCenterAdapter = new BitbucketDataCenterAdapter();
+
+/**
+ * Event key and payload of a delivery in their Cloud shape. Data Center
+ * payloads that do not parse are kept as sent, and rejected like any other.
+ */
+function toCloudDelivery(eventKey: string, body: unknown): { eventKey: string; body: unknown } {
+  if (!dataCenterAdapter.isDataCenterEventKey(eventKey)) {
+    return { eventKey, body };
+  }
+  const parseResult = bitbucketDataCenterEventGuard.safeParse(body);
+  return {
+    eventKey: dataCenterAdapter.toCloudEventKey(eventKey),
+    body: parseResult.success ? dataCenterAdapter.toCloudEvent(parseResult.data) : body,
+  };
+}
+
+/**
+ * Trigger-actor provenance gate (SPEC-197), same contract as the GitLab
+ * controller: a no-op when no resolver is wired, fail-closed otherwise.
+ */
+async function resolveActorTrust(
+  deps: Pick<BitbucketWebhookDependencies, 'isTrustedActor'>,
+  projectPath: string,
+  username: string,
+): Promise<boolean> {
+  if (!deps.isTrustedActor) {
+    return true;
+  }
+  return deps.isTrustedActor.execute({ username, projectPath });
+}
+
+function listEnabledLocalPaths(getRepositories: () => RepositoryConfig[]): string[] {
+  return getRepositories()
+    .filter((repository) => repository.enabled)
+    .map((repository) => repository.localPath);
+}
+
+function toMrId(projectPath: string, prNumber: number): string {
+  return `bitbucket-${projectPath}-${prNumber}`;
+}
+
+async function removeWorktreeQuietly(
+  deps: BitbucketWebhookDependencies,
+  logger: Logger,
+  repoConfig: RepositoryConfig,
+  target: ProcessableFilterResult,
+  trigger: string,
+): Promise<void> {
+  try {
+    const worktreeRemoval = await deps.removeWorktree({
+      identity: { platform: 'bitbucket', projectPath: target.projectPath, mrNumber: target.mergeRequestNumber },
+      sourceCheckoutPath: repoConfig.localPath,
+    });
+    if (worktreeRemoval.status === 'failed') {
+      logger.warn(
+        { prNumber: target.mergeRequestNumber, repo: target.projectPath, warning: worktreeRemoval.warning },
+        `removeWorktree failed on ${trigger}`
+      );
+    }
+  } catch (error) {
+    logger.warn(
+      {
+        prNumber: target.mergeRequestNumber,
+        repo: target.projectPath,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      `removeWorktree threw on ${trigger}`
+    );
+  }
+}
+
+async function handleBitbucketCommentHook(
+  body: unknown,
+  reply: FastifyReply,
+  logger: Logger,
+  eventKey: string,
+  deps: BitbucketWebhookDependencies,
+): Promise<void> {
+  const parseResult = bitbucketCommentEventGuard.safeParse(body);
+  if (!parseResult.success) {
+    logger.debug({ errors: parseResult.error }, 'Invalid Bitbucket comment payload (ignored)');
+    reply.status(200).send({ status: 'ignored', reason: 'Comment payload not parseable' });
+    return;
+  }
+
+  const filterResult = filterBitbucketCommentEvent(parseResult.data, eventKey);
+  if (!filterResult.shouldProcess) {
+    reply.status(200).send({ status: 'ignored', reason: filterResult.reason });
+    return;
+  }
+
+  // SPEC-197 AC3: a non-trusted commenter never reaches the bypass-processing path.
+  const commentActorTrusted = await resolveActorTrust(
+    deps,
+    filterResult.projectPath,
+    filterResult.authorUsername,
+  );
+  if (!commentActorTrusted) {
+    logger.info(
+      { projectPath: filterResult.projectPath, actor: filterResult.authorUsername },
+      'Comment trigger from non-trusted actor parked (provenance gate)',
+    );
+    reply.status(202).send({ status: 'pending-confirmation', reason: 'untrusted-actor' });
+    return;
+  }
+
+  const repoConfig = findRepositoryByProjectPath(filterResult.projectPath);
+  if (!repoConfig) {
+    logger.debug({ projectPath: filterResult.projectPath }, 'Comment for unconfigured repository (ignored)');
+    reply.status(200).send({ status: 'ignored', reason: 'Repository not configured' });
+    return;
+  }
+
+  const mrId = toMrId(filterResult.projectPath, filterResult.mergeRequestNumber);
+  const result = deps.recordBypass.execute({
+    projectPath: repoConfig.localPath,
+    mrId,
+    commentBody: filterResult.commentBody,
+    author: filterResult.authorUsername,
+    now: deps.now,
+  });
+
+  if (result.kind === 'rejected-missing-reason') {
+    await deps.noteCommentPostGateway.postComment({
+      projectPath: filterResult.projectPath,
+      mrNumber: filterResult.mergeRequestNumber,
+      body: result.message,
+    });
+    logger.info({ mrId, author: filterResult.authorUsername }, 'Bypass marker without reason rejected');
+    reply.status(200).send({ status: 'bypass-rejected', reason: 'missing-reason' });
+    return;
+  }
+
+  if (result.kind === 'recorded') {
+    logger.info(
+      { mrId, author: result.bypass.author, reason: result.bypass.reason },
+      'Bypass recorded on tracked PR',
+    );
+    reply.status(200).send({ status: 'bypass-recorded' });
+    return;
+  }
+
+  if (result.kind === 'mr-not-found') {
+    reply.status(200).send({ status: 'ignored', reason: 'PR not tracked' });
+    return;
+  }
+
+  reply.status(200).send({ status: 'ignored', reason: 'No bypass marker' });
+}
+
+async function submitJob(
+  job: ReviewJob,
+  processor: ReturnType<ProcessorBuilder>,
+  triggerSource: 'webhook-initial' | 'webhook-followup',
+  reply: FastifyReply,
+  deps: BitbucketWebhookDependencies,
+): Promise<void> {
+  const queuedStatus = job.jobType === 'followup' ? 'followup-queued' : 'queued';
+
+  if (deps.gateClaudeInvocation) {
+    const gateResult = await deps.gateClaudeInvocation.execute({ job, triggerSource, processor });
+    if (gateResult.status === 'pending') {
+      reply.status(202).send({ status: 'pending-confirmation', pendingId: gateResult.pendingId, prNumber: job.mrNumber });
+      return;
+    }
+    if (gateResult.status === 'enqueued') {
+      reply.status(202).send({ status: queuedStatus, jobId: job.id, prNumber: job.mrNumber });
+      return;
+    }
+    reply.status(200).send({ status: 'deduplicated', jobId: job.id, reason: 'Review already in progress or recently completed' });
+    return;
+  }
+
+  const enqueued = await enqueueReview(job, processor);
+  if (enqueued) {
+    reply.status(202).send({ status: queuedStatus, jobId: job.id, prNumber: job.mrNumber });
+  } else {
+    reply.status(200).send({ status: 'deduplicated', jobId: job.id, reason: 'Review already in progress or recently completed' });
+  }
+}
+
+async function rejectOnBudget(
+  job: ReviewJob,
+  reply: FastifyReply,
+  logger: Logger,
+  deps: BitbucketWebhookDependencies,
+): Promise<boolean> {
+  const budgetDecision = await deps.enforceBudget.execute({
+    localPaths: listEnabledLocalPaths(deps.getRepositories),
+  });
+  if (budgetDecision.accepted) return false;
+
+  logger.warn(
+    {
+      prNumber: job.mrNumber,
+      jobType: job.jobType,
+      limitUsd: budgetDecision.status.limitUsd,
+      consumedUsd: budgetDecision.status.consumedUsd,
+    },
+    'Budget exceeded, review not enqueued'
+  );
+  deps.broadcastBudgetExceeded({
+    mrNumber: job.mrNumber,
+    platform: 'bitbucket',
+    projectPath: job.projectPath,
+    limitUsd: budgetDecision.status.limitUsd,
+    consumedUsd: budgetDecision.status.consumedUsd,
+  });
+  reply.status(200).send({ status: 'rejected', reason: 'budget-exceeded' });
+  return true;
+}
+
+async function handleFollowupPush(
+  event: BitbucketPullRequestEvent,
+  updateResult: ProcessableFilterResult,
+  repoConfig: RepositoryConfig,
+  reply: FastifyReply,
+  logger: Logger,
+  deps: BitbucketWebhookDependencies,
+): Promise<boolean> {
+  const mr = deps.recordPush.execute({
+    projectPath: repoConfig.localPath,
+    mrNumber: updateResult.mergeRequestNumber,
+    platform: 'bitbucket',
+  });
+  const needsFollowup = mr && deps.checkFollowupNeeded.execute({
+    projectPath: repoConfig.localPath,
+    mrNumber: updateResult.mergeRequestNumber,
+    platform: 'bitbucket',
+  });
+  logger.info(
+    { prNumber: updateResult.mergeRequestNumber, mrState: mr?.state, needsFollowup },
+    'Push event recorded'
+  );
+
+  if (!needsFollowup) return false;
+
+  if (mr.autoFollowup === false) {
+    logger.info(
+      { prNumber: updateResult.mergeRequestNumber, project: updateResult.projectPath },
+      'Auto-followup disabled for this PR, skipping'
+    );
+    reply.status(200).send({ status: 'ignored', reason: 'Auto-followup disabled' });
+    return true;
+  }
+
+  const projectConfig = loadProjectConfig(repoConfig.localPath);
+  const followupJob: ReviewJob = {
+    id: createJobId('bitbucket-followup', updateResult.projectPath, updateResult.mergeRequestNumber),
+    platform: 'bitbucket',
+    projectPath: updateResult.projectPath,
+    localPath: repoConfig.localPath,
+    mrNumber: updateResult.mergeRequestNumber,
+    skill: projectConfig?.reviewFollowupSkill || 'review-followup',
+    mrUrl: updateResult.mergeRequestUrl,
+    sourceBranch: updateResult.sourceBranch,
+    targetBranch: updateResult.targetBranch,
+    jobType: 'followup',
+    title: event.pullrequest.title,
+  };
+
+  if (await rejectOnBudget(followupJob, reply, logger, deps)) return true;
+
+  logger.info(
+    { prNumber: updateResult.mergeRequestNumber, project: updateResult.projectPath },
+    'Auto-triggering followup review after push'
+  );
+  const processor = buildBitbucketReviewProcessor(deps, logger)(followupJob);
+  await submitJob(followupJob, processor, 'webhook-followup', reply, deps);
+  return true;
+}
+
+export async function handleBitbucketWebhook(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  logger: Logger,
+  trackingGateway: ReviewRequestTrackingGateway,
+  deps: BitbucketWebhookDependencies
+): Promise<void> {
+  // 1. Verify signature
+  const verification = verifyBitbucketSignature(request);
+  if (!verification.valid) {
+    logger.warn({ error: verification.error }, 'Bitbucket signature verification failed');
+    reply.status(401).send({ error: verification.error });
+    return;
+  }
+
+  // 1a. Idempotency guard on X-Request-UUID, same contract as the GitLab event UUID.
+  if (deps.idempotencyStore) {
+    const requestUuid = getBitbucketRequestUuid(request);
+    if (requestUuid !== undefined) {
+      const accepted = await deps.idempotencyStore.recordIfAbsent(requestUuid);
+      if (!accepted) {
+        logger.info({ requestUuid }, 'Duplicate Bitbucket request UUID, no-op');
+        reply.status(200).send({ status: 'ignored', reason: 'Duplicate event' });
+        return;
+      }
+    }
+  }
+
+  // 2. Check event key, once a Data Center delivery is in its Cloud shape
+  const { eventKey, body } = toCloudDelivery(getBitbucketEventKey(request) ?? '', request.body);
+
+  if (eventKey === 'pullrequest:comment_created') {
+    await handleBitbucketCommentHook(body, reply, logger, eventKey, deps);
+    return;
+  }
+
+  if (!eventKey.startsWith('pullrequest:')) {
+    logger.debug({ eventKey }, 'Ignoring non-PR event');
+    reply.status(200).send({ status: 'ignored', reason: 'Not a PR event' });
+    return;
+  }
+
+  // 3. Parse and validate event payload
+  const parseResult = bitbucketPullRequestEventGuard.safeParse(body);
+  if (!parseResult.success) {
+    logger.warn({ errors: parseResult.error }, 'Invalid Bitbucket webhook payload');
+    reply.status(400).send({ error: 'Invalid webhook payload' });
+    return;
+  }
+  const event = parseResult.data;
+  const repoConfig = findRepositoryByProjectPath(event.repository.full_name);
+
+  // 3a. Declined PR - clean up tracking and cancel any running job
+  const closeResult = filterBitbucketPrClose(event, eventKey);
+  if (closeResult.shouldProcess) {
+    if (!repoConfig) {
+      reply.status(200).send({ status: 'ignored', reason: 'PR declined, repo not configured' });
+      return;
+    }
+    const prNumber = closeResult.mergeRequestNumber;
+    const mrId = toMrId(closeResult.projectPath, prNumber);
+    const cancelled = cancelJob(createJobId('bitbucket', closeResult.projectPath, prNumber));
+    const archived = trackingGateway.archive(repoConfig.localPath, mrId);
+    const contextDeleted = deps.reviewContextGateway.delete(repoConfig.localPath, mrId);
+    await removeWorktreeQuietly(deps, logger, repoConfig, closeResult, 'decline');
+
+    logger.info(
+      { prNumber, repo: closeResult.projectPath, jobCancelled: cancelled, trackingArchived: archived, contextDeleted: contextDeleted.deleted },
+      'PR declined - cleaned up tracking, cancelled job, deleted context'
+    );
+    reply.status(200).send({ status: 'cleaned', prNumber, jobCancelled: cancelled, trackingArchived: archived });
+    return;
+  }
+
+  // 3b. Merged PR - mark as merged and drop the worktree
+  const mergeResult = filterBitbucketPrMerge(event, eventKey);
+  if (mergeResult.shouldProcess) {
+    if (!repoConfig) {
+      reply.status(200).send({ status: 'ignored', reason: 'PR merged, repo not configured' });
+      return;
+    }
+    const mrId = toMrId(mergeResult.projectPath, mergeResult.mergeRequestNumber);
+    deps.transitionState.execute({ projectPath: repoConfig.localPath, mrId, targetState: 'merged' });
+    await removeWorktreeQuietly(deps, logger, repoConfig, mergeResult, 'merge');
+
+    logger.info({ prNumber: mergeResult.mergeRequestNumber, repo: mergeResult.projectPath }, 'PR merged');
+    reply.status(200).send({ status: 'merged', prNumber: mergeResult.mergeRequestNumber });
+    return;
+  }
+
+  const filterResult = filterBitbucketEvent(event, eventKey);
+  logger.info(
+    {
+      repo: event.repository.full_name,
+      prNumber: event.pullrequest.id,
+      eventKey,
+      shouldProcess: filterResult.shouldProcess,
+      reason: filterResult.reason,
+    },
+    'Bitbucket PR event received'
+  );
+
+  if (filterResult.shouldProcess && !repoConfig) {
+    logger.warn({ projectPath: filterResult.projectPath }, 'Projet non configuré');
+    reply.status(200).send({ status: 'ignored', reason: 'Repository not configured' });
+    return;
+  }
+
+  // 3c. Bitbucket sends no reviewer diff: an update on a PR we already track
+  // is a push, not a new review request.
+  const alreadyTracked = repoConfig
+    ? trackingGateway.getByNumber(repoConfig.localPath, event.pullrequest.id, 'bitbucket') !== null
+    : false;
+
+  if (!filterResult.shouldProcess || alreadyTracked) {
+    const updateResult = filterBitbucketPrUpdate(event, eventKey);
+    if (repoConfig && updateResult.shouldProcess && updateResult.isFollowup) {
+      const handled = await handleFollowupPush(event, updateResult, repoConfig, reply, logger, deps);
+      if (handled) return;
+    }
+
+    reply.status(200).send({
+      status: 'ignored',
+      reason: filterResult.shouldProcess ? 'PR already tracked, no followup needed' : filterResult.reason,
+    });
+    return;
+  }
+
+  if (!repoConfig) return;
+
+  // 4. Track PR assignment
+  const pullRequest = event.pullrequest;
+  const assignedBy = {
+    username: event.actor.nickname ?? event.actor.display_name,
+    displayName: event.actor.display_name,
+  };
+  const author = {
+    username: pullRequest.author.nickname ?? pullRequest.author.display_name,
+    displayName: pullRequest.author.display_name,
+  };
+
+  deps.trackAssignment.execute({
+    projectPath: repoConfig.localPath,
+    mrInfo: {
+      mrNumber: filterResult.mergeRequestNumber,
+      title: pullRequest.title,
+      url: filterResult.mergeRequestUrl,
+      project: filterResult.projectPath,
+      platform: 'bitbucket',
+      sourceBranch: filterResult.sourceBranch,
+      targetBranch: filterResult.targetBranch,
+    },
+    assignedBy,
+  });
+  logger.info({ prNumber: filterResult.mergeRequestNumber, assignedBy: assignedBy.username }, 'PR tracked for review');
+
+  // 5. Create and enqueue job
+  const job: ReviewJob = {
+    id: createJobId('bitbucket', filterResult.projectPath, filterResult.mergeRequestNumber),
+    platform: 'bitbucket',
+    projectPath: filterResult.projectPath,
+    localPath: repoConfig.localPath,
+    mrNumber: filterResult.mergeRequestNumber,
+    skill: repoConfig.skill,
+    mrUrl: filterResult.mergeRequestUrl,
+    sourceBranch: filterResult.sourceBranch,
+    targetBranch: filterResult.targetBranch,
+    jobType: 'review',
+    language: getProjectLanguage(repoConfig.localPath),
+    title: pullRequest.title,
+    description: pullRequest.description,
+    assignedBy,
+    author,
+  };
+
+  if (await rejectOnBudget(job, reply, logger, deps)) return;
+
+  const processor = buildBitbucketReviewProcessor(deps, logger)(job);
+  await submitJob(job, processor, 'webhook-initial', reply, deps);
+}
+
+type BitbucketReviewProcessorDeps = Pick<BitbucketWebhookDependencies,
+  | 'reviewContextGateway'
+  | 'threadFetchGateway'
+  | 'diffMetadataFetchGateway'
+  | 'diffStatsFetchGateway'
+  | 'recordCompletion'
+  | 'syncThreads'
+  | 'claudeInvokerDeps'
+  | 'noteCommentPostGateway'
+  | 'shadowLogGateway'
+  | 'parkReviewPublication'
+>;
+
+/**
+ * Single processor for both review and followup jobs: the two only differ by
+ * agent list, notification wording and how threads are counted.
+ */
+export function buildBitbucketReviewProcessor(
+  deps: BitbucketReviewProcessorDeps,
+  logger: Logger,
+): ProcessorBuilder {
+  return (_job: ReviewJob) => async (j: ReviewJob, signal: AbortSignal): Promise<void> => {
+    const isFollowup = j.jobType === 'followup';
+    const label = isFollowup ? 'Review followup' : 'Review';
+    sendNotification(`${label} démarrée`, `PR #${j.mrNumber} - ${j.projectPath}`, logger);
+
+    const mergeRequestId = toMrId(j.projectPath, j.mrNumber);
+    const contextGateway = deps.reviewContextGateway;
+
+    try {
+      const threads = deps.threadFetchGateway.fetchThreads(j.projectPath, j.mrNumber);
+      let diffMetadata: DiffMetadata | undefined;
+      try {
+        diffMetadata = deps.diffMetadataFetchGateway.fetchDiffMetadata(j.projectPath, j.mrNumber);
+      } catch (error) {
+        logger.warn(
+          { prNumber: j.mrNumber, error: error instanceof Error ? error.message : String(error) },
+          'Failed to fetch diff metadata, inline comments will be skipped'
+        );
+      }
+      const agents = isFollowup
+        ? getFollowupAgents(j.localPath) ?? DEFAULT_FOLLOWUP_AGENTS
+        : getProjectAgentsOrFocusDefaults(j.localPath) ?? DEFAULT_AGENTS;
+      contextGateway.create({
+        localPath: j.localPath,
+        mergeRequestId,
+        platform: 'bitbucket',
+        projectPath: j.projectPath,
+        mergeRequestNumber: j.mrNumber,
+        threads,
+        agents,
+        diffMetadata,
+        publishMode: j.publishMode,
+      });
+      startWatchingReviewContext(j.id, j.localPath, mergeRequestId);
+    } catch (error) {
+      logger.warn(
+        { prNumber: j.mrNumber, error: error instanceof Error ? error.message : String(error) },
+        'Failed to create review context file, continuing without it'
+      );
+    }
+
+    const result = await invokeClaudeReview(j, logger, (progress, progressEvent) => {
+      updateJobProgress(j.id, progress, progressEvent);
+
+      const runningAgent = progress.agents.find(a => a.status === 'running');
+      const completedAgents = progress.agents
+        .filter(a => a.status === 'completed')
+        .map(a => a.name);
+
+      contextGateway.updateProgress(j.localPath, mergeRequestId, {
+        phase: progress.currentPhase,
+        currentStep: runningAgent?.name ?? null,
+        stepsCompleted: completedAgents,
+      });
+    }, signal, deps.claudeInvokerDeps);
+
+    stopWatchingReviewContext(mergeRequestId);
+
+    if (result.cancelled) {
+      sendNotification(`${label} annulée`, `PR #${j.mrNumber} - ${j.projectPath}`, logger);
+      return;
+    }
+
+    if (!result.success) {
+      sendNotification(`${label} échouée`, `PR #${j.mrNumber} - Code ${result.exitCode}`, logger);
+      throw new Error(
+        result.stderr?.trim() || `${label} failed with exit code ${result.exitCode}`
+      );
+    }
+
+    const parsed = resolveReviewStats(
+      parseReviewOutput(result.stdout),
+      contextGateway.read(j.localPath, mergeRequestId),
+    );
+    let threadResolveCount = 0;
+
+    const reviewContext = contextGateway.read(j.localPath, mergeRequestId);
+    if (reviewContext && reviewContext.actions.length > 0) {
+      const shadow = resolveShadowOutput(
+        j,
+        result.reportPath,
+        deps.shadowLogGateway ?? new ShadowLogFileSystemGateway(logger),
+      );
+      threadResolveCount = reviewContext.actions.filter(a => a.type === 'THREAD_RESOLVE').length;
+      const linkedComments = buildCrossRepoComments(result.stdout, j, result.linkedMergeRequests, logger);
+      const heldForApproval = await holdForApproval(deps.parkReviewPublication, shadow, {
+        context: reviewContext,
+        linkedComments,
+        localPath: j.localPath,
+        jobType: isFollowup ? 'followup' : 'review',
+        baseUrl: null,
+        verdict: ReviewContextResultFactory.fromParsedReview(parsed).verdict,
+      });
+      if (!heldForApproval) {
+        const contextActionResult = await executeActionsFromContext(
+          reviewContext,
+          j.localPath,
+          logger,
+          defaultCommandExecutor,
+          null,
+          deps.noteCommentPostGateway,
+          null,
+          shadow,
+        );
+        logger.info({ ...contextActionResult, prNumber: j.mrNumber }, 'Actions executed from context file');
+        await postLinkedComments(linkedComments, j.platform, deps.noteCommentPostGateway, shadow, logger);
+      }
+      contextGateway.setResult(j.localPath, mergeRequestId, ReviewContextResultFactory.fromParsedReview(parsed));
+    }
+
+    if (isFollowup) {
+      deps.syncThreads.execute({ projectPath: j.localPath, mrId: mergeRequestId });
+    }
+
+    let diffStats = null;
+    try {
+      diffStats = deps.diffStatsFetchGateway.fetchDiffStats(j.projectPath, j.mrNumber);
+    } catch {
+      logger.warn({ prNumber: j.mrNumber }, 'Failed to fetch diff stats');
+    }
+
+    deps.recordCompletion.execute({
+      projectPath: j.localPath,
+      mrId: mergeRequestId,
+      reviewData: {
+        type: isFollowup ? 'followup' : 'review',
+        durationMs: result.durationMs,
+        score: parsed.score,
+        blocking: parsed.blocking,
+        warnings: parsed.warnings,
+        suggestions: parsed.suggestions,
+        threadsOpened: isFollowup ? 0 : parsed.blocking,
+        threadsClosed: isFollowup ? threadResolveCount : undefined,
+        diffStats,
+        headSha: result.reviewedHeadSha,
+        findings: parsed.findings,
+      },
+      qualityThreshold: loadProjectConfig(j.localPath)?.qualityThreshold ?? null,
+    });
+
+    logger.info(
+      { prNumber: j.mrNumber, jobType: j.jobType, score: parsed.score, durationMs: result.durationMs },
+      'Review stats recorded'
+    );
+    sendNotification(`${label} terminée`, `PR #${j.mrNumber} - ${j.projectPath}`, logger);
+  };
+}
@@ -4,10 +4,18 @@ import type { GitLabMergeRequestEvent } from '@/modules/platform-integration/ent
 import type { GitLabNoteEvent } from '@/modules/platform-integration/entities/gitlab/gitlabNoteEvent.guard.js';
 import type { GitHubIssueCommentEvent } from '@/modules/platform-integration/entities/github/githubIssueCommentEvent.guard.js';
 import type { GitHubPullRequestReviewEvent } from '@/modules/platform-integration/entities/github/githubPullRequestReviewEvent.guard.js';
+import type { BitbucketPullRequestEvent } from '@/modules/platform-integration/entities/bitbucket/bitbucketPullRequestEvent.guard.js';
+import type { BitbucketCommentEvent } from '@/modules/platform-integration/entities/bitbucket/bitbucketCommentEvent.guard.js';
+import {
+  DEFAULT_TRIGGER_LABEL,
+  DEFAULT_TRIGGER_RULES,
+  type TriggerRules,
+} from '@/modules/platform-integration/entities/triggerRules/triggerRules.schema.js';
+import { isSkippedDraft, matchesTriggerLabel } from '@/modules/platform-integration/services/triggerRuleEngine.js';
 
-export type { GitHubPullRequestEvent, GitLabMergeRequestEvent };
+export type { GitHubPullRequestEvent, GitLabMergeRequestEvent, BitbucketPullRequestEvent };
 
-export const REVIEW_TRIGGER_LABEL = 'needs-review';
+export const REVIEW_TRIGGER_LABEL = DEFAULT_TRIGGER_LABEL;
 
 export type FilterResult =
   | { shouldProcess: false; reason: string }
@@ -20,6 +28,8 @@ export type FilterResult =
       sourceBranch: string;
       targetBranch: string;
       isFollowup?: boolean;
+      /** New head of an update that pushed commits. */
+      headSha?: string;
     };
 
 export type NoteFilterResult =
@@ -119,7 +129,10 @@ export interface GitLabPushEvent {
  * Filter GitLab MR events
  * Returns true if we should trigger a review
  */
-export function filterGitLabEvent(event: GitLabMergeRequestEvent): FilterResult {
+export function filterGitLabEvent(
+  event: GitLabMergeRequestEvent,
+  rules: TriggerRules = DEFAULT_TRIGGER_RULES,
+): FilterResult {
   const config = loadConfig();
   const myUsername = config.user.gitlabUsername;
 
@@ -136,7 +149,7 @@ export function filterGitLabEvent(event: GitLabMergeRequestEvent): FilterResult
   }
 
   // Skip draft MRs
-  if (mr.draft) {
+  if (isSkippedDraft(rules, mr.draft)) {
     return { shouldProcess: false, reason: 'MR is a draft' };
   }
 
@@ -184,11 +197,57 @@ function checkGitLabReviewerAdded(
   return false;
 }
 
+/**
+ * Filter GitLab MR label events
+ * Returns true if one of the project's trigger labels was added in this event
+ */
+export function filterGitLabLabelEvent(
+  event: GitLabMergeRequestEvent,
+  rules: TriggerRules = DEFAULT_TRIGGER_RULES,
+): FilterResult {
+  const mr = event.object_attributes;
+
+  if (mr.state !== 'opened') {
+    return { shouldProcess: false, reason: `MR state is ${mr.state}, not opened` };
+  }
+
+  if (isSkippedDraft(rules, mr.draft)) {
+    return { shouldProcess: false, reason: 'MR is a draft' };
+  }
+
+  // Like reviewers, only a label ADDED by this event triggers (changes.labels diff)
+  const labelChanges = event.changes?.labels;
+  const previous = new Set(labelChanges?.previous.map((label) => label.title) ?? []);
+  const addedLabel = labelChanges?.current
+    .map((label) => label.title)
+    .find((title) => !previous.has(title) && matchesTriggerLabel(rules, title));
+
+  if (addedLabel === undefined) {
+    return {
+      shouldProcess: false,
+      reason: `No label among ${describeTriggerLabels(rules.labels)} was added in this event`,
+    };
+  }
+
+  return {
+    shouldProcess: true,
+    reason: `Label "${addedLabel}" was added`,
+    mergeRequestNumber: mr.iid,
+    projectPath: event.project.path_with_namespace,
+    mergeRequestUrl: mr.url,
+    sourceBranch: mr.source_branch,
+    targetBranch: mr.target_branch,
+  };
+}
+
 /**
  * Check if a GitLab MR event is an update that might need a followup review
  * This is called for MRs that are not initial review requests but may have new commits
  */
-export function filterGitLabMrUpdate(event: GitLabMergeRequestEvent): FilterResult {
+export function filterGitLabMrUpdate(
+  event: GitLabMergeRequestEvent,
+  rules: TriggerRules = DEFAULT_TRIGGER_RULES,
+): FilterResult {
   const mr = event.object_attributes;
 
   // MR must be open
@@ -197,7 +256,7 @@ export function filterGitLabMrUpdate(event: GitLabMergeRequestEvent): FilterResu
   }
 
   // Skip draft MRs
-  if (mr.draft) {
+  if (isSkippedDraft(rules, mr.draft)) {
     return { shouldProcess: false, reason: 'MR is a draft' };
   }
 
@@ -215,6 +274,7 @@ export function filterGitLabMrUpdate(event: GitLabMergeRequestEvent): FilterResu
     sourceBranch: mr.source_branch,
     targetBranch: mr.target_branch,
     isFollowup: true,
+    ...(mr.oldrev !== undefined && mr.last_commit ? { headSha: mr.last_commit.id } : {}),
   };
 }
 
@@ -299,10 +359,13 @@ export function filterGitLabMrApprove(event: GitLabMergeRequestEvent): FilterRes
 /**
  * Filter GitHub PR events
  * Returns true if we should trigger a review
+ * Gitea/Forgejo events are normalised to the GitHub shape and pass their own username.
  */
-export function filterGitHubEvent(event: GitHubPullRequestEvent): FilterResult {
-  const config = loadConfig();
-  const myUsername = config.user.githubUsername;
+export function filterGitHubEvent(
+  event: GitHubPullRequestEvent,
+  myUsername: string = loadConfig().user.githubUsername,
+  rules: TriggerRules = DEFAULT_TRIGGER_RULES,
+): FilterResult {
 
   // Check event action
   // "review_requested" is sent when someone is requested for review
@@ -318,7 +381,7 @@ export function filterGitHubEvent(event: GitHubPullRequestEvent): FilterResult {
   }
 
   // Skip draft PRs
-  if (pr.draft) {
+  if (isSkippedDraft(rules, pr.draft)) {
     return { shouldProcess: false, reason: 'PR is a draft' };
   }
 
@@ -374,7 +437,10 @@ export function filterGitHubPrClose(event: GitHubPullRequestEvent): FilterResult
  * Check if a GitHub PR was updated by a push (synchronize) that might need a followup review
  * Mirrors filterGitLabMrUpdate for parity between platforms
  */
-export function filterGitHubPrUpdate(event: GitHubPullRequestEvent): FilterResult {
+export function filterGitHubPrUpdate(
+  event: GitHubPullRequestEvent,
+  rules: TriggerRules = DEFAULT_TRIGGER_RULES,
+): FilterResult {
   if (event.action !== 'synchronize') {
     return { shouldProcess: false, reason: `Action is ${event.action}, not synchronize` };
   }
@@ -385,7 +451,7 @@ export function filterGitHubPrUpdate(event: GitHubPullRequestEvent): FilterResul
     return { shouldProcess: false, reason: `PR state is ${pr.state}, not open` };
   }
 
-  if (pr.draft) {
+  if (isSkippedDraft(rules, pr.draft)) {
     return { shouldProcess: false, reason: 'PR is a draft' };
   }
 
@@ -398,14 +464,26 @@ export function filterGitHubPrUpdate(event: GitHubPullRequestEvent): FilterResul
     sourceBranch: pr.head.ref,
     targetBranch: pr.base.ref,
     isFollowup: true,
+    ...(pr.head.sha ? { headSha: pr.head.sha } : {}),
   };
 }
 
+function describeTriggerLabels(labels: readonly string[]): string {
+  const quoted = labels.map((label) => `"${label}"`);
+  if (quoted.length === 0) {
+    return 'a trigger label (none configured)';
+  }
+  return quoted.length === 1 ? quoted[0] : `one of ${quoted.join(', ')}`;
+}
+
 /**
  * Filter GitHub PR label events
- * Returns true if the "needs-review" label was added
+ * Returns true if one of the project's trigger labels ("needs-review" by default) was added
  */
-export function filterGitHubLabelEvent(event: GitHubPullRequestEvent): FilterResult {
+export function filterGitHubLabelEvent(
+  event: GitHubPullRequestEvent,
+  rules: TriggerRules = DEFAULT_TRIGGER_RULES,
+): FilterResult {
   // Check event action
   if (event.action !== 'labeled') {
     return { shouldProcess: false, reason: `Action is ${event.action}, not labeled` };
@@ -419,21 +497,24 @@ export function filterGitHubLabelEvent(event: GitHubPullRequestEvent): FilterRes
   }
 
   // Skip draft PRs
-  if (pr.draft) {
+  if (isSkippedDraft(rules, pr.draft)) {
     return { shouldProcess: false, reason: 'PR is a draft' };
   }
 
-  // Check if the added label is our trigger label
-  if (event.label?.name !== REVIEW_TRIGGER_LABEL) {
+  // Check if the added label is one of our trigger labels. Gitea does not say
+  // which label changed: a trigger label among the current ones is taken instead.
+  const label = event.label?.name
+    ?? pr.labels?.map((prLabel) => prLabel.name).find((name) => matchesTriggerLabel(rules, name));
+  if (!matchesTriggerLabel(rules, label)) {
     return {
       shouldProcess: false,
-      reason: `Label "${event.label?.name}" is not "${REVIEW_TRIGGER_LABEL}"`,
+      reason: `Label "${label}" is not ${describeTriggerLabels(rules.labels)}`,
     };
   }
 
   return {
     shouldProcess: true,
-    reason: `Label "${REVIEW_TRIGGER_LABEL}" was added`,
+    reason: `Label "${label}" was added`,
     mergeRequestNumber: pr.number,
     projectPath: event.repository.full_name,
     mergeRequestUrl: pr.html_url,
@@ -441,3 +522,112 @@ export function filterGitHubLabelEvent(event: GitHubPullRequestEvent): FilterRes
     targetBranch: pr.base.ref,
   };
 }
+
+function toBitbucketFilterResult(
+  event: BitbucketPullRequestEvent,
+  reason: string,
+): Extract<FilterResult, { shouldProcess: true }> {
+  const pr = event.pullrequest;
+  return {
+    shouldProcess: true,
+    reason,
+    mergeRequestNumber: pr.id,
+    projectPath: event.repository.full_name,
+    mergeRequestUrl: pr.links.html.href,
+    sourceBranch: pr.source.branch.name,
+    targetBranch: pr.destination.branch.name,
+  };
+}
+
+/**
+ * Filter Bitbucket Cloud PR events
+ * Bitbucket does not send a reviewer diff, so any created/updated event
+ * listing us as reviewer qualifies; the controller routes already tracked
+ * PRs to the followup path instead.
+ */
+export function filterBitbucketEvent(event: BitbucketPullRequestEvent, eventKey: string): FilterResult {
+  const config = loadConfig();
+  const myUsername = config.user.bitbucketUsername;
+
+  if (eventKey !== 'pullrequest:created' && eventKey !== 'pullrequest:updated') {
+    return { shouldProcess: false, reason: `Event is ${eventKey}, not pullrequest:created or pullrequest:updated` };
+  }
+
+  const pr = event.pullrequest;
+
+  if (pr.state !== 'OPEN') {
+    return { shouldProcess: false, reason: `PR state is ${pr.state}, not OPEN` };
+  }
+
+  if (pr.draft) {
+    return { shouldProcess: false, reason: 'PR is a draft' };
+  }
+
+  const isReviewer = pr.reviewers?.some(reviewer => reviewer.nickname === myUsername) ?? false;
+  if (!myUsername || !isReviewer) {
+    return { shouldProcess: false, reason: `${myUsername} is not a reviewer of this PR` };
+  }
+
+  return toBitbucketFilterResult(event, `${myUsername} is a reviewer`);
+}
+
+/**
+ * Check if a Bitbucket PR was updated (potential new commits)
+ * Mirrors filterGitLabMrUpdate for parity between platforms
+ */
+export function filterBitbucketPrUpdate(event: BitbucketPullRequestEvent, eventKey: string): FilterResult {
+  if (eventKey !== 'pullrequest:updated') {
+    return { shouldProcess: false, reason: `Event is ${eventKey}, not pullrequest:updated` };
+  }
+
+  const pr = event.pullrequest;
+
+  if (pr.state !== 'OPEN') {
+    return { shouldProcess: false, reason: `PR state is ${pr.state}, not OPEN` };
+  }
+
+  if (pr.draft) {
+    return { shouldProcess: false, reason: 'PR is a draft' };
+  }
+
+  return { ...toBitbucketFilterResult(event, 'PR was updated (potential new commits)'), isFollowup: true };
+}
+
+/**
+ * Check if a Bitbucket PR was declined
+ * Returns info to clean up tracking
+ */
+export function filterBitbucketPrClose(event: BitbucketPullRequestEvent, eventKey: string): FilterResult {
+  if (eventKey !== 'pullrequest:rejected') {
+    return { shouldProcess: false, reason: `Event is ${eventKey}, not pullrequest:rejected` };
+  }
+
+  return toBitbucketFilterResult(event, 'PR was declined');
+}
+
+/**
+ * Check if a Bitbucket PR was merged
+ * Returns info to update tracking status
+ */
+export function filterBitbucketPrMerge(event: BitbucketPullRequestEvent, eventKey: string): FilterResult {
+  if (eventKey !== 'pullrequest:fulfilled') {
+    return { shouldProcess: false, reason: `Event is ${eventKey}, not pullrequest:fulfilled` };
+  }
+
+  return toBitbucketFilterResult(event, 'PR was merged');
+}
+
+export function filterBitbucketCommentEvent(event: BitbucketCommentEvent, eventKey: string): NoteFilterResult {
+  if (eventKey !== 'pullrequest:comment_created') {
+    return { shouldProcess: false, reason: `Event is ${eventKey}, not pullrequest:comment_created` };
+  }
+
+  return {
+    shouldProcess: true,
+    reason: 'Comment posted on a pull request',
+    mergeRequestNumber: event.pullrequest.id,
+    projectPath: event.repository.full_name,
+    commentBody: event.comment.content.raw,
+    authorUsername: event.comment.user.nickname ?? event.comment.user.display_name,
+  };
+}
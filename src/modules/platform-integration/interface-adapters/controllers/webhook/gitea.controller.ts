@@ -0,0 +1,84 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import type { Logger } from 'pino';
+import { verifyGiteaSignature, getGiteaEventType } from '@/security/verifier.js';
+import { giteaPullRequestEventGuard } from '@/modules/platform-integration/entities/gitea/giteaPullRequestEvent.guard.js';
+import { giteaIssueCommentEventGuard } from '@/modules/platform-integration/entities/gitea/giteaIssueCommentEvent.guard.js';
+import { GiteaPullRequestAdapter } from '@/modules/platform-integration/interface-adapters/adapters/giteaPullRequest.adapter.js';
+import {
+  handlePullRequestCommentEvent,
+  handlePullRequestEvent,
+  type PullRequestForge,
+  type PullRequestForgeDependencies,
+} from '@/modules/platform-integration/interface-adapters/controllers/webhook/github.controller.js';
+import { loadConfig } from '@/config/loader.js';
+import type { ReviewRequestTrackingGateway } from '@/modules/tracking/interface-adapters/gateways/reviewRequestTracking.gateway.js';
+
+export type GiteaWebhookDependencies = PullRequestForgeDependencies;
+
+export const GITEA_FORGE: PullRequestForge = {
+  platform: 'gitea',
+  label: 'Gitea',
+  reviewerUsername: () => loadConfig().user.giteaUsername ?? '',
+};
+
+const adapter = new GiteaPullRequestAdapter();
+
+/**
+ * Gitea and Forgejo webhooks. Payloads are validated against their own guards,
+ * normalised to the GitHub shape, then handed to the shared pull request flow
+ * of the GitHub controller. Approval events are not handled: Gitea reports
+ * them as separate event types with no quality-gate counterpart yet.
+ */
+export async function handleGiteaWebhook(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  logger: Logger,
+  trackingGateway: ReviewRequestTrackingGateway,
+  deps: GiteaWebhookDependencies
+): Promise<void> {
+  // 1. Verify signature
+  const verification = verifyGiteaSignature(request);
+  if (!verification.valid) {
+    logger.warn({ error: verification.error }, 'Gitea signature verification failed');
+    reply.status(401).send({ error: verification.error });
+    return;
+  }
+
+  // 2. Check event type
+  const eventType = getGiteaEventType(request);
+
+  if (eventType === 'issue_comment') {
+    const commentResult = giteaIssueCommentEventGuard.safeParse(request.body);
+    const commentEvent = commentResult.success ? adapter.toGitHubIssueCommentEvent(commentResult.data) : null;
+    if (!commentEvent) {
+      logger.debug({ errors: commentResult.error }, 'Invalid or non-PR Gitea issue_comment payload (ignored)');
+      reply.status(200).send({ status: 'ignored', reason: 'Comment payload not parseable' });
+      return;
+    }
+    await handlePullRequestCommentEvent(commentEvent, reply, logger, deps, GITEA_FORGE);
+    return;
+  }
+
+  if (eventType !== 'pull_request') {
+    logger.debug({ eventType }, 'Ignoring non-PR event');
+    reply.status(200).send({ status: 'ignored', reason: 'Not a PR event' });
+    return;
+  }
+
+  // 3. Parse and validate event payload
+  const parseResult = giteaPullRequestEventGuard.safeParse(request.body);
+  if (!parseResult.success) {
+    logger.warn({ errors: parseResult.error }, 'Invalid Gitea webhook payload');
+    reply.status(400).send({ error: 'Invalid webhook payload' });
+    return;
+  }
+
+  await handlePullRequestEvent(
+    adapter.toGitHubPullRequestEvent(parseResult.data),
+    reply,
+    logger,
+    trackingGateway,
+    deps,
+    GITEA_FORGE,
+  );
+}
@@ -1,9 +1,9 @@
 import type { FastifyRequest, FastifyReply } from 'fastify';
 import type { Logger } from 'pino';
 import { verifyGitHubSignature, getGitHubEventType } from '@/security/verifier.js';
-import { filterGitHubEvent, filterGitHubLabelEvent, filterGitHubPrClose, filterGitHubPrUpdate, filterGitHubIssueCommentEvent, filterGitHubPullRequestReviewEvent } from '@/modules/platform-integration/interface-adapters/controllers/webhook/eventFilter.js';
-import { gitHubPullRequestEventGuard } from '@/modules/platform-integration/entities/github/githubPullRequestEvent.guard.js';
-import { gitHubIssueCommentEventGuard } from '@/modules/platform-integration/entities/github/githubIssueCommentEvent.guard.js';
+import { filterGitHubEvent, filterGitHubLabelEvent, filterGitHubPrClose, filterGitHubPrUpdate, filterGitHubIssueCommentEvent, filterGitHubPullRequestReviewEvent, type FilterResult, type NoteFilterResult } from '@/modules/platform-integration/interface-adapters/controllers/webhook/eventFilter.js';
+import { gitHubPullRequestEventGuard, type GitHubPullRequest, type GitHubPullRequestEvent } from '@/modules/platform-integration/entities/github/githubPullRequestEvent.guard.js';
+import { gitHubIssueCommentEventGuard, type GitHubIssueCommentEvent } from '@/modules/platform-integration/entities/github/githubIssueCommentEvent.guard.js';
 import { gitHubPullRequestReviewEventGuard } from '@/modules/platform-integration/entities/github/githubPullRequestReviewEvent.guard.js';
 import { findRepositoryByRemoteUrl, type RepositoryConfig } from '@/config/loader.js';
 import {
@@ -11,6 +11,11 @@ import {
   createJobId,
   updateJobProgress,
   cancelJob,
+  getJobStatus,
+  startDeferredJob,
+  getRunningJob,
+  supersedeJob,
+  whenJobSettled,
   type ReviewJob,
 } from '@/frameworks/queue/pQueueAdapter.js';
 import type { ReviewRequestTrackingGateway } from '@/modules/tracking/interface-adapters/gateways/reviewRequestTracking.gateway.js';
@@ -20,19 +25,42 @@ import type { RecordPushUseCase } from '@/modules/tracking/usecases/tracking/rec
 import type { TransitionStateUseCase } from '@/modules/tracking/usecases/tracking/transitionState.usecase.js';
 import type { CheckFollowupNeededUseCase } from '@/modules/tracking/usecases/tracking/checkFollowupNeeded.usecase.js';
 import type { SyncThreadsUseCase } from '@/modules/tracking/usecases/tracking/syncThreads.usecase.js';
+import type { ProcessorBuilder } from '@/modules/review-execution/services/processorRegistry.js';
 import type { RecordBypassUseCase } from '@/modules/tracking/usecases/tracking/recordBypass.usecase.js';
+import type { RecordReviewPreferenceUseCase } from '@/modules/tracking/usecases/tracking/recordReviewPreference.usecase.js';
+import type { RecordSupersessionUseCase } from '@/modules/tracking/usecases/tracking/recordSupersession.usecase.js';
+import { supersedeStaleReviews } from '@/modules/platform-integration/services/supersedeOnPush.js';
 import type { HandlePlatformApprovalUseCase } from '@/modules/tracking/usecases/tracking/handlePlatformApproval.usecase.js';
 import type { NoteCommentPostGateway } from '@/modules/platform-integration/entities/noteComment/noteCommentPost.gateway.js';
+import type { PullRequestReviewGateway } from '@/modules/platform-integration/entities/pullRequestReview/pullRequestReview.gateway.js';
 import type { ApprovalRevocationGateway } from '@/modules/platform-integration/entities/approvalRevocation/approvalRevocation.gateway.js';
 import { evaluateQualityGate } from '@/modules/tracking/entities/qualityGate/qualityGate.js';
 import { parseReviewOutput } from '@/modules/statistics-insights/services/statsService.js';
+import { resolveReviewStats } from '@/modules/review-execution/entities/reviewFinding/reviewFinding.js';
 import { ReviewContextResultFactory } from '@/modules/review-execution/entities/reviewContext/reviewContextResult.factory.js';
 import { parseThreadActions } from '@/modules/review-execution/services/threadActionsParser.js';
 import { executeThreadActions, defaultCommandExecutor } from '@/modules/review-execution/services/threadActionsExecutor.js';
+import { dispatchConstrainedActions } from '@/modules/review-execution/services/dispatchConstrainedActions.js';
+import { type Provenance, resolveProvenance } from '@/modules/review-execution/entities/actionProvenance/actionProvenance.js';
+import type { ThreadInventoryGateway } from '@/modules/review-execution/entities/threadInventory/threadInventory.gateway.js';
+import type { ReviewAction } from '@/modules/review-execution/entities/reviewAction/reviewAction.js';
+import { GitHubThreadInventoryGateway } from '@/modules/review-execution/interface-adapters/gateways/threadInventory.github.gateway.js';
+import { defaultGitHubExecutor } from '@/modules/platform-integration/interface-adapters/gateways/threadFetch.github.gateway.js';
 import { executeActionsFromContext } from '@/modules/review-execution/services/contextActionsExecutor.js';
+import type { ShadowOutput } from '@/modules/review-execution/services/publicOutputExecutor.js';
+import { holdForApproval, resolveShadowOutput, withoutHeldComments } from '@/modules/review-execution/services/publishModeResolver.js';
+import { buildCrossRepoComments, postLinkedComments } from '@/modules/review-execution/services/crossRepoPublisher.js';
+import type {
+  ParkReviewPublicationInput,
+  ParkReviewPublicationUseCase,
+} from '@/modules/review-execution/usecases/parkReviewPublication.usecase.js';
+import type { ShadowLogGateway } from '@/modules/review-execution/entities/shadowLog/shadowLog.gateway.js';
+import { ShadowLogFileSystemGateway } from '@/modules/review-execution/interface-adapters/gateways/fileSystem/shadowLog.fileSystem.gateway.js';
+import { extractBaseUrl } from '@/modules/platform-integration/interface-adapters/controllers/webhook/gitlab.controller.js';
 import { invokeClaudeReview, sendNotification } from '@/claude/invoker.js';
 import type { ClaudeInvokerDependencies } from '@/frameworks/claude/claudeInvoker.js';
 import type { GateClaudeInvocationUseCase } from '@/modules/review-execution/usecases/gateClaudeInvocation.usecase.js';
+import type { IsTrustedActorUseCase } from '@/modules/platform-integration/usecases/isTrustedActor.usecase.js';
 import { startWatchingReviewContext, stopWatchingReviewContext } from '@/main/websocket.js';
 import { loadProjectConfig, getProjectAgentsOrFocusDefaults, getFollowupAgents, getProjectLanguage } from '@/config/projectConfig.js';
 import { DEFAULT_AGENTS, DEFAULT_FOLLOWUP_AGENTS } from '@/modules/review-execution/entities/progress/agentDefinition.type.js';
@@ -40,6 +68,28 @@ import type { ReviewContextGateway } from '@/modules/review-execution/entities/r
 import type { ThreadFetchGateway } from '@/modules/platform-integration/entities/threadFetch/threadFetch.gateway.js';
 import type { DiffMetadataFetchGateway } from '@/modules/platform-integration/entities/diffMetadata/diffMetadata.gateway.js';
 import type { DiffStatsFetchGateway } from '@/modules/shared-kernel/entities/diffStats/diffStatsFetch.gateway.js';
+import type { ChangedFilesFetchGateway } from '@/modules/platform-integration/entities/changedFiles/changedFilesFetch.gateway.js';
+import { selectReviewAgents } from '@/modules/review-execution/services/reviewAgentSelection.js';
+import type { PullRequestFetchGateway } from '@/modules/platform-integration/entities/pullRequestFetch/pullRequestFetch.gateway.js';
+import type { TriggerRules } from '@/modules/platform-integration/entities/triggerRules/triggerRules.schema.js';
+import {
+  evaluateTriggerRules,
+  findTriggerCommand,
+  lazyChangedFiles,
+  loadTriggerRules,
+  type TriggerDecision,
+} from '@/modules/platform-integration/services/triggerRuleEngine.js';
+import {
+  parseReviewflowCommand,
+  type ReviewflowCommandResult,
+} from '@/modules/platform-integration/entities/reviewflowCommand/reviewflowCommand.js';
+import {
+  cancelReviewflowJobs,
+  describeQueuedReviewflowCommand,
+  recordReviewflowPreference,
+  startDeferredReviewflowJobs,
+  type ReviewflowCommandTarget,
+} from '@/modules/platform-integration/services/reviewflowCommandRouter.js';
 import type { EnforceBudgetUseCase } from '@/modules/token-accounting/usecases/enforceBudget/enforceBudget.usecase.js';
 import type { BudgetExceededPayload } from '@/main/websocket.js';
 import type { RemoveResult, WorktreeIdentity } from '@/modules/worktree-management/entities/worktree/worktree.schema.js';
@@ -49,7 +99,11 @@ export type RemoveWorktreeAction = (input: {
   sourceCheckoutPath: string;
 }) => Promise<RemoveResult>;
 
-export interface GitHubWebhookDependencies {
+/**
+ * Dependencies shared by every forge whose pull_request flow runs through
+ * this controller (GitHub, and Gitea/Forgejo once their payloads are normalised).
+ */
+export interface PullRequestForgeDependencies {
   reviewContextGateway: ReviewContextGateway;
   threadFetchGateway: ThreadFetchGateway;
   diffMetadataFetchGateway: DiffMetadataFetchGateway;
@@ -65,13 +119,138 @@ export interface GitHubWebhookDependencies {
   getRepositories: () => RepositoryConfig[];
   claudeInvokerDeps?: ClaudeInvokerDependencies;
   gateClaudeInvocation?: GateClaudeInvocationUseCase;
+  isTrustedActor?: IsTrustedActorUseCase;
   removeWorktree: RemoveWorktreeAction;
   recordBypass: RecordBypassUseCase;
+  /** Enables `/reviewflow focus` and `/reviewflow model`. */
+  recordReviewPreference?: RecordReviewPreferenceUseCase;
+  /** Records in tracking history the reviews superseded by a push. */
+  recordSupersession?: RecordSupersessionUseCase;
   noteCommentPostGateway: NoteCommentPostGateway;
+  /** Where shadow reviews record their actions, `.claude/reviews/shadow/` by default. */
+  shadowLogGateway?: ShadowLogGateway;
+  /** Holds finished reviews for approval when their project sets `reviewBeforePublish`. */
+  parkReviewPublication?: ParkReviewPublicationUseCase;
+  /** When set, a review's summary and inline comments are published as one pull request review. */
+  pullRequestReviewGateway?: PullRequestReviewGateway;
+  /** Only needed when a project restricts triggers to `paths`. */
+  changedFilesFetchGateway?: ChangedFilesFetchGateway;
+  /** Enables `triggers.commands` and `/reviewflow` comments, whose payload lacks the pull request state. */
+  pullRequestFetchGateway?: PullRequestFetchGateway;
+  now: () => string;
+}
+
+export interface GitHubWebhookDependencies extends PullRequestForgeDependencies {
   handlePlatformApproval: HandlePlatformApprovalUseCase;
   approvalRevocationGateway: ApprovalRevocationGateway;
   getQualityThreshold: (projectPath: string) => number | null;
-  now: () => string;
+}
+
+export interface PullRequestForge {
+  platform: 'github' | 'gitea';
+  label: string;
+  /** Overrides the reviewer username the review_requested filter matches against. */
+  reviewerUsername?: () => string;
+  /**
+   * Authenticated thread inventory. When present, stdout thread actions go through
+   * the constrained dispatch instead of being executed as parsed.
+   */
+  threadInventoryGateway?: () => ThreadInventoryGateway;
+}
+
+export const GITHUB_FORGE: PullRequestForge = {
+  platform: 'github',
+  label: 'GitHub',
+  threadInventoryGateway: () => new GitHubThreadInventoryGateway(defaultGitHubExecutor),
+};
+
+function evaluatePullRequestTriggerRules(
+  rules: TriggerRules,
+  pullRequest: GitHubPullRequest,
+  projectPath: string,
+  logger: Logger,
+  deps: PullRequestForgeDependencies,
+): TriggerDecision {
+  return evaluateTriggerRules(rules, {
+    targetBranch: pullRequest.base.ref,
+    author: pullRequest.user?.login,
+    draft: pullRequest.draft,
+    changedFiles: lazyChangedFiles(deps.changedFilesFetchGateway, projectPath, pullRequest.number, logger),
+  });
+}
+
+async function executeStdoutThreadActions(
+  threadActions: ReturnType<typeof parseThreadActions>,
+  job: ReviewJob,
+  logger: Logger,
+  deps: PullRequestForgeDependencies,
+  forge: PullRequestForge,
+  shadow: ShadowOutput | null,
+  approval: Pick<ParkReviewPublicationInput, 'jobType' | 'verdict'>,
+) {
+  const context = {
+    platform: forge.platform,
+    projectPath: job.projectPath,
+    mrNumber: job.mrNumber,
+    localPath: job.localPath,
+  };
+
+  const holdComments = (comments: ReviewAction[]) =>
+    holdForApproval(deps.parkReviewPublication, shadow, {
+      context: {
+        mergeRequestId: `${forge.platform}-${job.projectPath}-${job.mrNumber}`,
+        platform: forge.platform,
+        projectPath: job.projectPath,
+        mergeRequestNumber: job.mrNumber,
+        actions: comments,
+      },
+      localPath: job.localPath,
+      baseUrl: extractBaseUrl(job.mrUrl),
+      ...approval,
+    });
+
+  if (!forge.threadInventoryGateway) {
+    const unheld = await withoutHeldComments(threadActions, holdComments);
+    return executeThreadActions(unheld, context, logger, defaultCommandExecutor, deps.noteCommentPostGateway, {
+      shadow,
+    });
+  }
+
+  return dispatchConstrainedActions(threadActions, {
+    context,
+    provenance: await resolveJobProvenance(deps, job),
+    inventoryGateway: forge.threadInventoryGateway(),
+    logger,
+    executor: defaultCommandExecutor,
+    postGateway: deps.noteCommentPostGateway,
+    shadow,
+    holdForApproval: holdComments,
+  });
+}
+
+/**
+ * Trigger-actor provenance gate (SPEC-197), same contract as the GitLab
+ * controller: a no-op when no resolver is wired, fail-closed otherwise.
+ */
+async function resolveActorTrust(
+  deps: PullRequestForgeDependencies,
+  projectPath: string,
+  username: string,
+): Promise<boolean> {
+  if (!deps.isTrustedActor) {
+    return true;
+  }
+  return deps.isTrustedActor.execute({ username, projectPath });
+}
+
+/**
+ * Provenance of the thread actions a job's session printed, same contract as the
+ * GitLab controller: trusted only when the job's trigger actor passes the gate.
+ */
+async function resolveJobProvenance(deps: PullRequestForgeDependencies, job: ReviewJob): Promise<Provenance> {
+  const actorTrusted = job.triggeredBy !== undefined
+    && await resolveActorTrust(deps, job.projectPath, job.triggeredBy);
+  return resolveProvenance(actorTrusted ? 'trusted' : null);
 }
 
 function listEnabledLocalPaths(getRepositories: () => RepositoryConfig[]): string[] {
@@ -91,6 +270,10 @@ function computeSourceForkCloneUrl(pullRequest: {
   return headRepo.clone_url;
 }
 
+function pullRequestLabels(pullRequest: { labels?: { name: string }[] }): string[] | undefined {
+  return pullRequest.labels?.map((label) => label.name);
+}
+
 function shortDismissalLabel(reason: 'below-threshold' | 'blockers-present'): string {
   if (reason === 'below-threshold') return 'Seuil qualité non atteint';
   return 'Issues bloquantes non résolues';
@@ -226,20 +409,81 @@ async function handleGitHubIssueCommentHook(
     return;
   }
 
-  const filterResult = filterGitHubIssueCommentEvent(parseResult.data);
+  await handlePullRequestCommentEvent(parseResult.data, reply, logger, deps, GITHUB_FORGE);
+}
+
+export async function handlePullRequestCommentEvent(
+  event: GitHubIssueCommentEvent,
+  reply: FastifyReply,
+  logger: Logger,
+  deps: PullRequestForgeDependencies,
+  forge: PullRequestForge,
+): Promise<void> {
+  const filterResult = filterGitHubIssueCommentEvent(event);
   if (!filterResult.shouldProcess) {
     reply.status(200).send({ status: 'ignored', reason: filterResult.reason });
     return;
   }
 
-  const repoConfig = findRepositoryByRemoteUrl(parseResult.data.repository.clone_url);
+  // SPEC-197 AC3: a non-trusted commenter never reaches the bypass-processing path.
+  const commentActorTrusted = await resolveActorTrust(
+    deps,
+    filterResult.projectPath,
+    filterResult.authorUsername,
+  );
+  if (!commentActorTrusted) {
+    logger.info(
+      { projectPath: filterResult.projectPath, actor: filterResult.authorUsername },
+      'Comment trigger from non-trusted actor parked (provenance gate)',
+    );
+    reply.status(202).send({ status: 'pending-confirmation', reason: 'untrusted-actor' });
+    return;
+  }
+
+  const repoConfig = findRepositoryByRemoteUrl(event.repository.clone_url);
   if (!repoConfig) {
     logger.debug({ projectPath: filterResult.projectPath }, 'Comment for unconfigured repository (ignored)');
     reply.status(200).send({ status: 'ignored', reason: 'Repository not configured' });
     return;
   }
 
-  const mrId = `github-${filterResult.projectPath}-${filterResult.mergeRequestNumber}`;
+  const triggerRules = loadTriggerRules(repoConfig.localPath);
+  const reviewflowCommand = parseReviewflowCommand(filterResult.commentBody);
+  if (reviewflowCommand.kind !== 'no-command') {
+    await handlePullRequestReviewflowCommand(
+      event,
+      filterResult,
+      reviewflowCommand,
+      repoConfig,
+      triggerRules,
+      reply,
+      logger,
+      deps,
+      forge,
+    );
+    return;
+  }
+
+  const triggerCommand = findTriggerCommand(triggerRules, filterResult.commentBody);
+  if (triggerCommand !== null) {
+    const pullRequest = fetchOpenPullRequest(filterResult, reply, logger, deps, forge);
+    if (pullRequest) {
+      await handlePullRequestTriggerCommand(
+        event,
+        filterResult,
+        pullRequest,
+        `Command "${triggerCommand}" was posted`,
+        triggerRules,
+        reply,
+        logger,
+        deps,
+        forge,
+      );
+    }
+    return;
+  }
+
+  const mrId = `${forge.platform}-${filterResult.projectPath}-${filterResult.mergeRequestNumber}`;
   const result = deps.recordBypass.execute({
     projectPath: repoConfig.localPath,
     mrId,
@@ -276,6 +520,184 @@ async function handleGitHubIssueCommentHook(
   reply.status(200).send({ status: 'ignored', reason: 'No bypass marker' });
 }
 
+/**
+ * `/reviewflow` commands, from a commenter the provenance gate already trusts.
+ * Each command is acknowledged with a comment on the pull request.
+ */
+async function handlePullRequestReviewflowCommand(
+  event: GitHubIssueCommentEvent,
+  filterResult: Extract<NoteFilterResult, { shouldProcess: true }>,
+  parsed: Exclude<ReviewflowCommandResult, { kind: 'no-command' }>,
+  repoConfig: RepositoryConfig,
+  triggerRules: TriggerRules,
+  reply: FastifyReply,
+  logger: Logger,
+  deps: PullRequestForgeDependencies,
+  forge: PullRequestForge,
+): Promise<void> {
+  const target: ReviewflowCommandTarget = {
+    platform: forge.platform,
+    projectPath: filterResult.projectPath,
+    localPath: repoConfig.localPath,
+    mrNumber: filterResult.mergeRequestNumber,
+  };
+  const acknowledge = (body: string): Promise<void> =>
+    deps.noteCommentPostGateway.postComment({ projectPath: target.projectPath, mrNumber: target.mrNumber, body });
+
+  if (parsed.kind === 'invalid') {
+    await acknowledge(parsed.message);
+    reply.status(200).send({ status: 'command-rejected', reason: 'Invalid /reviewflow command' });
+    return;
+  }
+
+  const { command } = parsed;
+  const actor = filterResult.authorUsername;
+  logger.info({ prNumber: target.mrNumber, command: command.name, actor }, 'Reviewflow command received');
+
+  if (command.name === 'cancel' || command.name === 'now' || command.name === 'focus' || command.name === 'model') {
+    const outcome =
+      command.name === 'cancel'
+        ? cancelReviewflowJobs(target, actor, { queuePort: { createJobId, getJobStatus, cancelJob }, logger })
+        : command.name === 'now'
+          ? startDeferredReviewflowJobs(target, actor, { queuePort: { createJobId, getJobStatus, startDeferredJob }, logger })
+          : recordReviewflowPreference(command, target, actor, deps);
+    await acknowledge(outcome.acknowledgement);
+    reply.status(200).send({ status: outcome.status, command: command.name });
+    return;
+  }
+
+  const pullRequest = fetchOpenPullRequest(filterResult, reply, logger, deps, forge);
+  if (!pullRequest) {
+    return;
+  }
+
+  await acknowledge(describeQueuedReviewflowCommand(command, actor));
+  const reason = `Command "/reviewflow ${command.name}" was posted`;
+
+  if (command.name === 'review') {
+    await handlePullRequestTriggerCommand(
+      event,
+      filterResult,
+      pullRequest,
+      reason,
+      triggerRules,
+      reply,
+      logger,
+      deps,
+      forge,
+    );
+    return;
+  }
+
+  await submitPullRequestFollowup(
+    {
+      pullRequest,
+      target: pullRequestFilterResult(pullRequest, filterResult.projectPath, reason),
+      repoConfig,
+      actor,
+      explainThreadId: command.name === 'explain' ? command.threadId : undefined,
+    },
+    reply,
+    logger,
+    deps,
+    forge,
+  );
+}
+
+/**
+ * Comment payloads do not carry the pull request state, so commands fetch it.
+ * Replies and returns null when the pull request cannot be fetched or is not open.
+ */
+function fetchOpenPullRequest(
+  filterResult: Extract<NoteFilterResult, { shouldProcess: true }>,
+  reply: FastifyReply,
+  logger: Logger,
+  deps: PullRequestForgeDependencies,
+  forge: PullRequestForge,
+): GitHubPullRequest | null {
+  if (!deps.pullRequestFetchGateway) {
+    reply.status(200).send({ status: 'ignored', reason: `Trigger commands are not supported on ${forge.label}` });
+    return null;
+  }
+
+  let pullRequest: GitHubPullRequest;
+  try {
+    pullRequest = deps.pullRequestFetchGateway.fetchPullRequest(
+      filterResult.projectPath,
+      filterResult.mergeRequestNumber,
+    );
+  } catch (error) {
+    logger.warn(
+      {
+        prNumber: filterResult.mergeRequestNumber,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      'Failed to fetch pull request for trigger command'
+    );
+    reply.status(200).send({ status: 'ignored', reason: 'Pull request could not be fetched' });
+    return null;
+  }
+
+  if (pullRequest.state !== 'open') {
+    reply.status(200).send({ status: 'ignored', reason: `PR state is ${pullRequest.state}, not open` });
+    return null;
+  }
+  return pullRequest;
+}
+
+function pullRequestFilterResult(
+  pullRequest: GitHubPullRequest,
+  projectPath: string,
+  reason: string,
+): Extract<FilterResult, { shouldProcess: true }> {
+  return {
+    shouldProcess: true,
+    reason,
+    mergeRequestNumber: pullRequest.number,
+    projectPath,
+    mergeRequestUrl: pullRequest.html_url,
+    sourceBranch: pullRequest.head.ref,
+    targetBranch: pullRequest.base.ref,
+  };
+}
+
+/**
+ * A `triggers.commands` or `/reviewflow review` comment requests a review like
+ * a review request would; the commenter is the trigger actor.
+ */
+async function handlePullRequestTriggerCommand(
+  event: GitHubIssueCommentEvent,
+  filterResult: Extract<NoteFilterResult, { shouldProcess: true }>,
+  pullRequest: GitHubPullRequest,
+  reason: string,
+  triggerRules: TriggerRules,
+  reply: FastifyReply,
+  logger: Logger,
+  deps: PullRequestForgeDependencies,
+  forge: PullRequestForge,
+): Promise<void> {
+  logger.info(
+    { prNumber: filterResult.mergeRequestNumber, reason, actor: filterResult.authorUsername },
+    'Review requested by trigger command'
+  );
+
+  await submitPullRequestReview(
+    {
+      action: 'commented',
+      number: pullRequest.number,
+      pull_request: pullRequest,
+      repository: event.repository,
+      sender: { login: filterResult.authorUsername },
+    },
+    pullRequestFilterResult(pullRequest, filterResult.projectPath, reason),
+    triggerRules,
+    reply,
+    logger,
+    deps,
+    forge,
+  );
+}
+
 export async function handleGitHubWebhook(
   request: FastifyRequest,
   reply: FastifyReply,
@@ -283,7 +705,6 @@ export async function handleGitHubWebhook(
   trackingGateway: ReviewRequestTrackingGateway,
   deps: GitHubWebhookDependencies
 ): Promise<void> {
-  const { trackAssignment, recordCompletion, recordPush, checkFollowupNeeded, syncThreads } = deps;
   // 1. Verify signature
   const verification = verifyGitHubSignature(request);
   if (!verification.valid) {
@@ -318,20 +739,36 @@ export async function handleGitHubWebhook(
     reply.status(400).send({ error: 'Invalid webhook payload' });
     return;
   }
-  const event = parseResult.data;
+
+  await handlePullRequestEvent(parseResult.data, reply, logger, trackingGateway, deps, GITHUB_FORGE);
+}
+
+/**
+ * Everything after payload validation: close cleanup, review request or label
+ * trigger, push-driven followup, then tracking and job submission.
+ */
+export async function handlePullRequestEvent(
+  event: GitHubPullRequestEvent,
+  reply: FastifyReply,
+  logger: Logger,
+  trackingGateway: ReviewRequestTrackingGateway,
+  deps: PullRequestForgeDependencies,
+  forge: PullRequestForge,
+): Promise<void> {
+  const { recordPush, checkFollowupNeeded } = deps;
 
   // 3a. Check if PR was closed - clean up tracking and cancel any running job
   const closeResult = filterGitHubPrClose(event);
   if (closeResult.shouldProcess) {
     const projectPath = closeResult.projectPath;
     const prNumber = closeResult.mergeRequestNumber;
-    const mrId = `github-${projectPath}-${prNumber}`;
+    const mrId = `${forge.platform}-${projectPath}-${prNumber}`;
 
     // Find repo config
     const repoConfig = findRepositoryByRemoteUrl(event.repository.clone_url);
     if (repoConfig) {
       // Cancel any running job for this PR
-      const jobId = createJobId('github', projectPath, prNumber);
+      const jobId = createJobId(forge.platform, projectPath, prNumber);
       const cancelled = cancelJob(jobId);
 
       // Archive the PR from tracking
@@ -342,7 +779,7 @@ export async function handleGitHubWebhook(
 
       try {
         const worktreeRemoval = await deps.removeWorktree({
-          identity: { platform: 'github', projectPath, mrNumber: prNumber },
+          identity: { platform: forge.platform, projectPath, mrNumber: prNumber },
           sourceCheckoutPath: repoConfig.localPath,
         });
         if (worktreeRemoval.status === 'failed') {
@@ -388,12 +825,13 @@ export async function handleGitHubWebhook(
     return;
   }
 
-  // 3b. Filter for review request OR label trigger
-  let filterResult = filterGitHubEvent(event);
+  // 3b. Filter for review request OR label trigger, under the repository's trigger rules
+  const triggerRules = loadTriggerRules(findRepositoryByRemoteUrl(event.repository.clone_url)?.localPath);
+  let filterResult = filterGitHubEvent(event, forge.reviewerUsername?.(), triggerRules);
 
   // If not a review request, check for label trigger
   if (!filterResult.shouldProcess) {
-    filterResult = filterGitHubLabelEvent(event);
+    filterResult = filterGitHubLabelEvent(event, triggerRules);
   }
 
   logger.info(
@@ -404,11 +842,11 @@ export async function handleGitHubWebhook(
       shouldProcess: filterResult.shouldProcess,
       reason: filterResult.reason,
     },
-    'GitHub PR event received'
+    `${forge.label} PR event received`
   );
 
   if (!filterResult.shouldProcess) {
-    const updateResult = filterGitHubPrUpdate(event);
+    const updateResult = filterGitHubPrUpdate(event, triggerRules);
     logger.debug(
       { updateResult, action: event.action },
       'Checking for followup review'
@@ -420,7 +858,7 @@ export async function handleGitHubWebhook(
         const mr = recordPush.execute({
           projectPath: updateRepoConfig.localPath,
           mrNumber: updateResult.mergeRequestNumber,
-          platform: 'github',
+          platform: forge.platform,
         });
         logger.info(
           {
@@ -433,10 +871,43 @@ export async function handleGitHubWebhook(
           'Push event recorded'
         );
 
+        if (updateResult.headSha && loadProjectConfig(updateRepoConfig.localPath)?.supersedeOnPush) {
+          const superseded = supersedeStaleReviews(
+            {
+              platform: forge.platform,
+              projectPath: updateResult.projectPath,
+              localPath: updateRepoConfig.localPath,
+              mrNumber: updateResult.mergeRequestNumber,
+            },
+            updateResult.headSha,
+            {
+              queuePort: { createJobId, getRunningJob, supersedeJob, whenJobSettled },
+              reviewContextGateway: deps.reviewContextGateway,
+              recordSupersession: deps.recordSupersession,
+              now: deps.now,
+              logger,
+            },
+          );
+          if (superseded.length > 0) {
+            for (const staleJob of superseded) {
+              const freshJob: ReviewJob = { ...staleJob, headSha: updateResult.headSha, resumedFrom: undefined };
+              const buildProcessor =
+                freshJob.jobType === 'followup' ? buildPullRequestFollowupProcessor : buildPullRequestReviewProcessor;
+              await enqueueReview(freshJob, buildProcessor(deps, logger, forge)(freshJob));
+            }
+            reply.status(202).send({
+              status: 'superseded',
+              jobIds: superseded.map((job) => job.id),
+              prNumber: updateResult.mergeRequestNumber,
+            });
+            return;
+          }
+        }
+
         const needsFollowup = mr && checkFollowupNeeded.execute({
           projectPath: updateRepoConfig.localPath,
           mrNumber: updateResult.mergeRequestNumber,
-          platform: 'github',
+          platform: forge.platform,
         });
         logger.info({ needsFollowup, mrState: mr?.state }, 'Followup check result');
 
@@ -450,242 +921,182 @@ export async function handleGitHubWebhook(
             return;
           }
 
+          const followupTriggerDecision = evaluatePullRequestTriggerRules(
+            triggerRules,
+            event.pull_request,
+            updateResult.projectPath,
+            logger,
+            deps,
+          );
+          if (!followupTriggerDecision.allowed) {
+            logger.info(
+              { prNumber: updateResult.mergeRequestNumber, reason: followupTriggerDecision.reason },
+              'Followup skipped by trigger rules'
+            );
+            reply.status(200).send({ status: 'ignored', reason: followupTriggerDecision.reason });
+            return;
+          }
+
           logger.info(
             { prNumber: updateResult.mergeRequestNumber, project: updateResult.projectPath },
             'Auto-triggering followup review after push'
           );
 
-          const projectConfig = loadProjectConfig(updateRepoConfig.localPath);
-          const skill = projectConfig?.reviewFollowupSkill || 'review-followup';
-
-          const followupJobId = createJobId('github-followup', updateResult.projectPath, updateResult.mergeRequestNumber);
-          const followupJob: ReviewJob = {
-            id: followupJobId,
-            platform: 'github',
-            projectPath: updateResult.projectPath,
-            localPath: updateRepoConfig.localPath,
-            mrNumber: updateResult.mergeRequestNumber,
-            skill,
-            mrUrl: updateResult.mergeRequestUrl,
-            sourceBranch: updateResult.sourceBranch,
-            targetBranch: updateResult.targetBranch,
-            jobType: 'followup',
-            sourceForkCloneUrl: computeSourceForkCloneUrl(event.pull_request),
-          };
+          await submitPullRequestFollowup(
+            {
+              pullRequest: event.pull_request,
+              target: updateResult,
+              repoConfig: updateRepoConfig,
+              actor: event.sender.login,
+            },
+            reply,
+            logger,
+            deps,
+            forge,
+          );
+          return;
+        }
+      }
+    }
 
-          const followupBudgetDecision = await deps.enforceBudget.execute({
-            localPaths: listEnabledLocalPaths(deps.getRepositories),
-          });
-          if (!followupBudgetDecision.accepted) {
-            logger.warn(
-              {
-                prNumber: followupJob.mrNumber,
-                limitUsd: followupBudgetDecision.status.limitUsd,
-                consumedUsd: followupBudgetDecision.status.consumedUsd,
-              },
-              'Budget exceeded, followup not enqueued'
-            );
-            deps.broadcastBudgetExceeded({
-              mrNumber: followupJob.mrNumber,
-              platform: 'github',
-              projectPath: followupJob.projectPath,
-              limitUsd: followupBudgetDecision.status.limitUsd,
-              consumedUsd: followupBudgetDecision.status.consumedUsd,
-            });
-            reply.status(200).send({ status: 'rejected', reason: 'budget-exceeded' });
-            return;
-          }
+    reply.status(200).send({ status: 'ignored', reason: filterResult.reason });
+    return;
+  }
 
-          const followupProcessor = async (j: ReviewJob, signal: AbortSignal): Promise<void> => {
-            sendNotification('Review followup démarrée', `PR #${j.mrNumber} - ${j.projectPath}`, logger);
-
-            const mergeRequestId = `github-${j.projectPath}-${j.mrNumber}`;
-            const contextGateway = deps.reviewContextGateway;
-            const threadFetchGw = deps.threadFetchGateway;
-            const diffMetadataFetchGw = deps.diffMetadataFetchGateway;
-
-            try {
-              const threads = threadFetchGw.fetchThreads(j.projectPath, j.mrNumber);
-              let diffMetadata: import('@/modules/review-execution/entities/reviewContext/reviewContext.js').DiffMetadata | undefined;
-              try {
-                diffMetadata = diffMetadataFetchGw.fetchDiffMetadata(j.projectPath, j.mrNumber);
-              } catch (error) {
-                logger.warn(
-                  { prNumber: j.mrNumber, error: error instanceof Error ? error.message : String(error) },
-                  'Failed to fetch diff metadata for followup, inline comments will be skipped'
-                );
-              }
-              const followupAgentsList = getFollowupAgents(j.localPath) ?? DEFAULT_FOLLOWUP_AGENTS;
-              contextGateway.create({
-                localPath: j.localPath,
-                mergeRequestId,
-                platform: 'github',
-                projectPath: j.projectPath,
-                mergeRequestNumber: j.mrNumber,
-                threads,
-                agents: followupAgentsList,
-                diffMetadata,
-              });
-              logger.info(
-                { prNumber: j.mrNumber, threadsCount: threads.length, hasDiffMetadata: !!diffMetadata },
-                'Review context file created with threads for followup'
-              );
-
-              startWatchingReviewContext(j.id, j.localPath, mergeRequestId);
-              logger.info({ prNumber: j.mrNumber }, 'Started watching review context for live progress');
-            } catch (error) {
-              logger.warn(
-                { prNumber: j.mrNumber, error: error instanceof Error ? error.message : String(error) },
-                'Failed to create review context file for followup, continuing without it'
-              );
-            }
+  await submitPullRequestReview(event, filterResult, triggerRules, reply, logger, deps, forge);
+}
 
-            const result = await invokeClaudeReview(j, logger, (progress, progressEvent) => {
-              updateJobProgress(j.id, progress, progressEvent);
-
-              const runningAgent = progress.agents.find(a => a.status === 'running');
-              const completedAgents = progress.agents
-                .filter(a => a.status === 'completed')
-                .map(a => a.name);
-
-              contextGateway.updateProgress(j.localPath, mergeRequestId, {
-                phase: progress.currentPhase,
-                currentStep: runningAgent?.name ?? null,
-                stepsCompleted: completedAgents,
-              });
-            }, signal, deps.claudeInvokerDeps);
-
-            stopWatchingReviewContext(mergeRequestId);
-
-            if (result.success) {
-              const parsed = parseReviewOutput(result.stdout);
-
-              let threadResolveCount = 0;
-
-              const reviewContext = contextGateway.read(j.localPath, mergeRequestId);
-              if (reviewContext && reviewContext.actions.length > 0) {
-                threadResolveCount = reviewContext.actions.filter(a => a.type === 'THREAD_RESOLVE').length;
-                const contextActionResult = await executeActionsFromContext(
-                  reviewContext,
-                  j.localPath,
-                  logger,
-                  defaultCommandExecutor,
-                  null,
-                  deps.noteCommentPostGateway,
-                );
-                logger.info(
-                  { ...contextActionResult, threadResolveCount, prNumber: j.mrNumber },
-                  'Actions executed from context file for followup'
-                );
-                contextGateway.setResult(
-                  j.localPath,
-                  mergeRequestId,
-                  ReviewContextResultFactory.fromParsedReview(parsed),
-                );
-              } else {
-                const threadActions = parseThreadActions(result.stdout);
-                if (threadActions.length > 0) {
-                  threadResolveCount = threadActions.filter(a => a.type === 'THREAD_RESOLVE').length;
-                  const actionResult = await executeThreadActions(
-                    threadActions,
-                    {
-                      platform: 'github',
-                      projectPath: j.projectPath,
-                      mrNumber: j.mrNumber,
-                      localPath: j.localPath,
-                    },
-                    logger,
-                    defaultCommandExecutor,
-                    deps.noteCommentPostGateway
-                  );
-                  logger.info(
-                    { ...actionResult, threadResolveCount, prNumber: j.mrNumber },
-                    'Thread actions executed from stdout markers for followup (fallback)'
-                  );
-                }
-              }
+/**
+ * A pull request a push (or a `/reviewflow followup` or `explain` command)
+ * asked to re-check against its open threads.
+ */
+interface PullRequestFollowupRequest {
+  pullRequest: GitHubPullRequest;
+  target: Extract<FilterResult, { shouldProcess: true }>;
+  repoConfig: RepositoryConfig;
+  /** Who triggered the followup; provenance is checked against this user. */
+  actor: string;
+  explainThreadId?: string;
+}
 
-              const mrId = `github-${j.projectPath}-${j.mrNumber}`;
-              const updatedMr = syncThreads.execute({ projectPath: j.localPath, mrId });
+/**
+ * Budget check, processor and gated submission of a followup job.
+ */
+async function submitPullRequestFollowup(
+  request: PullRequestFollowupRequest,
+  reply: FastifyReply,
+  logger: Logger,
+  deps: PullRequestForgeDependencies,
+  forge: PullRequestForge,
+): Promise<void> {
+  const { target, repoConfig } = request;
+  const projectConfig = loadProjectConfig(repoConfig.localPath);
+  const skill = projectConfig?.reviewFollowupSkill || 'review-followup';
+
+  const followupJobId = createJobId(`${forge.platform}-followup`, target.projectPath, target.mergeRequestNumber);
+  const followupJob: ReviewJob = {
+    id: followupJobId,
+    platform: forge.platform,
+    projectPath: target.projectPath,
+    localPath: repoConfig.localPath,
+    mrNumber: target.mergeRequestNumber,
+    skill,
+    mrUrl: target.mergeRequestUrl,
+    sourceBranch: target.sourceBranch,
+    targetBranch: target.targetBranch,
+    jobType: 'followup',
+    sourceForkCloneUrl: computeSourceForkCloneUrl(request.pullRequest),
+    explainThreadId: request.explainThreadId,
+    triggeredBy: request.actor,
+    labels: pullRequestLabels(request.pullRequest),
+    headSha: target.headSha,
+  };
 
-              let followupDiffStats = null;
-              try {
-                followupDiffStats = deps.diffStatsFetchGateway.fetchDiffStats(j.projectPath, j.mrNumber);
-              } catch {
-                logger.warn({ prNumber: j.mrNumber }, 'Failed to fetch diff stats for followup');
-              }
+  const followupBudgetDecision = await deps.enforceBudget.execute({
+    localPaths: listEnabledLocalPaths(deps.getRepositories),
+  });
+  if (!followupBudgetDecision.accepted) {
+    logger.warn(
+      {
+        prNumber: followupJob.mrNumber,
+        limitUsd: followupBudgetDecision.status.limitUsd,
+        consumedUsd: followupBudgetDecision.status.consumedUsd,
+      },
+      'Budget exceeded, followup not enqueued'
+    );
+    deps.broadcastBudgetExceeded({
+      mrNumber: followupJob.mrNumber,
+      platform: forge.platform,
+      projectPath: followupJob.projectPath,
+      limitUsd: followupBudgetDecision.status.limitUsd,
+      consumedUsd: followupBudgetDecision.status.consumedUsd,
+    });
+    reply.status(200).send({ status: 'rejected', reason: 'budget-exceeded' });
+    return;
+  }
 
-              recordCompletion.execute({
-                projectPath: j.localPath,
-                mrId,
-                reviewData: {
-                  type: 'followup',
-                  durationMs: result.durationMs,
-                  score: parsed.score,
-                  blocking: parsed.blocking,
-                  warnings: parsed.warnings,
-                  suggestions: parsed.suggestions,
-                  threadsOpened: 0,
-                  threadsClosed: threadResolveCount,
-                  diffStats: followupDiffStats,
-                },
-                qualityThreshold: loadProjectConfig(j.localPath)?.qualityThreshold ?? null,
-              });
-              logger.info(
-                {
-                  prNumber: j.mrNumber,
-                  score: parsed.score,
-                  blocking: parsed.blocking,
-                  warnings: parsed.warnings,
-                  suggestions: parsed.suggestions,
-                  durationMs: result.durationMs,
-                  openThreads: updatedMr?.openThreads,
-                  state: updatedMr?.state,
-                },
-                'Followup stats recorded and threads synced'
-              );
-
-              sendNotification('Review followup terminée', `PR #${j.mrNumber} - ${j.projectPath}`, logger);
-            } else if (!result.cancelled) {
-              sendNotification('Review followup échouée', `PR #${j.mrNumber} - Code ${result.exitCode}`, logger);
-              throw new Error(
-                result.stderr?.trim() || `Followup review failed with exit code ${result.exitCode}`
-              );
-            }
-          };
+  const followupProcessor = buildPullRequestFollowupProcessor(deps, logger, forge)(followupJob);
 
-          if (deps.gateClaudeInvocation) {
-            const gateResult = await deps.gateClaudeInvocation.execute({
-              job: followupJob,
-              triggerSource: 'webhook-followup',
-              processor: followupProcessor,
-            });
-            if (gateResult.status === 'pending') {
-              reply.status(202).send({
-                status: 'pending-confirmation',
-                pendingId: gateResult.pendingId,
-                prNumber: updateResult.mergeRequestNumber,
-              });
-              return;
-            }
-          } else {
-            await enqueueReview(followupJob, followupProcessor);
-          }
+  // SPEC-197 AC2: gate the followup trigger on actor provenance.
+  const followupActorTrusted = await resolveActorTrust(
+    deps,
+    target.projectPath,
+    request.actor,
+  );
 
-          reply.status(202).send({
-            status: 'followup-queued',
-            jobId: followupJobId,
-            prNumber: updateResult.mergeRequestNumber,
-          });
-          return;
-        }
-      }
+  if (deps.gateClaudeInvocation) {
+    const gateResult = await deps.gateClaudeInvocation.execute({
+      job: followupJob,
+      triggerSource: 'webhook-followup',
+      processor: followupProcessor,
+      actorTrusted: followupActorTrusted,
+    });
+    if (gateResult.status === 'pending') {
+      reply.status(202).send({
+        status: 'pending-confirmation',
+        pendingId: gateResult.pendingId,
+        prNumber: target.mergeRequestNumber,
+      });
+      return;
     }
-
-    reply.status(200).send({ status: 'ignored', reason: filterResult.reason });
+  } else if (followupActorTrusted) {
+    await enqueueReview(followupJob, followupProcessor);
+  } else {
+    logger.info(
+      { prNumber: target.mergeRequestNumber, actor: request.actor },
+      'Followup trigger from non-trusted actor parked (provenance gate)',
+    );
+    reply.status(202).send({
+      status: 'pending-confirmation',
+      reason: 'untrusted-actor',
+      prNumber: target.mergeRequestNumber,
+    });
     return;
   }
 
+  reply.status(202).send({
+    status: 'followup-queued',
+    jobId: followupJobId,
+    prNumber: target.mergeRequestNumber,
+  });
+}
+
+/**
+ * Tracking and job submission for a pull request an event asked to review
+ * (review request, trigger label or trigger command). The trigger rules are
+ * evaluated here, once the repository is known to be configured.
+ */
+async function submitPullRequestReview(
+  event: GitHubPullRequestEvent,
+  filterResult: Extract<FilterResult, { shouldProcess: true }>,
+  triggerRules: TriggerRules,
+  reply: FastifyReply,
+  logger: Logger,
+  deps: PullRequestForgeDependencies,
+  forge: PullRequestForge,
+): Promise<void> {
+  const { trackAssignment } = deps;
+
   // 4. Find repository configuration
   const repoConfig = findRepositoryByRemoteUrl(event.repository.clone_url);
   if (!repoConfig) {
@@ -700,6 +1111,23 @@ export async function handleGitHubWebhook(
     return;
   }
 
+  // 4b. Apply the repository's trigger rules
+  const triggerDecision = evaluatePullRequestTriggerRules(
+    triggerRules,
+    event.pull_request,
+    filterResult.projectPath,
+    logger,
+    deps,
+  );
+  if (!triggerDecision.allowed) {
+    logger.info(
+      { prNumber: filterResult.mergeRequestNumber, reason: triggerDecision.reason },
+      'Review skipped by trigger rules'
+    );
+    reply.status(200).send({ status: 'ignored', reason: triggerDecision.reason });
+    return;
+  }
+
   // 5. Track PR assignment with user info
   // Use PR assignee (actual owner), not webhook sender (who requested the review)
   const prTitle = event.pull_request?.title || `PR #${filterResult.mergeRequestNumber}`;
@@ -729,7 +1157,7 @@ export async function handleGitHubWebhook(
       title: prTitle,
       url: filterResult.mergeRequestUrl,
       project: filterResult.projectPath,
-      platform: 'github',
+      platform: forge.platform,
       sourceBranch: filterResult.sourceBranch,
       targetBranch: filterResult.targetBranch,
     },
@@ -742,10 +1170,10 @@ export async function handleGitHubWebhook(
   );
 
   // 6. Create and enqueue job
-  const jobId = createJobId('github', filterResult.projectPath, filterResult.mergeRequestNumber);
+  const jobId = createJobId(forge.platform, filterResult.projectPath, filterResult.mergeRequestNumber);
   const job: ReviewJob = {
     id: jobId,
-    platform: 'github',
+    platform: forge.platform,
     projectPath: filterResult.projectPath,
     localPath: repoConfig.localPath,
     mrNumber: filterResult.mergeRequestNumber,
@@ -761,6 +1189,8 @@ export async function handleGitHubWebhook(
     author,
     sizeMetrics,
     sourceForkCloneUrl: computeSourceForkCloneUrl(event.pull_request),
+    labels: pullRequestLabels(event.pull_request),
+    triggeredBy: event.sender?.login,
   };
 
   const budgetDecision = await deps.enforceBudget.execute({
@@ -777,7 +1207,7 @@ export async function handleGitHubWebhook(
     );
     deps.broadcastBudgetExceeded({
       mrNumber: job.mrNumber,
-      platform: 'github',
+      platform: forge.platform,
       projectPath: job.projectPath,
       limitUsd: budgetDecision.status.limitUsd,
       consumedUsd: budgetDecision.status.consumedUsd,
@@ -786,7 +1216,273 @@ export async function handleGitHubWebhook(
     return;
   }
 
-  const reviewProcessor = async (j: ReviewJob, signal: AbortSignal): Promise<void> => {
+  const reviewProcessor = buildPullRequestReviewProcessor(deps, logger, forge)(job);
+
+  // SPEC-197 AC1: gate the review-request / label trigger on actor provenance.
+  const reviewerActorTrusted = await resolveActorTrust(
+    deps,
+    filterResult.projectPath,
+    event.sender.login,
+  );
+
+  if (deps.gateClaudeInvocation) {
+    const gateResult = await deps.gateClaudeInvocation.execute({
+      job,
+      triggerSource: 'webhook-initial',
+      processor: reviewProcessor,
+      actorTrusted: reviewerActorTrusted,
+    });
+    if (gateResult.status === 'pending') {
+      reply.status(202).send({
+        status: 'pending-confirmation',
+        pendingId: gateResult.pendingId,
+        prNumber: filterResult.mergeRequestNumber,
+      });
+      return;
+    }
+    if (gateResult.status === 'enqueued') {
+      reply.status(202).send({
+        status: 'queued',
+        jobId,
+        prNumber: filterResult.mergeRequestNumber,
+      });
+      return;
+    }
+    reply.status(200).send({
+      status: 'deduplicated',
+      jobId,
+      reason: 'Review already in progress or recently completed',
+    });
+    return;
+  }
+
+  if (!reviewerActorTrusted) {
+    logger.info(
+      { prNumber: filterResult.mergeRequestNumber, actor: event.sender.login },
+      'Review trigger from non-trusted actor parked (provenance gate)',
+    );
+    reply.status(202).send({
+      status: 'pending-confirmation',
+      reason: 'untrusted-actor',
+      prNumber: filterResult.mergeRequestNumber,
+    });
+    return;
+  }
+
+  const enqueued = await enqueueReview(job, reviewProcessor);
+
+  if (enqueued) {
+    reply.status(202).send({
+      status: 'queued',
+      jobId,
+      prNumber: filterResult.mergeRequestNumber,
+    });
+  } else {
+    reply.status(200).send({
+      status: 'deduplicated',
+      jobId,
+      reason: 'Review already in progress or recently completed',
+    });
+  }
+}
+
+/**
+ * Processor of a pull request followup. It only needs the job, so a followup
+ * queued before a restart can be resumed from the queue journal.
+ */
+export function buildPullRequestFollowupProcessor(
+  deps: PullRequestForgeDependencies,
+  logger: Logger,
+  forge: PullRequestForge,
+): ProcessorBuilder {
+  const { recordCompletion, syncThreads } = deps;
+  return (_job: ReviewJob) => async (j: ReviewJob, signal: AbortSignal): Promise<void> => {
+    sendNotification('Review followup démarrée', `PR #${j.mrNumber} - ${j.projectPath}`, logger);
+
+    const mergeRequestId = `${forge.platform}-${j.projectPath}-${j.mrNumber}`;
+    const contextGateway = deps.reviewContextGateway;
+    const threadFetchGw = deps.threadFetchGateway;
+    const diffMetadataFetchGw = deps.diffMetadataFetchGateway;
+
+    try {
+      const threads = threadFetchGw.fetchThreads(j.projectPath, j.mrNumber);
+      let diffMetadata: import('@/modules/review-execution/entities/reviewContext/reviewContext.js').DiffMetadata | undefined;
+      try {
+        diffMetadata = diffMetadataFetchGw.fetchDiffMetadata(j.projectPath, j.mrNumber);
+      } catch (error) {
+        logger.warn(
+          { prNumber: j.mrNumber, error: error instanceof Error ? error.message : String(error) },
+          'Failed to fetch diff metadata for followup, inline comments will be skipped'
+        );
+      }
+      const followupAgentsList = getFollowupAgents(j.localPath) ?? DEFAULT_FOLLOWUP_AGENTS;
+      contextGateway.create({
+        localPath: j.localPath,
+        mergeRequestId,
+        platform: forge.platform,
+        projectPath: j.projectPath,
+        mergeRequestNumber: j.mrNumber,
+        threads,
+        agents: followupAgentsList,
+        diffMetadata,
+        publishMode: j.publishMode,
+      });
+      logger.info(
+        { prNumber: j.mrNumber, threadsCount: threads.length, hasDiffMetadata: !!diffMetadata },
+        'Review context file created with threads for followup'
+      );
+
+      startWatchingReviewContext(j.id, j.localPath, mergeRequestId);
+      logger.info({ prNumber: j.mrNumber }, 'Started watching review context for live progress');
+    } catch (error) {
+      logger.warn(
+        { prNumber: j.mrNumber, error: error instanceof Error ? error.message : String(error) },
+        'Failed to create review context file for followup, continuing without it'
+      );
+    }
+
+    const result = await invokeClaudeReview(j, logger, (progress, progressEvent) => {
+      updateJobProgress(j.id, progress, progressEvent);
+
+      const runningAgent = progress.agents.find(a => a.status === 'running');
+      const completedAgents = progress.agents
+        .filter(a => a.status === 'completed')
+        .map(a => a.name);
+
+      contextGateway.updateProgress(j.localPath, mergeRequestId, {
+        phase: progress.currentPhase,
+        currentStep: runningAgent?.name ?? null,
+        stepsCompleted: completedAgents,
+      });
+    }, signal, deps.claudeInvokerDeps);
+
+    stopWatchingReviewContext(mergeRequestId);
+
+    if (result.success) {
+      const parsed = resolveReviewStats(
+        parseReviewOutput(result.stdout),
+        contextGateway.read(j.localPath, mergeRequestId),
+      );
+
+      let threadResolveCount = 0;
+      const shadow = resolveShadowOutput(
+        j,
+        result.reportPath,
+        deps.shadowLogGateway ?? new ShadowLogFileSystemGateway(logger),
+      );
+
+      const reviewContext = contextGateway.read(j.localPath, mergeRequestId);
+      if (reviewContext && reviewContext.actions.length > 0) {
+        threadResolveCount = reviewContext.actions.filter(a => a.type === 'THREAD_RESOLVE').length;
+        const linkedComments = buildCrossRepoComments(result.stdout, j, result.linkedMergeRequests, logger);
+        const heldForApproval = await holdForApproval(deps.parkReviewPublication, shadow, {
+          context: reviewContext,
+          linkedComments,
+          localPath: j.localPath,
+          jobType: 'followup',
+          baseUrl: extractBaseUrl(j.mrUrl),
+          verdict: ReviewContextResultFactory.fromParsedReview(parsed).verdict,
+        });
+        if (!heldForApproval) {
+          const contextActionResult = await executeActionsFromContext(
+            reviewContext,
+            j.localPath,
+            logger,
+            defaultCommandExecutor,
+            extractBaseUrl(j.mrUrl),
+            deps.noteCommentPostGateway,
+            null,
+            shadow,
+          );
+          logger.info(
+            { ...contextActionResult, threadResolveCount, prNumber: j.mrNumber },
+            'Actions executed from context file for followup'
+          );
+          await postLinkedComments(linkedComments, j.platform, deps.noteCommentPostGateway, shadow, logger);
+        }
+        contextGateway.setResult(
+          j.localPath,
+          mergeRequestId,
+          ReviewContextResultFactory.fromParsedReview(parsed),
+        );
+      } else {
+        const threadActions = parseThreadActions(result.stdout);
+        if (threadActions.length > 0) {
+          threadResolveCount = threadActions.filter(a => a.type === 'THREAD_RESOLVE').length;
+          const actionResult = await executeStdoutThreadActions(threadActions, j, logger, deps, forge, shadow, {
+            jobType: 'followup',
+            verdict: ReviewContextResultFactory.fromParsedReview(parsed).verdict,
+          });
+          logger.info(
+            { ...actionResult, threadResolveCount, prNumber: j.mrNumber },
+            'Thread actions executed from stdout markers for followup (fallback)'
+          );
+        }
+      }
+
+      const mrId = `${forge.platform}-${j.projectPath}-${j.mrNumber}`;
+      const updatedMr = syncThreads.execute({ projectPath: j.localPath, mrId });
+
+      let followupDiffStats = null;
+      try {
+        followupDiffStats = deps.diffStatsFetchGateway.fetchDiffStats(j.projectPath, j.mrNumber);
+      } catch {
+        logger.warn({ prNumber: j.mrNumber }, 'Failed to fetch diff stats for followup');
+      }
+
+      recordCompletion.execute({
+        projectPath: j.localPath,
+        mrId,
+        reviewData: {
+          type: 'followup',
+          durationMs: result.durationMs,
+          score: parsed.score,
+          blocking: parsed.blocking,
+          warnings: parsed.warnings,
+          suggestions: parsed.suggestions,
+          threadsOpened: 0,
+          threadsClosed: threadResolveCount,
+          diffStats: followupDiffStats,
+          headSha: result.reviewedHeadSha,
+          findings: parsed.findings,
+        },
+        qualityThreshold: loadProjectConfig(j.localPath)?.qualityThreshold ?? null,
+      });
+      logger.info(
+        {
+          prNumber: j.mrNumber,
+          score: parsed.score,
+          blocking: parsed.blocking,
+          warnings: parsed.warnings,
+          suggestions: parsed.suggestions,
+          durationMs: result.durationMs,
+          openThreads: updatedMr?.openThreads,
+          state: updatedMr?.state,
+        },
+        'Followup stats recorded and threads synced'
+      );
+
+      sendNotification('Review followup terminée', `PR #${j.mrNumber} - ${j.projectPath}`, logger);
+    } else if (!result.cancelled) {
+      sendNotification('Review followup échouée', `PR #${j.mrNumber} - Code ${result.exitCode}`, logger);
+      throw new Error(
+        result.stderr?.trim() || `Followup review failed with exit code ${result.exitCode}`
+      );
+    }
+  };
+}
+
+/**
+ * Processor of a pull request review, rebuilt from the job alone like the
+ * followup one.
+ */
+export function buildPullRequestReviewProcessor(
+  deps: PullRequestForgeDependencies,
+  logger: Logger,
+  forge: PullRequestForge,
+): ProcessorBuilder {
+  const { recordCompletion } = deps;
+  return (_job: ReviewJob) => async (j: ReviewJob, signal: AbortSignal): Promise<void> => {
     // Send start notification
     sendNotification(
       'Review démarrée',
@@ -795,7 +1491,7 @@ export async function handleGitHubWebhook(
     );
 
     // Create review context file with pre-fetched threads and diff metadata
-    const mergeRequestId = `github-${j.projectPath}-${j.mrNumber}`;
+    const mergeRequestId = `${forge.platform}-${j.projectPath}-${j.mrNumber}`;
     const { reviewContextGateway: contextGateway, threadFetchGateway, diffMetadataFetchGateway } = deps;
 
     try {
@@ -809,16 +1505,24 @@ export async function handleGitHubWebhook(
           'Failed to fetch diff metadata, inline comments will be skipped'
         );
       }
-      const reviewAgentsList = getProjectAgentsOrFocusDefaults(j.localPath) ?? DEFAULT_AGENTS;
+      const reviewAgents = selectReviewAgents(
+        getProjectAgentsOrFocusDefaults(j.localPath) ?? DEFAULT_AGENTS,
+        deps.changedFilesFetchGateway,
+        j.projectPath,
+        j.mrNumber,
+        logger,
+      );
       contextGateway.create({
         localPath: j.localPath,
         mergeRequestId,
-        platform: 'github',
+        platform: forge.platform,
         projectPath: j.projectPath,
         mergeRequestNumber: j.mrNumber,
         threads,
-        agents: reviewAgentsList,
+        agents: reviewAgents.agents,
         diffMetadata,
+        skippedAgents: reviewAgents.skipped,
+        publishMode: j.publishMode,
       });
       logger.info(
         { prNumber: j.mrNumber, threadsCount: threads.length, hasDiffMetadata: !!diffMetadata },
@@ -863,49 +1567,69 @@ export async function handleGitHubWebhook(
       );
     } else if (result.success) {
       // Parse review output for stats
-      const parsed = parseReviewOutput(result.stdout);
-
-      // Execute thread actions from stdout markers (backward compatibility)
-      const threadActions = parseThreadActions(result.stdout);
-      if (threadActions.length > 0) {
-        const actionResult = await executeThreadActions(
-          threadActions,
-          {
-            platform: 'github',
-            projectPath: j.projectPath,
-            mrNumber: j.mrNumber,
-            localPath: j.localPath,
-          },
-          logger,
-          defaultCommandExecutor,
-          deps.noteCommentPostGateway
-        );
-        logger.info(
-          { ...actionResult, prNumber: j.mrNumber },
-          'Thread actions executed from stdout markers'
-        );
-      }
+      const parsed = resolveReviewStats(
+        parseReviewOutput(result.stdout),
+        contextGateway.read(j.localPath, mergeRequestId),
+      );
+      const shadow = resolveShadowOutput(
+        j,
+        result.reportPath,
+        deps.shadowLogGateway ?? new ShadowLogFileSystemGateway(logger),
+      );
 
-      // Execute actions from context file (new mechanism)
+      // PRIMARY: Execute actions from context file (agent writes actions here)
       const reviewContext = contextGateway.read(j.localPath, mergeRequestId);
       if (reviewContext && reviewContext.actions.length > 0) {
-        const contextActionResult = await executeActionsFromContext(
-          reviewContext,
-          j.localPath,
-          logger,
-          defaultCommandExecutor,
-          null,
-          deps.noteCommentPostGateway
-        );
-        logger.info(
-          { ...contextActionResult, prNumber: j.mrNumber },
-          'Actions executed from context file'
-        );
+        const linkedComments = buildCrossRepoComments(result.stdout, j, result.linkedMergeRequests, logger);
+        const heldForApproval = await holdForApproval(deps.parkReviewPublication, shadow, {
+          context: reviewContext,
+          linkedComments,
+          localPath: j.localPath,
+          jobType: 'review',
+          baseUrl: extractBaseUrl(j.mrUrl),
+          verdict: ReviewContextResultFactory.fromParsedReview(parsed).verdict,
+        });
+        if (!heldForApproval) {
+          const batchedReview = deps.pullRequestReviewGateway
+            ? {
+                gateway: deps.pullRequestReviewGateway,
+                verdict: ReviewContextResultFactory.fromParsedReview(parsed).verdict,
+              }
+            : null;
+          const contextActionResult = await executeActionsFromContext(
+            reviewContext,
+            j.localPath,
+            logger,
+            defaultCommandExecutor,
+            extractBaseUrl(j.mrUrl),
+            deps.noteCommentPostGateway,
+            batchedReview,
+            shadow,
+          );
+          logger.info(
+            { ...contextActionResult, prNumber: j.mrNumber },
+            'Actions executed from context file'
+          );
+          await postLinkedComments(linkedComments, j.platform, deps.noteCommentPostGateway, shadow, logger);
+        }
         contextGateway.setResult(
           j.localPath,
           mergeRequestId,
           ReviewContextResultFactory.fromParsedReview(parsed),
         );
+      } else {
+        // FALLBACK: Execute thread actions from stdout markers (backward compatibility)
+        const threadActions = parseThreadActions(result.stdout);
+        if (threadActions.length > 0) {
+          const actionResult = await executeStdoutThreadActions(threadActions, j, logger, deps, forge, shadow, {
+            jobType: 'review',
+            verdict: ReviewContextResultFactory.fromParsedReview(parsed).verdict,
+          });
+          logger.info(
+            { ...actionResult, prNumber: j.mrNumber },
+            'Thread actions executed from stdout markers (fallback)'
+          );
+        }
       }
 
       let reviewDiffStats = null;
@@ -917,7 +1641,7 @@ export async function handleGitHubWebhook(
 
       recordCompletion.execute({
         projectPath: j.localPath,
-        mrId: `github-${j.projectPath}-${j.mrNumber}`,
+        mrId: `${forge.platform}-${j.projectPath}-${j.mrNumber}`,
         reviewData: {
           type: 'review',
           durationMs: result.durationMs,
@@ -927,6 +1651,8 @@ export async function handleGitHubWebhook(
           suggestions: parsed.suggestions,
           threadsOpened: parsed.blocking,
           diffStats: reviewDiffStats,
+          headSha: result.reviewedHeadSha,
+          findings: parsed.findings,
         },
         qualityThreshold: loadProjectConfig(j.localPath)?.qualityThreshold ?? null,
       });
@@ -959,50 +1685,4 @@ export async function handleGitHubWebhook(
       );
     }
   };
-
-  if (deps.gateClaudeInvocation) {
-    const gateResult = await deps.gateClaudeInvocation.execute({
-      job,
-      triggerSource: 'webhook-initial',
-      processor: reviewProcessor,
-    });
-    if (gateResult.status === 'pending') {
-      reply.status(202).send({
-        status: 'pending-confirmation',
-        pendingId: gateResult.pendingId,
-        prNumber: filterResult.mergeRequestNumber,
-      });
-      return;
-    }
-    if (gateResult.status === 'enqueued') {
-      reply.status(202).send({
-        status: 'queued',
-        jobId,
-        prNumber: filterResult.mergeRequestNumber,
-      });
-      return;
-    }
-    reply.status(200).send({
-      status: 'deduplicated',
-      jobId,
-      reason: 'Review already in progress or recently completed',
-    });
-    return;
-  }
-
-  const enqueued = await enqueueReview(job, reviewProcessor);
-
-  if (enqueued) {
-    reply.status(202).send({
-      status: 'queued',
-      jobId,
-      prNumber: filterResult.mergeRequestNumber,
-    });
-  } else {
-    reply.status(200).send({
-      status: 'deduplicated',
-      jobId,
-      reason: 'Review already in progress or recently completed',
-    });
-  }
 }
@@ -2,8 +2,8 @@ import type { FastifyRequest, FastifyReply } from 'fastify';
 import type { Logger } from 'pino';
 import { verifyGitLabSignature, getGitLabEventType, getGitLabEventUuid } from '@/security/verifier.js';
 import { gitLabMergeRequestEventGuard } from '@/modules/platform-integration/entities/gitlab/gitlabMergeRequestEvent.guard.js';
-import { gitLabNoteEventGuard } from '@/modules/platform-integration/entities/gitlab/gitlabNoteEvent.guard.js';
-import { filterGitLabEvent, filterGitLabMrUpdate, filterGitLabMrClose, filterGitLabMrMerge, filterGitLabMrApprove, filterGitLabNoteEvent } from '@/modules/platform-integration/interface-adapters/controllers/webhook/eventFilter.js';
+import { gitLabNoteEventGuard, type GitLabNoteEvent } from '@/modules/platform-integration/entities/gitlab/gitlabNoteEvent.guard.js';
+import { filterGitLabEvent, filterGitLabLabelEvent, filterGitLabMrUpdate, filterGitLabMrClose, filterGitLabMrMerge, filterGitLabMrApprove, filterGitLabNoteEvent, type FilterResult } from '@/modules/platform-integration/interface-adapters/controllers/webhook/eventFilter.js';
 import { findRepositoryByProjectPath, type RepositoryConfig } from '@/config/loader.js';
 import { resolvePinnedThreadFetchTarget } from '@/modules/platform-integration/services/pinnedThreadFetchTarget.js';
 import {
@@ -11,6 +11,11 @@ import {
   createJobId,
   updateJobProgress,
   cancelJob,
+  getJobStatus,
+  startDeferredJob,
+  getRunningJob,
+  supersedeJob,
+  whenJobSettled,
   type ReviewJob,
 } from '@/frameworks/queue/pQueueAdapter.js';
 import { invokeClaudeReview, sendNotification } from '@/claude/invoker.js';
@@ -34,19 +39,50 @@ import { evaluateQualityGate } from '@/modules/tracking/entities/qualityGate/qua
 import { loadProjectConfig, getProjectAgentsOrFocusDefaults, getFollowupAgents, getProjectLanguage } from '@/config/projectConfig.js';
 import { DEFAULT_AGENTS, DEFAULT_FOLLOWUP_AGENTS } from '@/modules/review-execution/entities/progress/agentDefinition.type.js';
 import { parseReviewOutput } from '@/modules/statistics-insights/services/statsService.js';
+import { resolveReviewStats } from '@/modules/review-execution/entities/reviewFinding/reviewFinding.js';
 import { ReviewContextResultFactory } from '@/modules/review-execution/entities/reviewContext/reviewContextResult.factory.js';
 import { parseThreadActions } from '@/modules/review-execution/services/threadActionsParser.js';
 import { defaultCommandExecutor } from '@/modules/review-execution/services/threadActionsExecutor.js';
 import { dispatchConstrainedActions } from '@/modules/review-execution/services/dispatchConstrainedActions.js';
-import { resolveProvenance } from '@/modules/review-execution/entities/actionProvenance/actionProvenance.js';
+import { type Provenance, resolveProvenance } from '@/modules/review-execution/entities/actionProvenance/actionProvenance.js';
 import { GitLabThreadInventoryGateway } from '@/modules/review-execution/interface-adapters/gateways/threadInventory.gitlab.gateway.js';
 import { defaultGitLabExecutor } from '@/modules/platform-integration/interface-adapters/gateways/threadFetch.gitlab.gateway.js';
 import { executeActionsFromContext } from '@/modules/review-execution/services/contextActionsExecutor.js';
+import { holdForApproval, resolveShadowOutput } from '@/modules/review-execution/services/publishModeResolver.js';
+import { buildCrossRepoComments, postLinkedComments } from '@/modules/review-execution/services/crossRepoPublisher.js';
+import type { ParkReviewPublicationUseCase } from '@/modules/review-execution/usecases/parkReviewPublication.usecase.js';
+import type { ShadowLogGateway } from '@/modules/review-execution/entities/shadowLog/shadowLog.gateway.js';
+import { ShadowLogFileSystemGateway } from '@/modules/review-execution/interface-adapters/gateways/fileSystem/shadowLog.fileSystem.gateway.js';
 import { startWatchingReviewContext, stopWatchingReviewContext } from '@/main/websocket.js';
 import type { ReviewContextGateway } from '@/modules/review-execution/entities/reviewContext/reviewContext.gateway.js';
 import type { ThreadFetchGateway } from '@/modules/platform-integration/entities/threadFetch/threadFetch.gateway.js';
 import type { DiffMetadataFetchGateway } from '@/modules/platform-integration/entities/diffMetadata/diffMetadata.gateway.js';
 import type { DiffStatsFetchGateway } from '@/modules/shared-kernel/entities/diffStats/diffStatsFetch.gateway.js';
+import type { ChangedFilesFetchGateway } from '@/modules/platform-integration/entities/changedFiles/changedFilesFetch.gateway.js';
+import type { MergeRequestMetadataFetchGateway } from '@/modules/platform-integration/entities/mergeRequestMetadata/mergeRequestMetadata.gateway.js';
+import { selectReviewAgents } from '@/modules/review-execution/services/reviewAgentSelection.js';
+import type { TriggerRules } from '@/modules/platform-integration/entities/triggerRules/triggerRules.schema.js';
+import {
+  evaluateTriggerRules,
+  fetchMergeRequestAuthor,
+  findTriggerCommand,
+  lazyChangedFiles,
+  loadTriggerRules,
+} from '@/modules/platform-integration/services/triggerRuleEngine.js';
+import {
+  parseReviewflowCommand,
+  type ReviewflowCommandResult,
+} from '@/modules/platform-integration/entities/reviewflowCommand/reviewflowCommand.js';
+import {
+  cancelReviewflowJobs,
+  describeQueuedReviewflowCommand,
+  recordReviewflowPreference,
+  startDeferredReviewflowJobs,
+  type ReviewflowCommandTarget,
+} from '@/modules/platform-integration/services/reviewflowCommandRouter.js';
+import type { RecordReviewPreferenceUseCase } from '@/modules/tracking/usecases/tracking/recordReviewPreference.usecase.js';
+import type { RecordSupersessionUseCase } from '@/modules/tracking/usecases/tracking/recordSupersession.usecase.js';
+import { supersedeStaleReviews } from '@/modules/platform-integration/services/supersedeOnPush.js';
 import type { EnforceBudgetUseCase } from '@/modules/token-accounting/usecases/enforceBudget/enforceBudget.usecase.js';
 import type { BudgetExceededPayload } from '@/main/websocket.js';
 import type { RemoveResult, WorktreeIdentity } from '@/modules/worktree-management/entities/worktree/worktree.schema.js';
@@ -93,10 +129,25 @@ export interface GitLabWebhookDependencies {
   isTrustedActor?: IsTrustedActorUseCase;
   removeWorktree: RemoveWorktreeAction;
   recordBypass: RecordBypassUseCase;
+  /** Enables `/reviewflow focus` and `/reviewflow model`. */
+  recordReviewPreference?: RecordReviewPreferenceUseCase;
+  /** Records in tracking history the reviews superseded by a push. */
+  recordSupersession?: RecordSupersessionUseCase;
   noteCommentPostGateway: NoteCommentPostGateway;
+  /** Where shadow reviews record their actions, `.claude/reviews/shadow/` by default. */
+  shadowLogGateway?: ShadowLogGateway;
+  /** Holds finished reviews for approval when their project sets `reviewBeforePublish`. */
+  parkReviewPublication?: ParkReviewPublicationUseCase;
   handlePlatformApproval: HandlePlatformApprovalUseCase;
   approvalRevocationGateway: ApprovalRevocationGateway;
   idempotencyStore?: IdempotencyStore;
+  /** Only needed when a project restricts triggers to `paths`. */
+  changedFilesFetchGateway?: ChangedFilesFetchGateway;
+  /**
+   * Resolves merge request authors, which GitLab webhooks only carry as an id.
+   * Without it, a project restricting triggers to `authors` gets no review.
+   */
+  mergeRequestMetadataFetchGateway?: MergeRequestMetadataFetchGateway;
   getQualityThreshold: (projectPath: string) => number | null;
   now: () => string;
 }
@@ -114,7 +165,7 @@ function listEnabledLocalPaths(getRepositories: () => RepositoryConfig[]): strin
  * preserved; with a resolver present it is fail-closed (a thrown lookup -> false).
  */
 async function resolveActorTrust(
-  deps: GitLabWebhookDependencies,
+  deps: Pick<GitLabWebhookDependencies, 'isTrustedActor'>,
   projectPath: string,
   username: string,
 ): Promise<boolean> {
@@ -124,6 +175,20 @@ async function resolveActorTrust(
   return deps.isTrustedActor.execute({ username, projectPath });
 }
 
+/**
+ * Provenance of the thread actions a job's session printed: trusted only when
+ * the actor that triggered the job passes the gate. A job parked for that actor
+ * and confirmed from the dashboard stays untrusted.
+ */
+async function resolveJobProvenance(
+  deps: Pick<GitLabWebhookDependencies, 'isTrustedActor'>,
+  job: ReviewJob,
+): Promise<Provenance> {
+  const actorTrusted = job.triggeredBy !== undefined
+    && await resolveActorTrust(deps, job.projectPath, job.triggeredBy);
+  return resolveProvenance(actorTrusted ? 'trusted' : null);
+}
+
 async function handleGitLabNoteHook(
   request: FastifyRequest,
   reply: FastifyReply,
@@ -166,6 +231,27 @@ async function handleGitLabNoteHook(
     return;
   }
 
+  const triggerRules = loadTriggerRules(repoConfig.localPath);
+  const reviewflowCommand = parseReviewflowCommand(filterResult.commentBody);
+  if (reviewflowCommand.kind !== 'no-command') {
+    await handleGitLabReviewflowCommand(
+      parseResult.data,
+      reviewflowCommand,
+      repoConfig,
+      triggerRules,
+      reply,
+      logger,
+      deps,
+    );
+    return;
+  }
+
+  const triggerCommand = findTriggerCommand(triggerRules, filterResult.commentBody);
+  if (triggerCommand !== null) {
+    await handleGitLabTriggerCommand(parseResult.data, `Command "${triggerCommand}" was posted`, triggerRules, reply, logger, deps);
+    return;
+  }
+
   const mrId = `gitlab-${filterResult.projectPath}-${filterResult.mergeRequestNumber}`;
   const result = deps.recordBypass.execute({
     projectPath: repoConfig.localPath,
@@ -203,6 +289,141 @@ async function handleGitLabNoteHook(
   reply.status(200).send({ status: 'ignored', reason: 'No bypass marker' });
 }
 
+/**
+ * `/reviewflow` commands, from a note author the provenance gate already
+ * trusts. Each command is acknowledged with a note on the merge request.
+ */
+async function handleGitLabReviewflowCommand(
+  note: GitLabNoteEvent,
+  parsed: Exclude<ReviewflowCommandResult, { kind: 'no-command' }>,
+  repoConfig: RepositoryConfig,
+  triggerRules: TriggerRules,
+  reply: FastifyReply,
+  logger: Logger,
+  deps: GitLabWebhookDependencies,
+): Promise<void> {
+  const target: ReviewflowCommandTarget = {
+    platform: 'gitlab',
+    projectPath: note.project.path_with_namespace,
+    localPath: repoConfig.localPath,
+    mrNumber: note.merge_request.iid,
+  };
+  const acknowledge = (body: string): Promise<void> =>
+    deps.noteCommentPostGateway.postComment({ projectPath: target.projectPath, mrNumber: target.mrNumber, body });
+
+  if (parsed.kind === 'invalid') {
+    await acknowledge(parsed.message);
+    reply.status(200).send({ status: 'command-rejected', reason: 'Invalid /reviewflow command' });
+    return;
+  }
+
+  const { command } = parsed;
+  const actor = note.user.username;
+  logger.info({ mrNumber: target.mrNumber, command: command.name, actor }, 'Reviewflow command received');
+
+  if (command.name === 'cancel' || command.name === 'now' || command.name === 'focus' || command.name === 'model') {
+    const outcome =
+      command.name === 'cancel'
+        ? cancelReviewflowJobs(target, actor, { queuePort: { createJobId, getJobStatus, cancelJob }, logger })
+        : command.name === 'now'
+          ? startDeferredReviewflowJobs(target, actor, { queuePort: { createJobId, getJobStatus, startDeferredJob }, logger })
+          : recordReviewflowPreference(command, target, actor, deps);
+    await acknowledge(outcome.acknowledgement);
+    reply.status(200).send({ status: outcome.status, command: command.name });
+    return;
+  }
+
+  const mergeRequest = note.merge_request;
+  if (mergeRequest.state !== undefined && mergeRequest.state !== 'opened') {
+    reply.status(200).send({ status: 'ignored', reason: `MR state is ${mergeRequest.state}, not opened` });
+    return;
+  }
+  if (!mergeRequest.source_branch || !mergeRequest.target_branch) {
+    reply.status(200).send({ status: 'ignored', reason: 'Note payload lacks merge request branches' });
+    return;
+  }
+
+  await acknowledge(describeQueuedReviewflowCommand(command, actor));
+
+  if (command.name === 'review') {
+    await handleGitLabTriggerCommand(note, 'Command "/reviewflow review" was posted', triggerRules, reply, logger, deps);
+    return;
+  }
+
+  await submitGitLabFollowup(
+    {
+      target: {
+        shouldProcess: true,
+        reason: `Command "/reviewflow ${command.name}" was posted`,
+        mergeRequestNumber: mergeRequest.iid,
+        projectPath: target.projectPath,
+        mergeRequestUrl: gitLabNoteMergeRequestUrl(note),
+        sourceBranch: mergeRequest.source_branch,
+        targetBranch: mergeRequest.target_branch,
+      },
+      repoConfig,
+      actor,
+      explainThreadId: command.name === 'explain' ? command.threadId : undefined,
+    },
+    reply,
+    logger,
+    deps,
+  );
+}
+
+function gitLabNoteMergeRequestUrl(note: GitLabNoteEvent): string {
+  return note.merge_request.url ?? `${note.project.web_url}/-/merge_requests/${note.merge_request.iid}`;
+}
+
+/**
+ * A `triggers.commands` or `/reviewflow review` note requests a review like
+ * adding the reviewer would; the note author is the trigger actor.
+ */
+async function handleGitLabTriggerCommand(
+  note: GitLabNoteEvent,
+  reason: string,
+  triggerRules: TriggerRules,
+  reply: FastifyReply,
+  logger: Logger,
+  deps: GitLabWebhookDependencies,
+): Promise<void> {
+  const mergeRequest = note.merge_request;
+  if (mergeRequest.state !== undefined && mergeRequest.state !== 'opened') {
+    reply.status(200).send({ status: 'ignored', reason: `MR state is ${mergeRequest.state}, not opened` });
+    return;
+  }
+  if (!mergeRequest.source_branch || !mergeRequest.target_branch) {
+    reply.status(200).send({ status: 'ignored', reason: 'Note payload lacks merge request branches' });
+    return;
+  }
+
+  logger.info(
+    { mrNumber: mergeRequest.iid, reason, actor: note.user.username },
+    'Review requested by trigger command'
+  );
+
+  await submitGitLabReview(
+    {
+      filterResult: {
+        shouldProcess: true,
+        reason,
+        mergeRequestNumber: mergeRequest.iid,
+        projectPath: note.project.path_with_namespace,
+        mergeRequestUrl: gitLabNoteMergeRequestUrl(note),
+        sourceBranch: mergeRequest.source_branch,
+        targetBranch: mergeRequest.target_branch,
+      },
+      actor: note.user,
+      title: mergeRequest.title,
+      draft: mergeRequest.draft,
+    },
+    triggerRules,
+    reply,
+    logger,
+    deps,
+  );
+}
+
 export async function handleGitLabWebhook(
   request: FastifyRequest,
   reply: FastifyReply,
@@ -210,7 +431,7 @@ export async function handleGitLabWebhook(
   trackingGateway: ReviewRequestTrackingGateway,
   deps: GitLabWebhookDependencies
 ): Promise<void> {
-  const { trackAssignment, recordCompletion, recordPush, transitionState, checkFollowupNeeded, syncThreads } = deps;
+  const { recordPush, transitionState, checkFollowupNeeded } = deps;
   // 1. Verify signature
   const verification = verifyGitLabSignature(request);
   if (!verification.valid) {
@@ -460,8 +681,14 @@ export async function handleGitLabWebhook(
     }
   }
 
-  // 3d. Filter for review assignment
-  const filterResult = filterGitLabEvent(event);
+  // 3d. Filter for review assignment OR label trigger, under the repository's trigger rules
+  const triggerRules = loadTriggerRules(findRepositoryByProjectPath(event.project.path_with_namespace)?.localPath);
+  let filterResult = filterGitLabEvent(event, triggerRules);
+
+  // If not a reviewer assignment, check for label trigger
+  if (!filterResult.shouldProcess) {
+    filterResult = filterGitLabLabelEvent(event, triggerRules);
+  }
 
   // Debug: log reviewers data
   logger.info(
@@ -479,7 +706,7 @@ export async function handleGitLabWebhook(
 
   if (!filterResult.shouldProcess) {
     // Check if this is an MR update that might need a followup review
-    const updateResult = filterGitLabMrUpdate(event);
+    const updateResult = filterGitLabMrUpdate(event, triggerRules);
     logger.debug(
       { updateResult, action: event.object_attributes?.action },
       'Checking for followup review'
@@ -502,6 +729,39 @@ export async function handleGitLabWebhook(
           'Push event recorded'
         );
 
+        if (updateResult.headSha && loadProjectConfig(updateRepoConfig.localPath)?.supersedeOnPush) {
+          const superseded = supersedeStaleReviews(
+            {
+              platform: 'gitlab',
+              projectPath: updateResult.projectPath,
+              localPath: updateRepoConfig.localPath,
+              mrNumber: updateResult.mergeRequestNumber,
+            },
+            updateResult.headSha,
+            {
+              queuePort: { createJobId, getRunningJob, supersedeJob, whenJobSettled },
+              reviewContextGateway: deps.reviewContextGateway,
+              recordSupersession: deps.recordSupersession,
+              now: deps.now,
+              logger,
+            },
+          );
+          if (superseded.length > 0) {
+            for (const staleJob of superseded) {
+              const freshJob: ReviewJob = { ...staleJob, headSha: updateResult.headSha, resumedFrom: undefined };
+              const buildProcessor =
+                freshJob.jobType === 'followup' ? buildGitLabFollowupProcessor : buildGitLabReviewProcessor;
+              await enqueueReview(freshJob, buildProcessor(deps, logger)(freshJob));
+            }
+            reply.status(202).send({
+              status: 'superseded',
+              jobIds: superseded.map((job) => job.id),
+              mrNumber: updateResult.mergeRequestNumber,
+            });
+            return;
+          }
+        }
+
         // Check if this MR needs a followup (has open threads and was pushed since last review)
         const needsFollowup = mr && checkFollowupNeeded.execute({ projectPath: updateRepoConfig.localPath, mrNumber: updateResult.mergeRequestNumber, platform: 'gitlab' });
         logger.info({ needsFollowup, mrState: mr?.state }, 'Followup check result');
@@ -516,271 +776,222 @@ export async function handleGitLabWebhook(
             return;
           }
 
+          const followupTriggerDecision = evaluateTriggerRules(triggerRules, {
+            targetBranch: updateResult.targetBranch,
+            author: fetchMergeRequestAuthor(
+              deps.mergeRequestMetadataFetchGateway,
+              updateResult.projectPath,
+              updateResult.mergeRequestNumber,
+              logger,
+            ),
+            draft: event.object_attributes.draft,
+            changedFiles: lazyChangedFiles(
+              deps.changedFilesFetchGateway,
+              updateResult.projectPath,
+              updateResult.mergeRequestNumber,
+              logger,
+            ),
+          });
+          if (!followupTriggerDecision.allowed) {
+            logger.info(
+              { mrNumber: updateResult.mergeRequestNumber, reason: followupTriggerDecision.reason },
+              'Followup skipped by trigger rules'
+            );
+            reply.status(200).send({ status: 'ignored', reason: followupTriggerDecision.reason });
+            return;
+          }
+
           logger.info(
             { mrNumber: updateResult.mergeRequestNumber, project: updateResult.projectPath },
             'Auto-triggering followup review after push'
           );
 
-          const projectConfig = loadProjectConfig(updateRepoConfig.localPath);
-          const skill = projectConfig?.reviewFollowupSkill || 'review-followup';
+          await submitGitLabFollowup(
+            {
+              target: updateResult,
+              repoConfig: updateRepoConfig,
+              actor: event.user.username,
+              labels: event.labels?.map((label) => label.title),
+            },
+            reply,
+            logger,
+            deps,
+          );
+          return;
+        }
+      }
+    }
 
-          const followupJobId = createJobId('gitlab-followup', updateResult.projectPath, updateResult.mergeRequestNumber);
-          const followupJob: ReviewJob = {
-            id: followupJobId,
-            platform: 'gitlab',
-            projectPath: updateResult.projectPath,
-            localPath: updateRepoConfig.localPath,
-            mrNumber: updateResult.mergeRequestNumber,
-            skill,
-            mrUrl: updateResult.mergeRequestUrl,
-            sourceBranch: updateResult.sourceBranch,
-            targetBranch: updateResult.targetBranch,
-            jobType: 'followup',
-          };
+    reply.status(200).send({ status: 'ignored', reason: filterResult.reason });
+    return;
+  }
 
-          const followupBudgetDecision = await deps.enforceBudget.execute({
-            localPaths: listEnabledLocalPaths(deps.getRepositories),
-          });
-          if (!followupBudgetDecision.accepted) {
-            logger.warn(
-              {
-                mrNumber: followupJob.mrNumber,
-                limitUsd: followupBudgetDecision.status.limitUsd,
-                consumedUsd: followupBudgetDecision.status.consumedUsd,
-              },
-              'Budget exceeded, followup not enqueued'
-            );
-            deps.broadcastBudgetExceeded({
-              mrNumber: followupJob.mrNumber,
-              platform: 'gitlab',
-              projectPath: followupJob.projectPath,
-              limitUsd: followupBudgetDecision.status.limitUsd,
-              consumedUsd: followupBudgetDecision.status.consumedUsd,
-            });
-            reply.status(200).send({ status: 'rejected', reason: 'budget-exceeded' });
-            return;
-          }
+  await submitGitLabReview(
+    {
+      filterResult,
+      actor: event.user,
+      assignee: event.assignees?.[0],
+      title: event.object_attributes.title,
+      description: event.object_attributes.description,
+      draft: event.object_attributes.draft,
+      labels: event.labels?.map((label) => label.title),
+    },
+    triggerRules,
+    reply,
+    logger,
+    deps,
+  );
+}
 
-          const followupProcessor = async (j: ReviewJob, signal: AbortSignal): Promise<void> => {
-            sendNotification('Review followup démarrée', `MR !${j.mrNumber} - ${j.projectPath}`, logger);
-
-            // Create review context file with pre-fetched threads and diff metadata
-            const mergeRequestId = `gitlab-${j.projectPath}-${j.mrNumber}`;
-            const contextGateway = deps.reviewContextGateway;
-            const threadFetchGw = deps.threadFetchGateway;
-            const diffMetadataFetchGw = deps.diffMetadataFetchGateway;
-
-            try {
-              const threads = threadFetchGw.fetchThreads(j.projectPath, j.mrNumber);
-              let diffMetadata: import('@/modules/review-execution/entities/reviewContext/reviewContext.js').DiffMetadata | undefined;
-              try {
-                diffMetadata = diffMetadataFetchGw.fetchDiffMetadata(j.projectPath, j.mrNumber);
-              } catch (error) {
-                logger.warn(
-                  { mrNumber: j.mrNumber, error: error instanceof Error ? error.message : String(error) },
-                  'Failed to fetch diff metadata for followup, inline comments will be skipped'
-                );
-              }
-              const followupAgentsList = getFollowupAgents(j.localPath) ?? DEFAULT_FOLLOWUP_AGENTS;
-              contextGateway.create({
-                localPath: j.localPath,
-                mergeRequestId,
-                platform: 'gitlab',
-                projectPath: j.projectPath,
-                mergeRequestNumber: j.mrNumber,
-                threads,
-                agents: followupAgentsList,
-                diffMetadata,
-              });
-              logger.info(
-                { mrNumber: j.mrNumber, threadsCount: threads.length, hasDiffMetadata: !!diffMetadata },
-                'Review context file created with threads for followup'
-              );
-
-              startWatchingReviewContext(j.id, j.localPath, mergeRequestId);
-              logger.info({ mrNumber: j.mrNumber }, 'Started watching review context for live progress');
-            } catch (error) {
-              logger.warn(
-                { mrNumber: j.mrNumber, error: error instanceof Error ? error.message : String(error) },
-                'Failed to create review context file for followup, continuing without it'
-              );
-            }
+/**
+ * A merge request a push (or a `/reviewflow followup` or `explain` command)
+ * asked to re-check against its open threads.
+ */
+interface GitLabFollowupRequest {
+  target: Extract<FilterResult, { shouldProcess: true }>;
+  repoConfig: RepositoryConfig;
+  /** Who triggered the followup; provenance is checked against this user. */
+  actor: string;
+  explainThreadId?: string;
+  /** Merge request labels, only carried by merge request hooks. */
+  labels?: string[];
+}
 
-            const result = await invokeClaudeReview(j, logger, (progress, progressEvent) => {
-              updateJobProgress(j.id, progress, progressEvent);
-
-              // Also update the review context file for file-based progress tracking
-              const runningAgent = progress.agents.find(a => a.status === 'running');
-              const completedAgents = progress.agents
-                .filter(a => a.status === 'completed')
-                .map(a => a.name);
-
-              contextGateway.updateProgress(j.localPath, mergeRequestId, {
-                phase: progress.currentPhase,
-                currentStep: runningAgent?.name ?? null,
-                stepsCompleted: completedAgents,
-              });
-            }, signal, deps.claudeInvokerDeps);
-
-            stopWatchingReviewContext(mergeRequestId);
-
-            if (result.success) {
-              // Parse review output for stats
-              const parsed = parseReviewOutput(result.stdout);
-
-              let threadResolveCount = 0;
-
-              // PRIMARY: Execute actions from context file (agent writes actions here)
-              const reviewContext = contextGateway.read(j.localPath, mergeRequestId);
-              if (reviewContext && reviewContext.actions.length > 0) {
-                threadResolveCount = reviewContext.actions.filter(a => a.type === 'THREAD_RESOLVE').length;
-                const followupBaseUrl = extractBaseUrl(updateRepoConfig.remoteUrl);
-                const contextActionResult = await executeActionsFromContext(
-                  reviewContext,
-                  j.localPath,
-                  logger,
-                  defaultCommandExecutor,
-                  followupBaseUrl,
-                  deps.noteCommentPostGateway,
-                );
-                logger.info(
-                  { ...contextActionResult, threadResolveCount, mrNumber: j.mrNumber },
-                  'Actions executed from context file for followup'
-                );
-                contextGateway.setResult(
-                  j.localPath,
-                  mergeRequestId,
-                  ReviewContextResultFactory.fromParsedReview(parsed),
-                );
-              } else {
-                // FALLBACK: Execute thread actions from stdout markers (backward compatibility)
-                const threadActions = parseThreadActions(result.stdout);
-                if (threadActions.length > 0) {
-                  threadResolveCount = threadActions.filter(a => a.type === 'THREAD_RESOLVE').length;
-                  const actionResult = await dispatchConstrainedActions(
-                    threadActions,
-                    {
-                      context: {
-                        platform: 'gitlab',
-                        projectPath: j.projectPath,
-                        mrNumber: j.mrNumber,
-                        localPath: j.localPath,
-                      },
-                      provenance: resolveProvenance(null),
-                      inventoryGateway: new GitLabThreadInventoryGateway(defaultGitLabExecutor),
-                      logger,
-                      executor: defaultCommandExecutor,
-                      postGateway: deps.noteCommentPostGateway,
-                    }
-                  );
-                  logger.info(
-                    { ...actionResult, threadResolveCount, mrNumber: j.mrNumber },
-                    'Thread actions executed from stdout markers for followup (fallback)'
-                  );
-                }
-              }
+/**
+ * Budget check, processor and gated submission of a followup job.
+ */
+async function submitGitLabFollowup(
+  request: GitLabFollowupRequest,
+  reply: FastifyReply,
+  logger: Logger,
+  deps: GitLabWebhookDependencies,
+): Promise<void> {
+  const { target, repoConfig } = request;
 
-              // Sync threads from GitLab FIRST to get real state after followup resolves threads
-              const mrId = `gitlab-${j.projectPath}-${j.mrNumber}`;
-              const updatedMr = syncThreads.execute({ projectPath: j.localPath, mrId });
+  const projectConfig = loadProjectConfig(repoConfig.localPath);
+  const skill = projectConfig?.reviewFollowupSkill || 'review-followup';
 
-              let followupDiffStats = null;
-              try {
-                followupDiffStats = deps.diffStatsFetchGateway.fetchDiffStats(j.projectPath, j.mrNumber);
-              } catch {
-                logger.warn({ mrNumber: j.mrNumber }, 'Failed to fetch diff stats for followup');
-              }
+  const followupJobId = createJobId('gitlab-followup', target.projectPath, target.mergeRequestNumber);
+  const followupJob: ReviewJob = {
+    id: followupJobId,
+    platform: 'gitlab',
+    projectPath: target.projectPath,
+    localPath: repoConfig.localPath,
+    mrNumber: target.mergeRequestNumber,
+    skill,
+    mrUrl: target.mergeRequestUrl,
+    sourceBranch: target.sourceBranch,
+    targetBranch: target.targetBranch,
+    jobType: 'followup',
+    explainThreadId: request.explainThreadId,
+    triggeredBy: request.actor,
+    labels: request.labels,
+    headSha: target.headSha,
+  };
 
-              recordCompletion.execute({
-                projectPath: j.localPath,
-                mrId,
-                reviewData: {
-                  type: 'followup',
-                  durationMs: result.durationMs,
-                  score: parsed.score,
-                  blocking: parsed.blocking,
-                  warnings: parsed.warnings,
-                  suggestions: parsed.suggestions,
-                  threadsOpened: 0,
-                  threadsClosed: threadResolveCount,
-                  diffStats: followupDiffStats,
-                },
-                qualityThreshold: loadProjectConfig(j.localPath)?.qualityThreshold ?? null,
-              });
-              logger.info(
-                {
-                  mrNumber: j.mrNumber,
-                  score: parsed.score,
-                  blocking: parsed.blocking,
-                  warnings: parsed.warnings,
-                  suggestions: parsed.suggestions,
-                  durationMs: result.durationMs,
-                  openThreads: updatedMr?.openThreads,
-                  state: updatedMr?.state,
-                },
-                'Followup stats recorded and threads synced'
-              );
-
-              sendNotification('Review followup terminée', `MR !${j.mrNumber} - ${j.projectPath}`, logger);
-            } else if (!result.cancelled) {
-              sendNotification('Review followup échouée', `MR !${j.mrNumber} - Code ${result.exitCode}`, logger);
-              throw new Error(
-                result.stderr?.trim() || `Followup review failed with exit code ${result.exitCode}`
-              );
-            }
-          };
+  const followupBudgetDecision = await deps.enforceBudget.execute({
+    localPaths: listEnabledLocalPaths(deps.getRepositories),
+  });
+  if (!followupBudgetDecision.accepted) {
+    logger.warn(
+      {
+        mrNumber: followupJob.mrNumber,
+        limitUsd: followupBudgetDecision.status.limitUsd,
+        consumedUsd: followupBudgetDecision.status.consumedUsd,
+      },
+      'Budget exceeded, followup not enqueued'
+    );
+    deps.broadcastBudgetExceeded({
+      mrNumber: followupJob.mrNumber,
+      platform: 'gitlab',
+      projectPath: followupJob.projectPath,
+      limitUsd: followupBudgetDecision.status.limitUsd,
+      consumedUsd: followupBudgetDecision.status.consumedUsd,
+    });
+    reply.status(200).send({ status: 'rejected', reason: 'budget-exceeded' });
+    return;
+  }
 
-          // SPEC-197 AC2: gate the followup trigger on actor provenance.
-          const followupActorTrusted = await resolveActorTrust(
-            deps,
-            updateResult.projectPath,
-            event.user.username,
-          );
+  const followupProcessor = buildGitLabFollowupProcessor(deps, logger)(followupJob);
 
-          if (deps.gateClaudeInvocation) {
-            const gateResult = await deps.gateClaudeInvocation.execute({
-              job: followupJob,
-              triggerSource: 'webhook-followup',
-              processor: followupProcessor,
-              actorTrusted: followupActorTrusted,
-            });
-            if (gateResult.status === 'pending') {
-              reply.status(202).send({
-                status: 'pending-confirmation',
-                pendingId: gateResult.pendingId,
-                mrNumber: updateResult.mergeRequestNumber,
-              });
-              return;
-            }
-          } else if (followupActorTrusted) {
-            enqueueReview(followupJob, followupProcessor);
-          } else {
-            logger.info(
-              { mrNumber: updateResult.mergeRequestNumber, actor: event.user.username },
-              'Followup trigger from non-trusted actor parked (provenance gate)',
-            );
-            reply.status(202).send({
-              status: 'pending-confirmation',
-              reason: 'untrusted-actor',
-              mrNumber: updateResult.mergeRequestNumber,
-            });
-            return;
-          }
+  // SPEC-197 AC2: gate the followup trigger on actor provenance.
+  const followupActorTrusted = await resolveActorTrust(
+    deps,
+    target.projectPath,
+    request.actor,
+  );
 
-          reply.status(202).send({
-            status: 'followup-queued',
-            jobId: followupJobId,
-            mrNumber: updateResult.mergeRequestNumber,
-          });
-          return;
-        }
-      }
+  if (deps.gateClaudeInvocation) {
+    const gateResult = await deps.gateClaudeInvocation.execute({
+      job: followupJob,
+      triggerSource: 'webhook-followup',
+      processor: followupProcessor,
+      actorTrusted: followupActorTrusted,
+    });
+    if (gateResult.status === 'pending') {
+      reply.status(202).send({
+        status: 'pending-confirmation',
+        pendingId: gateResult.pendingId,
+        mrNumber: target.mergeRequestNumber,
+      });
+      return;
     }
-
-    reply.status(200).send({ status: 'ignored', reason: filterResult.reason });
+  } else if (followupActorTrusted) {
+    enqueueReview(followupJob, followupProcessor);
+  } else {
+    logger.info(
+      { mrNumber: target.mergeRequestNumber, actor: request.actor },
+      'Followup trigger from non-trusted actor parked (provenance gate)',
+    );
+    reply.status(202).send({
+      status: 'pending-confirmation',
+      reason: 'untrusted-actor',
+      mrNumber: target.mergeRequestNumber,
+    });
     return;
   }
 
+  reply.status(202).send({
+    status: 'followup-queued',
+    jobId: followupJobId,
+    mrNumber: target.mergeRequestNumber,
+  });
+}
+
+interface GitLabUser {
+  username: string;
+  name: string;
+}
+
+/**
+ * A merge request an event asked to review (reviewer added, trigger label or
+ * trigger command), with the metadata that event carries.
+ */
+interface GitLabReviewRequest {
+  filterResult: Extract<FilterResult, { shouldProcess: true }>;
+  /** Who triggered the event; provenance is checked against this user. */
+  actor: GitLabUser;
+  assignee?: GitLabUser;
+  title?: string;
+  description?: string;
+  draft?: boolean;
+  labels?: string[];
+}
+
+/**
+ * Tracking and job submission for a merge request to review. The trigger rules
+ * are evaluated here, once the repository is known to be configured.
+ */
+async function submitGitLabReview(
+  request: GitLabReviewRequest,
+  triggerRules: TriggerRules,
+  reply: FastifyReply,
+  logger: Logger,
+  deps: GitLabWebhookDependencies,
+): Promise<void> {
+  const { filterResult } = request;
+  const { trackAssignment } = deps;
+
   // 4. Find repository configuration
   const repoConfig = findRepositoryByProjectPath(filterResult.projectPath);
   if (!repoConfig) {
@@ -795,18 +1006,48 @@ export async function handleGitLabWebhook(
     return;
   }
 
+  // 4b. Apply the repository's trigger rules, against the MR author rather than
+  // the actor: GitLab webhooks only carry the author id, so it is fetched.
+  const authorUsername = fetchMergeRequestAuthor(
+    deps.mergeRequestMetadataFetchGateway,
+    filterResult.projectPath,
+    filterResult.mergeRequestNumber,
+    logger,
+  );
+  const triggerDecision = evaluateTriggerRules(triggerRules, {
+    targetBranch: filterResult.targetBranch,
+    author: authorUsername,
+    draft: request.draft,
+    changedFiles: lazyChangedFiles(
+      deps.changedFilesFetchGateway,
+      filterResult.projectPath,
+      filterResult.mergeRequestNumber,
+      logger,
+    ),
+  });
+  if (!triggerDecision.allowed) {
+    logger.info(
+      { mrNumber: filterResult.mergeRequestNumber, reason: triggerDecision.reason },
+      'Review skipped by trigger rules'
+    );
+    reply.status(200).send({ status: 'ignored', reason: triggerDecision.reason });
+    return;
+  }
+
   // 5. Track MR assignment with user info
   // Use MR assignee (actual owner), not webhook trigger (who added the reviewer)
-  const mrTitle = event.object_attributes?.title || `MR !${filterResult.mergeRequestNumber}`;
-  const mrAssignee = event.assignees?.[0];
+  const mrTitle = request.title || `MR !${filterResult.mergeRequestNumber}`;
+  const mrAssignee = request.assignee;
   const assignedBy = {
-    username: mrAssignee?.username || event.user?.username || 'unknown',
-    displayName: mrAssignee?.name || event.user?.name,
+    username: mrAssignee?.username || request.actor.username || 'unknown',
+    displayName: mrAssignee?.name || request.actor.name,
   };
-  // Best-effort author from the GitLab webhook (event.user is the actor that opened/updated the MR).
   // The GitLab webhook does not expose diff size stats, so sizeMetrics stays undefined here.
-  const author = event.user?.username
-    ? { username: event.user.username, displayName: event.user.name }
+  const author = authorUsername
+    ? {
+        username: authorUsername,
+        displayName: authorUsername === request.actor.username ? request.actor.name : undefined,
+      }
     : undefined;
 
   trackAssignment.execute({
@@ -844,9 +1085,11 @@ export async function handleGitLabWebhook(
     language: getProjectLanguage(repoConfig.localPath),
     // MR metadata for dashboard
     title: mrTitle,
-    description: event.object_attributes?.description,
+    description: request.description,
     assignedBy,
     author,
+    labels: request.labels,
+    triggeredBy: request.actor.username,
   };
 
   const budgetDecision = await deps.enforceBudget.execute({
@@ -878,7 +1121,7 @@ export async function handleGitLabWebhook(
   const reviewerActorTrusted = await resolveActorTrust(
     deps,
     filterResult.projectPath,
-    event.user.username,
+    request.actor.username,
   );
 
   if (deps.gateClaudeInvocation) {
@@ -914,7 +1157,7 @@ export async function handleGitLabWebhook(
 
   if (!reviewerActorTrusted) {
     logger.info(
-      { mrNumber: filterResult.mergeRequestNumber, actor: event.user.username },
+      { mrNumber: filterResult.mergeRequestNumber, actor: request.actor.username },
       'Reviewer-added trigger from non-trusted actor parked (provenance gate)',
     );
     reply.status(202).send({
@@ -947,9 +1190,13 @@ type GitLabReviewProcessorDeps = Pick<GitLabWebhookDependencies,
   | 'threadFetchGateway'
   | 'diffMetadataFetchGateway'
   | 'diffStatsFetchGateway'
+  | 'changedFilesFetchGateway'
   | 'recordCompletion'
   | 'claudeInvokerDeps'
   | 'noteCommentPostGateway'
+  | 'shadowLogGateway'
+  | 'parkReviewPublication'
+  | 'isTrustedActor'
 >;
 
 export function buildGitLabReviewProcessor(
@@ -1003,7 +1250,13 @@ export function buildGitLabReviewProcessor(
             'Failed to fetch diff metadata, inline comments will be skipped'
           );
         }
-        const reviewAgentsList = getProjectAgentsOrFocusDefaults(j.localPath) ?? DEFAULT_AGENTS;
+        const reviewAgents = selectReviewAgents(
+          getProjectAgentsOrFocusDefaults(j.localPath) ?? DEFAULT_AGENTS,
+          deps.changedFilesFetchGateway,
+          j.projectPath,
+          j.mrNumber,
+          logger,
+        );
         contextGateway.create({
           localPath: j.localPath,
           mergeRequestId,
@@ -1011,8 +1264,10 @@ export function buildGitLabReviewProcessor(
           projectPath: j.projectPath,
           mergeRequestNumber: j.mrNumber,
           threads,
-          agents: reviewAgentsList,
+          agents: reviewAgents.agents,
           diffMetadata,
+          skippedAgents: reviewAgents.skipped,
+          publishMode: j.publishMode,
         });
         logger.info(
           { mrNumber: j.mrNumber, threadsCount: threads.length, hasDiffMetadata: !!diffMetadata },
@@ -1057,24 +1312,47 @@ export function buildGitLabReviewProcessor(
         );
       } else if (result.success) {
         // Parse review output for stats
-        const parsed = parseReviewOutput(result.stdout);
+        const parsed = resolveReviewStats(
+          parseReviewOutput(result.stdout),
+          contextGateway.read(j.localPath, mergeRequestId),
+        );
+
+        const shadow = resolveShadowOutput(
+          j,
+          result.reportPath,
+          deps.shadowLogGateway ?? new ShadowLogFileSystemGateway(logger),
+        );
 
         // PRIMARY: Execute actions from context file (agent writes actions here)
         const reviewContext = contextGateway.read(j.localPath, mergeRequestId);
         if (reviewContext && reviewContext.actions.length > 0) {
           const reviewBaseUrl = extractBaseUrl(repoConfig.remoteUrl);
-          const contextActionResult = await executeActionsFromContext(
-            reviewContext,
-            j.localPath,
-            logger,
-            defaultCommandExecutor,
-            reviewBaseUrl,
-            deps.noteCommentPostGateway,
-          );
-          logger.info(
-            { ...contextActionResult, mrNumber: j.mrNumber },
-            'Actions executed from context file'
-          );
+          const linkedComments = buildCrossRepoComments(result.stdout, j, result.linkedMergeRequests, logger);
+          const heldForApproval = await holdForApproval(deps.parkReviewPublication, shadow, {
+            context: reviewContext,
+            linkedComments,
+            localPath: j.localPath,
+            jobType: 'review',
+            baseUrl: reviewBaseUrl,
+            verdict: ReviewContextResultFactory.fromParsedReview(parsed).verdict,
+          });
+          if (!heldForApproval) {
+            const contextActionResult = await executeActionsFromContext(
+              reviewContext,
+              j.localPath,
+              logger,
+              defaultCommandExecutor,
+              reviewBaseUrl,
+              deps.noteCommentPostGateway,
+              null,
+              shadow,
+            );
+            logger.info(
+              { ...contextActionResult, mrNumber: j.mrNumber },
+              'Actions executed from context file'
+            );
+            await postLinkedComments(linkedComments, j.platform, deps.noteCommentPostGateway, shadow, logger);
+          }
           contextGateway.setResult(
             j.localPath,
             mergeRequestId,
@@ -1093,11 +1371,25 @@ export function buildGitLabReviewProcessor(
                   mrNumber: j.mrNumber,
                   localPath: j.localPath,
                 },
-                provenance: resolveProvenance(null),
+                provenance: await resolveJobProvenance(deps, j),
                 inventoryGateway: new GitLabThreadInventoryGateway(defaultGitLabExecutor),
                 logger,
                 executor: defaultCommandExecutor,
                 postGateway: deps.noteCommentPostGateway,
+                shadow,
+                holdForApproval: comments => holdForApproval(deps.parkReviewPublication, shadow, {
+                  context: {
+                    mergeRequestId,
+                    platform: 'gitlab',
+                    projectPath: j.projectPath,
+                    mergeRequestNumber: j.mrNumber,
+                    actions: comments,
+                  },
+                  localPath: j.localPath,
+                  jobType: 'review',
+                  baseUrl: extractBaseUrl(repoConfig.remoteUrl),
+                  verdict: ReviewContextResultFactory.fromParsedReview(parsed).verdict,
+                }),
               }
             );
             logger.info(
@@ -1126,6 +1418,8 @@ export function buildGitLabReviewProcessor(
             suggestions: parsed.suggestions,
             threadsOpened: parsed.blocking,
             diffStats: reviewDiffStats,
+            headSha: result.reviewedHeadSha,
+            findings: parsed.findings,
           },
           qualityThreshold: loadProjectConfig(j.localPath)?.qualityThreshold ?? null,
         });
@@ -1159,3 +1453,227 @@ export function buildGitLabReviewProcessor(
       }
   };
 }
+
+type GitLabFollowupProcessorDeps = GitLabReviewProcessorDeps & Pick<GitLabWebhookDependencies, 'syncThreads'>;
+
+/**
+ * Processor of a followup job. Like the review one it only needs the job, so a
+ * followup queued before a restart can be resumed from the queue journal.
+ */
+export function buildGitLabFollowupProcessor(
+  deps: GitLabFollowupProcessorDeps,
+  logger: Logger,
+): ProcessorBuilder {
+  const { recordCompletion, syncThreads } = deps;
+  return (_job: ReviewJob) => async (j: ReviewJob, signal: AbortSignal): Promise<void> => {
+    const repoConfig = findRepositoryByProjectPath(j.projectPath);
+    if (!repoConfig) {
+      throw new Error(`No GitLab repository configured for projectPath "${j.projectPath}"`);
+    }
+    sendNotification('Review followup démarrée', `MR !${j.mrNumber} - ${j.projectPath}`, logger);
+
+    // Create review context file with pre-fetched threads and diff metadata
+    const mergeRequestId = `gitlab-${j.projectPath}-${j.mrNumber}`;
+    const contextGateway = deps.reviewContextGateway;
+    const threadFetchGw = deps.threadFetchGateway;
+    const diffMetadataFetchGw = deps.diffMetadataFetchGateway;
+
+    try {
+      const threads = threadFetchGw.fetchThreads(j.projectPath, j.mrNumber);
+      let diffMetadata: import('@/modules/review-execution/entities/reviewContext/reviewContext.js').DiffMetadata | undefined;
+      try {
+        diffMetadata = diffMetadataFetchGw.fetchDiffMetadata(j.projectPath, j.mrNumber);
+      } catch (error) {
+        logger.warn(
+          { mrNumber: j.mrNumber, error: error instanceof Error ? error.message : String(error) },
+          'Failed to fetch diff metadata for followup, inline comments will be skipped'
+        );
+      }
+      const followupAgentsList = getFollowupAgents(j.localPath) ?? DEFAULT_FOLLOWUP_AGENTS;
+      contextGateway.create({
+        localPath: j.localPath,
+        mergeRequestId,
+        platform: 'gitlab',
+        projectPath: j.projectPath,
+        mergeRequestNumber: j.mrNumber,
+        threads,
+        agents: followupAgentsList,
+        diffMetadata,
+        publishMode: j.publishMode,
+      });
+      logger.info(
+        { mrNumber: j.mrNumber, threadsCount: threads.length, hasDiffMetadata: !!diffMetadata },
+        'Review context file created with threads for followup'
+      );
+
+      startWatchingReviewContext(j.id, j.localPath, mergeRequestId);
+      logger.info({ mrNumber: j.mrNumber }, 'Started watching review context for live progress');
+    } catch (error) {
+      logger.warn(
+        { mrNumber: j.mrNumber, error: error instanceof Error ? error.message : String(error) },
+        'Failed to create review context file for followup, continuing without it'
+      );
+    }
+
+    const result = await invokeClaudeReview(j, logger, (progress, progressEvent) => {
+      updateJobProgress(j.id, progress, progressEvent);
+
+      // Also update the review context file for file-based progress tracking
+      const runningAgent = progress.agents.find(a => a.status === 'running');
+      const completedAgents = progress.agents
+        .filter(a => a.status === 'completed')
+        .map(a => a.name);
+
+      contextGateway.updateProgress(j.localPath, mergeRequestId, {
+        phase: progress.currentPhase,
+        currentStep: runningAgent?.name ?? null,
+        stepsCompleted: completedAgents,
+      });
+    }, signal, deps.claudeInvokerDeps);
+
+    stopWatchingReviewContext(mergeRequestId);
+
+    if (result.success) {
+      // Parse review output for stats
+      const parsed = resolveReviewStats(
+        parseReviewOutput(result.stdout),
+        contextGateway.read(j.localPath, mergeRequestId),
+      );
+
+      let threadResolveCount = 0;
+      const shadow = resolveShadowOutput(
+        j,
+        result.reportPath,
+        deps.shadowLogGateway ?? new ShadowLogFileSystemGateway(logger),
+      );
+
+      // PRIMARY: Execute actions from context file (agent writes actions here)
+      const reviewContext = contextGateway.read(j.localPath, mergeRequestId);
+      if (reviewContext && reviewContext.actions.length > 0) {
+        threadResolveCount = reviewContext.actions.filter(a => a.type === 'THREAD_RESOLVE').length;
+        const followupBaseUrl = extractBaseUrl(repoConfig.remoteUrl);
+        const linkedComments = buildCrossRepoComments(result.stdout, j, result.linkedMergeRequests, logger);
+        const heldForApproval = await holdForApproval(deps.parkReviewPublication, shadow, {
+          context: reviewContext,
+          linkedComments,
+          localPath: j.localPath,
+          jobType: 'followup',
+          baseUrl: followupBaseUrl,
+          verdict: ReviewContextResultFactory.fromParsedReview(parsed).verdict,
+        });
+        if (!heldForApproval) {
+          const contextActionResult = await executeActionsFromContext(
+            reviewContext,
+            j.localPath,
+            logger,
+            defaultCommandExecutor,
+            followupBaseUrl,
+            deps.noteCommentPostGateway,
+            null,
+            shadow,
+          );
+          logger.info(
+            { ...contextActionResult, threadResolveCount, mrNumber: j.mrNumber },
+            'Actions executed from context file for followup'
+          );
+          await postLinkedComments(linkedComments, j.platform, deps.noteCommentPostGateway, shadow, logger);
+        }
+        contextGateway.setResult(
+          j.localPath,
+          mergeRequestId,
+          ReviewContextResultFactory.fromParsedReview(parsed),
+        );
+      } else {
+        // FALLBACK: Execute thread actions from stdout markers (backward compatibility)
+        const threadActions = parseThreadActions(result.stdout);
+        if (threadActions.length > 0) {
+          threadResolveCount = threadActions.filter(a => a.type === 'THREAD_RESOLVE').length;
+          const actionResult = await dispatchConstrainedActions(
+            threadActions,
+            {
+              context: {
+                platform: 'gitlab',
+                projectPath: j.projectPath,
+                mrNumber: j.mrNumber,
+                localPath: j.localPath,
+              },
+              provenance: await resolveJobProvenance(deps, j),
+              inventoryGateway: new GitLabThreadInventoryGateway(defaultGitLabExecutor),
+              logger,
+              executor: defaultCommandExecutor,
+              postGateway: deps.noteCommentPostGateway,
+              shadow,
+              holdForApproval: comments => holdForApproval(deps.parkReviewPublication, shadow, {
+                context: {
+                  mergeRequestId,
+                  platform: 'gitlab',
+                  projectPath: j.projectPath,
+                  mergeRequestNumber: j.mrNumber,
+                  actions: comments,
+                },
+                localPath: j.localPath,
+                jobType: 'followup',
+                baseUrl: extractBaseUrl(repoConfig.remoteUrl),
+                verdict: ReviewContextResultFactory.fromParsedReview(parsed).verdict,
+              }),
+            }
+          );
+          logger.info(
+            { ...actionResult, threadResolveCount, mrNumber: j.mrNumber },
+            'Thread actions executed from stdout markers for followup (fallback)'
+          );
+        }
+      }
+
+      // Sync threads from GitLab FIRST to get real state after followup resolves threads
+      const mrId = `gitlab-${j.projectPath}-${j.mrNumber}`;
+      const updatedMr = syncThreads.execute({ projectPath: j.localPath, mrId });
+
+      let followupDiffStats = null;
+      try {
+        followupDiffStats = deps.diffStatsFetchGateway.fetchDiffStats(j.projectPath, j.mrNumber);
+      } catch {
+        logger.warn({ mrNumber: j.mrNumber }, 'Failed to fetch diff stats for followup');
+      }
+
+      recordCompletion.execute({
+        projectPath: j.localPath,
+        mrId,
+        reviewData: {
+          type: 'followup',
+          durationMs: result.durationMs,
+          score: parsed.score,
+          blocking: parsed.blocking,
+          warnings: parsed.warnings,
+          suggestions: parsed.suggestions,
+          threadsOpened: 0,
+          threadsClosed: threadResolveCount,
+          diffStats: followupDiffStats,
+          headSha: result.reviewedHeadSha,
+          findings: parsed.findings,
+        },
+        qualityThreshold: loadProjectConfig(j.localPath)?.qualityThreshold ?? null,
+      });
+      logger.info(
+        {
+          mrNumber: j.mrNumber,
+          score: parsed.score,
+          blocking: parsed.blocking,
+          warnings: parsed.warnings,
+          suggestions: parsed.suggestions,
+          durationMs: result.durationMs,
+          openThreads: updatedMr?.openThreads,
+          state: updatedMr?.state,
+        },
+        'Followup stats recorded and threads synced'
+      );
+
+      sendNotification('Review followup terminée', `MR !${j.mrNumber} - ${j.projectPath}`, logger);
+    } else if (!result.cancelled) {
+      sendNotification('Review followup échouée', `MR !${j.mrNumber} - Code ${result.exitCode}`, logger);
+      throw new Error(
+        result.stderr?.trim() || `Followup review failed with exit code ${result.exitCode}`
+      );
+    }
+  };
+}
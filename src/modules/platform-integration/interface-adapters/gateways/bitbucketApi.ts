@@ -0,0 +1,96 @@
+import { execSync } from 'node:child_process'
+
+export type CommandExecutor = (command: string) => string
+
+const DEFAULT_BITBUCKET_API_URL = 'https://api.bitbucket.org/2.0'
+
+const DATA_CENTER_API_PATH = '/rest/api/1.0'
+
+export type BitbucketHttpMethod = 'GET' | 'POST' | 'PUT'
+
+/**
+ * Base URL of the Bitbucket Data Center instance (e.g.
+ * `https://bitbucket.example.com`), null on Bitbucket Cloud. Data Center serves
+ * REST 1.0, with its own paths and payloads, instead of the Cloud 2.0 API.
+ */
+export function bitbucketDataCenterUrl(): string | null {
+  return process.env.BITBUCKET_DATA_CENTER_URL?.replace(/\/+$/, '') || null
+}
+
+/**
+ * Bitbucket has no first-party CLI comparable to gh/glab, so every call goes
+ * through curl. Credentials (username + app password, or an HTTP access token
+ * on Data Center) are read from ~/.netrc so they never appear in argv or in
+ * the process list.
+ */
+export function bitbucketApiUrl(path: string): string {
+  const dataCenterUrl = bitbucketDataCenterUrl()
+  const base = dataCenterUrl
+    ? `${dataCenterUrl}${DATA_CENTER_API_PATH}`
+    : (process.env.BITBUCKET_API_URL || DEFAULT_BITBUCKET_API_URL).replace(/\/+$/, '')
+  return path.startsWith('http') ? path : `${base}/${path.replace(/^\/+/, '')}`
+}
+
+/**
+ * API path of a pull request. The project path is `<workspace>/<repo>` on
+ * Cloud and `<PROJECT KEY>/<repo>` on Data Center.
+ */
+export function bitbucketPullRequestPath(projectPath: string, pullRequestId: number): string {
+  if (bitbucketDataCenterUrl() === null) {
+    return `repositories/${projectPath}/pullrequests/${pullRequestId}`
+  }
+  const [projectKey, repositorySlug] = projectPath.split('/')
+  return `projects/${projectKey}/repos/${repositorySlug}/pull-requests/${pullRequestId}`
+}
+
+export function buildBitbucketCurlArgs(
+  method: BitbucketHttpMethod,
+  path: string,
+  body?: unknown,
+): string[] {
+  const args = ['-sS', '--fail', '--netrc', '-X', method]
+  if (body !== undefined) {
+    args.push('-H', 'Content-Type: application/json', '--data', JSON.stringify(body))
+  }
+  args.push(bitbucketApiUrl(path))
+  return args
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`
+}
+
+export function buildBitbucketApiCommand(
+  method: BitbucketHttpMethod,
+  path: string,
+  body?: unknown,
+): string {
+  return ['curl', ...buildBitbucketCurlArgs(method, path, body).map(shellQuote)].join(' ')
+}
+
+export const defaultBitbucketExecutor: CommandExecutor = (command: string) => {
+  return execSync(command, { encoding: 'utf-8', timeout: 30000 })
+}
+
+interface BitbucketDataCenterPage<T> {
+  values: T[]
+  isLastPage: boolean
+  nextPageStart?: number
+}
+
+/** Data Center pages by a `start` offset instead of Cloud's `next` links. */
+export function fetchBitbucketDataCenterPages<T>(executor: CommandExecutor, path: string, maxPages: number): T[] {
+  const values: T[] = []
+  const separator = path.includes('?') ? '&' : '?'
+  let start: number | undefined = 0
+
+  for (let page = 0; start !== undefined && page < maxPages; page++) {
+    const response: BitbucketDataCenterPage<T> = JSON.parse(
+      executor(buildBitbucketApiCommand('GET', `${path}${separator}start=${start}`))
+    )
+    values.push(...response.values)
+    start = response.isLastPage ? undefined : response.nextPageStart
+  }
+
+  return values
+}
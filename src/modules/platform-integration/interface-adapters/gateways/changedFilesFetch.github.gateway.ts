@@ -0,0 +1,34 @@
+import type { ChangedFilesFetchGateway } from '@/modules/platform-integration/entities/changedFiles/changedFilesFetch.gateway.js'
+
+export type CommandExecutor = (command: string) => string
+
+const PAGE_SIZE = 100
+// The pull request files endpoint stops at 3000 files.
+const MAX_PAGES = 30
+
+interface GitHubPullRequestFile {
+  filename: string
+  previous_filename?: string
+}
+
+export class GitHubChangedFilesFetchGateway implements ChangedFilesFetchGateway {
+  constructor(private readonly executor: CommandExecutor) {}
+
+  fetchChangedFiles(projectPath: string, mergeRequestNumber: number): string[] {
+    const files = new Set<string>()
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const response = this.executor(
+        `gh api "repos/${projectPath}/pulls/${mergeRequestNumber}/files?per_page=${PAGE_SIZE}&page=${page}"`
+      )
+      const pageFiles: GitHubPullRequestFile[] = JSON.parse(response)
+      for (const file of pageFiles) {
+        files.add(file.filename)
+        if (file.previous_filename) files.add(file.previous_filename)
+      }
+      if (pageFiles.length < PAGE_SIZE) break
+    }
+
+    return [...files]
+  }
+}
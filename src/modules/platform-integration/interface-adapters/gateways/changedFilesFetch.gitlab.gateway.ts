@@ -0,0 +1,34 @@
+import type { ChangedFilesFetchGateway } from '@/modules/platform-integration/entities/changedFiles/changedFilesFetch.gateway.js'
+
+export type CommandExecutor = (command: string) => string
+
+const PAGE_SIZE = 100
+const MAX_PAGES = 30
+
+interface GitLabMergeRequestDiff {
+  old_path: string
+  new_path: string
+}
+
+export class GitLabChangedFilesFetchGateway implements ChangedFilesFetchGateway {
+  constructor(private readonly executor: CommandExecutor) {}
+
+  fetchChangedFiles(projectPath: string, mergeRequestNumber: number): string[] {
+    const encodedProject = projectPath.replace(/\//g, '%2F')
+    const files = new Set<string>()
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const response = this.executor(
+        `glab api "projects/${encodedProject}/merge_requests/${mergeRequestNumber}/diffs?per_page=${PAGE_SIZE}&page=${page}"`
+      )
+      const diffs: GitLabMergeRequestDiff[] = JSON.parse(response)
+      for (const diff of diffs) {
+        files.add(diff.new_path)
+        files.add(diff.old_path)
+      }
+      if (diffs.length < PAGE_SIZE) break
+    }
+
+    return [...files]
+  }
+}
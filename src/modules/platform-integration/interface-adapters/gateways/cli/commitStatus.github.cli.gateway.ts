@@ -0,0 +1,33 @@
+import {
+  type CommitStatusGateway,
+  type CommitStatusInput,
+  REVIEW_STATUS_NAME,
+} from '@/modules/platform-integration/entities/commitStatus/commitStatus.gateway.js';
+import type { CommandExecutor } from '@/modules/platform-integration/interface-adapters/gateways/threadFetch.github.gateway.js';
+
+const MAX_DESCRIPTION_LENGTH = 140;
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Publishes a commit status. Check runs would need a GitHub App installation
+ * token, while statuses work with the user token gh authenticates with. Each
+ * state replaces the previous status of the same context on the commit.
+ */
+export class GitHubCommitStatusCliGateway implements CommitStatusGateway {
+  constructor(private readonly executor: CommandExecutor) {}
+
+  async publish(input: CommitStatusInput): Promise<void> {
+    const fields = [
+      `state=${input.state === 'running' ? 'pending' : input.state}`,
+      `context=${REVIEW_STATUS_NAME}`,
+      `description=${input.title.slice(0, MAX_DESCRIPTION_LENGTH)}`,
+      ...(input.targetUrl ? [`target_url=${input.targetUrl}`] : []),
+    ];
+    const args = fields.flatMap((field) => ['--raw-field', field]);
+    const command = `gh api --method POST repos/${input.projectPath}/statuses/${input.sha} ${args.map(shellQuote).join(' ')}`;
+    this.executor(command);
+  }
+}
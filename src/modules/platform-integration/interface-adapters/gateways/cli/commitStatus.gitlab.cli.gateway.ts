@@ -0,0 +1,30 @@
+import {
+  type CommitStatusGateway,
+  type CommitStatusInput,
+  REVIEW_STATUS_NAME,
+} from '@/modules/platform-integration/entities/commitStatus/commitStatus.gateway.js';
+import type { CommandExecutor } from '@/modules/platform-integration/interface-adapters/gateways/threadFetch.gitlab.gateway.js';
+
+const MAX_DESCRIPTION_LENGTH = 255;
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+/** Publishes an external commit status, which pipelines for merge requests pick up. */
+export class GitLabCommitStatusCliGateway implements CommitStatusGateway {
+  constructor(private readonly executor: CommandExecutor) {}
+
+  async publish(input: CommitStatusInput): Promise<void> {
+    const encodedProject = input.projectPath.replace(/\//g, '%2F');
+    const fields = [
+      `state=${input.state === 'failure' ? 'failed' : input.state}`,
+      `name=${REVIEW_STATUS_NAME}`,
+      `description=${input.title.slice(0, MAX_DESCRIPTION_LENGTH)}`,
+      ...(input.targetUrl ? [`target_url=${input.targetUrl}`] : []),
+    ];
+    const args = fields.flatMap((field) => ['--raw-field', field]);
+    const command = `glab api --method POST projects/${encodedProject}/statuses/${input.sha} ${args.map(shellQuote).join(' ')}`;
+    this.executor(command);
+  }
+}
@@ -0,0 +1,23 @@
+import type {
+  NoteCommentPostGateway,
+  NoteCommentPostInput,
+} from '@/modules/platform-integration/entities/noteComment/noteCommentPost.gateway.js';
+import {
+  bitbucketDataCenterUrl,
+  bitbucketPullRequestPath,
+  buildBitbucketApiCommand,
+  type CommandExecutor,
+} from '@/modules/platform-integration/interface-adapters/gateways/bitbucketApi.js';
+
+export class BitbucketNoteCommentPostCliGateway implements NoteCommentPostGateway {
+  constructor(private readonly executor: CommandExecutor) {}
+
+  async postComment(input: NoteCommentPostInput): Promise<void> {
+    const command = buildBitbucketApiCommand(
+      'POST',
+      `${bitbucketPullRequestPath(input.projectPath, input.mrNumber)}/comments`,
+      bitbucketDataCenterUrl() === null ? { content: { raw: input.body } } : { text: input.body },
+    );
+    this.executor(command);
+  }
+}
@@ -0,0 +1,21 @@
+import type {
+  NoteCommentPostGateway,
+  NoteCommentPostInput,
+} from '@/modules/platform-integration/entities/noteComment/noteCommentPost.gateway.js';
+import {
+  buildGiteaApiCommand,
+  type CommandExecutor,
+} from '@/modules/platform-integration/interface-adapters/gateways/giteaApi.js';
+
+export class GiteaNoteCommentPostCliGateway implements NoteCommentPostGateway {
+  constructor(private readonly executor: CommandExecutor) {}
+
+  async postComment(input: NoteCommentPostInput): Promise<void> {
+    const command = buildGiteaApiCommand(
+      'POST',
+      `repos/${input.projectPath}/issues/${input.mrNumber}/comments`,
+      { body: input.body },
+    );
+    this.executor(command);
+  }
+}
@@ -0,0 +1,30 @@
+import type {
+  PullRequestReviewGateway,
+  PullRequestReviewInput,
+} from '@/modules/platform-integration/entities/pullRequestReview/pullRequestReview.gateway.js';
+import type { CommandExecutor } from '@/modules/platform-integration/interface-adapters/gateways/threadFetch.github.gateway.js';
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+export class GitHubPullRequestReviewCliGateway implements PullRequestReviewGateway {
+  constructor(private readonly executor: CommandExecutor) {}
+
+  async submitReview(input: PullRequestReviewInput): Promise<void> {
+    // --raw-field keeps bodies verbatim (--field would read `@file` values); line must stay numeric.
+    const fields = [
+      '--raw-field', `commit_id=${input.commitId}`,
+      '--raw-field', `event=${input.event}`,
+      '--raw-field', `body=${input.body}`,
+      ...input.comments.flatMap((comment) => [
+        '--raw-field', `comments[][path]=${comment.path}`,
+        '--field', `comments[][line]=${comment.line}`,
+        '--raw-field', 'comments[][side]=RIGHT',
+        '--raw-field', `comments[][body]=${comment.body}`,
+      ]),
+    ];
+    const command = `gh api --method POST repos/${input.projectPath}/pulls/${input.mrNumber}/reviews ${fields.map(shellQuote).join(' ')}`;
+    this.executor(command);
+  }
+}
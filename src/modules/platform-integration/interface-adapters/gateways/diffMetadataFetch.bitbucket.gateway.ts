@@ -0,0 +1,45 @@
+import type { DiffMetadataFetchGateway } from '@/modules/platform-integration/entities/diffMetadata/diffMetadata.gateway.js'
+import type { DiffMetadata } from '@/modules/review-execution/entities/reviewContext/reviewContext.js'
+import {
+  bitbucketDataCenterUrl,
+  bitbucketPullRequestPath,
+  buildBitbucketApiCommand,
+  type CommandExecutor,
+} from '@/modules/platform-integration/interface-adapters/gateways/bitbucketApi.js'
+
+interface BitbucketPullRequestResponse {
+  source: { commit: { hash: string } }
+  destination: { commit: { hash: string } }
+}
+
+interface BitbucketDataCenterPullRequestResponse {
+  fromRef: { latestCommit: string }
+  toRef: { latestCommit: string }
+}
+
+export class BitbucketDiffMetadataFetchGateway implements DiffMetadataFetchGateway {
+  constructor(private readonly executor: CommandExecutor) {}
+
+  fetchDiffMetadata(projectPath: string, mergeRequestNumber: number): DiffMetadata {
+    const response = this.executor(
+      buildBitbucketApiCommand('GET', bitbucketPullRequestPath(projectPath, mergeRequestNumber))
+    )
+
+    if (bitbucketDataCenterUrl() !== null) {
+      const pr: BitbucketDataCenterPullRequestResponse = JSON.parse(response)
+      return {
+        baseSha: pr.toRef.latestCommit,
+        headSha: pr.fromRef.latestCommit,
+        startSha: pr.toRef.latestCommit,
+      }
+    }
+
+    const pr: BitbucketPullRequestResponse = JSON.parse(response)
+
+    return {
+      baseSha: pr.destination.commit.hash,
+      headSha: pr.source.commit.hash,
+      startSha: pr.destination.commit.hash,
+    }
+  }
+}
@@ -0,0 +1,29 @@
+import type { DiffMetadataFetchGateway } from '@/modules/platform-integration/entities/diffMetadata/diffMetadata.gateway.js'
+import type { DiffMetadata } from '@/modules/review-execution/entities/reviewContext/reviewContext.js'
+import {
+  buildGiteaApiCommand,
+  type CommandExecutor,
+} from '@/modules/platform-integration/interface-adapters/gateways/giteaApi.js'
+
+interface GiteaPullRequestResponse {
+  base: { sha: string }
+  head: { sha: string }
+  merge_base?: string
+}
+
+export class GiteaDiffMetadataFetchGateway implements DiffMetadataFetchGateway {
+  constructor(private readonly executor: CommandExecutor) {}
+
+  fetchDiffMetadata(projectPath: string, mergeRequestNumber: number): DiffMetadata {
+    const response = this.executor(
+      buildGiteaApiCommand('GET', `repos/${projectPath}/pulls/${mergeRequestNumber}`)
+    )
+    const pr: GiteaPullRequestResponse = JSON.parse(response)
+
+    return {
+      baseSha: pr.base.sha,
+      headSha: pr.head.sha,
+      startSha: pr.merge_base || pr.base.sha,
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import type {
+  PullRequestReviewGateway,
+  PullRequestReviewInput,
+} from '@/modules/platform-integration/entities/pullRequestReview/pullRequestReview.gateway.js';
+import type { EgressScanGateway } from '@/modules/platform-integration/entities/egressScan/egressScan.gateway.js';
+import type { EgressTraceGateway } from '@/modules/platform-integration/entities/egressScan/egressTrace.gateway.js';
+import { EgressBlockedError } from '@/modules/platform-integration/interface-adapters/gateways/egressScanned.noteCommentPost.gateway.js';
+
+/**
+ * Scans the summary and every inline comment of a review before it leaves. One
+ * blocked body blocks the whole review: nothing is submitted.
+ */
+export class EgressScannedPullRequestReviewGateway implements PullRequestReviewGateway {
+  constructor(
+    private readonly sink: PullRequestReviewGateway,
+    private readonly scanner: EgressScanGateway,
+    private readonly trace: EgressTraceGateway,
+  ) {}
+
+  async submitReview(input: PullRequestReviewInput): Promise<void> {
+    const body = this.scanBody(input.body, input.projectPath);
+    const comments = input.comments.map((comment) => ({
+      ...comment,
+      body: this.scanBody(comment.body, input.projectPath),
+    }));
+
+    await this.sink.submitReview({ ...input, body, comments });
+  }
+
+  private scanBody(body: string, projectPath: string): string {
+    const result = this.scanner.scan({ body, channel: 'postComment', projectPath });
+
+    if (result.decision === 'block') {
+      this.trace.record(result.trace);
+      throw new EgressBlockedError(result.trace.channel);
+    }
+
+    if (result.decision === 'redact') {
+      this.trace.record(result.trace);
+    }
+
+    return result.body;
+  }
+}
@@ -0,0 +1,188 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { z } from 'zod';
+import type {
+  IdempotencyKeyEntry,
+  IdempotencyStore,
+} from '@/modules/platform-integration/entities/idempotency/idempotencyStore.gateway.js';
+
+export interface FileSystemIdempotencyStoreOptions {
+  ttlMs: number;
+  filePath?: string;
+  clock?: () => number;
+  /** Minimum number of log lines before compaction is considered. */
+  compactionThreshold?: number;
+}
+
+const DEFAULT_COMPACTION_THRESHOLD = 1000;
+
+const logLineSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('record'),
+    eventKey: z.string(),
+    recordedAt: z.number(),
+    expiresAt: z.number(),
+    hits: z.number().int().nonnegative().optional(),
+  }),
+  z.object({
+    type: z.literal('hit'),
+    eventKey: z.string(),
+    at: z.number(),
+  }),
+]);
+
+type LogLine = z.infer<typeof logLineSchema>;
+
+function defaultFilePath(): string {
+  return join(homedir(), '.reviewflow', 'idempotency.log');
+}
+
+/**
+ * Restart-safe idempotency store backed by an append-only JSON-lines log.
+ *
+ * Every accepted key and every rejected duplicate is appended, so a daemon
+ * restart inside the platform's retry window still recognises deliveries it
+ * already dispatched. The log is replayed once on first use, and compacted
+ * (rewritten with live entries only, then atomically renamed over the log)
+ * on load and whenever expired or hit lines outnumber live keys.
+ *
+ * Disk errors never change the answer: the in-memory view is authoritative
+ * for the running process, persistence only extends it across restarts.
+ */
+export class FileSystemIdempotencyStore implements IdempotencyStore {
+  private readonly entries = new Map<string, IdempotencyKeyEntry>();
+  private readonly ttlMs: number;
+  private readonly filePath: string;
+  private readonly clock: () => number;
+  private readonly compactionThreshold: number;
+  private loaded = false;
+  private logLines = 0;
+
+  constructor(options: FileSystemIdempotencyStoreOptions) {
+    this.ttlMs = options.ttlMs;
+    this.filePath = options.filePath ?? defaultFilePath();
+    this.clock = options.clock ?? (() => Date.now());
+    this.compactionThreshold = options.compactionThreshold ?? DEFAULT_COMPACTION_THRESHOLD;
+  }
+
+  async recordIfAbsent(eventKey: string): Promise<boolean> {
+    const now = this.clock();
+    this.ensureLoaded(now);
+    this.purgeExpired(now);
+
+    const existing = this.entries.get(eventKey);
+    if (existing !== undefined && existing.expiresAt > now) {
+      existing.hits += 1;
+      this.append({ type: 'hit', eventKey, at: now });
+      return false;
+    }
+
+    const entry: IdempotencyKeyEntry = { eventKey, recordedAt: now, expiresAt: now + this.ttlMs, hits: 0 };
+    this.entries.set(eventKey, entry);
+    this.append({ type: 'record', eventKey, recordedAt: entry.recordedAt, expiresAt: entry.expiresAt });
+    this.compactIfBloated();
+    return true;
+  }
+
+  async listRecent(limit: number): Promise<IdempotencyKeyEntry[]> {
+    const now = this.clock();
+    this.ensureLoaded(now);
+    this.purgeExpired(now);
+    return [...this.entries.values()]
+      .sort((a, b) => b.recordedAt - a.recordedAt)
+      .slice(0, limit)
+      .map((entry) => ({ ...entry }));
+  }
+
+  private ensureLoaded(now: number): void {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+    if (!existsSync(this.filePath)) {
+      return;
+    }
+
+    let raw: string;
+    try {
+      raw = readFileSync(this.filePath, 'utf-8');
+    } catch {
+      return;
+    }
+
+    for (const line of raw.split('\n')) {
+      if (line.trim() === '') continue;
+      const parsed = this.parseLine(line);
+      if (parsed) this.replay(parsed);
+    }
+
+    this.purgeExpired(now);
+    this.compact();
+  }
+
+  private parseLine(line: string): LogLine | null {
+    try {
+      const result = logLineSchema.safeParse(JSON.parse(line));
+      return result.success ? result.data : null;
+    } catch {
+      // A torn final line from a crash mid-append is skipped, not fatal.
+      return null;
+    }
+  }
+
+  private replay(line: LogLine): void {
+    if (line.type === 'record') {
+      this.entries.set(line.eventKey, {
+        eventKey: line.eventKey,
+        recordedAt: line.recordedAt,
+        expiresAt: line.expiresAt,
+        hits: line.hits ?? 0,
+      });
+      return;
+    }
+    const entry = this.entries.get(line.eventKey);
+    if (entry) {
+      entry.hits += 1;
+    }
+  }
+
+  private append(line: LogLine): void {
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      appendFileSync(this.filePath, `${JSON.stringify(line)}\n`);
+      this.logLines += 1;
+    } catch {
+      // Persistence is best-effort, see class comment.
+    }
+  }
+
+  private compactIfBloated(): void {
+    if (this.logLines >= this.compactionThreshold && this.logLines > 2 * this.entries.size) {
+      this.compact();
+    }
+  }
+
+  private compact(): void {
+    const lines = [...this.entries.values()].map((entry) =>
+      JSON.stringify({ type: 'record', ...entry } satisfies LogLine),
+    );
+    const tmpPath = `${this.filePath}.tmp`;
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      writeFileSync(tmpPath, lines.length > 0 ? `${lines.join('\n')}\n` : '');
+      renameSync(tmpPath, this.filePath);
+      this.logLines = lines.length;
+    } catch {
+      // Keep appending to the uncompacted log; the next compaction retries.
+    }
+  }
+
+  private purgeExpired(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { execSync } from 'node:child_process'
+
+export type CommandExecutor = (command: string) => string
+
+const DEFAULT_GITEA_URL = 'https://codeberg.org'
+
+export type GiteaHttpMethod = 'GET' | 'POST'
+
+/**
+ * Gitea and Forgejo are self-hosted, so the instance root comes from GITEA_URL
+ * (Codeberg when unset). Calls go through curl against the shared /api/v1 REST
+ * surface; the access token is read from ~/.netrc (login = user, password =
+ * token) so it never appears in argv or in the process list.
+ */
+export function giteaApiUrl(path: string): string {
+  const base = (process.env.GITEA_URL || DEFAULT_GITEA_URL).replace(/\/+$/, '')
+  return path.startsWith('http') ? path : `${base}/api/v1/${path.replace(/^\/+/, '')}`
+}
+
+export function buildGiteaCurlArgs(
+  method: GiteaHttpMethod,
+  path: string,
+  body?: unknown,
+): string[] {
+  const args = ['-sS', '--fail', '--netrc', '-X', method]
+  if (body !== undefined) {
+    args.push('-H', 'Content-Type: application/json', '--data', JSON.stringify(body))
+  }
+  args.push(giteaApiUrl(path))
+  return args
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`
+}
+
+export function buildGiteaApiCommand(
+  method: GiteaHttpMethod,
+  path: string,
+  body?: unknown,
+): string {
+  return ['curl', ...buildGiteaCurlArgs(method, path, body).map(shellQuote)].join(' ')
+}
+
+export const defaultGiteaExecutor: CommandExecutor = (command: string) => {
+  return execSync(command, { encoding: 'utf-8', timeout: 30000 })
+}
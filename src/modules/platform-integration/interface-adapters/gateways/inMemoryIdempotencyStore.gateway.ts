@@ -1,4 +1,7 @@
-import type { IdempotencyStore } from '@/modules/platform-integration/entities/idempotency/idempotencyStore.gateway.js';
+import type {
+  IdempotencyKeyEntry,
+  IdempotencyStore,
+} from '@/modules/platform-integration/entities/idempotency/idempotencyStore.gateway.js';
 
 export interface InMemoryIdempotencyStoreOptions {
   ttlMs: number;
@@ -6,7 +9,7 @@ export interface InMemoryIdempotencyStoreOptions {
 }
 
 export class InMemoryIdempotencyStore implements IdempotencyStore {
-  private readonly entries = new Map<string, number>();
+  private readonly entries = new Map<string, IdempotencyKeyEntry>();
   private readonly ttlMs: number;
   private readonly clock: () => number;
 
@@ -19,18 +22,27 @@ export class InMemoryIdempotencyStore implements IdempotencyStore {
     const now = this.clock();
     this.purgeExpired(now);
 
-    const existingExpiry = this.entries.get(eventKey);
-    if (existingExpiry !== undefined && existingExpiry > now) {
+    const existing = this.entries.get(eventKey);
+    if (existing !== undefined && existing.expiresAt > now) {
+      existing.hits += 1;
       return false;
     }
 
-    this.entries.set(eventKey, now + this.ttlMs);
+    this.entries.set(eventKey, { eventKey, recordedAt: now, expiresAt: now + this.ttlMs, hits: 0 });
     return true;
   }
 
+  async listRecent(limit: number): Promise<IdempotencyKeyEntry[]> {
+    this.purgeExpired(this.clock());
+    return [...this.entries.values()]
+      .sort((a, b) => b.recordedAt - a.recordedAt)
+      .slice(0, limit)
+      .map((entry) => ({ ...entry }));
+  }
+
   private purgeExpired(now: number): void {
-    for (const [key, expiry] of this.entries) {
-      if (expiry <= now) {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
         this.entries.delete(key);
       }
     }
@@ -0,0 +1,140 @@
+import { z } from 'zod'
+import type { MemberAccessGateway } from '@/modules/platform-integration/entities/memberAccess/memberAccess.gateway.js'
+import {
+  MEMBER_ACCESS_LEVELS,
+  type MemberAccessLevel,
+  type ResolvedAccessLevel,
+} from '@/modules/platform-integration/entities/memberAccess/memberAccess.js'
+import {
+  bitbucketDataCenterUrl,
+  buildBitbucketApiCommand,
+  type CommandExecutor,
+} from '@/modules/platform-integration/interface-adapters/gateways/bitbucketApi.js'
+
+export interface BitbucketMemberAccessOptions {
+  ttlMs: number
+  clock: () => number
+}
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000
+
+const cloudPermissionsSchema = z.object({
+  values: z.array(z.object({
+    permission: z.string(),
+    user: z.object({ nickname: z.string() }),
+  })),
+})
+
+const dataCenterPermissionsSchema = z.object({
+  values: z.array(z.object({
+    permission: z.string(),
+    user: z.object({ name: z.string() }),
+  })),
+})
+
+/**
+ * Repository permissions mapped onto the GitLab scale: `write` is the first one
+ * allowed to push, so it lines up with Developer. Data Center grants them on
+ * the repository (`REPO_*`) or on its whole project (`PROJECT_*`).
+ */
+const PERMISSION_ACCESS_LEVELS = new Map<string, MemberAccessLevel>([
+  ['read', MEMBER_ACCESS_LEVELS.reporter],
+  ['write', MEMBER_ACCESS_LEVELS.developer],
+  ['admin', MEMBER_ACCESS_LEVELS.owner],
+  ['REPO_READ', MEMBER_ACCESS_LEVELS.reporter],
+  ['REPO_WRITE', MEMBER_ACCESS_LEVELS.developer],
+  ['REPO_ADMIN', MEMBER_ACCESS_LEVELS.owner],
+  ['PROJECT_READ', MEMBER_ACCESS_LEVELS.reporter],
+  ['PROJECT_WRITE', MEMBER_ACCESS_LEVELS.developer],
+  ['PROJECT_ADMIN', MEMBER_ACCESS_LEVELS.owner],
+])
+
+interface CacheEntry {
+  accessLevel: ResolvedAccessLevel
+  expiresAt: number
+}
+
+function highestAccessLevel(permissions: string[]): ResolvedAccessLevel {
+  const levels = permissions.flatMap((permission) => {
+    const level = PERMISSION_ACCESS_LEVELS.get(permission)
+    return level === undefined ? [] : [level]
+  })
+  return levels.length === 0 ? null : (Math.max(...levels) as MemberAccessLevel)
+}
+
+/**
+ * Cached, fail-closed Bitbucket repository permission resolver (SPEC-197).
+ *
+ * On Cloud, reads the workspace's permissions on the repository, filtered on
+ * the user's nickname. On Data Center, reads the user permissions of the
+ * repository and of its project, filtered on the user name; both endpoints
+ * need admin rights on the repository. Only an exact username match counts,
+ * since the filters match substrings. A lookup error, no match, or an unknown
+ * permission resolves to `null` (non-trusted). Results are cached per
+ * repository and username with a TTL (AC5).
+ */
+export class BitbucketMemberAccessGateway implements MemberAccessGateway {
+  private readonly cache = new Map<string, CacheEntry>()
+  private readonly ttlMs: number
+  private readonly clock: () => number
+
+  constructor(
+    private readonly executor: CommandExecutor,
+    options?: Partial<BitbucketMemberAccessOptions>,
+  ) {
+    this.ttlMs = options?.ttlMs ?? DEFAULT_TTL_MS
+    this.clock = options?.clock ?? (() => Date.now())
+  }
+
+  async resolve(projectPath: string, username: string): Promise<ResolvedAccessLevel> {
+    const cacheKey = `${projectPath} ${username}`
+    const cached = this.cache.get(cacheKey)
+    if (cached && cached.expiresAt > this.clock()) {
+      return cached.accessLevel
+    }
+
+    const accessLevel = this.lookup(projectPath, username)
+    this.cache.set(cacheKey, { accessLevel, expiresAt: this.clock() + this.ttlMs })
+    return accessLevel
+  }
+
+  private lookup(projectPath: string, username: string): ResolvedAccessLevel {
+    try {
+      return bitbucketDataCenterUrl() === null
+        ? this.lookupCloud(projectPath, username)
+        : this.lookupDataCenter(projectPath, username)
+    } catch {
+      return null
+    }
+  }
+
+  private lookupCloud(projectPath: string, username: string): ResolvedAccessLevel {
+    const [workspace, repositorySlug] = projectPath.split('/')
+    const query = encodeURIComponent(`user.nickname="${username.replace(/"/g, '')}"`)
+    const response = this.executor(
+      buildBitbucketApiCommand('GET', `workspaces/${workspace}/permissions/repositories/${repositorySlug}?q=${query}`)
+    )
+    const parsed = cloudPermissionsSchema.safeParse(JSON.parse(response))
+    if (!parsed.success) {
+      return null
+    }
+    return highestAccessLevel(
+      parsed.data.values.filter((entry) => entry.user.nickname === username).map((entry) => entry.permission)
+    )
+  }
+
+  private lookupDataCenter(projectPath: string, username: string): ResolvedAccessLevel {
+    const [projectKey, repositorySlug] = projectPath.split('/')
+    const filter = `permissions/users?filter=${encodeURIComponent(username)}&limit=100`
+    const permissions = [
+      `projects/${projectKey}/repos/${repositorySlug}/${filter}`,
+      `projects/${projectKey}/${filter}`,
+    ].flatMap((path) => {
+      const parsed = dataCenterPermissionsSchema.safeParse(JSON.parse(this.executor(buildBitbucketApiCommand('GET', path))))
+      return parsed.success
+        ? parsed.data.values.filter((entry) => entry.user.name === username).map((entry) => entry.permission)
+        : []
+    })
+    return highestAccessLevel(permissions)
+  }
+}
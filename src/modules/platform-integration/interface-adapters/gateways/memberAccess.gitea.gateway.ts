@@ -0,0 +1,88 @@
+import { z } from 'zod'
+import type { MemberAccessGateway } from '@/modules/platform-integration/entities/memberAccess/memberAccess.gateway.js'
+import {
+  MEMBER_ACCESS_LEVELS,
+  type MemberAccessLevel,
+  type ResolvedAccessLevel,
+} from '@/modules/platform-integration/entities/memberAccess/memberAccess.js'
+import {
+  buildGiteaApiCommand,
+  type CommandExecutor,
+} from '@/modules/platform-integration/interface-adapters/gateways/giteaApi.js'
+
+export interface GiteaMemberAccessOptions {
+  ttlMs: number
+  clock: () => number
+}
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000
+
+const giteaCollaboratorPermissionSchema = z.object({
+  permission: z.string(),
+})
+
+/**
+ * Collaborator permissions mapped onto the GitLab scale: `write` is the first
+ * one allowed to push, so it lines up with Developer.
+ */
+const PERMISSION_ACCESS_LEVELS = new Map<string, MemberAccessLevel>([
+  ['read', MEMBER_ACCESS_LEVELS.reporter],
+  ['write', MEMBER_ACCESS_LEVELS.developer],
+  ['admin', MEMBER_ACCESS_LEVELS.maintainer],
+  ['owner', MEMBER_ACCESS_LEVELS.owner],
+])
+
+interface CacheEntry {
+  accessLevel: ResolvedAccessLevel
+  expiresAt: number
+}
+
+/**
+ * Cached, fail-closed Gitea / Forgejo collaborator resolver (SPEC-197).
+ *
+ * Reads `/repos/:owner/:repo/collaborators/:username/permission`, which also
+ * reports the access a user holds through an organisation team. A lookup error
+ * (including the 403/404 returned for an unknown user), `none`, or an unknown
+ * permission resolves to `null` (non-trusted). Results are cached per
+ * repository and username with a TTL (AC5).
+ */
+export class GiteaMemberAccessGateway implements MemberAccessGateway {
+  private readonly cache = new Map<string, CacheEntry>()
+  private readonly ttlMs: number
+  private readonly clock: () => number
+
+  constructor(
+    private readonly executor: CommandExecutor,
+    options?: Partial<GiteaMemberAccessOptions>,
+  ) {
+    this.ttlMs = options?.ttlMs ?? DEFAULT_TTL_MS
+    this.clock = options?.clock ?? (() => Date.now())
+  }
+
+  async resolve(projectPath: string, username: string): Promise<ResolvedAccessLevel> {
+    const cacheKey = `${projectPath} ${username}`
+    const cached = this.cache.get(cacheKey)
+    if (cached && cached.expiresAt > this.clock()) {
+      return cached.accessLevel
+    }
+
+    const accessLevel = this.lookup(projectPath, username)
+    this.cache.set(cacheKey, { accessLevel, expiresAt: this.clock() + this.ttlMs })
+    return accessLevel
+  }
+
+  private lookup(projectPath: string, username: string): ResolvedAccessLevel {
+    try {
+      const response = this.executor(
+        buildGiteaApiCommand('GET', `repos/${projectPath}/collaborators/${encodeURIComponent(username)}/permission`)
+      )
+      const parsed = giteaCollaboratorPermissionSchema.safeParse(JSON.parse(response))
+      if (!parsed.success) {
+        return null
+      }
+      return PERMISSION_ACCESS_LEVELS.get(parsed.data.permission) ?? null
+    } catch {
+      return null
+    }
+  }
+}
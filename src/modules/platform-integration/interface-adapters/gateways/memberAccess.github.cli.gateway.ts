@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import type { MemberAccessGateway } from '@/modules/platform-integration/entities/memberAccess/memberAccess.gateway.js';
+import {
+  MEMBER_ACCESS_LEVELS,
+  type MemberAccessLevel,
+  type ResolvedAccessLevel,
+} from '@/modules/platform-integration/entities/memberAccess/memberAccess.js';
+
+export type CommandExecutor = (command: string) => string;
+
+export interface GitHubMemberAccessOptions {
+  ttlMs: number;
+  clock: () => number;
+}
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+
+const gitHubCollaboratorPermissionSchema = z.object({
+  permission: z.string(),
+  role_name: z.string().optional(),
+});
+
+/**
+ * Collaborator roles mapped onto the GitLab scale. `write` is the first role
+ * allowed to push, so it lines up with Developer; `triage` only manages issues
+ * and pull requests, which is Reporter territory.
+ */
+const COLLABORATOR_ROLE_ACCESS_LEVELS = new Map<string, MemberAccessLevel>([
+  ['read', MEMBER_ACCESS_LEVELS.reporter],
+  ['triage', MEMBER_ACCESS_LEVELS.reporter],
+  ['write', MEMBER_ACCESS_LEVELS.developer],
+  ['maintain', MEMBER_ACCESS_LEVELS.maintainer],
+  ['admin', MEMBER_ACCESS_LEVELS.owner],
+]);
+
+interface CacheEntry {
+  accessLevel: ResolvedAccessLevel;
+  expiresAt: number;
+}
+
+function toKnownAccessLevel(role: string | undefined): MemberAccessLevel | null {
+  if (role === undefined) {
+    return null;
+  }
+  return COLLABORATOR_ROLE_ACCESS_LEVELS.get(role) ?? null;
+}
+
+/**
+ * Cached, fail-closed GitHub collaborator resolver (SPEC-197).
+ *
+ * Reads `/repos/:owner/:repo/collaborators/:username/permission` through the
+ * injected authenticated gh executor. `role_name` carries the fine-grained role
+ * (`triage`, `maintain`); custom organisation roles fall back to the legacy
+ * `permission` field, which only reports `read`/`write`/`admin`/`none`. A lookup
+ * error (including the 404 GitHub returns for non-collaborators), `none`, or an
+ * unknown permission resolves to `null` (non-trusted). Results are cached per
+ * repository and username with a TTL, so one actor's trust never leaks to another
+ * (AC5).
+ */
+export class GitHubMemberAccessCliGateway implements MemberAccessGateway {
+  private readonly cache = new Map<string, CacheEntry>();
+  private readonly ttlMs: number;
+  private readonly clock: () => number;
+
+  constructor(
+    private readonly executor: CommandExecutor,
+    options?: Partial<GitHubMemberAccessOptions>,
+  ) {
+    this.ttlMs = options?.ttlMs ?? DEFAULT_TTL_MS;
+    this.clock = options?.clock ?? (() => Date.now());
+  }
+
+  async resolve(projectPath: string, username: string): Promise<ResolvedAccessLevel> {
+    const cacheKey = `${projectPath} ${username}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.expiresAt > this.clock()) {
+      return cached.accessLevel;
+    }
+
+    const accessLevel = this.lookup(projectPath, username);
+    this.cache.set(cacheKey, { accessLevel, expiresAt: this.clock() + this.ttlMs });
+    return accessLevel;
+  }
+
+  private lookup(projectPath: string, username: string): ResolvedAccessLevel {
+    try {
+      const encodedUsername = encodeURIComponent(username);
+      const response = this.executor(
+        `gh api repos/${projectPath}/collaborators/${encodedUsername}/permission`,
+      );
+      const parsed = gitHubCollaboratorPermissionSchema.safeParse(JSON.parse(response));
+      if (!parsed.success) {
+        return null;
+      }
+      return toKnownAccessLevel(parsed.data.role_name) ?? toKnownAccessLevel(parsed.data.permission);
+    } catch {
+      return null;
+    }
+  }
+}
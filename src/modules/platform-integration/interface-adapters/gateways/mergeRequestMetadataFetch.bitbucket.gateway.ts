@@ -0,0 +1,73 @@
+import type {
+  MergeRequestMetadata,
+  MergeRequestMetadataFetchGateway,
+} from '@/modules/platform-integration/entities/mergeRequestMetadata/mergeRequestMetadata.gateway.js'
+import { parseLinkedIssues } from '@/modules/platform-integration/entities/mergeRequestMetadata/mergeRequestMetadata.js'
+import {
+  bitbucketDataCenterUrl,
+  bitbucketPullRequestPath,
+  buildBitbucketApiCommand,
+  type CommandExecutor,
+} from '@/modules/platform-integration/interface-adapters/gateways/bitbucketApi.js'
+
+interface BitbucketPullRequestResponse {
+  title: string
+  description?: string
+  author?: { nickname?: string; display_name?: string }
+  source: { branch: { name: string } }
+  destination: { branch: { name: string } }
+  links?: { html?: { href: string } }
+}
+
+interface BitbucketDataCenterPullRequestResponse {
+  title: string
+  description?: string
+  author?: { user: { name: string } }
+  fromRef: { displayId: string }
+  toRef: { displayId: string }
+  links?: { self?: Array<{ href: string } | null> }
+}
+
+/** Bitbucket pull requests have no labels. */
+export class BitbucketMergeRequestMetadataFetchGateway implements MergeRequestMetadataFetchGateway {
+  constructor(private readonly executor: CommandExecutor) {}
+
+  fetchMergeRequestMetadata(projectPath: string, mergeRequestNumber: number): MergeRequestMetadata {
+    const response = this.executor(
+      buildBitbucketApiCommand('GET', bitbucketPullRequestPath(projectPath, mergeRequestNumber))
+    )
+
+    if (bitbucketDataCenterUrl() !== null) {
+      return this.toDataCenterMetadata(JSON.parse(response))
+    }
+
+    const pr: BitbucketPullRequestResponse = JSON.parse(response)
+    const description = pr.description ?? ''
+
+    return {
+      title: pr.title,
+      description,
+      author: pr.author?.nickname ?? pr.author?.display_name ?? null,
+      sourceBranch: pr.source.branch.name,
+      targetBranch: pr.destination.branch.name,
+      labels: [],
+      linkedIssues: parseLinkedIssues(description),
+      webUrl: pr.links?.html?.href ?? null,
+    }
+  }
+
+  private toDataCenterMetadata(pr: BitbucketDataCenterPullRequestResponse): MergeRequestMetadata {
+    const description = pr.description ?? ''
+
+    return {
+      title: pr.title,
+      description,
+      author: pr.author?.user.name ?? null,
+      sourceBranch: pr.fromRef.displayId,
+      targetBranch: pr.toRef.displayId,
+      labels: [],
+      linkedIssues: parseLinkedIssues(description),
+      webUrl: pr.links?.self?.[0]?.href ?? null,
+    }
+  }
+}
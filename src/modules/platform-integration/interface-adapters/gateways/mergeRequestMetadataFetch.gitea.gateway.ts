@@ -0,0 +1,42 @@
+import type {
+  MergeRequestMetadata,
+  MergeRequestMetadataFetchGateway,
+} from '@/modules/platform-integration/entities/mergeRequestMetadata/mergeRequestMetadata.gateway.js'
+import { parseLinkedIssues } from '@/modules/platform-integration/entities/mergeRequestMetadata/mergeRequestMetadata.js'
+import {
+  buildGiteaApiCommand,
+  type CommandExecutor,
+} from '@/modules/platform-integration/interface-adapters/gateways/giteaApi.js'
+
+interface GiteaPullRequestResponse {
+  title: string
+  body: string | null
+  labels: Array<{ name: string }> | null
+  user?: { login: string }
+  head: { ref: string }
+  base: { ref: string }
+  html_url?: string
+}
+
+export class GiteaMergeRequestMetadataFetchGateway implements MergeRequestMetadataFetchGateway {
+  constructor(private readonly executor: CommandExecutor) {}
+
+  fetchMergeRequestMetadata(projectPath: string, mergeRequestNumber: number): MergeRequestMetadata {
+    const response = this.executor(
+      buildGiteaApiCommand('GET', `repos/${projectPath}/pulls/${mergeRequestNumber}`)
+    )
+    const pr: GiteaPullRequestResponse = JSON.parse(response)
+    const description = pr.body ?? ''
+
+    return {
+      title: pr.title,
+      description,
+      author: pr.user?.login ?? null,
+      sourceBranch: pr.head.ref,
+      targetBranch: pr.base.ref,
+      labels: (pr.labels ?? []).map((label) => label.name),
+      linkedIssues: parseLinkedIssues(description),
+      webUrl: pr.html_url ?? null,
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import type {
+  MergeRequestMetadata,
+  MergeRequestMetadataFetchGateway,
+} from '@/modules/platform-integration/entities/mergeRequestMetadata/mergeRequestMetadata.gateway.js'
+import { parseLinkedIssues } from '@/modules/platform-integration/entities/mergeRequestMetadata/mergeRequestMetadata.js'
+
+export type CommandExecutor = (command: string) => string
+
+interface GitHubPullRequestResponse {
+  title: string
+  body: string | null
+  labels: Array<{ name: string }>
+  user?: { login: string }
+  head: { ref: string }
+  base: { ref: string }
+  html_url?: string
+}
+
+export class GitHubMergeRequestMetadataFetchGateway implements MergeRequestMetadataFetchGateway {
+  constructor(private readonly executor: CommandExecutor) {}
+
+  fetchMergeRequestMetadata(projectPath: string, mergeRequestNumber: number): MergeRequestMetadata {
+    const response = this.executor(
+      `gh api repos/${projectPath}/pulls/${mergeRequestNumber}`
+    )
+    const pr: GitHubPullRequestResponse = JSON.parse(response)
+    const description = pr.body ?? ''
+
+    return {
+      title: pr.title,
+      description,
+      author: pr.user?.login ?? null,
+      sourceBranch: pr.head.ref,
+      targetBranch: pr.base.ref,
+      labels: (pr.labels ?? []).map((label) => label.name),
+      linkedIssues: parseLinkedIssues(description),
+      webUrl: pr.html_url ?? null,
+    }
+  }
+}
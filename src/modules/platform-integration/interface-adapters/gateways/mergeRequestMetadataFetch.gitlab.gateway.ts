@@ -0,0 +1,41 @@
+import type {
+  MergeRequestMetadata,
+  MergeRequestMetadataFetchGateway,
+} from '@/modules/platform-integration/entities/mergeRequestMetadata/mergeRequestMetadata.gateway.js'
+import { parseLinkedIssues } from '@/modules/platform-integration/entities/mergeRequestMetadata/mergeRequestMetadata.js'
+
+export type CommandExecutor = (command: string) => string
+
+interface GitLabMergeRequestResponse {
+  title: string
+  description: string | null
+  labels: string[]
+  author?: { username: string }
+  source_branch: string
+  target_branch: string
+  web_url?: string
+}
+
+export class GitLabMergeRequestMetadataFetchGateway implements MergeRequestMetadataFetchGateway {
+  constructor(private readonly executor: CommandExecutor) {}
+
+  fetchMergeRequestMetadata(projectPath: string, mergeRequestNumber: number): MergeRequestMetadata {
+    const encodedProject = projectPath.replace(/\//g, '%2F')
+    const response = this.executor(
+      `glab api projects/${encodedProject}/merge_requests/${mergeRequestNumber}`
+    )
+    const mr: GitLabMergeRequestResponse = JSON.parse(response)
+    const description = mr.description ?? ''
+
+    return {
+      title: mr.title,
+      description,
+      author: mr.author?.username ?? null,
+      sourceBranch: mr.source_branch,
+      targetBranch: mr.target_branch,
+      labels: mr.labels ?? [],
+      linkedIssues: parseLinkedIssues(description),
+      webUrl: mr.web_url ?? null,
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import {
+  type GitHubPullRequest,
+  gitHubPullRequestGuard,
+} from '@/modules/platform-integration/entities/github/githubPullRequestEvent.guard.js'
+import type { PullRequestFetchGateway } from '@/modules/platform-integration/entities/pullRequestFetch/pullRequestFetch.gateway.js'
+
+export type CommandExecutor = (command: string) => string
+
+export class GitHubPullRequestFetchGateway implements PullRequestFetchGateway {
+  constructor(private readonly executor: CommandExecutor) {}
+
+  fetchPullRequest(projectPath: string, pullRequestNumber: number): GitHubPullRequest {
+    const response = this.executor(`gh api repos/${projectPath}/pulls/${pullRequestNumber}`)
+    const pullRequest = JSON.parse(response)
+    // The REST API sends `body: null` for an empty description, webhooks omit it.
+    return gitHubPullRequestGuard.parse({ ...pullRequest, body: pullRequest.body ?? undefined })
+  }
+}
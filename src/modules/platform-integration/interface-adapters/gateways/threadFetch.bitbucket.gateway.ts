@@ -0,0 +1,106 @@
+import type { ThreadFetchGateway } from '@/modules/platform-integration/entities/threadFetch/threadFetch.gateway.js'
+import type { ReviewContextThread } from '@/modules/review-execution/entities/reviewContext/reviewContext.js'
+import {
+  bitbucketDataCenterUrl,
+  bitbucketPullRequestPath,
+  buildBitbucketApiCommand,
+  fetchBitbucketDataCenterPages,
+  type CommandExecutor,
+} from '@/modules/platform-integration/interface-adapters/gateways/bitbucketApi.js'
+
+const MAX_PAGES = 20
+
+interface BitbucketCommentNode {
+  id: number
+  content: { raw: string }
+  deleted?: boolean
+  parent?: { id: number }
+  inline?: { path: string; to: number | null; from: number | null }
+  resolution?: object | null
+}
+
+interface BitbucketCommentsPage {
+  values: BitbucketCommentNode[]
+  next?: string
+}
+
+interface BitbucketDataCenterComment {
+  id: number
+  text: string
+  threadResolved?: boolean
+  comments?: BitbucketDataCenterComment[]
+}
+
+interface BitbucketDataCenterActivity {
+  action: string
+  commentAction?: 'ADDED' | 'EDITED' | 'REPLIED' | 'DELETED'
+  comment?: BitbucketDataCenterComment
+  commentAnchor?: { path: string; line?: number }
+}
+
+function replyIds(comment: BitbucketDataCenterComment): number[] {
+  return (comment.comments ?? []).flatMap((reply) => [reply.id, ...replyIds(reply)])
+}
+
+export class BitbucketThreadFetchGateway implements ThreadFetchGateway {
+  constructor(private readonly executor: CommandExecutor) {}
+
+  fetchThreads(projectPath: string, mergeRequestNumber: number): ReviewContextThread[] {
+    if (bitbucketDataCenterUrl() !== null) {
+      return this.fetchDataCenterThreads(projectPath, mergeRequestNumber)
+    }
+
+    const comments: BitbucketCommentNode[] = []
+    let nextPage: string | undefined = `${bitbucketPullRequestPath(projectPath, mergeRequestNumber)}/comments?pagelen=100`
+
+    for (let page = 0; nextPage && page < MAX_PAGES; page++) {
+      const response = this.executor(buildBitbucketApiCommand('GET', nextPage))
+      const data: BitbucketCommentsPage = JSON.parse(response)
+      comments.push(...data.values)
+      nextPage = data.next
+    }
+
+    // Replies carry a parent id; only top-level comments open a thread.
+    return comments
+      .filter((comment) => !comment.parent && !comment.deleted)
+      .map((comment) => ({
+        id: String(comment.id),
+        file: comment.inline?.path ?? null,
+        line: comment.inline?.to ?? comment.inline?.from ?? null,
+        status: comment.resolution ? 'resolved' as const : 'open' as const,
+        body: comment.content.raw,
+      }))
+  }
+
+  /**
+   * Data Center lists comments through the activity feed of the pull request.
+   * A reply gets an activity of its own, but also sits in the `comments` of its
+   * parent: only the comments no other comment answers open a thread.
+   */
+  private fetchDataCenterThreads(projectPath: string, mergeRequestNumber: number): ReviewContextThread[] {
+    const activities = fetchBitbucketDataCenterPages<BitbucketDataCenterActivity>(
+      this.executor,
+      `${bitbucketPullRequestPath(projectPath, mergeRequestNumber)}/activities?limit=100`,
+      MAX_PAGES,
+    )
+    const commented = activities.filter((activity) => activity.action === 'COMMENTED' && activity.comment)
+    const replies = new Set(commented.flatMap((activity) => replyIds(activity.comment as BitbucketDataCenterComment)))
+    const deleted = new Set(
+      commented.filter((activity) => activity.commentAction === 'DELETED').map((activity) => activity.comment?.id),
+    )
+
+    return commented
+      .filter((activity) => activity.commentAction === 'ADDED')
+      .flatMap(({ comment, commentAnchor }) =>
+        comment && !replies.has(comment.id) && !deleted.has(comment.id)
+          ? [{
+              id: String(comment.id),
+              file: commentAnchor?.path ?? null,
+              line: commentAnchor?.line ?? null,
+              status: comment.threadResolved ? 'resolved' as const : 'open' as const,
+              body: comment.text,
+            }]
+          : [],
+      )
+  }
+}
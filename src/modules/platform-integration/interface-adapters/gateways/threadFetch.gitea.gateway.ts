@@ -0,0 +1,64 @@
+import type { ThreadFetchGateway } from '@/modules/platform-integration/entities/threadFetch/threadFetch.gateway.js'
+import type { ReviewContextThread } from '@/modules/review-execution/entities/reviewContext/reviewContext.js'
+import {
+  buildGiteaApiCommand,
+  type CommandExecutor,
+} from '@/modules/platform-integration/interface-adapters/gateways/giteaApi.js'
+
+const PAGE_SIZE = 50
+const MAX_PAGES = 20
+
+interface GiteaReview {
+  id: number
+  comments_count: number
+}
+
+interface GiteaReviewComment {
+  id: number
+  body: string
+  path: string
+  position: number
+  original_position: number
+  resolver: { login: string } | null
+}
+
+export class GiteaThreadFetchGateway implements ThreadFetchGateway {
+  constructor(private readonly executor: CommandExecutor) {}
+
+  fetchThreads(projectPath: string, mergeRequestNumber: number): ReviewContextThread[] {
+    const pullRequestPath = `repos/${projectPath}/pulls/${mergeRequestNumber}`
+    const reviews: GiteaReview[] = []
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const response = this.executor(buildGiteaApiCommand('GET', `${pullRequestPath}/reviews?limit=${PAGE_SIZE}&page=${page}`))
+      const data: GiteaReview[] = JSON.parse(response)
+      reviews.push(...data)
+      if (data.length < PAGE_SIZE) break
+    }
+
+    const comments = reviews
+      .filter((review) => review.comments_count > 0)
+      .flatMap((review): GiteaReviewComment[] =>
+        JSON.parse(this.executor(buildGiteaApiCommand('GET', `${pullRequestPath}/reviews/${review.id}/comments`)))
+      )
+      .sort((left, right) => left.id - right.id)
+
+    // Gitea has no reply pointer: a conversation is every comment on the same
+    // file and line, opened by the oldest one.
+    const threads = new Map<string, ReviewContextThread>()
+    for (const comment of comments) {
+      const line = comment.position || comment.original_position || null
+      const key = `${comment.path}:${line}`
+      if (threads.has(key)) continue
+      threads.set(key, {
+        id: String(comment.id),
+        file: comment.path || null,
+        line,
+        status: comment.resolver ? 'resolved' : 'open',
+        body: comment.body,
+      })
+    }
+
+    return [...threads.values()]
+  }
+}
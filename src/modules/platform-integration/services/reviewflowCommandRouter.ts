@@ -0,0 +1,134 @@
+import type { Logger } from 'pino';
+import type { ReviewflowCommand } from '@/modules/platform-integration/entities/reviewflowCommand/reviewflowCommand.js';
+import {
+  cancelReview,
+  type CancelReviewQueuePort,
+} from '@/modules/review-execution/usecases/cancelReview.usecase.js';
+import {
+  startDeferredReview,
+  type StartDeferredReviewQueuePort,
+} from '@/modules/review-execution/usecases/startDeferredReview.usecase.js';
+import type { RecordReviewPreferenceUseCase } from '@/modules/tracking/usecases/tracking/recordReviewPreference.usecase.js';
+import type { Platform } from '@/modules/tracking/interface-adapters/gateways/reviewRequestTracking.gateway.js';
+
+export interface ReviewflowCommandTarget {
+  platform: Platform;
+  projectPath: string;
+  /** Local checkout of the repository, where its tracking lives. */
+  localPath: string;
+  mrNumber: number;
+}
+
+/**
+ * What a command that is answered right away did: the webhook reply status and
+ * the acknowledgement comment posted on the merge request.
+ */
+export interface ReviewflowCommandOutcome {
+  status: string;
+  acknowledgement: string;
+}
+
+export interface ReviewflowQueuePort extends CancelReviewQueuePort {
+  createJobId(platform: string, projectPath: string, mrNumber: number): string;
+}
+
+export interface ReviewflowDeferralQueuePort extends StartDeferredReviewQueuePort {
+  createJobId(platform: string, projectPath: string, mrNumber: number): string;
+}
+
+function mergeRequestJobIds(
+  target: ReviewflowCommandTarget,
+  queuePort: Pick<ReviewflowQueuePort, 'createJobId'>,
+): string[] {
+  return [
+    queuePort.createJobId(target.platform, target.projectPath, target.mrNumber),
+    queuePort.createJobId(`${target.platform}-followup`, target.projectPath, target.mrNumber),
+  ];
+}
+
+/**
+ * Cancels the review and the followup of a merge request, whichever is queued
+ * or running.
+ */
+export function cancelReviewflowJobs(
+  target: ReviewflowCommandTarget,
+  actor: string,
+  deps: { queuePort: ReviewflowQueuePort; logger: Logger },
+): ReviewflowCommandOutcome {
+  const cancelled = mergeRequestJobIds(target, deps.queuePort)
+    .map((jobId) => cancelReview(jobId, deps))
+    .filter((result) => result.status === 'cancelled');
+
+  if (cancelled.length === 0) {
+    return { status: 'nothing-to-cancel', acknowledgement: 'No queued or running review to cancel.' };
+  }
+  return { status: 'cancelled', acknowledgement: `Review cancelled by @${actor}.` };
+}
+
+/**
+ * Starts the review and the followup of a merge request held outside the
+ * review windows (`/reviewflow now`).
+ */
+export function startDeferredReviewflowJobs(
+  target: ReviewflowCommandTarget,
+  actor: string,
+  deps: { queuePort: ReviewflowDeferralQueuePort; logger: Logger },
+): ReviewflowCommandOutcome {
+  const started = mergeRequestJobIds(target, deps.queuePort)
+    .map((jobId) => startDeferredReview(jobId, deps))
+    .filter((result) => result.status === 'started');
+
+  if (started.length === 0) {
+    return { status: 'nothing-deferred', acknowledgement: 'No review is waiting for a review window.' };
+  }
+  return { status: 'started', acknowledgement: `Review started outside the review window by @${actor}.` };
+}
+
+/**
+ * Records a `/reviewflow focus` or `/reviewflow model` preference on the tracked
+ * merge request; the next reviews and followups pick it up.
+ */
+export function recordReviewflowPreference(
+  command: Extract<ReviewflowCommand, { name: 'focus' | 'model' }>,
+  target: ReviewflowCommandTarget,
+  actor: string,
+  deps: { recordReviewPreference?: RecordReviewPreferenceUseCase; now: () => string },
+): ReviewflowCommandOutcome {
+  if (!deps.recordReviewPreference) {
+    return { status: 'unsupported', acknowledgement: `\`${command.name}\` is not available on this server.` };
+  }
+
+  const result = deps.recordReviewPreference.execute({
+    projectPath: target.localPath,
+    mrId: `${target.platform}-${target.projectPath}-${target.mrNumber}`,
+    change: command.name === 'focus' ? { focus: command.focus } : { model: command.model },
+    author: actor,
+    now: deps.now,
+  });
+
+  if (result.kind === 'mr-not-found') {
+    return {
+      status: 'not-tracked',
+      acknowledgement: 'This merge request has not been reviewed yet: run `/reviewflow review` first.',
+    };
+  }
+  const acknowledgement =
+    command.name === 'focus'
+      ? `Next reviews will focus on **${command.focus}** (set by @${actor}).`
+      : `Next reviews will use the **${command.model}** model (set by @${actor}).`;
+  return { status: 'preference-recorded', acknowledgement };
+}
+
+/**
+ * Acknowledgement of a command that queues a job. It is posted before the job is
+ * submitted, so it confirms the request, not the outcome.
+ */
+export function describeQueuedReviewflowCommand(
+  command: Extract<ReviewflowCommand, { name: 'review' | 'followup' | 'explain' }>,
+  actor: string,
+): string {
+  if (command.name === 'explain') {
+    return `Explanation of thread \`${command.threadId}\` requested by @${actor}.`;
+  }
+  return `${command.name === 'review' ? 'Review' : 'Followup'} requested by @${actor}.`;
+}
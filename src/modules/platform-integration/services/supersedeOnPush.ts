@@ -0,0 +1,74 @@
+import type { Logger } from 'pino';
+import type { ReviewJob } from '@/frameworks/queue/pQueueAdapter.js';
+import type { ReviewContextGateway } from '@/modules/review-execution/entities/reviewContext/reviewContext.gateway.js';
+import {
+  supersedeReview,
+  type SupersedeReviewQueuePort,
+} from '@/modules/review-execution/usecases/supersedeReview.usecase.js';
+import { createTrackedMrId } from '@/modules/tracking/entities/tracking/trackedMr.js';
+import type { RecordSupersessionUseCase } from '@/modules/tracking/usecases/tracking/recordSupersession.usecase.js';
+import type { ReviewflowCommandTarget } from '@/modules/platform-integration/services/reviewflowCommandRouter.js';
+
+export interface SupersedeOnPushQueuePort extends SupersedeReviewQueuePort {
+  createJobId(platform: string, projectPath: string, mrNumber: number): string;
+  whenJobSettled(jobId: string): Promise<void>;
+}
+
+export interface SupersedeOnPushDependencies {
+  queuePort: SupersedeOnPushQueuePort;
+  reviewContextGateway: Pick<ReviewContextGateway, 'delete'>;
+  recordSupersession?: RecordSupersessionUseCase;
+  now: () => string;
+  logger: Logger;
+}
+
+/**
+ * Cancels the review or followup of a merge request still running on a head
+ * older than `headSha`, discards the actions it recorded but did not publish
+ * once it has stopped, and records the supersession. Returns the cancelled
+ * jobs, for the caller to queue again on the new head: the replacements wait
+ * for them on the MR chain, so they start after the discard.
+ */
+export function supersedeStaleReviews(
+  target: ReviewflowCommandTarget,
+  headSha: string,
+  deps: SupersedeOnPushDependencies,
+): ReviewJob[] {
+  const jobIds = [
+    deps.queuePort.createJobId(target.platform, target.projectPath, target.mrNumber),
+    deps.queuePort.createJobId(`${target.platform}-followup`, target.projectPath, target.mrNumber),
+  ];
+  const superseded = jobIds
+    .map((jobId) => supersedeReview(jobId, headSha, deps))
+    .flatMap((result) => (result.status === 'superseded' ? [result.job] : []));
+
+  if (superseded.length === 0) {
+    return [];
+  }
+
+  const mrId = createTrackedMrId(target.platform, target.projectPath, target.mrNumber);
+  // The cancelled session may have recorded actions: drop them so the boot
+  // recovery does not publish findings on the stale head. Only once it has
+  // stopped, or its wind-down could write the context again.
+  const stopped = superseded.map((job) => deps.queuePort.whenJobSettled(job.id));
+  void Promise.all(stopped).then(() => {
+    try {
+      deps.reviewContextGateway.delete(target.localPath, mrId);
+    } catch (error) {
+      deps.logger.warn({ mrId, error }, 'Failed to discard the review context of a superseded job');
+    }
+  });
+
+  for (const job of superseded) {
+    deps.recordSupersession?.execute({
+      projectPath: target.localPath,
+      mrId,
+      type: job.jobType ?? 'review',
+      supersededHeadSha: job.headSha,
+      headSha,
+      now: deps.now,
+    });
+  }
+
+  return superseded;
+}
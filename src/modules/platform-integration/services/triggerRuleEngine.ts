@@ -0,0 +1,156 @@
+import type { Logger } from 'pino';
+import { loadProjectConfig } from '@/config/projectConfig.js';
+import type { ChangedFilesFetchGateway } from '@/modules/platform-integration/entities/changedFiles/changedFilesFetch.gateway.js';
+import type { MergeRequestMetadataFetchGateway } from '@/modules/platform-integration/entities/mergeRequestMetadata/mergeRequestMetadata.gateway.js';
+import {
+  DEFAULT_TRIGGER_RULES,
+  type TriggerRules,
+} from '@/modules/platform-integration/entities/triggerRules/triggerRules.schema.js';
+import { matchesAnyGlob } from '@/shared/services/globMatcher.js';
+
+export type TriggerDecision = { allowed: true } | { allowed: false; reason: string };
+
+export interface TriggerCandidate {
+  targetBranch: string;
+  /**
+   * Merge request author; author rules are skipped when the payload does not carry it.
+   * `null` means it is known to exist but could not be resolved: author rules then
+   * refuse the review, an unknown author never slips past a deny list.
+   */
+  author?: string | null;
+  draft?: boolean;
+  /**
+   * Lazily lists the changed file paths, only called when path rules are set.
+   * `null` means the list could not be fetched: an unknown diff never blocks a review.
+   */
+  changedFiles?: () => string[] | null;
+}
+
+/**
+ * Trigger rules of a configured repository, or the built-in defaults when the
+ * project has no `triggers` block or its config cannot be read.
+ */
+export function loadTriggerRules(localPath: string | undefined): TriggerRules {
+  if (localPath === undefined) {
+    return DEFAULT_TRIGGER_RULES;
+  }
+  try {
+    return loadProjectConfig(localPath)?.triggers ?? DEFAULT_TRIGGER_RULES;
+  } catch {
+    return DEFAULT_TRIGGER_RULES;
+  }
+}
+
+/**
+ * `TriggerCandidate.changedFiles` backed by a forge gateway. A missing gateway or
+ * a failed fetch yields `null`, logged, so path rules fall open.
+ */
+export function lazyChangedFiles(
+  gateway: ChangedFilesFetchGateway | undefined,
+  projectPath: string,
+  mergeRequestNumber: number,
+  logger: Pick<Logger, 'warn'>,
+): () => string[] | null {
+  return () => {
+    if (!gateway) {
+      logger.warn({ projectPath, mergeRequestNumber }, 'Trigger path rules set but changed files are not available');
+      return null;
+    }
+    try {
+      return gateway.fetchChangedFiles(projectPath, mergeRequestNumber);
+    } catch (error) {
+      logger.warn(
+        { projectPath, mergeRequestNumber, error: error instanceof Error ? error.message : String(error) },
+        'Failed to fetch changed files, trigger path rules skipped',
+      );
+      return null;
+    }
+  };
+}
+
+/**
+ * Username of a merge request author, for forges whose webhooks only carry its
+ * id. A missing gateway or a failed fetch yields `null`, logged.
+ */
+export function fetchMergeRequestAuthor(
+  gateway: MergeRequestMetadataFetchGateway | undefined,
+  projectPath: string,
+  mergeRequestNumber: number,
+  logger: Pick<Logger, 'warn'>,
+): string | null {
+  if (!gateway) {
+    return null;
+  }
+  try {
+    return gateway.fetchMergeRequestMetadata(projectPath, mergeRequestNumber).author;
+  } catch (error) {
+    logger.warn(
+      { projectPath, mergeRequestNumber, error: error instanceof Error ? error.message : String(error) },
+      'Failed to fetch the merge request author',
+    );
+    return null;
+  }
+}
+
+export function isSkippedDraft(rules: TriggerRules, draft: boolean | undefined): boolean {
+  return rules.skipDrafts && draft === true;
+}
+
+export function matchesTriggerLabel(rules: TriggerRules, label: string | undefined): boolean {
+  return label !== undefined && rules.labels.includes(label);
+}
+
+/**
+ * Returns the first configured command that opens a line of the comment
+ * (`/review` matches "/review" and "/review please", not "/reviewed").
+ */
+export function findTriggerCommand(rules: TriggerRules, commentBody: string): string | null {
+  const lines = commentBody.split('\n').map((line) => line.trim());
+  for (const command of rules.commands) {
+    const issued = lines.some((line) => line === command || line.startsWith(`${command} `));
+    if (issued) {
+      return command;
+    }
+  }
+  return null;
+}
+
+/**
+ * Applies the draft, author, target branch and path rules to a merge request
+ * that an event (reviewer request, label, command or push) wants to review.
+ * Author and branch patterns are globs, like path patterns.
+ */
+export function evaluateTriggerRules(rules: TriggerRules, candidate: TriggerCandidate): TriggerDecision {
+  if (isSkippedDraft(rules, candidate.draft)) {
+    return { allowed: false, reason: 'Merge request is a draft' };
+  }
+
+  const { author } = candidate;
+  if (author === null && (rules.authors.allow.length > 0 || rules.authors.deny.length > 0)) {
+    return { allowed: false, reason: 'Author could not be resolved for trigger rules' };
+  }
+  if (typeof author === 'string') {
+    if (matchesAnyGlob(author, rules.authors.deny)) {
+      return { allowed: false, reason: `Author "${author}" is denied by trigger rules` };
+    }
+    if (rules.authors.allow.length > 0 && !matchesAnyGlob(author, rules.authors.allow)) {
+      return { allowed: false, reason: `Author "${author}" is not allowed by trigger rules` };
+    }
+  }
+
+  if (rules.targetBranches.length > 0 && !matchesAnyGlob(candidate.targetBranch, rules.targetBranches)) {
+    return {
+      allowed: false,
+      reason: `Target branch "${candidate.targetBranch}" does not match trigger rules`,
+    };
+  }
+
+  if (rules.paths.length > 0) {
+    const changedFiles = candidate.changedFiles?.() ?? null;
+    if (changedFiles !== null && !changedFiles.some((file) => matchesAnyGlob(file, rules.paths))) {
+      return { allowed: false, reason: 'No changed file matches trigger paths' };
+    }
+  }
+
+  return { allowed: true };
+}
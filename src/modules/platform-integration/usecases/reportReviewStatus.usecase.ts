@@ -0,0 +1,113 @@
+import type { Logger } from 'pino';
+import type { JobLifecycleEvent, JobStatus } from '@/frameworks/queue/pQueueAdapter.js';
+import type { CommitStatusGateway } from '@/modules/platform-integration/entities/commitStatus/commitStatus.gateway.js';
+import {
+  finishedReviewStatus,
+  PENDING_REVIEW_STATUS,
+  type ReviewCommitStatus,
+  RUNNING_REVIEW_STATUS,
+} from '@/modules/platform-integration/entities/commitStatus/reviewCommitStatus.js';
+import type { DiffMetadataFetchGateway } from '@/modules/platform-integration/entities/diffMetadata/diffMetadata.gateway.js';
+import type { ReviewRequestTrackingGateway } from '@/modules/tracking/interface-adapters/gateways/reviewRequestTracking.gateway.js';
+import { createTrackedMrId } from '@/modules/tracking/entities/tracking/trackedMr.js';
+import type { ReviewEvent } from '@/modules/tracking/entities/tracking/reviewEvent.js';
+
+type Platform = JobStatus['job']['platform'];
+
+export interface ReportReviewStatusDependencies {
+  /** Null for platforms without status reporting. */
+  commitStatusGatewayFor: (platform: Platform) => CommitStatusGateway | null;
+  diffMetadataFetchGatewayFor: (platform: Platform) => DiffMetadataFetchGateway | null;
+  trackingGateway: ReviewRequestTrackingGateway;
+  /** Project opt-in (`commitStatus` in the project config), off for shadow jobs. */
+  isEnabled: (job: JobStatus['job']) => boolean;
+  getQualityThreshold: (localPath: string) => number | null;
+  dashboardUrl: string;
+  logger: Logger;
+}
+
+/**
+ * Mirrors a review job on the head commit of its merge request: pending when
+ * queued, running when dispatched, then the review outcome. The head SHA is
+ * resolved once when the job is queued, so every state lands on the same commit.
+ */
+export class ReportReviewStatusUseCase {
+  private readonly headShas = new Map<string, string>();
+
+  constructor(private readonly deps: ReportReviewStatusDependencies) {}
+
+  async execute(event: JobLifecycleEvent, jobStatus: JobStatus): Promise<void> {
+    const { job } = jobStatus;
+    const gateway = this.deps.commitStatusGatewayFor(job.platform);
+    if (!gateway || !job.localPath || !this.deps.isEnabled(job)) {
+      return;
+    }
+
+    try {
+      const sha = this.resolveHeadSha(event, jobStatus);
+      if (sha === null) {
+        return;
+      }
+
+      const status = this.statusFor(event, jobStatus);
+      await gateway.publish({
+        projectPath: job.projectPath,
+        sha,
+        ...status,
+        targetUrl: this.deps.dashboardUrl,
+      });
+    } catch (error) {
+      this.deps.logger.warn(
+        { jobId: job.id, event, error: error instanceof Error ? error.message : String(error) },
+        'Failed to publish review commit status',
+      );
+    }
+  }
+
+  private resolveHeadSha(event: JobLifecycleEvent, jobStatus: JobStatus): string | null {
+    const { job } = jobStatus;
+    const known = this.headShas.get(job.id);
+    if (event === 'finished') {
+      this.headShas.delete(job.id);
+    }
+    if (known !== undefined) {
+      return known;
+    }
+
+    const diffMetadataGateway = this.deps.diffMetadataFetchGatewayFor(job.platform);
+    if (!diffMetadataGateway) {
+      return null;
+    }
+    const sha = diffMetadataGateway.fetchDiffMetadata(job.projectPath, job.mrNumber).headSha;
+    if (event !== 'finished') {
+      this.headShas.set(job.id, sha);
+    }
+    return sha;
+  }
+
+  private statusFor(event: JobLifecycleEvent, jobStatus: JobStatus): ReviewCommitStatus {
+    if (event === 'queued') return PENDING_REVIEW_STATUS;
+    if (event === 'running') return RUNNING_REVIEW_STATUS;
+
+    const { job } = jobStatus;
+    return finishedReviewStatus({
+      jobStatus: jobStatus.status === 'completed' ? 'completed' : 'failed',
+      error: jobStatus.error,
+      review: this.reviewRecordedBy(jobStatus),
+      qualityThreshold: this.deps.getQualityThreshold(job.localPath),
+    });
+  }
+
+  private reviewRecordedBy(jobStatus: JobStatus): ReviewEvent | null {
+    const { job } = jobStatus;
+    const mr = this.deps.trackingGateway.getById(
+      job.localPath,
+      createTrackedMrId(job.platform, job.projectPath, job.mrNumber),
+    );
+    const latest = mr?.reviews.at(-1);
+    if (!latest || !jobStatus.startedAt || new Date(latest.timestamp) < jobStatus.startedAt) {
+      return null;
+    }
+    return latest;
+  }
+}
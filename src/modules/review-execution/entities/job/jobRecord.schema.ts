@@ -4,7 +4,7 @@ export const jobRecordStatusSchema = z.enum(['success', 'failed', 'killed', 'tim
 
 export const jobRecordSchema = z.object({
   jobId: z.string().min(1),
-  platform: z.enum(['gitlab', 'github']),
+  platform: z.enum(['gitlab', 'github', 'bitbucket', 'gitea']),
   projectPath: z.string().min(1),
   mergeRequestId: z.number().int().nonnegative(),
   jobType: z.enum(['review', 'followup']),
@@ -13,6 +13,8 @@ export const jobRecordSchema = z.object({
   durationMs: z.number().int().nonnegative(),
   status: jobRecordStatusSchema,
   exitReason: z.string().nullable(),
+  // Review sessions dispatched, absent when the first one settled the job.
+  attempts: z.number().int().positive().optional(),
 });
 
 export type JobRecordStatus = z.infer<typeof jobRecordStatusSchema>;
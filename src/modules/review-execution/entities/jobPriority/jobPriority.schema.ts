@@ -0,0 +1,32 @@
+import { z } from 'zod';
+
+export const priorityLaneSchema = z.enum(['urgent', 'high', 'normal', 'low']);
+
+export type PriorityLane = z.infer<typeof priorityLaneSchema>;
+
+/** Queue priority of each lane: higher runs first, jobs of a lane keep their arrival order. */
+export const PRIORITY_LANE_VALUES: Record<PriorityLane, number> = {
+  urgent: 200,
+  high: 100,
+  normal: 0,
+  low: -100,
+};
+
+const nonEmptyStringSchema = z.string().min(1);
+
+export const priorityRulesSchema = z
+  .object({
+    labels: z.record(nonEmptyStringSchema, priorityLaneSchema).default({}),
+    targetBranches: z.record(nonEmptyStringSchema, priorityLaneSchema).default({}),
+    followupsFirst: z.boolean().default(false),
+  })
+  .strict();
+
+/**
+ * Per-project queue priority rules (`priority` in `.claude/reviews/config.json`).
+ * `labels` maps a merge request label to a lane, `targetBranches` maps a branch
+ * glob to a lane; jobs matching nothing stay in the `normal` lane.
+ */
+export type PriorityRules = z.infer<typeof priorityRulesSchema>;
+
+export const DEFAULT_PRIORITY_RULES: PriorityRules = priorityRulesSchema.parse({});
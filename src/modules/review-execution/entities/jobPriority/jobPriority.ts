@@ -0,0 +1,39 @@
+import { matchesGlob } from '@/shared/services/globMatcher.js';
+import {
+  PRIORITY_LANE_VALUES,
+  type PriorityLane,
+  type PriorityRules,
+} from '@/modules/review-execution/entities/jobPriority/jobPriority.schema.js';
+
+/**
+ * Added to a followup when `followupsFirst` is set: it overtakes fresh reviews of
+ * its own lane without reaching the lane above.
+ */
+export const FOLLOWUP_PRIORITY_BOOST = 50;
+
+export interface JobPriorityCandidate {
+  labels: readonly string[];
+  targetBranch: string;
+  jobType: 'review' | 'followup';
+}
+
+/**
+ * Queue priority of a job. When several labels or branch patterns match, the
+ * highest lane wins; a job matching nothing is `normal`.
+ */
+export function resolveJobPriority(candidate: JobPriorityCandidate, rules: PriorityRules): number {
+  const lanes: PriorityLane[] = [];
+
+  for (const label of candidate.labels) {
+    const lane = rules.labels[label];
+    if (lane !== undefined) lanes.push(lane);
+  }
+  for (const [pattern, lane] of Object.entries(rules.targetBranches)) {
+    if (matchesGlob(candidate.targetBranch, pattern)) lanes.push(lane);
+  }
+
+  const lanePriority =
+    lanes.length > 0 ? Math.max(...lanes.map((lane) => PRIORITY_LANE_VALUES[lane])) : PRIORITY_LANE_VALUES.normal;
+  const boost = rules.followupsFirst && candidate.jobType === 'followup' ? FOLLOWUP_PRIORITY_BOOST : 0;
+  return lanePriority + boost;
+}
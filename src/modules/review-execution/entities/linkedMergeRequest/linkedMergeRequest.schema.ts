@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+export const linkedMergeRequestSchema = z.object({
+  projectPath: z.string().min(1),
+  mrNumber: z.number().int().positive(),
+});
+
+/** A merge request of another repository reviewed together with the current one. */
+export type LinkedMergeRequest = z.infer<typeof linkedMergeRequestSchema>;
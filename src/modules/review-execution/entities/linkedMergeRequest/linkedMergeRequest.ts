@@ -0,0 +1,60 @@
+import type { LinkedMergeRequest } from '@/modules/review-execution/entities/linkedMergeRequest/linkedMergeRequest.schema.js';
+
+export const CROSS_REPO_SECTION_HEADING = '## Cross-repository consistency';
+
+// `group/project!123` (GitLab) or `owner/repo#123` (GitHub, Gitea, Bitbucket).
+const REFERENCE_PATTERN = /^([\w.-]+(?:\/[\w.-]+)+)[!#](\d+)$/;
+const DEPENDS_ON_PATTERN = /^[ \t>*-]*depends on:?[ \t]+(\S+)[ \t]*$/gim;
+
+export function parseLinkedMergeRequestReference(reference: string): LinkedMergeRequest | null {
+  const match = reference.trim().match(REFERENCE_PATTERN);
+  if (!match) return null;
+  const mrNumber = Number.parseInt(match[2], 10);
+  if (mrNumber <= 0) return null;
+  return { projectPath: match[1], mrNumber };
+}
+
+/** Merge requests named by `Depends on group/project!123` lines of a description. */
+export function parseDependsOnLinks(description: string | undefined): LinkedMergeRequest[] {
+  if (!description) return [];
+  const links: LinkedMergeRequest[] = [];
+  for (const match of description.matchAll(DEPENDS_ON_PATTERN)) {
+    const link = parseLinkedMergeRequestReference(match[1]);
+    if (link) links.push(link);
+  }
+  return links;
+}
+
+export function isSameMergeRequest(left: LinkedMergeRequest, right: LinkedMergeRequest): boolean {
+  return left.projectPath.toLowerCase() === right.projectPath.toLowerCase() && left.mrNumber === right.mrNumber;
+}
+
+/** Links of `self`, deduplicated in first-seen order, without `self` itself. */
+export function collectLinkedMergeRequests(
+  self: LinkedMergeRequest,
+  ...sources: ReadonlyArray<readonly LinkedMergeRequest[]>
+): LinkedMergeRequest[] {
+  const links: LinkedMergeRequest[] = [];
+  for (const link of sources.flat()) {
+    if (isSameMergeRequest(link, self) || links.some((known) => isSameMergeRequest(known, link))) continue;
+    links.push(link);
+  }
+  return links;
+}
+
+export function formatLinkedMergeRequest(
+  link: LinkedMergeRequest,
+  platform: 'gitlab' | 'github' | 'bitbucket' | 'gitea',
+): string {
+  return `${link.projectPath}${platform === 'gitlab' ? '!' : '#'}${link.mrNumber}`;
+}
+
+/** The cross-repository section of a review report, heading included. null when absent or empty. */
+export function extractCrossRepoSection(report: string): string | null {
+  const lines = report.split('\n');
+  const start = lines.findIndex((line) => line.trim().toLowerCase() === CROSS_REPO_SECTION_HEADING.toLowerCase());
+  if (start === -1) return null;
+  const end = lines.findIndex((line, index) => index > start && /^#{1,2} /.test(line));
+  const section = lines.slice(start, end === -1 ? undefined : end).join('\n').trim();
+  return section === lines[start].trim() ? null : section;
+}
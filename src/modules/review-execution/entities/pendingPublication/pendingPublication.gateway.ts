@@ -0,0 +1,17 @@
+import type { PendingPublication } from '@/modules/review-execution/entities/pendingPublication/pendingPublication.schema.js';
+
+/** One pending publication per merge request: parking a newer review replaces it. */
+export interface PendingPublicationGateway {
+  save(publication: PendingPublication): Promise<void>;
+  load(mergeRequestId: string): Promise<PendingPublication | null>;
+  listAll(): Promise<PendingPublication[]>;
+  delete(mergeRequestId: string): Promise<boolean>;
+  /**
+   * Takes the publication out of the parked ones for a single publisher.
+   * Returns null when nothing is parked, including while another publisher holds it.
+   */
+  claim(mergeRequestId: string): Promise<PendingPublication | null>;
+  isClaimed(mergeRequestId: string): Promise<boolean>;
+  /** Drops the claimed copy once the publisher is done with it. */
+  releaseClaim(mergeRequestId: string): Promise<void>;
+}
@@ -0,0 +1,7 @@
+import { createGuard } from '@/shared/foundation/guard.base.js';
+import {
+  pendingPublicationSchema,
+  type PendingPublication,
+} from '@/modules/review-execution/entities/pendingPublication/pendingPublication.schema.js';
+
+export const pendingPublicationGuard = createGuard<PendingPublication>(pendingPublicationSchema, 'pendingPublication');
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import {
+  postCommentActionSchema,
+  postInlineCommentActionSchema,
+  threadReplyActionSchema,
+} from '@/modules/review-execution/entities/reviewAction/reviewAction.schema.js';
+import { measuredReviewResultSchema } from '@/modules/review-execution/entities/reviewContext/reviewContextResult.schema.js';
+
+export const pendingPublicationActionSchema = z.discriminatedUnion('type', [
+  postCommentActionSchema,
+  postInlineCommentActionSchema,
+  threadReplyActionSchema,
+]);
+
+/** A comment for a linked merge request: the cross-repository section of the report. */
+export const linkedCommentSchema = z.object({
+  projectPath: z.string().min(1),
+  mrNumber: z.number().int().positive(),
+  body: z.string().min(1),
+});
+
+export const publicationDecisionSchema = z.enum(['pending', 'approved', 'dropped']);
+
+export const pendingPublicationItemSchema = z.object({
+  itemId: z.string().min(1),
+  action: pendingPublicationActionSchema,
+  decision: publicationDecisionSchema,
+  edited: z.boolean(),
+});
+
+export const pendingPublicationSchema = z.object({
+  mergeRequestId: z.string().min(1),
+  localPath: z.string().min(1),
+  platform: z.enum(['gitlab', 'github', 'bitbucket', 'gitea']),
+  projectPath: z.string().min(1),
+  mergeRequestNumber: z.number().int().positive(),
+  jobType: z.enum(['review', 'followup']),
+  parkedAt: z.string().min(1),
+  baseUrl: z.string().nullable(),
+  verdict: measuredReviewResultSchema.shape.verdict.optional(),
+  diffMetadata: z
+    .object({
+      baseSha: z.string(),
+      headSha: z.string(),
+      startSha: z.string(),
+    })
+    .optional(),
+  items: z.array(pendingPublicationItemSchema),
+  // Posted on the linked merge requests once the review is published.
+  linkedComments: z.array(linkedCommentSchema).optional(),
+});
+
+export type PendingPublicationAction = z.infer<typeof pendingPublicationActionSchema>;
+export type LinkedComment = z.infer<typeof linkedCommentSchema>;
+export type PublicationDecision = z.infer<typeof publicationDecisionSchema>;
+export type PendingPublicationItem = z.infer<typeof pendingPublicationItemSchema>;
+/** Comments of a finished review held until a maintainer approves them. */
+export type PendingPublication = z.infer<typeof pendingPublicationSchema>;
@@ -0,0 +1,70 @@
+import type { ReviewAction } from '@/modules/review-execution/entities/reviewAction/reviewAction.js';
+import type { ReviewContext } from '@/modules/review-execution/entities/reviewContext/reviewContext.js';
+import type {
+  PendingPublication,
+  PendingPublicationAction,
+  PendingPublicationItem,
+  PublicationDecision,
+} from '@/modules/review-execution/entities/pendingPublication/pendingPublication.schema.js';
+
+/** Whether a maintainer reviews the action before publication: comments only. */
+export function isPendingPublicationAction(action: ReviewAction): action is PendingPublicationAction {
+  return action.type === 'POST_COMMENT' || action.type === 'POST_INLINE_COMMENT' || action.type === 'THREAD_REPLY';
+}
+
+/**
+ * The comments a maintainer reviews before publication. Resolutions and labels
+ * are left out: the context executor never publishes them.
+ */
+export function toPendingPublicationItems(actions: ReviewAction[]): PendingPublicationItem[] {
+  return actions
+    .filter(isPendingPublicationAction)
+    .map((action, index) => ({ itemId: String(index + 1), action, decision: 'pending', edited: false }));
+}
+
+export function withEditedText(action: PendingPublicationAction, text: string): PendingPublicationAction {
+  return action.type === 'THREAD_REPLY' ? { ...action, message: text } : { ...action, body: text };
+}
+
+export function updatePendingPublicationItem(
+  publication: PendingPublication,
+  itemId: string,
+  update: { decision?: PublicationDecision; text?: string },
+): PendingPublication {
+  return {
+    ...publication,
+    items: publication.items.map((item) => {
+      if (item.itemId !== itemId) return item;
+      return {
+        ...item,
+        action: update.text === undefined ? item.action : withEditedText(item.action, update.text),
+        decision: update.decision ?? item.decision,
+        edited: item.edited || update.text !== undefined,
+      };
+    }),
+  };
+}
+
+export function undecidedItemCount(publication: PendingPublication): number {
+  return publication.items.filter((item) => item.decision === 'pending').length;
+}
+
+export function approvedActions(publication: PendingPublication): ReviewAction[] {
+  return publication.items.filter((item) => item.decision === 'approved').map((item) => item.action);
+}
+
+/** The review context the approved comments are published from. */
+export function toPublicationContext(publication: PendingPublication): ReviewContext {
+  return {
+    version: '1.0',
+    mergeRequestId: publication.mergeRequestId,
+    platform: publication.platform,
+    projectPath: publication.projectPath,
+    mergeRequestNumber: publication.mergeRequestNumber,
+    createdAt: publication.parkedAt,
+    threads: [],
+    actions: approvedActions(publication),
+    progress: { phase: 'publishing', currentStep: null },
+    diffMetadata: publication.diffMetadata,
+  };
+}
@@ -1,10 +1,11 @@
 import { z } from 'zod';
 import { languageSchema } from '@/modules/shared-kernel/entities/language/language.schema.js';
 import { claudeModelNameSchema } from '@/modules/review-execution/entities/modelRouting/modelRouting.schema.js';
+import { publishModeSchema } from '@/modules/review-execution/entities/publishMode/publishMode.schema.js';
 
 export const reviewJobSnapshotSchema = z.object({
   id: z.string().min(1),
-  platform: z.enum(['gitlab', 'github']),
+  platform: z.enum(['gitlab', 'github', 'bitbucket', 'gitea']),
   projectPath: z.string().min(1),
   localPath: z.string().min(1),
   mrNumber: z.number().int().positive(),
@@ -12,6 +13,7 @@ export const reviewJobSnapshotSchema = z.object({
   mrUrl: z.string().min(1),
   sourceBranch: z.string(),
   targetBranch: z.string(),
+  headSha: z.string().optional(),
   jobType: z.enum(['review', 'followup']).optional(),
   language: languageSchema.optional(),
   model: claudeModelNameSchema.optional(),
@@ -23,7 +25,26 @@ export const reviewJobSnapshotSchema = z.object({
       displayName: z.string().optional(),
     })
     .optional(),
+  author: z
+    .object({
+      username: z.string(),
+      displayName: z.string().optional(),
+    })
+    .optional(),
+  sizeMetrics: z
+    .object({
+      additions: z.number().nullable(),
+      deletions: z.number().nullable(),
+      filesChanged: z.number().nullable(),
+    })
+    .optional(),
   sourceForkCloneUrl: z.string().optional(),
+  explainThreadId: z.string().optional(),
+  triggeredBy: z.string().optional(),
+  labels: z.array(z.string()).optional(),
+  priority: z.number().int().optional(),
+  resumedFrom: z.enum(['queued', 'running']).optional(),
+  publishMode: publishModeSchema.optional(),
 });
 
 export const triggerSourceSchema = z.enum([
@@ -36,7 +57,7 @@ export const pendingReviewRequestSchema = z.object({
   pendingReviewRequestId: z.string().min(1),
   job: reviewJobSnapshotSchema,
   jobType: z.enum(['review', 'followup']),
-  platform: z.enum(['gitlab', 'github']),
+  platform: z.enum(['gitlab', 'github', 'bitbucket', 'gitea']),
   triggerSource: triggerSourceSchema,
   createdAt: z.string().min(1),
 });
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { claudeModelNameSchema } from '@/modules/review-execution/entities/modelRouting/modelRouting.schema.js';
+
+export const agentEnabledWhenSchema = z
+  .object({
+    /** Globs matched against the changed paths, relative to the repository root. */
+    paths: z.array(z.string().min(1)).min(1).optional(),
+    /** Languages of the changed files, as reported by `get_changed_files`. */
+    languages: z.array(z.string().min(1)).min(1).optional(),
+  })
+  .refine(enabledWhen => enabledWhen.paths !== undefined || enabledWhen.languages !== undefined, {
+    message: 'must set paths or languages',
+  });
+
+const relativePromptFileSchema = z
+  .string()
+  .min(1)
+  .refine(path => !path.startsWith('/') && !path.split(/[\\/]/).includes('..'), {
+    message: 'must be a path inside the project',
+  });
+
+export const agentDefinitionSchema = z.object({
+  name: z.string().min(1),
+  displayName: z.string().min(1),
+  /** Model of the subagent running the audit, the session model when unset. */
+  model: claudeModelNameSchema.optional(),
+  /** Tools the subagent may use, among the tools of the session; all of them when unset. */
+  allowedTools: z.array(z.string().min(1)).min(1).optional(),
+  timeoutMs: z.number().int().positive().optional(),
+  enabledWhen: agentEnabledWhenSchema.optional(),
+  /** Instructions of the agent, relative to the project root. */
+  promptFile: relativePromptFileSchema.optional(),
+});
+
+export type AgentEnabledWhen = z.infer<typeof agentEnabledWhenSchema>;
+export type AgentDefinitionInput = z.infer<typeof agentDefinitionSchema>;
@@ -1,6 +1,18 @@
-export interface AgentDefinition {
-  name: string;
-  displayName: string;
+import type { AgentDefinitionInput } from './agentDefinition.schema.js';
+
+export type AgentDefinition = AgentDefinitionInput;
+
+/** Settings the skill applies when it dispatches the agent as a subagent. */
+export type AgentDispatch = Pick<AgentDefinition, 'model' | 'allowedTools' | 'timeoutMs' | 'promptFile'>;
+
+export function agentDispatchOf(agent: AgentDefinition): AgentDispatch | undefined {
+  const dispatch: AgentDispatch = {
+    ...(agent.model !== undefined ? { model: agent.model } : {}),
+    ...(agent.allowedTools !== undefined ? { allowedTools: agent.allowedTools } : {}),
+    ...(agent.timeoutMs !== undefined ? { timeoutMs: agent.timeoutMs } : {}),
+    ...(agent.promptFile !== undefined ? { promptFile: agent.promptFile } : {}),
+  };
+  return Object.keys(dispatch).length > 0 ? dispatch : undefined;
 }
 
 export const DEFAULT_AGENTS: AgentDefinition[] = [
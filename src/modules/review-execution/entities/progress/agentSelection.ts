@@ -0,0 +1,112 @@
+import { languageOfPath } from '@/modules/review-execution/entities/reviewDiff/reviewDiff.js';
+import { matchesAnyGlob } from '@/shared/services/globMatcher.js';
+import type { AgentEnabledWhen } from './agentDefinition.schema.js';
+import type { AgentDefinition } from './agentDefinition.type.js';
+
+export interface SkippedAgent {
+  name: string;
+  reason: string;
+}
+
+export interface AgentSelection {
+  agents: AgentDefinition[];
+  skipped: SkippedAgent[];
+}
+
+const DOCUMENTATION_PATHS = ['**/*.md', '**/*.mdx', '**/*.rst', '**/*.adoc', '**/*.txt'];
+
+const CODE_AGENTS = new Set([
+  'clean-architecture',
+  'ddd',
+  'solid',
+  'clean-code',
+  'testing',
+  'code-quality',
+  'security',
+  'performance',
+]);
+
+/** Conditions of the default agents, used when the project config sets no `enabledWhen`. */
+const DEFAULT_ENABLED_WHEN: Record<string, AgentEnabledWhen> = {
+  'react-best-practices': { paths: ['**/*.tsx', '**/*.jsx'] },
+  'markdown-quality': { paths: DOCUMENTATION_PATHS },
+  'link-validity': { paths: DOCUMENTATION_PATHS },
+  terminology: { paths: DOCUMENTATION_PATHS },
+  freshness: { paths: DOCUMENTATION_PATHS },
+  'examples-validity': { paths: DOCUMENTATION_PATHS },
+};
+
+export function matchesEnabledWhen(enabledWhen: AgentEnabledWhen, changedFiles: readonly string[]): boolean {
+  const { paths, languages } = enabledWhen;
+  return changedFiles.some((file) => {
+    if (paths && matchesAnyGlob(file, paths)) return true;
+    const language = languageOfPath(file);
+    return language !== null && languages !== undefined && languages.includes(language);
+  });
+}
+
+function describeEnabledWhen({ paths, languages }: AgentEnabledWhen): string {
+  const conditions: string[] = [];
+  if (paths) conditions.push(`paths ${paths.join(', ')}`);
+  if (languages) conditions.push(`languages ${languages.join(', ')}`);
+  return conditions.join(' or ');
+}
+
+function isDocumentation(file: string): boolean {
+  return matchesAnyGlob(file, DOCUMENTATION_PATHS);
+}
+
+function skipReason(agent: AgentDefinition, changedFiles: readonly string[]): string | null {
+  const enabledWhen = agent.enabledWhen ?? DEFAULT_ENABLED_WHEN[agent.name];
+  if (enabledWhen) {
+    return matchesEnabledWhen(enabledWhen, changedFiles)
+      ? null
+      : `No changed file matches ${describeEnabledWhen(enabledWhen)}`;
+  }
+  if (CODE_AGENTS.has(agent.name) && changedFiles.every(isDocumentation)) {
+    return 'Only documentation changed';
+  }
+  return null;
+}
+
+/**
+ * Agents relevant to the changed files of a merge request: an agent runs when
+ * a file matches its `enabledWhen`, or the built-in condition of its name.
+ * Agents without a condition always run. `null` or an empty list means the
+ * changes are unknown, and every agent runs.
+ */
+export function selectAgentsForChanges(
+  agents: readonly AgentDefinition[],
+  changedFiles: readonly string[] | null,
+): AgentSelection {
+  if (changedFiles === null || changedFiles.length === 0) {
+    return { agents: [...agents], skipped: [] };
+  }
+
+  const selection: AgentSelection = { agents: [], skipped: [] };
+  for (const agent of agents) {
+    const reason = skipReason(agent, changedFiles);
+    if (reason === null) {
+      selection.agents.push(agent);
+    } else {
+      selection.skipped.push({ name: agent.name, reason });
+    }
+  }
+  return selection;
+}
+
+/**
+ * Agents selected for a review, as its context lists them, with the settings
+ * the project config gives them. The configured agents when no selection was
+ * recorded; an empty selection, every agent skipped, stays empty.
+ */
+export function resolveSelectedAgents(
+  configuredAgents: readonly AgentDefinition[] | undefined,
+  selectedAgents: readonly AgentDefinition[] | undefined,
+): AgentDefinition[] | undefined {
+  if (selectedAgents === undefined) {
+    return configuredAgents && [...configuredAgents];
+  }
+  const configuredByName = new Map((configuredAgents ?? []).map((agent) => [agent.name, agent]));
+  return selectedAgents.map((agent) => configuredByName.get(agent.name) ?? agent);
+}
@@ -1,3 +1,5 @@
+import type { AgentDefinition } from "./agentDefinition.type.js";
+import type { SkippedAgent } from "./agentSelection.js";
 import type { ReviewPhase, ReviewProgress } from "./progress.type.js";
 
 export type ProgressChangeCallback = (
@@ -8,7 +10,12 @@ export type ProgressChangeCallback = (
 export type AgentCompletionStatus = "success" | "failed";
 
 export interface ReviewProgressGateway {
-	createProgress(jobId: string, agentNames: string[]): ReviewProgress;
+	/** Agents given by name only get no display name nor dispatch settings. */
+	createProgress(
+		jobId: string,
+		agents: ReadonlyArray<string | AgentDefinition>,
+		skippedAgents?: SkippedAgent[],
+	): ReviewProgress;
 	getProgress(jobId: string): ReviewProgress | undefined;
 	startAgent(jobId: string, agentName: string): ReviewProgress | null;
 	completeAgent(
@@ -16,6 +23,7 @@ export interface ReviewProgressGateway {
 		agentName: string,
 		status: AgentCompletionStatus,
 		error?: string,
+		tokens?: number,
 	): ReviewProgress | null;
 	setPhase(jobId: string, phase: ReviewPhase): ReviewProgress | null;
 	setOnProgressChange(callback: ProgressChangeCallback): void;
@@ -1,3 +1,6 @@
+import type { AgentDispatch } from './agentDefinition.type.js';
+import type { SkippedAgent } from './agentSelection.js';
+
 export type AgentStatus = 'pending' | 'running' | 'completed' | 'failed';
 
 export type ReviewPhase = 'initializing' | 'agents-running' | 'synthesizing' | 'publishing' | 'completed';
@@ -9,6 +12,10 @@ export interface AgentProgress {
   startedAt?: Date;
   completedAt?: Date;
   error?: string;
+  dispatch?: AgentDispatch;
+  durationMs?: number;
+  /** Tokens the subagent reported, when the agent ran as one. */
+  tokens?: number;
 }
 
 export interface ReviewProgress {
@@ -16,6 +23,8 @@ export interface ReviewProgress {
   currentPhase: ReviewPhase;
   overallProgress: number;
   lastUpdate: Date;
+  /** Agents left out because no changed file concerns them. */
+  skippedAgents?: SkippedAgent[];
 }
 
 export type ProgressEventType = 'agent:started' | 'agent:completed' | 'agent:failed' | 'phase:changed';
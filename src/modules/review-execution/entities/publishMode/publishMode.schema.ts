@@ -0,0 +1,9 @@
+import { z } from 'zod';
+
+/**
+ * Where a review's actions go: `live` posts them on the platform, `shadow` only
+ * records them in the shadow log next to the review report.
+ */
+export const publishModeSchema = z.enum(['live', 'shadow']);
+
+export type PublishMode = z.infer<typeof publishModeSchema>;
@@ -0,0 +1,6 @@
+import type { PublishMode } from '@/modules/review-execution/entities/publishMode/publishMode.schema.js';
+
+/** The job's own mode wins over the project's; reviews publish live by default. */
+export function resolvePublishMode(jobMode: PublishMode | undefined, projectMode: PublishMode | undefined): PublishMode {
+  return jobMode ?? projectMode ?? 'live';
+}
@@ -0,0 +1,11 @@
+import type { QueueJournalEntry } from '@/modules/review-execution/entities/queueJournal/queueJournal.schema.js';
+
+/**
+ * Append-only record of the queue. Appends are synchronous so the entries of a
+ * job land in the order the queue emitted them.
+ */
+export interface QueueJournalGateway {
+  append(entry: QueueJournalEntry): void;
+  readAll(): QueueJournalEntry[];
+  replaceAll(entries: QueueJournalEntry[]): void;
+}
@@ -0,0 +1,7 @@
+import { createGuard } from '@/shared/foundation/guard.base.js';
+import {
+  queueJournalEntrySchema,
+  type QueueJournalEntry,
+} from '@/modules/review-execution/entities/queueJournal/queueJournal.schema.js';
+
+export const queueJournalEntryGuard = createGuard<QueueJournalEntry>(queueJournalEntrySchema, 'queueJournalEntry');
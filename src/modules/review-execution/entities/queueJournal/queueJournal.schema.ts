@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { reviewJobSnapshotSchema } from '@/modules/review-execution/entities/pendingReviewRequest/pendingReviewRequest.schema.js';
+
+export const queueJournalEntrySchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('enqueued'),
+    job: reviewJobSnapshotSchema,
+    at: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal('started'),
+    jobId: z.string().min(1),
+    at: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal('finished'),
+    jobId: z.string().min(1),
+    at: z.string().min(1),
+  }),
+]);
+
+export type QueueJournalEntry = z.infer<typeof queueJournalEntrySchema>;
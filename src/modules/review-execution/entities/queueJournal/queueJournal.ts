@@ -0,0 +1,31 @@
+import type { ReviewJob } from '@/frameworks/queue/pQueueAdapter.js';
+import type { QueueJournalEntry } from '@/modules/review-execution/entities/queueJournal/queueJournal.schema.js';
+
+export interface UnfinishedJob {
+  job: ReviewJob;
+  /** The job had started: its run was cut short by the stop or crash. */
+  interrupted: boolean;
+}
+
+/**
+ * Folds the journal into the jobs that were enqueued and never finished, in
+ * enqueue order. A job id enqueued again after finishing counts once, with its
+ * latest snapshot.
+ */
+export function findUnfinishedJobs(entries: QueueJournalEntry[]): UnfinishedJob[] {
+  const open = new Map<string, UnfinishedJob>();
+
+  for (const entry of entries) {
+    if (entry.type === 'enqueued') {
+      open.delete(entry.job.id);
+      open.set(entry.job.id, { job: entry.job, interrupted: false });
+    } else if (entry.type === 'started') {
+      const unfinished = open.get(entry.jobId);
+      if (unfinished) unfinished.interrupted = true;
+    } else {
+      open.delete(entry.jobId);
+    }
+  }
+
+  return [...open.values()];
+}
@@ -9,11 +9,13 @@ export interface ExecutionContext {
   baseUrl: string | null
 }
 
-export interface ExecutionResult {
+export interface ExecutionResult<TAction = ReviewAction> {
   total: number
   succeeded: number
   failed: number
   skipped: number
+  // Set when some actions failed, so they can be retried later.
+  failedActions?: TAction[]
 }
 
 export type CommandExecutor = (command: string, args: string[], cwd: string) => void
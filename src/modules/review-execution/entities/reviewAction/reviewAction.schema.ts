@@ -27,6 +27,7 @@ export const postInlineCommentActionSchema = z.object({
   filePath: z.string(),
   line: z.number(),
   body: z.string(),
+  findingId: z.string().optional(),
 })
 
 export const fetchThreadsActionSchema = z.object({
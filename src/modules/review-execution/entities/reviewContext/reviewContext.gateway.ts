@@ -7,6 +7,10 @@ import type {
 } from './reviewContext.js'
 import type { ReviewContextAction } from '@/modules/review-execution/entities/reviewAction/reviewAction.js'
 import type { ReviewContextResult } from './reviewContextResult.schema.js'
+import type {
+  ReviewFinding,
+  SubmittedReviewResult,
+} from '@/modules/review-execution/entities/reviewFinding/reviewFinding.schema.js'
 
 export interface UpdateResult {
   success: boolean
@@ -21,5 +25,7 @@ export interface ReviewContextGateway {
   appendAction(localPath: string, mergeRequestId: string, action: ReviewContextAction): UpdateResult
   updateProgress(localPath: string, mergeRequestId: string, progress: ReviewContextProgress): UpdateResult
   setResult(localPath: string, mergeRequestId: string, result: ReviewContextResult): UpdateResult
+  appendFinding(localPath: string, mergeRequestId: string, finding: ReviewFinding): UpdateResult
+  submitResult(localPath: string, mergeRequestId: string, result: SubmittedReviewResult): UpdateResult
   listAll(localPath: string): ReviewContext[]
 }
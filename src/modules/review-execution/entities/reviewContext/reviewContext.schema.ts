@@ -1,6 +1,12 @@
 import { z } from 'zod'
 import { reviewActionSchema } from '@/modules/review-execution/entities/reviewAction/reviewAction.schema.js'
 import { reviewContextResultSchema } from './reviewContextResult.schema.js'
+import { claudeModelNameSchema } from '@/modules/review-execution/entities/modelRouting/modelRouting.schema.js'
+import { publishModeSchema } from '@/modules/review-execution/entities/publishMode/publishMode.schema.js'
+import {
+  reviewFindingSchema,
+  submittedReviewResultSchema,
+} from '@/modules/review-execution/entities/reviewFinding/reviewFinding.schema.js'
 
 export const reviewContextThreadSchema = z.object({
   id: z.string(),
@@ -14,6 +20,16 @@ export const reviewContextProgressSchema = z.object({
   phase: z.enum(['pending', 'initializing', 'agents-running', 'synthesizing', 'publishing', 'completed']),
   currentStep: z.string().nullable(),
   stepsCompleted: z.array(z.string()).optional(),
+  agentRuns: z
+    .array(
+      z.object({
+        name: z.string(),
+        model: claudeModelNameSchema.optional(),
+        durationMs: z.number().optional(),
+        tokens: z.number().optional(),
+      }),
+    )
+    .optional(),
   updatedAt: z.string().optional(),
 })
 
@@ -26,7 +42,7 @@ export const agentInstructionsSchema = z.object({
 export const reviewContextSchema = z.object({
   version: z.string(),
   mergeRequestId: z.string(),
-  platform: z.enum(['github', 'gitlab']),
+  platform: z.enum(['github', 'gitlab', 'bitbucket', 'gitea']),
   projectPath: z.string(),
   mergeRequestNumber: z.number(),
   createdAt: z.string(),
@@ -34,13 +50,17 @@ export const reviewContextSchema = z.object({
   actions: z.array(reviewActionSchema),
   progress: reviewContextProgressSchema,
   result: reviewContextResultSchema.optional(),
+  findings: z.array(reviewFindingSchema).optional(),
+  submittedResult: submittedReviewResultSchema.optional(),
   agentInstructions: agentInstructionsSchema.optional(),
+  skippedAgents: z.array(z.object({ name: z.string(), reason: z.string() })).optional(),
+  publishMode: publishModeSchema.optional(),
 })
 
 export const createReviewContextInputSchema = z.object({
   localPath: z.string(),
   mergeRequestId: z.string(),
-  platform: z.enum(['github', 'gitlab']),
+  platform: z.enum(['github', 'gitlab', 'bitbucket', 'gitea']),
   projectPath: z.string(),
   mergeRequestNumber: z.number(),
   threads: z.array(reviewContextThreadSchema).optional(),
@@ -1,5 +1,11 @@
 import type { ReviewContextAction } from '@/modules/review-execution/entities/reviewAction/reviewAction.js'
 import type { ReviewContextResult } from './reviewContextResult.schema.js'
+import type { ClaudeModelName } from '@/modules/review-execution/entities/modelRouting/modelRouting.schema.js'
+import type { PublishMode } from '@/modules/review-execution/entities/publishMode/publishMode.schema.js'
+import type {
+  ReviewFinding,
+  SubmittedReviewResult,
+} from '@/modules/review-execution/entities/reviewFinding/reviewFinding.schema.js'
 
 export interface DiffMetadata {
   baseSha: string
@@ -20,11 +26,26 @@ export interface ReviewContextAgent {
   displayName: string
 }
 
+/** Agent left out of the review because no changed file concerns it. */
+export interface ReviewContextSkippedAgent {
+  name: string
+  reason: string
+}
+
+/** Time and tokens an agent spent, synced from the MCP progress. */
+export interface ReviewContextAgentRun {
+  name: string
+  model?: ClaudeModelName
+  durationMs?: number
+  tokens?: number
+}
+
 export interface ReviewContextProgress {
   phase: 'pending' | 'initializing' | 'agents-running' | 'synthesizing' | 'publishing' | 'completed'
   currentStep: string | null
   stepsCompleted?: string[]
   agents?: ReviewContextAgent[]
+  agentRuns?: ReviewContextAgentRun[]
   updatedAt?: string
 }
 
@@ -37,7 +58,7 @@ export interface AgentInstructions {
 export interface ReviewContext {
   version: string
   mergeRequestId: string
-  platform: 'github' | 'gitlab'
+  platform: 'github' | 'gitlab' | 'bitbucket' | 'gitea'
   projectPath: string
   mergeRequestNumber: number
   createdAt: string
@@ -45,19 +66,26 @@ export interface ReviewContext {
   actions: ReviewContextAction[]
   progress: ReviewContextProgress
   result?: ReviewContextResult
+  findings?: ReviewFinding[]
+  submittedResult?: SubmittedReviewResult
   agentInstructions?: AgentInstructions
   diffMetadata?: DiffMetadata
+  skippedAgents?: ReviewContextSkippedAgent[]
+  /** Publish mode the job set over the project's, for the boot recovery. */
+  publishMode?: PublishMode
 }
 
 export interface CreateReviewContextInput {
   localPath: string
   mergeRequestId: string
-  platform: 'github' | 'gitlab'
+  platform: 'github' | 'gitlab' | 'bitbucket' | 'gitea'
   projectPath: string
   mergeRequestNumber: number
   threads?: ReviewContextThread[]
   agents?: ReviewContextAgent[]
   diffMetadata?: DiffMetadata
+  skippedAgents?: ReviewContextSkippedAgent[]
+  publishMode?: PublishMode
 }
 
 export interface CreateReviewContextResult {
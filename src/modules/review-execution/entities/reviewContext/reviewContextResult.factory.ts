@@ -5,6 +5,8 @@ export interface ParsedReviewStats {
   blocking: number
   warnings: number
   suggestions: number
+  /** Verdict the agent submitted itself; derived from the counts when absent. */
+  verdict?: MeasuredReviewResult['verdict']
 }
 
 export const ReviewContextResultFactory = {
@@ -15,7 +17,7 @@ export const ReviewContextResultFactory = {
       warnings: parsed.warnings,
       suggestions: parsed.suggestions,
       score: parsed.score ?? 0,
-      verdict: deriveVerdict(parsed),
+      verdict: parsed.verdict ?? deriveVerdict(parsed),
     }
   },
 }
@@ -0,0 +1,15 @@
+import type { ChangedFile, DiffRange, FileDiff } from '@/modules/review-execution/entities/reviewDiff/reviewDiff.js';
+
+/**
+ * Read-only view of the change under review, read from the git objects of the
+ * checkout. Methods reject when git fails.
+ */
+export interface ReviewDiffGateway {
+  /** Merge base of `baseSha` and `headSha`, the side the diff is computed from. */
+  mergeBase(cwd: string, range: DiffRange): Promise<string>;
+  listChangedFiles(cwd: string, range: DiffRange): Promise<ChangedFile[]>;
+  /** Hunks of every changed file, or of `paths` only. */
+  readFileDiffs(cwd: string, range: DiffRange, paths?: readonly string[]): Promise<FileDiff[]>;
+  /** Content of `path` at `sha`, null when the file does not exist there. */
+  readFileAtRef(cwd: string, sha: string, path: string): Promise<string | null>;
+}
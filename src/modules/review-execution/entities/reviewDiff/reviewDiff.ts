@@ -0,0 +1,232 @@
+import { extname, basename } from 'node:path';
+
+export type ChangedFileStatus = 'added' | 'modified' | 'deleted' | 'renamed';
+
+export interface ChangedFile {
+  path: string;
+  /** Path before a rename, null otherwise. */
+  previousPath: string | null;
+  status: ChangedFileStatus;
+  /** null for binary files, git does not count their lines. */
+  additions: number | null;
+  deletions: number | null;
+  language: string | null;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  /** Hunk lines, prefixed with ` `, `+` or `-`, header excluded. */
+  content: string;
+}
+
+export interface FileDiff {
+  path: string;
+  previousPath: string | null;
+  status: ChangedFileStatus;
+  binary: boolean;
+  hunks: DiffHunk[];
+}
+
+/** Commits a review compares: the merge base of the target branch and the head of the merge request. */
+export interface DiffRange {
+  baseSha: string;
+  headSha: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  totalItems: number;
+  totalPages: number;
+}
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.vue': 'vue',
+  '.svelte': 'svelte',
+  '.py': 'python',
+  '.rb': 'ruby',
+  '.php': 'php',
+  '.go': 'go',
+  '.rs': 'rust',
+  '.java': 'java',
+  '.kt': 'kotlin',
+  '.kts': 'kotlin',
+  '.swift': 'swift',
+  '.scala': 'scala',
+  '.cs': 'csharp',
+  '.c': 'c',
+  '.h': 'c',
+  '.cpp': 'cpp',
+  '.cc': 'cpp',
+  '.hpp': 'cpp',
+  '.dart': 'dart',
+  '.ex': 'elixir',
+  '.exs': 'elixir',
+  '.sql': 'sql',
+  '.sh': 'shell',
+  '.bash': 'shell',
+  '.css': 'css',
+  '.scss': 'scss',
+  '.less': 'less',
+  '.html': 'html',
+  '.json': 'json',
+  '.yml': 'yaml',
+  '.yaml': 'yaml',
+  '.toml': 'toml',
+  '.xml': 'xml',
+  '.md': 'markdown',
+  '.tf': 'terraform',
+  '.graphql': 'graphql',
+  '.proto': 'protobuf',
+};
+
+const LANGUAGE_BY_FILENAME: Record<string, string> = {
+  Dockerfile: 'dockerfile',
+  Makefile: 'makefile',
+  Gemfile: 'ruby',
+  Rakefile: 'ruby',
+};
+
+export function languageOfPath(path: string): string | null {
+  const name = basename(path);
+  return LANGUAGE_BY_FILENAME[name] ?? LANGUAGE_BY_EXTENSION[extname(name).toLowerCase()] ?? null;
+}
+
+function statusOfLetter(letter: string): ChangedFileStatus {
+  if (letter === 'A') return 'added';
+  if (letter === 'D') return 'deleted';
+  if (letter === 'R') return 'renamed';
+  return 'modified';
+}
+
+function parseCount(value: string): number | null {
+  return value === '-' ? null : Number.parseInt(value, 10) || 0;
+}
+
+/**
+ * Files of `git diff -M --name-status -z` joined with the counts of
+ * `git diff -M --numstat -z`, both run on the same range.
+ */
+export function parseChangedFiles(nameStatusOutput: string, numstatOutput: string): ChangedFile[] {
+  const counts = new Map<string, { additions: number | null; deletions: number | null }>();
+  const numstat = numstatOutput.split('\0');
+  for (let index = 0; index < numstat.length; index += 1) {
+    const [added, deleted, path] = numstat[index].split('\t');
+    if (deleted === undefined) continue;
+    // A rename leaves the path empty and lists the old then the new path.
+    const newPath = path === '' ? numstat[index + 2] : path;
+    if (path === '') index += 2;
+    counts.set(newPath, { additions: parseCount(added), deletions: parseCount(deleted) });
+  }
+
+  const files: ChangedFile[] = [];
+  const fields = nameStatusOutput.split('\0');
+  for (let index = 0; index + 1 < fields.length; index += 2) {
+    const letter = fields[index].charAt(0);
+    if (!letter) continue;
+    let previousPath: string | null = null;
+    let path = fields[index + 1];
+    if (letter === 'R' || letter === 'C') {
+      previousPath = letter === 'R' ? path : null;
+      path = fields[index + 2];
+      index += 1;
+    }
+    const count = counts.get(path) ?? { additions: null, deletions: null };
+    files.push({ path, previousPath, status: statusOfLetter(letter), ...count, language: languageOfPath(path) });
+  }
+  return files;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+function stripPrefix(path: string): string {
+  return path.replace(/^[ab]\//, '');
+}
+
+/** Files and hunks of a unified `git diff` output. */
+export function parseFileDiffs(patch: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  let file: FileDiff | null = null;
+  let hunk: DiffHunk | null = null;
+  let hunkLines: string[] = [];
+
+  const closeHunk = () => {
+    if (file && hunk) {
+      hunk.content = hunkLines.join('\n');
+      file.hunks.push(hunk);
+    }
+    hunk = null;
+    hunkLines = [];
+  };
+
+  for (const line of patch.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      closeHunk();
+      const paths = line.slice('diff --git '.length).match(/^a\/(.+) b\/(.+)$/);
+      file = { path: paths?.[2] ?? '', previousPath: null, status: 'modified', binary: false, hunks: [] };
+      files.push(file);
+      continue;
+    }
+    if (!file) continue;
+    if (hunk) {
+      if (line.startsWith(' ') || line.startsWith('+') || line.startsWith('-') || line.startsWith('\\')) {
+        hunkLines.push(line);
+        continue;
+      }
+      closeHunk();
+    }
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      hunk = {
+        header: line,
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        content: '',
+      };
+    } else if (line.startsWith('new file mode')) {
+      file.status = 'added';
+    } else if (line.startsWith('deleted file mode')) {
+      file.status = 'deleted';
+    } else if (line.startsWith('rename from ')) {
+      file.status = 'renamed';
+      file.previousPath = line.slice('rename from '.length);
+    } else if (line.startsWith('rename to ')) {
+      file.path = line.slice('rename to '.length);
+    } else if (line.startsWith('+++ ') && line !== '+++ /dev/null') {
+      file.path = stripPrefix(line.slice(4));
+    } else if (line.startsWith('--- ') && line !== '--- /dev/null' && file.status === 'deleted') {
+      file.path = stripPrefix(line.slice(4));
+    } else if (line.startsWith('Binary files ')) {
+      file.binary = true;
+    }
+  }
+  closeHunk();
+  return files;
+}
+
+export function paginate<T>(items: readonly T[], page: number, pageSize: number): Page<T> {
+  const totalPages = Math.max(1, Math.ceil(items.length / pageSize));
+  const start = (page - 1) * pageSize;
+  return {
+    items: items.slice(start, start + pageSize),
+    page,
+    pageSize,
+    totalItems: items.length,
+    totalPages,
+  };
+}
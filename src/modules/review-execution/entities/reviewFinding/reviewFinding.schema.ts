@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { measuredReviewResultSchema } from '@/modules/review-execution/entities/reviewContext/reviewContextResult.schema.js';
+
+export const findingSeveritySchema = z.enum(['blocking', 'warning', 'suggestion']);
+
+export const reviewFindingSchema = z.object({
+  id: z.string().min(1),
+  severity: findingSeveritySchema,
+  agent: z.string().min(1),
+  title: z.string().min(1),
+  body: z.string(),
+  filePath: z.string().min(1).nullable(),
+  startLine: z.number().int().positive().nullable(),
+  endLine: z.number().int().positive().nullable(),
+  suggestedPatch: z.string().nullable(),
+  confidence: z.number().min(0).max(1),
+  reportedAt: z.string(),
+});
+
+export const submittedReviewResultSchema = z.object({
+  score: z.number().min(0).max(10),
+  verdict: measuredReviewResultSchema.shape.verdict,
+  submittedAt: z.string(),
+});
+
+export type FindingSeverity = z.infer<typeof findingSeveritySchema>;
+/** One issue an agent reported through `report_finding`. */
+export type ReviewFinding = z.infer<typeof reviewFindingSchema>;
+/** Score and verdict the agent submitted through `submit_result`. */
+export type SubmittedReviewResult = z.infer<typeof submittedReviewResultSchema>;
@@ -0,0 +1,81 @@
+import type { ReviewContext } from '@/modules/review-execution/entities/reviewContext/reviewContext.js';
+import type { ParsedReviewStats } from '@/modules/review-execution/entities/reviewContext/reviewContextResult.factory.js';
+import type { FindingSeverity, ReviewFinding } from '@/modules/review-execution/entities/reviewFinding/reviewFinding.schema.js';
+
+/** What tracking keeps of a finding: enough to list it, not to republish it. */
+export type ReviewFindingSummary = Pick<
+  ReviewFinding,
+  'severity' | 'agent' | 'title' | 'filePath' | 'startLine' | 'endLine' | 'confidence'
+>;
+
+export interface ResolvedReviewStats extends ParsedReviewStats {
+  findings: ReviewFindingSummary[];
+}
+
+const SEVERITY_HEADINGS: Record<FindingSeverity, string> = {
+  blocking: '🚨 **[BLOQUANT]**',
+  warning: '⚠️ **[IMPORTANT]**',
+  suggestion: '💡 **[SUGGESTION]**',
+};
+
+export function countFindingsBySeverity(
+  findings: readonly ReviewFinding[],
+): Pick<ParsedReviewStats, 'blocking' | 'warnings' | 'suggestions'> {
+  return {
+    blocking: findings.filter((finding) => finding.severity === 'blocking').length,
+    warnings: findings.filter((finding) => finding.severity === 'warning').length,
+    suggestions: findings.filter((finding) => finding.severity === 'suggestion').length,
+  };
+}
+
+/** Line an inline comment on the finding is anchored to: the end of its range. */
+export function findingAnchorLine(finding: ReviewFinding): number | null {
+  return finding.endLine ?? finding.startLine;
+}
+
+/** Markdown body of the inline comment published for a finding. */
+export function formatFindingComment(finding: ReviewFinding): string {
+  const parts = [
+    `${SEVERITY_HEADINGS[finding.severity]} ${finding.title}`,
+    `_${finding.agent} · confiance ${Math.round(finding.confidence * 100)}%_`,
+  ];
+  if (finding.body.trim()) {
+    parts.push(finding.body.trim());
+  }
+  if (finding.suggestedPatch?.trim()) {
+    parts.push(`\`\`\`diff\n${finding.suggestedPatch.trimEnd()}\n\`\`\``);
+  }
+  return parts.join('\n\n');
+}
+
+export function summarizeFinding(finding: ReviewFinding): ReviewFindingSummary {
+  return {
+    severity: finding.severity,
+    agent: finding.agent,
+    title: finding.title,
+    filePath: finding.filePath,
+    startLine: finding.startLine,
+    endLine: finding.endLine,
+    confidence: finding.confidence,
+  };
+}
+
+/**
+ * Stats of a finished review. Once the agent reported findings or submitted
+ * its result, counts come from the findings and score and verdict from the
+ * submission; the stats parsed from the Markdown report only fill what the
+ * agent left out.
+ */
+export function resolveReviewStats(parsed: ParsedReviewStats, context: ReviewContext | null): ResolvedReviewStats {
+  const findings = context?.findings ?? [];
+  const submitted = context?.submittedResult;
+  if (findings.length === 0 && !submitted) {
+    return { ...parsed, findings: [] };
+  }
+  return {
+    score: submitted?.score ?? parsed.score,
+    ...countFindingsBySeverity(findings),
+    ...(submitted ? { verdict: submitted.verdict } : {}),
+    findings: findings.map(summarizeFinding),
+  };
+}
@@ -1,6 +1,6 @@
 import { z } from 'zod';
 
-export const PlatformSchema = z.enum(['gitlab', 'github']);
+export const PlatformSchema = z.enum(['gitlab', 'github', 'bitbucket', 'gitea']);
 export type Platform = z.infer<typeof PlatformSchema>;
 
 export const ReviewRequestStateSchema = z.enum([
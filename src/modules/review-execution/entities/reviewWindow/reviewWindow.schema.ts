@@ -0,0 +1,55 @@
+import { z } from 'zod';
+
+export const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+/** Shorthands accepted in `days`, expanded by the schema. */
+const DAY_GROUPS: Record<string, readonly Weekday[]> = {
+  weekdays: ['mon', 'tue', 'wed', 'thu', 'fri'],
+  weekend: ['sat', 'sun'],
+  daily: WEEKDAYS,
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const daysSchema = z
+  .array(z.enum([...WEEKDAYS, 'weekdays', 'weekend', 'daily'] as const))
+  .min(1)
+  .transform((days) => [...new Set(days.flatMap((day) => DAY_GROUPS[day] ?? [day as Weekday]))]);
+
+export const reviewWindowSchema = z
+  .object({
+    days: daysSchema.default([...WEEKDAYS]),
+    from: z.string().regex(TIME_PATTERN, 'must be HH:MM'),
+    to: z.string().regex(TIME_PATTERN, 'must be HH:MM'),
+  })
+  .strict();
+
+export const reviewScheduleSchema = z
+  .object({
+    timezone: z.string().refine(isTimeZone, 'must be an IANA time zone, e.g. "Europe/Paris"').default('UTC'),
+    windows: z.array(reviewWindowSchema).min(1),
+  })
+  .strict();
+
+/**
+ * A window opens at `from` on each of its `days` and closes at `to`, the next day
+ * when `to` is not after `from` (`"19:00"` → `"08:00"` spans the night).
+ */
+export type ReviewWindow = z.infer<typeof reviewWindowSchema>;
+
+/**
+ * Hours reviews may run (`schedule` in `.claude/reviews/config.json`, or
+ * `queue.schedule` in the server config). Outside every window jobs wait queued.
+ */
+export type ReviewSchedule = z.infer<typeof reviewScheduleSchema>;
@@ -0,0 +1,90 @@
+import {
+  type ReviewSchedule,
+  type ReviewWindow,
+  WEEKDAYS,
+  type Weekday,
+} from '@/modules/review-execution/entities/reviewWindow/reviewWindow.schema.js';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MILLISECONDS_PER_MINUTE = 60_000;
+// Passes needed to settle on an opening when a DST gap swallows the target time.
+const MAX_OPENING_PASSES = 4;
+
+interface LocalTime {
+  day: number;
+  minutes: number;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function localTime(date: Date, timezone: string): LocalTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes): string => parts.find((entry) => entry.type === type)?.value ?? '';
+  return {
+    day: WEEKDAYS.indexOf(part('weekday').toLowerCase() as Weekday),
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+}
+
+function opensOn(window: ReviewWindow, day: number): boolean {
+  return window.days.includes(WEEKDAYS[(day + 7) % 7]);
+}
+
+function isOpenAt(window: ReviewWindow, time: LocalTime): boolean {
+  const from = toMinutes(window.from);
+  const to = toMinutes(window.to);
+  if (from < to) {
+    return opensOn(window, time.day) && time.minutes >= from && time.minutes < to;
+  }
+  // Overnight window, or a full day when `from` equals `to`.
+  return (opensOn(window, time.day) && time.minutes >= from) || (opensOn(window, time.day - 1) && time.minutes < to);
+}
+
+/** Wall-clock minutes until the next window opens, null when none opens within a week. */
+function minutesUntilNextOpening(windows: readonly ReviewWindow[], time: LocalTime): number | null {
+  let closest: number | null = null;
+  for (let offset = 0; offset <= 7; offset += 1) {
+    for (const window of windows) {
+      if (!opensOn(window, time.day + offset)) continue;
+      const wait = offset * MINUTES_PER_DAY + toMinutes(window.from) - time.minutes;
+      if (wait > 0 && (closest === null || wait < closest)) closest = wait;
+    }
+  }
+  return closest;
+}
+
+export function isWithinReviewSchedule(schedule: ReviewSchedule, at: Date): boolean {
+  const time = localTime(at, schedule.timezone);
+  return schedule.windows.some((window) => isOpenAt(window, time));
+}
+
+/**
+ * When jobs held at `at` may start: `at` itself when a window is open, else the
+ * next opening, to the minute. null when the schedule never opens.
+ */
+export function nextReviewWindowOpening(schedule: ReviewSchedule, at: Date): Date | null {
+  if (isWithinReviewSchedule(schedule, at)) return at;
+  let candidate = new Date(Math.ceil(at.getTime() / MILLISECONDS_PER_MINUTE) * MILLISECONDS_PER_MINUTE);
+  for (let pass = 0; pass < MAX_OPENING_PASSES; pass += 1) {
+    const time = localTime(candidate, schedule.timezone);
+    if (schedule.windows.some((window) => isOpenAt(window, time))) return candidate;
+    const wait = minutesUntilNextOpening(schedule.windows, time);
+    if (wait === null) return null;
+    candidate = new Date(candidate.getTime() + wait * MILLISECONDS_PER_MINUTE);
+
+    // Moving `wait` real minutes across a DST change lands an hour off the wall-clock target.
+    const expected = (time.minutes + wait) % MINUTES_PER_DAY;
+    const drift = ((localTime(candidate, schedule.timezone).minutes - expected + MINUTES_PER_DAY * 1.5) % MINUTES_PER_DAY) - MINUTES_PER_DAY / 2;
+    candidate = new Date(candidate.getTime() - drift * MILLISECONDS_PER_MINUTE);
+  }
+  return candidate;
+}
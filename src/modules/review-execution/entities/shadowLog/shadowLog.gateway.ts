@@ -0,0 +1,10 @@
+import type { ShadowLogEntry } from '@/modules/review-execution/entities/shadowLog/shadowLog.schema.js';
+
+/**
+ * Append-only log of what shadow reviews would have posted, kept per review
+ * report so the dashboard shows it next to the report.
+ */
+export interface ShadowLogGateway {
+  append(localPath: string, reportFile: string, entry: ShadowLogEntry): void;
+  read(localPath: string, reportFile: string): ShadowLogEntry[];
+}
@@ -0,0 +1,7 @@
+import { createGuard } from '@/shared/foundation/guard.base.js';
+import {
+  shadowLogEntrySchema,
+  type ShadowLogEntry,
+} from '@/modules/review-execution/entities/shadowLog/shadowLog.schema.js';
+
+export const shadowLogEntryGuard = createGuard<ShadowLogEntry>(shadowLogEntrySchema, 'shadowLogEntry');
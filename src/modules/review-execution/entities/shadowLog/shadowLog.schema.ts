@@ -0,0 +1,13 @@
+import { z } from 'zod';
+import { reviewActionSchema } from '@/modules/review-execution/entities/reviewAction/reviewAction.schema.js';
+
+export const shadowLogEntrySchema = z.object({
+  recordedAt: z.string().min(1),
+  platform: z.enum(['gitlab', 'github', 'bitbucket', 'gitea']),
+  projectPath: z.string().min(1),
+  mrNumber: z.number().int().positive(),
+  actions: z.array(reviewActionSchema),
+});
+
+/** Actions a shadow review would have posted, as one batch of a dispatch. */
+export type ShadowLogEntry = z.infer<typeof shadowLogEntrySchema>;
@@ -0,0 +1,12 @@
+import { basename } from 'node:path';
+
+/**
+ * Report file a shadow log belongs to. A session that left no report path
+ * still gets a log, named like the report of that day would be.
+ */
+export function shadowReportFile(reportPath: string | undefined, mrNumber: number, now: Date): string {
+  if (reportPath) {
+    return basename(reportPath);
+  }
+  return `${now.toISOString().slice(0, 10)}-MR-${mrNumber}-shadow.md`;
+}
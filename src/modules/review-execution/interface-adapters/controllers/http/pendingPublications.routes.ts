@@ -0,0 +1,91 @@
+import type { FastifyPluginAsync } from 'fastify';
+import { publicationDecisionSchema } from '@/modules/review-execution/entities/pendingPublication/pendingPublication.schema.js';
+import type { GetPendingPublicationUseCase } from '@/modules/review-execution/usecases/getPendingPublication.usecase.js';
+import type { PublishPendingPublicationUseCase } from '@/modules/review-execution/usecases/publishPendingPublication.usecase.js';
+import type { UpdatePendingPublicationUseCase } from '@/modules/review-execution/usecases/updatePendingPublication.usecase.js';
+
+export interface PendingPublicationsRoutesOptions {
+  getPendingPublication: GetPendingPublicationUseCase;
+  updatePendingPublication: UpdatePendingPublicationUseCase;
+  publishPendingPublication: PublishPendingPublicationUseCase;
+}
+
+// Merge request ids embed the project path and its slashes, hence the query
+// string and bodies rather than path parameters.
+interface MrIdQuery {
+  mrId?: string;
+}
+
+interface UpdateItemBody {
+  mrId?: string;
+  itemId?: string;
+  decision?: string;
+  text?: string;
+}
+
+export const pendingPublicationsRoutes: FastifyPluginAsync<PendingPublicationsRoutesOptions> = async (
+  fastify,
+  opts,
+) => {
+  const { getPendingPublication, updatePendingPublication, publishPendingPublication } = opts;
+
+  fastify.get<{ Querystring: MrIdQuery }>('/api/pending-publications', async (request, reply) => {
+    const { mrId } = request.query;
+    if (!mrId) {
+      reply.code(400);
+      return { error: 'Missing mrId' };
+    }
+    return { publication: await getPendingPublication.execute({ mergeRequestId: mrId }) };
+  });
+
+  fastify.post<{ Body: UpdateItemBody }>('/api/pending-publications/items', async (request, reply) => {
+    const { mrId, itemId, decision, text } = request.body ?? {};
+    if (!mrId || !itemId) {
+      reply.code(400);
+      return { error: 'Missing mrId or itemId' };
+    }
+    const parsedDecision = decision === undefined ? undefined : publicationDecisionSchema.safeParse(decision);
+    if (parsedDecision && !parsedDecision.success) {
+      reply.code(400);
+      return { error: 'Invalid decision' };
+    }
+    if (text !== undefined && (typeof text !== 'string' || text.trim() === '')) {
+      reply.code(400);
+      return { error: 'Invalid text' };
+    }
+
+    const result = await updatePendingPublication.execute({
+      mergeRequestId: mrId,
+      itemId,
+      decision: parsedDecision?.data,
+      text,
+    });
+    if (result.status !== 'updated') {
+      reply.code(404);
+      return { status: result.status };
+    }
+    return { status: 'updated', publication: result.publication };
+  });
+
+  fastify.post<{ Body: MrIdQuery }>('/api/pending-publications/publish', async (request, reply) => {
+    const { mrId } = request.body ?? {};
+    if (!mrId) {
+      reply.code(400);
+      return { error: 'Missing mrId' };
+    }
+    const result = await publishPendingPublication.execute({ mergeRequestId: mrId });
+    if (result.status === 'not-found') {
+      reply.code(404);
+      return { status: 'not-found' };
+    }
+    if (result.status === 'undecided') {
+      reply.code(409);
+      return { status: 'undecided', pendingCount: result.pendingCount };
+    }
+    if (result.status === 'publishing') {
+      reply.code(409);
+      return { status: 'publishing' };
+    }
+    return { status: 'published', result: result.result };
+  });
+};
@@ -7,13 +7,27 @@ import type { ReviewFileGateway } from '../../gateways/reviewFile.gateway.js';
 import type { ReviewRequestTrackingGateway } from '@/modules/tracking/interface-adapters/gateways/reviewRequestTracking.gateway.js';
 import { cancelReview } from '@/modules/review-execution/usecases/cancelReview.usecase.js';
 import type { CancelReviewQueuePort } from '@/modules/review-execution/usecases/cancelReview.usecase.js';
+import {
+  setJobPriority,
+  type SetJobPriorityQueuePort,
+} from '@/modules/review-execution/usecases/setJobPriority.usecase.js';
+import {
+  startDeferredReview,
+  type StartDeferredReviewQueuePort,
+} from '@/modules/review-execution/usecases/startDeferredReview.usecase.js';
+import {
+  PRIORITY_LANE_VALUES,
+  priorityLaneSchema,
+} from '@/modules/review-execution/entities/jobPriority/jobPriority.schema.js';
 import { sanitizeJobId } from '@/shared/services/mcpJobContext.js';
+import type { ShadowLogGateway } from '@/modules/review-execution/entities/shadowLog/shadowLog.gateway.js';
 
 interface ReviewRoutesOptions {
   reviewFileGateway: ReviewFileGateway;
   reviewRequestTrackingGateway: ReviewRequestTrackingGateway;
+  shadowLogGateway: ShadowLogGateway;
   getRepositories: () => Array<{ localPath: string; enabled: boolean }>;
-  queuePort: CancelReviewQueuePort;
+  queuePort: CancelReviewQueuePort & SetJobPriorityQueuePort & StartDeferredReviewQueuePort;
   logger: Logger;
 }
 
@@ -23,7 +37,7 @@ export const reviewRoutes: FastifyPluginAsync<ReviewRoutesOptions> = async (
   fastify,
   opts
 ) => {
-  const { reviewFileGateway, reviewRequestTrackingGateway, getRepositories, queuePort, logger } = opts;
+  const { reviewFileGateway, reviewRequestTrackingGateway, shadowLogGateway, getRepositories, queuePort, logger } = opts;
 
   fastify.get('/api/reviews', async (request) => {
     const query = request.query as { path?: string };
@@ -69,6 +83,25 @@ export const reviewRoutes: FastifyPluginAsync<ReviewRoutesOptions> = async (
     return { error: 'Review not found' };
   });
 
+  fastify.get('/api/reviews/:filename/shadow', async (request, reply) => {
+    const { filename } = request.params as { filename: string };
+
+    if (!FILENAME_REGEX.test(filename)) {
+      reply.code(400);
+      return { error: 'Invalid filename format' };
+    }
+
+    for (const repo of getRepositories()) {
+      if (!repo.enabled) continue;
+      const entries = shadowLogGateway.read(repo.localPath, filename);
+      if (entries.length > 0) {
+        return { filename, entries };
+      }
+    }
+
+    return { filename, entries: [] };
+  });
+
   fastify.delete('/api/reviews/:filename', async (request, reply) => {
     const { filename } = request.params as { filename: string };
 
@@ -127,4 +160,53 @@ export const reviewRoutes: FastifyPluginAsync<ReviewRoutesOptions> = async (
     reply.code(404);
     return { success: false, error: 'Job non trouvé' };
   });
+
+  fastify.post('/api/reviews/:jobId/priority', async (request, reply) => {
+    const { jobId } = request.params as { jobId: string };
+    const body = (request.body ?? {}) as { priority?: unknown; lane?: unknown };
+
+    const lane = priorityLaneSchema.safeParse(body.lane);
+    const priority = lane.success
+      ? PRIORITY_LANE_VALUES[lane.data]
+      : typeof body.priority === 'number' && Number.isInteger(body.priority)
+        ? body.priority
+        : null;
+
+    if (priority === null) {
+      reply.code(400);
+      return { success: false, error: 'Expected an integer priority or a lane (urgent, high, normal, low)' };
+    }
+
+    const result = setJobPriority(jobId, priority, { queuePort, logger });
+
+    if (result.status === 'updated') {
+      return { success: true, jobId, priority };
+    }
+
+    if (result.status === 'not-queued') {
+      reply.code(409);
+      return { success: false, status: 'not-queued', error: 'Only queued reviews can be reordered' };
+    }
+
+    reply.code(404);
+    return { success: false, error: 'Job non trouvé' };
+  });
+
+  fastify.post('/api/reviews/:jobId/start-now', async (request, reply) => {
+    const { jobId } = request.params as { jobId: string };
+
+    const result = startDeferredReview(jobId, { queuePort, logger });
+
+    if (result.status === 'started') {
+      return { success: true, jobId };
+    }
+
+    if (result.status === 'not-deferred') {
+      reply.code(409);
+      return { success: false, status: 'not-deferred', error: 'This review is not waiting for a review window' };
+    }
+
+    reply.code(404);
+    return { success: false, error: 'Job non trouvé' };
+  });
 };
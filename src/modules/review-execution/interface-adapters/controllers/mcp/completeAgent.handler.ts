@@ -48,10 +48,18 @@ export function createCompleteAgentHandler(
 			};
 		}
 
+		const tokens = args.tokens;
+		if (tokens !== undefined && (typeof tokens !== "number" || !Number.isInteger(tokens) || tokens < 0)) {
+			return {
+				content: [{ type: "text", text: "Error: tokens must be a non-negative integer" }],
+				isError: true,
+			};
+		}
+
 		const errorMessage =
 			typeof error === "string" && error ? error : undefined;
 
-		const result = completeAgent(jobId, agentName, status, errorMessage, deps);
+		const result = completeAgent(jobId, agentName, status, errorMessage, deps, tokens);
 
 		if (!result.success) {
 			return {
@@ -71,6 +79,8 @@ export function createCompleteAgentHandler(
 							status: result.status,
 							completedAt: result.completedAt.toISOString(),
 							overallProgress: result.overallProgress,
+							...(result.durationMs !== undefined && { durationMs: result.durationMs }),
+							...(result.tokens !== undefined && { tokens: result.tokens }),
 							...(result.error && { error: result.error }),
 						},
 						null,
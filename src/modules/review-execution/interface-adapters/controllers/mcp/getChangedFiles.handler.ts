@@ -0,0 +1,50 @@
+import type { McpToolResult } from "@/mcp/types.js";
+import {
+	getChangedFiles,
+	type GetChangedFilesDependencies,
+} from "../../../usecases/mcp/getChangedFiles.usecase.js";
+
+export function createGetChangedFilesHandler(
+	deps: GetChangedFilesDependencies,
+): (args: Record<string, unknown>) => Promise<McpToolResult> {
+	return async (args: Record<string, unknown>): Promise<McpToolResult> => {
+		const jobId = args.jobId;
+
+		if (typeof jobId !== "string" || !jobId) {
+			return {
+				content: [{ type: "text", text: "Error: jobId is required" }],
+				isError: true,
+			};
+		}
+
+		const result = await getChangedFiles(jobId, deps);
+
+		if (!result.success) {
+			return {
+				content: [{ type: "text", text: `Error: ${result.error}` }],
+				isError: true,
+			};
+		}
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: JSON.stringify(
+						{
+							success: true,
+							baseSha: result.range.baseSha,
+							headSha: result.range.headSha,
+							files: result.files,
+							count: result.files.length,
+							additions: result.additions,
+							deletions: result.deletions,
+						},
+						null,
+						2,
+					),
+				},
+			],
+		};
+	};
+}
@@ -0,0 +1,72 @@
+import type { McpToolResult } from "@/mcp/types.js";
+import {
+	DEFAULT_DIFF_PAGE_SIZE,
+	getDiff,
+	type GetDiffDependencies,
+} from "../../../usecases/mcp/getDiff.usecase.js";
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+export function createGetDiffHandler(
+	deps: GetDiffDependencies,
+): (args: Record<string, unknown>) => Promise<McpToolResult> {
+	return async (args: Record<string, unknown>): Promise<McpToolResult> => {
+		const jobId = args.jobId;
+		const paths = args.paths ?? [];
+
+		if (typeof jobId !== "string" || !jobId) {
+			return {
+				content: [{ type: "text", text: "Error: jobId is required" }],
+				isError: true,
+			};
+		}
+
+		if (!isStringArray(paths)) {
+			return {
+				content: [{ type: "text", text: "Error: paths must be an array of strings" }],
+				isError: true,
+			};
+		}
+
+		const result = await getDiff(
+			jobId,
+			{
+				paths,
+				page: typeof args.page === "number" ? args.page : 1,
+				pageSize: typeof args.pageSize === "number" ? args.pageSize : DEFAULT_DIFF_PAGE_SIZE,
+			},
+			deps,
+		);
+
+		if (!result.success) {
+			return {
+				content: [{ type: "text", text: `Error: ${result.error}` }],
+				isError: true,
+			};
+		}
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: JSON.stringify(
+						{
+							success: true,
+							baseSha: result.range.baseSha,
+							headSha: result.range.headSha,
+							files: result.items,
+							page: result.page,
+							pageSize: result.pageSize,
+							totalFiles: result.totalItems,
+							totalPages: result.totalPages,
+						},
+						null,
+						2,
+					),
+				},
+			],
+		};
+	};
+}
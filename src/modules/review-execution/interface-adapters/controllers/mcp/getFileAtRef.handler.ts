@@ -0,0 +1,70 @@
+import type { McpToolResult } from "@/mcp/types.js";
+import {
+	type FileRef,
+	getFileAtRef,
+	type GetFileAtRefDependencies,
+} from "../../../usecases/mcp/getFileAtRef.usecase.js";
+
+const VALID_REFS: FileRef[] = ["base", "head"];
+
+function isValidRef(ref: unknown): ref is FileRef {
+	return typeof ref === "string" && VALID_REFS.includes(ref as FileRef);
+}
+
+export function createGetFileAtRefHandler(
+	deps: GetFileAtRefDependencies,
+): (args: Record<string, unknown>) => Promise<McpToolResult> {
+	return async (args: Record<string, unknown>): Promise<McpToolResult> => {
+		const jobId = args.jobId;
+		const path = args.path;
+		const ref = args.ref ?? "head";
+
+		if (typeof jobId !== "string" || !jobId) {
+			return {
+				content: [{ type: "text", text: "Error: jobId is required" }],
+				isError: true,
+			};
+		}
+
+		if (typeof path !== "string" || !path) {
+			return {
+				content: [{ type: "text", text: "Error: path is required" }],
+				isError: true,
+			};
+		}
+
+		if (!isValidRef(ref)) {
+			return {
+				content: [
+					{
+						type: "text",
+						text: `Error: Invalid ref '${ref}'. Valid refs: ${VALID_REFS.join(", ")}`,
+					},
+				],
+				isError: true,
+			};
+		}
+
+		const result = await getFileAtRef(
+			jobId,
+			{
+				path,
+				ref,
+				startLine: typeof args.startLine === "number" ? args.startLine : null,
+				endLine: typeof args.endLine === "number" ? args.endLine : null,
+			},
+			deps,
+		);
+
+		if (!result.success) {
+			return {
+				content: [{ type: "text", text: `Error: ${result.error}` }],
+				isError: true,
+			};
+		}
+
+		return {
+			content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+		};
+	};
+}
@@ -0,0 +1,33 @@
+import type { McpToolResult } from "@/mcp/types.js";
+import {
+	getMrMetadata,
+	type GetMrMetadataDependencies,
+} from "../../../usecases/mcp/getMrMetadata.usecase.js";
+
+export function createGetMrMetadataHandler(
+	deps: GetMrMetadataDependencies,
+): (args: Record<string, unknown>) => McpToolResult {
+	return (args: Record<string, unknown>): McpToolResult => {
+		const jobId = args.jobId;
+
+		if (typeof jobId !== "string" || !jobId) {
+			return {
+				content: [{ type: "text", text: "Error: jobId is required" }],
+				isError: true,
+			};
+		}
+
+		const result = getMrMetadata(jobId, deps);
+
+		if (!result.success) {
+			return {
+				content: [{ type: "text", text: `Error: ${result.error}` }],
+				isError: true,
+			};
+		}
+
+		return {
+			content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+		};
+	};
+}
@@ -0,0 +1,89 @@
+import type { McpToolResult } from "@/mcp/types.js";
+import type { FindingSeverity } from "@/modules/review-execution/entities/reviewFinding/reviewFinding.schema.js";
+import {
+	reportFinding,
+	type ReportFindingDependencies,
+} from "../../../usecases/mcp/reportFinding.usecase.js";
+
+const VALID_SEVERITIES: FindingSeverity[] = ["blocking", "warning", "suggestion"];
+
+function isValidSeverity(severity: unknown): severity is FindingSeverity {
+	return typeof severity === "string" && VALID_SEVERITIES.includes(severity as FindingSeverity);
+}
+
+function optionalString(value: unknown): string | null {
+	return typeof value === "string" && value ? value : null;
+}
+
+function optionalNumber(value: unknown): number | null {
+	return typeof value === "number" ? value : null;
+}
+
+export function createReportFindingHandler(
+	deps: ReportFindingDependencies,
+): (args: Record<string, unknown>) => McpToolResult {
+	return (args: Record<string, unknown>): McpToolResult => {
+		const jobId = args.jobId;
+		const severity = args.severity;
+
+		if (typeof jobId !== "string" || !jobId) {
+			return {
+				content: [{ type: "text", text: "Error: jobId is required" }],
+				isError: true,
+			};
+		}
+
+		if (!isValidSeverity(severity)) {
+			return {
+				content: [
+					{
+						type: "text",
+						text: `Error: Invalid severity '${severity}'. Valid severities: ${VALID_SEVERITIES.join(", ")}`,
+					},
+				],
+				isError: true,
+			};
+		}
+
+		const startLine = optionalNumber(args.startLine);
+		const result = reportFinding(
+			jobId,
+			{
+				severity,
+				agent: typeof args.agent === "string" ? args.agent : "",
+				title: typeof args.title === "string" ? args.title : "",
+				body: typeof args.body === "string" ? args.body : "",
+				filePath: optionalString(args.filePath),
+				startLine,
+				endLine: optionalNumber(args.endLine) ?? startLine,
+				suggestedPatch: optionalString(args.suggestedPatch),
+				confidence: typeof args.confidence === "number" ? args.confidence : 1,
+			},
+			deps,
+		);
+
+		if (!result.success) {
+			return {
+				content: [{ type: "text", text: `Error: ${result.error}` }],
+				isError: true,
+			};
+		}
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: JSON.stringify(
+						{
+							success: true,
+							findingId: result.findingId,
+							inlineComment: result.inlineComment,
+						},
+						null,
+						2,
+					),
+				},
+			],
+		};
+	};
+}
@@ -44,6 +44,7 @@ export function createStartAgentHandler(
 							agentName: result.agentName,
 							startedAt: result.startedAt.toISOString(),
 							overallProgress: result.overallProgress,
+							...(result.dispatch && { dispatch: result.dispatch }),
 						},
 						null,
 						2,
@@ -0,0 +1,75 @@
+import type { McpToolResult } from "@/mcp/types.js";
+import type { SubmittedReviewResult } from "@/modules/review-execution/entities/reviewFinding/reviewFinding.schema.js";
+import {
+	submitResult,
+	type SubmitResultDependencies,
+} from "../../../usecases/mcp/submitResult.usecase.js";
+
+const VALID_VERDICTS: SubmittedReviewResult["verdict"][] = ["ready_to_merge", "needs_fixes", "needs_discussion"];
+
+function isValidVerdict(verdict: unknown): verdict is SubmittedReviewResult["verdict"] {
+	return typeof verdict === "string" && VALID_VERDICTS.includes(verdict as SubmittedReviewResult["verdict"]);
+}
+
+export function createSubmitResultHandler(
+	deps: SubmitResultDependencies,
+): (args: Record<string, unknown>) => McpToolResult {
+	return (args: Record<string, unknown>): McpToolResult => {
+		const jobId = args.jobId;
+		const score = args.score;
+		const verdict = args.verdict;
+
+		if (typeof jobId !== "string" || !jobId) {
+			return {
+				content: [{ type: "text", text: "Error: jobId is required" }],
+				isError: true,
+			};
+		}
+
+		if (typeof score !== "number") {
+			return {
+				content: [{ type: "text", text: "Error: score is required" }],
+				isError: true,
+			};
+		}
+
+		if (!isValidVerdict(verdict)) {
+			return {
+				content: [
+					{
+						type: "text",
+						text: `Error: Invalid verdict '${verdict}'. Valid verdicts: ${VALID_VERDICTS.join(", ")}`,
+					},
+				],
+				isError: true,
+			};
+		}
+
+		const result = submitResult(jobId, score, verdict, deps);
+
+		if (!result.success) {
+			return {
+				content: [{ type: "text", text: `Error: ${result.error}` }],
+				isError: true,
+			};
+		}
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: JSON.stringify(
+						{
+							success: true,
+							score: result.score,
+							verdict: result.verdict,
+							findings: result.findings,
+						},
+						null,
+						2,
+					),
+				},
+			],
+		};
+	};
+}
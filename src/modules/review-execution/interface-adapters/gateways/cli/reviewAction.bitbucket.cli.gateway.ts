@@ -0,0 +1,116 @@
+import type { ReviewAction } from '@/modules/review-execution/entities/reviewAction/reviewAction.js'
+import type { ReviewActionGateway, ExecutionContext, CommandExecutor } from '@/modules/review-execution/entities/reviewAction/reviewAction.gateway.js'
+import { ExecutionGatewayBase, type CommandInfo } from '@/shared/foundation/executionGateway.base.js'
+import {
+  bitbucketDataCenterUrl,
+  bitbucketPullRequestPath,
+  buildBitbucketApiCommand,
+  buildBitbucketCurlArgs,
+  defaultBitbucketExecutor,
+  type CommandExecutor as BitbucketApiExecutor,
+} from '@/modules/platform-integration/interface-adapters/gateways/bitbucketApi.js'
+
+export class BitbucketReviewActionCliGateway
+  extends ExecutionGatewayBase<ReviewAction, ExecutionContext>
+  implements ReviewActionGateway
+{
+  /** `readApi` reads what a Data Center write needs first, e.g. the version of a comment. */
+  constructor(
+    executor: CommandExecutor,
+    private readonly readApi: BitbucketApiExecutor = defaultBitbucketExecutor,
+  ) {
+    super(executor)
+  }
+
+  protected buildCommand(action: ReviewAction, context: ExecutionContext): CommandInfo | null {
+    const pullRequestPath = bitbucketPullRequestPath(context.projectPath, context.mrNumber)
+    if (bitbucketDataCenterUrl() !== null) {
+      return this.buildDataCenterCommand(action, pullRequestPath)
+    }
+
+    switch (action.type) {
+      case 'THREAD_RESOLVE':
+        return {
+          command: 'curl',
+          args: buildBitbucketCurlArgs('POST', `${pullRequestPath}/comments/${action.threadId}/resolve`),
+        }
+
+      case 'POST_COMMENT':
+        return {
+          command: 'curl',
+          args: buildBitbucketCurlArgs('POST', `${pullRequestPath}/comments`, {
+            content: { raw: action.body },
+          }),
+        }
+
+      case 'THREAD_REPLY':
+        return {
+          command: 'curl',
+          args: buildBitbucketCurlArgs('POST', `${pullRequestPath}/comments`, {
+            content: { raw: action.message },
+            parent: { id: Number(action.threadId) },
+          }),
+        }
+
+      case 'POST_INLINE_COMMENT':
+        return {
+          command: 'curl',
+          args: buildBitbucketCurlArgs('POST', `${pullRequestPath}/comments`, {
+            content: { raw: action.body },
+            inline: { path: action.filePath, to: action.line },
+          }),
+        }
+
+      // Bitbucket Cloud pull requests have no labels
+      case 'ADD_LABEL':
+      case 'FETCH_THREADS':
+        return null
+    }
+  }
+
+  /**
+   * Data Center comments take `text`, and a thread is resolved by updating its
+   * root comment, which needs the current version of that comment.
+   */
+  private buildDataCenterCommand(action: ReviewAction, pullRequestPath: string): CommandInfo | null {
+    switch (action.type) {
+      case 'THREAD_RESOLVE': {
+        const commentPath = `${pullRequestPath}/comments/${action.threadId}`
+        const comment: { version: number } = JSON.parse(this.readApi(buildBitbucketApiCommand('GET', commentPath)))
+        return {
+          command: 'curl',
+          args: buildBitbucketCurlArgs('PUT', commentPath, { version: comment.version, threadResolved: true }),
+        }
+      }
+
+      case 'POST_COMMENT':
+        return {
+          command: 'curl',
+          args: buildBitbucketCurlArgs('POST', `${pullRequestPath}/comments`, { text: action.body }),
+        }
+
+      case 'THREAD_REPLY':
+        return {
+          command: 'curl',
+          args: buildBitbucketCurlArgs('POST', `${pullRequestPath}/comments`, {
+            text: action.message,
+            parent: { id: Number(action.threadId) },
+          }),
+        }
+
+      case 'POST_INLINE_COMMENT':
+        return {
+          command: 'curl',
+          args: buildBitbucketCurlArgs('POST', `${pullRequestPath}/comments`, {
+            text: action.body,
+            anchor: { path: action.filePath, line: action.line, lineType: 'ADDED', fileType: 'TO', diffType: 'EFFECTIVE' },
+          }),
+        }
+
+      // Bitbucket Data Center pull requests have no labels either
+      case 'ADD_LABEL':
+      case 'FETCH_THREADS':
+        return null
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import type { ReviewAction } from '@/modules/review-execution/entities/reviewAction/reviewAction.js'
+import type { ReviewActionGateway, ExecutionContext } from '@/modules/review-execution/entities/reviewAction/reviewAction.gateway.js'
+import { ExecutionGatewayBase, type CommandInfo } from '@/shared/foundation/executionGateway.base.js'
+import { buildGiteaCurlArgs } from '@/modules/platform-integration/interface-adapters/gateways/giteaApi.js'
+
+/**
+ * Gitea/Forgejo only expose conversation resolution and threaded replies in
+ * the web UI, not in /api/v1. Replies and resolution messages are therefore
+ * posted as PR comments; the thread itself stays open until a human resolves
+ * it, and GiteaThreadFetchGateway reads that state back on the next followup.
+ */
+export class GiteaReviewActionCliGateway
+  extends ExecutionGatewayBase<ReviewAction, ExecutionContext>
+  implements ReviewActionGateway
+{
+  protected buildCommand(action: ReviewAction, context: ExecutionContext): CommandInfo | null {
+    const issuePath = `repos/${context.projectPath}/issues/${context.mrNumber}`
+
+    switch (action.type) {
+      case 'THREAD_RESOLVE':
+        if (!action.message) return null
+        return {
+          command: 'curl',
+          args: buildGiteaCurlArgs('POST', `${issuePath}/comments`, { body: action.message }),
+        }
+
+      case 'POST_COMMENT':
+        return {
+          command: 'curl',
+          args: buildGiteaCurlArgs('POST', `${issuePath}/comments`, { body: action.body }),
+        }
+
+      case 'THREAD_REPLY':
+        return {
+          command: 'curl',
+          args: buildGiteaCurlArgs('POST', `${issuePath}/comments`, { body: action.message }),
+        }
+
+      case 'ADD_LABEL':
+        return {
+          command: 'curl',
+          args: buildGiteaCurlArgs('POST', `${issuePath}/labels`, { labels: [action.label] }),
+        }
+
+      case 'POST_INLINE_COMMENT':
+        return {
+          command: 'curl',
+          args: buildGiteaCurlArgs('POST', `repos/${context.projectPath}/pulls/${context.mrNumber}/reviews`, {
+            event: 'COMMENT',
+            body: '',
+            ...(context.diffMetadata ? { commit_id: context.diffMetadata.headSha } : {}),
+            comments: [{ path: action.filePath, body: action.body, new_position: action.line }],
+          }),
+        }
+
+      case 'FETCH_THREADS':
+        return null
+    }
+  }
+}
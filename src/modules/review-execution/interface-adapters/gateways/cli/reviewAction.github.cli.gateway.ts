@@ -1,6 +1,7 @@
 import type { ReviewAction } from '@/modules/review-execution/entities/reviewAction/reviewAction.js'
 import type { ReviewActionGateway, ExecutionContext } from '@/modules/review-execution/entities/reviewAction/reviewAction.gateway.js'
 import { ExecutionGatewayBase, type CommandInfo } from '@/shared/foundation/executionGateway.base.js'
+import { buildInlineCommentFallbackBody } from '@/modules/review-execution/services/inlineCommentFallback.js'
 
 export class GitHubReviewActionCliGateway
   extends ExecutionGatewayBase<ReviewAction, ExecutionContext>
@@ -69,6 +70,7 @@ export class GitHubReviewActionCliGateway
             '--field', `commit_id=${context.diffMetadata.headSha}`,
             '--field', `path=${action.filePath}`,
             '--field', `line=${action.line}`,
+            '--field', 'side=RIGHT',
           ],
         }
       }
@@ -77,4 +79,17 @@ export class GitHubReviewActionCliGateway
         return null
     }
   }
+
+  /** GitHub answers 422 for a line outside the diff: post a conversation comment instead. */
+  protected buildFallbackCommand(action: ReviewAction, context: ExecutionContext): CommandInfo | null {
+    if (action.type !== 'POST_INLINE_COMMENT') return null
+    return {
+      command: 'gh',
+      args: [
+        'api', '--method', 'POST',
+        `repos/${context.projectPath}/issues/${context.mrNumber}/comments`,
+        '--field', `body=${buildInlineCommentFallbackBody(action, context, 'github')}`,
+      ],
+    }
+  }
 }
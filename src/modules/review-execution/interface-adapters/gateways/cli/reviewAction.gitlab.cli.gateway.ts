@@ -2,14 +2,14 @@ import type { ReviewAction } from '@/modules/review-execution/entities/reviewAct
 import type { ReviewActionGateway, ExecutionContext } from '@/modules/review-execution/entities/reviewAction/reviewAction.gateway.js'
 import { ExecutionGatewayBase, type CommandInfo } from '@/shared/foundation/executionGateway.base.js'
 import { enrichCommentWithLinks } from '@/modules/review-execution/services/commentLinkEnricher.js'
+import { buildInlineCommentFallbackBody } from '@/modules/review-execution/services/inlineCommentFallback.js'
 
 export class GitLabReviewActionCliGateway
   extends ExecutionGatewayBase<ReviewAction, ExecutionContext>
   implements ReviewActionGateway
 {
   protected buildCommand(action: ReviewAction, context: ExecutionContext): CommandInfo | null {
-    const encodedProject = context.projectPath.replace(/\//g, '%2F')
-    const baseUrl = `projects/${encodedProject}/merge_requests/${context.mrNumber}`
+    const baseUrl = mergeRequestApiPath(context)
 
     switch (action.type) {
       case 'THREAD_RESOLVE':
@@ -70,4 +70,22 @@ export class GitLabReviewActionCliGateway
         return null
     }
   }
+
+  /** GitLab rejects a position outside the diff: post a general note instead. */
+  protected buildFallbackCommand(action: ReviewAction, context: ExecutionContext): CommandInfo | null {
+    if (action.type !== 'POST_INLINE_COMMENT') return null
+    return {
+      command: 'glab',
+      args: [
+        'api', '--method', 'POST',
+        `${mergeRequestApiPath(context)}/notes`,
+        '--field', `body=${buildInlineCommentFallbackBody(action, context, 'gitlab')}`,
+      ],
+    }
+  }
+}
+
+function mergeRequestApiPath(context: ExecutionContext): string {
+  const encodedProject = context.projectPath.replace(/\//g, '%2F')
+  return `projects/${encodedProject}/merge_requests/${context.mrNumber}`
 }
@@ -0,0 +1,90 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import type { Logger } from 'pino';
+import type { QueueJournalGateway } from '@/modules/review-execution/entities/queueJournal/queueJournal.gateway.js';
+import { queueJournalEntryGuard } from '@/modules/review-execution/entities/queueJournal/queueJournal.guard.js';
+import type { QueueJournalEntry } from '@/modules/review-execution/entities/queueJournal/queueJournal.schema.js';
+
+export interface QueueJournalFileSystemGatewayOptions {
+  filePath?: string;
+  logger: Logger;
+}
+
+function defaultFilePath(): string {
+  return join(homedir(), '.reviewflow', 'queue-journal.jsonl');
+}
+
+/**
+ * JSON-lines queue journal. Writes are best-effort: a failed append is logged
+ * and the queue keeps running, it only loses the ability to resume that job.
+ */
+export class QueueJournalFileSystemGateway implements QueueJournalGateway {
+  private readonly filePath: string;
+  private readonly logger: Logger;
+
+  constructor(options: QueueJournalFileSystemGatewayOptions) {
+    this.filePath = options.filePath ?? defaultFilePath();
+    this.logger = options.logger;
+  }
+
+  append(entry: QueueJournalEntry): void {
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      appendFileSync(this.filePath, `${JSON.stringify(entry)}\n`, 'utf-8');
+    } catch (error) {
+      this.logger.warn(
+        { error: error instanceof Error ? error.message : String(error), type: entry.type },
+        'Failed to append to the queue journal',
+      );
+    }
+  }
+
+  readAll(): QueueJournalEntry[] {
+    if (!existsSync(this.filePath)) {
+      return [];
+    }
+    let raw: string;
+    try {
+      raw = readFileSync(this.filePath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const entries: QueueJournalEntry[] = [];
+    const lines = raw.split('\n');
+    for (let index = 0; index < lines.length; index += 1) {
+      const line = lines[index];
+      if (line.trim().length === 0) continue;
+      const entry = this.parseLine(line, index + 1);
+      if (entry) entries.push(entry);
+    }
+    return entries;
+  }
+
+  replaceAll(entries: QueueJournalEntry[]): void {
+    const tmpPath = `${this.filePath}.tmp`;
+    const content = entries.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      writeFileSync(tmpPath, content, 'utf-8');
+      renameSync(tmpPath, this.filePath);
+    } catch (error) {
+      this.logger.warn(
+        { error: error instanceof Error ? error.message : String(error) },
+        'Failed to rewrite the queue journal',
+      );
+    }
+  }
+
+  private parseLine(line: string, lineNumber: number): QueueJournalEntry | null {
+    try {
+      const result = queueJournalEntryGuard.safeParse(JSON.parse(line));
+      if (result.success) return result.data;
+    } catch {
+      // A torn final line from a crash mid-append is skipped like any unreadable line.
+    }
+    this.logger.warn({ lineNumber }, 'Unreadable queue journal line skipped');
+    return null;
+  }
+}
@@ -0,0 +1,52 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import type { Logger } from 'pino';
+import type { ShadowLogGateway } from '@/modules/review-execution/entities/shadowLog/shadowLog.gateway.js';
+import { shadowLogEntryGuard } from '@/modules/review-execution/entities/shadowLog/shadowLog.guard.js';
+import type { ShadowLogEntry } from '@/modules/review-execution/entities/shadowLog/shadowLog.schema.js';
+
+/**
+ * JSON-lines shadow logs in `.claude/reviews/shadow/`, one file per review
+ * report. Unreadable lines are skipped so a torn append hides one batch only.
+ */
+export class ShadowLogFileSystemGateway implements ShadowLogGateway {
+  constructor(private readonly logger: Logger) {}
+
+  append(localPath: string, reportFile: string, entry: ShadowLogEntry): void {
+    const filePath = this.getFilePath(localPath, reportFile);
+    mkdirSync(dirname(filePath), { recursive: true });
+    appendFileSync(filePath, `${JSON.stringify(entry)}\n`, 'utf-8');
+  }
+
+  read(localPath: string, reportFile: string): ShadowLogEntry[] {
+    const filePath = this.getFilePath(localPath, reportFile);
+    if (!existsSync(filePath)) {
+      return [];
+    }
+
+    const entries: ShadowLogEntry[] = [];
+    for (const line of readFileSync(filePath, 'utf-8').split('\n')) {
+      if (line.trim().length === 0) continue;
+      const entry = this.parseLine(line);
+      if (entry) {
+        entries.push(entry);
+      } else {
+        this.logger.warn({ reportFile }, 'Unreadable shadow log line skipped');
+      }
+    }
+    return entries;
+  }
+
+  private getFilePath(localPath: string, reportFile: string): string {
+    return join(localPath, '.claude', 'reviews', 'shadow', `${reportFile.replace(/\.md$/, '')}.jsonl`);
+  }
+
+  private parseLine(line: string): ShadowLogEntry | null {
+    try {
+      const result = shadowLogEntryGuard.safeParse(JSON.parse(line));
+      return result.success ? result.data : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { existsSync, mkdirSync, readFileSync, readdirSync, renameSync, rmSync, writeFileSync, unlinkSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type { PendingPublicationGateway } from '@/modules/review-execution/entities/pendingPublication/pendingPublication.gateway.js';
+import { pendingPublicationGuard } from '@/modules/review-execution/entities/pendingPublication/pendingPublication.guard.js';
+import type { PendingPublication } from '@/modules/review-execution/entities/pendingPublication/pendingPublication.schema.js';
+import { sanitizeJobId } from '@/shared/services/mcpJobContext.js';
+
+export interface PendingPublicationFileSystemGatewayOptions {
+  rootDir?: string;
+}
+
+function defaultRootDir(): string {
+  return join(homedir(), '.claude-review', 'pending-publications');
+}
+
+export class PendingPublicationFileSystemGateway implements PendingPublicationGateway {
+  private readonly rootDir: string;
+
+  constructor(options: PendingPublicationFileSystemGatewayOptions = {}) {
+    this.rootDir = options.rootDir ?? defaultRootDir();
+  }
+
+  private ensureRootDir(): void {
+    if (!existsSync(this.rootDir)) {
+      mkdirSync(this.rootDir, { recursive: true });
+    }
+  }
+
+  private filePath(mergeRequestId: string): string {
+    return join(this.rootDir, `${sanitizeJobId(mergeRequestId)}.json`);
+  }
+
+  // Left out of listAll: it does not end with `.json`.
+  private claimedFilePath(mergeRequestId: string): string {
+    return `${this.filePath(mergeRequestId)}.publishing`;
+  }
+
+  private readPublication(filePath: string): PendingPublication | null {
+    try {
+      const raw = readFileSync(filePath, 'utf-8');
+      const parsed: unknown = JSON.parse(raw);
+      const result = pendingPublicationGuard.safeParse(parsed);
+      if (!result.success) {
+        return null;
+      }
+      return result.data;
+    } catch {
+      return null;
+    }
+  }
+
+  async save(publication: PendingPublication): Promise<void> {
+    this.ensureRootDir();
+    writeFileSync(this.filePath(publication.mergeRequestId), `${JSON.stringify(publication, null, 2)}\n`);
+  }
+
+  async load(mergeRequestId: string): Promise<PendingPublication | null> {
+    const filePath = this.filePath(mergeRequestId);
+    if (!existsSync(filePath)) {
+      return null;
+    }
+    return this.readPublication(filePath);
+  }
+
+  async listAll(): Promise<PendingPublication[]> {
+    if (!existsSync(this.rootDir)) {
+      return [];
+    }
+    const entries = readdirSync(this.rootDir);
+    const collected: PendingPublication[] = [];
+    for (const entry of entries) {
+      if (!entry.endsWith('.json')) continue;
+      try {
+        const raw = readFileSync(join(this.rootDir, entry), 'utf-8');
+        const parsed: unknown = JSON.parse(raw);
+        const result = pendingPublicationGuard.safeParse(parsed);
+        if (result.success) {
+          collected.push(result.data);
+        }
+      } catch {
+        // Skip unreadable / invalid files; the file system gateway is forgiving.
+      }
+    }
+    return collected;
+  }
+
+  async delete(mergeRequestId: string): Promise<boolean> {
+    const filePath = this.filePath(mergeRequestId);
+    if (!existsSync(filePath)) {
+      return false;
+    }
+    try {
+      unlinkSync(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // The rename is atomic: of two concurrent publishers, only one finds the file.
+  async claim(mergeRequestId: string): Promise<PendingPublication | null> {
+    const claimedFilePath = this.claimedFilePath(mergeRequestId);
+    try {
+      renameSync(this.filePath(mergeRequestId), claimedFilePath);
+    } catch {
+      return null;
+    }
+    return this.readPublication(claimedFilePath);
+  }
+
+  async isClaimed(mergeRequestId: string): Promise<boolean> {
+    return existsSync(this.claimedFilePath(mergeRequestId));
+  }
+
+  async releaseClaim(mergeRequestId: string): Promise<void> {
+    rmSync(this.claimedFilePath(mergeRequestId), { force: true });
+  }
+}
@@ -11,6 +11,10 @@ import type {
 import { buildAgentInstructions } from '@/modules/review-execution/services/agentInstructionsBuilder.js'
 import type { ReviewContextAction } from '@/modules/review-execution/entities/reviewAction/reviewAction.js'
 import type { ReviewContextResult } from '@/modules/review-execution/entities/reviewContext/reviewContextResult.schema.js'
+import type {
+  ReviewFinding,
+  SubmittedReviewResult,
+} from '@/modules/review-execution/entities/reviewFinding/reviewFinding.schema.js'
 
 export class ReviewContextFileSystemGateway implements ReviewContextGateway {
   getFilePath(localPath: string, mergeRequestId: string): string {
@@ -40,6 +44,8 @@ export class ReviewContextFileSystemGateway implements ReviewContextGateway {
       },
       agentInstructions,
       ...(input.diffMetadata ? { diffMetadata: input.diffMetadata } : {}),
+      ...(input.skippedAgents?.length ? { skippedAgents: input.skippedAgents } : {}),
+      ...(input.publishMode ? { publishMode: input.publishMode } : {}),
     }
 
     writeFileSync(filePath, JSON.stringify(content, null, 2))
@@ -117,6 +123,32 @@ export class ReviewContextFileSystemGateway implements ReviewContextGateway {
     return { success: true }
   }
 
+  appendFinding(localPath: string, mergeRequestId: string, finding: ReviewFinding): UpdateResult {
+    const context = this.read(localPath, mergeRequestId)
+    if (!context) {
+      return { success: false }
+    }
+
+    context.findings = [...(context.findings ?? []), finding]
+    const filePath = this.getFilePath(localPath, mergeRequestId)
+    writeFileSync(filePath, JSON.stringify(context, null, 2))
+
+    return { success: true }
+  }
+
+  submitResult(localPath: string, mergeRequestId: string, result: SubmittedReviewResult): UpdateResult {
+    const context = this.read(localPath, mergeRequestId)
+    if (!context) {
+      return { success: false }
+    }
+
+    context.submittedResult = result
+    const filePath = this.getFilePath(localPath, mergeRequestId)
+    writeFileSync(filePath, JSON.stringify(context, null, 2))
+
+    return { success: true }
+  }
+
   listAll(localPath: string): ReviewContext[] {
     const logsDir = join(localPath, '.claude', 'reviews', 'logs')
     if (!existsSync(logsDir)) {
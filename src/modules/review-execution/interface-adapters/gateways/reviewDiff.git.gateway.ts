@@ -0,0 +1,63 @@
+import type {
+  GitCommand,
+  GitCommandExecutor,
+  GitCommandResult,
+} from '@/modules/worktree-management/entities/gitCommand/gitCommand.gateway.js';
+import type { ReviewDiffGateway } from '@/modules/review-execution/entities/reviewDiff/reviewDiff.gateway.js';
+import {
+  type ChangedFile,
+  type DiffRange,
+  type FileDiff,
+  parseChangedFiles,
+  parseFileDiffs,
+} from '@/modules/review-execution/entities/reviewDiff/reviewDiff.js';
+
+export class ReviewDiffGitGateway implements ReviewDiffGateway {
+  constructor(private readonly executor: GitCommandExecutor) {}
+
+  async mergeBase(cwd: string, range: DiffRange): Promise<string> {
+    const result = await this.run({ kind: 'merge-base', args: ['merge-base', range.baseSha, range.headSha], cwd });
+    return result.stdout.trim();
+  }
+
+  async listChangedFiles(cwd: string, range: DiffRange): Promise<ChangedFile[]> {
+    const nameStatus = await this.run({
+      kind: 'diff',
+      args: ['diff', '-M', '--name-status', '-z', range.baseSha, range.headSha],
+      cwd,
+    });
+    const numstat = await this.run({
+      kind: 'diff',
+      args: ['diff', '-M', '--numstat', '-z', range.baseSha, range.headSha],
+      cwd,
+    });
+    return parseChangedFiles(nameStatus.stdout, numstat.stdout);
+  }
+
+  async readFileDiffs(cwd: string, range: DiffRange, paths: readonly string[] = []): Promise<FileDiff[]> {
+    const pathspec = paths.length > 0 ? ['--', ...paths] : [];
+    const result = await this.run({
+      kind: 'diff',
+      args: ['diff', '-M', '--no-color', '--no-ext-diff', range.baseSha, range.headSha, ...pathspec],
+      cwd,
+    });
+    return parseFileDiffs(result.stdout);
+  }
+
+  async readFileAtRef(cwd: string, sha: string, path: string): Promise<string | null> {
+    const exists = await this.executor.execute({ kind: 'cat-file', args: ['cat-file', '-e', `${sha}:${path}`], cwd });
+    if (exists.exitCode !== 0) {
+      return null;
+    }
+    const result = await this.run({ kind: 'cat-file', args: ['cat-file', 'blob', `${sha}:${path}`], cwd });
+    return result.stdout;
+  }
+
+  private async run(command: GitCommand): Promise<GitCommandResult> {
+    const result = await this.executor.execute(command);
+    if (result.exitCode !== 0) {
+      throw new Error(`git ${command.args[0]} failed: ${result.stderr.trim() || `exit code ${result.exitCode}`}`);
+    }
+    return result;
+  }
+}
@@ -1,3 +1,5 @@
+import { agentDispatchOf, type AgentDefinition } from "../../entities/progress/agentDefinition.type.js";
+import type { SkippedAgent } from "../../entities/progress/agentSelection.js";
 import { calculateOverallProgress } from "../../entities/progress/progress.calculator.js";
 import type {
 	AgentCompletionStatus,
@@ -6,24 +8,40 @@ import type {
 } from "../../entities/progress/progress.gateway.js";
 import type { ReviewPhase, ReviewProgress } from "../../entities/progress/progress.type.js";
 
+/** Error of an agent still running once its `timeoutMs` has passed. */
+export const AGENT_TIMEOUT_ERROR = "timeout";
+
 export class ReviewProgressMemoryGateway implements ReviewProgressGateway {
 	private progressStore = new Map<string, ReviewProgress>();
 	private onProgressChange: ProgressChangeCallback | null = null;
+	private agentTimers = new Map<string, ReturnType<typeof setTimeout>>();
 
 	setOnProgressChange(callback: ProgressChangeCallback): void {
 		this.onProgressChange = callback;
 	}
 
-	createProgress(jobId: string, agentNames: string[]): ReviewProgress {
+	createProgress(
+		jobId: string,
+		agents: ReadonlyArray<string | AgentDefinition>,
+		skippedAgents?: SkippedAgent[],
+	): ReviewProgress {
 		const progress: ReviewProgress = {
-			agents: agentNames.map((name) => ({
-				name,
-				displayName: name,
-				status: "pending" as const,
-			})),
+			agents: agents.map((agent) => {
+				if (typeof agent === "string") {
+					return { name: agent, displayName: agent, status: "pending" as const };
+				}
+				const dispatch = agentDispatchOf(agent);
+				return {
+					name: agent.name,
+					displayName: agent.displayName,
+					status: "pending" as const,
+					...(dispatch ? { dispatch } : {}),
+				};
+			}),
 			currentPhase: "initializing",
 			overallProgress: 0,
 			lastUpdate: new Date(),
+			...(skippedAgents?.length ? { skippedAgents } : {}),
 		};
 		this.progressStore.set(jobId, progress);
 		return progress;
@@ -45,6 +63,15 @@ export class ReviewProgressMemoryGateway implements ReviewProgressGateway {
 		progress.lastUpdate = new Date();
 		progress.overallProgress = calculateOverallProgress(progress);
 
+		this.clearAgentTimer(jobId, agentName);
+		const timeoutMs = agent.dispatch?.timeoutMs;
+		if (timeoutMs !== undefined) {
+			const timer = setTimeout(() => this.timeOutAgent(jobId, agentName), timeoutMs);
+			// A pending timeout must not keep the MCP server alive
+			timer.unref?.();
+			this.agentTimers.set(`${jobId}:${agentName}`, timer);
+		}
+
 		if (this.onProgressChange) {
 			this.onProgressChange(jobId, progress);
 		}
@@ -52,11 +79,41 @@ export class ReviewProgressMemoryGateway implements ReviewProgressGateway {
 		return progress;
 	}
 
+	private timeOutAgent(jobId: string, agentName: string): void {
+		this.agentTimers.delete(`${jobId}:${agentName}`);
+		const progress = this.progressStore.get(jobId);
+		const agent = progress?.agents.find((a) => a.name === agentName);
+		if (!progress || !agent || agent.status !== "running") return;
+
+		agent.status = "failed";
+		agent.error = AGENT_TIMEOUT_ERROR;
+		agent.completedAt = new Date();
+		if (agent.startedAt) {
+			agent.durationMs = agent.completedAt.getTime() - agent.startedAt.getTime();
+		}
+		progress.lastUpdate = new Date();
+		progress.overallProgress = calculateOverallProgress(progress);
+
+		if (this.onProgressChange) {
+			this.onProgressChange(jobId, progress);
+		}
+	}
+
+	private clearAgentTimer(jobId: string, agentName: string): void {
+		const key = `${jobId}:${agentName}`;
+		const timer = this.agentTimers.get(key);
+		if (timer !== undefined) {
+			clearTimeout(timer);
+			this.agentTimers.delete(key);
+		}
+	}
+
 	completeAgent(
 		jobId: string,
 		agentName: string,
 		status: AgentCompletionStatus,
 		error?: string,
+		tokens?: number,
 	): ReviewProgress | null {
 		const progress = this.progressStore.get(jobId);
 		if (!progress) return null;
@@ -64,10 +121,21 @@ export class ReviewProgressMemoryGateway implements ReviewProgressGateway {
 		const agent = progress.agents.find((a) => a.name === agentName);
 		if (!agent) return null;
 
-		agent.status = status === "success" ? "completed" : "failed";
-		agent.completedAt = new Date();
-		if (error) {
-			agent.error = error;
+		this.clearAgentTimer(jobId, agentName);
+		// A completion reported after the timeout does not revive the agent
+		const timedOut = agent.status === "failed" && agent.error === AGENT_TIMEOUT_ERROR;
+		if (!timedOut) {
+			agent.status = status === "success" ? "completed" : "failed";
+			agent.completedAt = new Date();
+			if (agent.startedAt) {
+				agent.durationMs = agent.completedAt.getTime() - agent.startedAt.getTime();
+			}
+			if (error) {
+				agent.error = error;
+			}
+		}
+		if (tokens !== undefined) {
+			agent.tokens = tokens;
 		}
 		progress.lastUpdate = new Date();
 		progress.overallProgress = calculateOverallProgress(progress);
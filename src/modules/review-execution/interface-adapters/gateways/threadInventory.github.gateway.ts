@@ -0,0 +1,98 @@
+import type {
+  ThreadInventoryGateway,
+  ThreadInventoryPage,
+} from '@/modules/review-execution/entities/threadInventory/threadInventory.gateway.js'
+
+export type CommandExecutor = (command: string) => string
+
+const PAGE_SIZE = 100
+
+interface GitHubReviewThreadNode {
+  id: string
+  isResolved: boolean
+  isOutdated: boolean
+  comments: {
+    nodes: Array<{ databaseId: number | null }>
+  }
+}
+
+interface GitHubReviewThreadConnection {
+  totalCount: number
+  pageInfo: { hasNextPage: boolean; endCursor: string | null }
+  nodes: GitHubReviewThreadNode[]
+}
+
+interface GitHubReviewThreadsResponse {
+  data: {
+    repository: {
+      pullRequest: {
+        reviewThreads: GitHubReviewThreadConnection
+      }
+    }
+  }
+}
+
+/**
+ * Authenticated GitHub review threads inventory access (GraphQL `reviewThreads`).
+ *
+ * GraphQL paginates with cursors, so the gateway remembers the end cursor of every
+ * page it has fetched for a PR and walks forward when asked for a page it has not
+ * reached yet. `totalPages` is derived from `totalCount`, which lets the resolver
+ * prove completeness the same way it does with GitLab's `X-Total-Pages`.
+ *
+ * Each thread contributes its node id (target of `resolveReviewThread`) and the
+ * database id of its first comment (target of the REST replies endpoint). Resolved
+ * and outdated threads stay in the inventory: they still belong to the PR.
+ */
+export class GitHubThreadInventoryGateway implements ThreadInventoryGateway {
+  private readonly cursors = new Map<string, Array<string | null>>()
+
+  constructor(private readonly executor: CommandExecutor) {}
+
+  fetchPage(projectPath: string, mergeRequestNumber: number, page: number): ThreadInventoryPage {
+    const key = `${projectPath}#${mergeRequestNumber}`
+    const cursors: Array<string | null> = page === 1 ? [null] : (this.cursors.get(key) ?? [null])
+    this.cursors.set(key, cursors)
+
+    let current = Math.min(page, cursors.length)
+    let threads = this.query(projectPath, mergeRequestNumber, cursors[current - 1])
+    for (;;) {
+      const { hasNextPage, endCursor } = threads.pageInfo
+      if (hasNextPage && endCursor && cursors.length === current) cursors.push(endCursor)
+      if (current === page) break
+      if (!hasNextPage || !endCursor) {
+        throw new Error(`Review threads page ${page} is out of range`)
+      }
+      current += 1
+      threads = this.query(projectPath, mergeRequestNumber, endCursor)
+    }
+
+    return {
+      page,
+      totalPages: Math.max(1, Math.ceil(threads.totalCount / PAGE_SIZE)),
+      threadIds: threads.nodes.flatMap(thread => {
+        const firstCommentId = thread.comments.nodes[0]?.databaseId
+        return firstCommentId ? [thread.id, String(firstCommentId)] : [thread.id]
+      }),
+    }
+  }
+
+  private query(projectPath: string, mergeRequestNumber: number, after: string | null): GitHubReviewThreadConnection {
+    const [owner, name] = projectPath.split('/')
+    const afterArgument = after ? `, after: "${after}"` : ''
+    const query = `query {
+      repository(owner: "${owner}", name: "${name}") {
+        pullRequest(number: ${mergeRequestNumber}) {
+          reviewThreads(first: ${PAGE_SIZE}${afterArgument}) {
+            totalCount
+            pageInfo { hasNextPage endCursor }
+            nodes { id isResolved isOutdated comments(first: 1) { nodes { databaseId } } }
+          }
+        }
+      }
+    }`
+
+    const response: GitHubReviewThreadsResponse = JSON.parse(this.executor(`gh api graphql -f query='${query}'`))
+    return response.data.repository.pullRequest.reviewThreads
+  }
+}
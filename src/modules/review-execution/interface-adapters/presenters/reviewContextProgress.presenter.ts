@@ -9,6 +9,7 @@ export class ReviewContextProgressPresenter {
     const currentStep = contextProgress.currentStep
 
     const agentDefinitions = this.resolveAgents(contextProgress)
+    const runs = new Map((contextProgress.agentRuns ?? []).map(run => [run.name, run]))
 
     const agents: AgentProgress[] = agentDefinitions.map(agent => {
       let status: AgentProgress['status'] = 'pending'
@@ -19,10 +20,15 @@ export class ReviewContextProgressPresenter {
         status = 'running'
       }
 
+      const run = runs.get(agent.name)
+
       return {
         name: agent.name,
         displayName: agent.displayName,
         status,
+        ...(run?.model ? { dispatch: { model: run.model } } : {}),
+        ...(run?.durationMs !== undefined ? { durationMs: run.durationMs } : {}),
+        ...(run?.tokens !== undefined ? { tokens: run.tokens } : {}),
       }
     })
 
@@ -41,7 +47,8 @@ export class ReviewContextProgressPresenter {
   }
 
   private resolveAgents(contextProgress: ReviewContextProgress): ReviewContextAgent[] {
-    if (contextProgress.agents && contextProgress.agents.length > 0) {
+    // An empty list is a selection that skipped every agent, not a missing one.
+    if (contextProgress.agents !== undefined) {
       return contextProgress.agents
     }
     return DEFAULT_FOLLOWUP_AGENTS
@@ -25,7 +25,7 @@ export function enrichCommentWithLinks(
   baseUrl: string,
   projectPath: string,
   headSha: string,
-  platform: 'gitlab' | 'github' = 'gitlab',
+  platform: 'gitlab' | 'github' | 'bitbucket' | 'gitea' = 'gitlab',
 ): string {
   return body.replace(FILE_LINE_PATTERN, (match, prefix, filePath, line, suffix, offset) => {
     // Skip if preceded by :// (URL pattern like https://example.com:443)
@@ -40,11 +40,29 @@ export function enrichCommentWithLinks(
       return match
     }
 
-    const blobPrefix = platform === 'github' ? 'blob' : '-/blob'
-    const blobUrl = `${baseUrl}/${projectPath}/${blobPrefix}/${headSha}/${filePath}#L${line}`
+    const blobUrl = buildBlobUrl(platform, `${baseUrl}/${projectPath}`, headSha, filePath, line)
     // When wrapped in backticks, the link markdown already includes backticks — don't double them
     const outerPrefix = prefix === '`' ? '' : prefix
     const outerSuffix = suffix === '`' ? '' : suffix
     return `${outerPrefix}[\`${filePath}:${line}\`](${blobUrl})${outerSuffix}`
   })
 }
+
+export function buildBlobUrl(
+  platform: 'gitlab' | 'github' | 'bitbucket' | 'gitea',
+  repositoryUrl: string,
+  headSha: string,
+  filePath: string,
+  line: string,
+): string {
+  switch (platform) {
+    case 'github':
+      return `${repositoryUrl}/blob/${headSha}/${filePath}#L${line}`
+    case 'bitbucket':
+      return `${repositoryUrl}/src/${headSha}/${filePath}#lines-${line}`
+    case 'gitea':
+      return `${repositoryUrl}/src/commit/${headSha}/${filePath}#L${line}`
+    case 'gitlab':
+      return `${repositoryUrl}/-/blob/${headSha}/${filePath}#L${line}`
+  }
+}
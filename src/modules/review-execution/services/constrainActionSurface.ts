@@ -11,6 +11,8 @@ export interface ActionSurfaceConstraints {
  *
  * - `POST_COMMENT` is always allowed (the only untrusted write verb).
  * - `FETCH_THREADS` is allowed only for `trusted` provenance (read-amplification gate).
+ * - `POST_INLINE_COMMENT` is allowed only for `trusted` provenance: it is posted by the
+ *   platform CLI gateway, outside the scanned post sink.
  * - `THREAD_RESOLVE` / `THREAD_REPLY` require BOTH `trusted` provenance AND the (trimmed)
  *   target id being a member of the authenticated MR thread inventory.
  * - Any other verb is dropped.
@@ -33,6 +35,7 @@ export function constrainActionSurface(
         break
 
       case 'FETCH_THREADS':
+      case 'POST_INLINE_COMMENT':
         if (isTrusted) constrained.push(action)
         break
 
@@ -1,10 +1,19 @@
 import type { ReviewContext } from '@/modules/review-execution/entities/reviewContext/reviewContext.js'
 import type { ReviewAction } from '@/modules/review-execution/entities/reviewAction/reviewAction.js'
-import { GitLabReviewActionCliGateway } from '@/modules/review-execution/interface-adapters/gateways/cli/reviewAction.gitlab.cli.gateway.js'
-import { GitHubReviewActionCliGateway } from '@/modules/review-execution/interface-adapters/gateways/cli/reviewAction.github.cli.gateway.js'
+import { createReviewActionGateway } from '@/modules/review-execution/services/threadActionsExecutor.js'
 import type { ExecutionResult, CommandExecutor } from '@/modules/review-execution/entities/reviewAction/reviewAction.gateway.js'
 import type { NoteCommentPostGateway } from '@/modules/platform-integration/entities/noteComment/noteCommentPost.gateway.js'
-import { executePublicOutput, isPublicOutputAction } from '@/modules/review-execution/services/publicOutputExecutor.js'
+import {
+  executePublicOutput,
+  isBatchedReviewAction,
+  isPublicOutputAction,
+  recordShadowOutput,
+  type ShadowOutput,
+  submitBatchedReview,
+} from '@/modules/review-execution/services/publicOutputExecutor.js'
+import type { PullRequestReviewGateway } from '@/modules/platform-integration/entities/pullRequestReview/pullRequestReview.gateway.js'
+import type { MeasuredReviewResult } from '@/modules/review-execution/entities/reviewContext/reviewContextResult.schema.js'
+import { EgressBlockedError } from '@/modules/platform-integration/interface-adapters/gateways/egressScanned.noteCommentPost.gateway.js'
 import { filterAutoExecutorActions } from '@/modules/platform-integration/services/autoExecutorActionFilter.js'
 
 /**
@@ -14,6 +23,12 @@ export type { ReviewAction as ReviewContextAction }
 
 export type { ExecutionResult, CommandExecutor }
 
+/** Publishes comments as one pull request review (GitHub) instead of one by one. */
+export interface BatchedReviewOptions {
+  gateway: PullRequestReviewGateway
+  verdict: MeasuredReviewResult['verdict']
+}
+
 interface Logger {
   info: (obj: object, msg: string) => void
   warn: (obj: object, msg: string) => void
@@ -31,6 +46,8 @@ export async function executeActionsFromContext(
   executor: CommandExecutor,
   baseUrl: string | null = null,
   postGateway: NoteCommentPostGateway | null = null,
+  batchedReview: BatchedReviewOptions | null = null,
+  shadow: ShadowOutput | null = null,
 ): Promise<ExecutionResult> {
   const gatewayContext = {
     projectPath: context.projectPath,
@@ -49,17 +66,28 @@ export async function executeActionsFromContext(
     )
   }
 
-  const gateway =
-    context.platform === 'gitlab'
-      ? new GitLabReviewActionCliGateway(executor)
-      : new GitHubReviewActionCliGateway(executor)
+  if (shadow) {
+    return recordShadowOutput(
+      allowed,
+      { platform: context.platform, projectPath: context.projectPath, mrNumber: context.mergeRequestNumber },
+      shadow,
+    )
+  }
+
+  const batchedCount = batchedReview
+    ? await trySubmitBatchedReview(allowed, context, batchedReview, logger)
+    : 0
+  const pending = batchedCount > 0 ? allowed.filter(action => !isBatchedReviewAction(action)) : allowed
+
+  const gateway = createReviewActionGateway(context.platform, executor)
 
   if (postGateway === null) {
-    return gateway.execute(allowed, gatewayContext)
+    const cliResult = await gateway.execute(pending, gatewayContext)
+    return { ...cliResult, total: allowed.length, succeeded: cliResult.succeeded + batchedCount }
   }
 
-  const publicOutputActions = allowed.filter(isPublicOutputAction)
-  const remainingActions = allowed.filter(action => !isPublicOutputAction(action))
+  const publicOutputActions = pending.filter(isPublicOutputAction)
+  const remainingActions = pending.filter(action => !isPublicOutputAction(action))
 
   await executePublicOutput(
     publicOutputActions,
@@ -70,9 +98,48 @@ export async function executeActionsFromContext(
   const cliResult = await gateway.execute(remainingActions, gatewayContext)
 
   return {
+    ...cliResult,
     total: allowed.length,
-    succeeded: cliResult.succeeded + publicOutputActions.length,
-    failed: cliResult.failed,
-    skipped: cliResult.skipped,
+    succeeded: cliResult.succeeded + publicOutputActions.length + batchedCount,
+  }
+}
+
+/**
+ * Returns how many actions the review carried, or 0 when they must be posted one
+ * by one: no anchor commit, nothing to batch, or a rejected review (typically an
+ * inline line outside the diff). An egress block is never retried comment by comment.
+ */
+async function trySubmitBatchedReview(
+  actions: ReviewAction[],
+  context: ReviewContext,
+  options: BatchedReviewOptions,
+  logger: Logger,
+): Promise<number> {
+  const reviewActions = actions.filter(isBatchedReviewAction)
+  if (!context.diffMetadata || reviewActions.length === 0) {
+    return 0
+  }
+
+  try {
+    await submitBatchedReview(
+      reviewActions,
+      {
+        projectPath: context.projectPath,
+        mrNumber: context.mergeRequestNumber,
+        commitId: context.diffMetadata.headSha,
+        verdict: options.verdict,
+      },
+      options.gateway,
+    )
+    return reviewActions.length
+  } catch (error) {
+    if (error instanceof EgressBlockedError) {
+      throw error
+    }
+    logger.warn(
+      { mrNumber: context.mergeRequestNumber, error: error instanceof Error ? error.message : String(error) },
+      'Batched review rejected, posting comments one by one',
+    )
+    return 0
   }
 }
@@ -0,0 +1,77 @@
+import type { ReviewJob } from '@/frameworks/queue/pQueueAdapter.js';
+import type { NoteCommentPostGateway } from '@/modules/platform-integration/entities/noteComment/noteCommentPost.gateway.js';
+import type { LinkedMergeRequest } from '@/modules/review-execution/entities/linkedMergeRequest/linkedMergeRequest.schema.js';
+import type { LinkedComment } from '@/modules/review-execution/entities/pendingPublication/pendingPublication.schema.js';
+import {
+  extractCrossRepoSection,
+  formatLinkedMergeRequest,
+} from '@/modules/review-execution/entities/linkedMergeRequest/linkedMergeRequest.js';
+import { recordShadowOutput, type ShadowOutput } from '@/modules/review-execution/services/publicOutputExecutor.js';
+
+interface Logger {
+  info: (obj: object, msg: string) => void;
+  warn: (obj: object, msg: string) => void;
+}
+
+/**
+ * Comments carrying the cross-repository section of a review report, one per
+ * linked merge request. The reviewed merge request gets the section through
+ * the summary comment of the session.
+ */
+export function buildCrossRepoComments(
+  report: string,
+  reviewed: Pick<ReviewJob, 'platform' | 'projectPath' | 'mrNumber'>,
+  linked: readonly LinkedMergeRequest[] | undefined,
+  logger: Pick<Logger, 'warn'>,
+): LinkedComment[] {
+  if (!linked || linked.length === 0) {
+    return [];
+  }
+
+  const section = extractCrossRepoSection(report);
+  if (section === null) {
+    logger.warn({ mrNumber: reviewed.mrNumber }, 'Review report has no cross-repository section to post on linked merge requests');
+    return [];
+  }
+
+  const body = `${section}\n\n_From the review of ${formatLinkedMergeRequest(reviewed, reviewed.platform)}._`;
+  return linked.map((link) => ({ projectPath: link.projectPath, mrNumber: link.mrNumber, body }));
+}
+
+/**
+ * Posts comments on linked merge requests, or records them in the shadow log.
+ * A failed post does not stop the others. Returns how many were posted.
+ */
+export async function postLinkedComments(
+  comments: readonly LinkedComment[],
+  platform: ReviewJob['platform'],
+  postGateway: NoteCommentPostGateway,
+  shadow: ShadowOutput | null,
+  logger: Logger,
+): Promise<number> {
+  if (comments.length === 0) {
+    return 0;
+  }
+
+  let posted = 0;
+  for (const comment of comments) {
+    const link = { projectPath: comment.projectPath, mrNumber: comment.mrNumber };
+    if (shadow) {
+      recordShadowOutput([{ type: 'POST_COMMENT', body: comment.body }], { platform, ...link }, shadow);
+      posted += 1;
+      continue;
+    }
+    try {
+      await postGateway.postComment({ ...link, body: comment.body });
+      posted += 1;
+    } catch (error) {
+      logger.warn(
+        { linked: formatLinkedMergeRequest(link, platform), error: error instanceof Error ? error.message : String(error) },
+        'Failed to post the cross-repository section on a linked merge request',
+      );
+    }
+  }
+
+  logger.info({ posted, linked: comments.length }, 'Cross-repository section posted on linked merge requests');
+  return posted;
+}
@@ -9,6 +9,8 @@ import {
   type ExecutionResult,
   type CommandExecutor,
 } from '@/modules/review-execution/services/threadActionsExecutor.js'
+import type { ShadowOutput } from '@/modules/review-execution/services/publicOutputExecutor.js'
+import { withoutHeldComments } from '@/modules/review-execution/services/publishModeResolver.js'
 import type { NoteCommentPostGateway } from '@/modules/platform-integration/entities/noteComment/noteCommentPost.gateway.js'
 
 interface DispatchLogger {
@@ -25,6 +27,9 @@ export interface DispatchOptions {
   logger: DispatchLogger
   executor: CommandExecutor
   postGateway?: NoteCommentPostGateway | null
+  shadow?: ShadowOutput | null
+  /** Holds the surviving comments for approval; true when they were held. */
+  holdForApproval?: (comments: ReviewAction[]) => Promise<boolean>
 }
 
 /**
@@ -33,13 +38,15 @@ export interface DispatchOptions {
  * Resolves the authenticated MR thread inventory (fail-closed), bounds the action
  * surface against provenance + that inventory, then dispatches only the surviving
  * actions to the executor. Forged or out-of-MR thread ids never reach a live write.
- * Public-output verbs that survive are routed through the scanned post sink.
+ * Public-output verbs that survive are routed through the scanned post sink, or
+ * all of them into the shadow log when the review runs in shadow mode. Comments
+ * held for approval are left out: they are published once approved.
  */
 export async function dispatchConstrainedActions(
   actions: ReviewAction[],
   options: DispatchOptions
 ): Promise<ExecutionResult> {
-  const { context, provenance, inventoryGateway, logger, executor, postGateway = null } = options
+  const { context, provenance, inventoryGateway, logger, executor, postGateway = null, shadow = null } = options
 
   const threadInventory = resolveThreadInventory(
     inventoryGateway,
@@ -48,8 +55,10 @@ export async function dispatchConstrainedActions(
   )
 
   const constrained = constrainActionSurface(actions, { provenance, threadInventory })
+  const unheld = await withoutHeldComments(constrained, options.holdForApproval)
 
-  return executeThreadActions(constrained, context, logger, executor, postGateway, {
+  return executeThreadActions(unheld, context, logger, executor, postGateway, {
     skipAutoCapabilityFilter: true,
+    shadow,
   })
 }
@@ -0,0 +1,21 @@
+import type { PostInlineCommentAction } from '@/modules/review-execution/entities/reviewAction/reviewAction.js'
+import type { ExecutionContext } from '@/modules/review-execution/entities/reviewAction/reviewAction.gateway.js'
+import { buildBlobUrl } from '@/modules/review-execution/services/commentLinkEnricher.js'
+
+/**
+ * Body of the general comment posted when an inline comment cannot be anchored,
+ * typically because its line is not part of the diff. The file:line reference
+ * links to the head commit when the platform base URL is known.
+ */
+export function buildInlineCommentFallbackBody(
+  action: PostInlineCommentAction,
+  context: ExecutionContext,
+  platform: 'gitlab' | 'github' | 'bitbucket' | 'gitea',
+): string {
+  const reference = `\`${action.filePath}:${action.line}\``
+  const location = context.baseUrl && context.diffMetadata
+    ? `[${reference}](${buildBlobUrl(platform, `${context.baseUrl}/${context.projectPath}`, context.diffMetadata.headSha, action.filePath, String(action.line))})`
+    : reference
+
+  return `**${location}**\n\n${action.body}`
+}
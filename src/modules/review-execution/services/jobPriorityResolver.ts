@@ -0,0 +1,31 @@
+import { loadProjectConfig } from '@/config/projectConfig.js';
+import type { ReviewJob } from '@/frameworks/queue/pQueueAdapter.js';
+import { resolveJobPriority } from '@/modules/review-execution/entities/jobPriority/jobPriority.js';
+import {
+  DEFAULT_PRIORITY_RULES,
+  type PriorityRules,
+} from '@/modules/review-execution/entities/jobPriority/jobPriority.schema.js';
+
+/**
+ * Priority rules of a project, or the defaults (every job `normal`) when the
+ * project has no `priority` block or its config cannot be read.
+ */
+export function loadPriorityRules(localPath: string): PriorityRules {
+  try {
+    return loadProjectConfig(localPath)?.priority ?? DEFAULT_PRIORITY_RULES;
+  } catch {
+    return DEFAULT_PRIORITY_RULES;
+  }
+}
+
+/** Queue priority of a job from the rules of its project. */
+export function resolveQueuedJobPriority(job: ReviewJob): number {
+  return resolveJobPriority(
+    {
+      labels: job.labels ?? [],
+      targetBranch: job.targetBranch,
+      jobType: job.jobType ?? 'review',
+    },
+    loadPriorityRules(job.localPath),
+  );
+}
@@ -9,7 +9,7 @@ export type ProcessorBuilder = (job: ReviewJob) => GateClaudeInvocationProcessor
 
 export interface ProcessorKey {
   triggerSource: TriggerSource;
-  platform: 'gitlab' | 'github';
+  platform: 'gitlab' | 'github' | 'bitbucket' | 'gitea';
   jobType: 'review' | 'followup';
 }
 
@@ -39,4 +39,20 @@ export class ProcessorRegistry {
     }
     return builder(pending.job);
   }
+
+  /**
+   * Processor of a job replayed from the queue journal, built as if the webhook
+   * had just queued it. Null when no builder is registered for the job.
+   */
+  resolveJob(job: ReviewJob): GateClaudeInvocationProcessor | null {
+    const jobType = job.jobType ?? 'review';
+    const builder = this.builders.get(
+      buildRegistryKey({
+        triggerSource: jobType === 'review' ? 'webhook-initial' : 'webhook-followup',
+        platform: job.platform,
+        jobType,
+      }),
+    );
+    return builder ? builder(job) : null;
+  }
 }
@@ -1,5 +1,13 @@
 import type { ReviewAction } from '@/modules/review-execution/entities/reviewAction/reviewAction.js';
 import type { NoteCommentPostGateway } from '@/modules/platform-integration/entities/noteComment/noteCommentPost.gateway.js';
+import type {
+  PullRequestReviewEvent,
+  PullRequestReviewGateway,
+} from '@/modules/platform-integration/entities/pullRequestReview/pullRequestReview.gateway.js';
+import type { MeasuredReviewResult } from '@/modules/review-execution/entities/reviewContext/reviewContextResult.schema.js';
+import type { ExecutionResult } from '@/modules/review-execution/entities/reviewAction/reviewAction.gateway.js';
+import type { ShadowLogEntry } from '@/modules/review-execution/entities/shadowLog/shadowLog.schema.js';
+import type { ShadowLogGateway } from '@/modules/review-execution/entities/shadowLog/shadowLog.gateway.js';
 
 export type PublicOutputAction = ReviewAction;
 
@@ -8,6 +16,21 @@ export interface PublicOutputContext {
   mrNumber: number;
 }
 
+export interface BatchedReviewContext extends PublicOutputContext {
+  commitId: string;
+  verdict: MeasuredReviewResult['verdict'];
+}
+
+/** Where a shadow review records the actions it would have posted. */
+export interface ShadowOutput {
+  gateway: ShadowLogGateway;
+  localPath: string;
+  reportFile: string;
+  now: () => Date;
+}
+
+const DEFAULT_REVIEW_SUMMARY = 'See the inline comments.';
+
 function publicOutputBody(action: ReviewAction): string | null {
   switch (action.type) {
     case 'POST_COMMENT':
@@ -40,3 +63,69 @@ export async function executePublicOutput(
     });
   }
 }
+
+export function isBatchedReviewAction(action: ReviewAction): boolean {
+  return action.type === 'POST_COMMENT' || action.type === 'POST_INLINE_COMMENT';
+}
+
+export function reviewEventForVerdict(verdict: MeasuredReviewResult['verdict']): PullRequestReviewEvent {
+  return verdict === 'needs_fixes' ? 'REQUEST_CHANGES' : 'COMMENT';
+}
+
+/**
+ * Publishes the summary comments and the inline comments as one pull request
+ * review, so watchers get a single notification instead of one per finding.
+ */
+export async function submitBatchedReview(
+  actions: ReviewAction[],
+  context: BatchedReviewContext,
+  reviewGateway: PullRequestReviewGateway,
+): Promise<void> {
+  const summaries: string[] = [];
+  const comments: { path: string; line: number; body: string }[] = [];
+
+  for (const action of actions) {
+    if (action.type === 'POST_COMMENT') {
+      summaries.push(action.body);
+    } else if (action.type === 'POST_INLINE_COMMENT') {
+      comments.push({ path: action.filePath, line: action.line, body: action.body });
+    }
+  }
+
+  await reviewGateway.submitReview({
+    projectPath: context.projectPath,
+    mrNumber: context.mrNumber,
+    commitId: context.commitId,
+    body: summaries.length > 0 ? summaries.join('\n\n') : DEFAULT_REVIEW_SUMMARY,
+    event: reviewEventForVerdict(context.verdict),
+    comments,
+  });
+}
+
+/**
+ * Shadow counterpart of the executors: records the actions that would have
+ * been posted and runs no platform command. Thread fetches post nothing and
+ * are skipped.
+ */
+export function recordShadowOutput(
+  actions: ReviewAction[],
+  context: PublicOutputContext & { platform: ShadowLogEntry['platform'] },
+  shadow: ShadowOutput,
+): ExecutionResult {
+  const recorded = actions.filter((action) => action.type !== 'FETCH_THREADS');
+  if (recorded.length > 0) {
+    shadow.gateway.append(shadow.localPath, shadow.reportFile, {
+      recordedAt: shadow.now().toISOString(),
+      platform: context.platform,
+      projectPath: context.projectPath,
+      mrNumber: context.mrNumber,
+      actions: recorded,
+    });
+  }
+  return {
+    total: actions.length,
+    succeeded: recorded.length,
+    failed: 0,
+    skipped: actions.length - recorded.length,
+  };
+}
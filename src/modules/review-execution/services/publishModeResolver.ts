@@ -0,0 +1,88 @@
+import { loadProjectConfig } from '@/config/projectConfig.js';
+import type { ReviewJob } from '@/frameworks/queue/pQueueAdapter.js';
+import { resolvePublishMode } from '@/modules/review-execution/entities/publishMode/publishMode.js';
+import type { PublishMode } from '@/modules/review-execution/entities/publishMode/publishMode.schema.js';
+import { isPendingPublicationAction } from '@/modules/review-execution/entities/pendingPublication/pendingPublication.js';
+import type { ReviewAction } from '@/modules/review-execution/entities/reviewAction/reviewAction.js';
+import type { ShadowLogGateway } from '@/modules/review-execution/entities/shadowLog/shadowLog.gateway.js';
+import { shadowReportFile } from '@/modules/review-execution/entities/shadowLog/shadowLog.js';
+import type { ShadowOutput } from '@/modules/review-execution/services/publicOutputExecutor.js';
+import type {
+  ParkReviewPublicationInput,
+  ParkReviewPublicationUseCase,
+} from '@/modules/review-execution/usecases/parkReviewPublication.usecase.js';
+
+/**
+ * Publish mode of a job: its own, else its project's `publishMode`. An
+ * unreadable project config leaves the job's own mode, else live.
+ */
+export function loadJobPublishMode(job: Pick<ReviewJob, 'localPath' | 'publishMode'>): PublishMode {
+  try {
+    return resolvePublishMode(job.publishMode, loadProjectConfig(job.localPath)?.publishMode);
+  } catch {
+    return resolvePublishMode(job.publishMode, undefined);
+  }
+}
+
+/**
+ * Shadow sink of a finished job, null when it publishes live. The log is keyed
+ * by the report the session wrote so the dashboard lists both together.
+ */
+export function resolveShadowOutput(
+  job: Pick<ReviewJob, 'localPath' | 'publishMode' | 'mrNumber'>,
+  reportPath: string | undefined,
+  gateway: ShadowLogGateway,
+  now: () => Date = () => new Date(),
+): ShadowOutput | null {
+  if (loadJobPublishMode(job) !== 'shadow') {
+    return null;
+  }
+  return {
+    gateway,
+    localPath: job.localPath,
+    reportFile: shadowReportFile(reportPath, job.mrNumber, now()),
+    now,
+  };
+}
+
+/**
+ * Whether the project holds finished reviews for approval before publishing.
+ * An unreadable project config publishes right away.
+ */
+export function loadReviewBeforePublish(localPath: string): boolean {
+  try {
+    return loadProjectConfig(localPath)?.reviewBeforePublish === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parks the comments of a finished review for approval. false when they are to
+ * be published now; shadow reviews never wait since they post nothing.
+ */
+export async function holdForApproval(
+  park: ParkReviewPublicationUseCase | undefined,
+  shadow: ShadowOutput | null,
+  input: ParkReviewPublicationInput,
+): Promise<boolean> {
+  if (!park || shadow !== null) {
+    return false;
+  }
+  return (await park.execute(input)).status === 'parked';
+}
+
+/**
+ * Stdout thread actions left to run once their comments are held for approval:
+ * all of them when nothing was held. Resolutions and labels run right away.
+ */
+export async function withoutHeldComments(
+  actions: ReviewAction[],
+  hold: ((comments: ReviewAction[]) => Promise<boolean>) | undefined,
+): Promise<ReviewAction[]> {
+  const comments = actions.filter(isPendingPublicationAction);
+  if (!hold || comments.length === 0 || !(await hold(comments))) {
+    return actions;
+  }
+  return actions.filter((action) => !isPendingPublicationAction(action));
+}
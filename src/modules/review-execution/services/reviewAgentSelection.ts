@@ -0,0 +1,37 @@
+import type { Logger } from 'pino';
+import type { ChangedFilesFetchGateway } from '@/modules/platform-integration/entities/changedFiles/changedFilesFetch.gateway.js';
+import type { AgentDefinition } from '@/modules/review-execution/entities/progress/agentDefinition.type.js';
+import {
+  type AgentSelection,
+  selectAgentsForChanges,
+} from '@/modules/review-execution/entities/progress/agentSelection.js';
+
+/**
+ * Agents of a review narrowed to the files its merge request changes. A missing
+ * gateway or a failed fetch keeps every agent: an unknown diff never drops an audit.
+ */
+export function selectReviewAgents(
+  agents: readonly AgentDefinition[],
+  gateway: ChangedFilesFetchGateway | undefined,
+  projectPath: string,
+  mergeRequestNumber: number,
+  logger: Pick<Logger, 'info' | 'warn'>,
+): AgentSelection {
+  let changedFiles: string[] | null = null;
+  if (gateway) {
+    try {
+      changedFiles = gateway.fetchChangedFiles(projectPath, mergeRequestNumber);
+    } catch (error) {
+      logger.warn(
+        { projectPath, mergeRequestNumber, error: error instanceof Error ? error.message : String(error) },
+        'Failed to fetch changed files, every agent will run',
+      );
+    }
+  }
+
+  const selection = selectAgentsForChanges(agents, changedFiles);
+  if (selection.skipped.length > 0) {
+    logger.info({ projectPath, mergeRequestNumber, skippedAgents: selection.skipped }, 'Agents skipped for the changed files');
+  }
+  return selection;
+}
@@ -0,0 +1,61 @@
+import type { JobContextGateway } from '@/modules/review-execution/entities/job/jobContext.gateway.js';
+import type { ReviewContext } from '@/modules/review-execution/entities/reviewContext/reviewContext.js';
+import type { ReviewContextGateway } from '@/modules/review-execution/entities/reviewContext/reviewContext.gateway.js';
+import type { ReviewDiffGateway } from '@/modules/review-execution/entities/reviewDiff/reviewDiff.gateway.js';
+import type { DiffRange } from '@/modules/review-execution/entities/reviewDiff/reviewDiff.js';
+import type { DiffMetadataFetchGateway } from '@/modules/platform-integration/entities/diffMetadata/diffMetadata.gateway.js';
+
+export interface ReviewDiffRangeDependencies {
+  jobContextGateway: JobContextGateway;
+  reviewContextGateway: ReviewContextGateway;
+  reviewDiffGateway: ReviewDiffGateway;
+  diffMetadataFetchGatewayFactory: (platform: ReviewContext['platform']) => DiffMetadataFetchGateway;
+}
+
+export type ReviewDiffRangeResult =
+  | { success: true; cwd: string; range: DiffRange; context: ReviewContext }
+  | { success: false; error: string };
+
+/**
+ * Range the review of a job compares, resolved to the merge base so that a
+ * two-dot diff only shows the changes of the merge request. The SHAs come from
+ * the review context, or from the platform when the context has none.
+ */
+export async function resolveReviewDiffRange(
+  jobId: string,
+  deps: ReviewDiffRangeDependencies,
+): Promise<ReviewDiffRangeResult> {
+  const jobContext = deps.jobContextGateway.get(jobId);
+  if (!jobContext) {
+    return { success: false, error: `Job context not found: ${jobId}` };
+  }
+
+  const context = deps.reviewContextGateway.read(jobContext.localPath, jobContext.mergeRequestId);
+  if (!context) {
+    return { success: false, error: `Review context not found for job: ${jobId}` };
+  }
+
+  let diffMetadata = context.diffMetadata;
+  if (!diffMetadata) {
+    try {
+      diffMetadata = deps
+        .diffMetadataFetchGatewayFactory(context.platform)
+        .fetchDiffMetadata(context.projectPath, context.mergeRequestNumber);
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to fetch diff metadata: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  try {
+    const baseSha = await deps.reviewDiffGateway.mergeBase(jobContext.localPath, {
+      baseSha: diffMetadata.baseSha,
+      headSha: diffMetadata.headSha,
+    });
+    return { success: true, cwd: jobContext.localPath, range: { baseSha, headSha: diffMetadata.headSha }, context };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
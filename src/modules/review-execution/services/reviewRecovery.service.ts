@@ -1,5 +1,9 @@
 import type { ReviewContext } from '@/modules/review-execution/entities/reviewContext/reviewContext.js'
 import type { ReviewContextGateway } from '@/modules/review-execution/entities/reviewContext/reviewContext.gateway.js'
+import type { CommandExecutor } from '@/modules/review-execution/entities/reviewAction/reviewAction.gateway.js'
+import type { ShadowLogGateway } from '@/modules/review-execution/entities/shadowLog/shadowLog.gateway.js'
+import { executeActionsFromContext } from '@/modules/review-execution/services/contextActionsExecutor.js'
+import { resolveShadowOutput } from '@/modules/review-execution/services/publishModeResolver.js'
 
 const DEFAULT_GRACE_WINDOW_MS = 30 * 60 * 1000
 
@@ -31,6 +35,40 @@ export interface ExecuteActionsOutcome {
   failed: number
 }
 
+export interface RecoveryActionsExecutorDeps {
+  logger: RecoveryLogger & { debug: (obj: object, msg: string) => void }
+  executor: CommandExecutor
+  shadowLogGateway: ShadowLogGateway
+  now?: () => Date
+}
+
+/**
+ * Replays the actions of a recovered context with the publish mode its job
+ * ran with: a shadow job records them to its shadow log, never to the platform.
+ */
+export function createRecoveryActionsExecutor(
+  deps: RecoveryActionsExecutorDeps,
+): RecoveryDeps['executeActions'] {
+  return async (context, localPath) => {
+    const result = await executeActionsFromContext(
+      context,
+      localPath,
+      deps.logger,
+      deps.executor,
+      null,
+      null,
+      null,
+      resolveShadowOutput(
+        { localPath, mrNumber: context.mergeRequestNumber, publishMode: context.publishMode },
+        undefined,
+        deps.shadowLogGateway,
+        deps.now,
+      ),
+    )
+    return { posted: result.succeeded, failed: result.failed }
+  }
+}
+
 export interface RecoveryDeps {
   repositories: RecoveryRepository[]
   reviewContextGateway: ReviewContextGateway
@@ -0,0 +1,29 @@
+import { loadProjectConfig } from '@/config/projectConfig.js';
+import type { JobDeferralResolver } from '@/frameworks/queue/pQueueAdapter.js';
+import { nextReviewWindowOpening } from '@/modules/review-execution/entities/reviewWindow/reviewWindow.js';
+import type { ReviewSchedule } from '@/modules/review-execution/entities/reviewWindow/reviewWindow.schema.js';
+
+/**
+ * Review windows of a project: its own `schedule`, else the server-wide one.
+ * An unreadable project config falls back to the server-wide schedule too.
+ */
+export function loadReviewSchedule(
+  localPath: string,
+  globalSchedule: ReviewSchedule | undefined,
+): ReviewSchedule | undefined {
+  try {
+    return loadProjectConfig(localPath)?.schedule ?? globalSchedule;
+  } catch {
+    return globalSchedule;
+  }
+}
+
+/** Holds each job until the next opening of its project's review windows. */
+export function createJobDeferralResolver(getGlobalSchedule: () => ReviewSchedule | undefined): JobDeferralResolver {
+  return (job, now) => {
+    const schedule = loadReviewSchedule(job.localPath, getGlobalSchedule());
+    if (!schedule) return null;
+    const opening = nextReviewWindowOpening(schedule, now);
+    return opening !== null && opening.getTime() > now.getTime() ? opening : null;
+  };
+}
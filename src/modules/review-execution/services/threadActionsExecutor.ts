@@ -2,9 +2,11 @@ import { execSync } from 'node:child_process'
 import type { ReviewAction } from '@/modules/review-execution/entities/reviewAction/reviewAction.js'
 import { GitLabReviewActionCliGateway } from '@/modules/review-execution/interface-adapters/gateways/cli/reviewAction.gitlab.cli.gateway.js'
 import { GitHubReviewActionCliGateway } from '@/modules/review-execution/interface-adapters/gateways/cli/reviewAction.github.cli.gateway.js'
+import { BitbucketReviewActionCliGateway } from '@/modules/review-execution/interface-adapters/gateways/cli/reviewAction.bitbucket.cli.gateway.js'
+import { GiteaReviewActionCliGateway } from '@/modules/review-execution/interface-adapters/gateways/cli/reviewAction.gitea.cli.gateway.js'
 import type { ExecutionResult, CommandExecutor, ExecutionContext as GatewayExecutionContext } from '@/modules/review-execution/entities/reviewAction/reviewAction.gateway.js'
 import type { NoteCommentPostGateway } from '@/modules/platform-integration/entities/noteComment/noteCommentPost.gateway.js'
-import { executePublicOutput, isPublicOutputAction } from '@/modules/review-execution/services/publicOutputExecutor.js'
+import { executePublicOutput, isPublicOutputAction, recordShadowOutput, type ShadowOutput } from '@/modules/review-execution/services/publicOutputExecutor.js'
 import { filterAutoExecutorActions } from '@/modules/platform-integration/services/autoExecutorActionFilter.js'
 
 const COMMAND_TIMEOUT_MS = 30000
@@ -15,7 +17,7 @@ const COMMAND_TIMEOUT_MS = 30000
 export type ThreadAction = ReviewAction
 
 export interface ExecutionContext {
-  platform: 'gitlab' | 'github'
+  platform: 'gitlab' | 'github' | 'bitbucket' | 'gitea'
   projectPath: string
   mrNumber: number
   localPath: string
@@ -32,6 +34,28 @@ export interface ExecuteThreadActionsOptions {
    * the auto-path read+postComment gate.
    */
   skipAutoCapabilityFilter?: boolean
+  /** Record the actions in the shadow log instead of posting them. */
+  shadow?: ShadowOutput | null
+}
+
+export function createReviewActionGateway(
+  platform: ExecutionContext['platform'],
+  executor: CommandExecutor
+):
+  | GitLabReviewActionCliGateway
+  | GitHubReviewActionCliGateway
+  | BitbucketReviewActionCliGateway
+  | GiteaReviewActionCliGateway {
+  switch (platform) {
+    case 'gitlab':
+      return new GitLabReviewActionCliGateway(executor)
+    case 'github':
+      return new GitHubReviewActionCliGateway(executor)
+    case 'bitbucket':
+      return new BitbucketReviewActionCliGateway(executor)
+    case 'gitea':
+      return new GiteaReviewActionCliGateway(executor)
+  }
 }
 
 interface Logger {
@@ -72,10 +96,15 @@ export async function executeThreadActions(
     effectiveActions = allowed
   }
 
-  const gateway =
-    context.platform === 'gitlab'
-      ? new GitLabReviewActionCliGateway(executor)
-      : new GitHubReviewActionCliGateway(executor)
+  if (options.shadow) {
+    return recordShadowOutput(
+      effectiveActions,
+      { platform: context.platform, projectPath: context.projectPath, mrNumber: context.mrNumber },
+      options.shadow
+    )
+  }
+
+  const gateway = createReviewActionGateway(context.platform, executor)
 
   if (postGateway === null) {
     return gateway.execute(effectiveActions, gatewayContext)
@@ -0,0 +1,14 @@
+import type { PendingPublicationGateway } from '@/modules/review-execution/entities/pendingPublication/pendingPublication.gateway.js';
+import type { PendingPublication } from '@/modules/review-execution/entities/pendingPublication/pendingPublication.schema.js';
+
+export interface GetPendingPublicationDependencies {
+  pendingPublicationGateway: PendingPublicationGateway;
+}
+
+export class GetPendingPublicationUseCase {
+  constructor(private readonly deps: GetPendingPublicationDependencies) {}
+
+  async execute(input: { mergeRequestId: string }): Promise<PendingPublication | null> {
+    return this.deps.pendingPublicationGateway.load(input.mergeRequestId);
+  }
+}
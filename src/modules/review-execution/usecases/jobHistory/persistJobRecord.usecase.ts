@@ -60,6 +60,7 @@ function buildRecord(input: PersistJobRecordInput): JobRecord {
     durationMs,
     status,
     exitReason,
+    ...(jobStatus.attempts !== undefined ? { attempts: jobStatus.attempts } : {}),
   };
 }
 
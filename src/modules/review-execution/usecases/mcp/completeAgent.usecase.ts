@@ -11,6 +11,8 @@ export type CompleteAgentResult =
 			status: AgentStatus;
 			completedAt: Date;
 			overallProgress: number;
+			durationMs?: number;
+			tokens?: number;
 			error?: string;
 	  }
 	| { success: false; error: string };
@@ -25,10 +27,11 @@ export function completeAgent(
 	status: AgentCompletionStatus,
 	error: string | undefined,
 	deps: CompleteAgentDependencies,
+	tokens?: number,
 ): CompleteAgentResult {
 	const { progressGateway } = deps;
 
-	const progress = progressGateway.completeAgent(jobId, agentName, status, error);
+	const progress = progressGateway.completeAgent(jobId, agentName, status, error, tokens);
 
 	if (!progress) {
 		return {
@@ -45,6 +48,8 @@ export function completeAgent(
 		status: agent?.status ?? "completed",
 		completedAt: agent?.completedAt ?? new Date(),
 		overallProgress: progress.overallProgress,
+		durationMs: agent?.durationMs,
+		tokens: agent?.tokens,
 		error: agent?.error,
 	};
 }
@@ -0,0 +1,39 @@
+import type { ChangedFile, DiffRange } from "../../entities/reviewDiff/reviewDiff.js";
+import {
+	resolveReviewDiffRange,
+	type ReviewDiffRangeDependencies,
+} from "../../services/reviewDiffRange.js";
+
+export type GetChangedFilesResult =
+	| { success: true; range: DiffRange; files: ChangedFile[]; additions: number; deletions: number }
+	| { success: false; error: string };
+
+export type GetChangedFilesDependencies = ReviewDiffRangeDependencies;
+
+export async function getChangedFiles(
+	jobId: string,
+	deps: GetChangedFilesDependencies,
+): Promise<GetChangedFilesResult> {
+	const resolved = await resolveReviewDiffRange(jobId, deps);
+	if (!resolved.success) {
+		return resolved;
+	}
+
+	let files: ChangedFile[];
+	try {
+		files = await deps.reviewDiffGateway.listChangedFiles(resolved.cwd, resolved.range);
+	} catch (error) {
+		return {
+			success: false,
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+
+	return {
+		success: true,
+		range: resolved.range,
+		files,
+		additions: files.reduce((sum, file) => sum + (file.additions ?? 0), 0),
+		deletions: files.reduce((sum, file) => sum + (file.deletions ?? 0), 0),
+	};
+}
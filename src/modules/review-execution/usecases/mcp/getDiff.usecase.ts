@@ -0,0 +1,67 @@
+import {
+	type DiffRange,
+	type FileDiff,
+	type Page,
+	paginate,
+} from "../../entities/reviewDiff/reviewDiff.js";
+import {
+	resolveReviewDiffRange,
+	type ReviewDiffRangeDependencies,
+} from "../../services/reviewDiffRange.js";
+
+export const DEFAULT_DIFF_PAGE_SIZE = 10;
+export const MAX_DIFF_PAGE_SIZE = 50;
+
+export interface GetDiffInput {
+	/** Restricts the diff to these files, every changed file when empty. */
+	paths: string[];
+	page: number;
+	pageSize: number;
+}
+
+export type GetDiffResult =
+	| ({ success: true; range: DiffRange } & Page<FileDiff>)
+	| { success: false; error: string };
+
+export type GetDiffDependencies = ReviewDiffRangeDependencies;
+
+export async function getDiff(
+	jobId: string,
+	input: GetDiffInput,
+	deps: GetDiffDependencies,
+): Promise<GetDiffResult> {
+	if (!Number.isInteger(input.page) || input.page < 1) {
+		return {
+			success: false,
+			error: "page must be an integer >= 1",
+		};
+	}
+
+	if (!Number.isInteger(input.pageSize) || input.pageSize < 1 || input.pageSize > MAX_DIFF_PAGE_SIZE) {
+		return {
+			success: false,
+			error: `pageSize must be an integer between 1 and ${MAX_DIFF_PAGE_SIZE}`,
+		};
+	}
+
+	const resolved = await resolveReviewDiffRange(jobId, deps);
+	if (!resolved.success) {
+		return resolved;
+	}
+
+	let files: FileDiff[];
+	try {
+		files = await deps.reviewDiffGateway.readFileDiffs(resolved.cwd, resolved.range, input.paths);
+	} catch (error) {
+		return {
+			success: false,
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+
+	return {
+		success: true,
+		range: resolved.range,
+		...paginate(files, input.page, input.pageSize),
+	};
+}
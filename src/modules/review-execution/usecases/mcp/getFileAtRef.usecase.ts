@@ -0,0 +1,109 @@
+import {
+	resolveReviewDiffRange,
+	type ReviewDiffRangeDependencies,
+} from "../../services/reviewDiffRange.js";
+
+export const MAX_FILE_LINES = 2000;
+
+export type FileRef = "base" | "head";
+
+export interface GetFileAtRefInput {
+	path: string;
+	ref: FileRef;
+	/** 1-based and inclusive, the whole file when omitted. */
+	startLine: number | null;
+	endLine: number | null;
+}
+
+export type GetFileAtRefResult =
+	| {
+			success: true;
+			path: string;
+			ref: FileRef;
+			sha: string;
+			exists: boolean;
+			content: string | null;
+			startLine: number | null;
+			endLine: number | null;
+			totalLines: number | null;
+			truncated: boolean;
+	  }
+	| { success: false; error: string };
+
+export type GetFileAtRefDependencies = ReviewDiffRangeDependencies;
+
+export async function getFileAtRef(
+	jobId: string,
+	input: GetFileAtRefInput,
+	deps: GetFileAtRefDependencies,
+): Promise<GetFileAtRefResult> {
+	if (!input.path) {
+		return {
+			success: false,
+			error: "path required",
+		};
+	}
+
+	if ((input.startLine !== null && input.startLine < 1) || (input.endLine !== null && input.endLine < 1)) {
+		return {
+			success: false,
+			error: "startLine and endLine must be > 0",
+		};
+	}
+
+	if (input.startLine !== null && input.endLine !== null && input.endLine < input.startLine) {
+		return {
+			success: false,
+			error: "endLine must be >= startLine",
+		};
+	}
+
+	const resolved = await resolveReviewDiffRange(jobId, deps);
+	if (!resolved.success) {
+		return resolved;
+	}
+
+	const sha = input.ref === "base" ? resolved.range.baseSha : resolved.range.headSha;
+	let content: string | null;
+	try {
+		content = await deps.reviewDiffGateway.readFileAtRef(resolved.cwd, sha, input.path);
+	} catch (error) {
+		return {
+			success: false,
+			error: error instanceof Error ? error.message : String(error),
+		};
+	}
+
+	if (content === null) {
+		return {
+			success: true,
+			path: input.path,
+			ref: input.ref,
+			sha,
+			exists: false,
+			content: null,
+			startLine: null,
+			endLine: null,
+			totalLines: null,
+			truncated: false,
+		};
+	}
+
+	const lines = content.endsWith("\n") ? content.slice(0, -1).split("\n") : content.split("\n");
+	const startLine = Math.min(input.startLine ?? 1, lines.length);
+	const requestedEnd = Math.min(input.endLine ?? lines.length, lines.length);
+	const endLine = Math.min(requestedEnd, startLine + MAX_FILE_LINES - 1);
+
+	return {
+		success: true,
+		path: input.path,
+		ref: input.ref,
+		sha,
+		exists: true,
+		content: lines.slice(startLine - 1, endLine).join("\n"),
+		startLine,
+		endLine,
+		totalLines: lines.length,
+		truncated: endLine < requestedEnd,
+	};
+}
@@ -0,0 +1,71 @@
+import type { JobContextGateway } from "../../entities/job/jobContext.gateway.js";
+import type { ReviewContext } from "../../entities/reviewContext/reviewContext.js";
+import type { ReviewContextGateway } from "../../entities/reviewContext/reviewContext.gateway.js";
+import type {
+	MergeRequestMetadata,
+	MergeRequestMetadataFetchGateway,
+} from "@/modules/platform-integration/entities/mergeRequestMetadata/mergeRequestMetadata.gateway.js";
+
+export type GetMrMetadataResult =
+	| ({
+			success: true;
+			platform: ReviewContext["platform"];
+			projectPath: string;
+			mergeRequestNumber: number;
+	  } & MergeRequestMetadata)
+	| { success: false; error: string };
+
+export interface GetMrMetadataDependencies {
+	jobContextGateway: JobContextGateway;
+	reviewContextGateway: ReviewContextGateway;
+	mergeRequestMetadataFetchGatewayFactory: (
+		platform: ReviewContext["platform"],
+	) => MergeRequestMetadataFetchGateway;
+}
+
+export function getMrMetadata(
+	jobId: string,
+	deps: GetMrMetadataDependencies,
+): GetMrMetadataResult {
+	const { jobContextGateway, reviewContextGateway } = deps;
+
+	const jobContext = jobContextGateway.get(jobId);
+	if (!jobContext) {
+		return {
+			success: false,
+			error: `Job context not found: ${jobId}`,
+		};
+	}
+
+	const reviewContext = reviewContextGateway.read(
+		jobContext.localPath,
+		jobContext.mergeRequestId,
+	);
+
+	if (!reviewContext) {
+		return {
+			success: false,
+			error: `Review context not found for job: ${jobId}`,
+		};
+	}
+
+	let metadata: MergeRequestMetadata;
+	try {
+		metadata = deps
+			.mergeRequestMetadataFetchGatewayFactory(reviewContext.platform)
+			.fetchMergeRequestMetadata(reviewContext.projectPath, reviewContext.mergeRequestNumber);
+	} catch (error) {
+		return {
+			success: false,
+			error: `Failed to fetch merge request metadata: ${error instanceof Error ? error.message : String(error)}`,
+		};
+	}
+
+	return {
+		success: true,
+		platform: reviewContext.platform,
+		projectPath: reviewContext.projectPath,
+		mergeRequestNumber: reviewContext.mergeRequestNumber,
+		...metadata,
+	};
+}
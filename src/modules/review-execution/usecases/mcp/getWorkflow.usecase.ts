@@ -1,3 +1,5 @@
+import type { AgentDispatch } from "../../entities/progress/agentDefinition.type.js";
+import type { SkippedAgent } from "../../entities/progress/agentSelection.js";
 import type { ReviewProgressGateway } from "../../entities/progress/progress.gateway.js";
 import type { ReviewPhase } from "../../entities/progress/progress.type.js";
 
@@ -5,6 +7,8 @@ export interface WorkflowAgent {
 	name: string;
 	displayName: string;
 	status: string;
+	/** How the skill runs the agent, set in the project config. */
+	dispatch?: AgentDispatch;
 }
 
 export interface WorkflowCurrentState {
@@ -14,6 +18,8 @@ export interface WorkflowCurrentState {
 
 export interface Workflow {
 	agents: WorkflowAgent[];
+	/** Agents left out of the review, with the reason, so the skill does not run them. */
+	skippedAgents?: SkippedAgent[];
 	instructions: string;
 	currentState: WorkflowCurrentState;
 }
@@ -34,7 +40,8 @@ const MCP_INSTRUCTIONS = `## MCP Review Workflow Instructions
 4. Use post_comment(body) to post review comments
 5. Use resolve_thread(threadId) to mark threads as resolved
 
-Always process agents in the order provided.`;
+Always process agents in the order provided. Do not run the agents listed in
+skippedAgents: no changed file concerns them.`;
 
 export function getWorkflow(
 	jobId: string,
@@ -56,7 +63,9 @@ export function getWorkflow(
 			name: agent.name,
 			displayName: agent.displayName,
 			status: agent.status,
+			...(agent.dispatch && { dispatch: agent.dispatch }),
 		})),
+		...(progress.skippedAgents && { skippedAgents: progress.skippedAgents }),
 		instructions: MCP_INSTRUCTIONS,
 		currentState: {
 			phase: progress.currentPhase,
@@ -0,0 +1,127 @@
+import type { JobContextGateway } from "../../entities/job/jobContext.gateway.js";
+import type { ReviewContextGateway } from "../../entities/reviewContext/reviewContext.gateway.js";
+import {
+	findingAnchorLine,
+	formatFindingComment,
+} from "@/modules/review-execution/entities/reviewFinding/reviewFinding.js";
+import type {
+	FindingSeverity,
+	ReviewFinding,
+} from "@/modules/review-execution/entities/reviewFinding/reviewFinding.schema.js";
+
+export interface FindingInput {
+	severity: FindingSeverity;
+	agent: string;
+	title: string;
+	body: string;
+	filePath: string | null;
+	startLine: number | null;
+	endLine: number | null;
+	suggestedPatch: string | null;
+	confidence: number;
+}
+
+export type ReportFindingResult =
+	| { success: true; findingId: string; inlineComment: boolean }
+	| { success: false; error: string };
+
+export interface ReportFindingDependencies {
+	jobContextGateway: JobContextGateway;
+	reviewContextGateway: ReviewContextGateway;
+}
+
+function generateFindingId(): string {
+	return `finding-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+function isPositiveLine(line: number | null): boolean {
+	return line === null || (Number.isInteger(line) && line > 0);
+}
+
+function validateFinding(finding: FindingInput): string | null {
+	if (!finding.agent) {
+		return "agent required";
+	}
+	if (!finding.title) {
+		return "title required";
+	}
+	if (!(finding.confidence >= 0 && finding.confidence <= 1)) {
+		return "confidence must be between 0 and 1";
+	}
+	if (!isPositiveLine(finding.startLine) || !isPositiveLine(finding.endLine)) {
+		return "startLine and endLine must be > 0";
+	}
+	if (finding.startLine !== null && finding.endLine !== null && finding.endLine < finding.startLine) {
+		return "endLine must be >= startLine";
+	}
+	if (!finding.filePath && (finding.startLine !== null || finding.endLine !== null)) {
+		return "filePath required when a line range is given";
+	}
+	return null;
+}
+
+/**
+ * Records a finding in the review context. A finding anchored to a line also
+ * queues the inline comment that publishes it, so the agent does not add it
+ * again through `add_action`.
+ */
+export function reportFinding(
+	jobId: string,
+	input: FindingInput,
+	deps: ReportFindingDependencies,
+): ReportFindingResult {
+	const { jobContextGateway, reviewContextGateway } = deps;
+
+	const validationError = validateFinding(input);
+	if (validationError) {
+		return {
+			success: false,
+			error: validationError,
+		};
+	}
+
+	const jobContext = jobContextGateway.get(jobId);
+	if (!jobContext) {
+		return {
+			success: false,
+			error: `Job context not found: ${jobId}`,
+		};
+	}
+
+	const finding: ReviewFinding = {
+		id: generateFindingId(),
+		...input,
+		reportedAt: new Date().toISOString(),
+	};
+
+	const result = reviewContextGateway.appendFinding(
+		jobContext.localPath,
+		jobContext.mergeRequestId,
+		finding,
+	);
+	if (!result.success) {
+		return {
+			success: false,
+			error: "Failed to append finding to review context",
+		};
+	}
+
+	const line = findingAnchorLine(finding);
+	let inlineComment = false;
+	if (finding.filePath !== null && line !== null) {
+		reviewContextGateway.appendAction(jobContext.localPath, jobContext.mergeRequestId, {
+			type: "POST_INLINE_COMMENT",
+			filePath: finding.filePath,
+			line,
+			body: formatFindingComment(finding),
+			findingId: finding.id,
+		});
+		inlineComment = true;
+	}
+
+	return {
+		success: true,
+		findingId: finding.id,
+		inlineComment,
+	};
+}
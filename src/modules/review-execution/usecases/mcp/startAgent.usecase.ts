@@ -1,7 +1,8 @@
+import type { AgentDispatch } from "../../entities/progress/agentDefinition.type.js";
 import type { ReviewProgressGateway } from "../../entities/progress/progress.gateway.js";
 
 export type StartAgentResult =
-	| { success: true; agentName: string; startedAt: Date; overallProgress: number }
+	| { success: true; agentName: string; startedAt: Date; overallProgress: number; dispatch?: AgentDispatch }
 	| { success: false; error: string };
 
 export interface StartAgentDependencies {
@@ -31,5 +32,6 @@ export function startAgent(
 		agentName,
 		startedAt: agent?.startedAt ?? new Date(),
 		overallProgress: progress.overallProgress,
+		...(agent?.dispatch && { dispatch: agent.dispatch }),
 	};
 }
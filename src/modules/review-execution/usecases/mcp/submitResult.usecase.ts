@@ -0,0 +1,57 @@
+import type { JobContextGateway } from "../../entities/job/jobContext.gateway.js";
+import type { ReviewContextGateway } from "../../entities/reviewContext/reviewContext.gateway.js";
+import type { SubmittedReviewResult } from "@/modules/review-execution/entities/reviewFinding/reviewFinding.schema.js";
+
+export type SubmitResultResult =
+	| { success: true; score: number; verdict: SubmittedReviewResult["verdict"]; findings: number }
+	| { success: false; error: string };
+
+export interface SubmitResultDependencies {
+	jobContextGateway: JobContextGateway;
+	reviewContextGateway: ReviewContextGateway;
+}
+
+export function submitResult(
+	jobId: string,
+	score: number,
+	verdict: SubmittedReviewResult["verdict"],
+	deps: SubmitResultDependencies,
+): SubmitResultResult {
+	const { jobContextGateway, reviewContextGateway } = deps;
+
+	if (!(score >= 0 && score <= 10)) {
+		return {
+			success: false,
+			error: "score must be between 0 and 10",
+		};
+	}
+
+	const jobContext = jobContextGateway.get(jobId);
+	if (!jobContext) {
+		return {
+			success: false,
+			error: `Job context not found: ${jobId}`,
+		};
+	}
+
+	const result = reviewContextGateway.submitResult(jobContext.localPath, jobContext.mergeRequestId, {
+		score,
+		verdict,
+		submittedAt: new Date().toISOString(),
+	});
+	if (!result.success) {
+		return {
+			success: false,
+			error: "Failed to store result in review context",
+		};
+	}
+
+	const context = reviewContextGateway.read(jobContext.localPath, jobContext.mergeRequestId);
+
+	return {
+		success: true,
+		score,
+		verdict,
+		findings: context?.findings?.length ?? 0,
+	};
+}
@@ -0,0 +1,76 @@
+import type { Logger } from 'pino';
+import type { PendingPublicationGateway } from '@/modules/review-execution/entities/pendingPublication/pendingPublication.gateway.js';
+import { toPendingPublicationItems } from '@/modules/review-execution/entities/pendingPublication/pendingPublication.js';
+import type {
+  LinkedComment,
+  PendingPublication,
+} from '@/modules/review-execution/entities/pendingPublication/pendingPublication.schema.js';
+import type { ReviewContext } from '@/modules/review-execution/entities/reviewContext/reviewContext.js';
+
+export interface ParkReviewPublicationDependencies {
+  pendingPublicationGateway: PendingPublicationGateway;
+  isEnabled: (localPath: string) => boolean;
+  now: () => string;
+  logger: Logger;
+}
+
+export interface ParkReviewPublicationInput {
+  context: Pick<
+    ReviewContext,
+    'mergeRequestId' | 'platform' | 'projectPath' | 'mergeRequestNumber' | 'diffMetadata' | 'actions'
+  >;
+  localPath: string;
+  jobType: PendingPublication['jobType'];
+  baseUrl: string | null;
+  verdict?: PendingPublication['verdict'];
+  linkedComments?: LinkedComment[];
+}
+
+export type ParkReviewPublicationResult =
+  | { status: 'parked'; itemCount: number }
+  | { status: 'disabled' }
+  | { status: 'nothing-to-review' };
+
+/**
+ * Holds the comments of a finished review until a maintainer approves them,
+ * when the project sets `reviewBeforePublish`. Anything else lets the caller
+ * publish right away.
+ */
+export class ParkReviewPublicationUseCase {
+  constructor(private readonly deps: ParkReviewPublicationDependencies) {}
+
+  async execute(input: ParkReviewPublicationInput): Promise<ParkReviewPublicationResult> {
+    const { pendingPublicationGateway, isEnabled, now, logger } = this.deps;
+    const { context } = input;
+
+    if (!isEnabled(input.localPath)) {
+      return { status: 'disabled' };
+    }
+
+    const items = toPendingPublicationItems(context.actions);
+    const linkedComments = input.linkedComments ?? [];
+    if (items.length === 0 && linkedComments.length === 0) {
+      return { status: 'nothing-to-review' };
+    }
+
+    await pendingPublicationGateway.save({
+      mergeRequestId: context.mergeRequestId,
+      localPath: input.localPath,
+      platform: context.platform,
+      projectPath: context.projectPath,
+      mergeRequestNumber: context.mergeRequestNumber,
+      jobType: input.jobType,
+      parkedAt: now(),
+      baseUrl: input.baseUrl,
+      verdict: input.verdict,
+      diffMetadata: context.diffMetadata,
+      items,
+      ...(linkedComments.length > 0 ? { linkedComments } : {}),
+    });
+    logger.info(
+      { mergeRequestId: context.mergeRequestId, itemCount: items.length },
+      'Review comments parked for approval before publishing',
+    );
+    return { status: 'parked', itemCount: items.length };
+  }
+}
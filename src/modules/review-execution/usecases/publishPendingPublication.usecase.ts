@@ -0,0 +1,107 @@
+import type { Logger } from 'pino';
+import type { PendingPublicationGateway } from '@/modules/review-execution/entities/pendingPublication/pendingPublication.gateway.js';
+import {
+  toPublicationContext,
+  undecidedItemCount,
+} from '@/modules/review-execution/entities/pendingPublication/pendingPublication.js';
+import type {
+  PendingPublication,
+  PendingPublicationItem,
+} from '@/modules/review-execution/entities/pendingPublication/pendingPublication.schema.js';
+import type { ReviewAction } from '@/modules/review-execution/entities/reviewAction/reviewAction.js';
+import type { ExecutionResult } from '@/modules/review-execution/entities/reviewAction/reviewAction.gateway.js';
+import type { ReviewContext } from '@/modules/review-execution/entities/reviewContext/reviewContext.js';
+
+export type ExecutePublicationActions = (
+  context: ReviewContext,
+  publication: PendingPublication,
+) => Promise<ExecutionResult>;
+
+export interface PublishPendingPublicationDependencies {
+  pendingPublicationGateway: PendingPublicationGateway;
+  // Bound to the platform gateways of the webhook processors, which publish
+  // the same actions when no approval is required.
+  executeActions: ExecutePublicationActions;
+  // Posts the cross-repository section on the linked merge requests.
+  postLinkedComments: (publication: PendingPublication) => Promise<number>;
+  logger: Logger;
+}
+
+export type PublishPendingPublicationResult =
+  | { status: 'published'; result: ExecutionResult }
+  | { status: 'not-found' }
+  | { status: 'undecided'; pendingCount: number }
+  | { status: 'publishing' };
+
+/**
+ * Publishes the approved comments once every parked comment has a decision,
+ * then discards the pending publication. Dropped comments are never posted;
+ * the comments for linked merge requests go out with the approved ones.
+ *
+ * The publication is claimed before anything is posted, so a second publish
+ * of the same merge request cannot post the comments twice. Comments the
+ * platform rejected stay parked, approved, for another attempt.
+ */
+export class PublishPendingPublicationUseCase {
+  constructor(private readonly deps: PublishPendingPublicationDependencies) {}
+
+  async execute(input: { mergeRequestId: string }): Promise<PublishPendingPublicationResult> {
+    const { pendingPublicationGateway, logger } = this.deps;
+
+    const parked = await pendingPublicationGateway.load(input.mergeRequestId);
+    if (!parked) {
+      return (await pendingPublicationGateway.isClaimed(input.mergeRequestId))
+        ? { status: 'publishing' }
+        : { status: 'not-found' };
+    }
+
+    const pendingCount = undecidedItemCount(parked);
+    if (pendingCount > 0) {
+      return { status: 'undecided', pendingCount };
+    }
+
+    const publication = await pendingPublicationGateway.claim(input.mergeRequestId);
+    if (!publication) {
+      return { status: 'publishing' };
+    }
+
+    let result: ExecutionResult;
+    try {
+      result = await this.publish(publication);
+    } catch (error) {
+      await pendingPublicationGateway.save(publication);
+      await pendingPublicationGateway.releaseClaim(input.mergeRequestId);
+      throw error;
+    }
+
+    const failedItems = itemsOfActions(publication, result.failedActions ?? []);
+    if (failedItems.length > 0) {
+      await pendingPublicationGateway.save({ ...publication, items: failedItems, linkedComments: undefined });
+    }
+    await pendingPublicationGateway.releaseClaim(input.mergeRequestId);
+    const { failedActions: _failedActions, ...counts } = result;
+    logger.info(
+      { mergeRequestId: input.mergeRequestId, ...counts, parkedCount: failedItems.length },
+      'Approved review comments published',
+    );
+    return { status: 'published', result };
+  }
+
+  private async publish(publication: PendingPublication): Promise<ExecutionResult> {
+    const { executeActions, postLinkedComments } = this.deps;
+
+    const context = toPublicationContext(publication);
+    if (context.actions.length === 0) {
+      return { total: 0, succeeded: 0, failed: 0, skipped: 0 };
+    }
+    const result = await executeActions(context, publication);
+    if (publication.linkedComments && publication.linkedComments.length > 0) {
+      await postLinkedComments(publication);
+    }
+    return result;
+  }
+}
+
+function itemsOfActions(publication: PendingPublication, actions: ReviewAction[]): PendingPublicationItem[] {
+  return publication.items.filter((item) => actions.includes(item.action));
+}
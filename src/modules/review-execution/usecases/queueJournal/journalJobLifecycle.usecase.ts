@@ -0,0 +1,48 @@
+import type { JobLifecycleEvent, JobStatus } from '@/frameworks/queue/pQueueAdapter.js';
+import type { QueueJournalGateway } from '@/modules/review-execution/entities/queueJournal/queueJournal.gateway.js';
+
+export interface JournalJobLifecycleDependencies {
+  queueJournalGateway: QueueJournalGateway;
+  now: () => Date;
+}
+
+/**
+ * Writes the queue lifecycle to the journal. Once the last open job finishes
+ * the journal is emptied instead, so it never grows past the current backlog.
+ * A superseded job shares its id with its replacement: jobs are counted per id,
+ * and the end of the stale one is not journaled, since the replacement,
+ * enqueued after it, already stands for that id.
+ */
+export class JournalJobLifecycleUseCase {
+  private readonly openJobCounts = new Map<string, number>();
+
+  constructor(private readonly deps: JournalJobLifecycleDependencies) {}
+
+  execute(event: JobLifecycleEvent, jobStatus: JobStatus): void {
+    const { queueJournalGateway, now } = this.deps;
+    const { job } = jobStatus;
+    const at = now().toISOString();
+
+    if (event === 'queued') {
+      this.openJobCounts.set(job.id, (this.openJobCounts.get(job.id) ?? 0) + 1);
+      queueJournalGateway.append({ type: 'enqueued', job, at });
+      return;
+    }
+    if (event === 'running') {
+      queueJournalGateway.append({ type: 'started', jobId: job.id, at });
+      return;
+    }
+
+    const stillOpen = (this.openJobCounts.get(job.id) ?? 1) - 1;
+    if (stillOpen > 0) {
+      this.openJobCounts.set(job.id, stillOpen);
+      return;
+    }
+    this.openJobCounts.delete(job.id);
+    if (this.openJobCounts.size === 0) {
+      queueJournalGateway.replaceAll([]);
+    } else {
+      queueJournalGateway.append({ type: 'finished', jobId: job.id, at });
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import type { Logger } from 'pino';
+import type { ReviewJob } from '@/frameworks/queue/pQueueAdapter.js';
+import type { QueueJournalGateway } from '@/modules/review-execution/entities/queueJournal/queueJournal.gateway.js';
+import { findUnfinishedJobs } from '@/modules/review-execution/entities/queueJournal/queueJournal.js';
+import type {
+  EnqueueReviewFunction,
+  GateClaudeInvocationProcessor,
+} from '@/modules/review-execution/usecases/gateClaudeInvocation.usecase.js';
+
+export interface ResumeQueuedJobsDependencies {
+  queueJournalGateway: QueueJournalGateway;
+  resolveProcessor: (job: ReviewJob) => GateClaudeInvocationProcessor | null;
+  enqueue: EnqueueReviewFunction;
+  logger: Logger;
+}
+
+export interface QueueResumeSummary {
+  resumed: Array<{ jobId: string; interrupted: boolean }>;
+  dropped: Array<{ jobId: string; reason: 'no-processor' | 'refused' }>;
+}
+
+/**
+ * Replays the queue journal at boot: every job queued or running when the
+ * daemon stopped is enqueued again, interrupted runs start over. The journal is
+ * emptied first, the new enqueues journal themselves.
+ */
+export class ResumeQueuedJobsUseCase {
+  constructor(private readonly deps: ResumeQueuedJobsDependencies) {}
+
+  async execute(): Promise<QueueResumeSummary> {
+    const { queueJournalGateway, resolveProcessor, enqueue, logger } = this.deps;
+    const unfinished = findUnfinishedJobs(queueJournalGateway.readAll());
+    queueJournalGateway.replaceAll([]);
+
+    const summary: QueueResumeSummary = { resumed: [], dropped: [] };
+    for (const { job, interrupted } of unfinished) {
+      const processor = resolveProcessor(job);
+      if (!processor) {
+        logger.warn({ jobId: job.id, platform: job.platform }, 'No processor to resume journaled job, dropped');
+        summary.dropped.push({ jobId: job.id, reason: 'no-processor' });
+        continue;
+      }
+
+      const enqueued = await enqueue({ ...job, resumedFrom: interrupted ? 'running' : 'queued' }, processor);
+      if (enqueued) {
+        summary.resumed.push({ jobId: job.id, interrupted });
+      } else {
+        summary.dropped.push({ jobId: job.id, reason: 'refused' });
+      }
+    }
+    return summary;
+  }
+}
@@ -0,0 +1,41 @@
+import type { Logger } from 'pino';
+
+export type SetJobPriorityResult =
+  | { status: 'updated'; jobId: string; priority: number }
+  | { status: 'not-found'; jobId: string }
+  | { status: 'not-queued'; jobId: string };
+
+export interface SetJobPriorityQueuePort {
+  getJobStatus(jobId: string): 'queued' | 'running' | 'completed' | 'failed' | null;
+  setJobPriority(jobId: string, priority: number): boolean;
+}
+
+export interface SetJobPriorityDependencies {
+  queuePort: SetJobPriorityQueuePort;
+  logger: Logger;
+}
+
+/**
+ * Manually moves a queued job. Running and finished jobs cannot be reordered.
+ */
+export function setJobPriority(
+  jobId: string,
+  priority: number,
+  deps: SetJobPriorityDependencies
+): SetJobPriorityResult {
+  const { queuePort, logger } = deps;
+
+  const status = queuePort.getJobStatus(jobId);
+
+  if (status === null) {
+    logger.warn({ jobId }, 'Job not found for reprioritization');
+    return { status: 'not-found', jobId };
+  }
+
+  if (status !== 'queued' || !queuePort.setJobPriority(jobId, priority)) {
+    logger.info({ jobId, status }, 'Job no longer queued, priority unchanged');
+    return { status: 'not-queued', jobId };
+  }
+
+  return { status: 'updated', jobId, priority };
+}
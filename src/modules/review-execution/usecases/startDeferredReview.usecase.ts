@@ -0,0 +1,39 @@
+import type { Logger } from 'pino';
+
+export type StartDeferredReviewResult =
+  | { status: 'started'; jobId: string }
+  | { status: 'not-found'; jobId: string }
+  | { status: 'not-deferred'; jobId: string };
+
+export interface StartDeferredReviewQueuePort {
+  getJobStatus(jobId: string): 'queued' | 'running' | 'completed' | 'failed' | null;
+  startDeferredJob(jobId: string): boolean;
+}
+
+export interface StartDeferredReviewDependencies {
+  queuePort: StartDeferredReviewQueuePort;
+  logger: Logger;
+}
+
+/**
+ * Lets a job held outside the review windows run now. It still waits for a
+ * free slot like any queued job.
+ */
+export function startDeferredReview(
+  jobId: string,
+  deps: StartDeferredReviewDependencies
+): StartDeferredReviewResult {
+  const { queuePort, logger } = deps;
+
+  if (queuePort.getJobStatus(jobId) === null) {
+    logger.warn({ jobId }, 'Job not found for deferral override');
+    return { status: 'not-found', jobId };
+  }
+
+  if (!queuePort.startDeferredJob(jobId)) {
+    return { status: 'not-deferred', jobId };
+  }
+
+  logger.info({ jobId }, 'Deferred review started outside its review window');
+  return { status: 'started', jobId };
+}
@@ -0,0 +1,47 @@
+import type { Logger } from 'pino';
+import type { ReviewJob } from '@/frameworks/queue/pQueueAdapter.js';
+
+export type SupersedeReviewResult =
+  | { status: 'superseded'; job: ReviewJob }
+  | { status: 'not-running'; jobId: string }
+  | { status: 'up-to-date'; jobId: string };
+
+export interface SupersedeReviewQueuePort {
+  getRunningJob(jobId: string): ReviewJob | null;
+  supersedeJob(jobId: string): boolean;
+}
+
+export interface SupersedeReviewDependencies {
+  queuePort: SupersedeReviewQueuePort;
+  logger: Logger;
+}
+
+/**
+ * Cancels a running job made stale by a push of `headSha`. A job queued by that
+ * same push (a redelivered webhook) keeps running; a job whose head is unknown
+ * predates the push and is superseded.
+ */
+export function supersedeReview(
+  jobId: string,
+  headSha: string,
+  deps: SupersedeReviewDependencies
+): SupersedeReviewResult {
+  const { queuePort, logger } = deps;
+
+  const job = queuePort.getRunningJob(jobId);
+  if (job === null) {
+    return { status: 'not-running', jobId };
+  }
+
+  if (job.headSha === headSha) {
+    logger.info({ jobId, headSha }, 'Running job already reviews the pushed head');
+    return { status: 'up-to-date', jobId };
+  }
+
+  if (!queuePort.supersedeJob(jobId)) {
+    return { status: 'not-running', jobId };
+  }
+
+  logger.info({ jobId, previousHeadSha: job.headSha, headSha }, 'Running review superseded by a new push');
+  return { status: 'superseded', job };
+}
@@ -0,0 +1,52 @@
+import type { Logger } from 'pino';
+import type { PendingPublicationGateway } from '@/modules/review-execution/entities/pendingPublication/pendingPublication.gateway.js';
+import { updatePendingPublicationItem } from '@/modules/review-execution/entities/pendingPublication/pendingPublication.js';
+import type {
+  PendingPublication,
+  PublicationDecision,
+} from '@/modules/review-execution/entities/pendingPublication/pendingPublication.schema.js';
+
+export interface UpdatePendingPublicationDependencies {
+  pendingPublicationGateway: PendingPublicationGateway;
+  logger: Logger;
+}
+
+export interface UpdatePendingPublicationInput {
+  mergeRequestId: string;
+  itemId: string;
+  decision?: PublicationDecision;
+  text?: string;
+}
+
+export type UpdatePendingPublicationResult =
+  | { status: 'updated'; publication: PendingPublication }
+  | { status: 'not-found' }
+  | { status: 'item-not-found' };
+
+/** Edits, approves or drops one parked comment. */
+export class UpdatePendingPublicationUseCase {
+  constructor(private readonly deps: UpdatePendingPublicationDependencies) {}
+
+  async execute(input: UpdatePendingPublicationInput): Promise<UpdatePendingPublicationResult> {
+    const { pendingPublicationGateway, logger } = this.deps;
+
+    const publication = await pendingPublicationGateway.load(input.mergeRequestId);
+    if (!publication) {
+      return { status: 'not-found' };
+    }
+    if (!publication.items.some((item) => item.itemId === input.itemId)) {
+      return { status: 'item-not-found' };
+    }
+
+    const updated = updatePendingPublicationItem(publication, input.itemId, {
+      decision: input.decision,
+      text: input.text,
+    });
+    await pendingPublicationGateway.save(updated);
+    logger.info(
+      { mergeRequestId: input.mergeRequestId, itemId: input.itemId, decision: input.decision, edited: input.text !== undefined },
+      'Pending publication item updated',
+    );
+    return { status: 'updated', publication: updated };
+  }
+}
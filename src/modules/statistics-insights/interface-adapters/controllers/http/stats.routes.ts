@@ -16,7 +16,12 @@ interface RepositoryInfo {
 interface StatsRoutesOptions {
   statsGateway: StatsGateway;
   getRepositories: () => RepositoryInfo[];
-  diffStatsFetchGateways?: { gitlab: DiffStatsFetchGateway; github: DiffStatsFetchGateway };
+  diffStatsFetchGateways?: {
+    gitlab: DiffStatsFetchGateway;
+    github: DiffStatsFetchGateway;
+    bitbucket: DiffStatsFetchGateway;
+    gitea: DiffStatsFetchGateway;
+  };
   broadcastBackfillProgress?: (progress: BackfillProgress) => void;
   logger?: { warn: (message: string, data?: unknown) => void; info: (message: string, data?: unknown) => void; error: (message: string, data?: unknown) => void };
 }
@@ -0,0 +1,86 @@
+import type { DiffStats } from '@/modules/shared-kernel/entities/diffStats/diffStats.js';
+import type { DiffStatsFetchGateway } from '@/modules/shared-kernel/entities/diffStats/diffStatsFetch.gateway.js';
+import {
+  bitbucketDataCenterUrl,
+  bitbucketPullRequestPath,
+  buildBitbucketApiCommand,
+  fetchBitbucketDataCenterPages,
+} from '@/modules/platform-integration/interface-adapters/gateways/bitbucketApi.js';
+
+import type { SimpleCommandExecutor } from '@/shared/foundation/commandExecutor.js';
+
+export type CommandExecutor = SimpleCommandExecutor;
+
+interface BitbucketPage<T> {
+  values: T[];
+  next?: string;
+}
+
+interface BitbucketDiffStatEntry {
+  lines_added: number;
+  lines_removed: number;
+}
+
+interface BitbucketDataCenterDiff {
+  diffs: Array<{
+    hunks?: Array<{
+      segments: Array<{ type: 'ADDED' | 'REMOVED' | 'CONTEXT'; lines: unknown[] }>;
+    }>;
+  }>;
+}
+
+const MAX_PAGES = 20;
+
+export class BitbucketDiffStatsFetchGateway implements DiffStatsFetchGateway {
+  constructor(private readonly executor: CommandExecutor) {}
+
+  fetchDiffStats(projectPath: string, mergeRequestNumber: number): DiffStats | null {
+    try {
+      const pullRequestPath = bitbucketPullRequestPath(projectPath, mergeRequestNumber);
+      if (bitbucketDataCenterUrl() !== null) {
+        return this.fetchDataCenterDiffStats(pullRequestPath);
+      }
+
+      const diffStat = this.fetchAllPages<BitbucketDiffStatEntry>(`${pullRequestPath}/diffstat?pagelen=500`);
+      const commits = this.fetchAllPages<unknown>(`${pullRequestPath}/commits?pagelen=100`);
+
+      return {
+        commitsCount: commits.length,
+        additions: diffStat.reduce((sum, entry) => sum + entry.lines_added, 0),
+        deletions: diffStat.reduce((sum, entry) => sum + entry.lines_removed, 0),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /** Data Center has no diffstat: lines are counted from the segments of the diff. */
+  private fetchDataCenterDiffStats(pullRequestPath: string): DiffStats {
+    const diff: BitbucketDataCenterDiff = JSON.parse(
+      this.executor(buildBitbucketApiCommand('GET', `${pullRequestPath}/diff?contextLines=0&withComments=false`)),
+    );
+    const segments = diff.diffs.flatMap((file) => (file.hunks ?? []).flatMap((hunk) => hunk.segments));
+    const countLines = (type: 'ADDED' | 'REMOVED') =>
+      segments.filter((segment) => segment.type === type).reduce((sum, segment) => sum + segment.lines.length, 0);
+    const commits = fetchBitbucketDataCenterPages<unknown>(this.executor, `${pullRequestPath}/commits?limit=100`, MAX_PAGES);
+
+    return {
+      commitsCount: commits.length,
+      additions: countLines('ADDED'),
+      deletions: countLines('REMOVED'),
+    };
+  }
+
+  private fetchAllPages<T>(firstPage: string): T[] {
+    const values: T[] = [];
+    let nextPage: string | undefined = firstPage;
+
+    for (let page = 0; nextPage && page < MAX_PAGES; page++) {
+      const response: BitbucketPage<T> = JSON.parse(this.executor(buildBitbucketApiCommand('GET', nextPage)));
+      values.push(...response.values);
+      nextPage = response.next;
+    }
+
+    return values;
+  }
+}
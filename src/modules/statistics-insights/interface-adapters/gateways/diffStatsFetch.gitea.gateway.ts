@@ -0,0 +1,50 @@
+import type { DiffStats } from '@/modules/shared-kernel/entities/diffStats/diffStats.js';
+import type { DiffStatsFetchGateway } from '@/modules/shared-kernel/entities/diffStats/diffStatsFetch.gateway.js';
+import { buildGiteaApiCommand } from '@/modules/platform-integration/interface-adapters/gateways/giteaApi.js';
+
+import type { SimpleCommandExecutor } from '@/shared/foundation/commandExecutor.js';
+
+export type CommandExecutor = SimpleCommandExecutor;
+
+interface GiteaPullRequestResponse {
+  additions?: number;
+  deletions?: number;
+}
+
+const PAGE_SIZE = 50;
+const MAX_PAGES = 20;
+
+export class GiteaDiffStatsFetchGateway implements DiffStatsFetchGateway {
+  constructor(private readonly executor: CommandExecutor) {}
+
+  fetchDiffStats(projectPath: string, mergeRequestNumber: number): DiffStats | null {
+    try {
+      const pullRequestPath = `repos/${projectPath}/pulls/${mergeRequestNumber}`;
+      const pr: GiteaPullRequestResponse = JSON.parse(this.executor(buildGiteaApiCommand('GET', pullRequestPath)));
+
+      return {
+        commitsCount: this.countCommits(pullRequestPath),
+        additions: pr.additions ?? 0,
+        deletions: pr.deletions ?? 0,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  private countCommits(pullRequestPath: string): number {
+    let count = 0;
+
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const commits: unknown[] = JSON.parse(
+        this.executor(
+          buildGiteaApiCommand('GET', `${pullRequestPath}/commits?limit=${PAGE_SIZE}&page=${page}&stat=false&files=false`),
+        ),
+      );
+      count += commits.length;
+      if (commits.length < PAGE_SIZE) break;
+    }
+
+    return count;
+  }
+}
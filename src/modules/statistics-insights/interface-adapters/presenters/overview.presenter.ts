@@ -73,7 +73,7 @@ export interface OverviewActiveReviewsSection {
 export interface OverviewProjectCardItem {
   projectName: string;
   projectPath: string;
-  platform: 'gitlab' | 'github';
+  platform: 'gitlab' | 'github' | 'bitbucket' | 'gitea';
   totalReviews: number;
   averageScoreLabel: string;
   sparklinePoints: number[];
@@ -133,7 +133,7 @@ function resolveProjectNameFromFilePath(repositories: RepositoryConfig[], filePa
 function resolvePlatformForProject(
   repositories: RepositoryConfig[],
   localPath: string,
-): 'gitlab' | 'github' {
+): 'gitlab' | 'github' | 'bitbucket' | 'gitea' {
   const match = repositories.find((repository) => repository.localPath === localPath);
   return match ? match.platform : 'gitlab';
 }
@@ -170,7 +170,7 @@ function buildActiveReviewItem(
     jobId: job.id,
     projectName,
     projectPath: job.project,
-    mrPrefix: platform === 'github' ? 'PR' : 'MR',
+    mrPrefix: platform === 'gitlab' ? 'MR' : 'PR',
     mrNumber: job.mrNumber,
     mrUrl: job.mrUrl,
     elapsedLabel: formatElapsed(now, job.startedAt),
@@ -89,6 +89,13 @@ function createEmptyStats(): ProjectStats {
   };
 }
 
+export interface ReviewOutputStats {
+  score: number | null;
+  blocking: number;
+  warnings: number;
+  suggestions: number;
+}
+
 /**
  * Parse review output to extract statistics
  *
@@ -104,12 +111,7 @@ function createEmptyStats(): ProjectStats {
  * 3. Inline markers (fallback):
  *    [BLOQUANT], [IMPORTANT], [SUGGESTION]
  */
-export function parseReviewOutput(stdout: string): {
-  score: number | null;
-  blocking: number;
-  warnings: number;
-  suggestions: number;
-} {
+export function parseReviewOutput(stdout: string): ReviewOutputStats {
   let score: number | null = null;
   let blocking = 0;
   let warnings = 0;
@@ -212,9 +214,23 @@ export function addReviewStats(
   stdout: string,
   assignedBy?: string,
   diffStats?: DiffStats | null
+): ReviewStats {
+  return recordReviewStats(projectPath, mrNumber, duration, parseReviewOutput(stdout), assignedBy, diffStats);
+}
+
+/**
+ * Add a review whose stats are already known (reported by the agent) to
+ * project statistics
+ */
+export function recordReviewStats(
+  projectPath: string,
+  mrNumber: number,
+  duration: number,
+  parsed: ReviewOutputStats,
+  assignedBy?: string,
+  diffStats?: DiffStats | null
 ): ReviewStats {
   const stats = loadProjectStats(projectPath);
-  const parsed = parseReviewOutput(stdout);
 
   const now = new Date();
   const reviewStats: ReviewStats = {
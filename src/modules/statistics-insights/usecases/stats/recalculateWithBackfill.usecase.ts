@@ -12,7 +12,12 @@ export interface RecalculateWithBackfillInput {
 
 export interface RecalculateWithBackfillDependencies {
   statsGateway: StatsGateway;
-  diffStatsFetchGateways: { gitlab: DiffStatsFetchGateway; github: DiffStatsFetchGateway } | null;
+  diffStatsFetchGateways: {
+    gitlab: DiffStatsFetchGateway;
+    github: DiffStatsFetchGateway;
+    bitbucket: DiffStatsFetchGateway;
+    gitea: DiffStatsFetchGateway;
+  } | null;
   onProgress: (progress: BackfillProgress) => void;
   logger: { warn: (message: string, data?: unknown) => void; error: (message: string, data?: unknown) => void };
 }
@@ -26,7 +31,7 @@ export async function recalculateWithBackfill(
 
   try {
     if (shouldBackfill && diffStatsFetchGateways && platform) {
-      const resolvedPlatform = platform === 'github' ? 'github' : 'gitlab';
+      const resolvedPlatform = platform === 'github' || platform === 'bitbucket' || platform === 'gitea' ? platform : 'gitlab';
       const gateway = diffStatsFetchGateways[resolvedPlatform];
 
       await backfillDiffStats(
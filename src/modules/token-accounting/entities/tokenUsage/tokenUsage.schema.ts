@@ -11,7 +11,7 @@ export const tokenUsageSchema = z.object({
 export const tokenUsageRecordSchema = z.object({
   jobId: z.string(),
   mrNumber: z.number(),
-  platform: z.enum(['gitlab', 'github']),
+  platform: z.enum(['gitlab', 'github', 'bitbucket', 'gitea']),
   projectPath: z.string(),
   model: z.string(),
   recordedAt: z.string(),
@@ -1,4 +1,5 @@
 import type { DiffStats } from '@/modules/shared-kernel/entities/diffStats/diffStats.js';
+import type { ReviewFindingSummary } from '@/modules/review-execution/entities/reviewFinding/reviewFinding.js';
 
 export interface ReviewEvent {
   type: 'review' | 'followup';
@@ -11,4 +12,8 @@ export interface ReviewEvent {
   threadsClosed: number;
   threadsOpened: number;
   diffStats: DiffStats | null;
+  /** Head commit the review ran on; absent on events recorded before it was tracked. */
+  headSha?: string;
+  /** Findings the agent reported through `report_finding`; absent when the stats came from the report. */
+  findings?: ReviewFindingSummary[];
 }
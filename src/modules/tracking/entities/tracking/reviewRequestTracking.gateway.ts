@@ -2,7 +2,7 @@ import type { MrTrackingData } from '@/modules/tracking/entities/tracking/mrTrac
 import type { TrackedMr } from '@/modules/tracking/entities/tracking/trackedMr.js';
 import type { ReviewEvent } from '@/modules/tracking/entities/tracking/reviewEvent.js';
 
-export type Platform = 'gitlab' | 'github';
+export type Platform = 'gitlab' | 'github' | 'bitbucket' | 'gitea';
 
 export interface ReviewRequestTrackingGateway {
   loadTracking(projectPath: string): MrTrackingData | null;
@@ -1,5 +1,7 @@
 import type { AssignmentInfo } from './assignmentInfo.js';
 import type { ReviewEvent } from './reviewEvent.js';
+import type { ClaudeModelName } from '@/modules/review-execution/entities/modelRouting/modelRouting.schema.js';
+import type { LinkedMergeRequest } from '@/modules/review-execution/entities/linkedMergeRequest/linkedMergeRequest.schema.js';
 
 export interface TrackedMr {
   id: string;
@@ -7,7 +9,7 @@ export interface TrackedMr {
   title: string;
   url: string;
   project: string;
-  platform: 'gitlab' | 'github';
+  platform: 'gitlab' | 'github' | 'bitbucket' | 'gitea';
   sourceBranch: string;
   targetBranch: string;
 
@@ -36,6 +38,15 @@ export interface TrackedMr {
   autoFollowup: boolean;
 
   bypass: BypassRecord | null;
+
+  /** Set by `/reviewflow focus` and `/reviewflow model`, applied to the next reviews. */
+  preferences?: ReviewPreferences;
+
+  /** Running reviews cancelled by a newer push, oldest first. */
+  supersessions?: SupersessionRecord[];
+
+  /** Merge requests of other repositories linked from the dashboard, reviewed along with this one. */
+  linkedMrs?: LinkedMergeRequest[];
 }
 
 export interface BypassRecord {
@@ -44,6 +55,21 @@ export interface BypassRecord {
   recordedAt: string;
 }
 
-export function createTrackedMrId(platform: 'gitlab' | 'github', project: string, mrNumber: number): string {
+export interface SupersessionRecord {
+  type: 'review' | 'followup';
+  /** Head the cancelled review was queued for, when known. */
+  supersededHeadSha?: string;
+  headSha: string;
+  supersededAt: string;
+}
+
+export interface ReviewPreferences {
+  focus?: string;
+  model?: ClaudeModelName;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export function createTrackedMrId(platform: 'gitlab' | 'github' | 'bitbucket' | 'gitea', project: string, mrNumber: number): string {
   return `${platform}-${project}-${mrNumber}`;
 }
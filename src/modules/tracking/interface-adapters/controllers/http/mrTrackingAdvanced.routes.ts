@@ -10,9 +10,16 @@ import type { ClaudeInvokerDependencies } from '@/frameworks/claude/claudeInvoke
 import type { ReviewRequestTrackingGateway } from '../../gateways/reviewRequestTracking.gateway.js';
 import type { RecordReviewCompletionUseCase } from '@/modules/tracking/usecases/tracking/recordReviewCompletion.usecase.js';
 import type { SyncThreadsUseCase } from '@/modules/tracking/usecases/tracking/syncThreads.usecase.js';
+import { LinkMergeRequestUseCase } from '@/modules/tracking/usecases/tracking/linkMergeRequest.usecase.js';
+import { parseLinkedMergeRequestReference } from '@/modules/review-execution/entities/linkedMergeRequest/linkedMergeRequest.js';
 import { parseReviewOutput } from '@/modules/statistics-insights/services/statsService.js';
+import { resolveReviewStats } from '@/modules/review-execution/entities/reviewFinding/reviewFinding.js';
 import { parseThreadActions } from '@/modules/review-execution/services/threadActionsParser.js';
 import { executeThreadActions, defaultCommandExecutor } from '@/modules/review-execution/services/threadActionsExecutor.js';
+import { resolveShadowOutput } from '@/modules/review-execution/services/publishModeResolver.js';
+import { publishModeSchema } from '@/modules/review-execution/entities/publishMode/publishMode.schema.js';
+import type { ShadowLogGateway } from '@/modules/review-execution/entities/shadowLog/shadowLog.gateway.js';
+import { ShadowLogFileSystemGateway } from '@/modules/review-execution/interface-adapters/gateways/fileSystem/shadowLog.fileSystem.gateway.js';
 import type { ReviewContextFileSystemGateway } from '@/modules/review-execution/interface-adapters/gateways/reviewContext.fileSystem.gateway.js';
 import type { GitHubThreadFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/threadFetch.github.gateway.js';
 import type { GitLabThreadFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/threadFetch.gitlab.gateway.js';
@@ -21,11 +28,17 @@ import type { GitHubDiffMetadataFetchGateway } from '@/modules/platform-integrat
 import { startWatchingReviewContext, stopWatchingReviewContext } from '@/main/websocket.js';
 import type { GitLabDiffStatsFetchGateway } from '@/modules/statistics-insights/interface-adapters/gateways/diffStatsFetch.gitlab.gateway.js';
 import type { GitHubDiffStatsFetchGateway } from '@/modules/statistics-insights/interface-adapters/gateways/diffStatsFetch.github.gateway.js';
+import type { BitbucketThreadFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/threadFetch.bitbucket.gateway.js';
+import type { BitbucketDiffMetadataFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/diffMetadataFetch.bitbucket.gateway.js';
+import type { BitbucketDiffStatsFetchGateway } from '@/modules/statistics-insights/interface-adapters/gateways/diffStatsFetch.bitbucket.gateway.js';
+import type { GiteaThreadFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/threadFetch.gitea.gateway.js';
+import type { GiteaDiffMetadataFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/diffMetadataFetch.gitea.gateway.js';
+import type { GiteaDiffStatsFetchGateway } from '@/modules/statistics-insights/interface-adapters/gateways/diffStatsFetch.gitea.gateway.js';
 import type { Logger } from 'pino';
 import type { EnforceBudgetUseCase } from '@/modules/token-accounting/usecases/enforceBudget/enforceBudget.usecase.js';
 import type { BudgetExceededPayload } from '@/main/websocket.js';
 
-type Platform = 'gitlab' | 'github';
+type Platform = 'gitlab' | 'github' | 'bitbucket' | 'gitea';
 
 export interface MrTrackingAdvancedRoutesOptions {
   getRepositories: () => RepositoryConfig[];
@@ -33,22 +46,42 @@ export interface MrTrackingAdvancedRoutesOptions {
   reviewContextGateway: ReviewContextFileSystemGateway;
   threadFetchGatewayFactory: (
     platform: Platform,
-  ) => GitHubThreadFetchGateway | GitLabThreadFetchGateway;
+  ) => GitHubThreadFetchGateway | GitLabThreadFetchGateway | BitbucketThreadFetchGateway | GiteaThreadFetchGateway;
   diffMetadataFetchGatewayFactory: (
     platform: Platform,
-  ) => GitHubDiffMetadataFetchGateway | GitLabDiffMetadataFetchGateway;
+  ) =>
+    | GitHubDiffMetadataFetchGateway
+    | GitLabDiffMetadataFetchGateway
+    | BitbucketDiffMetadataFetchGateway
+    | GiteaDiffMetadataFetchGateway;
   diffStatsFetchGatewayFactory: (
     platform: Platform,
-  ) => GitHubDiffStatsFetchGateway | GitLabDiffStatsFetchGateway;
+  ) => GitHubDiffStatsFetchGateway | GitLabDiffStatsFetchGateway | BitbucketDiffStatsFetchGateway | GiteaDiffStatsFetchGateway;
   createSyncThreadsUseCase: (platform: Platform) => SyncThreadsUseCase;
   recordReviewCompletion: RecordReviewCompletionUseCase;
   enforceBudget: Pick<EnforceBudgetUseCase, 'execute'>;
   broadcastBudgetExceeded: (payload: BudgetExceededPayload) => void;
   claudeInvokerDeps?: ClaudeInvokerDependencies;
   gateClaudeInvocation?: GateClaudeInvocationUseCase;
+  /** Where shadow followups record their actions, `.claude/reviews/shadow/` by default. */
+  shadowLogGateway?: ShadowLogGateway;
   logger: Logger;
 }
 
+function buildMrUrl(remoteUrl: string, platform: Platform, mrNumber: number): string {
+  const webUrl = remoteUrl.replace(/\.git$/, '');
+  switch (platform) {
+    case 'gitlab':
+      return `${webUrl}/-/merge_requests/${mrNumber}`;
+    case 'github':
+      return `${webUrl}/pull/${mrNumber}`;
+    case 'bitbucket':
+      return `${webUrl}/pull-requests/${mrNumber}`;
+    case 'gitea':
+      return `${webUrl}/pulls/${mrNumber}`;
+  }
+}
+
 function validateProjectPath(path: string | undefined): { valid: false; error: string } | { valid: true; path: string } {
   if (!path) {
     return { valid: false, error: 'projectPath required' };
@@ -81,9 +114,10 @@ export const mrTrackingAdvancedRoutes: FastifyPluginAsync<MrTrackingAdvancedRout
     gateClaudeInvocation,
     logger,
   } = opts;
+  const shadowLogGateway = opts.shadowLogGateway ?? new ShadowLogFileSystemGateway(logger);
 
   fastify.post('/api/mr-tracking/followup', async (request, reply) => {
-    const body = request.body as { mrId?: string; projectPath?: string };
+    const body = request.body as { mrId?: string; projectPath?: string; publishMode?: unknown };
     const { mrId, projectPath } = body;
 
     if (!mrId) {
@@ -91,13 +125,19 @@ export const mrTrackingAdvancedRoutes: FastifyPluginAsync<MrTrackingAdvancedRout
       return { success: false, error: 'mrId required' };
     }
 
+    const publishMode = body.publishMode === undefined ? undefined : publishModeSchema.safeParse(body.publishMode);
+    if (publishMode && !publishMode.success) {
+      reply.code(400);
+      return { success: false, error: 'Invalid publishMode' };
+    }
+
     const validation = validateProjectPath(projectPath);
     if (!validation.valid) {
       reply.code(400);
       return { success: false, error: validation.error };
     }
 
-    const match = mrId.match(/^(gitlab|github)-(.+)-(\d+)$/);
+    const match = mrId.match(/^(gitlab|github|bitbucket|gitea)-(.+)-(\d+)$/);
     if (!match) {
       reply.code(400);
       return { success: false, error: 'Invalid mrId format' };
@@ -105,7 +145,7 @@ export const mrTrackingAdvancedRoutes: FastifyPluginAsync<MrTrackingAdvancedRout
 
     const [, platform, , mrNumberStr] = match;
     const mrNumber = Number.parseInt(mrNumberStr, 10);
-    const platformLiteral: Platform = platform === 'github' ? 'github' : 'gitlab';
+    const platformLiteral = platform as Platform;
 
     const repo = getRepositories().find(
       (r) => r.localPath === validation.path && r.enabled
@@ -134,9 +174,7 @@ export const mrTrackingAdvancedRoutes: FastifyPluginAsync<MrTrackingAdvancedRout
 
     const jobId = createJobId(`${platform}-followup`, gitProjectPath, mrNumber);
 
-    const mrUrl = platform === 'gitlab'
-      ? `${repo.remoteUrl.replace(/\.git$/, '')}/-/merge_requests/${mrNumber}`
-      : `${repo.remoteUrl.replace(/\.git$/, '')}/pull/${mrNumber}`;
+    const mrUrl = buildMrUrl(repo.remoteUrl, platformLiteral, mrNumber);
 
     const budgetDecision = await enforceBudget.execute({
       localPaths: getRepositories()
@@ -174,6 +212,7 @@ export const mrTrackingAdvancedRoutes: FastifyPluginAsync<MrTrackingAdvancedRout
       sourceBranch: trackedMr.sourceBranch,
       targetBranch: trackedMr.targetBranch,
       jobType: 'followup',
+      publishMode: publishMode?.data,
     };
 
     const manualFollowupProcessor = async (job: ReviewJob, signal: AbortSignal): Promise<void> => {
@@ -204,6 +243,7 @@ export const mrTrackingAdvancedRoutes: FastifyPluginAsync<MrTrackingAdvancedRout
           threads,
           agents: followupAgentsList,
           diffMetadata,
+          publishMode: job.publishMode,
         });
         logger.info(
           { mrNumber: job.mrNumber, threadsCount: threads.length, hasDiffMetadata: !!diffMetadata },
@@ -239,7 +279,10 @@ export const mrTrackingAdvancedRoutes: FastifyPluginAsync<MrTrackingAdvancedRout
 
       if (result.success) {
         // Parse review output for stats
-        const parsed = parseReviewOutput(result.stdout);
+        const parsed = resolveReviewStats(
+          parseReviewOutput(result.stdout),
+          contextGateway.read(job.localPath, mrId),
+        );
 
         // Collect thread actions from both sources:
         // 1. MCP actions from review context file (new way)
@@ -268,7 +311,9 @@ export const mrTrackingAdvancedRoutes: FastifyPluginAsync<MrTrackingAdvancedRout
               diffMetadata: reviewContext?.diffMetadata,
             },
             logger,
-            defaultCommandExecutor
+            defaultCommandExecutor,
+            null,
+            { shadow: resolveShadowOutput(job, result.reportPath, shadowLogGateway) }
           );
           logger.info(
             { ...actionResult, threadResolveCount, mrNumber: job.mrNumber },
@@ -303,6 +348,8 @@ export const mrTrackingAdvancedRoutes: FastifyPluginAsync<MrTrackingAdvancedRout
             threadsOpened: 0,
             threadsClosed: threadResolveCount,
             diffStats,
+            headSha: result.reviewedHeadSha,
+            findings: parsed.findings,
           },
           qualityThreshold: loadProjectConfig(job.localPath)?.qualityThreshold ?? null,
         });
@@ -384,6 +431,53 @@ export const mrTrackingAdvancedRoutes: FastifyPluginAsync<MrTrackingAdvancedRout
     return { success: true, mr: result };
   });
 
+  fastify.post('/api/mr-tracking/links', async (request, reply) => {
+    const body = request.body as { mrId?: string; projectPath?: string; reference?: string; linked?: boolean };
+    const { mrId, projectPath, reference, linked } = body;
+
+    if (!mrId) {
+      reply.code(400);
+      return { success: false, error: 'mrId requis' };
+    }
+
+    if (typeof linked !== 'boolean') {
+      reply.code(400);
+      return { success: false, error: 'linked (boolean) requis' };
+    }
+
+    const link = typeof reference === 'string' ? parseLinkedMergeRequestReference(reference) : null;
+    if (!link) {
+      reply.code(400);
+      return { success: false, error: 'Invalid reference: expected group/project!123 or owner/repo#123' };
+    }
+
+    const validation = validateProjectPath(projectPath);
+    if (!validation.valid) {
+      reply.code(400);
+      return { success: false, error: validation.error };
+    }
+
+    const result = new LinkMergeRequestUseCase(reviewRequestTrackingGateway).execute({
+      projectPath: validation.path,
+      mrId,
+      link,
+      linked,
+    });
+
+    if (result.kind === 'mr-not-found') {
+      reply.code(404);
+      return { success: false, error: 'MR non trouvée' };
+    }
+
+    if (result.kind === 'self-link') {
+      reply.code(400);
+      return { success: false, error: 'A merge request cannot depend on itself' };
+    }
+
+    logInfo('Linked merge requests updated', { mrId, reference: reference?.trim(), linked });
+    return { success: true, linkedMrs: result.linkedMrs };
+  });
+
   fastify.post('/api/mr-tracking/followup-importants', async (request, reply) => {
     const body = request.body as { projectPath?: string };
 
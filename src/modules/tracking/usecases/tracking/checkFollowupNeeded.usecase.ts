@@ -4,7 +4,7 @@ import type { ReviewRequestTrackingGateway } from '@/modules/tracking/interface-
 interface CheckFollowupNeededInput {
   projectPath: string;
   mrNumber: number;
-  platform: 'gitlab' | 'github';
+  platform: 'gitlab' | 'github' | 'bitbucket' | 'gitea';
 }
 
 export class CheckFollowupNeededUseCase implements UseCase<CheckFollowupNeededInput, boolean> {
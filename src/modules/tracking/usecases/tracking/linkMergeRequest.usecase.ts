@@ -0,0 +1,40 @@
+import type { UseCase } from '@/shared/foundation/usecase.base.js';
+import type { ReviewRequestTrackingGateway } from '@/modules/tracking/interface-adapters/gateways/reviewRequestTracking.gateway.js';
+import type { LinkedMergeRequest } from '@/modules/review-execution/entities/linkedMergeRequest/linkedMergeRequest.schema.js';
+import { isSameMergeRequest } from '@/modules/review-execution/entities/linkedMergeRequest/linkedMergeRequest.js';
+
+interface LinkMergeRequestInput {
+  projectPath: string;
+  mrId: string;
+  link: LinkedMergeRequest;
+  linked: boolean;
+}
+
+export type LinkMergeRequestResult =
+  | { kind: 'updated'; linkedMrs: LinkedMergeRequest[] }
+  | { kind: 'self-link' }
+  | { kind: 'mr-not-found' };
+
+/**
+ * Adds or removes a link from a tracked MR to a merge request of another
+ * repository. Linking twice, or removing an absent link, changes nothing.
+ */
+export class LinkMergeRequestUseCase implements UseCase<LinkMergeRequestInput, LinkMergeRequestResult> {
+  constructor(private readonly trackingGateway: ReviewRequestTrackingGateway) {}
+
+  execute(input: LinkMergeRequestInput): LinkMergeRequestResult {
+    const mr = this.trackingGateway.getById(input.projectPath, input.mrId);
+    if (!mr) return { kind: 'mr-not-found' };
+
+    if (isSameMergeRequest(input.link, { projectPath: mr.project, mrNumber: mr.mrNumber })) {
+      return { kind: 'self-link' };
+    }
+
+    const others = (mr.linkedMrs ?? []).filter((link) => !isSameMergeRequest(link, input.link));
+    const linkedMrs = input.linked ? [...others, input.link] : others;
+
+    this.trackingGateway.update(input.projectPath, input.mrId, { linkedMrs });
+
+    return { kind: 'updated', linkedMrs };
+  }
+}
@@ -5,7 +5,7 @@ import type { TrackedMr } from '@/modules/tracking/entities/tracking/trackedMr.j
 interface RecordPushInput {
   projectPath: string;
   mrNumber: number;
-  platform: 'gitlab' | 'github';
+  platform: 'gitlab' | 'github' | 'bitbucket' | 'gitea';
 }
 
 export class RecordPushUseCase implements UseCase<RecordPushInput, TrackedMr | null> {
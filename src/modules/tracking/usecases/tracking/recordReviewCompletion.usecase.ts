@@ -3,6 +3,7 @@ import type { ReviewRequestTrackingGateway } from '@/modules/tracking/interface-
 import type { TrackedMr } from '@/modules/tracking/entities/tracking/trackedMr.js';
 import type { ReviewEvent } from '@/modules/tracking/entities/tracking/reviewEvent.js';
 import type { DiffStats } from '@/modules/shared-kernel/entities/diffStats/diffStats.js';
+import type { ReviewFindingSummary } from '@/modules/review-execution/entities/reviewFinding/reviewFinding.js';
 import { evaluateQualityGate } from '@/modules/tracking/entities/qualityGate/qualityGate.js';
 
 interface RecordReviewCompletionInput {
@@ -18,6 +19,8 @@ interface RecordReviewCompletionInput {
     threadsOpened?: number;
     threadsClosed?: number;
     diffStats?: DiffStats | null;
+    headSha?: string | null;
+    findings?: ReviewFindingSummary[];
   };
   qualityThreshold?: number | null;
 }
@@ -46,6 +49,8 @@ export class RecordReviewCompletionUseCase implements UseCase<RecordReviewComple
       threadsOpened,
       threadsClosed,
       diffStats: reviewData.diffStats ?? null,
+      ...(reviewData.headSha ? { headSha: reviewData.headSha } : {}),
+      ...(reviewData.findings?.length ? { findings: reviewData.findings } : {}),
     };
 
     this.trackingGateway.recordReviewEvent(projectPath, mrId, event);
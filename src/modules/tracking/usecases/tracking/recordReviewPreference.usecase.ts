@@ -0,0 +1,45 @@
+import type { UseCase } from '@/shared/foundation/usecase.base.js';
+import type { ReviewRequestTrackingGateway } from '@/modules/tracking/interface-adapters/gateways/reviewRequestTracking.gateway.js';
+import type { ReviewPreferences } from '@/modules/tracking/entities/tracking/trackedMr.js';
+import type { ClaudeModelName } from '@/modules/review-execution/entities/modelRouting/modelRouting.schema.js';
+
+export type ReviewPreferenceChange = { focus: string } | { model: ClaudeModelName };
+
+interface RecordReviewPreferenceInput {
+  projectPath: string;
+  mrId: string;
+  change: ReviewPreferenceChange;
+  author: string;
+  now: () => string;
+}
+
+export type RecordReviewPreferenceResult =
+  | { kind: 'recorded'; preferences: ReviewPreferences }
+  | { kind: 'mr-not-found' };
+
+/**
+ * Merges a focus or model preference into a tracked MR. The other preference is
+ * kept, so `/reviewflow focus` and `/reviewflow model` can be combined.
+ */
+export class RecordReviewPreferenceUseCase
+  implements UseCase<RecordReviewPreferenceInput, RecordReviewPreferenceResult>
+{
+  constructor(private readonly trackingGateway: ReviewRequestTrackingGateway) {}
+
+  execute(input: RecordReviewPreferenceInput): RecordReviewPreferenceResult {
+    const mr = this.trackingGateway.getById(input.projectPath, input.mrId);
+    if (!mr) return { kind: 'mr-not-found' };
+
+    const preferences: ReviewPreferences = {
+      focus: mr.preferences?.focus,
+      model: mr.preferences?.model,
+      ...input.change,
+      updatedBy: input.author,
+      updatedAt: input.now(),
+    };
+
+    this.trackingGateway.update(input.projectPath, input.mrId, { preferences });
+
+    return { kind: 'recorded', preferences };
+  }
+}
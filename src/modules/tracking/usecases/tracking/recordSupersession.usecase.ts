@@ -0,0 +1,42 @@
+import type { UseCase } from '@/shared/foundation/usecase.base.js';
+import type { ReviewRequestTrackingGateway } from '@/modules/tracking/interface-adapters/gateways/reviewRequestTracking.gateway.js';
+import type { SupersessionRecord } from '@/modules/tracking/entities/tracking/trackedMr.js';
+
+interface RecordSupersessionInput {
+  projectPath: string;
+  mrId: string;
+  type: 'review' | 'followup';
+  supersededHeadSha?: string;
+  headSha: string;
+  now: () => string;
+}
+
+export type RecordSupersessionResult =
+  | { kind: 'recorded'; supersession: SupersessionRecord }
+  | { kind: 'mr-not-found' };
+
+/**
+ * Appends to the history of a tracked MR a running review that a newer push
+ * cancelled and replaced.
+ */
+export class RecordSupersessionUseCase implements UseCase<RecordSupersessionInput, RecordSupersessionResult> {
+  constructor(private readonly trackingGateway: ReviewRequestTrackingGateway) {}
+
+  execute(input: RecordSupersessionInput): RecordSupersessionResult {
+    const mr = this.trackingGateway.getById(input.projectPath, input.mrId);
+    if (!mr) return { kind: 'mr-not-found' };
+
+    const supersession: SupersessionRecord = {
+      type: input.type,
+      ...(input.supersededHeadSha ? { supersededHeadSha: input.supersededHeadSha } : {}),
+      headSha: input.headSha,
+      supersededAt: input.now(),
+    };
+
+    this.trackingGateway.update(input.projectPath, input.mrId, {
+      supersessions: [...(mr.supersessions ?? []), supersession],
+    });
+
+    return { kind: 'recorded', supersession };
+  }
+}
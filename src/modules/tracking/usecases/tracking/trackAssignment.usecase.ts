@@ -10,7 +10,7 @@ interface TrackAssignmentInput {
     title: string;
     url: string;
     project: string;
-    platform: 'gitlab' | 'github';
+    platform: 'gitlab' | 'github' | 'bitbucket' | 'gitea';
     sourceBranch: string;
     targetBranch: string;
   };
@@ -5,7 +5,16 @@ export type GitCommandKind =
   | 'worktree-prune'
   | 'reset-hard'
   | 'rev-parse-toplevel'
-  | 'status-porcelain';
+  | 'rev-parse-head'
+  | 'rev-parse-commit'
+  | 'status-porcelain'
+  | 'cat-file'
+  | 'merge-base'
+  | 'rev-list'
+  | 'diff'
+  | 'range-diff'
+  /** Read-only command a review engine runs to explore the worktree. */
+  | 'inspect';
 
 export interface GitCommand {
   kind: GitCommandKind;
@@ -1,6 +1,6 @@
 import { z } from 'zod';
 
-export const worktreePlatformSchema = z.enum(['gitlab', 'github']);
+export const worktreePlatformSchema = z.enum(['gitlab', 'github', 'bitbucket', 'gitea']);
 export type WorktreePlatform = z.infer<typeof worktreePlatformSchema>;
 
 export const worktreeIdentitySchema = z.object({
@@ -14,7 +14,11 @@ export type WorktreePath = string & { readonly __brand: 'WorktreePath' };
 
 export type MrSource =
   | { kind: 'origin' }
-  | { kind: 'fork'; cloneUrl: string };
+  | { kind: 'fork'; cloneUrl: string }
+  // Commit already in the source checkout, for a review run before any MR exists.
+  | { kind: 'local' };
+
+export type RemoteMrSource = Exclude<MrSource, { kind: 'local' }>;
 
 export interface FetchRef {
   remote: string;
@@ -2,7 +2,7 @@ import { isAbsolute, join } from 'node:path';
 import { WORKTREE_BASE_DIR } from '@/shared/services/daemonPaths.js';
 import type {
   FetchRef,
-  MrSource,
+  RemoteMrSource,
   WorktreeIdentity,
   WorktreePath,
 } from '@/modules/worktree-management/entities/worktree/worktree.schema.js';
@@ -33,7 +33,7 @@ export function deriveWorktreePath(identity: WorktreeIdentity): WorktreePath {
   return createWorktreePath(join(WORKTREE_BASE_DIR, deriveWorktreeDirectoryName(identity)));
 }
 
-export function deriveFetchRef(source: MrSource, sourceBranch: string, mrNumber: number): FetchRef {
+export function deriveFetchRef(source: RemoteMrSource, sourceBranch: string, mrNumber: number): FetchRef {
   if (source.kind === 'origin') {
     return {
       remote: 'origin',
@@ -52,9 +52,9 @@ export function deriveFetchRef(source: MrSource, sourceBranch: string, mrNumber:
 export function parseWorktreeDirectoryName(
   directoryName: string,
 ): WorktreeIdentity | null {
-  const match = directoryName.match(/^(gitlab|github)-(.+)-(\d+)$/);
+  const match = directoryName.match(/^(gitlab|github|bitbucket|gitea)-(.+)-(\d+)$/);
   if (!match) return null;
-  const platform = match[1] === 'github' ? 'github' : 'gitlab';
+  const platform = match[1] as WorktreeIdentity['platform'];
   const slug = match[2];
   const mrNumberRaw = match[3];
   if (slug === undefined || mrNumberRaw === undefined) return null;
@@ -30,7 +30,7 @@ export interface WorktreeOverviewRoutesOptions {
 }
 
 const cleanupPayloadSchema = z.object({
-  platform: z.enum(['gitlab', 'github']),
+  platform: z.enum(['gitlab', 'github', 'bitbucket', 'gitea']),
   projectPath: z.string().min(1),
   mrNumber: z.number().int().positive(),
 });
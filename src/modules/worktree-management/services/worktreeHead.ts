@@ -0,0 +1,12 @@
+import type { GitCommandExecutor } from '@/modules/worktree-management/entities/gitCommand/gitCommand.gateway.js';
+
+/** Commit checked out in the worktree, null when git cannot tell. */
+export async function readWorktreeHead(worktreePath: string, executor: GitCommandExecutor): Promise<string | null> {
+  const result = await executor.execute({
+    kind: 'rev-parse-head',
+    args: ['rev-parse', 'HEAD'],
+    cwd: worktreePath,
+  });
+  const sha = result.stdout.trim();
+  return result.exitCode === 0 && sha.length > 0 ? sha : null;
+}
@@ -0,0 +1,95 @@
+import type { GitCommandExecutor } from '@/modules/worktree-management/entities/gitCommand/gitCommand.gateway.js';
+import type { DiffStats } from '@/modules/shared-kernel/entities/diffStats/diffStats.js';
+import { readWorktreeHead } from '@/modules/worktree-management/services/worktreeHead.js';
+
+export interface ComputeIncrementalDiffInput {
+  worktreePath: string;
+  sinceSha: string;
+}
+
+export interface ComputeIncrementalDiffDependencies {
+  executor: GitCommandExecutor;
+}
+
+/**
+ * `fast-forward`: the branch grew on top of the reviewed commit, the delta is a
+ * plain diff. `rewritten`: the branch was force-pushed, the delta is a
+ * `git range-diff` of the reviewed commits against the new ones.
+ */
+export type IncrementalDiffResult =
+  | {
+      status: 'computed';
+      mode: 'fast-forward' | 'rewritten';
+      sinceSha: string;
+      headSha: string;
+      diff: string;
+      diffStats: DiffStats;
+    }
+  | { status: 'unavailable'; reason: 'head-unknown' | 'since-sha-missing' | 'git-failed' };
+
+function parseNumstat(output: string): Pick<DiffStats, 'additions' | 'deletions'> {
+  let additions = 0;
+  let deletions = 0;
+  for (const line of output.split('\n')) {
+    const [added, deleted] = line.split('\t');
+    // Binary files report `-` for both counts.
+    additions += Number.parseInt(added, 10) || 0;
+    deletions += Number.parseInt(deleted, 10) || 0;
+  }
+  return { additions, deletions };
+}
+
+/**
+ * Changes pushed to the worktree branch since `sinceSha`, the head reviewed
+ * last time. The sizes are those of the tree diff between both heads, which
+ * also counts target branch changes brought in by a rebase.
+ */
+export async function computeIncrementalDiff(
+  input: ComputeIncrementalDiffInput,
+  deps: ComputeIncrementalDiffDependencies,
+): Promise<IncrementalDiffResult> {
+  const { worktreePath: cwd, sinceSha } = input;
+  const { executor } = deps;
+
+  const headSha = await readWorktreeHead(cwd, executor);
+  if (headSha === null) {
+    return { status: 'unavailable', reason: 'head-unknown' };
+  }
+
+  const known = await executor.execute({ kind: 'cat-file', args: ['cat-file', '-e', `${sinceSha}^{commit}`], cwd });
+  if (known.exitCode !== 0) {
+    return { status: 'unavailable', reason: 'since-sha-missing' };
+  }
+
+  const ancestry = await executor.execute({
+    kind: 'merge-base',
+    args: ['merge-base', '--is-ancestor', sinceSha, headSha],
+    cwd,
+  });
+  if (ancestry.exitCode !== 0 && ancestry.exitCode !== 1) {
+    return { status: 'unavailable', reason: 'git-failed' };
+  }
+  const mode = ancestry.exitCode === 0 ? 'fast-forward' : 'rewritten';
+
+  const delta =
+    mode === 'fast-forward'
+      ? await executor.execute({ kind: 'diff', args: ['diff', sinceSha, headSha], cwd })
+      : await executor.execute({ kind: 'range-diff', args: ['range-diff', `${sinceSha}...${headSha}`], cwd });
+  const numstat = await executor.execute({ kind: 'diff', args: ['diff', '--numstat', sinceSha, headSha], cwd });
+  const commits = await executor.execute({ kind: 'rev-list', args: ['rev-list', '--count', `${sinceSha}..${headSha}`], cwd });
+  if (delta.exitCode !== 0 || numstat.exitCode !== 0 || commits.exitCode !== 0) {
+    return { status: 'unavailable', reason: 'git-failed' };
+  }
+
+  return {
+    status: 'computed',
+    mode,
+    sinceSha,
+    headSha,
+    diff: delta.stdout,
+    diffStats: {
+      commitsCount: Number.parseInt(commits.stdout.trim(), 10) || 0,
+      ...parseNumstat(numstat.stdout),
+    },
+  };
+}
@@ -37,7 +37,6 @@ export async function ensureWorktree(
   deps: EnsureWorktreeDependencies,
 ): Promise<EnsureResult> {
   const targetPath = deriveWorktreePath(input.identity);
-  const fetchRef = deriveFetchRef(input.source, input.sourceBranch, input.identity.mrNumber);
 
   await deps.executor.execute({
     kind: 'worktree-prune',
@@ -47,6 +46,12 @@ export async function ensureWorktree(
 
   const alreadyExists = await deps.worktreeExists(targetPath);
 
+  if (input.source.kind === 'local') {
+    return ensureLocalWorktree(input, targetPath, alreadyExists, deps);
+  }
+
+  const fetchRef = deriveFetchRef(input.source, input.sourceBranch, input.identity.mrNumber);
+
   if (alreadyExists) {
     const fetchInsideResult = await deps.executor.execute({
       kind: 'fetch',
@@ -93,3 +98,41 @@ export async function ensureWorktree(
 
   return { status: 'created', path: targetPath, settingsWarning };
 }
+
+/**
+ * Checks out a commit of the source checkout, detached so the branch it names
+ * can stay checked out there. Nothing is fetched.
+ */
+async function ensureLocalWorktree(
+  input: EnsureWorktreeInput,
+  targetPath: WorktreePath,
+  alreadyExists: boolean,
+  deps: EnsureWorktreeDependencies,
+): Promise<EnsureResult> {
+  if (alreadyExists) {
+    const resetResult = await deps.executor.execute({
+      kind: 'reset-hard',
+      args: ['reset', '--hard', input.sourceBranch],
+      cwd: targetPath,
+    });
+    if (resetResult.exitCode !== 0) {
+      return { status: 'failed', reason: 'reset-failed' };
+    }
+    return { status: 'reused', path: targetPath };
+  }
+
+  const addResult = await deps.executor.execute({
+    kind: 'worktree-add',
+    args: ['worktree', 'add', '--detach', targetPath, input.sourceBranch],
+    cwd: input.sourceCheckoutPath,
+  });
+  if (addResult.exitCode !== 0) {
+    return { status: 'failed', reason: 'worktree-add-failed' };
+  }
+
+  const settingsResult = await deps.writeWorktreeSettings(targetPath);
+  const settingsWarning =
+    settingsResult.status === 'failed' ? settingsResult.reason ?? 'unknown' : null;
+
+  return { status: 'created', path: targetPath, settingsWarning };
+}
@@ -85,6 +85,70 @@ export function verifyGitHubSignature(request: FastifyRequest): VerificationResu
   return { valid: true };
 }
 
+/**
+ * Verify Bitbucket webhook signature.
+ * Bitbucket Cloud and Data Center both sign the raw body with HMAC-SHA256 in
+ * the X-Hub-Signature header (`sha256=<hex>`) when a secret is set on the webhook. The endpoint is
+ * opt-in: without BITBUCKET_WEBHOOK_SECRET every delivery is rejected.
+ */
+export function verifyBitbucketSignature(request: FastifyRequest): VerificationResult {
+  const signature = request.headers['x-hub-signature'];
+
+  if (!signature || typeof signature !== 'string') {
+    return { valid: false, error: 'Header X-Hub-Signature manquant' };
+  }
+
+  const secret = loadEnvSecrets().bitbucketWebhookSecret;
+  if (secret === null) {
+    return { valid: false, error: 'Secret Bitbucket non configuré' };
+  }
+
+  const rawBody = (request as FastifyRequest & { rawBody?: Buffer }).rawBody;
+  if (!rawBody) {
+    return { valid: false, error: 'Corps de requête non disponible pour vérification' };
+  }
+
+  const expectedSignature = `sha256=${createHmac('sha256', secret).update(rawBody).digest('hex')}`;
+
+  if (!constantTimeStringEqual(signature, expectedSignature)) {
+    return { valid: false, error: 'Signature invalide' };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Verify Gitea/Forgejo webhook signature.
+ * Both sign the raw body with HMAC-SHA256 and send the bare hex digest (no
+ * `sha256=` prefix) in X-Gitea-Signature; Forgejo uses X-Forgejo-Signature and
+ * keeps the Gitea header for compatibility. Opt-in like Bitbucket.
+ */
+export function verifyGiteaSignature(request: FastifyRequest): VerificationResult {
+  const signature = request.headers['x-forgejo-signature'] ?? request.headers['x-gitea-signature'];
+
+  if (!signature || typeof signature !== 'string') {
+    return { valid: false, error: 'Header X-Gitea-Signature manquant' };
+  }
+
+  const secret = loadEnvSecrets().giteaWebhookSecret;
+  if (secret === null) {
+    return { valid: false, error: 'Secret Gitea non configuré' };
+  }
+
+  const rawBody = (request as FastifyRequest & { rawBody?: Buffer }).rawBody;
+  if (!rawBody) {
+    return { valid: false, error: 'Corps de requête non disponible pour vérification' };
+  }
+
+  const expectedSignature = createHmac('sha256', secret).update(rawBody).digest('hex');
+
+  if (!constantTimeStringEqual(signature, expectedSignature)) {
+    return { valid: false, error: 'Signature invalide' };
+  }
+
+  return { valid: true };
+}
+
 /**
  * Extract event type from request headers
  */
@@ -106,3 +170,30 @@ export function getGitHubEventType(request: FastifyRequest): string | undefined
   const eventHeader = request.headers['x-github-event'];
   return typeof eventHeader === 'string' ? eventHeader : undefined;
 }
+
+/**
+ * Bitbucket carries the event kind in X-Event-Key: `pullrequest:created` on
+ * Cloud, `pr:opened` on Data Center.
+ */
+export function getBitbucketEventKey(request: FastifyRequest): string | undefined {
+  const eventHeader = request.headers['x-event-key'];
+  return typeof eventHeader === 'string' ? eventHeader : undefined;
+}
+
+/**
+ * Per-delivery identifier, stable across Bitbucket's automatic retries.
+ * Bitbucket Data Center sends it as X-Request-Id.
+ */
+export function getBitbucketRequestUuid(request: FastifyRequest): string | undefined {
+  const uuidHeader = request.headers['x-request-uuid'] ?? request.headers['x-request-id'];
+  return typeof uuidHeader === 'string' ? uuidHeader : undefined;
+}
+
+/**
+ * Gitea and Forgejo share the GitHub-like event names (`pull_request`,
+ * `issue_comment`); Forgejo also sends them under its own header.
+ */
+export function getGiteaEventType(request: FastifyRequest): string | undefined {
+  const eventHeader = request.headers['x-forgejo-event'] ?? request.headers['x-gitea-event'];
+  return typeof eventHeader === 'string' ? eventHeader : undefined;
+}
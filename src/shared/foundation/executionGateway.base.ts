@@ -10,8 +10,17 @@ export abstract class ExecutionGatewayBase<TAction, TContext extends { localPath
 
   protected abstract buildCommand(action: TAction, context: TContext): CommandInfo | null
 
-  async execute(actions: TAction[], context: TContext): Promise<ExecutionResult> {
-    const result: ExecutionResult = {
+  /**
+   * Command retried once when the one from `buildCommand` fails, e.g. a general
+   * comment in place of an inline comment the platform could not anchor.
+   */
+  protected buildFallbackCommand(_action: TAction, _context: TContext): CommandInfo | null {
+    return null
+  }
+
+  async execute(actions: TAction[], context: TContext): Promise<ExecutionResult<TAction>> {
+    const failedActions: TAction[] = []
+    const result: ExecutionResult<TAction> = {
       total: actions.length,
       succeeded: 0,
       failed: 0,
@@ -19,7 +28,15 @@ export abstract class ExecutionGatewayBase<TAction, TContext extends { localPath
     }
 
     for (const action of actions) {
-      const command = this.buildCommand(action, context)
+      let command: CommandInfo | null
+      try {
+        command = this.buildCommand(action, context)
+      } catch {
+        // Building a command may read the platform first; a failed read fails the action.
+        result.failed++
+        failedActions.push(action)
+        continue
+      }
 
       if (command === null) {
         result.skipped++
@@ -30,10 +47,27 @@ export abstract class ExecutionGatewayBase<TAction, TContext extends { localPath
         this.executor(command.command, command.args, context.localPath)
         result.succeeded++
       } catch {
-        result.failed++
+        if (this.runFallback(action, context)) {
+          result.succeeded++
+        } else {
+          result.failed++
+          failedActions.push(action)
+        }
       }
     }
 
-    return result
+    return failedActions.length > 0 ? { ...result, failedActions } : result
+  }
+
+  private runFallback(action: TAction, context: TContext): boolean {
+    const fallback = this.buildFallbackCommand(action, context)
+    if (fallback === null) return false
+
+    try {
+      this.executor(fallback.command, fallback.args, context.localPath)
+      return true
+    } catch {
+      return false
+    }
   }
 }
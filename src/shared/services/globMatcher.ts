@@ -0,0 +1,41 @@
+/**
+ * Minimal glob matching for branch names and repository paths.
+ *
+ * Supported syntax: `*` matches within one path segment, `**` matches across
+ * segments, including zero of them when followed by a slash, `?` matches a single
+ * non-separator character. Everything else is literal.
+ */
+export function matchesGlob(value: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(value);
+}
+
+export function matchesAnyGlob(value: string, patterns: readonly string[]): boolean {
+  return patterns.some((pattern) => matchesGlob(value, pattern));
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let index = 0;
+  while (index < pattern.length) {
+    const char = pattern[index];
+    if (char === '*' && pattern[index + 1] === '*') {
+      if (pattern[index + 2] === '/') {
+        source += '(?:.*/)?';
+        index += 3;
+      } else {
+        source += '.*';
+        index += 2;
+      }
+      continue;
+    }
+    if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+    index += 1;
+  }
+  return new RegExp(`^${source}$`);
+}
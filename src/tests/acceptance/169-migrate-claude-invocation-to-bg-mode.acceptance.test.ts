@@ -64,7 +64,7 @@ const baseInput = {
   localPath: '/tmp/project',
   mergeRequestId: 'gitlab-owner/repo-42',
   mergeRequestNumber: 42,
-  attempt: 0,
+  attempts: {},
 };
 
 describe('SPEC-169: Migrate Claude invocation to --bg mode (acceptance)', () => {
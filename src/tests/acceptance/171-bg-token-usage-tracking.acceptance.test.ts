@@ -33,7 +33,7 @@ const REVIEW_INPUT: RunClaudeReviewJobInput = {
   localPath: '/tmp/project',
   mergeRequestId: 'gitlab-owner/repo-42',
   mergeRequestNumber: 42,
-  attempt: 0,
+  attempts: {},
 };
 
 function buildContext() {
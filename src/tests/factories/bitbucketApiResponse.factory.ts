@@ -0,0 +1,125 @@
+interface BitbucketCommentData {
+  id: number
+  raw: string
+  parentId?: number
+  inline?: { path: string; to: number | null; from?: number | null }
+  resolved?: boolean
+  deleted?: boolean
+}
+
+interface BitbucketDataCenterCommentData {
+  id: number
+  text: string
+  action?: 'ADDED' | 'DELETED'
+  anchor?: { path: string; line: number }
+  resolved?: boolean
+  replies?: Array<{ id: number; text: string }>
+}
+
+function dataCenterPage(values: unknown[], nextPageStart?: number): string {
+  return JSON.stringify({
+    size: values.length,
+    limit: 100,
+    values,
+    isLastPage: nextPageStart === undefined,
+    ...(nextPageStart !== undefined ? { nextPageStart } : {}),
+  })
+}
+
+export class BitbucketApiResponseFactory {
+  static createCommentsPage(comments: BitbucketCommentData[], next?: string): string {
+    return JSON.stringify({
+      pagelen: 100,
+      values: comments.map(comment => ({
+        id: comment.id,
+        content: { raw: comment.raw, markup: 'markdown' },
+        deleted: comment.deleted ?? false,
+        ...(comment.parentId !== undefined ? { parent: { id: comment.parentId } } : {}),
+        ...(comment.inline ? { inline: { from: null, ...comment.inline } } : {}),
+        ...(comment.resolved ? { resolution: { type: 'comment_resolution', user: { display_name: 'Dev' } } } : {}),
+      })),
+      ...(next ? { next } : {}),
+    })
+  }
+
+  static createPullRequestResponse(pr: { sourceHash: string; destinationHash: string }): string {
+    return JSON.stringify({
+      id: 7,
+      source: { branch: { name: 'feature/export' }, commit: { hash: pr.sourceHash } },
+      destination: { branch: { name: 'main' }, commit: { hash: pr.destinationHash } },
+    })
+  }
+
+  static createDiffStatPage(entries: Array<{ added: number; removed: number }>, next?: string): string {
+    return JSON.stringify({
+      values: entries.map((entry, index) => ({
+        type: 'diffstat',
+        status: 'modified',
+        lines_added: entry.added,
+        lines_removed: entry.removed,
+        new: { path: `src/file${index}.ts` },
+      })),
+      ...(next ? { next } : {}),
+    })
+  }
+
+  static createCommitsPage(count: number): string {
+    return JSON.stringify({
+      values: Array.from({ length: count }, (_, index) => ({ hash: `commit${index}` })),
+    })
+  }
+
+  /** Activity feed of a Data Center pull request, one COMMENTED activity per comment. */
+  static createDataCenterActivitiesPage(comments: BitbucketDataCenterCommentData[], nextPageStart?: number): string {
+    return dataCenterPage(
+      comments.map((comment, index) => ({
+        id: 5000 + index,
+        action: 'COMMENTED',
+        commentAction: comment.action ?? 'ADDED',
+        comment: {
+          id: comment.id,
+          version: 0,
+          text: comment.text,
+          threadResolved: comment.resolved ?? false,
+          comments: (comment.replies ?? []).map(reply => ({ id: reply.id, version: 0, text: reply.text, comments: [] })),
+        },
+        ...(comment.anchor ? { commentAnchor: { ...comment.anchor, lineType: 'ADDED', fileType: 'TO' } } : {}),
+      })),
+      nextPageStart,
+    )
+  }
+
+  static createDataCenterPullRequestResponse(pr: { fromCommit: string; toCommit: string }): string {
+    return JSON.stringify({
+      id: 7,
+      title: 'Add export',
+      description: 'Closes #2',
+      state: 'OPEN',
+      author: { user: { name: 'jdoe', displayName: 'Jane Doe' }, role: 'AUTHOR' },
+      fromRef: { id: 'refs/heads/feat/export', displayId: 'feat/export', latestCommit: pr.fromCommit },
+      toRef: { id: 'refs/heads/main', displayId: 'main', latestCommit: pr.toCommit },
+      links: { self: [{ href: 'https://bitbucket.example.com/projects/PROJ/repos/my-repo/pull-requests/7' }] },
+    })
+  }
+
+  /** Diff of a Data Center pull request, one hunk per file. */
+  static createDataCenterDiff(files: Array<{ added: number; removed: number }>): string {
+    const lines = (count: number) => Array.from({ length: count }, (_, index) => ({ line: `line ${index}` }))
+    return JSON.stringify({
+      diffs: files.map((file, index) => ({
+        destination: { toString: `src/file${index}.ts` },
+        hunks: [{
+          segments: [
+            { type: 'CONTEXT', lines: lines(3) },
+            { type: 'REMOVED', lines: lines(file.removed) },
+            { type: 'ADDED', lines: lines(file.added) },
+          ],
+        }],
+      })),
+    })
+  }
+
+  static createDataCenterCommitsPage(count: number, nextPageStart?: number): string {
+    return dataCenterPage(Array.from({ length: count }, (_, index) => ({ id: `commit${index}` })), nextPageStart)
+  }
+}
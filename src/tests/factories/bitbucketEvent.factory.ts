@@ -0,0 +1,142 @@
+import type { BitbucketPullRequestEvent } from '@/modules/platform-integration/entities/bitbucket/bitbucketPullRequestEvent.guard.js'
+import type { BitbucketCommentEvent } from '@/modules/platform-integration/entities/bitbucket/bitbucketCommentEvent.guard.js'
+
+type PullRequest = BitbucketPullRequestEvent['pullrequest']
+
+function dataCenterUser(name: string, displayName: string, id: number) {
+  return {
+    name,
+    emailAddress: `${name}@example.com`,
+    id,
+    displayName,
+    active: true,
+    slug: name,
+    type: 'NORMAL',
+  }
+}
+
+function dataCenterRef(branch: string, latestCommit: string) {
+  return {
+    id: `refs/heads/${branch}`,
+    displayId: branch,
+    latestCommit,
+    repository: {
+      slug: 'my-repo',
+      id: 84,
+      name: 'my-repo',
+      hierarchyId: 'af05451fc6b0fa3e8e1c',
+      scmId: 'git',
+      state: 'AVAILABLE',
+      statusMessage: 'Available',
+      forkable: true,
+      project: { key: 'PROJ', id: 84, name: 'Project', public: false, type: 'NORMAL' },
+      public: false,
+    },
+  }
+}
+
+export class BitbucketEventFactory {
+  static createPullRequest(overrides: Partial<PullRequest> = {}): PullRequest {
+    return {
+      id: 7,
+      title: 'feat: add export',
+      description: 'Adds CSV export',
+      state: 'OPEN',
+      draft: false,
+      author: { display_name: 'Dev Eloper', nickname: 'developer' },
+      source: {
+        branch: { name: 'feature/export' },
+        commit: { hash: 'abc123def456' },
+        repository: { full_name: 'my-workspace/my-repo' },
+      },
+      destination: {
+        branch: { name: 'main' },
+        commit: { hash: '000111222333' },
+        repository: { full_name: 'my-workspace/my-repo' },
+      },
+      reviewers: [{ display_name: 'Claude Reviewer', nickname: 'claude-reviewer' }],
+      links: { html: { href: 'https://bitbucket.org/my-workspace/my-repo/pull-requests/7' } },
+      ...overrides,
+    }
+  }
+
+  static createPullRequestEvent(
+    overrides: { pullrequest?: Partial<PullRequest> } = {}
+  ): BitbucketPullRequestEvent {
+    return {
+      actor: { display_name: 'Dev Eloper', nickname: 'developer' },
+      pullrequest: BitbucketEventFactory.createPullRequest(overrides.pullrequest),
+      repository: {
+        full_name: 'my-workspace/my-repo',
+        links: { html: { href: 'https://bitbucket.org/my-workspace/my-repo' } },
+      },
+    }
+  }
+
+  static createCommentEvent(
+    overrides: { raw?: string; nickname?: string } = {}
+  ): BitbucketCommentEvent {
+    return {
+      actor: { display_name: 'Dev Eloper', nickname: overrides.nickname ?? 'developer' },
+      comment: {
+        id: 901,
+        content: { raw: overrides.raw ?? 'Looks good' },
+        user: { display_name: 'Dev Eloper', nickname: overrides.nickname ?? 'developer' },
+      },
+      pullrequest: BitbucketEventFactory.createPullRequest(),
+      repository: { full_name: 'my-workspace/my-repo' },
+    }
+  }
+
+  /** Shape of a Bitbucket Data Center 8.x `pr:*` webhook delivery. */
+  static createDataCenterEvent(
+    overrides: { state?: 'OPEN' | 'MERGED' | 'DECLINED'; reviewer?: string; comment?: { text: string; author: string } } = {}
+  ): Record<string, unknown> {
+    return {
+      eventKey: overrides.comment ? 'pr:comment:added' : 'pr:opened',
+      date: '2026-10-18T09:12:44+0000',
+      actor: dataCenterUser('developer', 'Dev Eloper', 1),
+      pullRequest: {
+        id: 7,
+        version: 0,
+        title: 'feat: add export',
+        description: 'Adds CSV export',
+        state: overrides.state ?? 'OPEN',
+        open: (overrides.state ?? 'OPEN') === 'OPEN',
+        closed: (overrides.state ?? 'OPEN') !== 'OPEN',
+        draft: false,
+        createdDate: 1792315964000,
+        updatedDate: 1792315964000,
+        fromRef: dataCenterRef('feature/export', 'abc123def456'),
+        toRef: dataCenterRef('main', '000111222333'),
+        locked: false,
+        author: { user: dataCenterUser('developer', 'Dev Eloper', 1), role: 'AUTHOR', approved: false, status: 'UNAPPROVED' },
+        reviewers: [
+          {
+            user: dataCenterUser(overrides.reviewer ?? 'claude-reviewer', 'Claude Reviewer', 2),
+            role: 'REVIEWER',
+            approved: false,
+            status: 'UNAPPROVED',
+          },
+        ],
+        participants: [],
+        links: { self: [null] },
+      },
+      ...(overrides.comment
+        ? {
+            comment: {
+              properties: { repositoryId: 84 },
+              id: 901,
+              version: 0,
+              text: overrides.comment.text,
+              author: dataCenterUser(overrides.comment.author, 'Alice', 3),
+              createdDate: 1792315964000,
+              updatedDate: 1792315964000,
+              comments: [],
+              tasks: [],
+            },
+          }
+        : {}),
+    }
+  }
+}
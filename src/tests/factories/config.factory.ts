@@ -25,6 +25,7 @@ export function createTestConfig(overrides?: Partial<Config>): Config {
       maxConcurrent: 2,
       deduplicationWindowMs: 60000,
       jobHistoryRetentionDays: 7,
+      webhookIdempotencyRetentionHours: 24,
     },
     repositories: [createTestRepository()],
     triggerMode: 'full-auto',
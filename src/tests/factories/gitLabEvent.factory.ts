@@ -87,6 +87,20 @@ export class GitLabEventFactory {
     })
   }
 
+  static createWithLabelAdded(labelTitle: string, previousLabels: string[] = []): GitLabMergeRequestEvent {
+    return this.createMergeRequestEvent({
+      object_attributes: {
+        action: 'update',
+      },
+      changes: {
+        labels: {
+          previous: previousLabels.map(title => ({ title })),
+          current: [...previousLabels, labelTitle].map(title => ({ title })),
+        },
+      },
+    })
+  }
+
   static createDraftMr(): GitLabMergeRequestEvent {
     return this.createMergeRequestEvent({
       object_attributes: {
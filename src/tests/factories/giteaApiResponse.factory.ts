@@ -0,0 +1,57 @@
+interface GiteaReviewCommentData {
+  id: number
+  body: string
+  path?: string
+  position?: number
+  originalPosition?: number
+  resolved?: boolean
+}
+
+export class GiteaApiResponseFactory {
+  static createReviews(reviews: Array<{ id: number; commentsCount: number }>): string {
+    return JSON.stringify(
+      reviews.map(review => ({
+        id: review.id,
+        state: 'COMMENT',
+        body: '',
+        comments_count: review.commentsCount,
+        user: { login: 'claude-reviewer' },
+      })),
+    )
+  }
+
+  static createReviewComments(comments: GiteaReviewCommentData[]): string {
+    return JSON.stringify(
+      comments.map(comment => ({
+        id: comment.id,
+        body: comment.body,
+        path: comment.path ?? '',
+        position: comment.position ?? 0,
+        original_position: comment.originalPosition ?? 0,
+        resolver: comment.resolved ? { login: 'developer' } : null,
+        user: { login: 'claude-reviewer' },
+      })),
+    )
+  }
+
+  static createPullRequestResponse(pr: {
+    baseSha: string
+    headSha: string
+    mergeBase?: string
+    additions?: number
+    deletions?: number
+  }): string {
+    return JSON.stringify({
+      number: 12,
+      base: { ref: 'main', sha: pr.baseSha },
+      head: { ref: 'feature/tags', sha: pr.headSha },
+      ...(pr.mergeBase ? { merge_base: pr.mergeBase } : {}),
+      ...(pr.additions !== undefined ? { additions: pr.additions } : {}),
+      ...(pr.deletions !== undefined ? { deletions: pr.deletions } : {}),
+    })
+  }
+
+  static createCommits(count: number): string {
+    return JSON.stringify(Array.from({ length: count }, (_, index) => ({ sha: `sha-${index}` })))
+  }
+}
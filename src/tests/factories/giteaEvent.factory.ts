@@ -0,0 +1,69 @@
+import type { GiteaPullRequestEvent } from '@/modules/platform-integration/entities/gitea/giteaPullRequestEvent.guard.js'
+import type { GiteaIssueCommentEvent } from '@/modules/platform-integration/entities/gitea/giteaIssueCommentEvent.guard.js'
+
+type PullRequest = GiteaPullRequestEvent['pull_request']
+
+const REPOSITORY = {
+  full_name: 'side-projects/notes',
+  html_url: 'https://git.example.com/side-projects/notes',
+  clone_url: 'https://git.example.com/side-projects/notes.git',
+}
+
+export class GiteaEventFactory {
+  static createPullRequest(overrides: Partial<PullRequest> = {}): PullRequest {
+    return {
+      number: 12,
+      title: 'feat: add tagging',
+      body: 'Adds tags to notes',
+      state: 'open',
+      merged: false,
+      html_url: 'https://git.example.com/side-projects/notes/pulls/12',
+      user: { login: 'developer' },
+      head: {
+        ref: 'feature/tags',
+        sha: 'abc123def456',
+        repo: { full_name: REPOSITORY.full_name, clone_url: REPOSITORY.clone_url },
+      },
+      base: { ref: 'main', repo: { full_name: REPOSITORY.full_name } },
+      requested_reviewers: [{ login: 'claude-reviewer' }],
+      assignees: null,
+      ...overrides,
+    }
+  }
+
+  static createPullRequestEvent(
+    overrides: Partial<Omit<GiteaPullRequestEvent, 'pull_request'>> & { pull_request?: Partial<PullRequest> } = {}
+  ): GiteaPullRequestEvent {
+    const { pull_request, ...rest } = overrides
+    const pullRequest = GiteaEventFactory.createPullRequest(pull_request)
+    return {
+      action: 'review_requested',
+      number: pullRequest.number,
+      pull_request: pullRequest,
+      repository: REPOSITORY,
+      sender: { login: 'developer' },
+      requested_reviewer: { login: 'claude-reviewer' },
+      ...rest,
+    }
+  }
+
+  static createIssueCommentEvent(
+    overrides: { body?: string; login?: string; isPull?: boolean } = {}
+  ): GiteaIssueCommentEvent {
+    const isPull = overrides.isPull ?? true
+    return {
+      action: 'created',
+      issue: {
+        number: 12,
+        pull_request: isPull ? { html_url: 'https://git.example.com/side-projects/notes/pulls/12' } : null,
+      },
+      comment: {
+        body: overrides.body ?? 'Looks good',
+        user: { login: overrides.login ?? 'developer' },
+      },
+      repository: REPOSITORY,
+      sender: { login: overrides.login ?? 'developer' },
+      is_pull: isPull,
+    }
+  }
+}
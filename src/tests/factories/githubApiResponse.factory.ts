@@ -6,6 +6,20 @@ interface GitHubThreadData {
   body: string
 }
 
+interface GitHubInventoryThreadData {
+  id: string
+  isResolved?: boolean
+  isOutdated?: boolean
+  firstCommentId?: number | null
+}
+
+interface GitHubReviewThreadsPageData {
+  totalCount: number
+  endCursor: string | null
+  hasNextPage: boolean
+  threads: GitHubInventoryThreadData[]
+}
+
 interface GitHubPullRequestData {
   base: { sha: string }
   head: { sha: string }
@@ -35,4 +49,27 @@ export class GitHubApiResponseFactory {
       }
     })
   }
+
+  static createReviewThreadsPage(page: GitHubReviewThreadsPageData): string {
+    return JSON.stringify({
+      data: {
+        repository: {
+          pullRequest: {
+            reviewThreads: {
+              totalCount: page.totalCount,
+              pageInfo: { hasNextPage: page.hasNextPage, endCursor: page.endCursor },
+              nodes: page.threads.map(thread => ({
+                id: thread.id,
+                isResolved: thread.isResolved ?? false,
+                isOutdated: thread.isOutdated ?? false,
+                comments: {
+                  nodes: thread.firstCommentId === null ? [] : [{ databaseId: thread.firstCommentId ?? 1 }],
+                },
+              })),
+            },
+          },
+        },
+      },
+    })
+  }
 }
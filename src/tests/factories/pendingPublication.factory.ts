@@ -0,0 +1,33 @@
+import type { PendingPublication } from '@/modules/review-execution/entities/pendingPublication/pendingPublication.schema.js';
+
+export const PendingPublicationFactory = {
+  create(overrides: Partial<PendingPublication> = {}): PendingPublication {
+    return {
+      mergeRequestId: 'github-acme/api-7',
+      localPath: '/home/user/projects/api',
+      platform: 'github',
+      projectPath: 'acme/api',
+      mergeRequestNumber: 7,
+      jobType: 'review',
+      parkedAt: '2026-10-18T09:00:00.000Z',
+      baseUrl: 'https://github.com',
+      verdict: 'needs_fixes',
+      diffMetadata: { baseSha: 'base', headSha: 'head', startSha: 'start' },
+      items: [
+        {
+          itemId: '1',
+          action: { type: 'POST_COMMENT', body: '## Review summary' },
+          decision: 'pending',
+          edited: false,
+        },
+        {
+          itemId: '2',
+          action: { type: 'POST_INLINE_COMMENT', filePath: 'src/a.ts', line: 12, body: 'Null check missing' },
+          decision: 'pending',
+          edited: false,
+        },
+      ],
+      ...overrides,
+    };
+  },
+};
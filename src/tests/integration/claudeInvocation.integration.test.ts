@@ -118,7 +118,7 @@ describe('SPEC-169 — end-to-end integration: production wire-up reaches runCla
         localPath: repoPath,
         mergeRequestId: 'github-acme/repo-42',
         mergeRequestNumber: 42,
-        attempt: 0,
+        attempts: {},
       },
       {
         sessionGateway,
@@ -180,7 +180,7 @@ describe('SPEC-169 — end-to-end integration: production wire-up reaches runCla
         localPath: scratchDir,
         mergeRequestId: 'github-acme/repo-1',
         mergeRequestNumber: 1,
-        attempt: 0,
+        attempts: {},
       },
       {
         sessionGateway,
@@ -1,4 +1,7 @@
-import type { IdempotencyStore } from '@/modules/platform-integration/entities/idempotency/idempotencyStore.gateway.js';
+import type {
+  IdempotencyKeyEntry,
+  IdempotencyStore,
+} from '@/modules/platform-integration/entities/idempotency/idempotencyStore.gateway.js';
 
 export class StubIdempotencyStore implements IdempotencyStore {
   readonly recordedKeys: string[] = [];
@@ -13,6 +16,18 @@ export class StubIdempotencyStore implements IdempotencyStore {
     return true;
   }
 
+  async listRecent(limit: number): Promise<IdempotencyKeyEntry[]> {
+    return [...this.present]
+      .reverse()
+      .slice(0, limit)
+      .map((eventKey) => ({
+        eventKey,
+        recordedAt: 0,
+        expiresAt: 0,
+        hits: this.recordedKeys.filter((key) => key === eventKey).length - 1,
+      }));
+  }
+
   get entryCount(): number {
     return this.present.size;
   }
@@ -0,0 +1,30 @@
+import type {
+  McpToolCallResult,
+  McpToolClient,
+  McpToolDefinition,
+} from '@/modules/claude-invocation/entities/reviewEngine/mcpToolClient.gateway.js';
+
+export class StubMcpToolClient implements McpToolClient {
+  readonly calls: Array<{ name: string; args: Record<string, unknown> }> = [];
+  closed = false;
+
+  constructor(
+    private readonly tools: McpToolDefinition[] = [
+      { name: 'set_phase', description: 'Set the current review phase', inputSchema: { type: 'object' } },
+      { name: 'add_action', description: 'Add an action to be executed', inputSchema: { type: 'object' } },
+    ],
+  ) {}
+
+  async listTools(): Promise<McpToolDefinition[]> {
+    return this.tools;
+  }
+
+  async callTool(name: string, args: Record<string, unknown>): Promise<McpToolCallResult> {
+    this.calls.push({ name, args });
+    return { text: `${name} ok`, isError: false };
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+}
@@ -0,0 +1,46 @@
+import type { PendingPublicationGateway } from '@/modules/review-execution/entities/pendingPublication/pendingPublication.gateway.js';
+import type { PendingPublication } from '@/modules/review-execution/entities/pendingPublication/pendingPublication.schema.js';
+
+export class StubPendingPublicationGateway implements PendingPublicationGateway {
+  private storage = new Map<string, PendingPublication>();
+  private claimed = new Map<string, PendingPublication>();
+
+  async save(publication: PendingPublication): Promise<void> {
+    this.storage.set(publication.mergeRequestId, structuredClone(publication));
+  }
+
+  async load(mergeRequestId: string): Promise<PendingPublication | null> {
+    const found = this.storage.get(mergeRequestId);
+    return found ? structuredClone(found) : null;
+  }
+
+  async listAll(): Promise<PendingPublication[]> {
+    return Array.from(this.storage.values()).map((entry) => structuredClone(entry));
+  }
+
+  async delete(mergeRequestId: string): Promise<boolean> {
+    return this.storage.delete(mergeRequestId);
+  }
+
+  async claim(mergeRequestId: string): Promise<PendingPublication | null> {
+    const found = this.storage.get(mergeRequestId);
+    if (!found) {
+      return null;
+    }
+    this.storage.delete(mergeRequestId);
+    this.claimed.set(mergeRequestId, found);
+    return structuredClone(found);
+  }
+
+  async releaseClaim(mergeRequestId: string): Promise<void> {
+    this.claimed.delete(mergeRequestId);
+  }
+
+  async isClaimed(mergeRequestId: string): Promise<boolean> {
+    return this.claimed.has(mergeRequestId);
+  }
+
+  prepopulate(publication: PendingPublication): void {
+    this.storage.set(publication.mergeRequestId, structuredClone(publication));
+  }
+}
@@ -0,0 +1,20 @@
+import type {
+  PullRequestReviewGateway,
+  PullRequestReviewInput,
+} from '@/modules/platform-integration/entities/pullRequestReview/pullRequestReview.gateway.js';
+
+export class StubPullRequestReviewGateway implements PullRequestReviewGateway {
+  readonly calls: PullRequestReviewInput[] = [];
+  private error: Error | null = null;
+
+  setError(error: Error): void {
+    this.error = error;
+  }
+
+  async submitReview(input: PullRequestReviewInput): Promise<void> {
+    this.calls.push(input);
+    if (this.error) {
+      throw this.error;
+    }
+  }
+}
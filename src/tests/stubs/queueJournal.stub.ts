@@ -0,0 +1,20 @@
+import type { QueueJournalGateway } from '@/modules/review-execution/entities/queueJournal/queueJournal.gateway.js';
+import type { QueueJournalEntry } from '@/modules/review-execution/entities/queueJournal/queueJournal.schema.js';
+
+export class InMemoryQueueJournalGateway implements QueueJournalGateway {
+  public entries: QueueJournalEntry[] = [];
+  public rewriteCount = 0;
+
+  append(entry: QueueJournalEntry): void {
+    this.entries.push(entry);
+  }
+
+  readAll(): QueueJournalEntry[] {
+    return [...this.entries];
+  }
+
+  replaceAll(entries: QueueJournalEntry[]): void {
+    this.rewriteCount += 1;
+    this.entries = [...entries];
+  }
+}
@@ -8,6 +8,10 @@ import type {
 } from '@/modules/review-execution/entities/reviewContext/reviewContext.js'
 import type { ReviewContextAction } from '@/modules/review-execution/entities/reviewAction/reviewAction.js'
 import type { ReviewContextResult } from '@/modules/review-execution/entities/reviewContext/reviewContextResult.schema.js'
+import type {
+  ReviewFinding,
+  SubmittedReviewResult,
+} from '@/modules/review-execution/entities/reviewFinding/reviewFinding.schema.js'
 import { ReviewContextFactory } from '../factories/reviewContext.factory.js'
 
 export class StubReviewContextGateway implements ReviewContextGateway {
@@ -84,6 +88,24 @@ export class StubReviewContextGateway implements ReviewContextGateway {
     return { success: true }
   }
 
+  appendFinding(_localPath: string, mergeRequestId: string, finding: ReviewFinding): UpdateResult {
+    const context = this.contexts.get(mergeRequestId)
+    if (!context) {
+      return { success: false }
+    }
+    context.findings = [...(context.findings ?? []), finding]
+    return { success: true }
+  }
+
+  submitResult(_localPath: string, mergeRequestId: string, result: SubmittedReviewResult): UpdateResult {
+    const context = this.contexts.get(mergeRequestId)
+    if (!context) {
+      return { success: false }
+    }
+    context.submittedResult = result
+    return { success: true }
+  }
+
   listAll(_localPath: string): ReviewContext[] {
     return Array.from(this.contexts.values())
   }
@@ -0,0 +1,35 @@
+import type { ReviewDiffGateway } from '@/modules/review-execution/entities/reviewDiff/reviewDiff.gateway.js';
+import type { ChangedFile, DiffRange, FileDiff } from '@/modules/review-execution/entities/reviewDiff/reviewDiff.js';
+
+export class StubReviewDiffGateway implements ReviewDiffGateway {
+  mergeBaseSha = 'merge-base-sha';
+  changedFiles: ChangedFile[] = [];
+  fileDiffs: FileDiff[] = [];
+  failure: Error | null = null;
+  readonly ranges: DiffRange[] = [];
+  private readonly files = new Map<string, string>();
+
+  setFile(sha: string, path: string, content: string): void {
+    this.files.set(`${sha}:${path}`, content);
+  }
+
+  async mergeBase(_cwd: string, range: DiffRange): Promise<string> {
+    this.ranges.push(range);
+    if (this.failure) throw this.failure;
+    return this.mergeBaseSha;
+  }
+
+  async listChangedFiles(_cwd: string, range: DiffRange): Promise<ChangedFile[]> {
+    this.ranges.push(range);
+    return this.changedFiles;
+  }
+
+  async readFileDiffs(_cwd: string, range: DiffRange, paths: readonly string[] = []): Promise<FileDiff[]> {
+    this.ranges.push(range);
+    return paths.length > 0 ? this.fileDiffs.filter(file => paths.includes(file.path)) : this.fileDiffs;
+  }
+
+  async readFileAtRef(_cwd: string, sha: string, path: string): Promise<string | null> {
+    return this.files.get(`${sha}:${path}`) ?? null;
+  }
+}
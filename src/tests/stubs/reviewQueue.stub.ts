@@ -1,14 +1,30 @@
 import type { ReviewJob } from '../../frameworks/queue/pQueueAdapter.js';
 import type { ReviewQueuePort } from '@/modules/review-execution/usecases/triggerReview.usecase.js';
 import type { CancelReviewQueuePort } from '@/modules/review-execution/usecases/cancelReview.usecase.js';
+import type { SetJobPriorityQueuePort } from '@/modules/review-execution/usecases/setJobPriority.usecase.js';
+import type { StartDeferredReviewQueuePort } from '@/modules/review-execution/usecases/startDeferredReview.usecase.js';
+import type { SupersedeReviewQueuePort } from '@/modules/review-execution/usecases/supersedeReview.usecase.js';
 
 type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
 
-export class StubReviewQueuePort implements ReviewQueuePort, CancelReviewQueuePort {
+export class StubReviewQueuePort
+  implements
+    ReviewQueuePort,
+    CancelReviewQueuePort,
+    SetJobPriorityQueuePort,
+    StartDeferredReviewQueuePort,
+    SupersedeReviewQueuePort
+{
   private jobStatuses = new Map<string, JobStatus>();
   public enqueuedJobs: ReviewJob[] = [];
   public shouldRejectEnqueue = false;
   public cancelledJobs: string[] = [];
+  public priorities = new Map<string, number>();
+  public deferredJobs = new Set<string>();
+  public startedDeferredJobs: string[] = [];
+  public runningJobs = new Map<string, ReviewJob>();
+  public supersededJobs: string[] = [];
+  private settlements = new Map<string, { settled: Promise<void>; settle: () => void }>();
 
   hasActiveJob(jobId: string): boolean {
     const status = this.jobStatuses.get(jobId);
@@ -42,6 +58,62 @@ export class StubReviewQueuePort implements ReviewQueuePort, CancelReviewQueuePo
     return false;
   }
 
+  setJobPriority(jobId: string, priority: number): boolean {
+    if (this.jobStatuses.get(jobId) !== 'queued') {
+      return false;
+    }
+    this.priorities.set(jobId, priority);
+    return true;
+  }
+
+  startDeferredJob(jobId: string): boolean {
+    if (!this.deferredJobs.delete(jobId)) {
+      return false;
+    }
+    this.startedDeferredJobs.push(jobId);
+    return true;
+  }
+
+  getRunningJob(jobId: string): ReviewJob | null {
+    return this.runningJobs.get(jobId) ?? null;
+  }
+
+  supersedeJob(jobId: string): boolean {
+    if (!this.runningJobs.delete(jobId)) {
+      return false;
+    }
+    this.supersededJobs.push(jobId);
+    return true;
+  }
+
+  whenJobSettled(jobId: string): Promise<void> {
+    return this.settlements.get(jobId)?.settled ?? Promise.resolve();
+  }
+
+  addRunningJob(job: ReviewJob): void {
+    this.jobStatuses.set(job.id, 'running');
+    this.runningJobs.set(job.id, job);
+  }
+
+  /** Keeps a running job from stopping until `settleJob`. */
+  holdJob(jobId: string): void {
+    let settle: () => void = () => {};
+    const settled = new Promise<void>((resolve) => {
+      settle = resolve;
+    });
+    this.settlements.set(jobId, { settled, settle });
+  }
+
+  settleJob(jobId: string): void {
+    this.settlements.get(jobId)?.settle();
+    this.settlements.delete(jobId);
+  }
+
+  addDeferredJob(jobId: string): void {
+    this.jobStatuses.set(jobId, 'queued');
+    this.deferredJobs.add(jobId);
+  }
+
   addActiveJob(jobId: string, status: JobStatus = 'running'): void {
     this.jobStatuses.set(jobId, status);
   }
@@ -54,6 +126,12 @@ export class StubReviewQueuePort implements ReviewQueuePort, CancelReviewQueuePo
     this.jobStatuses.clear();
     this.enqueuedJobs = [];
     this.cancelledJobs = [];
+    this.priorities.clear();
+    this.deferredJobs.clear();
+    this.startedDeferredJobs = [];
+    this.runningJobs.clear();
+    this.supersededJobs = [];
+    this.settlements.clear();
     this.shouldRejectEnqueue = false;
   }
 }
@@ -0,0 +1,15 @@
+import type { ShadowLogGateway } from '@/modules/review-execution/entities/shadowLog/shadowLog.gateway.js';
+import type { ShadowLogEntry } from '@/modules/review-execution/entities/shadowLog/shadowLog.schema.js';
+
+export class InMemoryShadowLogGateway implements ShadowLogGateway {
+  private readonly logs = new Map<string, ShadowLogEntry[]>();
+
+  append(localPath: string, reportFile: string, entry: ShadowLogEntry): void {
+    const key = `${localPath}:${reportFile}`;
+    this.logs.set(key, [...(this.logs.get(key) ?? []), entry]);
+  }
+
+  read(localPath: string, reportFile: string): ShadowLogEntry[] {
+    return [...(this.logs.get(`${localPath}:${reportFile}`) ?? [])];
+  }
+}
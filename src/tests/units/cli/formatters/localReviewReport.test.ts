@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { formatLocalReviewReport } from '@/cli/formatters/localReviewReport.js';
+
+const completed = {
+  status: 'completed' as const,
+  base: 'main',
+  head: 'HEAD',
+  baseSha: '1111111aaaaaaaaa',
+  headSha: '2222222bbbbbbbbb',
+  skill: 'review-back',
+  model: 'sonnet' as const,
+  report: '# Review\nOne blocking issue.',
+  findings: [
+    { filePath: 'src/cart.ts', line: 12, body: 'The total ignores discounts.\nApply them first.' },
+    { filePath: null, line: null, body: 'Summary' },
+  ],
+  durationMs: 180_000,
+};
+
+describe('formatLocalReviewReport', () => {
+  it('prints the range, the report and each finding with its location', () => {
+    const output = formatLocalReviewReport(completed);
+
+    expect(output).toContain('Review of main..HEAD (1111111a..2222222b)');
+    expect(output).toContain('# Review\nOne blocking issue.');
+    expect(output).toContain('Findings (2):');
+    expect(output).toContain('  - src/cart.ts:12: The total ignores discounts.\n    Apply them first.');
+    expect(output).toContain('  - (general): Summary');
+  });
+
+  it('says when there is no finding', () => {
+    expect(formatLocalReviewReport({ ...completed, findings: [] })).toContain('Findings (0):\n  none');
+  });
+});
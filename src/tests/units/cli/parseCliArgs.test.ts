@@ -301,6 +301,34 @@ describe('parseCliArgs', () => {
     });
   });
 
+  describe('review command', () => {
+    it('should parse the range, path and focus', () => {
+      const result = parseCliArgs(['review', '--path', '.', '--base', 'main', '--head', 'feat/x', '--focus', 'back']);
+
+      expect(result).toEqual({
+        command: 'review',
+        path: '.',
+        base: 'main',
+        head: 'feat/x',
+        focus: 'back',
+        json: false,
+      });
+    });
+
+    it('should default the head to HEAD', () => {
+      const result = parseCliArgs(['review', '--base', 'main', '--json']);
+
+      expect(result).toEqual({
+        command: 'review',
+        path: undefined,
+        base: 'main',
+        head: 'HEAD',
+        focus: undefined,
+        json: true,
+      });
+    });
+  });
+
   describe('discover command', () => {
     it('should detect discover command with default values', () => {
       const result = parseCliArgs(['discover']);
@@ -4,6 +4,8 @@ import {
   loadProjectConfig,
   getProjectLanguage,
   getProjectRetentionDays,
+  getProjectRetryPolicies,
+  getProjectReviewEngine,
   getProjectAgentsOrFocusDefaults,
 } from '@/config/projectConfig.js';
 import {
@@ -571,3 +573,413 @@ describe('getProjectAgentsOrFocusDefaults', () => {
     expect(getProjectAgentsOrFocusDefaults('/nonexistent')).toBeUndefined();
   });
 });
+
+describe('loadProjectConfig — triggers', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  function mockConfigWithTriggers(triggers: unknown): void {
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(
+      JSON.stringify({
+        github: true,
+        gitlab: false,
+        defaultModel: 'sonnet',
+        reviewSkill: 'review-front',
+        reviewFollowupSkill: 'review-followup',
+        triggers,
+      }),
+    );
+  }
+
+  it('leaves triggers undefined when the block is absent', () => {
+    mockConfigWithTriggers(undefined);
+
+    expect(loadProjectConfig('/fake/path')?.triggers).toBeUndefined();
+  });
+
+  it('fills unspecified trigger rules with their defaults', () => {
+    mockConfigWithTriggers({ targetBranches: ['main', 'release/*'] });
+
+    expect(loadProjectConfig('/fake/path')?.triggers).toEqual({
+      labels: ['needs-review'],
+      commands: [],
+      targetBranches: ['main', 'release/*'],
+      paths: [],
+      skipDrafts: true,
+      authors: { allow: [], deny: [] },
+    });
+  });
+
+  it('rejects a command that does not start with a slash', () => {
+    mockConfigWithTriggers({ commands: ['review'] });
+
+    expect(() => loadProjectConfig('/fake/path')).toThrow(/Invalid triggers\.commands\.0/);
+  });
+
+  it('rejects unknown trigger keys', () => {
+    mockConfigWithTriggers({ skipDraft: false });
+
+    expect(() => loadProjectConfig('/fake/path')).toThrow(/Invalid triggers/);
+  });
+});
+
+describe('loadProjectConfig — commitStatus', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it.each([
+    [true, true],
+    ['yes', undefined],
+    [undefined, undefined],
+  ])('reads commitStatus %s as %s', (value, expected) => {
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(
+      JSON.stringify({
+        github: true,
+        gitlab: false,
+        defaultModel: 'sonnet',
+        reviewSkill: 'review-front',
+        reviewFollowupSkill: 'review-followup',
+        commitStatus: value,
+      }),
+    );
+
+    expect(loadProjectConfig('/fake/path')?.commitStatus).toBe(expected);
+  });
+});
+
+describe('loadProjectConfig — incrementalFollowups', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it.each([
+    [true, true],
+    [false, undefined],
+    [undefined, undefined],
+  ])('reads incrementalFollowups %s as %s', (value, expected) => {
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(
+      JSON.stringify({
+        github: true,
+        gitlab: false,
+        defaultModel: 'sonnet',
+        reviewSkill: 'review-front',
+        reviewFollowupSkill: 'review-followup',
+        incrementalFollowups: value,
+      }),
+    );
+
+    expect(loadProjectConfig('/fake/path')?.incrementalFollowups).toBe(expected);
+  });
+});
+
+describe('loadProjectConfig — supersedeOnPush', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it.each([
+    [true, true],
+    [false, undefined],
+    [undefined, undefined],
+  ])('reads supersedeOnPush %s as %s', (value, expected) => {
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(
+      JSON.stringify({
+        github: true,
+        gitlab: false,
+        defaultModel: 'sonnet',
+        reviewSkill: 'review-front',
+        reviewFollowupSkill: 'review-followup',
+        supersedeOnPush: value,
+      }),
+    );
+
+    expect(loadProjectConfig('/fake/path')?.supersedeOnPush).toBe(expected);
+  });
+});
+
+describe('loadProjectConfig — publishMode', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  function mockConfigWithPublishMode(publishMode: unknown): void {
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(
+      JSON.stringify({
+        github: true,
+        gitlab: false,
+        defaultModel: 'sonnet',
+        reviewSkill: 'review-front',
+        reviewFollowupSkill: 'review-followup',
+        publishMode,
+      }),
+    );
+  }
+
+  it.each([
+    ['shadow', 'shadow'],
+    ['live', 'live'],
+    [undefined, undefined],
+  ])('reads publishMode %s as %s', (value, expected) => {
+    mockConfigWithPublishMode(value);
+
+    expect(loadProjectConfig('/fake/path')?.publishMode).toBe(expected);
+  });
+
+  it('rejects an unknown publishMode', () => {
+    mockConfigWithPublishMode('dry-run');
+
+    expect(() => loadProjectConfig('/fake/path')).toThrow(/Invalid publishMode/);
+  });
+});
+
+describe('loadProjectConfig — reviewBeforePublish', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it.each([
+    [true, true],
+    [false, undefined],
+    [undefined, undefined],
+  ])('reads reviewBeforePublish %s as %s', (value, expected) => {
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(
+      JSON.stringify({
+        github: true,
+        gitlab: false,
+        defaultModel: 'sonnet',
+        reviewSkill: 'review-front',
+        reviewFollowupSkill: 'review-followup',
+        reviewBeforePublish: value,
+      }),
+    );
+
+    expect(loadProjectConfig('/fake/path')?.reviewBeforePublish).toBe(expected);
+  });
+});
+
+describe('loadProjectConfig — priority', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  function mockConfigWithPriority(priority: unknown): void {
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(
+      JSON.stringify({
+        github: true,
+        gitlab: false,
+        defaultModel: 'sonnet',
+        reviewSkill: 'review-front',
+        reviewFollowupSkill: 'review-followup',
+        priority,
+      }),
+    );
+  }
+
+  it('fills unspecified priority rules with their defaults', () => {
+    mockConfigWithPriority({ labels: { hotfix: 'urgent' } });
+
+    expect(loadProjectConfig('/fake/path')?.priority).toEqual({
+      labels: { hotfix: 'urgent' },
+      targetBranches: {},
+      followupsFirst: false,
+    });
+  });
+
+  it('rejects an unknown lane', () => {
+    mockConfigWithPriority({ targetBranches: { 'release/*': 'critical' } });
+
+    expect(() => loadProjectConfig('/fake/path')).toThrow(/Invalid priority\.targetBranches\.release\/\*/);
+  });
+});
+
+describe('loadProjectConfig — schedule', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  function mockConfigWithSchedule(schedule: unknown): void {
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(
+      JSON.stringify({
+        github: true,
+        gitlab: false,
+        defaultModel: 'sonnet',
+        reviewSkill: 'review-front',
+        reviewFollowupSkill: 'review-followup',
+        schedule,
+      }),
+    );
+  }
+
+  it('parses the review windows of the project', () => {
+    mockConfigWithSchedule({ timezone: 'Europe/Paris', windows: [{ days: ['weekdays'], from: '19:00', to: '08:00' }] });
+
+    expect(loadProjectConfig('/fake/path')?.schedule).toEqual({
+      timezone: 'Europe/Paris',
+      windows: [{ days: ['mon', 'tue', 'wed', 'thu', 'fri'], from: '19:00', to: '08:00' }],
+    });
+  });
+
+  it('rejects an unknown time zone', () => {
+    mockConfigWithSchedule({ timezone: 'Paris', windows: [{ from: '19:00', to: '08:00' }] });
+
+    expect(() => loadProjectConfig('/fake/path')).toThrow(/Invalid schedule\.timezone/);
+  });
+});
+
+describe('loadProjectConfig — retry', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  function mockConfigWithRetry(retry: unknown): void {
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(
+      JSON.stringify({
+        github: true,
+        gitlab: false,
+        defaultModel: 'sonnet',
+        reviewSkill: 'review-front',
+        reviewFollowupSkill: 'review-followup',
+        retry,
+      }),
+    );
+  }
+
+  it('parses the retry policy overrides of the project', () => {
+    mockConfigWithRetry({ timeout: { maxAttempts: 0 }, 'supervisor-lost': { initialDelayMs: 300000 } });
+
+    expect(loadProjectConfig('/fake/path')?.retry).toEqual({
+      timeout: { maxAttempts: 0 },
+      'supervisor-lost': { initialDelayMs: 300000 },
+    });
+  });
+
+  it('rejects an unknown failure class', () => {
+    mockConfigWithRetry({ crash: { maxAttempts: 1 } });
+
+    expect(() => loadProjectConfig('/fake/path')).toThrow(/Invalid retry/);
+  });
+
+  it('applies the overrides over the default policies', () => {
+    mockConfigWithRetry({ timeout: { maxAttempts: 3 } });
+
+    expect(getProjectRetryPolicies('/fake/path').timeout.maxAttempts).toBe(3);
+    expect(getProjectRetryPolicies('/fake/path')['rate-limited'].maxAttempts).toBe(5);
+  });
+});
+
+describe('loadProjectConfig — reviewEngine', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  function mockConfigWithReviewEngine(reviewEngine: unknown): void {
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(
+      JSON.stringify({
+        github: true,
+        gitlab: false,
+        defaultModel: 'sonnet',
+        reviewSkill: 'review-front',
+        reviewFollowupSkill: 'review-followup',
+        reviewEngine,
+      }),
+    );
+  }
+
+  it('parses an OpenAI-compatible engine', () => {
+    mockConfigWithReviewEngine({ provider: 'openai-compatible', baseUrl: 'http://localhost:11434/v1', model: 'qwen2.5-coder:32b' });
+
+    expect(getProjectReviewEngine('/fake/path')).toEqual({
+      provider: 'openai-compatible',
+      baseUrl: 'http://localhost:11434/v1',
+      model: 'qwen2.5-coder:32b',
+    });
+  });
+
+  it('defaults to the Claude CLI', () => {
+    mockConfigWithReviewEngine(undefined);
+
+    expect(getProjectReviewEngine('/fake/path')).toEqual({ provider: 'claude' });
+  });
+
+  it('rejects an OpenAI-compatible engine without a model', () => {
+    mockConfigWithReviewEngine({ provider: 'openai-compatible', baseUrl: 'http://localhost:8080/v1' });
+
+    expect(() => loadProjectConfig('/fake/path')).toThrow(/Invalid reviewEngine\.model/);
+  });
+
+  it('rejects an unknown provider', () => {
+    mockConfigWithReviewEngine({ provider: 'copilot' });
+
+    expect(() => loadProjectConfig('/fake/path')).toThrow(/Invalid reviewEngine/);
+  });
+});
+
+describe('loadProjectConfig — agent dispatch settings', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  function mockConfigWithAgents(agents: unknown): void {
+    vi.mocked(fs.existsSync).mockReturnValue(true);
+    vi.mocked(fs.readFileSync).mockReturnValue(
+      JSON.stringify({
+        github: true,
+        gitlab: false,
+        defaultModel: 'sonnet',
+        reviewSkill: 'review-front',
+        reviewFollowupSkill: 'review-followup',
+        agents,
+      }),
+    );
+  }
+
+  it('keeps the model, tools, timeout, conditions and prompt file of an agent', () => {
+    const security = {
+      name: 'security',
+      displayName: 'Security',
+      model: 'opus',
+      allowedTools: ['Read', 'Grep'],
+      timeoutMs: 600000,
+      enabledWhen: { paths: ['src/**'], languages: ['typescript'] },
+      promptFile: '.claude/agents/security.md',
+    };
+    mockConfigWithAgents([security, { name: 'code-quality', displayName: 'Code Quality', model: 'haiku' }]);
+
+    expect(loadProjectConfig('/fake/path')?.agents).toEqual([
+      security,
+      { name: 'code-quality', displayName: 'Code Quality', model: 'haiku' },
+    ]);
+  });
+
+  it.each([
+    [{ model: 'gpt-4' }, /Invalid agents\[0\]\.model/],
+    [{ allowedTools: [] }, /Invalid agents\[0\]\.allowedTools/],
+    [{ timeoutMs: 1.5 }, /Invalid agents\[0\]\.timeoutMs/],
+    [{ enabledWhen: {} }, /Invalid agents\[0\]\.enabledWhen: must set paths or languages/],
+    [{ promptFile: '../secrets.md' }, /Invalid agents\[0\]\.promptFile: must be a path inside the project/],
+  ])('rejects %o', (settings, error) => {
+    mockConfigWithAgents([{ name: 'security', displayName: 'Security', ...settings }]);
+
+    expect(() => loadProjectConfig('/fake/path')).toThrow(error);
+  });
+
+  it('keeps the format error for an agent without a display name', () => {
+    mockConfigWithAgents([{ name: 'security' }]);
+
+    expect(() => loadProjectConfig('/fake/path')).toThrow(
+      'Invalid agents format: must be array of { name: string, displayName: string }',
+    );
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { formatTime, formatDuration, formatPhase, formatLogTime } from '@/dashboard/modules/formatting.js';
+import { formatTime, formatDuration, formatPhase, formatLogTime, formatDeferredUntil } from '@/dashboard/modules/formatting.js';
 import { setLanguage } from '@/dashboard/modules/i18n.js';
 
 describe('formatTime', () => {
@@ -112,3 +112,20 @@ describe('formatLogTime', () => {
     expect(result).toMatch(/\d{1,2}:\d{2}:\d{2}/);
   });
 });
+
+describe('formatDeferredUntil', () => {
+  it('should return the time alone for an opening later today', () => {
+    const opening = new Date();
+    opening.setHours(23, 59, 0, 0);
+    expect(formatDeferredUntil(opening.toISOString())).toMatch(/^\d{1,2}:\d{2}( [AP]M)?$/);
+  });
+
+  it('should prefix the weekday for an opening on another day', () => {
+    const opening = new Date(Date.now() + 2 * 86400000);
+    expect(formatDeferredUntil(opening.toISOString())).toMatch(/^\S+ \d{1,2}:\d{2}/);
+  });
+
+  it('should return dash for missing date', () => {
+    expect(formatDeferredUntil(null)).toBe('-');
+  });
+});
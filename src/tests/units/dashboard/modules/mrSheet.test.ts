@@ -1,5 +1,10 @@
 import { describe, it, expect } from 'vitest';
-import { renderMrSheetContent } from '@/dashboard/modules/mrSheet.js';
+import {
+  renderLinkedMergeRequestsSection,
+  renderMrSheetContent,
+  renderPendingPublicationSection,
+  renderReviewFindingsSection,
+} from '@/dashboard/modules/mrSheet.js';
 
 const translate = (key: string) => key;
 
@@ -30,3 +35,81 @@ describe('renderMrSheetContent', () => {
     expect(html).not.toContain('<script>alert');
   });
 });
+
+describe('renderPendingPublicationSection', () => {
+  const publication = {
+    mergeRequestId: 'gitlab-group/project-42',
+    items: [
+      { itemId: '1', decision: 'approved', edited: true, action: { type: 'POST_COMMENT', body: 'Summary <b>' } },
+      { itemId: '2', decision: 'pending', edited: false, action: { type: 'POST_INLINE_COMMENT', filePath: 'src/a.ts', line: 3, body: 'Nit' } },
+    ],
+  };
+
+  it('renders nothing without a pending publication', () => {
+    expect(renderPendingPublicationSection(null, translate)).toBe('');
+  });
+
+  it('renders each comment as an editable text with its decision', () => {
+    const html = renderPendingPublicationSection(publication, translate);
+
+    expect(html).toContain('Summary &lt;b&gt;');
+    expect(html).toContain('src/a.ts:3');
+    expect(html).toContain('sheet.publication.approved');
+    expect(html).toContain("decidePublicationItem('gitlab-group%2Fproject-42', '2', 'dropped')");
+  });
+
+  it('disables publishing until every comment has a decision', () => {
+    expect(renderPendingPublicationSection(publication, translate)).toContain('disabled');
+
+    const decided = { ...publication, items: publication.items.map((item) => ({ ...item, decision: 'dropped' })) };
+    expect(renderPendingPublicationSection(decided, translate)).not.toContain('disabled');
+  });
+});
+
+describe('renderLinkedMergeRequestsSection', () => {
+  it('lists the linked merge requests with a button to remove each', () => {
+    const html = renderLinkedMergeRequestsSection(
+      { ...mr, linkedMrs: [{ projectPath: 'group/backend', mrNumber: 12 }] },
+      translate,
+    );
+
+    expect(html).toContain('group/backend!12');
+    expect(html).toContain("unlinkMergeRequest('gitlab-group%2Fproject-42', 'group%2Fbackend!12')");
+    expect(html).not.toContain('sheet.links.empty');
+  });
+
+  it('explains how to link one when there is none', () => {
+    const html = renderLinkedMergeRequestsSection(mr, translate);
+
+    expect(html).toContain('sheet.links.empty');
+    expect(html).toContain("linkMergeRequest('gitlab-group%2Fproject-42')");
+  });
+});
+
+describe('renderReviewFindingsSection', () => {
+  const reported = {
+    severity: 'blocking',
+    agent: 'security',
+    title: 'SQL <built> from input',
+    filePath: 'src/orders.ts',
+    startLine: 40,
+    endLine: 42,
+    confidence: 0.9,
+  };
+
+  it('lists the findings of the latest review that reported any', () => {
+    const html = renderReviewFindingsSection(
+      { ...mr, reviews: [{ findings: [{ ...reported, title: 'Older' }] }, { findings: [reported] }, {}] },
+      translate,
+    );
+
+    expect(html).toContain('sheet.findings.blocking');
+    expect(html).toContain('SQL &lt;built&gt; from input');
+    expect(html).toContain('src/orders.ts:40-42');
+    expect(html).not.toContain('Older');
+  });
+
+  it('renders nothing when the reviews carry no finding', () => {
+    expect(renderReviewFindingsSection({ ...mr, reviews: [{}] }, translate)).toBe('');
+  });
+});
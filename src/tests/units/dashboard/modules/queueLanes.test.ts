@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import { buildQueueLanesModel } from '@/dashboard/modules/queueLanes.js';
+import { buildQueueLanesModel, orderActiveReviews, planQueueReorder } from '@/dashboard/modules/queueLanes.js';
 
 describe('buildQueueLanesModel', () => {
   it('should split pending fix into now lane and needs-fix lane', () => {
@@ -33,3 +33,45 @@ describe('buildQueueLanesModel', () => {
     expect(result.nowLaneCount).toBe(1);
   });
 });
+
+describe('orderActiveReviews', () => {
+  it('lists running jobs first, then queued jobs by descending priority', () => {
+    const ordered = orderActiveReviews([
+      { id: 'queued-normal', status: 'queued' },
+      { id: 'queued-urgent', status: 'queued', priority: 200 },
+      { id: 'running', status: 'running' },
+      { id: 'queued-normal-2', status: 'queued', priority: 0 },
+    ]);
+
+    expect(ordered.map((job) => job.id)).toEqual(['running', 'queued-urgent', 'queued-normal', 'queued-normal-2']);
+  });
+});
+
+describe('planQueueReorder', () => {
+  const queued = [
+    { id: 'a', priority: 100 },
+    { id: 'b', priority: 0 },
+    { id: 'c', priority: 0 },
+    { id: 'd', priority: -100 },
+  ];
+
+  it('moves a job to the top just above the former first one', () => {
+    expect(planQueueReorder(queued, 'd', 0)).toEqual([{ jobId: 'd', priority: 101 }]);
+  });
+
+  it('moves a job to the bottom just below the last one', () => {
+    expect(planQueueReorder(queued, 'a', 3)).toEqual([{ jobId: 'a', priority: -101 }]);
+  });
+
+  it('raises the jobs above when the new slot sits between equal priorities', () => {
+    expect(planQueueReorder(queued, 'd', 2)).toEqual([
+      { jobId: 'b', priority: 2 },
+      { jobId: 'd', priority: 1 },
+    ]);
+  });
+
+  it('returns no change when the job is dropped in place or is unknown', () => {
+    expect(planQueueReorder(queued, 'b', 1)).toEqual([]);
+    expect(planQueueReorder(queued, 'unknown', 0)).toEqual([]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderShadowPreviewHtml } from '@/dashboard/modules/shadowPreview.js';
+import { setLanguage } from '@/dashboard/modules/i18n.js';
+
+describe('renderShadowPreviewHtml', () => {
+  beforeEach(() => {
+    setLanguage('en');
+  });
+
+  it('renders nothing for a review that published live', () => {
+    expect(renderShadowPreviewHtml([])).toBe('');
+    expect(renderShadowPreviewHtml(undefined)).toBe('');
+  });
+
+  it('lists every action the shadow review would have posted', () => {
+    const html = renderShadowPreviewHtml([
+      {
+        recordedAt: '2026-05-01T10:00:00.000Z',
+        actions: [
+          { type: 'POST_COMMENT', body: '## Summary' },
+          { type: 'POST_INLINE_COMMENT', filePath: 'src/app.ts', line: 12, body: 'Unchecked null.' },
+        ],
+      },
+      {
+        recordedAt: '2026-05-01T10:00:01.000Z',
+        actions: [
+          { type: 'THREAD_RESOLVE', threadId: '10' },
+          { type: 'ADD_LABEL', label: 'reviewed' },
+        ],
+      },
+    ]);
+
+    expect(html).toContain('Shadow mode: 4 action(s) not posted');
+    expect(html).toContain('<h2>Summary</h2>');
+    expect(html).toContain('Inline comment on src/app.ts:12');
+    expect(html).toContain('Resolve thread 10');
+    expect(html).toContain('Add label reviewed');
+  });
+
+  it('escapes the bodies it renders', () => {
+    const html = renderShadowPreviewHtml([
+      { recordedAt: '2026-05-01T10:00:00.000Z', actions: [{ type: 'THREAD_REPLY', threadId: '7', message: '<script>x</script>' }] },
+    ]);
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('Reply to thread 7');
+  });
+});
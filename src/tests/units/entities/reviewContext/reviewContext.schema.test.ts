@@ -163,7 +163,7 @@ describe('reviewContextSchema', () => {
   it('should reject invalid platform', () => {
     const context = {
       ...validContext,
-      platform: 'bitbucket',
+      platform: 'sourcehut',
     }
 
     const result = reviewContextSchema.safeParse(context)
@@ -47,4 +47,16 @@ describe('ReviewContextResultFactory.fromParsedReview', () => {
 
     expect(result.verdict).toBe('needs_discussion')
   })
+
+  it('keeps the verdict the agent submitted', () => {
+    const result = ReviewContextResultFactory.fromParsedReview({
+      score: 9,
+      blocking: 0,
+      warnings: 0,
+      suggestions: 0,
+      verdict: 'needs_discussion',
+    })
+
+    expect(result.verdict).toBe('needs_discussion')
+  })
 })
@@ -1,5 +1,14 @@
 import { describe, it, expect } from 'vitest';
-import { buildMcpSystemPrompt } from '@/frameworks/claude/claudeInvoker.js';
+import {
+  buildIncrementalFollowupDirective,
+  buildLinkedMergeRequestsDirective,
+  buildMcpSystemPrompt,
+  buildRetryResumeDirective,
+  buildAgentDispatchDirective,
+  buildSubagentsJson,
+  collectJobLinkedMergeRequests,
+  withIncrementalFollowupDirective,
+} from '@/frameworks/claude/claudeInvoker.js';
 import type { ReviewJob } from '@/frameworks/queue/pQueueAdapter.js';
 
 function buildJob(overrides: Partial<ReviewJob>): ReviewJob {
@@ -65,4 +74,235 @@ describe('buildMcpSystemPrompt', () => {
       expect(prompt).toContain('job-xyz');
     });
   });
+
+  describe('/reviewflow requests', () => {
+    it('has no reviewer requests section by default', () => {
+      const prompt = buildMcpSystemPrompt(buildJob({}));
+
+      expect(prompt).not.toContain('## Reviewer Requests');
+    });
+
+    it('asks to focus on the area recorded on the tracked MR', () => {
+      const prompt = buildMcpSystemPrompt(buildJob({}), {
+        focus: 'security',
+        updatedBy: 'alice',
+        updatedAt: '2026-06-02T09:00:00.000Z',
+      });
+
+      expect(prompt).toContain('## Reviewer Requests');
+      expect(prompt).toContain('focus on **security**');
+    });
+
+    it('restricts an explain job to a reply on the requested thread', () => {
+      const prompt = buildMcpSystemPrompt(buildJob({ id: 'job-9', explainThreadId: 'abc123' }));
+
+      expect(prompt).toContain('threadId: "abc123"');
+      expect(prompt).toContain('Do NOT resolve threads or post any other comment.');
+    });
+  });
+});
+
+describe('buildRetryResumeDirective', () => {
+  it('lists the finished audits and points to the recorded actions', () => {
+    const directive = buildRetryResumeDirective({
+      attempt: 1,
+      contextFilePath: '/tmp/project/.claude/reviews/logs/gitlab-group/project-42.json',
+      completedSteps: ['security', 'tests'],
+      recordedActions: 3,
+    });
+
+    expect(directive).toContain('RESUMED REVIEW (attempt 2)');
+    expect(directive).toContain('Audits already finished: `security`, `tests`. Do NOT run them again.');
+    expect(directive).toContain('3 action(s) recorded by the previous session');
+    expect(directive).toContain('/tmp/project/.claude/reviews/logs/gitlab-group/project-42.json');
+  });
+
+  it('is empty when the previous session left nothing to reuse', () => {
+    expect(
+      buildRetryResumeDirective({ attempt: 1, contextFilePath: '/tmp/ctx.json', completedSteps: [], recordedActions: 0 }),
+    ).toBe('');
+  });
+});
+
+describe('buildLinkedMergeRequestsDirective', () => {
+  it('lists the worktree of each linked merge request and asks for the cross-repository section', () => {
+    const directive = buildLinkedMergeRequestsDirective('gitlab', [
+      {
+        projectPath: 'group/backend',
+        mrNumber: 12,
+        worktreePath: '/worktrees/gitlab-group-backend-12',
+        sourceBranch: 'feat/invoice-total',
+        targetBranch: 'main',
+      },
+    ]);
+
+    expect(directive).toContain('## LINKED MERGE REQUESTS');
+    expect(directive).toContain('- `group/backend!12` (`feat/invoice-total` into `main`): `/worktrees/gitlab-group-backend-12`');
+    expect(directive).toContain('`## Cross-repository consistency` section');
+  });
+});
+
+describe('collectJobLinkedMergeRequests', () => {
+  const description = 'Adds the invoice total.\n\nDepends on group/backend!12';
+  const dashboardLinks = [{ projectPath: 'group/web', mrNumber: 7 }];
+  const trusting = (trusted: string[]) => async ({ username }: { username: string }) => trusted.includes(username);
+
+  it('follows the description links of a merge request by a trusted author', async () => {
+    const job = buildJob({ description, author: { username: 'alice' }, triggeredBy: 'mallory' });
+
+    expect(await collectJobLinkedMergeRequests(job, dashboardLinks, trusting(['alice']))).toEqual([
+      { projectPath: 'group/backend', mrNumber: 12 },
+      { projectPath: 'group/web', mrNumber: 7 },
+    ]);
+  });
+
+  it('follows the description links when the trigger actor is trusted', async () => {
+    const job = buildJob({ description, author: { username: 'mallory' }, triggeredBy: 'alice' });
+
+    expect(await collectJobLinkedMergeRequests(job, [], trusting(['alice']))).toEqual([
+      { projectPath: 'group/backend', mrNumber: 12 },
+    ]);
+  });
+
+  it('keeps only the dashboard links when neither the author nor the trigger actor is trusted', async () => {
+    const job = buildJob({ description, author: { username: 'mallory' }, triggeredBy: 'mallory' });
+
+    expect(await collectJobLinkedMergeRequests(job, dashboardLinks, trusting(['alice']))).toEqual(dashboardLinks);
+    expect(await collectJobLinkedMergeRequests(buildJob({ description }), [], trusting(['alice']))).toEqual([]);
+  });
+
+  it('follows the description links when no gate is wired', async () => {
+    expect(await collectJobLinkedMergeRequests(buildJob({ description }), [], undefined)).toEqual([
+      { projectPath: 'group/backend', mrNumber: 12 },
+    ]);
+  });
+});
+
+describe('buildIncrementalFollowupDirective', () => {
+  const delta = {
+    status: 'computed' as const,
+    sinceSha: '0123456789abcdef0123',
+    headSha: 'fedcba9876543210fedc',
+    diffStats: { commitsCount: 2, additions: 12, deletions: 3 },
+  };
+
+  it('embeds the plain diff of a fast-forward push', () => {
+    const directive = buildIncrementalFollowupDirective({
+      ...delta,
+      mode: 'fast-forward',
+      diff: 'diff --git a/src/a.ts b/src/a.ts\n+const a = 1;\n',
+    });
+
+    expect(directive).toContain('## INCREMENTAL FOLLOWUP');
+    expect(directive).toContain('The last review ran on `0123456789ab`');
+    expect(directive).toContain('2 commit(s), +12/-3');
+    expect(directive).toContain('`git diff 0123456789ab HEAD`');
+    expect(directive).toContain('````diff\ndiff --git a/src/a.ts b/src/a.ts\n+const a = 1;\n````');
+  });
+
+  it('explains a force-push is shown as a range-diff', () => {
+    const directive = buildIncrementalFollowupDirective({ ...delta, mode: 'rewritten', diff: '' });
+
+    expect(directive).toContain('`git range-diff 0123456789ab...HEAD`');
+    expect(directive).toContain('(no code change)');
+  });
+});
+
+describe('withIncrementalFollowupDirective', () => {
+  const delta = {
+    status: 'computed' as const,
+    sinceSha: '0123456789abcdef0123',
+    headSha: 'fedcba9876543210fedc',
+    diffStats: { commitsCount: 1, additions: 1, deletions: 0 },
+    mode: 'fast-forward' as const,
+  };
+
+  it('appends the directive to the system prompt', () => {
+    const prompt = withIncrementalFollowupDirective('## MCP TOOLS', { ...delta, diff: '+const a = 1;\n' });
+
+    expect(prompt).toMatch(/^## MCP TOOLS\n\n## INCREMENTAL FOLLOWUP/);
+  });
+
+  it('counts bytes, so a non-ASCII delta below the old character cap does not fit one argv entry', () => {
+    const accented = `+const label = '${'é'.repeat(70_000)}';\n`;
+
+    expect(withIncrementalFollowupDirective('## MCP TOOLS', { ...delta, diff: accented })).toBeNull();
+  });
+
+  it('counts the system prompt the directive is appended to', () => {
+    const diff = `+${'a'.repeat(60_000)}\n`;
+
+    expect(withIncrementalFollowupDirective('## MCP TOOLS', { ...delta, diff })).not.toBeNull();
+    expect(withIncrementalFollowupDirective('x'.repeat(50_000), { ...delta, diff })).toBeNull();
+  });
+});
+
+describe('buildAgentDispatchDirective', () => {
+  it('lists the settings of the configured agents', () => {
+    const directive = buildAgentDispatchDirective([
+      {
+        name: 'security',
+        displayName: 'Security',
+        model: 'opus',
+        allowedTools: ['Read', 'Grep'],
+        timeoutMs: 600000,
+        promptFile: '.claude/agents/security.md',
+      },
+      { name: 'code-quality', displayName: 'Code Quality', model: 'haiku' },
+      { name: 'report', displayName: 'Rapport' },
+    ]);
+
+    expect(directive).toContain('AGENT DISPATCH');
+    expect(directive).toContain(
+      '- `security`: model `opus`, tools `Read`, `Grep`, timeout 600s, instructions from `.claude/agents/security.md`',
+    );
+    expect(directive).toContain('- `code-quality`: model `haiku`');
+    expect(directive).not.toContain('`report`');
+  });
+
+  it('is empty when no agent has dispatch settings', () => {
+    expect(buildAgentDispatchDirective([{ name: 'report', displayName: 'Rapport' }])).toBe('');
+  });
+});
+
+describe('buildSubagentsJson', () => {
+  it('defines the agents with dispatch settings as subagents with their model, tools and instructions', () => {
+    const readPromptFile = (promptFile: string) =>
+      promptFile === '.claude/agents/security.md' ? 'Look for injections.' : null;
+
+    const json = buildSubagentsJson(
+      [
+        { name: 'security', displayName: 'Security', model: 'opus', allowedTools: ['Read', 'Grep'], promptFile: '.claude/agents/security.md' },
+        { name: 'code-quality', displayName: 'Code Quality', timeoutMs: 600000 },
+        { name: 'report', displayName: 'Rapport' },
+      ],
+      readPromptFile,
+    );
+
+    expect(JSON.parse(json ?? '')).toEqual({
+      security: {
+        description: 'Security audit of the merge request under review',
+        prompt: 'Look for injections.',
+        tools: ['Read', 'Grep'],
+        model: 'opus',
+      },
+      'code-quality': {
+        description: 'Code Quality audit of the merge request under review',
+        prompt: 'You run the Code Quality audit of the merge request review whose job ID you are given.',
+      },
+    });
+  });
+
+  it('falls back to the default instructions when the prompt file cannot be read', () => {
+    const json = buildSubagentsJson(
+      [{ name: 'security', displayName: 'Security', promptFile: '.claude/agents/missing.md' }],
+      () => null,
+    );
+
+    expect(JSON.parse(json ?? '').security.prompt).toContain('Security audit');
+  });
+
+  it('is null when no agent has dispatch settings', () => {
+    expect(buildSubagentsJson([{ name: 'report', displayName: 'Rapport' }], () => null)).toBeNull();
+  });
 });
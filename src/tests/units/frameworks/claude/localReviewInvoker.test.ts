@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  type LocalReviewDependencies,
+  buildLocalReviewDirective,
+  runLocalReview,
+} from '@/frameworks/claude/localReviewInvoker.js';
+import type { ReviewEngineRunInput } from '@/modules/claude-invocation/entities/reviewEngine/reviewEngine.gateway.js';
+import type { ReviewEngineConfig } from '@/modules/claude-invocation/entities/reviewEngine/reviewEngine.schema.js';
+import type { WorktreeGateway } from '@/modules/worktree-management/entities/worktree/worktree.gateway.js';
+import type { EnsureResult, WorktreePath } from '@/modules/worktree-management/entities/worktree/worktree.schema.js';
+import { StubGitCommandExecutor } from '@/tests/stubs/gitCommandExecutor.stub.js';
+import { StubReviewContextGateway } from '@/tests/stubs/reviewContextGateway.stub.js';
+
+const BASE_SHA = '1111111aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+const HEAD_SHA = '2222222bbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb';
+const MR_NUMBER = 0x2222222;
+const WORKTREE_PATH = '/worktrees/gitlab-local-shop-35791394' as WorktreePath;
+
+class StubWorktreeGateway implements WorktreeGateway {
+  ensureResult: EnsureResult = { status: 'created', path: WORKTREE_PATH, settingsWarning: null };
+  readonly ensured: Parameters<WorktreeGateway['ensure']>[0][] = [];
+  readonly removed: Parameters<WorktreeGateway['remove']>[0][] = [];
+
+  async ensure(request: Parameters<WorktreeGateway['ensure']>[0]): Promise<EnsureResult> {
+    this.ensured.push(request);
+    return this.ensureResult;
+  }
+
+  async remove(request: Parameters<WorktreeGateway['remove']>[0]) {
+    this.removed.push(request);
+    return { status: 'removed' as const };
+  }
+
+  async list() {
+    return [];
+  }
+
+  async exists() {
+    return false;
+  }
+}
+
+describe('runLocalReview', () => {
+  let executor: StubGitCommandExecutor;
+  let worktreeGateway: StubWorktreeGateway;
+  let reviewContextGateway: StubReviewContextGateway;
+  let sessions: ReviewEngineRunInput[];
+  let engines: ReviewEngineConfig[];
+  let deps: LocalReviewDependencies;
+
+  beforeEach(() => {
+    executor = new StubGitCommandExecutor();
+    executor.programResponse('rev-parse-toplevel', { exitCode: 0, stdout: '/home/dev/shop\n', stderr: '' });
+    executor.programResponse('rev-parse-commit', { exitCode: 0, stdout: `${BASE_SHA}\n`, stderr: '' });
+    executor.programResponse('rev-parse-commit', { exitCode: 0, stdout: `${HEAD_SHA}\n`, stderr: '' });
+    executor.programResponse('rev-list', { exitCode: 0, stdout: '3\n', stderr: '' });
+    worktreeGateway = new StubWorktreeGateway();
+    reviewContextGateway = new StubReviewContextGateway();
+    sessions = [];
+    engines = [];
+    deps = {
+      gitExecutor: executor,
+      worktreeGateway,
+      reviewContextGateway,
+      loadProjectConfig: () => undefined,
+      runSession: async (input, engine) => {
+        sessions.push(input);
+        engines.push(engine);
+        reviewContextGateway.appendAction('/home/dev/shop', input.mergeRequestId, {
+          type: 'POST_INLINE_COMMENT',
+          filePath: 'src/cart.ts',
+          line: 12,
+          body: 'The total ignores discounts.',
+        });
+        reviewContextGateway.appendAction('/home/dev/shop', input.mergeRequestId, {
+          type: 'POST_COMMENT',
+          body: 'One blocking issue.',
+        });
+        return { status: 'completed', reportPath: `${WORKTREE_PATH}/.claude/reviews/report.md`, content: '# Review', usage: null };
+      },
+      buildMcpConfigJson: () => '{}',
+      writeMcpContext: () => {},
+      cleanupMcpContext: () => {},
+      defaultModel: () => 'sonnet',
+      now: () => new Date('2026-10-18T10:00:00.000Z'),
+    };
+  });
+
+  it('reviews the range in a detached worktree and returns the recorded findings', async () => {
+    const result = await runLocalReview({ localPath: '/home/dev/shop', base: 'main', head: 'HEAD', focus: 'back' }, deps);
+
+    expect(result).toEqual({
+      status: 'completed',
+      base: 'main',
+      head: 'HEAD',
+      baseSha: BASE_SHA,
+      headSha: HEAD_SHA,
+      skill: 'review-back',
+      model: 'sonnet',
+      report: '# Review',
+      findings: [
+        { filePath: 'src/cart.ts', line: 12, body: 'The total ignores discounts.' },
+        { filePath: null, line: null, body: 'One blocking issue.' },
+      ],
+      durationMs: 0,
+    });
+    expect(worktreeGateway.ensured[0]).toMatchObject({ sourceBranch: HEAD_SHA, source: { kind: 'local' } });
+    expect(sessions[0]).toMatchObject({ prompt: `/review-back ${MR_NUMBER}`, reportFallbackLocalPath: WORKTREE_PATH });
+    expect(sessions[0]?.flags.systemPrompt).toContain('## LOCAL REVIEW');
+    expect(engines).toEqual([{ provider: 'claude' }]);
+  });
+
+  it('removes the worktree and the review context once done', async () => {
+    await runLocalReview({ localPath: '/home/dev/shop', base: 'main', head: 'HEAD', focus: 'back' }, deps);
+
+    expect(worktreeGateway.removed).toEqual([
+      { identity: worktreeGateway.ensured[0]?.identity, sourceCheckoutPath: '/home/dev/shop', force: true },
+    ]);
+    expect(reviewContextGateway.exists('/home/dev/shop', sessions[0]?.mergeRequestId ?? '')).toBe(false);
+  });
+
+  it('uses the review skill of the project without a focus', async () => {
+    deps.loadProjectConfig = () => ({ reviewSkill: 'review-shop', defaultModel: 'opus' }) as never;
+
+    const result = await runLocalReview({ localPath: '/home/dev/shop', base: 'main', head: 'HEAD' }, deps);
+
+    expect(result).toMatchObject({ status: 'completed', skill: 'review-shop', model: 'opus' });
+  });
+
+  it('runs the session on the review engine of the project', async () => {
+    const engine: ReviewEngineConfig = { provider: 'openai-compatible', baseUrl: 'http://localhost:11434/v1', model: 'qwen2.5-coder' };
+    deps.loadProjectConfig = () => ({ reviewSkill: 'review-shop', defaultModel: 'sonnet', reviewEngine: engine }) as never;
+
+    await runLocalReview({ localPath: '/home/dev/shop', base: 'main', head: 'HEAD' }, deps);
+
+    expect(engines).toEqual([engine]);
+  });
+
+  it('fails without a skill to run', async () => {
+    const result = await runLocalReview({ localPath: '/home/dev/shop', base: 'main', head: 'HEAD' }, deps);
+
+    expect(result).toEqual({ status: 'failed', reason: expect.stringContaining('no review skill') });
+    expect(worktreeGateway.ensured).toHaveLength(0);
+  });
+
+  it('fails on a ref git does not know', async () => {
+    executor = new StubGitCommandExecutor();
+    executor.programResponse('rev-parse-commit', { exitCode: 1, stdout: '', stderr: '' });
+    deps.gitExecutor = executor;
+
+    const result = await runLocalReview({ localPath: '/home/dev/shop', base: 'mian', head: 'HEAD', focus: 'back' }, deps);
+
+    expect(result).toEqual({ status: 'failed', reason: 'unknown base: mian' });
+  });
+
+  it('fails when the range holds no commit', async () => {
+    executor = new StubGitCommandExecutor();
+    executor.programResponse('rev-parse-commit', { exitCode: 0, stdout: `${HEAD_SHA}\n`, stderr: '' });
+    executor.programResponse('rev-parse-commit', { exitCode: 0, stdout: `${HEAD_SHA}\n`, stderr: '' });
+    executor.programResponse('rev-list', { exitCode: 0, stdout: '0\n', stderr: '' });
+    deps.gitExecutor = executor;
+
+    const result = await runLocalReview({ localPath: '/home/dev/shop', base: 'HEAD', head: 'HEAD', focus: 'back' }, deps);
+
+    expect(result).toEqual({ status: 'failed', reason: 'no commits between HEAD and HEAD' });
+  });
+
+  it('returns the session failure and still removes the worktree', async () => {
+    deps.runSession = async () => ({ status: 'failed', reason: 'timeout' });
+
+    const result = await runLocalReview({ localPath: '/home/dev/shop', base: 'main', head: 'HEAD', focus: 'back' }, deps);
+
+    expect(result).toEqual({ status: 'failed', reason: 'timeout' });
+    expect(worktreeGateway.removed).toHaveLength(1);
+  });
+});
+
+describe('buildLocalReviewDirective', () => {
+  it('points the session at the commit range and forbids platform calls', () => {
+    const directive = buildLocalReviewDirective({ base: 'main', head: 'HEAD', baseSha: BASE_SHA, headSha: HEAD_SHA }, 7);
+
+    expect(directive).toContain(`git diff ${BASE_SHA}...${HEAD_SHA}`);
+    expect(directive).toContain('Do NOT run glab, gh or any platform API');
+  });
+});
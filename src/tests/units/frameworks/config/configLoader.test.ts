@@ -164,6 +164,81 @@ describe('validateAndEnrichConfig', () => {
     })
   })
 
+  describe('webhookIdempotencyRetentionHours validation', () => {
+    it('defaults to 24 when the field is missing', () => {
+      const config = createValidConfig()
+
+      const result = validateAndEnrichConfig(config)
+
+      expect(result.queue.webhookIdempotencyRetentionHours).toBe(24)
+    })
+
+    it('accepts a custom integer between 1 and 720', () => {
+      const config = createValidConfig()
+      ;(config.queue as Record<string, unknown>).webhookIdempotencyRetentionHours = 72
+
+      const result = validateAndEnrichConfig(config)
+
+      expect(result.queue.webhookIdempotencyRetentionHours).toBe(72)
+    })
+
+    it.each([0, 721, 1.5])('rejects %s', (value) => {
+      const config = createValidConfig()
+      ;(config.queue as Record<string, unknown>).webhookIdempotencyRetentionHours = value
+
+      expect(() => validateAndEnrichConfig(config)).toThrow(
+        'Configuration invalide : webhookIdempotencyRetentionHours invalide',
+      )
+    })
+  })
+
+  describe('queue.schedule validation', () => {
+    it('leaves the schedule unset when the field is missing', () => {
+      const result = validateAndEnrichConfig(createValidConfig())
+
+      expect(result.queue.schedule).toBeUndefined()
+    })
+
+    it('parses review windows with their defaults', () => {
+      const config = createValidConfig()
+      ;(config.queue as Record<string, unknown>).schedule = { windows: [{ days: ['weekend'], from: '00:00', to: '00:00' }] }
+
+      const result = validateAndEnrichConfig(config)
+
+      expect(result.queue.schedule).toEqual({
+        timezone: 'UTC',
+        windows: [{ days: ['sat', 'sun'], from: '00:00', to: '00:00' }],
+      })
+    })
+
+    it('names the invalid field', () => {
+      const config = createValidConfig()
+      ;(config.queue as Record<string, unknown>).schedule = { windows: [{ from: '7pm', to: '08:00' }] }
+
+      expect(() => validateAndEnrichConfig(config)).toThrow(
+        'Invalid configuration: queue.schedule.windows.0.from must be HH:MM',
+      )
+    })
+  })
+
+  describe('server.publicUrl validation', () => {
+    it('keeps the public URL without its trailing slash', () => {
+      const config = { ...createValidConfig(), server: { port: 3000, publicUrl: 'https://reviews.example.com/' } }
+
+      const result = validateAndEnrichConfig(config)
+
+      expect(result.server).toEqual({ port: 3000, publicUrl: 'https://reviews.example.com' })
+    })
+
+    it('rejects a value that is not an http(s) URL', () => {
+      const config = { ...createValidConfig(), server: { port: 3000, publicUrl: 'reviews.example.com' } }
+
+      expect(() => validateAndEnrichConfig(config)).toThrow(
+        'Invalid configuration: server.publicUrl must be an http(s) URL',
+      )
+    })
+  })
+
   describe('triggerMode validation (SPEC-174)', () => {
     it('default mode when missing: falls back to full-auto', () => {
       const config = createValidConfig()
@@ -9,7 +9,7 @@ vi.mock('@/frameworks/config/configLoader.js', () => ({
   })),
 }));
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import {
   enqueueReview,
   initQueue,
@@ -280,6 +280,45 @@ describe('pQueueAdapter - persist job record callback (SPEC-176)', () => {
   });
 });
 
+describe('pQueueAdapter - job lifecycle callback', () => {
+  beforeEach(async () => {
+    initQueue(createStubLogger());
+    const { setJobLifecycleCallback } = await import('@/frameworks/queue/pQueueAdapter.js');
+    setJobLifecycleCallback(null);
+  });
+
+  it('reports queued, running and finished with the job status of each step', async () => {
+    const { setJobLifecycleCallback } = await import('@/frameworks/queue/pQueueAdapter.js');
+    const events: string[] = [];
+    setJobLifecycleCallback((event, status) => {
+      events.push(`${event}:${status.status}`);
+    });
+
+    await enqueueReview(createJob({ id: 'gitlab:lifecycle:1', mrNumber: 1 }), async () => {});
+
+    await new Promise<void>(resolve => setTimeout(resolve, 30));
+
+    expect(events).toEqual(['queued:queued', 'running:running', 'finished:completed']);
+    setJobLifecycleCallback(null);
+  });
+
+  it('keeps the queue running when the callback throws', async () => {
+    const { setJobLifecycleCallback, getJobStatus } = await import('@/frameworks/queue/pQueueAdapter.js');
+    setJobLifecycleCallback(() => {
+      throw new Error('status publisher down');
+    });
+
+    await expect(
+      enqueueReview(createJob({ id: 'gitlab:lifecycle-throws:1', mrNumber: 1 }), async () => {}),
+    ).resolves.toBe(true);
+
+    await new Promise<void>(resolve => setTimeout(resolve, 30));
+
+    expect(getJobStatus('gitlab:lifecycle-throws:1')).toBe('completed');
+    setJobLifecycleCallback(null);
+  });
+});
+
 describe('pQueueAdapter - replaceCompletedJobs (SPEC-176)', () => {
   beforeEach(async () => {
     initQueue(createStubLogger());
@@ -315,3 +354,340 @@ describe('pQueueAdapter - replaceCompletedJobs (SPEC-176)', () => {
     expect(snapshot.recent.map((entry) => entry.id)).toEqual(['second']);
   });
 });
+
+describe('pQueueAdapter - job priority', () => {
+  beforeEach(async () => {
+    initQueue(createStubLogger());
+    const { setGlobalConcurrency, setJobPriorityResolver } = await import('@/frameworks/queue/pQueueAdapter.js');
+    setGlobalConcurrency(1);
+    setJobPriorityResolver(null);
+  });
+
+  async function enqueueBehindBlocker(
+    blockerId: string,
+    extraJobs: (started: string[]) => Promise<void>,
+  ): Promise<{ started: string[]; release: () => void }> {
+    const started: string[] = [];
+    let release: () => void = () => {};
+    await enqueueReview(createJob({ id: blockerId, projectPath: 'prio/blocker' }), async () => {
+      await new Promise<void>(resolve => {
+        release = resolve;
+      });
+    });
+    await new Promise<void>(resolve => setTimeout(resolve, 10));
+    await extraJobs(started);
+    return { started, release };
+  }
+
+  it('runs higher-priority jobs first once a slot frees up', async () => {
+    const { started, release } = await enqueueBehindBlocker('gitlab:prio-blocker:1', async (log) => {
+      await enqueueReview(createJob({ id: 'gitlab:prio-a:1', projectPath: 'prio/a', priority: 0 }), async () => {
+        log.push('normal');
+      });
+      await enqueueReview(createJob({ id: 'gitlab:prio-b:1', projectPath: 'prio/b', priority: 100 }), async () => {
+        log.push('high');
+      });
+    });
+
+    release();
+    await new Promise<void>(resolve => setTimeout(resolve, 40));
+
+    expect(started).toEqual(['high', 'normal']);
+  });
+
+  it('resolves the priority of a job enqueued without one', async () => {
+    const { setJobPriorityResolver, getJobsStatus } = await import('@/frameworks/queue/pQueueAdapter.js');
+    setJobPriorityResolver((job) => (job.labels?.includes('hotfix') ? 200 : 0));
+
+    const { release } = await enqueueBehindBlocker('gitlab:prio-blocker:2', async () => {
+      await enqueueReview(createJob({ id: 'gitlab:prio-c:1', projectPath: 'prio/c', labels: ['hotfix'] }), async () => {});
+    });
+
+    expect(getJobsStatus().active.find((entry) => entry.id === 'gitlab:prio-c:1')?.priority).toBe(200);
+    release();
+    await new Promise<void>(resolve => setTimeout(resolve, 40));
+  });
+
+  it('setJobPriority reorders queued jobs and refuses running ones', async () => {
+    const { setJobPriority } = await import('@/frameworks/queue/pQueueAdapter.js');
+
+    const { started, release } = await enqueueBehindBlocker('gitlab:prio-blocker:3', async (log) => {
+      await enqueueReview(createJob({ id: 'gitlab:prio-d:1', projectPath: 'prio/d' }), async () => {
+        log.push('first');
+      });
+      await enqueueReview(createJob({ id: 'gitlab:prio-e:1', projectPath: 'prio/e' }), async () => {
+        log.push('second');
+      });
+    });
+    await new Promise<void>(resolve => setTimeout(resolve, 10));
+
+    expect(setJobPriority('gitlab:prio-e:1', 10)).toBe(true);
+    expect(setJobPriority('gitlab:prio-blocker:3', 10)).toBe(false);
+
+    release();
+    await new Promise<void>(resolve => setTimeout(resolve, 40));
+
+    expect(started).toEqual(['second', 'first']);
+  });
+});
+
+describe('pQueueAdapter - review windows', () => {
+  const windowOpensAt = new Date('2026-06-03T08:00:00.000Z');
+  let windowOpen = false;
+
+  beforeEach(async () => {
+    initQueue(createStubLogger());
+    const { setGlobalConcurrency, setJobDeferralResolver } = await import('@/frameworks/queue/pQueueAdapter.js');
+    setGlobalConcurrency(4);
+    windowOpen = false;
+    setJobDeferralResolver((job) => (job.projectPath.startsWith('window/') && !windowOpen ? windowOpensAt : null));
+  });
+
+  it('holds a job outside its review window and exposes when it may start', async () => {
+    const { getJobsStatus, getJobStatus, cancelJob } = await import('@/frameworks/queue/pQueueAdapter.js');
+    const started: string[] = [];
+
+    await enqueueReview(createJob({ id: 'gitlab:window-a:1', projectPath: 'window/a' }), async () => {
+      started.push('a');
+    });
+    await new Promise<void>(resolve => setTimeout(resolve, 10));
+
+    expect(started).toEqual([]);
+    expect(getJobStatus('gitlab:window-a:1')).toBe('queued');
+    expect(getJobsStatus().active.find((entry) => entry.id === 'gitlab:window-a:1')?.deferredUntil).toBe(
+      windowOpensAt.toISOString(),
+    );
+
+    cancelJob('gitlab:window-a:1');
+    await new Promise<void>(resolve => setTimeout(resolve, 10));
+  });
+
+  it('releases deferred jobs once their window opens', async () => {
+    const { refreshDeferredJobs } = await import('@/frameworks/queue/pQueueAdapter.js');
+    const started: string[] = [];
+
+    await enqueueReview(createJob({ id: 'gitlab:window-b:1', projectPath: 'window/b' }), async () => {
+      started.push('b');
+    });
+    await new Promise<void>(resolve => setTimeout(resolve, 10));
+
+    expect(refreshDeferredJobs()).toBe(0);
+    windowOpen = true;
+    expect(refreshDeferredJobs()).toBe(1);
+    await new Promise<void>(resolve => setTimeout(resolve, 20));
+
+    expect(started).toEqual(['b']);
+  });
+
+  it('startDeferredJob starts a held job now and refuses jobs that are not held', async () => {
+    const { startDeferredJob } = await import('@/frameworks/queue/pQueueAdapter.js');
+    const started: string[] = [];
+
+    await enqueueReview(createJob({ id: 'gitlab:window-c:1', projectPath: 'window/c' }), async () => {
+      started.push('c');
+    });
+    await new Promise<void>(resolve => setTimeout(resolve, 10));
+
+    expect(startDeferredJob('gitlab:window-c:1')).toBe(true);
+    expect(startDeferredJob('gitlab:window-c:1')).toBe(false);
+    await new Promise<void>(resolve => setTimeout(resolve, 20));
+
+    expect(started).toEqual(['c']);
+  });
+});
+
+describe('pQueueAdapter - session retries', () => {
+  beforeEach(async () => {
+    initQueue(createStubLogger());
+    const { setGlobalConcurrency, setJobDeferralResolver } = await import('@/frameworks/queue/pQueueAdapter.js');
+    setGlobalConcurrency(4);
+    setJobDeferralResolver(null);
+  });
+
+  it('exposes the pending retry of a running job and counts its sessions', async () => {
+    const { setJobRetry, getJobsStatus } = await import('@/frameworks/queue/pQueueAdapter.js');
+    const retryAt = new Date('2026-06-03T08:04:00.000Z');
+    let release: () => void = () => {};
+
+    await enqueueReview(createJob({ id: 'gitlab:retry-a:1', projectPath: 'retry/a' }), async () => {
+      await new Promise<void>(resolve => {
+        release = resolve;
+      });
+    });
+    await new Promise<void>(resolve => setTimeout(resolve, 10));
+
+    setJobRetry('gitlab:retry-a:1', { attempt: 2, maxAttempts: 3, failureClass: 'timeout', retryAt });
+    expect(getJobsStatus().active.find((entry) => entry.id === 'gitlab:retry-a:1')?.retry).toEqual({
+      attempt: 2,
+      maxAttempts: 3,
+      failureClass: 'timeout',
+      retryAt: retryAt.toISOString(),
+    });
+
+    setJobRetry('gitlab:retry-a:1', null);
+    setJobRetry('gitlab:retry-a:1', { attempt: 1, maxAttempts: 1, failureClass: 'report-missing', retryAt });
+    setJobRetry('gitlab:retry-a:1', null);
+    release();
+    await new Promise<void>(resolve => setTimeout(resolve, 20));
+
+    const recent = getJobsStatus().recent.find((entry) => entry.id === 'gitlab:retry-a:1');
+    expect(recent?.attempts).toBe(3);
+  });
+
+  it('gives the slot of a job waiting for its retry to the next job', async () => {
+    const { setProjectConcurrencyCap, getRunningCount, waitForJobRetry } = await import(
+      '@/frameworks/queue/pQueueAdapter.js'
+    );
+    setProjectConcurrencyCap('retry/b', 1);
+    const events: string[] = [];
+    let releaseB: () => void = () => {};
+
+    await enqueueReview(createJob({ id: 'gitlab:retry-b:1', projectPath: 'retry/b', mrNumber: 1 }), async (job, signal) => {
+      events.push('a:session-1');
+      const retryDue = await waitForJobRetry(job.id, 30, signal);
+      events.push(`a:session-2:${retryDue}`);
+    });
+    await enqueueReview(createJob({ id: 'gitlab:retry-b:2', projectPath: 'retry/b', mrNumber: 2 }), async () => {
+      events.push('b:start');
+      await new Promise<void>(resolve => {
+        releaseB = resolve;
+      });
+      events.push('b:done');
+    });
+    await new Promise<void>(resolve => setTimeout(resolve, 50));
+
+    expect(events).toEqual(['a:session-1', 'b:start']);
+    expect(getRunningCount()).toBe(1);
+
+    releaseB();
+    await new Promise<void>(resolve => setTimeout(resolve, 20));
+
+    expect(events).toEqual(['a:session-1', 'b:start', 'b:done', 'a:session-2:true']);
+    expect(getRunningCount()).toBe(0);
+  });
+
+  it('stops waiting for a retry when the job is cancelled', async () => {
+    const { cancelJob, getRunningCount, waitForJobRetry } = await import('@/frameworks/queue/pQueueAdapter.js');
+    let retryDue: boolean | undefined;
+
+    await enqueueReview(createJob({ id: 'gitlab:retry-c:1', projectPath: 'retry/c' }), async (job, signal) => {
+      retryDue = await waitForJobRetry(job.id, 60_000, signal);
+    });
+    await new Promise<void>(resolve => setTimeout(resolve, 10));
+
+    cancelJob('gitlab:retry-c:1');
+    await new Promise<void>(resolve => setTimeout(resolve, 10));
+
+    expect(retryDue).toBe(false);
+    expect(getRunningCount()).toBe(0);
+  });
+});
+
+describe('pQueueAdapter - superseded jobs', () => {
+  beforeEach(async () => {
+    initQueue(createStubLogger());
+    const { setGlobalConcurrency, setJobDeferralResolver } = await import('@/frameworks/queue/pQueueAdapter.js');
+    setGlobalConcurrency(4);
+    setJobDeferralResolver(null);
+  });
+
+  it('aborts the running job and lets its replacement take the id once it stopped', async () => {
+    const { supersedeJob, whenJobSettled, getRunningJob, getJobStatus, getJobsStatus } = await import('@/frameworks/queue/pQueueAdapter.js');
+    const events: string[] = [];
+    const staleJob = createJob({ id: 'gitlab:supersede-a:1', projectPath: 'supersede/a', headSha: 'old-sha' });
+
+    await enqueueReview(staleJob, async (_job, signal) => {
+      events.push('stale:start');
+      await new Promise<void>((resolve) => signal.addEventListener('abort', () => resolve()));
+      await new Promise<void>((resolve) => setTimeout(resolve, 10));
+      events.push('stale:stopped');
+    });
+    await new Promise<void>((resolve) => setTimeout(resolve, 10));
+    expect(getRunningJob('gitlab:supersede-a:1')).toBe(staleJob);
+
+    expect(supersedeJob('gitlab:supersede-a:1')).toBe(true);
+    expect(getRunningJob('gitlab:supersede-a:1')).toBeNull();
+    void whenJobSettled('gitlab:supersede-a:1').then(() => events.push('stale:settled'));
+
+    const freshEnqueued = await enqueueReview({ ...staleJob, headSha: 'new-sha' }, async () => {
+      events.push('fresh:start');
+    });
+    expect(freshEnqueued).toBe(true);
+    expect(getJobStatus('gitlab:supersede-a:1')).toBe('queued');
+
+    await new Promise<void>((resolve) => setTimeout(resolve, 50));
+
+    expect(events).toEqual(['stale:start', 'stale:stopped', 'stale:settled', 'fresh:start']);
+    expect(getJobStatus('gitlab:supersede-a:1')).toBe('completed');
+    const recent = getJobsStatus().recent.filter((entry) => entry.id === 'gitlab:supersede-a:1');
+    expect(recent.map((entry) => entry.status)).toEqual(['completed', 'failed']);
+    expect(recent[1].error).toBe('Remplacé par un push plus récent');
+  });
+
+  it('does not supersede a queued job', async () => {
+    const { supersedeJob } = await import('@/frameworks/queue/pQueueAdapter.js');
+    let release: () => void = () => {};
+
+    await enqueueReview(createJob({ id: 'gitlab:supersede-b:1', projectPath: 'supersede/b', mrNumber: 1 }), async () => {
+      await new Promise<void>((resolve) => {
+        release = resolve;
+      });
+    });
+    await enqueueReview(
+      createJob({ id: 'gitlab-followup:supersede-b:1', projectPath: 'supersede/b', mrNumber: 1, jobType: 'followup' }),
+      async () => {},
+    );
+    await new Promise<void>((resolve) => setTimeout(resolve, 10));
+
+    expect(supersedeJob('gitlab-followup:supersede-b:1')).toBe(false);
+    release();
+    await new Promise<void>((resolve) => setTimeout(resolve, 20));
+  });
+});
+
+describe('pQueueAdapter - job timeout', () => {
+  beforeEach(async () => {
+    initQueue(createStubLogger());
+    const { setGlobalConcurrency, setJobDeferralResolver } = await import('@/frameworks/queue/pQueueAdapter.js');
+    setGlobalConcurrency(1);
+    setJobDeferralResolver(null);
+  });
+
+  afterEach(async () => {
+    const { setGlobalConcurrency } = await import('@/frameworks/queue/pQueueAdapter.js');
+    setGlobalConcurrency(4);
+    vi.useRealTimers();
+  });
+
+  it('aborts a job past the timeout and keeps its global slot until its processor returns', async () => {
+    vi.useFakeTimers();
+    const { JOB_TIMEOUT_MS, getJobsStatus } = await import('@/frameworks/queue/pQueueAdapter.js');
+    const events: string[] = [];
+    let releaseSlow: () => void = () => {};
+
+    await enqueueReview(createJob({ id: 'gitlab:timeout-a:1', projectPath: 'timeout/a' }), async (_job, signal) => {
+      events.push('slow:start');
+      signal.addEventListener('abort', () => events.push('slow:aborted'));
+      await new Promise<void>((resolve) => {
+        releaseSlow = resolve;
+      });
+    });
+    await enqueueReview(createJob({ id: 'gitlab:timeout-b:1', projectPath: 'timeout/b' }), async () => {
+      events.push('next:start');
+    });
+    await vi.advanceTimersByTimeAsync(10);
+    expect(events).toEqual(['slow:start']);
+
+    await vi.advanceTimersByTimeAsync(JOB_TIMEOUT_MS + 60_000);
+
+    expect(events).toEqual(['slow:start', 'slow:aborted']);
+
+    releaseSlow();
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(events).toEqual(['slow:start', 'slow:aborted', 'next:start']);
+    const slow = getJobsStatus().recent.find((entry) => entry.id === 'gitlab:timeout-a:1');
+    expect(slow?.status).toBe('failed');
+    expect(slow?.error).toBe('Job timeout: 30 minutes dépassées');
+  });
+});
@@ -60,6 +60,41 @@ describe('ProjectSemaphore', () => {
     await w2;
   });
 
+  it('grants higher-priority waiters first, FIFO within a priority', async () => {
+    const semaphore = new ProjectSemaphore();
+    semaphore.setCapacity('/proj/A', 1);
+    await semaphore.acquire('/proj/A');
+
+    const log: string[] = [];
+    semaphore.acquire('/proj/A', 0).then(() => { log.push('normal'); });
+    semaphore.acquire('/proj/A', 100).then(() => { log.push('high-1'); });
+    semaphore.acquire('/proj/A', 100).then(() => { log.push('high-2'); });
+
+    for (let i = 0; i < 3; i += 1) {
+      semaphore.release('/proj/A');
+      await flushMicrotasks();
+    }
+
+    expect(log).toEqual(['high-1', 'high-2', 'normal']);
+  });
+
+  it('setPriority moves a pending waiter and reports unknown ids', async () => {
+    const semaphore = new ProjectSemaphore();
+    semaphore.setCapacity('/proj/A', 1);
+    await semaphore.acquire('/proj/A');
+
+    const log: string[] = [];
+    semaphore.acquire('/proj/A', 0, 'first').then(() => { log.push('first'); });
+    semaphore.acquire('/proj/A', 0, 'second').then(() => { log.push('second'); });
+
+    expect(semaphore.setPriority('second', 10)).toBe(true);
+    expect(semaphore.setPriority('unknown', 10)).toBe(false);
+
+    semaphore.release('/proj/A');
+    await flushMicrotasks();
+    expect(log).toEqual(['second']);
+  });
+
   it('lowering the cap does NOT interrupt running acquisitions', async () => {
     const semaphore = new ProjectSemaphore();
     semaphore.setCapacity('/proj/A', 4);
@@ -0,0 +1,43 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { startReviewWindowScheduler } from '@/frameworks/scheduler/reviewWindowScheduler.js';
+import { createCapturingLogger } from '@/tests/stubs/capturingLogger.stub.js';
+
+describe('startReviewWindowScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('refreshes the deferred jobs at each interval until stopped', async () => {
+    const refreshDeferredJobs = vi.fn(() => 0);
+    const scheduler = startReviewWindowScheduler({
+      refreshDeferredJobs,
+      logger: createCapturingLogger().logger,
+      intervalMs: 60_000,
+    });
+
+    await vi.advanceTimersByTimeAsync(120_000);
+    expect(refreshDeferredJobs).toHaveBeenCalledTimes(2);
+
+    scheduler.stop();
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(refreshDeferredJobs).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps ticking when a refresh throws', async () => {
+    const refreshDeferredJobs = vi.fn(() => {
+      throw new Error('resolver down');
+    });
+    const capturing = createCapturingLogger();
+    const scheduler = startReviewWindowScheduler({ refreshDeferredJobs, logger: capturing.logger, intervalMs: 60_000 });
+
+    await vi.advanceTimersByTimeAsync(120_000);
+
+    expect(refreshDeferredJobs).toHaveBeenCalledTimes(2);
+    expect(capturing.errorMessages).toHaveLength(2);
+    scheduler.stop();
+  });
+});
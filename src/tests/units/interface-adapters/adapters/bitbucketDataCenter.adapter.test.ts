@@ -0,0 +1,71 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { BitbucketDataCenterAdapter } from '@/modules/platform-integration/interface-adapters/adapters/bitbucketDataCenter.adapter.js';
+import { bitbucketDataCenterEventGuard } from '@/modules/platform-integration/entities/bitbucket/bitbucketDataCenterEvent.guard.js';
+import { bitbucketPullRequestEventGuard } from '@/modules/platform-integration/entities/bitbucket/bitbucketPullRequestEvent.guard.js';
+import { filterBitbucketEvent } from '@/modules/platform-integration/interface-adapters/controllers/webhook/eventFilter.js';
+import { BitbucketEventFactory } from '@/tests/factories/bitbucketEvent.factory.js';
+
+vi.mock('@/config/loader.js', () => ({
+  loadConfig: vi.fn(() => ({ user: { bitbucketUsername: 'claude-reviewer' } })),
+}));
+
+describe('BitbucketDataCenterAdapter', () => {
+  const adapter = new BitbucketDataCenterAdapter();
+  const parse = (payload: unknown) => bitbucketDataCenterEventGuard.parse(payload);
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('maps the Data Center event keys a review reacts to', () => {
+    expect(adapter.toCloudEventKey('pr:opened')).toBe('pullrequest:created');
+    expect(adapter.toCloudEventKey('pr:reviewer:updated')).toBe('pullrequest:created');
+    expect(adapter.toCloudEventKey('pr:from_ref_updated')).toBe('pullrequest:updated');
+    expect(adapter.toCloudEventKey('pr:merged')).toBe('pullrequest:fulfilled');
+    expect(adapter.toCloudEventKey('pr:declined')).toBe('pullrequest:rejected');
+    expect(adapter.toCloudEventKey('pr:comment:added')).toBe('pullrequest:comment_created');
+    expect(adapter.toCloudEventKey('pr:reviewer:approved')).toBe('pr:reviewer:approved');
+  });
+
+  it('translates a pull request into its Cloud shape, keyed by project and repository', () => {
+    vi.stubEnv('BITBUCKET_DATA_CENTER_URL', 'https://bitbucket.example.com/');
+
+    const event = adapter.toCloudEvent(parse(BitbucketEventFactory.createDataCenterEvent()));
+
+    expect(bitbucketPullRequestEventGuard.isValid(event)).toBe(true);
+    expect(event.repository).toEqual({
+      full_name: 'PROJ/my-repo',
+      links: { html: { href: 'https://bitbucket.example.com/projects/PROJ/repos/my-repo' } },
+    });
+    expect(event.pullrequest).toMatchObject({
+      id: 7,
+      author: { display_name: 'Dev Eloper', nickname: 'developer' },
+      source: { branch: { name: 'feature/export' }, commit: { hash: 'abc123def456' } },
+      destination: { branch: { name: 'main' }, commit: { hash: '000111222333' } },
+      links: { html: { href: 'https://bitbucket.example.com/projects/PROJ/repos/my-repo/pull-requests/7' } },
+    });
+    expect(filterBitbucketEvent(event, 'pullrequest:created')).toMatchObject({
+      shouldProcess: true,
+      projectPath: 'PROJ/my-repo',
+    });
+  });
+
+  it('prefers the self link of the pull request when the payload carries one', () => {
+    const payload = BitbucketEventFactory.createDataCenterEvent();
+    const pullRequest = payload.pullRequest as Record<string, unknown>;
+    pullRequest.links = { self: [{ href: 'https://git.corp.example/bitbucket/projects/PROJ/repos/my-repo/pull-requests/7' }] };
+
+    const event = adapter.toCloudEvent(parse(payload));
+
+    expect(event.pullrequest.links.html.href).toBe('https://git.corp.example/bitbucket/projects/PROJ/repos/my-repo/pull-requests/7');
+    expect(event.repository.links.html.href).toBe('https://git.corp.example/bitbucket/projects/PROJ/repos/my-repo');
+  });
+
+  it('carries the comment of a comment event', () => {
+    const event = adapter.toCloudEvent(
+      parse(BitbucketEventFactory.createDataCenterEvent({ comment: { text: 'Looks good', author: 'alice' } })),
+    );
+
+    expect(event.comment).toEqual({ id: 901, content: { raw: 'Looks good' }, user: { display_name: 'Alice', nickname: 'alice' } });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { GiteaPullRequestAdapter } from '@/modules/platform-integration/interface-adapters/adapters/giteaPullRequest.adapter.js';
+import { giteaPullRequestEventGuard } from '@/modules/platform-integration/entities/gitea/giteaPullRequestEvent.guard.js';
+import {
+  filterGitHubLabelEvent,
+  filterGitHubPrUpdate,
+} from '@/modules/platform-integration/interface-adapters/controllers/webhook/eventFilter.js';
+import { DEFAULT_TRIGGER_RULES } from '@/modules/platform-integration/entities/triggerRules/triggerRules.schema.js';
+
+const giteaUser = {
+  id: 3,
+  login: 'alice',
+  login_name: '',
+  full_name: 'Alice',
+  email: 'alice@noreply.git.example.com',
+  avatar_url: 'https://git.example.com/avatars/3',
+  username: 'alice',
+};
+
+const giteaRepository = {
+  id: 12,
+  owner: giteaUser,
+  name: 'notes',
+  full_name: 'side-projects/notes',
+  private: false,
+  html_url: 'https://git.example.com/side-projects/notes',
+  clone_url: 'https://git.example.com/side-projects/notes.git',
+  default_branch: 'main',
+};
+
+/** Shape of a Gitea 1.21 pull_request webhook, trimmed of unused fields. */
+function giteaPayload(action: string, labels: { id: number; name: string; color: string }[]) {
+  return {
+    action,
+    number: 7,
+    pull_request: {
+      id: 41,
+      url: 'https://git.example.com/side-projects/notes/pulls/7',
+      number: 7,
+      user: giteaUser,
+      title: 'Add offline mode',
+      body: 'Closes #3',
+      labels,
+      milestone: null,
+      assignee: null,
+      assignees: null,
+      requested_reviewers: null,
+      state: 'open',
+      draft: false,
+      is_locked: false,
+      comments: 0,
+      additions: 120,
+      deletions: 8,
+      changed_files: 4,
+      html_url: 'https://git.example.com/side-projects/notes/pulls/7',
+      diff_url: 'https://git.example.com/side-projects/notes/pulls/7.diff',
+      patch_url: 'https://git.example.com/side-projects/notes/pulls/7.patch',
+      mergeable: true,
+      merged: false,
+      merged_at: null,
+      merge_commit_sha: null,
+      merged_by: null,
+      base: {
+        label: 'main',
+        ref: 'main',
+        sha: '0d1f0a3c2b7e4f5a6b7c8d9e0f1a2b3c4d5e6f70',
+        repo_id: 12,
+        repo: giteaRepository,
+      },
+      head: {
+        label: 'feature/offline',
+        ref: 'feature/offline',
+        sha: '9c8b7a6f5e4d3c2b1a0f9e8d7c6b5a4f3e2d1c0b',
+        repo_id: 12,
+        repo: giteaRepository,
+      },
+      merge_base: '0d1f0a3c2b7e4f5a6b7c8d9e0f1a2b3c4d5e6f70',
+      due_date: null,
+      created_at: '2026-10-18T09:12:44Z',
+      updated_at: '2026-10-18T09:40:02Z',
+      closed_at: null,
+    },
+    requested_reviewer: null,
+    repository: giteaRepository,
+    sender: giteaUser,
+    commit_id: '',
+    review: null,
+  };
+}
+
+describe('GiteaPullRequestAdapter', () => {
+  const adapter = new GiteaPullRequestAdapter();
+  const parse = (payload: unknown) => {
+    const result = giteaPullRequestEventGuard.safeParse(payload);
+    if (!result.success) throw result.error;
+    return result.data;
+  };
+
+  it('carries the head sha of a push, for incremental reviews and commit statuses', () => {
+    const event = adapter.toGitHubPullRequestEvent(parse(giteaPayload('synchronized', [])));
+
+    expect(event.action).toBe('synchronize');
+    expect(event.pull_request.head.sha).toBe('9c8b7a6f5e4d3c2b1a0f9e8d7c6b5a4f3e2d1c0b');
+    expect(filterGitHubPrUpdate(event)).toMatchObject({
+      shouldProcess: true,
+      headSha: '9c8b7a6f5e4d3c2b1a0f9e8d7c6b5a4f3e2d1c0b',
+    });
+  });
+
+  it('maps label_updated to labeled so that label triggers fire', () => {
+    const event = adapter.toGitHubPullRequestEvent(
+      parse(giteaPayload('label_updated', [
+        { id: 1, name: 'frontend', color: '1d76db' },
+        { id: 2, name: 'needs-review', color: 'e11d21' },
+      ])),
+    );
+
+    expect(event.action).toBe('labeled');
+    expect(filterGitHubLabelEvent(event, DEFAULT_TRIGGER_RULES)).toMatchObject({
+      shouldProcess: true,
+      reason: 'Label "needs-review" was added',
+      mergeRequestNumber: 7,
+      projectPath: 'side-projects/notes',
+    });
+  });
+
+  it('ignores a label change that leaves no trigger label', () => {
+    const event = adapter.toGitHubPullRequestEvent(
+      parse(giteaPayload('label_updated', [{ id: 1, name: 'frontend', color: '1d76db' }])),
+    );
+
+    expect(filterGitHubLabelEvent(event, DEFAULT_TRIGGER_RULES).shouldProcess).toBe(false);
+  });
+
+  it('keeps the changed label when the payload carries it', () => {
+    const event = adapter.toGitHubPullRequestEvent(
+      parse({ ...giteaPayload('label_updated', []), label: { id: 2, name: 'needs-review', color: 'e11d21' } }),
+    );
+
+    expect(event.label).toEqual({ name: 'needs-review' });
+  });
+});
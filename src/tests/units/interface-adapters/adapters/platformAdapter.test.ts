@@ -1,6 +1,8 @@
 import { describe, it, expect } from 'vitest';
 import { PlatformAdapter } from '@/modules/platform-integration/interface-adapters/adapters/platformAdapter.js';
 import { GitLabEventFactory, GitHubEventFactory } from '../../../factories/webhookEvent.factory.js';
+import { BitbucketEventFactory } from '../../../factories/bitbucketEvent.factory.js';
+import { GiteaEventFactory } from '../../../factories/giteaEvent.factory.js';
 
 describe('PlatformAdapter', () => {
   const adapter = new PlatformAdapter();
@@ -211,4 +213,61 @@ describe('PlatformAdapter', () => {
       expect(result.isDraft).toBe(true);
     });
   });
+
+  describe('translateBitbucketEvent', () => {
+    it('should translate PullRequest to ReviewRequest', () => {
+      const event = BitbucketEventFactory.createPullRequestEvent();
+
+      const result = adapter.translateBitbucketEvent(event);
+
+      expect(result.platform).toBe('bitbucket');
+      expect(result.projectPath).toBe('my-workspace/my-repo');
+      expect(result.reviewRequestNumber).toBe(7);
+      expect(result.sourceBranch).toBe('feature/export');
+      expect(result.targetBranch).toBe('main');
+      expect(result.state).toBe('open');
+      expect(result.author).toBe('developer');
+      expect(result.assignedReviewer).toBe('claude-reviewer');
+    });
+
+    it('should map MERGED state to merged', () => {
+      const event = BitbucketEventFactory.createPullRequestEvent({ pullrequest: { state: 'MERGED' } });
+
+      expect(adapter.translateBitbucketEvent(event).state).toBe('merged');
+    });
+
+    it('should map DECLINED state to closed', () => {
+      const event = BitbucketEventFactory.createPullRequestEvent({ pullrequest: { state: 'DECLINED' } });
+
+      expect(adapter.translateBitbucketEvent(event).state).toBe('closed');
+    });
+  });
+
+  describe('translateGiteaEvent', () => {
+    it('should translate PullRequest to ReviewRequest', () => {
+      const event = GiteaEventFactory.createPullRequestEvent();
+
+      const result = adapter.translateGiteaEvent(event);
+
+      expect(result.platform).toBe('gitea');
+      expect(result.projectPath).toBe('side-projects/notes');
+      expect(result.reviewRequestNumber).toBe(12);
+      expect(result.sourceBranch).toBe('feature/tags');
+      expect(result.state).toBe('open');
+      expect(result.assignedReviewer).toBe('claude-reviewer');
+      expect(result.isDraft).toBe(false);
+    });
+
+    it('should map a merged pull request to merged', () => {
+      const event = GiteaEventFactory.createPullRequestEvent({ pull_request: { state: 'closed', merged: true } });
+
+      expect(adapter.translateGiteaEvent(event).state).toBe('merged');
+    });
+
+    it('should derive draft from a WIP title on versions without the draft flag', () => {
+      const event = GiteaEventFactory.createPullRequestEvent({ pull_request: { title: '[WIP] tagging' } });
+
+      expect(adapter.translateGiteaEvent(event).isDraft).toBe(true);
+    });
+  });
 });
@@ -12,7 +12,7 @@ function createTestOptions(overrides: Record<string, unknown> = {}) {
   return {
     statsGateway,
     getRepositories: () => [{ localPath: '/test/project', name: 'test', enabled: true, platform: 'gitlab' }],
-    diffStatsFetchGateways: { gitlab: diffStatsFetchGateway, github: diffStatsFetchGateway },
+    diffStatsFetchGateways: { gitlab: diffStatsFetchGateway, github: diffStatsFetchGateway, bitbucket: diffStatsFetchGateway, gitea: diffStatsFetchGateway },
     broadcastBackfillProgress: vi.fn(),
     logger: { warn: vi.fn(), info: vi.fn(), error: vi.fn() },
     ...overrides,
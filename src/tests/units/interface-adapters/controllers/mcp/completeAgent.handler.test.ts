@@ -88,4 +88,26 @@ describe("completeAgent handler", () => {
 		expect(result.isError).toBe(true);
 		expect(result.content[0].text).toContain("Agent not found");
 	});
+
+	it("should record the tokens reported by the agent", () => {
+		const gateway = new ReviewProgressMemoryGateway();
+		gateway.createProgress("job-1", ["security"]);
+		gateway.startAgent("job-1", "security");
+		const handler = createCompleteAgentHandler({ progressGateway: gateway });
+
+		const result = handler({ jobId: "job-1", agentName: "security", status: "success", tokens: 9000 });
+
+		expect(JSON.parse(result.content[0].text)).toMatchObject({ success: true, tokens: 9000 });
+	});
+
+	it("should return error when tokens is not a non-negative integer", () => {
+		const gateway = new ReviewProgressMemoryGateway();
+		gateway.createProgress("job-1", ["security"]);
+		const handler = createCompleteAgentHandler({ progressGateway: gateway });
+
+		const result = handler({ jobId: "job-1", agentName: "security", status: "success", tokens: -1 });
+
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toBe("Error: tokens must be a non-negative integer");
+	});
 });
@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { JobContextMemoryGateway } from "@/modules/review-execution/interface-adapters/gateways/jobContext.memory.gateway.js";
+import { ReviewContextFileSystemGateway } from "@/modules/review-execution/interface-adapters/gateways/reviewContext.fileSystem.gateway.js";
+import { createGetDiffHandler } from "@/modules/review-execution/interface-adapters/controllers/mcp/getDiff.handler.js";
+import { StubReviewDiffGateway } from "@/tests/stubs/reviewDiffGateway.stub.js";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+describe("getDiff handler", () => {
+	let tempDir: string;
+	let jobContextGateway: JobContextMemoryGateway;
+	let reviewContextGateway: ReviewContextFileSystemGateway;
+	let reviewDiffGateway: StubReviewDiffGateway;
+	const jobId = "gitlab:project/path:123";
+	const mergeRequestId = "gitlab-project-path-123";
+
+	const createHandler = () =>
+		createGetDiffHandler({
+			jobContextGateway,
+			reviewContextGateway,
+			reviewDiffGateway,
+			diffMetadataFetchGatewayFactory: () => {
+				throw new Error("unexpected platform call");
+			},
+		});
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "getDiff-handler-"));
+		jobContextGateway = new JobContextMemoryGateway();
+		reviewContextGateway = new ReviewContextFileSystemGateway();
+		reviewDiffGateway = new StubReviewDiffGateway();
+		reviewDiffGateway.fileDiffs = Array.from({ length: 12 }, (_, index) => ({
+			path: `src/file${index}.ts`,
+			previousPath: null,
+			status: "modified" as const,
+			binary: false,
+			hunks: [],
+		}));
+
+		jobContextGateway.register(jobId, { localPath: tempDir, mergeRequestId });
+		reviewContextGateway.create({
+			localPath: tempDir,
+			mergeRequestId,
+			platform: "gitlab",
+			projectPath: "project/path",
+			mergeRequestNumber: 123,
+			diffMetadata: { baseSha: "base", headSha: "head", startSha: "start" },
+		});
+	});
+
+	it("should return the first page of 10 files by default", async () => {
+		const result = await createHandler()({ jobId });
+
+		expect(result.isError).toBeUndefined();
+		const content = JSON.parse(result.content[0].text);
+		expect(content).toMatchObject({
+			success: true,
+			baseSha: "merge-base-sha",
+			headSha: "head",
+			page: 1,
+			pageSize: 10,
+			totalFiles: 12,
+			totalPages: 2,
+		});
+		expect(content.files).toHaveLength(10);
+	});
+
+	it("should return error when paths is not an array of strings", async () => {
+		const result = await createHandler()({ jobId, paths: "src/a.ts" });
+
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toBe("Error: paths must be an array of strings");
+	});
+
+	it("should return error when jobId is missing", async () => {
+		const result = await createHandler()({});
+
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toBe("Error: jobId is required");
+	});
+});
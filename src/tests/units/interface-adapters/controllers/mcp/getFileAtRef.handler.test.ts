@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { JobContextMemoryGateway } from "@/modules/review-execution/interface-adapters/gateways/jobContext.memory.gateway.js";
+import { ReviewContextFileSystemGateway } from "@/modules/review-execution/interface-adapters/gateways/reviewContext.fileSystem.gateway.js";
+import { createGetFileAtRefHandler } from "@/modules/review-execution/interface-adapters/controllers/mcp/getFileAtRef.handler.js";
+import { StubReviewDiffGateway } from "@/tests/stubs/reviewDiffGateway.stub.js";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+describe("getFileAtRef handler", () => {
+	let tempDir: string;
+	let jobContextGateway: JobContextMemoryGateway;
+	let reviewContextGateway: ReviewContextFileSystemGateway;
+	let reviewDiffGateway: StubReviewDiffGateway;
+	const jobId = "gitlab:project/path:123";
+	const mergeRequestId = "gitlab-project-path-123";
+
+	const createHandler = () =>
+		createGetFileAtRefHandler({
+			jobContextGateway,
+			reviewContextGateway,
+			reviewDiffGateway,
+			diffMetadataFetchGatewayFactory: () => {
+				throw new Error("unexpected platform call");
+			},
+		});
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "getFileAtRef-handler-"));
+		jobContextGateway = new JobContextMemoryGateway();
+		reviewContextGateway = new ReviewContextFileSystemGateway();
+		reviewDiffGateway = new StubReviewDiffGateway();
+		reviewDiffGateway.setFile("head", "src/a.ts", "export {};\n");
+
+		jobContextGateway.register(jobId, { localPath: tempDir, mergeRequestId });
+		reviewContextGateway.create({
+			localPath: tempDir,
+			mergeRequestId,
+			platform: "gitlab",
+			projectPath: "project/path",
+			mergeRequestNumber: 123,
+			diffMetadata: { baseSha: "base", headSha: "head", startSha: "start" },
+		});
+	});
+
+	it("should read the head version by default", async () => {
+		const result = await createHandler()({ jobId, path: "src/a.ts" });
+
+		expect(result.isError).toBeUndefined();
+		expect(JSON.parse(result.content[0].text)).toMatchObject({
+			success: true,
+			ref: "head",
+			exists: true,
+			content: "export {};",
+		});
+	});
+
+	it("should return error when path is missing", async () => {
+		const result = await createHandler()({ jobId });
+
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toBe("Error: path is required");
+	});
+
+	it("should return error for an invalid ref", async () => {
+		const result = await createHandler()({ jobId, path: "src/a.ts", ref: "main" });
+
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toContain("Invalid ref 'main'");
+	});
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { JobContextMemoryGateway } from "@/modules/review-execution/interface-adapters/gateways/jobContext.memory.gateway.js";
+import { ReviewContextFileSystemGateway } from "@/modules/review-execution/interface-adapters/gateways/reviewContext.fileSystem.gateway.js";
+import { createReportFindingHandler } from "@/modules/review-execution/interface-adapters/controllers/mcp/reportFinding.handler.js";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+describe("reportFinding handler", () => {
+	let tempDir: string;
+	let jobContextGateway: JobContextMemoryGateway;
+	let reviewContextGateway: ReviewContextFileSystemGateway;
+	const jobId = "gitlab:project/path:123";
+	const mergeRequestId = "gitlab-project-path-123";
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "reportFinding-handler-"));
+		jobContextGateway = new JobContextMemoryGateway();
+		reviewContextGateway = new ReviewContextFileSystemGateway();
+
+		jobContextGateway.register(jobId, { localPath: tempDir, mergeRequestId });
+		reviewContextGateway.create({
+			localPath: tempDir,
+			mergeRequestId,
+			platform: "gitlab",
+			projectPath: "project/path",
+			mergeRequestNumber: 123,
+		});
+	});
+
+	it("should report a finding with its range, patch and confidence", () => {
+		const handler = createReportFindingHandler({ jobContextGateway, reviewContextGateway });
+		const result = handler({
+			jobId,
+			severity: "warning",
+			agent: "testing",
+			title: "Missing test for the refund path",
+			body: "Add a case for partial refunds.",
+			filePath: "src/refund.ts",
+			startLine: 12,
+			endLine: 18,
+			suggestedPatch: "+it('refunds partially')",
+			confidence: 0.6,
+		});
+
+		expect(result.isError).toBeUndefined();
+		const content = JSON.parse(result.content[0].text);
+		expect(content).toMatchObject({ success: true, inlineComment: true });
+		expect(reviewContextGateway.read(tempDir, mergeRequestId)?.findings?.[0]).toMatchObject({
+			id: content.findingId,
+			severity: "warning",
+			startLine: 12,
+			endLine: 18,
+			suggestedPatch: "+it('refunds partially')",
+			confidence: 0.6,
+		});
+	});
+
+	it("should default endLine to startLine and confidence to 1", () => {
+		const handler = createReportFindingHandler({ jobContextGateway, reviewContextGateway });
+		handler({ jobId, severity: "suggestion", agent: "clean-code", title: "Rename x", body: "", filePath: "src/a.ts", startLine: 3 });
+
+		expect(reviewContextGateway.read(tempDir, mergeRequestId)?.findings?.[0]).toMatchObject({
+			startLine: 3,
+			endLine: 3,
+			suggestedPatch: null,
+			confidence: 1,
+		});
+	});
+
+	it("should return error when jobId is missing", () => {
+		const handler = createReportFindingHandler({ jobContextGateway, reviewContextGateway });
+		const result = handler({ severity: "blocking", agent: "security", title: "t", body: "" });
+
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toBe("Error: jobId is required");
+	});
+
+	it("should return error for an invalid severity", () => {
+		const handler = createReportFindingHandler({ jobContextGateway, reviewContextGateway });
+		const result = handler({ jobId, severity: "critical", agent: "security", title: "t", body: "" });
+
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toContain("Invalid severity 'critical'");
+	});
+
+	it("should return the use case error", () => {
+		const handler = createReportFindingHandler({ jobContextGateway, reviewContextGateway });
+		const result = handler({ jobId, severity: "blocking", agent: "security", body: "" });
+
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toBe("Error: title required");
+	});
+});
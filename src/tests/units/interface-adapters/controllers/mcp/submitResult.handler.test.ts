@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { JobContextMemoryGateway } from "@/modules/review-execution/interface-adapters/gateways/jobContext.memory.gateway.js";
+import { ReviewContextFileSystemGateway } from "@/modules/review-execution/interface-adapters/gateways/reviewContext.fileSystem.gateway.js";
+import { createSubmitResultHandler } from "@/modules/review-execution/interface-adapters/controllers/mcp/submitResult.handler.js";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+describe("submitResult handler", () => {
+	let tempDir: string;
+	let jobContextGateway: JobContextMemoryGateway;
+	let reviewContextGateway: ReviewContextFileSystemGateway;
+	const jobId = "gitlab:project/path:123";
+	const mergeRequestId = "gitlab-project-path-123";
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "submitResult-handler-"));
+		jobContextGateway = new JobContextMemoryGateway();
+		reviewContextGateway = new ReviewContextFileSystemGateway();
+
+		jobContextGateway.register(jobId, { localPath: tempDir, mergeRequestId });
+		reviewContextGateway.create({
+			localPath: tempDir,
+			mergeRequestId,
+			platform: "gitlab",
+			projectPath: "project/path",
+			mergeRequestNumber: 123,
+		});
+	});
+
+	it("should submit the score and verdict", () => {
+		const handler = createSubmitResultHandler({ jobContextGateway, reviewContextGateway });
+		const result = handler({ jobId, score: 8, verdict: "ready_to_merge" });
+
+		expect(result.isError).toBeUndefined();
+		expect(JSON.parse(result.content[0].text)).toEqual({
+			success: true,
+			score: 8,
+			verdict: "ready_to_merge",
+			findings: 0,
+		});
+	});
+
+	it("should return error when score is missing", () => {
+		const handler = createSubmitResultHandler({ jobContextGateway, reviewContextGateway });
+		const result = handler({ jobId, verdict: "ready_to_merge" });
+
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toBe("Error: score is required");
+	});
+
+	it("should return error for an invalid verdict", () => {
+		const handler = createSubmitResultHandler({ jobContextGateway, reviewContextGateway });
+		const result = handler({ jobId, score: 8, verdict: "lgtm" });
+
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toContain("Invalid verdict 'lgtm'");
+	});
+});
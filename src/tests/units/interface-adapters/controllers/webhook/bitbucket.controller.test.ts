@@ -0,0 +1,468 @@
+import { vi } from 'vitest';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import type { RepositoryConfig } from '../../../../../config/loader.js';
+import type { BitbucketWebhookDependencies } from '@/modules/platform-integration/interface-adapters/controllers/webhook/bitbucket.controller.js';
+
+const mockConfig = {
+  server: { port: 3000 },
+  user: {
+    gitlabUsername: 'claude-bot',
+    githubUsername: 'claude-bot',
+    bitbucketUsername: 'claude-reviewer',
+  },
+  queue: { maxConcurrent: 1, deduplicationWindowMs: 60000 },
+  repositories: [],
+};
+
+const mockRepoConfig: RepositoryConfig = {
+  name: 'my-repo',
+  platform: 'bitbucket',
+  localPath: '/home/user/projects/my-repo',
+  remoteUrl: 'https://bitbucket.org/my-workspace/my-repo.git',
+  skill: 'review-front',
+  enabled: true,
+};
+
+vi.mock('../../../../../config/loader.js', () => ({
+  loadConfig: vi.fn(() => mockConfig),
+  findRepositoryByProjectPath: vi.fn(() => mockRepoConfig),
+}));
+
+vi.mock('../../../../../security/verifier.js', () => ({
+  verifyBitbucketSignature: vi.fn(() => ({ valid: true })),
+  getBitbucketEventKey: vi.fn(() => 'pullrequest:created'),
+  getBitbucketRequestUuid: vi.fn(() => undefined),
+}));
+
+vi.mock('../../../../../frameworks/queue/pQueueAdapter.js', () => ({
+  createJobId: vi.fn((prefix: string, project: string, number: number) => `${prefix}:${project}:${number}`),
+  enqueueReview: vi.fn(() => Promise.resolve(true)),
+  updateJobProgress: vi.fn(),
+  cancelJob: vi.fn(() => true),
+}));
+
+vi.mock('../../../../../claude/invoker.js', () => ({
+  invokeClaudeReview: vi.fn(),
+  sendNotification: vi.fn(),
+}));
+
+vi.mock('../../../../../main/websocket.js', () => ({
+  startWatchingReviewContext: vi.fn(),
+  stopWatchingReviewContext: vi.fn(),
+}));
+
+vi.mock('@/modules/review-execution/services/contextActionsExecutor.js', () => ({
+  executeActionsFromContext: vi.fn(() => Promise.resolve({ total: 1, succeeded: 1, failed: 0, skipped: 0 })),
+}));
+
+vi.mock('@/modules/review-execution/services/threadActionsExecutor.js', () => ({
+  defaultCommandExecutor: vi.fn(),
+}));
+
+vi.mock('../../../../../config/projectConfig.js', () => ({
+  loadProjectConfig: vi.fn(() => null),
+  getProjectAgentsOrFocusDefaults: vi.fn(() => null),
+  getFollowupAgents: vi.fn(() => null),
+  getProjectLanguage: vi.fn(() => 'en'),
+}));
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { handleBitbucketWebhook } from '@/modules/platform-integration/interface-adapters/controllers/webhook/bitbucket.controller.js';
+import { BitbucketEventFactory } from '../../../../factories/bitbucketEvent.factory.js';
+import { TrackedMrFactory } from '../../../../factories/trackedMr.factory.js';
+import { createStubLogger } from '../../../../stubs/logger.stub.js';
+import { enqueueReview, cancelJob } from '../../../../../frameworks/queue/pQueueAdapter.js';
+import { invokeClaudeReview } from '../../../../../claude/invoker.js';
+import { verifyBitbucketSignature, getBitbucketEventKey, getBitbucketRequestUuid } from '../../../../../security/verifier.js';
+import type { TrackedMr } from '@/modules/tracking/entities/tracking/trackedMr.js';
+import { IsTrustedActorUseCase } from '@/modules/platform-integration/usecases/isTrustedActor.usecase.js';
+import { MEMBER_ACCESS_LEVELS } from '@/modules/platform-integration/entities/memberAccess/memberAccess.js';
+import { StubMemberAccessGateway } from '../../../../stubs/memberAccess.stub.js';
+
+function createMockDeps(): BitbucketWebhookDependencies {
+  return {
+    reviewContextGateway: {
+      create: vi.fn(),
+      read: vi.fn(() => null),
+      delete: vi.fn(() => ({ deleted: true })),
+      updateProgress: vi.fn(),
+      appendAction: vi.fn(),
+      setResult: vi.fn(),
+    },
+    threadFetchGateway: { fetchThreads: vi.fn(() => []) },
+    diffMetadataFetchGateway: {
+      fetchDiffMetadata: vi.fn(() => ({ baseSha: 'abc', headSha: 'def', startSha: 'abc' })),
+    },
+    diffStatsFetchGateway: { fetchDiffStats: vi.fn(() => null) },
+    trackAssignment: { execute: vi.fn() },
+    recordCompletion: { execute: vi.fn() },
+    recordPush: { execute: vi.fn(() => null) },
+    transitionState: { execute: vi.fn() },
+    checkFollowupNeeded: { execute: vi.fn(() => false) },
+    syncThreads: { execute: vi.fn(() => null) },
+    enforceBudget: {
+      execute: vi.fn(async () => ({
+        accepted: true,
+        status: {
+          limitUsd: 200,
+          consumedUsd: 0,
+          remainingUsd: 200,
+          percentUsed: 0,
+          exceeded: false,
+          periodStart: '2026-05-01T00:00:00.000Z',
+        },
+      })),
+    },
+    broadcastBudgetExceeded: vi.fn(),
+    getRepositories: vi.fn(() => []),
+    removeWorktree: vi.fn(async () => ({ status: 'removed' as const })),
+    recordBypass: { execute: vi.fn(() => ({ kind: 'no-marker' })) },
+    noteCommentPostGateway: { postComment: vi.fn(async () => undefined) },
+    now: (): string => '2026-05-26T12:00:00.000Z',
+  } as unknown as BitbucketWebhookDependencies;
+}
+
+function createMockTrackingGateway(tracked: TrackedMr | null = null) {
+  return {
+    getById: vi.fn(() => tracked),
+    getByNumber: vi.fn(() => tracked),
+    create: vi.fn(),
+    update: vi.fn(),
+    getByState: vi.fn(() => []),
+    getActiveMrs: vi.fn(() => []),
+    remove: vi.fn(() => true),
+    archive: vi.fn(() => true),
+    recordReviewEvent: vi.fn(),
+    recordPush: vi.fn(() => null),
+    loadTracking: vi.fn(() => null),
+    saveTracking: vi.fn(),
+  };
+}
+
+function requestFor(body: unknown): FastifyRequest {
+  return { body, headers: {} } as unknown as FastifyRequest;
+}
+
+describe('handleBitbucketWebhook', () => {
+  let reply: FastifyReply;
+  let deps: BitbucketWebhookDependencies;
+  const logger = createStubLogger();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    reply = {
+      status: vi.fn().mockReturnThis(),
+      send: vi.fn().mockReturnThis(),
+    } as unknown as FastifyReply;
+    deps = createMockDeps();
+    vi.mocked(getBitbucketEventKey).mockReturnValue('pullrequest:created');
+    vi.mocked(verifyBitbucketSignature).mockReturnValue({ valid: true });
+  });
+
+  it('should reject requests with an invalid signature', async () => {
+    vi.mocked(verifyBitbucketSignature).mockReturnValue({ valid: false, error: 'Signature invalide' });
+
+    await handleBitbucketWebhook(requestFor({}), reply, logger, createMockTrackingGateway(), deps);
+
+    expect(reply.status).toHaveBeenCalledWith(401);
+  });
+
+  it('should track and enqueue a review when claude-reviewer is a reviewer', async () => {
+    await handleBitbucketWebhook(
+      requestFor(BitbucketEventFactory.createPullRequestEvent()),
+      reply,
+      logger,
+      createMockTrackingGateway(),
+      deps,
+    );
+
+    expect(deps.trackAssignment.execute).toHaveBeenCalledWith(
+      expect.objectContaining({
+        projectPath: '/home/user/projects/my-repo',
+        mrInfo: expect.objectContaining({
+          mrNumber: 7,
+          platform: 'bitbucket',
+          project: 'my-workspace/my-repo',
+          url: 'https://bitbucket.org/my-workspace/my-repo/pull-requests/7',
+        }),
+      }),
+    );
+    expect(enqueueReview).toHaveBeenCalledWith(
+      expect.objectContaining({ platform: 'bitbucket', mrNumber: 7, jobType: 'review' }),
+      expect.any(Function),
+    );
+    expect(reply.status).toHaveBeenCalledWith(202);
+  });
+
+  it('should record completion with a bitbucket mrId once the review succeeds', async () => {
+    vi.mocked(enqueueReview).mockImplementation(async (job, callback) => {
+      await callback(job, new AbortController().signal);
+      return true;
+    });
+    vi.mocked(invokeClaudeReview).mockResolvedValue({
+      success: true,
+      cancelled: false,
+      stdout: '[REVIEW_STATS:blocking=1:warnings=2:suggestions=0:score=8]',
+      durationMs: 1000,
+      exitCode: 0,
+      stderr: '',
+    });
+
+    await handleBitbucketWebhook(
+      requestFor(BitbucketEventFactory.createPullRequestEvent()),
+      reply,
+      logger,
+      createMockTrackingGateway(),
+      deps,
+    );
+
+    expect(deps.reviewContextGateway.create).toHaveBeenCalledWith(
+      expect.objectContaining({ platform: 'bitbucket', mergeRequestId: 'bitbucket-my-workspace/my-repo-7' }),
+    );
+    expect(deps.recordCompletion.execute).toHaveBeenCalledWith(
+      expect.objectContaining({
+        mrId: 'bitbucket-my-workspace/my-repo-7',
+        reviewData: expect.objectContaining({ type: 'review', score: 8, blocking: 1 }),
+      }),
+    );
+  });
+
+  it('should route an update on an already tracked PR to the followup path', async () => {
+    vi.mocked(getBitbucketEventKey).mockReturnValue('pullrequest:updated');
+    const tracked = TrackedMrFactory.create({ mrNumber: 7, platform: 'bitbucket', project: 'my-workspace/my-repo' });
+    vi.mocked(deps.recordPush.execute).mockReturnValue(tracked);
+    vi.mocked(deps.checkFollowupNeeded.execute).mockReturnValue(true);
+
+    await handleBitbucketWebhook(
+      requestFor(BitbucketEventFactory.createPullRequestEvent()),
+      reply,
+      logger,
+      createMockTrackingGateway(tracked),
+      deps,
+    );
+
+    expect(deps.trackAssignment.execute).not.toHaveBeenCalled();
+    expect(enqueueReview).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'bitbucket-followup:my-workspace/my-repo:7', jobType: 'followup' }),
+      expect.any(Function),
+    );
+    expect(reply.send).toHaveBeenCalledWith(expect.objectContaining({ status: 'followup-queued' }));
+  });
+
+  it('should clean up tracking when the PR is declined', async () => {
+    vi.mocked(getBitbucketEventKey).mockReturnValue('pullrequest:rejected');
+    const trackingGateway = createMockTrackingGateway();
+
+    await handleBitbucketWebhook(
+      requestFor(BitbucketEventFactory.createPullRequestEvent({ pullrequest: { state: 'DECLINED' } })),
+      reply,
+      logger,
+      trackingGateway,
+      deps,
+    );
+
+    expect(cancelJob).toHaveBeenCalledWith('bitbucket:my-workspace/my-repo:7');
+    expect(trackingGateway.archive).toHaveBeenCalledWith('/home/user/projects/my-repo', 'bitbucket-my-workspace/my-repo-7');
+    expect(deps.removeWorktree).toHaveBeenCalledWith(
+      expect.objectContaining({ identity: { platform: 'bitbucket', projectPath: 'my-workspace/my-repo', mrNumber: 7 } }),
+    );
+  });
+
+  it('should mark the PR as merged when fulfilled', async () => {
+    vi.mocked(getBitbucketEventKey).mockReturnValue('pullrequest:fulfilled');
+
+    await handleBitbucketWebhook(
+      requestFor(BitbucketEventFactory.createPullRequestEvent({ pullrequest: { state: 'MERGED' } })),
+      reply,
+      logger,
+      createMockTrackingGateway(),
+      deps,
+    );
+
+    expect(deps.transitionState.execute).toHaveBeenCalledWith(
+      expect.objectContaining({ mrId: 'bitbucket-my-workspace/my-repo-7', targetState: 'merged' }),
+    );
+  });
+
+  it('should hand comments to the bypass recorder', async () => {
+    vi.mocked(getBitbucketEventKey).mockReturnValue('pullrequest:comment_created');
+
+    await handleBitbucketWebhook(
+      requestFor(BitbucketEventFactory.createCommentEvent({ raw: '/bypass-quality "hotfix"', nickname: 'alice' })),
+      reply,
+      logger,
+      createMockTrackingGateway(),
+      deps,
+    );
+
+    expect(deps.recordBypass.execute).toHaveBeenCalledWith(
+      expect.objectContaining({
+        mrId: 'bitbucket-my-workspace/my-repo-7',
+        commentBody: '/bypass-quality "hotfix"',
+        author: 'alice',
+      }),
+    );
+  });
+
+  it('should not record a bypass from a commenter without write access (SPEC-197)', async () => {
+    vi.mocked(getBitbucketEventKey).mockReturnValue('pullrequest:comment_created');
+    const memberAccess = new StubMemberAccessGateway();
+    memberAccess.setAccess('alice', MEMBER_ACCESS_LEVELS.reporter);
+    deps.isTrustedActor = new IsTrustedActorUseCase(memberAccess);
+
+    await handleBitbucketWebhook(
+      requestFor(BitbucketEventFactory.createCommentEvent({ raw: '/bypass-quality "hotfix"', nickname: 'alice' })),
+      reply,
+      logger,
+      createMockTrackingGateway(),
+      deps,
+    );
+
+    expect(deps.recordBypass.execute).not.toHaveBeenCalled();
+    expect(reply.status).toHaveBeenCalledWith(202);
+    expect(reply.send).toHaveBeenCalledWith({ status: 'pending-confirmation', reason: 'untrusted-actor' });
+  });
+
+  it('should drop a duplicate request UUID', async () => {
+    vi.mocked(getBitbucketRequestUuid).mockReturnValue('uuid-1');
+    const recordIfAbsent = vi.fn(async () => false);
+    deps.idempotencyStore = { recordIfAbsent, listRecent: vi.fn(async () => []) };
+
+    await handleBitbucketWebhook(
+      requestFor(BitbucketEventFactory.createPullRequestEvent()),
+      reply,
+      logger,
+      createMockTrackingGateway(),
+      deps,
+    );
+
+    expect(recordIfAbsent).toHaveBeenCalledWith('uuid-1');
+    expect(enqueueReview).not.toHaveBeenCalled();
+    expect(reply.send).toHaveBeenCalledWith({ status: 'ignored', reason: 'Duplicate event' });
+  });
+
+  describe('Bitbucket Data Center deliveries', () => {
+    beforeEach(() => {
+      vi.stubEnv('BITBUCKET_DATA_CENTER_URL', 'https://bitbucket.example.com');
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it('should track and enqueue a review when pr:opened lists claude-reviewer', async () => {
+      vi.mocked(getBitbucketEventKey).mockReturnValue('pr:opened');
+
+      await handleBitbucketWebhook(
+        requestFor(BitbucketEventFactory.createDataCenterEvent()),
+        reply,
+        logger,
+        createMockTrackingGateway(),
+        deps,
+      );
+
+      expect(deps.trackAssignment.execute).toHaveBeenCalledWith(
+        expect.objectContaining({
+          mrInfo: expect.objectContaining({
+            mrNumber: 7,
+            platform: 'bitbucket',
+            project: 'PROJ/my-repo',
+            url: 'https://bitbucket.example.com/projects/PROJ/repos/my-repo/pull-requests/7',
+            sourceBranch: 'feature/export',
+            targetBranch: 'main',
+          }),
+          assignedBy: { username: 'developer', displayName: 'Dev Eloper' },
+        }),
+      );
+      expect(enqueueReview).toHaveBeenCalledWith(
+        expect.objectContaining({ platform: 'bitbucket', projectPath: 'PROJ/my-repo', mrNumber: 7, jobType: 'review' }),
+        expect.any(Function),
+      );
+    });
+
+    it('should ignore pr:opened when claude-reviewer is not a reviewer', async () => {
+      vi.mocked(getBitbucketEventKey).mockReturnValue('pr:opened');
+
+      await handleBitbucketWebhook(
+        requestFor(BitbucketEventFactory.createDataCenterEvent({ reviewer: 'someone-else' })),
+        reply,
+        logger,
+        createMockTrackingGateway(),
+        deps,
+      );
+
+      expect(enqueueReview).not.toHaveBeenCalled();
+      expect(reply.send).toHaveBeenCalledWith(expect.objectContaining({ status: 'ignored' }));
+    });
+
+    it('should not treat a reviewer change on a tracked PR as a push', async () => {
+      vi.mocked(getBitbucketEventKey).mockReturnValue('pr:reviewer:updated');
+      const tracked = TrackedMrFactory.create({ mrNumber: 7, platform: 'bitbucket', project: 'PROJ/my-repo' });
+
+      await handleBitbucketWebhook(
+        requestFor(BitbucketEventFactory.createDataCenterEvent()),
+        reply,
+        logger,
+        createMockTrackingGateway(tracked),
+        deps,
+      );
+
+      expect(deps.recordPush.execute).not.toHaveBeenCalled();
+      expect(enqueueReview).not.toHaveBeenCalled();
+    });
+
+    it('should record a push on pr:from_ref_updated', async () => {
+      vi.mocked(getBitbucketEventKey).mockReturnValue('pr:from_ref_updated');
+      const tracked = TrackedMrFactory.create({ mrNumber: 7, platform: 'bitbucket', project: 'PROJ/my-repo' });
+
+      await handleBitbucketWebhook(
+        requestFor(BitbucketEventFactory.createDataCenterEvent()),
+        reply,
+        logger,
+        createMockTrackingGateway(tracked),
+        deps,
+      );
+
+      expect(deps.recordPush.execute).toHaveBeenCalledWith(expect.objectContaining({ mrNumber: 7, platform: 'bitbucket' }));
+    });
+
+    it('should clean up tracking when the PR is declined', async () => {
+      vi.mocked(getBitbucketEventKey).mockReturnValue('pr:declined');
+      const trackingGateway = createMockTrackingGateway();
+
+      await handleBitbucketWebhook(
+        requestFor(BitbucketEventFactory.createDataCenterEvent({ state: 'DECLINED' })),
+        reply,
+        logger,
+        trackingGateway,
+        deps,
+      );
+
+      expect(trackingGateway.archive).toHaveBeenCalledWith('/home/user/projects/my-repo', 'bitbucket-PROJ/my-repo-7');
+    });
+
+    it('should hand pr:comment:added to the bypass recorder', async () => {
+      vi.mocked(getBitbucketEventKey).mockReturnValue('pr:comment:added');
+
+      await handleBitbucketWebhook(
+        requestFor(BitbucketEventFactory.createDataCenterEvent({ comment: { text: '/bypass-quality "hotfix"', author: 'alice' } })),
+        reply,
+        logger,
+        createMockTrackingGateway(),
+        deps,
+      );
+
+      expect(deps.recordBypass.execute).toHaveBeenCalledWith(
+        expect.objectContaining({ mrId: 'bitbucket-PROJ/my-repo-7', commentBody: '/bypass-quality "hotfix"', author: 'alice' }),
+      );
+    });
+
+    it('should reject a pr:opened payload that does not parse', async () => {
+      vi.mocked(getBitbucketEventKey).mockReturnValue('pr:opened');
+
+      await handleBitbucketWebhook(requestFor({ pullRequest: { id: 7 } }), reply, logger, createMockTrackingGateway(), deps);
+
+      expect(reply.status).toHaveBeenCalledWith(400);
+    });
+  });
+});
@@ -1,12 +1,14 @@
 import { vi } from 'vitest'
 import { GitLabEventFactory } from '../../../../factories/gitLabEvent.factory.js'
 import { GitHubEventFactory } from '../../../../factories/gitHubEvent.factory.js'
+import { BitbucketEventFactory } from '../../../../factories/bitbucketEvent.factory.js'
 
 vi.mock('../../../../../config/loader.js', () => ({
   loadConfig: vi.fn(() => ({
     user: {
       gitlabUsername: 'claude-reviewer',
       githubUsername: 'claude-reviewer',
+      bitbucketUsername: 'claude-reviewer',
     },
   })),
 }))
@@ -14,6 +16,7 @@ vi.mock('../../../../../config/loader.js', () => ({
 import { loadConfig } from '../../../../../config/loader.js'
 import {
   filterGitLabEvent,
+  filterGitLabLabelEvent,
   filterGitLabMrUpdate,
   filterGitLabMrClose,
   filterGitLabMrMerge,
@@ -23,9 +26,15 @@ import {
   filterGitHubPrClose,
   filterGitHubPrUpdate,
   filterGitHubPullRequestReviewEvent,
+  filterBitbucketEvent,
+  filterBitbucketPrUpdate,
+  filterBitbucketPrClose,
+  filterBitbucketPrMerge,
+  filterBitbucketCommentEvent,
   REVIEW_TRIGGER_LABEL,
 } from '@/modules/platform-integration/interface-adapters/controllers/webhook/eventFilter.js'
 import type { GitHubPullRequestReviewEvent } from '@/modules/platform-integration/entities/github/githubPullRequestReviewEvent.guard.js'
+import { triggerRulesSchema } from '@/modules/platform-integration/entities/triggerRules/triggerRules.schema.js'
 
 describe('filterGitLabEvent', () => {
   describe('when MR is opened with reviewer assigned', () => {
@@ -150,6 +159,27 @@ describe('filterGitLabMrUpdate', () => {
       }
       expect(result.reason).toContain('updated')
     })
+
+    it('should carry the new head when the update pushed commits', () => {
+      const event = GitLabEventFactory.createMergeRequestEvent({
+        object_attributes: { action: 'update', oldrev: 'aaa111', last_commit: { id: 'bbb222' } },
+      })
+
+      const result = filterGitLabMrUpdate(event)
+
+      expect(result.shouldProcess && result.headSha).toBe('bbb222')
+    })
+
+    it('should not carry a head when the update pushed no commits', () => {
+      const event = GitLabEventFactory.createMergeRequestEvent({
+        object_attributes: { action: 'update', last_commit: { id: 'bbb222' } },
+      })
+
+      const result = filterGitLabMrUpdate(event)
+
+      expect(result.shouldProcess).toBe(true)
+      expect(result.shouldProcess && result.headSha).toBeUndefined()
+    })
   })
 
   describe('when MR is draft', () => {
@@ -331,6 +361,17 @@ describe('filterGitHubEvent', () => {
         expect(result.projectPath).toBe('test-owner/test-repo')
       }
     })
+
+    it('should carry the new head of the pull request', () => {
+      const event = GitHubEventFactory.createPullRequestEvent({
+        action: 'synchronize',
+        pull_request: { state: 'open', draft: false, head: { sha: 'bbb222' } },
+      })
+
+      const result = filterGitHubPrUpdate(event)
+
+      expect(result.shouldProcess && result.headSha).toBe('bbb222')
+    })
   })
 
   describe('when action is not review_requested', () => {
@@ -489,6 +530,83 @@ describe('filterGitHubLabelEvent', () => {
   })
 })
 
+describe('filterGitHubLabelEvent with trigger rules', () => {
+  it('should process any configured trigger label', () => {
+    const rules = triggerRulesSchema.parse({ labels: ['ai-review', 'needs-review'] })
+    const event = GitHubEventFactory.createLabeledPr('ai-review')
+
+    const result = filterGitHubLabelEvent(event, rules)
+
+    expect(result.shouldProcess).toBe(true)
+    expect(result.reason).toBe('Label "ai-review" was added')
+  })
+
+  it('should list the configured labels when another label is added', () => {
+    const rules = triggerRulesSchema.parse({ labels: ['ai-review', 'needs-review'] })
+    const event = GitHubEventFactory.createLabeledPr('bug')
+
+    const result = filterGitHubLabelEvent(event, rules)
+
+    expect(result.shouldProcess).toBe(false)
+    expect(result.reason).toBe('Label "bug" is not one of "ai-review", "needs-review"')
+  })
+
+  it('should process draft PRs when skipDrafts is disabled', () => {
+    const rules = triggerRulesSchema.parse({ skipDrafts: false })
+    const event = GitHubEventFactory.createLabeledPr(REVIEW_TRIGGER_LABEL)
+    event.pull_request.draft = true
+
+    expect(filterGitHubLabelEvent(event, rules).shouldProcess).toBe(true)
+  })
+})
+
+describe('filterGitLabLabelEvent', () => {
+  it('should process when a trigger label is added', () => {
+    const event = GitLabEventFactory.createWithLabelAdded(REVIEW_TRIGGER_LABEL, ['backend'])
+
+    const result = filterGitLabLabelEvent(event)
+
+    expect(result.shouldProcess).toBe(true)
+    expect(result.reason).toContain(REVIEW_TRIGGER_LABEL)
+    if (result.shouldProcess) {
+      expect(result.mergeRequestNumber).toBe(42)
+      expect(result.projectPath).toBe('test-org/test-project')
+    }
+  })
+
+  it('should not process when the trigger label was already present', () => {
+    const event = GitLabEventFactory.createWithLabelAdded('backend', [REVIEW_TRIGGER_LABEL])
+
+    const result = filterGitLabLabelEvent(event)
+
+    expect(result.shouldProcess).toBe(false)
+    expect(result.reason).toContain(REVIEW_TRIGGER_LABEL)
+  })
+
+  it('should not process events without label changes', () => {
+    const event = GitLabEventFactory.createMrUpdate()
+
+    expect(filterGitLabLabelEvent(event).shouldProcess).toBe(false)
+  })
+
+  it('should not process draft MRs unless skipDrafts is disabled', () => {
+    const event = GitLabEventFactory.createWithLabelAdded(REVIEW_TRIGGER_LABEL)
+    event.object_attributes.draft = true
+
+    expect(filterGitLabLabelEvent(event).shouldProcess).toBe(false)
+    expect(filterGitLabLabelEvent(event, triggerRulesSchema.parse({ skipDrafts: false })).shouldProcess).toBe(true)
+  })
+
+  it('should not process when no trigger label is configured', () => {
+    const event = GitLabEventFactory.createWithLabelAdded(REVIEW_TRIGGER_LABEL)
+
+    const result = filterGitLabLabelEvent(event, triggerRulesSchema.parse({ labels: [] }))
+
+    expect(result.shouldProcess).toBe(false)
+    expect(result.reason).toContain('none configured')
+  })
+})
+
 describe('filterGitHubPrUpdate', () => {
   describe('when PR receives synchronize action on open non-draft PR', () => {
     it('should process synchronize events as followup', () => {
@@ -648,3 +766,126 @@ describe('filterGitHubPullRequestReviewEvent', () => {
     expect(result.shouldProcess).toBe(false)
   })
 })
+
+describe('filterBitbucketEvent', () => {
+  it('processes a created PR listing claude-reviewer as reviewer', () => {
+    const event = BitbucketEventFactory.createPullRequestEvent()
+
+    const result = filterBitbucketEvent(event, 'pullrequest:created')
+
+    expect(result.shouldProcess).toBe(true)
+    if (result.shouldProcess) {
+      expect(result.mergeRequestNumber).toBe(7)
+      expect(result.projectPath).toBe('my-workspace/my-repo')
+      expect(result.mergeRequestUrl).toBe('https://bitbucket.org/my-workspace/my-repo/pull-requests/7')
+      expect(result.sourceBranch).toBe('feature/export')
+      expect(result.targetBranch).toBe('main')
+    }
+  })
+
+  it('ignores a PR where claude-reviewer is not a reviewer', () => {
+    const event = BitbucketEventFactory.createPullRequestEvent({
+      pullrequest: { reviewers: [{ display_name: 'Someone', nickname: 'someone-else' }] },
+    })
+
+    expect(filterBitbucketEvent(event, 'pullrequest:updated').shouldProcess).toBe(false)
+  })
+
+  it('ignores a draft PR', () => {
+    const event = BitbucketEventFactory.createPullRequestEvent({ pullrequest: { draft: true } })
+
+    expect(filterBitbucketEvent(event, 'pullrequest:created').shouldProcess).toBe(false)
+  })
+
+  it('ignores a PR that is not OPEN', () => {
+    const event = BitbucketEventFactory.createPullRequestEvent({ pullrequest: { state: 'DECLINED' } })
+
+    expect(filterBitbucketEvent(event, 'pullrequest:updated').shouldProcess).toBe(false)
+  })
+
+  it('ignores other event keys', () => {
+    const event = BitbucketEventFactory.createPullRequestEvent()
+
+    expect(filterBitbucketEvent(event, 'pullrequest:approved').shouldProcess).toBe(false)
+  })
+
+  it('ignores every PR when bitbucketUsername is not configured', () => {
+    vi.mocked(loadConfig).mockReturnValueOnce({
+      user: { gitlabUsername: 'claude-reviewer', githubUsername: 'claude-reviewer' },
+    } as ReturnType<typeof loadConfig>)
+    const event = BitbucketEventFactory.createPullRequestEvent({
+      pullrequest: { reviewers: [{ display_name: 'Nobody' }] },
+    })
+
+    expect(filterBitbucketEvent(event, 'pullrequest:created').shouldProcess).toBe(false)
+  })
+})
+
+describe('filterBitbucketPrUpdate', () => {
+  it('flags an updated open PR as followup', () => {
+    const result = filterBitbucketPrUpdate(BitbucketEventFactory.createPullRequestEvent(), 'pullrequest:updated')
+
+    expect(result.shouldProcess).toBe(true)
+    if (result.shouldProcess) {
+      expect(result.isFollowup).toBe(true)
+    }
+  })
+
+  it('ignores a created PR', () => {
+    const result = filterBitbucketPrUpdate(BitbucketEventFactory.createPullRequestEvent(), 'pullrequest:created')
+
+    expect(result.shouldProcess).toBe(false)
+  })
+
+  it('ignores an updated draft PR', () => {
+    const event = BitbucketEventFactory.createPullRequestEvent({ pullrequest: { draft: true } })
+
+    expect(filterBitbucketPrUpdate(event, 'pullrequest:updated').shouldProcess).toBe(false)
+  })
+})
+
+describe('filterBitbucketPrClose', () => {
+  it('processes a declined PR', () => {
+    const event = BitbucketEventFactory.createPullRequestEvent({ pullrequest: { state: 'DECLINED' } })
+
+    expect(filterBitbucketPrClose(event, 'pullrequest:rejected').shouldProcess).toBe(true)
+  })
+
+  it('ignores other event keys', () => {
+    expect(filterBitbucketPrClose(BitbucketEventFactory.createPullRequestEvent(), 'pullrequest:updated').shouldProcess).toBe(false)
+  })
+})
+
+describe('filterBitbucketPrMerge', () => {
+  it('processes a merged PR', () => {
+    const event = BitbucketEventFactory.createPullRequestEvent({ pullrequest: { state: 'MERGED' } })
+
+    expect(filterBitbucketPrMerge(event, 'pullrequest:fulfilled').shouldProcess).toBe(true)
+  })
+
+  it('ignores other event keys', () => {
+    expect(filterBitbucketPrMerge(BitbucketEventFactory.createPullRequestEvent(), 'pullrequest:rejected').shouldProcess).toBe(false)
+  })
+})
+
+describe('filterBitbucketCommentEvent', () => {
+  it('extracts the comment body and author nickname', () => {
+    const result = filterBitbucketCommentEvent(
+      BitbucketEventFactory.createCommentEvent({ raw: 'please re-check', nickname: 'alice' }),
+      'pullrequest:comment_created',
+    )
+
+    expect(result.shouldProcess).toBe(true)
+    if (result.shouldProcess) {
+      expect(result.mergeRequestNumber).toBe(7)
+      expect(result.commentBody).toBe('please re-check')
+      expect(result.authorUsername).toBe('alice')
+    }
+  })
+
+  it('ignores other event keys', () => {
+    const result = filterBitbucketCommentEvent(BitbucketEventFactory.createCommentEvent(), 'pullrequest:comment_updated')
+
+    expect(result.shouldProcess).toBe(false)
+  })
+})
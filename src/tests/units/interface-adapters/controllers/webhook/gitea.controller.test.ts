@@ -0,0 +1,327 @@
+import { vi } from 'vitest';
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import type { RepositoryConfig } from '../../../../../config/loader.js';
+import type { GiteaWebhookDependencies } from '@/modules/platform-integration/interface-adapters/controllers/webhook/gitea.controller.js';
+
+const mockConfig = {
+  server: { port: 3000 },
+  user: {
+    gitlabUsername: 'claude-bot',
+    githubUsername: 'claude-bot',
+    giteaUsername: 'claude-reviewer',
+  },
+  queue: { maxConcurrent: 1, deduplicationWindowMs: 60000 },
+  repositories: [],
+};
+
+const mockRepoConfig: RepositoryConfig = {
+  name: 'notes',
+  platform: 'gitea',
+  localPath: '/home/user/projects/notes',
+  remoteUrl: 'https://git.example.com/side-projects/notes.git',
+  skill: 'review-front',
+  enabled: true,
+};
+
+vi.mock('../../../../../config/loader.js', () => ({
+  loadConfig: vi.fn(() => mockConfig),
+  findRepositoryByRemoteUrl: vi.fn(() => mockRepoConfig),
+}));
+
+vi.mock('../../../../../security/verifier.js', () => ({
+  verifyGitHubSignature: vi.fn(() => ({ valid: true })),
+  getGitHubEventType: vi.fn(() => 'pull_request'),
+  verifyGiteaSignature: vi.fn(() => ({ valid: true })),
+  getGiteaEventType: vi.fn(() => 'pull_request'),
+}));
+
+vi.mock('../../../../../frameworks/queue/pQueueAdapter.js', () => ({
+  createJobId: vi.fn((prefix: string, project: string, number: number) => `${prefix}:${project}:${number}`),
+  enqueueReview: vi.fn(() => Promise.resolve(true)),
+  updateJobProgress: vi.fn(),
+  cancelJob: vi.fn(() => true),
+}));
+
+vi.mock('../../../../../claude/invoker.js', () => ({
+  invokeClaudeReview: vi.fn(),
+  sendNotification: vi.fn(),
+}));
+
+vi.mock('../../../../../main/websocket.js', () => ({
+  startWatchingReviewContext: vi.fn(),
+  stopWatchingReviewContext: vi.fn(),
+}));
+
+vi.mock('@/modules/review-execution/services/contextActionsExecutor.js', () => ({
+  executeActionsFromContext: vi.fn(() => Promise.resolve({ total: 1, succeeded: 1, failed: 0, skipped: 0 })),
+}));
+
+vi.mock('@/modules/review-execution/services/threadActionsExecutor.js', () => ({
+  executeThreadActions: vi.fn(() => Promise.resolve({ total: 0, succeeded: 0, failed: 0, skipped: 0 })),
+  defaultCommandExecutor: vi.fn(),
+}));
+
+vi.mock('@/modules/review-execution/services/threadActionsParser.js', () => ({
+  parseThreadActions: vi.fn(() => []),
+}));
+
+vi.mock('../../../../../config/projectConfig.js', () => ({
+  loadProjectConfig: vi.fn(() => null),
+  getProjectAgentsOrFocusDefaults: vi.fn(() => null),
+  getFollowupAgents: vi.fn(() => null),
+  getProjectLanguage: vi.fn(() => 'en'),
+}));
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { handleGiteaWebhook } from '@/modules/platform-integration/interface-adapters/controllers/webhook/gitea.controller.js';
+import { GiteaEventFactory } from '../../../../factories/giteaEvent.factory.js';
+import { TrackedMrFactory } from '../../../../factories/trackedMr.factory.js';
+import { createStubLogger } from '../../../../stubs/logger.stub.js';
+import { enqueueReview, cancelJob } from '../../../../../frameworks/queue/pQueueAdapter.js';
+import { verifyGiteaSignature, getGiteaEventType } from '../../../../../security/verifier.js';
+import { IsTrustedActorUseCase } from '@/modules/platform-integration/usecases/isTrustedActor.usecase.js';
+import { MEMBER_ACCESS_LEVELS } from '@/modules/platform-integration/entities/memberAccess/memberAccess.js';
+import { StubMemberAccessGateway } from '../../../../stubs/memberAccess.stub.js';
+
+function createMockDeps(): GiteaWebhookDependencies {
+  return {
+    reviewContextGateway: {
+      create: vi.fn(),
+      read: vi.fn(() => null),
+      delete: vi.fn(() => ({ deleted: true })),
+      updateProgress: vi.fn(),
+      appendAction: vi.fn(),
+      setResult: vi.fn(),
+    },
+    threadFetchGateway: { fetchThreads: vi.fn(() => []) },
+    diffMetadataFetchGateway: {
+      fetchDiffMetadata: vi.fn(() => ({ baseSha: 'abc', headSha: 'def', startSha: 'abc' })),
+    },
+    diffStatsFetchGateway: { fetchDiffStats: vi.fn(() => null) },
+    trackAssignment: { execute: vi.fn() },
+    recordCompletion: { execute: vi.fn() },
+    recordPush: { execute: vi.fn(() => null) },
+    transitionState: { execute: vi.fn() },
+    checkFollowupNeeded: { execute: vi.fn(() => false) },
+    syncThreads: { execute: vi.fn(() => null) },
+    enforceBudget: {
+      execute: vi.fn(async () => ({
+        accepted: true,
+        status: {
+          limitUsd: 200,
+          consumedUsd: 0,
+          remainingUsd: 200,
+          percentUsed: 0,
+          exceeded: false,
+          periodStart: '2026-05-01T00:00:00.000Z',
+        },
+      })),
+    },
+    broadcastBudgetExceeded: vi.fn(),
+    getRepositories: vi.fn(() => []),
+    removeWorktree: vi.fn(async () => ({ status: 'removed' as const })),
+    recordBypass: { execute: vi.fn(() => ({ kind: 'no-marker' })) },
+    noteCommentPostGateway: { postComment: vi.fn(async () => undefined) },
+    now: (): string => '2026-05-26T12:00:00.000Z',
+  } as unknown as GiteaWebhookDependencies;
+}
+
+function createMockTrackingGateway() {
+  return {
+    getById: vi.fn(() => null),
+    getByNumber: vi.fn(() => null),
+    create: vi.fn(),
+    update: vi.fn(),
+    getByState: vi.fn(() => []),
+    getActiveMrs: vi.fn(() => []),
+    remove: vi.fn(() => true),
+    archive: vi.fn(() => true),
+    recordReviewEvent: vi.fn(),
+    recordPush: vi.fn(() => null),
+    loadTracking: vi.fn(() => null),
+    saveTracking: vi.fn(),
+  };
+}
+
+function requestFor(body: unknown): FastifyRequest {
+  return { body, headers: {} } as unknown as FastifyRequest;
+}
+
+describe('handleGiteaWebhook', () => {
+  let reply: FastifyReply;
+  let deps: GiteaWebhookDependencies;
+  const logger = createStubLogger();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    reply = {
+      status: vi.fn().mockReturnThis(),
+      send: vi.fn().mockReturnThis(),
+    } as unknown as FastifyReply;
+    deps = createMockDeps();
+    vi.mocked(getGiteaEventType).mockReturnValue('pull_request');
+    vi.mocked(verifyGiteaSignature).mockReturnValue({ valid: true });
+  });
+
+  it('should reject requests with an invalid signature', async () => {
+    vi.mocked(verifyGiteaSignature).mockReturnValue({ valid: false, error: 'Signature invalide' });
+
+    await handleGiteaWebhook(requestFor({}), reply, logger, createMockTrackingGateway(), deps);
+
+    expect(reply.status).toHaveBeenCalledWith(401);
+  });
+
+  it('should reject a payload that does not match the Gitea guard', async () => {
+    await handleGiteaWebhook(requestFor({ action: 'opened' }), reply, logger, createMockTrackingGateway(), deps);
+
+    expect(reply.status).toHaveBeenCalledWith(400);
+  });
+
+  it('should track and enqueue a gitea review when claude-reviewer is requested', async () => {
+    await handleGiteaWebhook(
+      requestFor(GiteaEventFactory.createPullRequestEvent()),
+      reply,
+      logger,
+      createMockTrackingGateway(),
+      deps,
+    );
+
+    expect(deps.trackAssignment.execute).toHaveBeenCalledWith(
+      expect.objectContaining({
+        projectPath: '/home/user/projects/notes',
+        mrInfo: expect.objectContaining({
+          mrNumber: 12,
+          platform: 'gitea',
+          project: 'side-projects/notes',
+          url: 'https://git.example.com/side-projects/notes/pulls/12',
+        }),
+      }),
+    );
+    expect(enqueueReview).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'gitea:side-projects/notes:12', platform: 'gitea', jobType: 'review' }),
+      expect.any(Function),
+    );
+    expect(reply.status).toHaveBeenCalledWith(202);
+  });
+
+  it('should ignore a review request for another reviewer', async () => {
+    await handleGiteaWebhook(
+      requestFor(GiteaEventFactory.createPullRequestEvent({ requested_reviewer: { login: 'someone-else' } })),
+      reply,
+      logger,
+      createMockTrackingGateway(),
+      deps,
+    );
+
+    expect(enqueueReview).not.toHaveBeenCalled();
+    expect(reply.send).toHaveBeenCalledWith(expect.objectContaining({ status: 'ignored' }));
+  });
+
+  it('should treat a WIP-titled pull request as a draft', async () => {
+    await handleGiteaWebhook(
+      requestFor(GiteaEventFactory.createPullRequestEvent({ pull_request: { title: 'WIP: tagging' } })),
+      reply,
+      logger,
+      createMockTrackingGateway(),
+      deps,
+    );
+
+    expect(enqueueReview).not.toHaveBeenCalled();
+    expect(deps.trackAssignment.execute).not.toHaveBeenCalled();
+    expect(reply.send).toHaveBeenCalledWith(expect.objectContaining({ status: 'ignored' }));
+  });
+
+  it('should queue a followup when a tracked PR is synchronized', async () => {
+    const tracked = TrackedMrFactory.create({
+      mrNumber: 12,
+      platform: 'gitea',
+      project: 'side-projects/notes',
+      autoFollowup: true,
+    });
+    vi.mocked(deps.recordPush.execute).mockReturnValue(tracked);
+    vi.mocked(deps.checkFollowupNeeded.execute).mockReturnValue(true);
+
+    await handleGiteaWebhook(
+      requestFor(GiteaEventFactory.createPullRequestEvent({ action: 'synchronized' })),
+      reply,
+      logger,
+      createMockTrackingGateway(),
+      deps,
+    );
+
+    expect(deps.recordPush.execute).toHaveBeenCalledWith(
+      expect.objectContaining({ mrNumber: 12, platform: 'gitea' }),
+    );
+    expect(enqueueReview).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'gitea-followup:side-projects/notes:12', jobType: 'followup', platform: 'gitea' }),
+      expect.any(Function),
+    );
+    expect(reply.send).toHaveBeenCalledWith(expect.objectContaining({ status: 'followup-queued', prNumber: 12 }));
+  });
+
+  it('should clean up tracking when the PR is closed', async () => {
+    const trackingGateway = createMockTrackingGateway();
+
+    await handleGiteaWebhook(
+      requestFor(GiteaEventFactory.createPullRequestEvent({ action: 'closed', pull_request: { state: 'closed' } })),
+      reply,
+      logger,
+      trackingGateway,
+      deps,
+    );
+
+    expect(cancelJob).toHaveBeenCalledWith('gitea:side-projects/notes:12');
+    expect(trackingGateway.archive).toHaveBeenCalledWith('/home/user/projects/notes', 'gitea-side-projects/notes-12');
+    expect(reply.send).toHaveBeenCalledWith(expect.objectContaining({ status: 'cleaned', prNumber: 12 }));
+  });
+
+  it('should record a bypass marker from a PR comment against the gitea mrId', async () => {
+    vi.mocked(getGiteaEventType).mockReturnValue('issue_comment');
+    vi.mocked(deps.recordBypass.execute).mockReturnValue({ kind: 'mr-not-found' });
+
+    await handleGiteaWebhook(
+      requestFor(GiteaEventFactory.createIssueCommentEvent({ body: '/bypass-quality "hotfix"' })),
+      reply,
+      logger,
+      createMockTrackingGateway(),
+      deps,
+    );
+
+    expect(deps.recordBypass.execute).toHaveBeenCalledWith(
+      expect.objectContaining({ mrId: 'gitea-side-projects/notes-12' }),
+    );
+  });
+
+  it('should not record a bypass from a commenter without write access (SPEC-197)', async () => {
+    vi.mocked(getGiteaEventType).mockReturnValue('issue_comment');
+    const memberAccess = new StubMemberAccessGateway();
+    memberAccess.setAccess('outsider', MEMBER_ACCESS_LEVELS.reporter);
+    deps.isTrustedActor = new IsTrustedActorUseCase(memberAccess);
+
+    await handleGiteaWebhook(
+      requestFor(GiteaEventFactory.createIssueCommentEvent({ body: '/bypass-quality "hotfix"', login: 'outsider' })),
+      reply,
+      logger,
+      createMockTrackingGateway(),
+      deps,
+    );
+
+    expect(deps.recordBypass.execute).not.toHaveBeenCalled();
+    expect(reply.send).toHaveBeenCalledWith({ status: 'pending-confirmation', reason: 'untrusted-actor' });
+  });
+
+  it('should ignore comments on plain issues', async () => {
+    vi.mocked(getGiteaEventType).mockReturnValue('issue_comment');
+
+    await handleGiteaWebhook(
+      requestFor(GiteaEventFactory.createIssueCommentEvent({ isPull: false })),
+      reply,
+      logger,
+      createMockTrackingGateway(),
+      deps,
+    );
+
+    expect(deps.recordBypass.execute).not.toHaveBeenCalled();
+    expect(reply.send).toHaveBeenCalledWith({ status: 'ignored', reason: 'Comment payload not parseable' });
+  });
+});
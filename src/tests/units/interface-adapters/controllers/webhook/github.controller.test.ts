@@ -65,6 +65,10 @@ vi.mock('@/modules/review-execution/services/threadActionsParser.js', () => ({
   parseThreadActions: vi.fn(() => []),
 }));
 
+vi.mock('@/modules/review-execution/services/dispatchConstrainedActions.js', () => ({
+  dispatchConstrainedActions: vi.fn(() => Promise.resolve({ total: 0, succeeded: 0, failed: 0, skipped: 0 })),
+}));
+
 vi.mock('../../../../../config/projectConfig.js', () => ({
   loadProjectConfig: vi.fn(() => null),
   getProjectAgents: vi.fn(() => null),
@@ -74,15 +78,31 @@ vi.mock('../../../../../config/projectConfig.js', () => ({
 }));
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { handleGitHubWebhook } from '@/modules/platform-integration/interface-adapters/controllers/webhook/github.controller.js';
+import {
+  GITHUB_FORGE,
+  buildPullRequestReviewProcessor,
+  handleGitHubWebhook,
+} from '@/modules/platform-integration/interface-adapters/controllers/webhook/github.controller.js';
 import { GitHubEventFactory } from '../../../../factories/gitHubEvent.factory.js';
 import { createStubLogger } from '../../../../stubs/logger.stub.js';
-import { enqueueReview } from '../../../../../frameworks/queue/pQueueAdapter.js';
+import { enqueueReview, type ReviewJob } from '../../../../../frameworks/queue/pQueueAdapter.js';
 import { invokeClaudeReview } from '../../../../../claude/invoker.js';
 import { verifyGitHubSignature, getGitHubEventType } from '../../../../../security/verifier.js';
 import { findRepositoryByRemoteUrl } from '../../../../../config/loader.js';
 import { TrackedMrFactory } from '../../../../factories/trackedMr.factory.js';
 import type { TrackedMr } from '@/modules/tracking/entities/tracking/trackedMr.js';
+import { parseThreadActions } from '@/modules/review-execution/services/threadActionsParser.js';
+import { dispatchConstrainedActions } from '@/modules/review-execution/services/dispatchConstrainedActions.js';
+import { executeThreadActions } from '@/modules/review-execution/services/threadActionsExecutor.js';
+import { GitHubThreadInventoryGateway } from '@/modules/review-execution/interface-adapters/gateways/threadInventory.github.gateway.js';
+import { StubMemberAccessGateway } from '@/tests/stubs/memberAccess.stub.js';
+import { StubPendingReviewRequestGateway } from '@/tests/stubs/pendingReviewRequest.stub.js';
+import { IsTrustedActorUseCase } from '@/modules/platform-integration/usecases/isTrustedActor.usecase.js';
+import { GateClaudeInvocationUseCase } from '@/modules/review-execution/usecases/gateClaudeInvocation.usecase.js';
+import { MEMBER_ACCESS_LEVELS } from '@/modules/platform-integration/entities/memberAccess/memberAccess.js';
+import { loadProjectConfig, type ProjectConfig } from '../../../../../config/projectConfig.js';
+import { triggerRulesSchema } from '@/modules/platform-integration/entities/triggerRules/triggerRules.schema.js';
+import { RecordReviewPreferenceUseCase } from '@/modules/tracking/usecases/tracking/recordReviewPreference.usecase.js';
 
 function createMockDeps(): GitHubWebhookDependencies {
   return {
@@ -411,6 +431,38 @@ describe('handleGitHubWebhook', () => {
 
       expect(mockDeps.recordCompletion.execute).not.toHaveBeenCalled();
     });
+    it('dispatches stdout thread actions against the authenticated GitHub thread inventory', async () => {
+      vi.mocked(parseThreadActions).mockReturnValueOnce([
+        { type: 'THREAD_RESOLVE', threadId: 'PRRT_kwDOAbc123' },
+      ]);
+      vi.mocked(enqueueReview).mockImplementation(async (job, callback) => {
+        await callback(job, new AbortController().signal);
+        return true;
+      });
+      vi.mocked(invokeClaudeReview).mockResolvedValue({
+        success: true,
+        cancelled: false,
+        stdout: '[THREAD_RESOLVE:PRRT_kwDOAbc123]',
+        durationMs: 1000,
+        exitCode: 0,
+        stderr: '',
+      });
+
+      const event = GitHubEventFactory.createReviewRequestedPr('claude-bot');
+      const request = { body: event, headers: {} } as unknown as FastifyRequest;
+
+      await handleGitHubWebhook(request, mockReply, logger, mockGateway, mockDeps);
+
+      expect(executeThreadActions).not.toHaveBeenCalled();
+      expect(dispatchConstrainedActions).toHaveBeenCalledWith(
+        [{ type: 'THREAD_RESOLVE', threadId: 'PRRT_kwDOAbc123' }],
+        expect.objectContaining({
+          context: expect.objectContaining({ platform: 'github', projectPath: 'test-owner/test-repo', mrNumber: 123 }),
+          provenance: 'trusted',
+          inventoryGateway: expect.any(GitHubThreadInventoryGateway),
+        }),
+      );
+    });
   });
 
   describe('assignedBy attribution', () => {
@@ -1271,4 +1323,369 @@ describe('handleGitHubWebhook', () => {
       );
     });
   });
+
+  describe('trusted-actor trigger provenance gate (SPEC-197)', () => {
+    function buildGatedDeps(
+      memberAccess: StubMemberAccessGateway,
+      pendingGateway: StubPendingReviewRequestGateway,
+    ): GitHubWebhookDependencies {
+      const gateClaudeInvocation = new GateClaudeInvocationUseCase({
+        triggerMode: 'full-auto',
+        pendingReviewRequestGateway: pendingGateway,
+        enqueue: enqueueReview,
+        broadcastPendingChanged: () => {},
+        logger,
+      });
+      return {
+        ...mockDeps,
+        gateClaudeInvocation,
+        isTrustedActor: new IsTrustedActorUseCase(memberAccess),
+      };
+    }
+
+    it('parks a review request from a read collaborator and never enqueues', async () => {
+      const memberAccess = new StubMemberAccessGateway();
+      memberAccess.setAccess('developer', MEMBER_ACCESS_LEVELS.reporter);
+      const pendingGateway = new StubPendingReviewRequestGateway();
+
+      const event = GitHubEventFactory.createReviewRequestedPr('claude-bot');
+      const request = { body: event, headers: {} } as unknown as FastifyRequest;
+
+      await handleGitHubWebhook(request, mockReply, logger, mockGateway, buildGatedDeps(memberAccess, pendingGateway));
+
+      expect(enqueueReview).not.toHaveBeenCalled();
+      expect(pendingGateway.saveCount).toBe(1);
+      expect(memberAccess.calls).toEqual([{ projectPath: 'test-owner/test-repo', username: 'developer' }]);
+    });
+
+    it('trusts the stdout thread actions of a review its write collaborator requested', async () => {
+      const memberAccess = new StubMemberAccessGateway();
+      memberAccess.setAccess('developer', MEMBER_ACCESS_LEVELS.developer);
+      vi.mocked(parseThreadActions).mockReturnValueOnce([{ type: 'THREAD_RESOLVE', threadId: 'PRRT_kwDOAbc123' }]);
+      vi.mocked(enqueueReview).mockImplementation(async (job, callback) => {
+        await callback(job, new AbortController().signal);
+        return true;
+      });
+      vi.mocked(invokeClaudeReview).mockResolvedValue({
+        success: true,
+        cancelled: false,
+        stdout: '[THREAD_RESOLVE:PRRT_kwDOAbc123]',
+        durationMs: 1000,
+        exitCode: 0,
+        stderr: '',
+      });
+
+      const event = GitHubEventFactory.createReviewRequestedPr('claude-bot');
+      const request = { body: event, headers: {} } as unknown as FastifyRequest;
+
+      await handleGitHubWebhook(
+        request,
+        mockReply,
+        logger,
+        mockGateway,
+        buildGatedDeps(memberAccess, new StubPendingReviewRequestGateway()),
+      );
+
+      expect(vi.mocked(enqueueReview).mock.calls[0][0].triggeredBy).toBe('developer');
+      expect(dispatchConstrainedActions).toHaveBeenCalledWith(
+        [{ type: 'THREAD_RESOLVE', threadId: 'PRRT_kwDOAbc123' }],
+        expect.objectContaining({ provenance: 'trusted' }),
+      );
+    });
+
+    it('keeps the stdout thread actions of a job from a read collaborator untrusted', async () => {
+      const memberAccess = new StubMemberAccessGateway();
+      memberAccess.setAccess('outsider', MEMBER_ACCESS_LEVELS.reporter);
+      vi.mocked(parseThreadActions).mockReturnValueOnce([{ type: 'THREAD_RESOLVE', threadId: 'PRRT_kwDOAbc123' }]);
+      vi.mocked(invokeClaudeReview).mockResolvedValue({
+        success: true,
+        cancelled: false,
+        stdout: '[THREAD_RESOLVE:PRRT_kwDOAbc123]',
+        durationMs: 1000,
+        exitCode: 0,
+        stderr: '',
+      });
+      const deps = { ...mockDeps, isTrustedActor: new IsTrustedActorUseCase(memberAccess) };
+      const job: ReviewJob = {
+        id: 'github:test-owner/test-repo:123',
+        platform: 'github',
+        projectPath: 'test-owner/test-repo',
+        localPath: '/path/to/repo',
+        mrNumber: 123,
+        skill: 'review-code',
+        mrUrl: 'https://github.com/test-owner/test-repo/pull/123',
+        sourceBranch: 'feature',
+        targetBranch: 'main',
+        jobType: 'review',
+        triggeredBy: 'outsider',
+      };
+
+      await buildPullRequestReviewProcessor(deps, logger, GITHUB_FORGE)(job)(job, new AbortController().signal);
+
+      expect(dispatchConstrainedActions).toHaveBeenCalledWith(
+        [{ type: 'THREAD_RESOLVE', threadId: 'PRRT_kwDOAbc123' }],
+        expect.objectContaining({ provenance: 'untrusted' }),
+      );
+    });
+
+    it('enqueues a review request from a write collaborator', async () => {
+      const memberAccess = new StubMemberAccessGateway();
+      memberAccess.setAccess('developer', MEMBER_ACCESS_LEVELS.developer);
+      const pendingGateway = new StubPendingReviewRequestGateway();
+
+      const event = GitHubEventFactory.createReviewRequestedPr('claude-bot');
+      const request = { body: event, headers: {} } as unknown as FastifyRequest;
+
+      await handleGitHubWebhook(request, mockReply, logger, mockGateway, buildGatedDeps(memberAccess, pendingGateway));
+
+      expect(enqueueReview).toHaveBeenCalled();
+      expect(pendingGateway.saveCount).toBe(0);
+    });
+
+    it('parks a followup pushed by a non-trusted actor when no gate is wired', async () => {
+      const memberAccess = new StubMemberAccessGateway();
+      const deps = createMockDeps();
+      deps.isTrustedActor = new IsTrustedActorUseCase(memberAccess);
+      (deps.recordPush.execute as ReturnType<typeof vi.fn>).mockReturnValue(
+        TrackedMrFactory.create({
+          id: 'github-test-owner/test-repo-123',
+          mrNumber: 123,
+          platform: 'github',
+          project: 'test-owner/test-repo',
+          state: 'pending-fix',
+          autoFollowup: true,
+        }),
+      );
+      (deps.checkFollowupNeeded.execute as ReturnType<typeof vi.fn>).mockReturnValue(true);
+
+      const event = GitHubEventFactory.createSynchronizePr();
+      const request = { body: event, headers: {} } as unknown as FastifyRequest;
+
+      await handleGitHubWebhook(request, mockReply, logger, mockGateway, deps);
+
+      expect(enqueueReview).not.toHaveBeenCalled();
+      expect(mockReply.status).toHaveBeenCalledWith(202);
+      expect(mockReply.send).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'pending-confirmation', reason: 'untrusted-actor', prNumber: 123 }),
+      );
+    });
+
+    it('parks a bypass comment from a non-trusted commenter before recording it', async () => {
+      vi.mocked(getGitHubEventType).mockReturnValue('issue_comment');
+      const memberAccess = new StubMemberAccessGateway();
+      memberAccess.setAccess('commenter', MEMBER_ACCESS_LEVELS.reporter);
+      const deps = { ...mockDeps, isTrustedActor: new IsTrustedActorUseCase(memberAccess) };
+      const request = {
+        body: {
+          action: 'created',
+          issue: { number: 123, pull_request: { url: 'https://api/pr/123' } },
+          comment: { body: '/bypass: shipping hotfix', user: { login: 'commenter' } },
+          repository: {
+            full_name: 'test-owner/test-repo',
+            html_url: 'https://github.com/test-owner/test-repo',
+            clone_url: 'https://github.com/test-owner/test-repo.git',
+          },
+          sender: { login: 'commenter' },
+        },
+        headers: {},
+      } as unknown as FastifyRequest;
+
+      await handleGitHubWebhook(request, mockReply, logger, mockGateway, deps);
+
+      vi.mocked(getGitHubEventType).mockReturnValue('pull_request');
+      expect(deps.recordBypass.execute).not.toHaveBeenCalled();
+      expect(mockReply.send).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'pending-confirmation', reason: 'untrusted-actor' }),
+      );
+    });
+
+    it('parks a review request when membership resolution throws (fail-closed)', async () => {
+      const memberAccess = new StubMemberAccessGateway();
+      memberAccess.setShouldFail(true);
+      const pendingGateway = new StubPendingReviewRequestGateway();
+
+      const event = GitHubEventFactory.createReviewRequestedPr('claude-bot');
+      const request = { body: event, headers: {} } as unknown as FastifyRequest;
+
+      await handleGitHubWebhook(request, mockReply, logger, mockGateway, buildGatedDeps(memberAccess, pendingGateway));
+
+      expect(enqueueReview).not.toHaveBeenCalled();
+      expect(pendingGateway.saveCount).toBe(1);
+    });
+  });
+
+  describe('trigger rules', () => {
+    function useTriggerRules(triggers: Record<string, unknown>): void {
+      vi.mocked(loadProjectConfig).mockReturnValue({
+        triggers: triggerRulesSchema.parse(triggers),
+      } as ProjectConfig);
+    }
+
+    function commentRequest(body: string): FastifyRequest {
+      return {
+        body: {
+          action: 'created',
+          issue: { number: 123, pull_request: { url: 'https://api/pr/123' } },
+          comment: { body, user: { login: 'commenter' } },
+          repository: {
+            full_name: 'test-owner/test-repo',
+            html_url: 'https://github.com/test-owner/test-repo',
+            clone_url: 'https://github.com/test-owner/test-repo.git',
+          },
+          sender: { login: 'commenter' },
+        },
+        headers: {},
+      } as unknown as FastifyRequest;
+    }
+
+    it('ignores a review request whose target branch is outside the rules', async () => {
+      useTriggerRules({ targetBranches: ['release/*'] });
+      const request = { body: GitHubEventFactory.createReviewRequestedPr('claude-bot'), headers: {} } as unknown as FastifyRequest;
+
+      await handleGitHubWebhook(request, mockReply, logger, mockGateway, mockDeps);
+
+      expect(enqueueReview).not.toHaveBeenCalled();
+      expect(mockDeps.trackAssignment.execute).not.toHaveBeenCalled();
+      expect(mockReply.send).toHaveBeenCalledWith({
+        status: 'ignored',
+        reason: 'Target branch "main" does not match trigger rules',
+      });
+    });
+
+    it('triggers on a custom label', async () => {
+      useTriggerRules({ labels: ['ai-review'] });
+      const request = { body: GitHubEventFactory.createLabeledPr('ai-review'), headers: {} } as unknown as FastifyRequest;
+
+      await handleGitHubWebhook(request, mockReply, logger, mockGateway, mockDeps);
+
+      expect(enqueueReview).toHaveBeenCalled();
+    });
+
+    it('ignores a review request when no changed file matches the path rules', async () => {
+      useTriggerRules({ paths: ['src/**'] });
+      const deps = { ...mockDeps, changedFilesFetchGateway: { fetchChangedFiles: () => ['docs/readme.md'] } };
+      const request = { body: GitHubEventFactory.createReviewRequestedPr('claude-bot'), headers: {} } as unknown as FastifyRequest;
+
+      await handleGitHubWebhook(request, mockReply, logger, mockGateway, deps);
+
+      expect(enqueueReview).not.toHaveBeenCalled();
+      expect(mockReply.send).toHaveBeenCalledWith({
+        status: 'ignored',
+        reason: 'No changed file matches trigger paths',
+      });
+    });
+
+    it('enqueues a review when a trigger command is commented', async () => {
+      vi.mocked(getGitHubEventType).mockReturnValue('issue_comment');
+      useTriggerRules({ commands: ['/review'] });
+      const pullRequest = GitHubEventFactory.createPullRequestEvent().pull_request;
+      const deps = { ...mockDeps, pullRequestFetchGateway: { fetchPullRequest: () => pullRequest } };
+
+      await handleGitHubWebhook(commentRequest('/review please'), mockReply, logger, mockGateway, deps);
+
+      vi.mocked(getGitHubEventType).mockReturnValue('pull_request');
+      expect(deps.recordBypass.execute).not.toHaveBeenCalled();
+      expect(enqueueReview).toHaveBeenCalledWith(
+        expect.objectContaining({ mrNumber: 123, targetBranch: 'main', jobType: 'review' }),
+        expect.any(Function),
+      );
+      expect(mockReply.status).toHaveBeenCalledWith(202);
+    });
+
+    it('ignores a trigger command when pull requests cannot be fetched', async () => {
+      vi.mocked(getGitHubEventType).mockReturnValue('issue_comment');
+      useTriggerRules({ commands: ['/review'] });
+
+      await handleGitHubWebhook(commentRequest('/review'), mockReply, logger, mockGateway, mockDeps);
+
+      vi.mocked(getGitHubEventType).mockReturnValue('pull_request');
+      expect(enqueueReview).not.toHaveBeenCalled();
+      expect(mockReply.send).toHaveBeenCalledWith({
+        status: 'ignored',
+        reason: 'Trigger commands are not supported on GitHub',
+      });
+    });
+  });
+
+  describe('/reviewflow commands', () => {
+    afterEach(() => {
+      vi.mocked(getGitHubEventType).mockReturnValue('pull_request');
+    });
+
+    function commandRequest(body: string): FastifyRequest {
+      vi.mocked(getGitHubEventType).mockReturnValue('issue_comment');
+      return {
+        body: {
+          action: 'created',
+          issue: { number: 123, pull_request: { url: 'https://api/pr/123' } },
+          comment: { body, user: { login: 'commenter' } },
+          repository: {
+            full_name: 'test-owner/test-repo',
+            html_url: 'https://github.com/test-owner/test-repo',
+            clone_url: 'https://github.com/test-owner/test-repo.git',
+          },
+          sender: { login: 'commenter' },
+        },
+        headers: {},
+      } as unknown as FastifyRequest;
+    }
+
+    function withPullRequest(state: 'open' | 'closed' = 'open'): GitHubWebhookDependencies {
+      const pullRequest = { ...GitHubEventFactory.createPullRequestEvent().pull_request, state };
+      return { ...mockDeps, pullRequestFetchGateway: { fetchPullRequest: () => pullRequest } };
+    }
+
+    it('enqueues a review and acknowledges the request', async () => {
+      const deps = withPullRequest();
+
+      await handleGitHubWebhook(commandRequest('/reviewflow review'), mockReply, logger, mockGateway, deps);
+
+      expect(enqueueReview).toHaveBeenCalledWith(
+        expect.objectContaining({ mrNumber: 123, jobType: 'review' }),
+        expect.any(Function),
+      );
+      expect(deps.noteCommentPostGateway.postComment).toHaveBeenCalledWith({
+        projectPath: 'test-owner/test-repo',
+        mrNumber: 123,
+        body: 'Review requested by @commenter.',
+      });
+    });
+
+    it('enqueues a followup on demand', async () => {
+      const deps = withPullRequest();
+
+      await handleGitHubWebhook(commandRequest('/reviewflow followup'), mockReply, logger, mockGateway, deps);
+
+      expect(enqueueReview).toHaveBeenCalledWith(
+        expect.objectContaining({ mrNumber: 123, jobType: 'followup', explainThreadId: undefined }),
+        expect.any(Function),
+      );
+      expect(mockReply.send).toHaveBeenCalledWith(expect.objectContaining({ status: 'followup-queued' }));
+    });
+
+    it('records a focus preference without fetching the pull request', async () => {
+      const deps = { ...mockDeps, recordReviewPreference: new RecordReviewPreferenceUseCase(mockGateway) };
+
+      await handleGitHubWebhook(commandRequest('/reviewflow focus security'), mockReply, logger, mockGateway, deps);
+
+      expect(mockGateway.update).toHaveBeenCalledWith(
+        '/home/user/projects/test-repo',
+        'github-test-owner/test-repo-123',
+        { preferences: expect.objectContaining({ focus: 'security', updatedBy: 'commenter' }) },
+      );
+      expect(deps.noteCommentPostGateway.postComment).toHaveBeenCalledWith(
+        expect.objectContaining({ body: 'Next reviews will focus on **security** (set by @commenter).' }),
+      );
+    });
+
+    it('ignores a queued command on a closed pull request without acknowledging it', async () => {
+      const deps = withPullRequest('closed');
+
+      await handleGitHubWebhook(commandRequest('/reviewflow review'), mockReply, logger, mockGateway, deps);
+
+      expect(enqueueReview).not.toHaveBeenCalled();
+      expect(deps.noteCommentPostGateway.postComment).not.toHaveBeenCalled();
+      expect(mockReply.send).toHaveBeenCalledWith({ status: 'ignored', reason: 'PR state is closed, not open' });
+    });
+  });
 });
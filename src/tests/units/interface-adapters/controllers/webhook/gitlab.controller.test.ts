@@ -37,6 +37,10 @@ vi.mock('@/frameworks/queue/pQueueAdapter.js', () => ({
   enqueueReview: vi.fn(() => Promise.resolve(true)),
   updateJobProgress: vi.fn(),
   cancelJob: vi.fn(),
+  getJobStatus: vi.fn(() => null),
+  getRunningJob: vi.fn(() => null),
+  supersedeJob: vi.fn(() => false),
+  whenJobSettled: vi.fn(() => Promise.resolve()),
 }));
 
 vi.mock('@/claude/invoker.js', () => ({
@@ -85,7 +89,14 @@ import {
   extractBaseUrl,
   buildGitLabReviewProcessor,
 } from '@/modules/platform-integration/interface-adapters/controllers/webhook/gitlab.controller.js';
-import { enqueueReview } from '@/frameworks/queue/pQueueAdapter.js';
+import {
+  enqueueReview,
+  cancelJob,
+  createJobId,
+  getJobStatus,
+  getRunningJob,
+  supersedeJob,
+} from '@/frameworks/queue/pQueueAdapter.js';
 import { invokeClaudeReview } from '@/claude/invoker.js';
 import { verifyGitLabSignature, getGitLabEventType } from '@/security/verifier.js';
 import { findRepositoryByProjectPath } from '@/config/loader.js';
@@ -100,14 +111,21 @@ import { TransitionStateUseCase } from '@/modules/tracking/usecases/tracking/tra
 import { CheckFollowupNeededUseCase } from '@/modules/tracking/usecases/tracking/checkFollowupNeeded.usecase.js';
 import { SyncThreadsUseCase } from '@/modules/tracking/usecases/tracking/syncThreads.usecase.js';
 import { RecordBypassUseCase } from '@/modules/tracking/usecases/tracking/recordBypass.usecase.js';
+import { RecordReviewPreferenceUseCase } from '@/modules/tracking/usecases/tracking/recordReviewPreference.usecase.js';
+import { RecordSupersessionUseCase } from '@/modules/tracking/usecases/tracking/recordSupersession.usecase.js';
+import { ReviewJobFactory } from '@/tests/factories/reviewJob.factory.js';
 import { HandlePlatformApprovalUseCase } from '@/modules/tracking/usecases/tracking/handlePlatformApproval.usecase.js';
 import { StubNoteCommentPostGateway } from '@/tests/stubs/noteCommentPost.stub.js';
+import { StubPendingPublicationGateway } from '@/tests/stubs/pendingPublication.stub.js';
+import { ParkReviewPublicationUseCase } from '@/modules/review-execution/usecases/parkReviewPublication.usecase.js';
 import { StubApprovalRevocationGateway } from '@/tests/stubs/approvalRevocation.stub.js';
 import { StubMemberAccessGateway } from '@/tests/stubs/memberAccess.stub.js';
 import { StubPendingReviewRequestGateway } from '@/tests/stubs/pendingReviewRequest.stub.js';
 import { IsTrustedActorUseCase } from '@/modules/platform-integration/usecases/isTrustedActor.usecase.js';
 import { GateClaudeInvocationUseCase } from '@/modules/review-execution/usecases/gateClaudeInvocation.usecase.js';
 import { MEMBER_ACCESS_LEVELS } from '@/modules/platform-integration/entities/memberAccess/memberAccess.js';
+import { loadProjectConfig, type ProjectConfig } from '@/config/projectConfig.js';
+import { triggerRulesSchema } from '@/modules/platform-integration/entities/triggerRules/triggerRules.schema.js';
 
 function createMockTrackingGateway() {
   const basicMr = TrackedMrFactory.create({
@@ -143,6 +161,8 @@ function createStubContextGateway() {
     appendAction: vi.fn(() => ({ success: true })),
     updateProgress: vi.fn(() => ({ success: true })),
     setResult: vi.fn(() => ({ success: true })),
+    appendFinding: vi.fn(() => ({ success: true })),
+    submitResult: vi.fn(() => ({ success: true })),
     listAll: vi.fn(() => []),
   };
 }
@@ -891,6 +911,78 @@ describe('handleGitLabWebhook', () => {
       );
       expect(mockGateway.update).not.toHaveBeenCalled();
     });
+
+    describe('/reviewflow commands', () => {
+      function commandRequest(note: string): FastifyRequest {
+        return { body: buildNoteEvent(note), headers: {} } as unknown as FastifyRequest;
+      }
+
+      it('enqueues a review and acknowledges the request', async () => {
+        await handleGitLabWebhook(commandRequest('/reviewflow review'), mockReply, logger, mockGateway, defaultDeps);
+
+        expect(enqueueReview).toHaveBeenCalledWith(
+          expect.objectContaining({ mrNumber: 42, jobType: 'review' }),
+          expect.any(Function),
+        );
+        expect(defaultDeps.noteCommentPostGateway.calls).toEqual([
+          { projectPath: 'test-org/test-project', mrNumber: 42, body: 'Review requested by @note-author.' },
+        ]);
+      });
+
+      it('enqueues a followup restricted to the thread to explain', async () => {
+        await handleGitLabWebhook(commandRequest('/reviewflow explain 3f2a9c'), mockReply, logger, mockGateway, defaultDeps);
+
+        expect(enqueueReview).toHaveBeenCalledWith(
+          expect.objectContaining({ jobType: 'followup', explainThreadId: '3f2a9c' }),
+          expect.any(Function),
+        );
+        expect(mockReply.send).toHaveBeenCalledWith(expect.objectContaining({ status: 'followup-queued' }));
+      });
+
+      it('cancels the running job of the merge request', async () => {
+        vi.mocked(getJobStatus).mockReturnValue('running');
+        vi.mocked(cancelJob).mockReturnValue(true);
+
+        await handleGitLabWebhook(commandRequest('/reviewflow cancel'), mockReply, logger, mockGateway, defaultDeps);
+
+        expect(cancelJob).toHaveBeenCalled();
+        expect(mockReply.send).toHaveBeenCalledWith({ status: 'cancelled', command: 'cancel' });
+        expect(defaultDeps.noteCommentPostGateway.calls[0]?.body).toBe('Review cancelled by @note-author.');
+      });
+
+      it('records a model preference on the tracked MR', async () => {
+        const deps = { ...defaultDeps, recordReviewPreference: new RecordReviewPreferenceUseCase(mockGateway) };
+
+        await handleGitLabWebhook(commandRequest('/reviewflow model opus'), mockReply, logger, mockGateway, deps);
+
+        expect(mockGateway.update).toHaveBeenCalledWith(
+          '/home/user/projects/test-project',
+          'gitlab-test-org/test-project-42',
+          { preferences: expect.objectContaining({ model: 'opus', updatedBy: 'note-author' }) },
+        );
+        expect(mockReply.send).toHaveBeenCalledWith({ status: 'preference-recorded', command: 'model' });
+      });
+
+      it('answers a malformed command with the usage text', async () => {
+        await handleGitLabWebhook(commandRequest('/reviewflow model gpt'), mockReply, logger, mockGateway, defaultDeps);
+
+        expect(enqueueReview).not.toHaveBeenCalled();
+        expect(defaultDeps.noteCommentPostGateway.calls[0]?.body).toContain('Available commands:');
+        expect(mockReply.send).toHaveBeenCalledWith(expect.objectContaining({ status: 'command-rejected' }));
+      });
+
+      it('neither acknowledges nor runs a command from a non-trusted actor', async () => {
+        const memberAccess = new StubMemberAccessGateway();
+        memberAccess.setAccess('note-author', MEMBER_ACCESS_LEVELS.reporter);
+        const deps = { ...defaultDeps, isTrustedActor: new IsTrustedActorUseCase(memberAccess) };
+
+        await handleGitLabWebhook(commandRequest('/reviewflow review'), mockReply, logger, mockGateway, deps);
+
+        expect(enqueueReview).not.toHaveBeenCalled();
+        expect(defaultDeps.noteCommentPostGateway.calls).toEqual([]);
+        expect(mockReply.status).toHaveBeenCalledWith(202);
+      });
+    });
   });
 
   describe('closed MR with unconfigured repository', () => {
@@ -1062,6 +1154,67 @@ describe('handleGitLabWebhook', () => {
     });
   });
 
+  describe('supersede on push', () => {
+    const staleJob = ReviewJobFactory.create({
+      id: 'gitlab:test-org/test-project:42',
+      localPath: '/home/user/projects/test-project',
+      headSha: 'aaa111',
+      priority: 100,
+    });
+
+    function pushEvent() {
+      return GitLabEventFactory.createMergeRequestEvent({
+        object_attributes: { action: 'update', oldrev: 'aaa111', last_commit: { id: 'bbb222' } },
+      });
+    }
+
+    beforeEach(() => {
+      vi.mocked(createJobId).mockImplementation((platform, projectPath, mrNumber) => `${platform}:${projectPath}:${mrNumber}`);
+      vi.mocked(getRunningJob).mockImplementation((jobId) => (jobId === staleJob.id ? staleJob : null));
+      vi.mocked(supersedeJob).mockReturnValue(true);
+    });
+
+    it('cancels the running review and queues a fresh one on the new head', async () => {
+      vi.mocked(loadProjectConfig).mockReturnValue({ supersedeOnPush: true } as ProjectConfig);
+      const deps = { ...defaultDeps, recordSupersession: new RecordSupersessionUseCase(mockGateway) };
+      const request = { body: pushEvent(), headers: {} } as unknown as FastifyRequest;
+
+      await handleGitLabWebhook(request, mockReply, logger, mockGateway, deps);
+
+      expect(supersedeJob).toHaveBeenCalledWith('gitlab:test-org/test-project:42');
+      await vi.waitFor(() => expect(deps.reviewContextGateway.delete).toHaveBeenCalled());
+      expect(deps.reviewContextGateway.delete).toHaveBeenCalledWith(
+        '/home/user/projects/test-project',
+        'gitlab-test-org/test-project-42',
+      );
+      expect(mockGateway.update).toHaveBeenCalledWith(
+        '/home/user/projects/test-project',
+        'gitlab-test-org/test-project-42',
+        {
+          supersessions: [
+            { type: 'review', supersededHeadSha: 'aaa111', headSha: 'bbb222', supersededAt: '2026-05-26T12:00:00.000Z' },
+          ],
+        },
+      );
+      expect(enqueueReview).toHaveBeenCalledWith(
+        expect.objectContaining({ id: staleJob.id, jobType: 'review', headSha: 'bbb222', priority: 100 }),
+        expect.any(Function),
+      );
+      expect(mockReply.send).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'superseded', jobIds: [staleJob.id] }),
+      );
+    });
+
+    it('keeps the running review when the project did not enable supersede', async () => {
+      const request = { body: pushEvent(), headers: {} } as unknown as FastifyRequest;
+
+      await handleGitLabWebhook(request, mockReply, logger, mockGateway, defaultDeps);
+
+      expect(supersedeJob).not.toHaveBeenCalled();
+      expect(enqueueReview).not.toHaveBeenCalled();
+    });
+  });
+
   describe('review processor build', () => {
     it('throws when no repository is configured for the job projectPath', async () => {
       vi.mocked(findRepositoryByProjectPath).mockReturnValueOnce(undefined);
@@ -1128,6 +1281,42 @@ describe('handleGitLabWebhook', () => {
       );
     });
 
+    it('parks the comments of the stdout fallback instead of posting them when review before publish is on', async () => {
+      mockGateway.getById.mockReturnValue(null);
+      const pendingPublicationGateway = new StubPendingPublicationGateway();
+      const noteCommentPostGateway = new StubNoteCommentPostGateway();
+      const parkReviewPublication = new ParkReviewPublicationUseCase({
+        pendingPublicationGateway,
+        isEnabled: () => true,
+        now: () => '2026-10-18T09:00:00.000Z',
+        logger,
+      });
+      const deps = { ...defaultDeps, noteCommentPostGateway, parkReviewPublication };
+
+      vi.mocked(invokeClaudeReview).mockResolvedValue({
+        success: true,
+        cancelled: false,
+        stdout: 'Score: 9/10\n[POST_COMMENT:Review complete]',
+        stderr: '',
+        exitCode: 0,
+        durationMs: 1200,
+      });
+      vi.mocked(enqueueReview).mockImplementation(async (job, callback) => {
+        await callback(job, new AbortController().signal);
+        return true;
+      });
+
+      const event = GitLabEventFactory.createWithReviewerAdded('claude-bot');
+      const request = { body: event, headers: {} } as unknown as FastifyRequest;
+
+      await handleGitLabWebhook(request, mockReply, logger, mockGateway, deps);
+
+      expect(noteCommentPostGateway.calls).toEqual([]);
+      const parked = await pendingPublicationGateway.load('gitlab-test-org/test-project-42');
+      expect(parked?.jobType).toBe('review');
+      expect(parked?.items.map((item) => item.action)).toEqual([{ type: 'POST_COMMENT', body: 'Review complete' }]);
+    });
+
     it('throws when a non-cancelled review run fails', async () => {
       mockGateway.getById.mockReturnValue(null);
       vi.mocked(invokeClaudeReview).mockResolvedValue({
@@ -1157,3 +1346,196 @@ describe('handleGitLabWebhook', () => {
     });
   });
 });
+
+describe('handleGitLabWebhook trigger rules', () => {
+  let mockReply: FastifyReply;
+  let mockGateway: ReturnType<typeof createMockTrackingGateway>;
+  let defaultDeps: ReturnType<typeof createDefaultDeps>;
+
+  const logger = createStubLogger();
+
+  function useTriggerRules(triggers: Record<string, unknown>): void {
+    vi.mocked(loadProjectConfig).mockReturnValue({
+      triggers: triggerRulesSchema.parse(triggers),
+    } as ProjectConfig);
+  }
+
+  function noteRequest(note: string, mergeRequest: Record<string, unknown> = {}): FastifyRequest {
+    return {
+      body: {
+        object_kind: 'note',
+        user: { username: 'note-author', name: 'Note Author' },
+        project: {
+          id: 1,
+          name: 'test-project',
+          path_with_namespace: 'test-org/test-project',
+          web_url: 'https://gitlab.com/test-org/test-project',
+          git_http_url: 'https://gitlab.com/test-org/test-project.git',
+        },
+        object_attributes: { note, noteable_type: 'MergeRequest' },
+        merge_request: {
+          iid: 42,
+          title: 'Test MR',
+          state: 'opened',
+          source_branch: 'feature/test',
+          target_branch: 'main',
+          ...mergeRequest,
+        },
+      },
+      headers: {},
+    } as unknown as FastifyRequest;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockReply = {
+      status: vi.fn().mockReturnThis(),
+      send: vi.fn().mockReturnThis(),
+    } as unknown as FastifyReply;
+    mockGateway = createMockTrackingGateway();
+    defaultDeps = createDefaultDeps(mockGateway);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  function authoredBy(author: string) {
+    return {
+      fetchMergeRequestMetadata: vi.fn(() => ({
+        title: 'Test MR',
+        description: '',
+        author,
+        sourceBranch: 'feature/test',
+        targetBranch: 'main',
+        labels: [],
+        linkedIssues: [],
+        webUrl: null,
+      })),
+    };
+  }
+
+  it('ignores a reviewer assignment on a merge request of a denied author', async () => {
+    useTriggerRules({ authors: { deny: ['renovate*'] } });
+    const mergeRequestMetadataFetchGateway = authoredBy('renovate-bot');
+    const request = {
+      body: GitLabEventFactory.createWithReviewerAdded('claude-bot'),
+      headers: {},
+    } as unknown as FastifyRequest;
+
+    await handleGitLabWebhook(request, mockReply, logger, mockGateway, {
+      ...defaultDeps,
+      mergeRequestMetadataFetchGateway,
+    });
+
+    expect(mergeRequestMetadataFetchGateway.fetchMergeRequestMetadata).toHaveBeenCalledWith('test-org/test-project', 42);
+    expect(enqueueReview).not.toHaveBeenCalled();
+    expect(mockReply.send).toHaveBeenCalledWith({
+      status: 'ignored',
+      reason: 'Author "renovate-bot" is denied by trigger rules',
+    });
+  });
+
+  it('applies author rules to the merge request author, not to who added the reviewer', async () => {
+    useTriggerRules({ authors: { deny: ['renovate*'] } });
+    const event = GitLabEventFactory.createWithReviewerAdded('claude-bot');
+    event.user = { username: 'renovate-bot', name: 'Renovate' };
+    const request = { body: event, headers: {} } as unknown as FastifyRequest;
+
+    await handleGitLabWebhook(request, mockReply, logger, mockGateway, {
+      ...defaultDeps,
+      mergeRequestMetadataFetchGateway: authoredBy('alice'),
+    });
+
+    expect(enqueueReview).toHaveBeenCalledWith(
+      expect.objectContaining({ mrNumber: 42, author: { username: 'alice', displayName: undefined } }),
+      expect.any(Function),
+    );
+  });
+
+  it('rejects a trigger command note on a merge request of a denied author', async () => {
+    vi.mocked(getGitLabEventType).mockReturnValue('Note Hook');
+    useTriggerRules({ commands: ['/review'], authors: { deny: ['renovate*'] } });
+
+    await handleGitLabWebhook(noteRequest('/reviewflow review'), mockReply, logger, mockGateway, {
+      ...defaultDeps,
+      mergeRequestMetadataFetchGateway: authoredBy('renovate-bot'),
+    });
+
+    expect(enqueueReview).not.toHaveBeenCalled();
+    expect(mockReply.send).toHaveBeenCalledWith({
+      status: 'ignored',
+      reason: 'Author "renovate-bot" is denied by trigger rules',
+    });
+  });
+
+  it('rejects a review when author rules are set and the author cannot be resolved', async () => {
+    useTriggerRules({ authors: { allow: ['alice'] } });
+    const request = {
+      body: GitLabEventFactory.createWithReviewerAdded('claude-bot'),
+      headers: {},
+    } as unknown as FastifyRequest;
+
+    await handleGitLabWebhook(request, mockReply, logger, mockGateway, defaultDeps);
+
+    expect(enqueueReview).not.toHaveBeenCalled();
+    expect(mockReply.send).toHaveBeenCalledWith({
+      status: 'ignored',
+      reason: 'Author could not be resolved for trigger rules',
+    });
+  });
+
+  it('enqueues a review when a trigger label is added', async () => {
+    const request = {
+      body: GitLabEventFactory.createWithLabelAdded('needs-review'),
+      headers: {},
+    } as unknown as FastifyRequest;
+
+    await handleGitLabWebhook(request, mockReply, logger, mockGateway, defaultDeps);
+
+    expect(enqueueReview).toHaveBeenCalledWith(
+      expect.objectContaining({ mrNumber: 42, jobType: 'review' }),
+      expect.any(Function),
+    );
+  });
+
+  it('enqueues a review when a trigger command note is posted', async () => {
+    vi.mocked(getGitLabEventType).mockReturnValue('Note Hook');
+    useTriggerRules({ commands: ['/review'] });
+
+    await handleGitLabWebhook(noteRequest('/review'), mockReply, logger, mockGateway, defaultDeps);
+
+    expect(enqueueReview).toHaveBeenCalledWith(
+      expect.objectContaining({
+        mrNumber: 42,
+        targetBranch: 'main',
+        mrUrl: 'https://gitlab.com/test-org/test-project/-/merge_requests/42',
+      }),
+      expect.any(Function),
+    );
+    expect(mockReply.status).toHaveBeenCalledWith(202);
+  });
+
+  it('applies the branch rules to trigger commands', async () => {
+    vi.mocked(getGitLabEventType).mockReturnValue('Note Hook');
+    useTriggerRules({ commands: ['/review'], targetBranches: ['release/*'] });
+
+    await handleGitLabWebhook(noteRequest('/review'), mockReply, logger, mockGateway, defaultDeps);
+
+    expect(enqueueReview).not.toHaveBeenCalled();
+    expect(mockReply.send).toHaveBeenCalledWith({
+      status: 'ignored',
+      reason: 'Target branch "main" does not match trigger rules',
+    });
+  });
+
+  it('ignores a trigger command on a merged MR', async () => {
+    vi.mocked(getGitLabEventType).mockReturnValue('Note Hook');
+    useTriggerRules({ commands: ['/review'] });
+
+    await handleGitLabWebhook(noteRequest('/review', { state: 'merged' }), mockReply, logger, mockGateway, defaultDeps);
+
+    expect(enqueueReview).not.toHaveBeenCalled();
+    expect(mockReply.send).toHaveBeenCalledWith({ status: 'ignored', reason: 'MR state is merged, not opened' });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { GitLabChangedFilesFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/changedFilesFetch.gitlab.gateway.js'
+import { GitHubChangedFilesFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/changedFilesFetch.github.gateway.js'
+
+function fullPage<T>(build: (index: number) => T): T[] {
+  return Array.from({ length: 100 }, (_, index) => build(index))
+}
+
+describe('GitLabChangedFilesFetchGateway', () => {
+  it('lists old and new paths of every diff once', () => {
+    const gateway = new GitLabChangedFilesFetchGateway(() => JSON.stringify([
+      { old_path: 'src/a.ts', new_path: 'src/a.ts' },
+      { old_path: 'lib/old.ts', new_path: 'lib/new.ts' },
+    ]))
+
+    expect(gateway.fetchChangedFiles('group/project', 5)).toEqual(['src/a.ts', 'lib/new.ts', 'lib/old.ts'])
+  })
+
+  it('follows pages until a short page', () => {
+    const commands: string[] = []
+    const gateway = new GitLabChangedFilesFetchGateway((command) => {
+      commands.push(command)
+      return commands.length === 1
+        ? JSON.stringify(fullPage(index => ({ old_path: `f${index}`, new_path: `f${index}` })))
+        : JSON.stringify([{ old_path: 'last', new_path: 'last' }])
+    })
+
+    expect(gateway.fetchChangedFiles('group/project', 5)).toHaveLength(101)
+    expect(commands).toEqual([
+      'glab api "projects/group%2Fproject/merge_requests/5/diffs?per_page=100&page=1"',
+      'glab api "projects/group%2Fproject/merge_requests/5/diffs?per_page=100&page=2"',
+    ])
+  })
+})
+
+describe('GitHubChangedFilesFetchGateway', () => {
+  it('lists filenames and the previous name of renamed files', () => {
+    const gateway = new GitHubChangedFilesFetchGateway(() => JSON.stringify([
+      { filename: 'src/a.ts' },
+      { filename: 'lib/new.ts', previous_filename: 'lib/old.ts' },
+    ]))
+
+    expect(gateway.fetchChangedFiles('owner/repo', 7)).toEqual(['src/a.ts', 'lib/new.ts', 'lib/old.ts'])
+  })
+
+  it('follows pages until a short page', () => {
+    const commands: string[] = []
+    const gateway = new GitHubChangedFilesFetchGateway((command) => {
+      commands.push(command)
+      return commands.length === 1 ? JSON.stringify(fullPage(index => ({ filename: `f${index}` }))) : '[]'
+    })
+
+    expect(gateway.fetchChangedFiles('owner/repo', 7)).toHaveLength(100)
+    expect(commands[1]).toBe('gh api "repos/owner/repo/pulls/7/files?per_page=100&page=2"')
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { GitHubCommitStatusCliGateway } from '@/modules/platform-integration/interface-adapters/gateways/cli/commitStatus.github.cli.gateway.js';
+
+describe('GitHubCommitStatusCliGateway', () => {
+  const input = {
+    projectPath: 'octo-org/api',
+    sha: 'abc123',
+    title: '9/10, ready to merge',
+    targetUrl: 'https://reviewflow.example.com',
+  };
+
+  it('publishes a commit status, which a user token may create', async () => {
+    const commands: string[] = [];
+    const gateway = new GitHubCommitStatusCliGateway((command) => {
+      commands.push(command);
+      return '';
+    });
+
+    await gateway.publish({ ...input, state: 'success' });
+
+    expect(commands).toEqual([
+      "gh api --method POST repos/octo-org/api/statuses/abc123 '--raw-field' 'state=success' '--raw-field' 'context=reviewflow/review' '--raw-field' 'description=9/10, ready to merge' '--raw-field' 'target_url=https://reviewflow.example.com'",
+    ]);
+  });
+
+  it('reports a running review as pending, the only in-flight state of a status', async () => {
+    const commands: string[] = [];
+    const gateway = new GitHubCommitStatusCliGateway((command) => {
+      commands.push(command);
+      return '';
+    });
+
+    await gateway.publish({ ...input, state: 'running', title: 'Review in progress', targetUrl: null });
+
+    expect(commands[0]).toContain("'state=pending'");
+    expect(commands[0]).not.toContain('target_url');
+  });
+
+  it('cuts the description to the 140 characters GitHub accepts', async () => {
+    const commands: string[] = [];
+    const gateway = new GitHubCommitStatusCliGateway((command) => {
+      commands.push(command);
+      return '';
+    });
+
+    await gateway.publish({ ...input, state: 'failure', title: `Review failed: ${'x'.repeat(200)}` });
+
+    const description = /'description=([^']*)'/.exec(commands[0])?.[1];
+    expect(description).toHaveLength(140);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { BitbucketReviewActionCliGateway } from '@/modules/review-execution/interface-adapters/gateways/cli/reviewAction.bitbucket.cli.gateway.js'
+import type { ReviewAction } from '@/modules/review-execution/entities/reviewAction/reviewAction.js'
+
+const context = { projectPath: 'my-workspace/my-repo', mrNumber: 7, localPath: '/tmp', baseUrl: null as string | null }
+const commentsUrl = 'https://api.bitbucket.org/2.0/repositories/my-workspace/my-repo/pullrequests/7/comments'
+
+function dataArgument(args: string[]): unknown {
+  return JSON.parse(args[args.indexOf('--data') + 1])
+}
+
+describe('BitbucketReviewActionCliGateway', () => {
+  it('should resolve a comment thread through the resolve endpoint', async () => {
+    const executor = vi.fn()
+    const gateway = new BitbucketReviewActionCliGateway(executor)
+    const actions: ReviewAction[] = [{ type: 'THREAD_RESOLVE', threadId: '101' }]
+
+    const result = await gateway.execute(actions, context)
+
+    expect(executor).toHaveBeenCalledWith('curl', expect.arrayContaining(['--netrc', 'POST', `${commentsUrl}/101/resolve`]), '/tmp')
+    expect(result.succeeded).toBe(1)
+  })
+
+  it('should post a general comment', async () => {
+    const executor = vi.fn()
+    const gateway = new BitbucketReviewActionCliGateway(executor)
+
+    await gateway.execute([{ type: 'POST_COMMENT', body: '## Review complete' }], context)
+
+    const args: string[] = executor.mock.calls[0][1]
+    expect(args.at(-1)).toBe(commentsUrl)
+    expect(dataArgument(args)).toEqual({ content: { raw: '## Review complete' } })
+  })
+
+  it('should reply to a thread with its parent id', async () => {
+    const executor = vi.fn()
+    const gateway = new BitbucketReviewActionCliGateway(executor)
+
+    await gateway.execute([{ type: 'THREAD_REPLY', threadId: '101', message: 'Done!' }], context)
+
+    expect(dataArgument(executor.mock.calls[0][1])).toEqual({ content: { raw: 'Done!' }, parent: { id: 101 } })
+  })
+
+  it('should post an inline comment on the new side of the diff', async () => {
+    const executor = vi.fn()
+    const gateway = new BitbucketReviewActionCliGateway(executor)
+
+    await gateway.execute(
+      [{ type: 'POST_INLINE_COMMENT', filePath: 'src/export.ts', line: 42, body: 'Null check' }],
+      context,
+    )
+
+    expect(dataArgument(executor.mock.calls[0][1])).toEqual({
+      content: { raw: 'Null check' },
+      inline: { path: 'src/export.ts', to: 42 },
+    })
+  })
+
+  it('should skip ADD_LABEL since Bitbucket pull requests have no labels', async () => {
+    const executor = vi.fn()
+    const gateway = new BitbucketReviewActionCliGateway(executor)
+
+    const result = await gateway.execute([{ type: 'ADD_LABEL', label: 'needs-review' }], context)
+
+    expect(executor).not.toHaveBeenCalled()
+    expect(result.skipped).toBe(1)
+  })
+
+  describe('on Bitbucket Data Center', () => {
+    const dataCenterContext = { ...context, projectPath: 'PROJ/my-repo' }
+    const dataCenterCommentsUrl = 'https://bitbucket.example.com/rest/api/1.0/projects/PROJ/repos/my-repo/pull-requests/7/comments'
+
+    afterEach(() => {
+      vi.unstubAllEnvs()
+    })
+
+    it('should resolve a thread by updating the comment at its current version', async () => {
+      vi.stubEnv('BITBUCKET_DATA_CENTER_URL', 'https://bitbucket.example.com')
+      const executor = vi.fn()
+      const readApi = vi.fn(() => JSON.stringify({ id: 101, version: 3, text: 'Missing null check' }))
+      const gateway = new BitbucketReviewActionCliGateway(executor, readApi)
+
+      const result = await gateway.execute([{ type: 'THREAD_RESOLVE', threadId: '101' }], dataCenterContext)
+
+      expect(readApi).toHaveBeenCalledWith(expect.stringContaining(`${dataCenterCommentsUrl}/101`))
+      const args: string[] = executor.mock.calls[0][1]
+      expect(args).toEqual(expect.arrayContaining(['PUT', `${dataCenterCommentsUrl}/101`]))
+      expect(dataArgument(args)).toEqual({ version: 3, threadResolved: true })
+      expect(result.succeeded).toBe(1)
+    })
+
+    it('should fail the resolve when the comment cannot be read', async () => {
+      vi.stubEnv('BITBUCKET_DATA_CENTER_URL', 'https://bitbucket.example.com')
+      const executor = vi.fn()
+      const readApi = vi.fn(() => {
+        throw new Error('curl: (22) The requested URL returned error: 404')
+      })
+      const gateway = new BitbucketReviewActionCliGateway(executor, readApi)
+
+      const result = await gateway.execute([{ type: 'THREAD_RESOLVE', threadId: '101' }], dataCenterContext)
+
+      expect(executor).not.toHaveBeenCalled()
+      expect(result.failed).toBe(1)
+    })
+
+    it('should send comments, replies and inline comments as text', async () => {
+      vi.stubEnv('BITBUCKET_DATA_CENTER_URL', 'https://bitbucket.example.com')
+      const executor = vi.fn()
+      const gateway = new BitbucketReviewActionCliGateway(executor)
+
+      await gateway.execute(
+        [
+          { type: 'POST_COMMENT', body: '## Review complete' },
+          { type: 'THREAD_REPLY', threadId: '101', message: 'Done!' },
+          { type: 'POST_INLINE_COMMENT', filePath: 'src/export.ts', line: 42, body: 'Null check' },
+        ],
+        dataCenterContext,
+      )
+
+      const calls: string[][] = executor.mock.calls.map(call => call[1])
+      expect(calls.every(args => args.at(-1) === dataCenterCommentsUrl)).toBe(true)
+      expect(calls.map(dataArgument)).toEqual([
+        { text: '## Review complete' },
+        { text: 'Done!', parent: { id: 101 } },
+        {
+          text: 'Null check',
+          anchor: { path: 'src/export.ts', line: 42, lineType: 'ADDED', fileType: 'TO', diffType: 'EFFECTIVE' },
+        },
+      ])
+    })
+  })
+})
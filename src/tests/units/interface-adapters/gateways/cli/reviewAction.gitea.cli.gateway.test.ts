@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest'
+import { GiteaReviewActionCliGateway } from '@/modules/review-execution/interface-adapters/gateways/cli/reviewAction.gitea.cli.gateway.js'
+
+const context = { projectPath: 'side-projects/notes', mrNumber: 12, localPath: '/tmp', baseUrl: null as string | null }
+const apiUrl = 'https://codeberg.org/api/v1/repos/side-projects/notes'
+
+function dataArgument(args: string[]): unknown {
+  return JSON.parse(args[args.indexOf('--data') + 1])
+}
+
+describe('GiteaReviewActionCliGateway', () => {
+  it('should post a general comment on the pull request issue', async () => {
+    const executor = vi.fn()
+    const gateway = new GiteaReviewActionCliGateway(executor)
+
+    await gateway.execute([{ type: 'POST_COMMENT', body: '## Review complete' }], context)
+
+    const args: string[] = executor.mock.calls[0][1]
+    expect(executor.mock.calls[0][0]).toBe('curl')
+    expect(args).toContain('--netrc')
+    expect(args.at(-1)).toBe(`${apiUrl}/issues/12/comments`)
+    expect(dataArgument(args)).toEqual({ body: '## Review complete' })
+  })
+
+  it('should post thread replies as pull request comments', async () => {
+    const executor = vi.fn()
+    const gateway = new GiteaReviewActionCliGateway(executor)
+
+    await gateway.execute([{ type: 'THREAD_REPLY', threadId: '101', message: 'Done!' }], context)
+
+    expect(executor.mock.calls[0][1].at(-1)).toBe(`${apiUrl}/issues/12/comments`)
+    expect(dataArgument(executor.mock.calls[0][1])).toEqual({ body: 'Done!' })
+  })
+
+  it('should post the resolution message since the API cannot resolve conversations', async () => {
+    const executor = vi.fn()
+    const gateway = new GiteaReviewActionCliGateway(executor)
+
+    await gateway.execute([{ type: 'THREAD_RESOLVE', threadId: '101', message: 'Fixed, thanks' }], context)
+
+    expect(dataArgument(executor.mock.calls[0][1])).toEqual({ body: 'Fixed, thanks' })
+  })
+
+  it('should skip a resolution without message', async () => {
+    const executor = vi.fn()
+    const gateway = new GiteaReviewActionCliGateway(executor)
+
+    const result = await gateway.execute([{ type: 'THREAD_RESOLVE', threadId: '101' }], context)
+
+    expect(executor).not.toHaveBeenCalled()
+    expect(result.skipped).toBe(1)
+  })
+
+  it('should add a label by name', async () => {
+    const executor = vi.fn()
+    const gateway = new GiteaReviewActionCliGateway(executor)
+
+    await gateway.execute([{ type: 'ADD_LABEL', label: 'needs-review' }], context)
+
+    expect(executor.mock.calls[0][1].at(-1)).toBe(`${apiUrl}/issues/12/labels`)
+    expect(dataArgument(executor.mock.calls[0][1])).toEqual({ labels: ['needs-review'] })
+  })
+
+  it('should post an inline comment as a single-comment review on the head commit', async () => {
+    const executor = vi.fn()
+    const gateway = new GiteaReviewActionCliGateway(executor)
+
+    await gateway.execute(
+      [{ type: 'POST_INLINE_COMMENT', filePath: 'src/tags.ts', line: 42, body: 'Null check' }],
+      { ...context, diffMetadata: { baseSha: 'base111', headSha: 'head222', startSha: 'base111' } },
+    )
+
+    expect(executor.mock.calls[0][1].at(-1)).toBe(`${apiUrl}/pulls/12/reviews`)
+    expect(dataArgument(executor.mock.calls[0][1])).toEqual({
+      event: 'COMMENT',
+      body: '',
+      commit_id: 'head222',
+      comments: [{ path: 'src/tags.ts', body: 'Null check', new_position: 42 }],
+    })
+  })
+})
@@ -92,12 +92,67 @@ describe('GitHubReviewActionCliGateway', () => {
         'commit_id=head222',
         'path=src/app.ts',
         'line=42',
+        'side=RIGHT',
       ]),
       '/tmp'
     )
     expect(result.succeeded).toBe(1)
   })
 
+  it('should fall back to a linked conversation comment when the line is outside the diff', async () => {
+    const executor = vi.fn((_command: string, args: string[]) => {
+      if (args.includes('repos/owner/repo/pulls/42/comments')) {
+        throw new Error('HTTP 422: Line could not be resolved')
+      }
+    })
+    const gateway = new GitHubReviewActionCliGateway(executor)
+    const actions: ReviewAction[] = [
+      { type: 'POST_INLINE_COMMENT', filePath: 'src/app.ts', line: 42, body: 'Extract this logic.' }
+    ]
+    const context = {
+      projectPath: 'owner/repo',
+      mrNumber: 42,
+      localPath: '/tmp',
+      diffMetadata: { baseSha: 'base111', headSha: 'head222', startSha: 'start333' },
+      baseUrl: 'https://github.com',
+    }
+
+    const result = await gateway.execute(actions, context)
+
+    expect(executor).toHaveBeenLastCalledWith(
+      'gh',
+      expect.arrayContaining([
+        'repos/owner/repo/issues/42/comments',
+        'body=**[`src/app.ts:42`](https://github.com/owner/repo/blob/head222/src/app.ts#L42)**\n\nExtract this logic.',
+      ]),
+      '/tmp'
+    )
+    expect(result).toEqual({ total: 1, succeeded: 1, failed: 0, skipped: 0 })
+  })
+
+  it('should count POST_INLINE_COMMENT as failed when the fallback comment fails too', async () => {
+    const executor = vi.fn(() => {
+      throw new Error('HTTP 502')
+    })
+    const gateway = new GitHubReviewActionCliGateway(executor)
+    const actions: ReviewAction[] = [
+      { type: 'POST_INLINE_COMMENT', filePath: 'src/app.ts', line: 42, body: 'Test' }
+    ]
+    const context = {
+      projectPath: 'owner/repo',
+      mrNumber: 42,
+      localPath: '/tmp',
+      diffMetadata: { baseSha: 'base111', headSha: 'head222', startSha: 'start333' },
+      baseUrl: null as string | null,
+    }
+
+    const result = await gateway.execute(actions, context)
+
+    expect(executor).toHaveBeenCalledTimes(2)
+    expect(result.failed).toBe(1)
+    expect(result.failedActions).toEqual(actions)
+  })
+
   it('should skip POST_INLINE_COMMENT when diffMetadata is missing', async () => {
     const executor = vi.fn()
     const gateway = new GitHubReviewActionCliGateway(executor)
@@ -96,6 +96,38 @@ describe('GitLabReviewActionCliGateway', () => {
     expect(result.succeeded).toBe(1)
   })
 
+  it('should fall back to a general note with a plain file:line reference when no base URL is known', async () => {
+    const executor = vi.fn((_command: string, args: string[]) => {
+      if (args.includes('projects/group%2Fproject/merge_requests/123/discussions')) {
+        throw new Error('400 Bad request - line_code must be a valid line code')
+      }
+    })
+    const gateway = new GitLabReviewActionCliGateway(executor)
+    const actions: ReviewAction[] = [
+      { type: 'POST_INLINE_COMMENT', filePath: 'src/app.ts', line: 42, body: 'Extract this logic.' }
+    ]
+    const context = {
+      projectPath: 'group/project',
+      mrNumber: 123,
+      localPath: '/tmp',
+      diffMetadata: { baseSha: 'base111', headSha: 'head222', startSha: 'start333' },
+      baseUrl: null as string | null,
+    }
+
+    const result = await gateway.execute(actions, context)
+
+    expect(executor).toHaveBeenLastCalledWith(
+      'glab',
+      [
+        'api', '--method', 'POST',
+        'projects/group%2Fproject/merge_requests/123/notes',
+        '--field', 'body=**`src/app.ts:42`**\n\nExtract this logic.',
+      ],
+      '/tmp'
+    )
+    expect(result.succeeded).toBe(1)
+  })
+
   it('should skip POST_INLINE_COMMENT when diffMetadata is missing', async () => {
     const executor = vi.fn()
     const gateway = new GitLabReviewActionCliGateway(executor)
@@ -0,0 +1,44 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { BitbucketDiffMetadataFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/diffMetadataFetch.bitbucket.gateway.js'
+import { BitbucketApiResponseFactory } from '../../../factories/bitbucketApiResponse.factory.js'
+
+describe('BitbucketDiffMetadataFetchGateway', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should map destination commit to base and source commit to head', () => {
+    let capturedCommand = ''
+    const stubExecutor = (command: string) => {
+      capturedCommand = command
+      return BitbucketApiResponseFactory.createPullRequestResponse({ sourceHash: 'head123', destinationHash: 'base456' })
+    }
+
+    const gateway = new BitbucketDiffMetadataFetchGateway(stubExecutor)
+
+    expect(gateway.fetchDiffMetadata('my-workspace/my-repo', 7)).toEqual({
+      baseSha: 'base456',
+      headSha: 'head123',
+      startSha: 'base456',
+    })
+    expect(capturedCommand).toContain('repositories/my-workspace/my-repo/pullrequests/7')
+  })
+
+  it('should map the target ref to base and the source ref to head on Data Center', () => {
+    vi.stubEnv('BITBUCKET_DATA_CENTER_URL', 'https://bitbucket.example.com')
+    let capturedCommand = ''
+    const stubExecutor = (command: string) => {
+      capturedCommand = command
+      return BitbucketApiResponseFactory.createDataCenterPullRequestResponse({ fromCommit: 'head123', toCommit: 'base456' })
+    }
+
+    const gateway = new BitbucketDiffMetadataFetchGateway(stubExecutor)
+
+    expect(gateway.fetchDiffMetadata('PROJ/my-repo', 7)).toEqual({
+      baseSha: 'base456',
+      headSha: 'head123',
+      startSha: 'base456',
+    })
+    expect(capturedCommand).toContain('rest/api/1.0/projects/PROJ/repos/my-repo/pull-requests/7')
+  })
+})
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest'
+import { GiteaDiffMetadataFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/diffMetadataFetch.gitea.gateway.js'
+import { GiteaApiResponseFactory } from '../../../factories/giteaApiResponse.factory.js'
+
+describe('GiteaDiffMetadataFetchGateway', () => {
+  it('should use the merge base as start sha', () => {
+    const stubExecutor = () =>
+      GiteaApiResponseFactory.createPullRequestResponse({ baseSha: 'base111', headSha: 'head222', mergeBase: 'merge000' })
+
+    const gateway = new GiteaDiffMetadataFetchGateway(stubExecutor)
+
+    expect(gateway.fetchDiffMetadata('side-projects/notes', 12)).toEqual({
+      baseSha: 'base111',
+      headSha: 'head222',
+      startSha: 'merge000',
+    })
+  })
+
+  it('should fall back to the base sha when the merge base is missing', () => {
+    const stubExecutor = () => GiteaApiResponseFactory.createPullRequestResponse({ baseSha: 'base111', headSha: 'head222' })
+
+    const gateway = new GiteaDiffMetadataFetchGateway(stubExecutor)
+
+    expect(gateway.fetchDiffMetadata('side-projects/notes', 12).startSha).toBe('base111')
+  })
+})
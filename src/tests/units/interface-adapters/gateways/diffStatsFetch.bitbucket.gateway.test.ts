@@ -0,0 +1,59 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { BitbucketDiffStatsFetchGateway } from '@/modules/statistics-insights/interface-adapters/gateways/diffStatsFetch.bitbucket.gateway.js';
+import { BitbucketApiResponseFactory } from '../../../factories/bitbucketApiResponse.factory.js';
+
+describe('BitbucketDiffStatsFetchGateway', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('fetchDiffStats', () => {
+    it('should sum diffstat lines and count commits', () => {
+      const stubExecutor = (command: string) =>
+        command.includes('/diffstat')
+          ? BitbucketApiResponseFactory.createDiffStatPage([{ added: 100, removed: 20 }, { added: 50, removed: 10 }])
+          : BitbucketApiResponseFactory.createCommitsPage(3);
+
+      const gateway = new BitbucketDiffStatsFetchGateway(stubExecutor);
+
+      expect(gateway.fetchDiffStats('my-workspace/my-repo', 7)).toEqual({
+        commitsCount: 3,
+        additions: 150,
+        deletions: 30,
+      });
+    });
+
+    it('should count the lines of the diff and the commits on Data Center', () => {
+      vi.stubEnv('BITBUCKET_DATA_CENTER_URL', 'https://bitbucket.example.com');
+      const commands: string[] = [];
+      const stubExecutor = (command: string) => {
+        commands.push(command);
+        if (command.includes('/diff?')) {
+          return BitbucketApiResponseFactory.createDataCenterDiff([{ added: 12, removed: 4 }, { added: 3, removed: 0 }]);
+        }
+        return command.includes('start=0')
+          ? BitbucketApiResponseFactory.createDataCenterCommitsPage(2, 2)
+          : BitbucketApiResponseFactory.createDataCenterCommitsPage(1);
+      };
+
+      const gateway = new BitbucketDiffStatsFetchGateway(stubExecutor);
+
+      expect(gateway.fetchDiffStats('PROJ/my-repo', 7)).toEqual({
+        commitsCount: 3,
+        additions: 15,
+        deletions: 4,
+      });
+      expect(commands[0]).toContain('projects/PROJ/repos/my-repo/pull-requests/7/diff?contextLines=0');
+    });
+
+    it('should return null when executor throws an error', () => {
+      const stubExecutor = () => {
+        throw new Error('curl: (22) The requested URL returned error: 404');
+      };
+
+      const gateway = new BitbucketDiffStatsFetchGateway(stubExecutor);
+
+      expect(gateway.fetchDiffStats('my-workspace/my-repo', 7)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { GiteaDiffStatsFetchGateway } from '@/modules/statistics-insights/interface-adapters/gateways/diffStatsFetch.gitea.gateway.js';
+import { GiteaApiResponseFactory } from '../../../factories/giteaApiResponse.factory.js';
+
+describe('GiteaDiffStatsFetchGateway', () => {
+  describe('fetchDiffStats', () => {
+    it('should read line counts from the pull request and count commits', () => {
+      const stubExecutor = (command: string) =>
+        command.includes('/commits')
+          ? GiteaApiResponseFactory.createCommits(3)
+          : GiteaApiResponseFactory.createPullRequestResponse({
+            baseSha: 'base111',
+            headSha: 'head222',
+            additions: 150,
+            deletions: 30,
+          });
+
+      const gateway = new GiteaDiffStatsFetchGateway(stubExecutor);
+
+      expect(gateway.fetchDiffStats('side-projects/notes', 12)).toEqual({
+        commitsCount: 3,
+        additions: 150,
+        deletions: 30,
+      });
+    });
+
+    it('should return null when executor throws an error', () => {
+      const stubExecutor = () => {
+        throw new Error('curl: (22) The requested URL returned error: 404');
+      };
+
+      const gateway = new GiteaDiffStatsFetchGateway(stubExecutor);
+
+      expect(gateway.fetchDiffStats('side-projects/notes', 12)).toBeNull();
+    });
+  });
+});
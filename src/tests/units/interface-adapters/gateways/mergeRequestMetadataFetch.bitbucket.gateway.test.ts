@@ -0,0 +1,57 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { BitbucketMergeRequestMetadataFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/mergeRequestMetadataFetch.bitbucket.gateway.js'
+import { BitbucketApiResponseFactory } from '../../../factories/bitbucketApiResponse.factory.js'
+
+describe('BitbucketMergeRequestMetadataFetchGateway', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('should map the pull request without labels', () => {
+    let capturedCommand = ''
+    const stubExecutor = (command: string) => {
+      capturedCommand = command
+      return JSON.stringify({
+        title: 'Add export',
+        description: 'Closes #2',
+        author: { display_name: 'Jane Doe' },
+        source: { branch: { name: 'feat/export' } },
+        destination: { branch: { name: 'main' } },
+        links: { html: { href: 'https://bitbucket.org/my-workspace/my-repo/pull-requests/7' } },
+      })
+    }
+
+    const result = new BitbucketMergeRequestMetadataFetchGateway(stubExecutor).fetchMergeRequestMetadata('my-workspace/my-repo', 7)
+
+    expect(capturedCommand).toContain('repositories/my-workspace/my-repo/pullrequests/7')
+    expect(result).toEqual({
+      title: 'Add export',
+      description: 'Closes #2',
+      author: 'Jane Doe',
+      sourceBranch: 'feat/export',
+      targetBranch: 'main',
+      labels: [],
+      linkedIssues: ['#2'],
+      webUrl: 'https://bitbucket.org/my-workspace/my-repo/pull-requests/7',
+    })
+  })
+
+  it('should map a Data Center pull request, with the user name as author', () => {
+    vi.stubEnv('BITBUCKET_DATA_CENTER_URL', 'https://bitbucket.example.com')
+    const stubExecutor = () =>
+      BitbucketApiResponseFactory.createDataCenterPullRequestResponse({ fromCommit: 'head123', toCommit: 'base456' })
+
+    const result = new BitbucketMergeRequestMetadataFetchGateway(stubExecutor).fetchMergeRequestMetadata('PROJ/my-repo', 7)
+
+    expect(result).toEqual({
+      title: 'Add export',
+      description: 'Closes #2',
+      author: 'jdoe',
+      sourceBranch: 'feat/export',
+      targetBranch: 'main',
+      labels: [],
+      linkedIssues: ['#2'],
+      webUrl: 'https://bitbucket.example.com/projects/PROJ/repos/my-repo/pull-requests/7',
+    })
+  })
+})
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest'
+import { GiteaMergeRequestMetadataFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/mergeRequestMetadataFetch.gitea.gateway.js'
+
+describe('GiteaMergeRequestMetadataFetchGateway', () => {
+  it('should map the pull request and tolerate missing labels', () => {
+    let capturedCommand = ''
+    const stubExecutor = (command: string) => {
+      capturedCommand = command
+      return JSON.stringify({
+        title: 'Sync notes offline',
+        body: 'Resolves #8',
+        labels: null,
+        user: { login: 'jdoe' },
+        head: { ref: 'feat/offline' },
+        base: { ref: 'main' },
+      })
+    }
+
+    const result = new GiteaMergeRequestMetadataFetchGateway(stubExecutor).fetchMergeRequestMetadata('side-projects/notes', 12)
+
+    expect(capturedCommand).toContain('repos/side-projects/notes/pulls/12')
+    expect(result).toMatchObject({ title: 'Sync notes offline', labels: [], linkedIssues: ['#8'], webUrl: null })
+  })
+})
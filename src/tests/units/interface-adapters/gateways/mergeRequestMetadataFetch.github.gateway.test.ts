@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest'
+import { GitHubMergeRequestMetadataFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/mergeRequestMetadataFetch.github.gateway.js'
+
+describe('GitHubMergeRequestMetadataFetchGateway', () => {
+  it('should map the pull request, its label names and closed issues', () => {
+    let capturedCommand = ''
+    const stubExecutor = (command: string) => {
+      capturedCommand = command
+      return JSON.stringify({
+        title: 'Refund orders partially',
+        body: 'Fixes owner/repo#3',
+        labels: [{ name: 'billing' }],
+        user: { login: 'jdoe' },
+        head: { ref: 'feat/refund' },
+        base: { ref: 'main' },
+        html_url: 'https://github.com/owner/repo/pull/42',
+      })
+    }
+
+    const result = new GitHubMergeRequestMetadataFetchGateway(stubExecutor).fetchMergeRequestMetadata('owner/repo', 42)
+
+    expect(capturedCommand).toBe('gh api repos/owner/repo/pulls/42')
+    expect(result).toEqual({
+      title: 'Refund orders partially',
+      description: 'Fixes owner/repo#3',
+      author: 'jdoe',
+      sourceBranch: 'feat/refund',
+      targetBranch: 'main',
+      labels: ['billing'],
+      linkedIssues: ['owner/repo#3'],
+      webUrl: 'https://github.com/owner/repo/pull/42',
+    })
+  })
+})
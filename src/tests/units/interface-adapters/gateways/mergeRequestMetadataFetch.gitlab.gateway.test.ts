@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import { GitLabMergeRequestMetadataFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/mergeRequestMetadataFetch.gitlab.gateway.js'
+
+describe('GitLabMergeRequestMetadataFetchGateway', () => {
+  it('should map the merge request and its closed issues', () => {
+    const stubExecutor = () => JSON.stringify({
+      title: 'Refund orders partially',
+      description: 'Closes #12',
+      labels: ['billing', 'backend'],
+      author: { username: 'jdoe' },
+      source_branch: 'feat/refund',
+      target_branch: 'main',
+      web_url: 'https://gitlab.example.com/group/project/-/merge_requests/42',
+    })
+
+    const gateway = new GitLabMergeRequestMetadataFetchGateway(stubExecutor)
+
+    expect(gateway.fetchMergeRequestMetadata('group/project', 42)).toEqual({
+      title: 'Refund orders partially',
+      description: 'Closes #12',
+      author: 'jdoe',
+      sourceBranch: 'feat/refund',
+      targetBranch: 'main',
+      labels: ['billing', 'backend'],
+      linkedIssues: ['#12'],
+      webUrl: 'https://gitlab.example.com/group/project/-/merge_requests/42',
+    })
+  })
+
+  it('should call the merge request endpoint with the encoded project path', () => {
+    let capturedCommand = ''
+    const stubExecutor = (command: string) => {
+      capturedCommand = command
+      return JSON.stringify({ title: 't', description: null, labels: [], source_branch: 'a', target_branch: 'b' })
+    }
+
+    const result = new GitLabMergeRequestMetadataFetchGateway(stubExecutor).fetchMergeRequestMetadata('group/project', 42)
+
+    expect(capturedCommand).toBe('glab api projects/group%2Fproject/merge_requests/42')
+    expect(result.description).toBe('')
+  })
+})
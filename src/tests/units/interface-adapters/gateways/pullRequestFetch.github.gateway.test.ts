@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { GitHubPullRequestFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/pullRequestFetch.github.gateway.js'
+
+const pullRequest = {
+  number: 42,
+  title: 'Add cache',
+  body: null,
+  state: 'open',
+  draft: false,
+  html_url: 'https://github.com/owner/repo/pull/42',
+  user: { login: 'alice' },
+  head: { ref: 'feature/cache', repo: { full_name: 'owner/repo', clone_url: 'https://github.com/owner/repo.git' } },
+  base: { ref: 'main', repo: { full_name: 'owner/repo' } },
+  requested_reviewers: [],
+}
+
+describe('GitHubPullRequestFetchGateway', () => {
+  it('reads the pull request from the REST API', () => {
+    let capturedCommand = ''
+    const gateway = new GitHubPullRequestFetchGateway((command) => {
+      capturedCommand = command
+      return JSON.stringify(pullRequest)
+    })
+
+    const result = gateway.fetchPullRequest('owner/repo', 42)
+
+    expect(capturedCommand).toBe('gh api repos/owner/repo/pulls/42')
+    expect(result.base.ref).toBe('main')
+    expect(result.user?.login).toBe('alice')
+  })
+
+  it('maps a null body to an absent description', () => {
+    const gateway = new GitHubPullRequestFetchGateway(() => JSON.stringify(pullRequest))
+
+    expect(gateway.fetchPullRequest('owner/repo', 42).body).toBeUndefined()
+  })
+
+  it('throws on a payload that is not a pull request', () => {
+    const gateway = new GitHubPullRequestFetchGateway(() => JSON.stringify({ message: 'Not Found' }))
+
+    expect(() => gateway.fetchPullRequest('owner/repo', 42)).toThrow(/gitHubPullRequest/)
+  })
+})
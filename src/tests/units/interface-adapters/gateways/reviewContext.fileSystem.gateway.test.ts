@@ -68,6 +68,35 @@ describe('ReviewContextFileSystemGateway', () => {
       expect(content.threads[0].id).toBe('PRRT_kwDONxxx123')
       expect(content.threads[1].id).toBe('PRRT_kwDONyyy456')
     })
+
+    it('should record the selected agents and why the others were skipped', () => {
+      const result = gateway.create({
+        localPath: testDir,
+        mergeRequestId: 'github-owner/repo-42',
+        platform: 'github',
+        projectPath: 'owner/repo',
+        mergeRequestNumber: 42,
+        agents: [{ name: 'report', displayName: 'Rapport' }],
+        skippedAgents: [{ name: 'security', reason: 'Only documentation changed' }],
+      })
+
+      const content = JSON.parse(readFileSync(result.filePath, 'utf-8'))
+      expect(content.progress.agents).toEqual([{ name: 'report', displayName: 'Rapport' }])
+      expect(content.skippedAgents).toEqual([{ name: 'security', reason: 'Only documentation changed' }])
+    })
+
+    it('should record the publish mode of the job so that recovery replays it', () => {
+      gateway.create({
+        localPath: testDir,
+        mergeRequestId: 'github-owner/repo-42',
+        platform: 'github',
+        projectPath: 'owner/repo',
+        mergeRequestNumber: 42,
+        publishMode: 'shadow',
+      })
+
+      expect(gateway.read(testDir, 'github-owner/repo-42')?.publishMode).toBe('shadow')
+    })
   })
 
   describe('delete', () => {
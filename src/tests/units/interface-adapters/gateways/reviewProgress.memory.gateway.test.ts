@@ -1,4 +1,4 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, afterEach, vi } from "vitest";
 import { ReviewProgressMemoryGateway } from "@/modules/review-execution/interface-adapters/gateways/reviewProgress.memory.gateway.js";
 
 describe("ReviewProgressMemoryGateway", () => {
@@ -17,6 +17,30 @@ describe("ReviewProgressMemoryGateway", () => {
 				progress.agents.every((agent) => agent.status === "pending"),
 			).toBe(true);
 		});
+
+		it("should keep the display name and dispatch settings of agent definitions", () => {
+			const gateway = new ReviewProgressMemoryGateway();
+
+			const progress = gateway.createProgress("gitlab:project:123", [
+				{ name: "security", displayName: "Security", model: "opus", timeoutMs: 600000 },
+				{ name: "solid", displayName: "SOLID" },
+			]);
+
+			expect(progress.agents).toEqual([
+				{ name: "security", displayName: "Security", status: "pending", dispatch: { model: "opus", timeoutMs: 600000 } },
+				{ name: "solid", displayName: "SOLID", status: "pending" },
+			]);
+		});
+
+		it("should keep the skipped agents apart from the agents to run", () => {
+			const gateway = new ReviewProgressMemoryGateway();
+			const skippedAgents = [{ name: "react-best-practices", reason: "No changed file matches paths **/*.tsx" }];
+
+			const progress = gateway.createProgress("gitlab:project:123", ["solid"], skippedAgents);
+
+			expect(progress.agents.map((agent) => agent.name)).toEqual(["solid"]);
+			expect(progress.skippedAgents).toEqual(skippedAgents);
+		});
 	});
 
 	describe("getProgress", () => {
@@ -90,6 +114,19 @@ describe("ReviewProgressMemoryGateway", () => {
 			expect(agent?.error).toBe("No test files found");
 			expect(agent?.completedAt).toBeDefined();
 		});
+
+		it("should record the duration and the tokens of the agent", () => {
+			const gateway = new ReviewProgressMemoryGateway();
+			const jobId = "gitlab:project:123";
+			gateway.createProgress(jobId, ["security"]);
+			gateway.startAgent(jobId, "security");
+
+			const progress = gateway.completeAgent(jobId, "security", "success", undefined, 12500);
+
+			const agent = progress?.agents.find((a) => a.name === "security");
+			expect(agent?.durationMs).toBeGreaterThanOrEqual(0);
+			expect(agent?.tokens).toBe(12500);
+		});
 	});
 
 	describe("onProgressChange callback", () => {
@@ -156,6 +193,65 @@ describe("ReviewProgressMemoryGateway", () => {
 		});
 	});
 
+	describe("agent timeout", () => {
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("should fail a running agent with a timeout error once its timeoutMs has passed", () => {
+			vi.useFakeTimers();
+			const gateway = new ReviewProgressMemoryGateway();
+			const jobId = "gitlab:project:123";
+			const changes: string[] = [];
+			gateway.setOnProgressChange((_jobId, progress) => {
+				changes.push(progress.agents[0].status);
+			});
+			gateway.createProgress(jobId, [{ name: "security", displayName: "Security", timeoutMs: 60_000 }]);
+			gateway.startAgent(jobId, "security");
+
+			vi.advanceTimersByTime(59_999);
+			expect(gateway.getProgress(jobId)?.agents[0].status).toBe("running");
+
+			vi.advanceTimersByTime(1);
+			expect(gateway.getProgress(jobId)?.agents[0]).toMatchObject({
+				status: "failed",
+				error: "timeout",
+				durationMs: 60_000,
+			});
+			expect(changes).toEqual(["running", "failed"]);
+		});
+
+		it("should keep the timeout when the agent completes late", () => {
+			vi.useFakeTimers();
+			const gateway = new ReviewProgressMemoryGateway();
+			const jobId = "gitlab:project:123";
+			gateway.createProgress(jobId, [{ name: "security", displayName: "Security", timeoutMs: 1_000 }]);
+			gateway.startAgent(jobId, "security");
+			vi.advanceTimersByTime(1_000);
+
+			gateway.completeAgent(jobId, "security", "success", undefined, 4_200);
+
+			expect(gateway.getProgress(jobId)?.agents[0]).toMatchObject({
+				status: "failed",
+				error: "timeout",
+				tokens: 4_200,
+			});
+		});
+
+		it("should not fail an agent that completed in time", () => {
+			vi.useFakeTimers();
+			const gateway = new ReviewProgressMemoryGateway();
+			const jobId = "gitlab:project:123";
+			gateway.createProgress(jobId, [{ name: "security", displayName: "Security", timeoutMs: 1_000 }]);
+			gateway.startAgent(jobId, "security");
+			gateway.completeAgent(jobId, "security", "success");
+
+			vi.advanceTimersByTime(5_000);
+
+			expect(gateway.getProgress(jobId)?.agents[0].status).toBe("completed");
+		});
+	});
+
 	describe("overallProgress calculation", () => {
 		it("should increase overallProgress when starting an agent", () => {
 			const gateway = new ReviewProgressMemoryGateway();
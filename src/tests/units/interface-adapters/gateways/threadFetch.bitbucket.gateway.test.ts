@@ -0,0 +1,108 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { BitbucketThreadFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/threadFetch.bitbucket.gateway.js'
+import { BitbucketApiResponseFactory } from '../../../factories/bitbucketApiResponse.factory.js'
+
+describe('BitbucketThreadFetchGateway', () => {
+  describe('fetchThreads', () => {
+    it('should map top-level comments to threads with inline metadata', () => {
+      const stubExecutor = () => BitbucketApiResponseFactory.createCommentsPage([
+        { id: 101, raw: 'Missing null check', inline: { path: 'src/export.ts', to: 42 } },
+        { id: 102, raw: 'Overall looks fine' },
+      ])
+
+      const gateway = new BitbucketThreadFetchGateway(stubExecutor)
+      const threads = gateway.fetchThreads('my-workspace/my-repo', 7)
+
+      expect(threads).toEqual([
+        { id: '101', file: 'src/export.ts', line: 42, status: 'open', body: 'Missing null check' },
+        { id: '102', file: null, line: null, status: 'open', body: 'Overall looks fine' },
+      ])
+    })
+
+    it('should skip replies and deleted comments', () => {
+      const stubExecutor = () => BitbucketApiResponseFactory.createCommentsPage([
+        { id: 101, raw: 'Root' },
+        { id: 102, raw: 'Reply', parentId: 101 },
+        { id: 103, raw: 'Gone', deleted: true },
+      ])
+
+      const gateway = new BitbucketThreadFetchGateway(stubExecutor)
+
+      expect(gateway.fetchThreads('my-workspace/my-repo', 7).map(thread => thread.id)).toEqual(['101'])
+    })
+
+    it('should mark comments carrying a resolution as resolved', () => {
+      const stubExecutor = () => BitbucketApiResponseFactory.createCommentsPage([
+        { id: 101, raw: 'Fixed', resolved: true },
+      ])
+
+      const gateway = new BitbucketThreadFetchGateway(stubExecutor)
+
+      expect(gateway.fetchThreads('my-workspace/my-repo', 7)[0].status).toBe('resolved')
+    })
+
+    it('should follow the next link across pages', () => {
+      const nextUrl = 'https://api.bitbucket.org/2.0/repositories/my-workspace/my-repo/pullrequests/7/comments?page=2'
+      const commands: string[] = []
+      const stubExecutor = (command: string) => {
+        commands.push(command)
+        return commands.length === 1
+          ? BitbucketApiResponseFactory.createCommentsPage([{ id: 1, raw: 'first' }], nextUrl)
+          : BitbucketApiResponseFactory.createCommentsPage([{ id: 2, raw: 'second' }])
+      }
+
+      const gateway = new BitbucketThreadFetchGateway(stubExecutor)
+      const threads = gateway.fetchThreads('my-workspace/my-repo', 7)
+
+      expect(threads.map(thread => thread.id)).toEqual(['1', '2'])
+      expect(commands[0]).toContain('repositories/my-workspace/my-repo/pullrequests/7/comments')
+      expect(commands[0]).toContain('--netrc')
+      expect(commands[1]).toContain(`'${nextUrl}'`)
+    })
+  })
+
+  describe('fetchThreads on Bitbucket Data Center', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs()
+    })
+
+    it('should read the activity feed and keep the comments that open a thread', () => {
+      vi.stubEnv('BITBUCKET_DATA_CENTER_URL', 'https://bitbucket.example.com')
+      const commands: string[] = []
+      const stubExecutor = (command: string) => {
+        commands.push(command)
+        return BitbucketApiResponseFactory.createDataCenterActivitiesPage([
+          { id: 101, text: 'Missing null check', anchor: { path: 'src/export.ts', line: 42 }, replies: [{ id: 103, text: 'Done' }] },
+          { id: 102, text: 'Fixed', resolved: true },
+          { id: 103, text: 'Done' },
+          { id: 104, text: 'Gone' },
+          { id: 104, text: 'Gone', action: 'DELETED' },
+        ])
+      }
+
+      const threads = new BitbucketThreadFetchGateway(stubExecutor).fetchThreads('PROJ/my-repo', 7)
+
+      expect(threads).toEqual([
+        { id: '101', file: 'src/export.ts', line: 42, status: 'open', body: 'Missing null check' },
+        { id: '102', file: null, line: null, status: 'resolved', body: 'Fixed' },
+      ])
+      expect(commands[0]).toContain('https://bitbucket.example.com/rest/api/1.0/projects/PROJ/repos/my-repo/pull-requests/7/activities?limit=100&start=0')
+    })
+
+    it('should follow nextPageStart until the last page', () => {
+      vi.stubEnv('BITBUCKET_DATA_CENTER_URL', 'https://bitbucket.example.com')
+      const commands: string[] = []
+      const stubExecutor = (command: string) => {
+        commands.push(command)
+        return commands.length === 1
+          ? BitbucketApiResponseFactory.createDataCenterActivitiesPage([{ id: 1, text: 'first' }], 100)
+          : BitbucketApiResponseFactory.createDataCenterActivitiesPage([{ id: 2, text: 'second' }])
+      }
+
+      const threads = new BitbucketThreadFetchGateway(stubExecutor).fetchThreads('PROJ/my-repo', 7)
+
+      expect(threads.map(thread => thread.id)).toEqual(['1', '2'])
+      expect(commands[1]).toContain('start=100')
+    })
+  })
+})
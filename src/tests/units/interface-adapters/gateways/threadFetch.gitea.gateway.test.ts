@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { GiteaThreadFetchGateway } from '@/modules/platform-integration/interface-adapters/gateways/threadFetch.gitea.gateway.js'
+import { GiteaApiResponseFactory } from '../../../factories/giteaApiResponse.factory.js'
+
+describe('GiteaThreadFetchGateway', () => {
+  describe('fetchThreads', () => {
+    it('should map review comments to threads with file and line', () => {
+      const stubExecutor = (command: string) =>
+        command.includes('/reviews/31/comments')
+          ? GiteaApiResponseFactory.createReviewComments([
+            { id: 101, body: 'Missing null check', path: 'src/tags.ts', position: 42 },
+            { id: 102, body: 'Typo in name', path: 'src/notes.ts', originalPosition: 7, resolved: true },
+          ])
+          : GiteaApiResponseFactory.createReviews([{ id: 31, commentsCount: 2 }])
+
+      const gateway = new GiteaThreadFetchGateway(stubExecutor)
+      const threads = gateway.fetchThreads('side-projects/notes', 12)
+
+      expect(threads).toEqual([
+        { id: '101', file: 'src/tags.ts', line: 42, status: 'open', body: 'Missing null check' },
+        { id: '102', file: 'src/notes.ts', line: 7, status: 'resolved', body: 'Typo in name' },
+      ])
+    })
+
+    it('should fold later comments on the same line into the oldest conversation', () => {
+      const stubExecutor = (command: string) => {
+        if (command.includes('/reviews/31/comments')) {
+          return GiteaApiResponseFactory.createReviewComments([
+            { id: 101, body: 'Missing null check', path: 'src/tags.ts', position: 42 },
+          ])
+        }
+        if (command.includes('/reviews/32/comments')) {
+          return GiteaApiResponseFactory.createReviewComments([
+            { id: 140, body: 'Fixed in latest push', path: 'src/tags.ts', position: 42 },
+          ])
+        }
+        return GiteaApiResponseFactory.createReviews([
+          { id: 31, commentsCount: 1 },
+          { id: 32, commentsCount: 1 },
+        ])
+      }
+
+      const gateway = new GiteaThreadFetchGateway(stubExecutor)
+
+      expect(gateway.fetchThreads('side-projects/notes', 12).map(thread => thread.id)).toEqual(['101'])
+    })
+
+    it('should not fetch comments for reviews without any', () => {
+      const commands: string[] = []
+      const stubExecutor = (command: string) => {
+        commands.push(command)
+        return GiteaApiResponseFactory.createReviews([{ id: 31, commentsCount: 0 }])
+      }
+
+      const gateway = new GiteaThreadFetchGateway(stubExecutor)
+
+      expect(gateway.fetchThreads('side-projects/notes', 12)).toEqual([])
+      expect(commands).toHaveLength(1)
+      expect(commands[0]).toContain('repos/side-projects/notes/pulls/12/reviews?limit=50&page=1')
+      expect(commands[0]).toContain('--netrc')
+    })
+
+    it('should request the next page while pages are full', () => {
+      const commands: string[] = []
+      const fullPage = Array.from({ length: 50 }, (_, index) => ({ id: index + 1, commentsCount: 0 }))
+      const stubExecutor = (command: string) => {
+        commands.push(command)
+        return commands.length === 1
+          ? GiteaApiResponseFactory.createReviews(fullPage)
+          : GiteaApiResponseFactory.createReviews([])
+      }
+
+      const gateway = new GiteaThreadFetchGateway(stubExecutor)
+      gateway.fetchThreads('side-projects/notes', 12)
+
+      expect(commands).toHaveLength(2)
+      expect(commands[1]).toContain('page=2')
+    })
+  })
+})
@@ -34,6 +34,12 @@ describe('ReviewContextProgressPresenter', () => {
     expect(result.overallProgress).toBeLessThan(100)
   })
 
+  it('should show no agent when the selection skipped all of them', () => {
+    const result = presenter.toReviewProgress({ phase: 'agents-running', currentStep: null, agents: [] })
+
+    expect(result.agents).toEqual([])
+  })
+
   it('should return 100% progress when phase is completed', () => {
     const contextProgress: ReviewContextProgress = {
       phase: 'completed',
@@ -102,4 +108,22 @@ describe('ReviewContextProgressPresenter', () => {
     expect(result.agents[1].name).toBe('perf-audit')
     expect(result.agents[1].status).toBe('running')
   })
+
+  it('should show the model, duration and tokens of the agents that ran', () => {
+    const contextProgress: ReviewContextProgress = {
+      phase: 'agents-running',
+      currentStep: 'ddd',
+      stepsCompleted: ['security'],
+      agents: [
+        { name: 'security', displayName: 'Security' },
+        { name: 'ddd', displayName: 'DDD' },
+      ],
+      agentRuns: [{ name: 'security', model: 'opus', durationMs: 42000, tokens: 15000 }, { name: 'ddd' }],
+    }
+
+    const result = presenter.toReviewProgress(contextProgress)
+
+    expect(result.agents[0]).toMatchObject({ dispatch: { model: 'opus' }, durationMs: 42000, tokens: 15000 })
+    expect(result.agents[1]).toEqual({ name: 'ddd', displayName: 'DDD', status: 'running' })
+  })
 })
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import { executeReview, type ReviewDependencies } from '@/main/commands/review.command.js';
+import type { LocalReviewResult } from '@/frameworks/claude/localReviewInvoker.js';
+
+const completed: LocalReviewResult = {
+  status: 'completed',
+  base: 'main',
+  head: 'HEAD',
+  baseSha: '1111111aaaaaaaaa',
+  headSha: '2222222bbbbbbbbb',
+  skill: 'review-back',
+  model: 'sonnet',
+  report: '# Review',
+  findings: [{ filePath: 'src/cart.ts', line: 12, body: 'The total ignores discounts.' }],
+  durationMs: 120_000,
+};
+
+function createFakeReviewDeps(overrides?: Partial<ReviewDependencies>): ReviewDependencies {
+  return {
+    runLocalReview: vi.fn(async () => completed),
+    cwd: () => '/home/dev/shop',
+    log: vi.fn(),
+    error: vi.fn(),
+    exit: vi.fn(),
+    ...overrides,
+  };
+}
+
+describe('executeReview', () => {
+  it('exits 1 without a base', async () => {
+    const deps = createFakeReviewDeps();
+
+    await executeReview({ path: undefined, base: undefined, head: 'HEAD', focus: undefined, json: false }, deps);
+
+    expect(deps.error).toHaveBeenCalledWith(expect.stringContaining('Missing --base'));
+    expect(deps.exit).toHaveBeenCalledWith(1);
+    expect(deps.runLocalReview).not.toHaveBeenCalled();
+  });
+
+  it('exits 1 on an unknown focus', async () => {
+    const deps = createFakeReviewDeps();
+
+    await executeReview({ path: undefined, base: 'main', head: 'HEAD', focus: 'backend', json: false }, deps);
+
+    expect(deps.error).toHaveBeenCalledWith(expect.stringContaining('Unknown focus "backend"'));
+    expect(deps.exit).toHaveBeenCalledWith(1);
+  });
+
+  it('reviews the path resolved from the current directory and prints the findings', async () => {
+    const deps = createFakeReviewDeps();
+
+    await executeReview({ path: 'packages/api', base: 'main', head: 'HEAD', focus: 'back', json: false }, deps);
+
+    expect(deps.runLocalReview).toHaveBeenCalledWith({
+      localPath: '/home/dev/shop/packages/api',
+      base: 'main',
+      head: 'HEAD',
+      focus: 'back',
+    });
+    expect(deps.log).toHaveBeenLastCalledWith(expect.stringContaining('src/cart.ts:12: The total ignores discounts.'));
+    expect(deps.exit).not.toHaveBeenCalled();
+  });
+
+  it('prints JSON only with --json', async () => {
+    const deps = createFakeReviewDeps();
+
+    await executeReview({ path: undefined, base: 'main', head: 'HEAD', focus: undefined, json: true }, deps);
+
+    expect(deps.log).toHaveBeenCalledTimes(1);
+    const printed = JSON.parse(vi.mocked(deps.log).mock.calls[0]?.[0] as string);
+    expect(printed).toMatchObject({ skill: 'review-back', report: '# Review', findings: [{ filePath: 'src/cart.ts', line: 12 }] });
+    expect(printed.status).toBeUndefined();
+  });
+
+  it('exits 1 when the review fails', async () => {
+    const deps = createFakeReviewDeps({ runLocalReview: vi.fn(async () => ({ status: 'failed' as const, reason: 'unknown base: mian' })) });
+
+    await executeReview({ path: undefined, base: 'mian', head: 'HEAD', focus: undefined, json: false }, deps);
+
+    expect(deps.error).toHaveBeenCalledWith(expect.stringContaining('unknown base: mian'));
+    expect(deps.exit).toHaveBeenCalledWith(1);
+  });
+});
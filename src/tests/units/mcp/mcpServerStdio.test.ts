@@ -16,8 +16,11 @@ vi.mock('../../../mcp/mcpLogger.js', () => ({
 }));
 
 vi.mock('../../../config/projectConfig.js', () => ({
-  getProjectAgents: () => [{ name: 'agent-a' }, { name: 'agent-b' }],
-  getFollowupAgents: () => [{ name: 'followup-check' }],
+  getProjectAgents: () => [
+    { name: 'agent-a', displayName: 'Agent A', model: 'opus' },
+    { name: 'agent-b', displayName: 'Agent B' },
+  ],
+  getFollowupAgents: () => [{ name: 'followup-check', displayName: 'Followup Check' }],
 }));
 
 import {
@@ -157,6 +160,9 @@ describe('mcpServerStdio context loading', () => {
         progressGateway: {
           createProgress: vi.fn(),
         },
+        reviewContextGateway: {
+          read: vi.fn().mockReturnValue(null),
+        },
       };
 
       ensureJobContextLoaded('job-lazy', mockDeps as never);
@@ -165,10 +171,44 @@ describe('mcpServerStdio context loading', () => {
         localPath: '/tmp/repos/lazy',
         mergeRequestId: 'gitlab-org/lazy-10',
       });
-      expect(mockDeps.progressGateway.createProgress).toHaveBeenCalledWith(
-        'job-lazy',
-        ['agent-a', 'agent-b'],
-      );
+      expect(mockDeps.progressGateway.createProgress).toHaveBeenCalledWith('job-lazy', [
+        { name: 'agent-a', displayName: 'Agent A', model: 'opus' },
+        { name: 'agent-b', displayName: 'Agent B' },
+      ], undefined);
+    });
+
+    it('should create progress with the agents selected in the review context', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({
+        jobId: 'job-selected',
+        localPath: '/tmp/repos/selected',
+        mergeRequestId: 'gitlab-org/selected-11',
+        jobType: 'review',
+      }));
+      const skippedAgents = [{ name: 'agent-b', reason: 'No changed file matches paths **/*.tsx' }];
+
+      const mockDeps = {
+        jobContextGateway: {
+          get: vi.fn().mockReturnValue(null),
+          register: vi.fn(),
+        },
+        progressGateway: {
+          createProgress: vi.fn(),
+        },
+        reviewContextGateway: {
+          read: vi.fn().mockReturnValue({
+            progress: { phase: 'pending', currentStep: null, agents: [{ name: 'agent-a', displayName: 'Agent A' }] },
+            skippedAgents,
+          }),
+        },
+      };
+
+      ensureJobContextLoaded('job-selected', mockDeps as never);
+
+      expect(mockDeps.reviewContextGateway.read).toHaveBeenCalledWith('/tmp/repos/selected', 'gitlab-org/selected-11');
+      expect(mockDeps.progressGateway.createProgress).toHaveBeenCalledWith('job-selected', [
+        { name: 'agent-a', displayName: 'Agent A', model: 'opus' },
+      ], skippedAgents);
     });
 
     it('should skip loading if context is already registered', () => {
@@ -180,6 +220,9 @@ describe('mcpServerStdio context loading', () => {
         progressGateway: {
           createProgress: vi.fn(),
         },
+        reviewContextGateway: {
+          read: vi.fn().mockReturnValue(null),
+        },
       };
 
       ensureJobContextLoaded('already-loaded', mockDeps as never);
@@ -188,6 +231,40 @@ describe('mcpServerStdio context loading', () => {
       expect(mockDeps.progressGateway.createProgress).not.toHaveBeenCalled();
     });
 
+    it('should create progress without agents when the selection skipped all of them', () => {
+      vi.mocked(fs.existsSync).mockReturnValue(true);
+      vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({
+        jobId: 'job-all-skipped',
+        localPath: '/tmp/repos/skipped',
+        mergeRequestId: 'gitlab-org/skipped-12',
+        jobType: 'review',
+      }));
+      const skippedAgents = [
+        { name: 'agent-a', reason: 'No changed file matches languages sql' },
+        { name: 'agent-b', reason: 'No changed file matches languages sql' },
+      ];
+
+      const mockDeps = {
+        jobContextGateway: {
+          get: vi.fn().mockReturnValue(null),
+          register: vi.fn(),
+        },
+        progressGateway: {
+          createProgress: vi.fn(),
+        },
+        reviewContextGateway: {
+          read: vi.fn().mockReturnValue({
+            progress: { phase: 'pending', currentStep: null, agents: [] },
+            skippedAgents,
+          }),
+        },
+      };
+
+      ensureJobContextLoaded('job-all-skipped', mockDeps as never);
+
+      expect(mockDeps.progressGateway.createProgress).toHaveBeenCalledWith('job-all-skipped', [], skippedAgents);
+    });
+
     it('should use followup agents when jobType is followup', () => {
       const contextData = {
         jobId: 'followup-job',
@@ -206,14 +283,16 @@ describe('mcpServerStdio context loading', () => {
         progressGateway: {
           createProgress: vi.fn(),
         },
+        reviewContextGateway: {
+          read: vi.fn().mockReturnValue(null),
+        },
       };
 
       ensureJobContextLoaded('followup-job', mockDeps as never);
 
-      expect(mockDeps.progressGateway.createProgress).toHaveBeenCalledWith(
-        'followup-job',
-        ['followup-check'],
-      );
+      expect(mockDeps.progressGateway.createProgress).toHaveBeenCalledWith('followup-job', [
+        { name: 'followup-check', displayName: 'Followup Check' },
+      ], undefined);
     });
 
     it('should not throw when context file is missing', () => {
@@ -227,6 +306,9 @@ describe('mcpServerStdio context loading', () => {
         progressGateway: {
           createProgress: vi.fn(),
         },
+        reviewContextGateway: {
+          read: vi.fn().mockReturnValue(null),
+        },
       };
 
       expect(() => ensureJobContextLoaded('missing', mockDeps as never)).not.toThrow();
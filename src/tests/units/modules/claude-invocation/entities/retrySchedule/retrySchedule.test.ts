@@ -1,5 +1,9 @@
 import { describe, it, expect } from 'vitest';
-import { planRetry } from '@/modules/claude-invocation/entities/retrySchedule/retrySchedule.valueObject.js';
+import {
+  planRetry,
+  resolveRetryPolicies,
+} from '@/modules/claude-invocation/entities/retrySchedule/retrySchedule.valueObject.js';
+import { DEFAULT_RETRY_POLICIES } from '@/modules/claude-invocation/entities/retrySchedule/retryPolicy.schema.js';
 
 describe('RetrySchedule value object', () => {
   it('returns 60s delay on the first retry', () => {
@@ -31,3 +35,22 @@ describe('RetrySchedule value object', () => {
     expect(planRetry(5).status).toBe('give-up');
   });
 });
+
+describe('resolveRetryPolicies', () => {
+  it('returns the default policies without overrides', () => {
+    expect(resolveRetryPolicies()).toEqual(DEFAULT_RETRY_POLICIES);
+  });
+
+  it('overrides a class field by field and keeps the others', () => {
+    const policies = resolveRetryPolicies({ timeout: { maxAttempts: 3 } });
+
+    expect(policies.timeout).toEqual({ ...DEFAULT_RETRY_POLICIES.timeout, maxAttempts: 3 });
+    expect(policies['session-failed']).toEqual(DEFAULT_RETRY_POLICIES['session-failed']);
+  });
+
+  it('gives up at once on a class whose retries are turned off', () => {
+    const policies = resolveRetryPolicies({ 'report-missing': { maxAttempts: 0 } });
+
+    expect(planRetry(0, policies['report-missing']).status).toBe('give-up');
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { classifySessionFailure } from '@/modules/claude-invocation/entities/sessionFailure/sessionFailure.valueObject.js';
+
+describe('classifySessionFailure', () => {
+  it.each([
+    ['timeout', 'timeout'],
+    ['report-missing', 'report-missing'],
+    ['outcome-failed', 'session-failed'],
+    ['outcome-failed: tool crashed', 'session-failed'],
+    ['outcome-stopped', 'supervisor-lost'],
+  ] as const)('classifies %s as %s', (reason, failureClass) => {
+    expect(classifySessionFailure(reason)).toBe(failureClass);
+  });
+
+  it.each(['outcome-stopped: cancelled', 'cancelled', 'billing-regression-prevented', 'dispatch-paused', 'dispatch-failed: boom'])(
+    'does not retry %s',
+    (reason) => {
+      expect(classifySessionFailure(reason)).toBeNull();
+    },
+  );
+});
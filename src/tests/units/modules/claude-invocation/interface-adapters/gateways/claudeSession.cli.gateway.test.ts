@@ -48,6 +48,42 @@ const baseDispatchInput = {
 };
 
 describe('ClaudeSessionCliGateway.dispatch', () => {
+  it('gives the session access to the worktrees of linked merge requests', async () => {
+    const { runner, calls } = createRunner([{ stdout: 'backgrounded · 7c5dcf5d', stderr: '', exitCode: 0 }]);
+    const gateway = new ClaudeSessionCliGateway(runner);
+
+    await gateway.dispatch({
+      ...baseDispatchInput,
+      flags: { ...baseDispatchInput.flags, additionalDirectories: ['/worktrees/backend-12', '/worktrees/schemas-4'] },
+    });
+
+    const args = calls[0]?.args ?? [];
+    const addDir = args.indexOf('--add-dir');
+    expect(args.slice(addDir, addDir + 4)).toEqual(['--add-dir', '/worktrees/backend-12', '--add-dir', '/worktrees/schemas-4']);
+  });
+
+  it('defines the subagents of the session', async () => {
+    const { runner, calls } = createRunner([{ stdout: 'backgrounded · 7c5dcf5d', stderr: '', exitCode: 0 }]);
+    const gateway = new ClaudeSessionCliGateway(runner);
+    const agentsJson = '{"security":{"description":"Security audit","prompt":"Audit","tools":["Read"],"model":"opus"}}';
+
+    await gateway.dispatch({ ...baseDispatchInput, flags: { ...baseDispatchInput.flags, agentsJson } });
+
+    const args = calls[0]?.args ?? [];
+    const agents = args.indexOf('--agents');
+    expect(args.slice(agents, agents + 2)).toEqual(['--agents', agentsJson]);
+    expect(args.indexOf('--agents')).toBeLessThan(args.indexOf('--'));
+  });
+
+  it('defines no subagent when the job has none', async () => {
+    const { runner, calls } = createRunner([{ stdout: 'backgrounded · 7c5dcf5d', stderr: '', exitCode: 0 }]);
+    const gateway = new ClaudeSessionCliGateway(runner);
+
+    await gateway.dispatch(baseDispatchInput);
+
+    expect(calls[0]?.args).not.toContain('--agents');
+  });
+
   it('extracts the session id from claude --bg stdout (new "backgrounded · <id>" format)', async () => {
     const { runner, calls } = createRunner([
       {
@@ -0,0 +1,332 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { ReviewEngineRunInput } from '@/modules/claude-invocation/entities/reviewEngine/reviewEngine.gateway.js';
+import {
+  OpenAiCompatibleReviewEngineGateway,
+  type ReviewEngineFileSystem,
+} from '@/modules/claude-invocation/interface-adapters/gateways/reviewEngine.openaiCompatible.gateway.js';
+import { StubGitCommandExecutor } from '@/tests/stubs/gitCommandExecutor.stub.js';
+import { StubMcpCompletionBridge } from '@/tests/stubs/mcpCompletion.stub.js';
+import { StubMcpToolClient } from '@/tests/stubs/mcpToolClient.stub.js';
+import { StubReviewReportGateway } from '@/tests/stubs/reviewReport.stub.js';
+
+const REPORT_PATH = '/worktrees/mr-42/.claude/reviews/2026-10-18-MR-42-review.md';
+
+class InMemoryFileSystem implements ReviewEngineFileSystem {
+  readonly files = new Map<string, string>();
+  readonly links = new Map<string, string>();
+
+  readFile(path: string): string | null {
+    return this.files.get(path) ?? null;
+  }
+
+  writeFile(path: string, content: string): void {
+    this.files.set(path, content);
+  }
+
+  realPath(path: string): string {
+    return this.links.get(path) ?? path;
+  }
+}
+
+function toolCall(id: string, name: string, args: unknown) {
+  return { id, type: 'function', function: { name, arguments: JSON.stringify(args) } };
+}
+
+function completion(message: { content?: string | null; tool_calls?: unknown[] }, usage = { prompt_tokens: 100, completion_tokens: 20 }) {
+  return new Response(JSON.stringify({ choices: [{ message }], usage }), { status: 200 });
+}
+
+function buildInput(overrides: Partial<ReviewEngineRunInput> = {}): ReviewEngineRunInput {
+  return {
+    jobId: 'gitlab:shop/api:42',
+    jobType: 'review',
+    prompt: '/review-back 42',
+    flags: {
+      model: 'sonnet',
+      mcpConfigJson: '{"mcpServers":{}}',
+      systemPrompt: 'Job ID: gitlab:shop/api:42',
+      allowedTools: 'Read',
+      disallowedTools: 'EnterPlanMode',
+      permissionMode: 'auto',
+    },
+    localPath: '/worktrees/mr-42',
+    mergeRequestId: 'gitlab-shop/api-42',
+    mergeRequestNumber: 42,
+    attempts: {},
+    ...overrides,
+  };
+}
+
+describe('OpenAiCompatibleReviewEngineGateway', () => {
+  let responses: Response[];
+  let requests: Array<{ url: string; body: { model: string; messages: Array<{ role: string; content: string | null }>; tools: Array<{ function: { name: string } }> }; headers: Record<string, string> }>;
+  let mcp: StubMcpToolClient;
+  let git: StubGitCommandExecutor;
+  let fs: InMemoryFileSystem;
+  let completionBridge: StubMcpCompletionBridge;
+  let engine: OpenAiCompatibleReviewEngineGateway;
+
+  function buildEngine(apiKey?: string): OpenAiCompatibleReviewEngineGateway {
+    return new OpenAiCompatibleReviewEngineGateway(
+      { provider: 'openai-compatible', baseUrl: 'http://localhost:11434/v1/', model: 'qwen2.5-coder:32b', maxTurns: 4 },
+      apiKey,
+      {
+        fetch: async (url, init) => {
+          requests.push({
+            url: String(url),
+            body: JSON.parse(String(init?.body)),
+            headers: init?.headers as Record<string, string>,
+          });
+          const next = responses.shift();
+          if (!next) throw new Error('no response programmed');
+          return next;
+        },
+        connectMcp: async () => mcp,
+        gitExecutor: git,
+        completionBridge,
+        reportGateway: new StubReviewReportGateway(),
+        fs,
+        now: () => new Date('2026-10-18T10:00:00.000Z'),
+        timeoutMs: 60_000,
+      },
+    );
+  }
+
+  beforeEach(() => {
+    responses = [];
+    requests = [];
+    mcp = new StubMcpToolClient();
+    git = new StubGitCommandExecutor();
+    fs = new InMemoryFileSystem();
+    fs.files.set('/worktrees/mr-42/.claude/skills/review-back/SKILL.md', '# Review back\nAudit the API.');
+    completionBridge = new StubMcpCompletionBridge();
+    engine = buildEngine();
+  });
+
+  it('runs the skill with the MCP tools and saves the final answer as the report', async () => {
+    responses.push(
+      completion({ content: null, tool_calls: [toolCall('call-1', 'set_phase', { jobId: 'gitlab:shop/api:42', phase: 'agents-running' })] }),
+      completion({ content: '# Review\nScore: 8/10' }),
+    );
+
+    const result = await engine.run(buildInput());
+
+    expect(result).toEqual({
+      status: 'completed',
+      reportPath: REPORT_PATH,
+      content: '# Review\nScore: 8/10\n',
+      usage: {
+        model: 'qwen2.5-coder:32b',
+        usage: { inputTokens: 200, outputTokens: 40, cacheCreationInputTokens: 0, cacheReadInputTokens: 0, costUsd: 0 },
+      },
+    });
+    expect(fs.files.get(REPORT_PATH)).toBe('# Review\nScore: 8/10\n');
+    expect(mcp.calls).toEqual([{ name: 'set_phase', args: { jobId: 'gitlab:shop/api:42', phase: 'agents-running' } }]);
+    expect(requests[0].url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(requests[0].body.model).toBe('qwen2.5-coder:32b');
+    expect(requests[0].body.messages[0].content).toContain('Job ID: gitlab:shop/api:42');
+    expect(requests[0].body.messages[1].content).toBe('# Review back\nAudit the API.\n\nArguments: 42');
+    expect(requests[0].body.tools.map((tool) => tool.function.name)).toEqual(['set_phase', 'add_action', 'read_file', 'git']);
+    expect(requests[1].body.messages.at(-1)).toMatchObject({ role: 'tool', content: 'set_phase ok' });
+    expect(mcp.closed).toBe(true);
+    expect(completionBridge.unsubscribeCalls).toEqual(['gitlab:shop/api:42']);
+  });
+
+  it('sends the API key as a bearer token', async () => {
+    engine = buildEngine('sk-local');
+    responses.push(completion({ content: '# Review' }));
+
+    await engine.run(buildInput());
+
+    expect(requests[0].headers.Authorization).toBe('Bearer sk-local');
+  });
+
+  it('reads files of the checkout and refuses paths outside it', async () => {
+    fs.files.set('/worktrees/mr-42/src/cart.ts', 'line 1\nline 2\nline 3');
+    responses.push(
+      completion({
+        tool_calls: [
+          toolCall('call-1', 'read_file', { path: 'src/cart.ts', startLine: 2, endLine: 3 }),
+          toolCall('call-2', 'read_file', { path: '../../etc/passwd' }),
+        ],
+      }),
+      completion({ content: '# Review' }),
+    );
+
+    await engine.run(buildInput());
+
+    const toolMessages = requests[1].body.messages.filter((message) => message.role === 'tool');
+    expect(toolMessages.map((message) => message.content)).toEqual([
+      'line 2\nline 3',
+      'Error: ../../etc/passwd is outside the checkout',
+    ]);
+  });
+
+  it('refuses a symbolic link of the checkout that points outside it', async () => {
+    fs.files.set('/home/reviewflow/.ssh/id_ed25519', 'PRIVATE KEY');
+    fs.links.set('/worktrees/mr-42/docs/key', '/home/reviewflow/.ssh/id_ed25519');
+    responses.push(
+      completion({ tool_calls: [toolCall('call-1', 'read_file', { path: 'docs/key' })] }),
+      completion({ content: '# Review' }),
+    );
+
+    await engine.run(buildInput());
+
+    expect(requests[1].body.messages.at(-1)).toMatchObject({
+      role: 'tool',
+      content: 'Error: docs/key is outside the checkout',
+    });
+  });
+
+  it('runs read-only git commands only', async () => {
+    git.programResponse('inspect', { exitCode: 0, stdout: 'diff --git a/src/cart.ts b/src/cart.ts\n', stderr: '' });
+    responses.push(
+      completion({
+        tool_calls: [
+          toolCall('call-1', 'git', { args: ['diff', 'origin/main...HEAD'] }),
+          toolCall('call-2', 'git', { args: ['push', 'origin'] }),
+          toolCall('call-3', 'git', { args: ['diff', '--output=/tmp/leak'] }),
+        ],
+      }),
+      completion({ content: '# Review' }),
+    );
+
+    await engine.run(buildInput());
+
+    expect(git.callsOfKind('inspect')).toEqual([
+      { kind: 'inspect', args: ['--no-pager', 'diff', 'origin/main...HEAD'], cwd: '/worktrees/mr-42' },
+    ]);
+    const toolMessages = requests[1].body.messages.filter((message) => message.role === 'tool');
+    expect(toolMessages[1].content).toContain('only diff, log, show');
+    expect(toolMessages[2].content).toBe('Error: option --output=/tmp/leak is not allowed');
+  });
+
+  it('refuses the options of blame, grep and ls-files that read a file', async () => {
+    responses.push(
+      completion({
+        tool_calls: [
+          toolCall('call-1', 'git', { args: ['blame', '--contents', '/etc/passwd', 'src/cart.ts'] }),
+          toolCall('call-2', 'git', { args: ['grep', '-f', '/etc/shadow'] }),
+          toolCall('call-3', 'git', { args: ['grep', '-nf', '/etc/shadow'] }),
+          toolCall('call-4', 'git', { args: ['grep', '--file=/etc/shadow'] }),
+          toolCall('call-5', 'git', { args: ['ls-files', '--exclude-from=/etc/hosts'] }),
+        ],
+      }),
+      completion({ content: '# Review' }),
+    );
+
+    await engine.run(buildInput());
+
+    expect(git.callsOfKind('inspect')).toEqual([]);
+    const toolMessages = requests[1].body.messages.filter((message) => message.role === 'tool');
+    expect(toolMessages.map((message) => message.content)).toEqual([
+      'Error: option --contents is not allowed',
+      'Error: option -f is not allowed',
+      'Error: option -nf is not allowed',
+      'Error: option --file=/etc/shadow is not allowed',
+      'Error: option --exclude-from=/etc/hosts is not allowed',
+    ]);
+  });
+
+  it('refuses the abbreviated and negated forms of a forbidden option', async () => {
+    responses.push(
+      completion({
+        tool_calls: [
+          toolCall('call-1', 'git', { args: ['blame', '--cont=/tmp/secret.txt', '--', 'src/cart.ts'] }),
+          toolCall('call-2', 'git', { args: ['blame', '--con', '/tmp/secret.txt', 'src/cart.ts'] }),
+          toolCall('call-3', 'git', { args: ['diff', '--out=/tmp/leak'] }),
+          toolCall('call-4', 'git', { args: ['diff', '--no-i', '/etc/passwd', 'src/cart.ts'] }),
+          toolCall('call-5', 'git', { args: ['grep', '--fi', '/etc/shadow'] }),
+          toolCall('call-6', 'git', { args: ['diff', '--no-ext'] }),
+        ],
+      }),
+      completion({ content: '# Review' }),
+    );
+
+    await engine.run(buildInput());
+
+    expect(git.callsOfKind('inspect')).toEqual([]);
+    const toolMessages = requests[1].body.messages.filter((message) => message.role === 'tool');
+    expect(toolMessages.map((message) => message.content)).toEqual([
+      'Error: option --cont=/tmp/secret.txt is not allowed',
+      'Error: option --con is not allowed',
+      'Error: option --out=/tmp/leak is not allowed',
+      'Error: option --no-i is not allowed',
+      'Error: option --fi is not allowed',
+      'Error: option --no-ext is not allowed',
+    ]);
+  });
+
+  it('lets through the end of options and the long options that are not forbidden', async () => {
+    git.programResponse('inspect', { exitCode: 0, stdout: 'abc123 line\n', stderr: '' });
+    responses.push(
+      completion({
+        tool_calls: [toolCall('call-1', 'git', { args: ['log', '--oneline', '--stat', '--', 'src/cart.ts'] })],
+      }),
+      completion({ content: '# Review' }),
+    );
+
+    await engine.run(buildInput());
+
+    expect(git.callsOfKind('inspect')).toEqual([
+      {
+        kind: 'inspect',
+        args: ['--no-pager', 'log', '--oneline', '--stat', '--', 'src/cart.ts'],
+        cwd: '/worktrees/mr-42',
+      },
+    ]);
+  });
+
+  it('fails a response that is not JSON', async () => {
+    responses.push(new Response('<html>Bad gateway</html>', { status: 200 }));
+
+    const result = await engine.run(buildInput());
+
+    expect(result).toEqual({ status: 'failed', reason: 'outcome-failed: chat completion response is not JSON' });
+  });
+
+  it('retries a rate-limited request', async () => {
+    responses.push(new Response('slow down', { status: 429 }));
+
+    const result = await engine.run(buildInput());
+
+    expect(result).toMatchObject({ status: 'retry', failureClass: 'rate-limited', attempt: 1 });
+  });
+
+  it('fails a review that ends without a report', async () => {
+    responses.push(completion({ content: '   ' }));
+
+    const result = await engine.run(buildInput());
+
+    expect(result).toEqual({ status: 'failed', reason: 'report-missing' });
+    expect(fs.files.has(REPORT_PATH)).toBe(false);
+  });
+
+  it('completes a followup with nothing to report', async () => {
+    responses.push(completion({ content: '' }));
+
+    const result = await engine.run(buildInput({ jobType: 'followup' }));
+
+    expect(result).toMatchObject({ status: 'completed', content: '' });
+  });
+
+  it('fails once the turn limit is reached', async () => {
+    for (let turn = 0; turn < 4; turn += 1) {
+      responses.push(completion({ tool_calls: [toolCall(`call-${turn}`, 'get_workflow', {})] }));
+    }
+
+    const result = await engine.run(buildInput());
+
+    expect(result).toEqual({ status: 'failed', reason: 'outcome-failed: turn limit reached' });
+  });
+
+  it('does not call the server once cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const result = await engine.run(buildInput({ signal: controller.signal }));
+
+    expect(result).toEqual({ status: 'failed', reason: 'cancelled' });
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -6,6 +6,7 @@ import { StubReviewReportGateway } from '@/tests/stubs/reviewReport.stub.js';
 import { StubBillingStateGateway } from '@/tests/stubs/billingState.stub.js';
 import { StubEnvironmentGateway } from '@/tests/stubs/environment.stub.js';
 import { parseSessionId } from '@/modules/claude-invocation/entities/claudeSession/claudeSession.schema.js';
+import { DEFAULT_RETRY_POLICIES } from '@/modules/claude-invocation/entities/retrySchedule/retryPolicy.schema.js';
 
 function buildInput(overrides: Partial<Parameters<typeof runClaudeReviewJob>[0]> = {}): Parameters<typeof runClaudeReviewJob>[0] {
   return {
@@ -23,7 +24,7 @@ function buildInput(overrides: Partial<Parameters<typeof runClaudeReviewJob>[0]>
     localPath: '/tmp/project',
     mergeRequestId: 'gitlab-owner/repo-42',
     mergeRequestNumber: 42,
-    attempt: 0,
+    attempts: {},
     ...overrides,
   };
 }
@@ -143,6 +144,82 @@ describe('runClaudeReviewJob orchestrator', () => {
     }
   });
 
+  it('returns "retry" for a failed session when its failure class has a policy', async () => {
+    const ctx = buildDeps();
+    ctx.sessionGateway.setDispatchResult({
+      status: 'dispatched',
+      sessionId: parseSessionId('fail0001'),
+    });
+    ctx.completionBridge.scheduleCompletion('gitlab:owner/repo:42', {
+      source: 'mcp',
+      outcome: 'failed',
+      reason: 'tool crashed',
+    });
+
+    const runPromise = runClaudeReviewJob(
+      buildInput({ attempts: { 'session-failed': 1 }, retryPolicies: DEFAULT_RETRY_POLICIES }),
+      ctx.deps,
+    );
+    await vi.runAllTimersAsync();
+    const result = await runPromise;
+
+    expect(result).toEqual({
+      status: 'retry',
+      delayMs: 120_000,
+      attempt: 2,
+      maxAttempts: 2,
+      failureClass: 'session-failed',
+      reason: 'outcome-failed: tool crashed',
+    });
+    expect(ctx.sessionGateway.removeCalls).toContain(parseSessionId('fail0001'));
+  });
+
+  it('returns "failed" once the failure class ran out of attempts', async () => {
+    const ctx = buildDeps();
+    ctx.sessionGateway.setDispatchResult({
+      status: 'dispatched',
+      sessionId: parseSessionId('miss0002'),
+    });
+    ctx.completionBridge.scheduleCompletion('gitlab:owner/repo:42', {
+      source: 'mcp',
+      outcome: 'completed',
+      reason: null,
+    });
+    ctx.reportGateway.setReport(null);
+
+    const runPromise = runClaudeReviewJob(
+      buildInput({ attempts: { 'report-missing': 1 }, retryPolicies: DEFAULT_RETRY_POLICIES }),
+      ctx.deps,
+    );
+    await vi.runAllTimersAsync();
+    const result = await runPromise;
+
+    expect(result).toEqual({ status: 'failed', reason: 'report-missing' });
+  });
+
+  it('does not spend the attempts of one failure class on another', async () => {
+    const ctx = buildDeps();
+    ctx.sessionGateway.setDispatchResult({
+      status: 'dispatched',
+      sessionId: parseSessionId('miss0003'),
+    });
+    ctx.completionBridge.scheduleCompletion('gitlab:owner/repo:42', {
+      source: 'mcp',
+      outcome: 'completed',
+      reason: null,
+    });
+    ctx.reportGateway.setReport(null);
+
+    const runPromise = runClaudeReviewJob(
+      buildInput({ attempts: { 'rate-limited': 3, timeout: 1 }, retryPolicies: DEFAULT_RETRY_POLICIES }),
+      ctx.deps,
+    );
+    await vi.runAllTimersAsync();
+    const result = await runPromise;
+
+    expect(result).toMatchObject({ status: 'retry', attempt: 1, failureClass: 'report-missing' });
+  });
+
   it('returns "failed" with reason "billing-regression-prevented" when API key is set', async () => {
     const ctx = buildDeps();
     ctx.environment.setHasAnthropicApiKey(true);
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { finishedReviewStatus } from '@/modules/platform-integration/entities/commitStatus/reviewCommitStatus.js';
+
+const CLEAN_REVIEW = { score: 9, blocking: 0, warnings: 0, suggestions: 2 };
+
+describe('finishedReviewStatus', () => {
+  it('succeeds when the review is ready to merge and no gate is configured', () => {
+    const status = finishedReviewStatus({ jobStatus: 'completed', review: CLEAN_REVIEW, qualityThreshold: null });
+
+    expect(status.state).toBe('success');
+    expect(status.title).toBe('9/10, ready to merge');
+  });
+
+  it('fails when the review asks for fixes', () => {
+    const status = finishedReviewStatus({
+      jobStatus: 'completed',
+      review: { ...CLEAN_REVIEW, blocking: 2 },
+      qualityThreshold: null,
+    });
+
+    expect(status.state).toBe('failure');
+    expect(status.title).toContain('needs fixes');
+  });
+
+  it('fails when the score is below the project quality threshold', () => {
+    const status = finishedReviewStatus({
+      jobStatus: 'completed',
+      review: { ...CLEAN_REVIEW, score: 7 },
+      qualityThreshold: 8,
+    });
+
+    expect(status.state).toBe('failure');
+    expect(status.title).toBe('7/10, needs discussion. Seuil qualité non atteint (7/10 < 8/10)');
+  });
+
+  it('fails with the job error when the review job failed', () => {
+    expect(
+      finishedReviewStatus({ jobStatus: 'failed', error: 'Claude exited', review: null, qualityThreshold: null }),
+    ).toEqual({ state: 'failure', title: 'Review failed: Claude exited' });
+  });
+
+  it('fails when the job recorded no review', () => {
+    const status = finishedReviewStatus({ jobStatus: 'completed', review: null, qualityThreshold: null });
+
+    expect(status).toMatchObject({ state: 'failure', title: 'No review result' });
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest'
+import { parseLinkedIssues } from '@/modules/platform-integration/entities/mergeRequestMetadata/mergeRequestMetadata.js'
+
+describe('parseLinkedIssues', () => {
+  it('should list the issues closed by the description', () => {
+    const description = 'Refund orders partially.\n\nCloses #12\nFixes group/project#3, #4 and #5\nresolved: #7'
+
+    expect(parseLinkedIssues(description)).toEqual(['#12', 'group/project#3', '#4', '#5', '#7'])
+  })
+
+  it('should ignore issues that are only mentioned', () => {
+    expect(parseLinkedIssues('Follow-up of #9, see also #10')).toEqual([])
+  })
+
+  it('should list an issue once', () => {
+    expect(parseLinkedIssues('Closes #1\nFixes #1')).toEqual(['#1'])
+  })
+})
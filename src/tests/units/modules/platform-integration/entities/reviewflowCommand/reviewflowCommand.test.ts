@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { parseReviewflowCommand } from '@/modules/platform-integration/entities/reviewflowCommand/reviewflowCommand.js';
+
+describe('parseReviewflowCommand', () => {
+  it('returns no-command for a comment without a /reviewflow line', () => {
+    expect(parseReviewflowCommand('LGTM, ship it')).toEqual({ kind: 'no-command' });
+  });
+
+  it('ignores /reviewflow mentioned inside a sentence or glued to another word', () => {
+    expect(parseReviewflowCommand('try `/reviewflow review` later')).toEqual({ kind: 'no-command' });
+    expect(parseReviewflowCommand('/reviewflowreview')).toEqual({ kind: 'no-command' });
+  });
+
+  it.each(['review', 'followup', 'cancel', 'now'] as const)('parses the argument-less %s command', (name) => {
+    expect(parseReviewflowCommand(`/reviewflow ${name}`)).toEqual({ kind: 'valid', command: { name } });
+  });
+
+  it('finds the command on any line of the comment', () => {
+    expect(parseReviewflowCommand('Pushed the fix.\n  /reviewflow followup  \nThanks')).toEqual({
+      kind: 'valid',
+      command: { name: 'followup' },
+    });
+  });
+
+  it('parses a focus area, lower-cased', () => {
+    expect(parseReviewflowCommand('/reviewflow focus Security')).toEqual({
+      kind: 'valid',
+      command: { name: 'focus', focus: 'security' },
+    });
+  });
+
+  it('parses a known model', () => {
+    expect(parseReviewflowCommand('/reviewflow model opus')).toEqual({
+      kind: 'valid',
+      command: { name: 'model', model: 'opus' },
+    });
+  });
+
+  it('parses the thread to explain', () => {
+    expect(parseReviewflowCommand('/reviewflow explain PRRT_kwDOAbc123')).toEqual({
+      kind: 'valid',
+      command: { name: 'explain', threadId: 'PRRT_kwDOAbc123' },
+    });
+  });
+
+  it('rejects a bare /reviewflow with the usage text', () => {
+    const result = parseReviewflowCommand('/reviewflow');
+
+    expect(result.kind).toBe('invalid');
+    expect(result.kind === 'invalid' && result.message).toContain('Missing command.');
+    expect(result.kind === 'invalid' && result.message).toContain('`/reviewflow explain <thread>`');
+  });
+
+  it('rejects an unknown command', () => {
+    const result = parseReviewflowCommand('/reviewflow deploy');
+
+    expect(result.kind === 'invalid' && result.message).toContain('Unknown command `deploy`.');
+  });
+
+  it.each([
+    ['/reviewflow review now', '`/reviewflow review` takes no argument.'],
+    ['/reviewflow focus', '`/reviewflow focus` expects a single area'],
+    ['/reviewflow focus sql injection', '`/reviewflow focus` expects a single area'],
+    ['/reviewflow model gpt-4', '`/reviewflow model` expects one of haiku, sonnet, opus.'],
+    ['/reviewflow explain', '`/reviewflow explain` expects a thread id.'],
+    ['/reviewflow explain ../etc', '`/reviewflow explain` expects a thread id.'],
+  ])('rejects malformed arguments in %s', (comment, reason) => {
+    const result = parseReviewflowCommand(comment);
+
+    expect(result.kind === 'invalid' && result.message).toContain(reason);
+  });
+});
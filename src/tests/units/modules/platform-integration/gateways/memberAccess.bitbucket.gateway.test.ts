@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { BitbucketMemberAccessGateway } from '@/modules/platform-integration/interface-adapters/gateways/memberAccess.bitbucket.gateway.js'
+import { MEMBER_ACCESS_LEVELS } from '@/modules/platform-integration/entities/memberAccess/memberAccess.js'
+
+class RecordingExecutor {
+  public readonly commands: string[] = []
+  private responses = new Map<string, string>()
+  private failures = new Set<string>()
+
+  onMatch(fragment: string, response: string): void {
+    this.responses.set(fragment, response)
+  }
+
+  failOnMatch(fragment: string): void {
+    this.failures.add(fragment)
+  }
+
+  run = (command: string): string => {
+    this.commands.push(command)
+    for (const fragment of this.failures) {
+      if (command.includes(fragment)) {
+        throw new Error(`curl failed for ${fragment}`)
+      }
+    }
+    for (const [fragment, response] of this.responses) {
+      if (command.includes(fragment)) {
+        return response
+      }
+    }
+    throw new Error(`No stubbed response for command: ${command}`)
+  }
+}
+
+function cloudPermissions(entries: Array<{ nickname: string; permission: string }>): string {
+  return JSON.stringify({
+    pagelen: 10,
+    values: entries.map(entry => ({
+      type: 'repository_permission',
+      permission: entry.permission,
+      user: { type: 'user', nickname: entry.nickname, display_name: entry.nickname },
+      repository: { full_name: 'my-workspace/my-repo' },
+    })),
+  })
+}
+
+function dataCenterPermissions(entries: Array<{ name: string; permission: string }>): string {
+  return JSON.stringify({
+    size: entries.length,
+    isLastPage: true,
+    values: entries.map(entry => ({ user: { name: entry.name, displayName: entry.name }, permission: entry.permission })),
+  })
+}
+
+describe('BitbucketMemberAccessGateway', () => {
+  let executor: RecordingExecutor
+  let now: number
+  const clock = (): number => now
+
+  beforeEach(() => {
+    executor = new RecordingExecutor()
+    now = 1_000
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  function buildGateway(ttlMs = 60_000): BitbucketMemberAccessGateway {
+    return new BitbucketMemberAccessGateway(executor.run, { ttlMs, clock })
+  }
+
+  describe('on Bitbucket Cloud', () => {
+    it('queries the workspace permissions of the repository, filtered on the nickname', async () => {
+      executor.onMatch('permissions/repositories/my-repo', cloudPermissions([{ nickname: 'alice', permission: 'write' }]))
+
+      await buildGateway().resolve('my-workspace/my-repo', 'alice')
+
+      expect(executor.commands[0]).toContain(
+        `workspaces/my-workspace/permissions/repositories/my-repo?q=${encodeURIComponent('user.nickname="alice"')}`,
+      )
+    })
+
+    it.each([
+      ['read', MEMBER_ACCESS_LEVELS.reporter],
+      ['write', MEMBER_ACCESS_LEVELS.developer],
+      ['admin', MEMBER_ACCESS_LEVELS.owner],
+    ])('maps the %s permission onto the member access scale', async (permission, expected) => {
+      executor.onMatch('permissions/repositories/my-repo', cloudPermissions([{ nickname: 'alice', permission }]))
+
+      expect(await buildGateway().resolve('my-workspace/my-repo', 'alice')).toBe(expected)
+    })
+
+    it('returns null when no permission names the user', async () => {
+      executor.onMatch('permissions/repositories/my-repo', cloudPermissions([{ nickname: 'alice2', permission: 'admin' }]))
+
+      expect(await buildGateway().resolve('my-workspace/my-repo', 'alice')).toBeNull()
+    })
+
+    it('returns null when the lookup throws (fail-closed)', async () => {
+      executor.failOnMatch('permissions/repositories/my-repo')
+
+      expect(await buildGateway().resolve('my-workspace/my-repo', 'mallory')).toBeNull()
+    })
+  })
+
+  describe('on Bitbucket Data Center', () => {
+    beforeEach(() => {
+      vi.stubEnv('BITBUCKET_DATA_CENTER_URL', 'https://bitbucket.example.com')
+    })
+
+    it('keeps the highest of the repository and project permissions of the user', async () => {
+      executor.onMatch('repos/my-repo/permissions/users', dataCenterPermissions([{ name: 'alice', permission: 'REPO_READ' }]))
+      executor.onMatch('projects/PROJ/permissions/users', dataCenterPermissions([{ name: 'alice', permission: 'PROJECT_WRITE' }]))
+
+      const accessLevel = await buildGateway().resolve('PROJ/my-repo', 'alice')
+
+      expect(accessLevel).toBe(MEMBER_ACCESS_LEVELS.developer)
+      expect(executor.commands[0]).toContain('rest/api/1.0/projects/PROJ/repos/my-repo/permissions/users?filter=alice')
+    })
+
+    it('ignores users whose name only contains the filter', async () => {
+      executor.onMatch('repos/my-repo/permissions/users', dataCenterPermissions([{ name: 'alice.admin', permission: 'REPO_ADMIN' }]))
+      executor.onMatch('projects/PROJ/permissions/users', dataCenterPermissions([]))
+
+      expect(await buildGateway().resolve('PROJ/my-repo', 'alice')).toBeNull()
+    })
+
+    it('returns null when the token may not read the permissions (fail-closed)', async () => {
+      executor.failOnMatch('permissions/users')
+
+      expect(await buildGateway().resolve('PROJ/my-repo', 'alice')).toBeNull()
+    })
+  })
+
+  it('caches per username and re-queries after the TTL expires', async () => {
+    executor.onMatch('permissions/repositories/my-repo', cloudPermissions([{ nickname: 'alice', permission: 'write' }]))
+
+    const gateway = buildGateway(1_000)
+    await gateway.resolve('my-workspace/my-repo', 'alice')
+    await gateway.resolve('my-workspace/my-repo', 'alice')
+    expect(executor.commands).toHaveLength(1)
+
+    now += 2_000
+    await gateway.resolve('my-workspace/my-repo', 'alice')
+    expect(executor.commands).toHaveLength(2)
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { GiteaMemberAccessGateway } from '@/modules/platform-integration/interface-adapters/gateways/memberAccess.gitea.gateway.js'
+import { MEMBER_ACCESS_LEVELS } from '@/modules/platform-integration/entities/memberAccess/memberAccess.js'
+
+class RecordingExecutor {
+  public readonly commands: string[] = []
+  private responses = new Map<string, string>()
+  private failures = new Set<string>()
+
+  onMatch(fragment: string, response: string): void {
+    this.responses.set(fragment, response)
+  }
+
+  failOnMatch(fragment: string): void {
+    this.failures.add(fragment)
+  }
+
+  run = (command: string): string => {
+    this.commands.push(command)
+    for (const fragment of this.failures) {
+      if (command.includes(fragment)) {
+        throw new Error(`curl failed for ${fragment}`)
+      }
+    }
+    for (const [fragment, response] of this.responses) {
+      if (command.includes(fragment)) {
+        return response
+      }
+    }
+    throw new Error(`No stubbed response for command: ${command}`)
+  }
+}
+
+function permissionResponse(permission: string): string {
+  return JSON.stringify({ permission, role_name: permission, user: { login: 'alice' } })
+}
+
+describe('GiteaMemberAccessGateway', () => {
+  let executor: RecordingExecutor
+  let now: number
+  const clock = (): number => now
+
+  beforeEach(() => {
+    executor = new RecordingExecutor()
+    now = 1_000
+  })
+
+  function buildGateway(ttlMs = 60_000): GiteaMemberAccessGateway {
+    return new GiteaMemberAccessGateway(executor.run, { ttlMs, clock })
+  }
+
+  it('queries the collaborator permission endpoint of the target repository', async () => {
+    executor.onMatch('collaborators/alice/permission', permissionResponse('write'))
+
+    await buildGateway().resolve('side-projects/notes', 'alice')
+
+    expect(executor.commands[0]).toContain('repos/side-projects/notes/collaborators/alice/permission')
+    expect(executor.commands[0]).toContain('--netrc')
+  })
+
+  it.each([
+    ['read', MEMBER_ACCESS_LEVELS.reporter],
+    ['write', MEMBER_ACCESS_LEVELS.developer],
+    ['admin', MEMBER_ACCESS_LEVELS.maintainer],
+    ['owner', MEMBER_ACCESS_LEVELS.owner],
+  ])('maps the %s permission onto the member access scale', async (permission, expected) => {
+    executor.onMatch('collaborators/alice/permission', permissionResponse(permission))
+
+    expect(await buildGateway().resolve('side-projects/notes', 'alice')).toBe(expected)
+  })
+
+  it('returns null for the none permission', async () => {
+    executor.onMatch('collaborators/alice/permission', permissionResponse('none'))
+
+    expect(await buildGateway().resolve('side-projects/notes', 'alice')).toBeNull()
+  })
+
+  it('returns null when the lookup throws (unknown user, fail-closed)', async () => {
+    executor.failOnMatch('collaborators/mallory/permission')
+
+    expect(await buildGateway().resolve('side-projects/notes', 'mallory')).toBeNull()
+  })
+
+  it('does not apply a cached result for one username to another (AC5)', async () => {
+    executor.onMatch('collaborators/alice/permission', permissionResponse('owner'))
+    executor.failOnMatch('collaborators/mallory/permission')
+
+    const gateway = buildGateway()
+    await gateway.resolve('side-projects/notes', 'alice')
+    await gateway.resolve('side-projects/notes', 'alice')
+
+    expect(executor.commands).toHaveLength(1)
+    expect(await gateway.resolve('side-projects/notes', 'mallory')).toBeNull()
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GitHubMemberAccessCliGateway } from '@/modules/platform-integration/interface-adapters/gateways/memberAccess.github.cli.gateway.js';
+import { MEMBER_ACCESS_LEVELS } from '@/modules/platform-integration/entities/memberAccess/memberAccess.js';
+
+class RecordingExecutor {
+  public readonly commands: string[] = [];
+  private responses = new Map<string, string>();
+  private failures = new Set<string>();
+
+  onMatch(fragment: string, response: string): void {
+    this.responses.set(fragment, response);
+  }
+
+  failOnMatch(fragment: string): void {
+    this.failures.add(fragment);
+  }
+
+  run = (command: string): string => {
+    this.commands.push(command);
+    for (const fragment of this.failures) {
+      if (command.includes(fragment)) {
+        throw new Error(`gh failed for ${fragment}`);
+      }
+    }
+    for (const [fragment, response] of this.responses) {
+      if (command.includes(fragment)) {
+        return response;
+      }
+    }
+    throw new Error(`No stubbed response for command: ${command}`);
+  };
+}
+
+function permissionResponse(permission: string, roleName?: string): string {
+  return JSON.stringify({ permission, role_name: roleName, user: { login: 'alice' } });
+}
+
+describe('GitHubMemberAccessCliGateway', () => {
+  let executor: RecordingExecutor;
+  let now: number;
+  const clock = (): number => now;
+
+  beforeEach(() => {
+    executor = new RecordingExecutor();
+    now = 1_000;
+  });
+
+  function buildGateway(ttlMs = 60_000): GitHubMemberAccessCliGateway {
+    return new GitHubMemberAccessCliGateway(executor.run, { ttlMs, clock });
+  }
+
+  it('queries the collaborator permission endpoint of the target repository', async () => {
+    executor.onMatch('collaborators/alice/permission', permissionResponse('write', 'write'));
+
+    await buildGateway().resolve('octo-org/api', 'alice');
+
+    expect(executor.commands).toEqual(['gh api repos/octo-org/api/collaborators/alice/permission']);
+  });
+
+  it.each([
+    ['read', MEMBER_ACCESS_LEVELS.reporter],
+    ['triage', MEMBER_ACCESS_LEVELS.reporter],
+    ['write', MEMBER_ACCESS_LEVELS.developer],
+    ['maintain', MEMBER_ACCESS_LEVELS.maintainer],
+    ['admin', MEMBER_ACCESS_LEVELS.owner],
+  ])('maps the %s role onto the member access scale', async (roleName, expected) => {
+    const legacyPermission = roleName === 'triage' ? 'read' : roleName === 'maintain' ? 'write' : roleName;
+    executor.onMatch('collaborators/alice/permission', permissionResponse(legacyPermission, roleName));
+
+    const accessLevel = await buildGateway().resolve('octo-org/api', 'alice');
+
+    expect(accessLevel).toBe(expected);
+  });
+
+  it('falls back to the legacy permission for custom organisation roles', async () => {
+    executor.onMatch('collaborators/alice/permission', permissionResponse('write', 'security-reviewer'));
+
+    const accessLevel = await buildGateway().resolve('octo-org/api', 'alice');
+
+    expect(accessLevel).toBe(MEMBER_ACCESS_LEVELS.developer);
+  });
+
+  it('returns null for the none permission', async () => {
+    executor.onMatch('collaborators/alice/permission', permissionResponse('none'));
+
+    const accessLevel = await buildGateway().resolve('octo-org/api', 'alice');
+
+    expect(accessLevel).toBeNull();
+  });
+
+  it('returns null when the lookup throws (non-collaborator 404, fail-closed)', async () => {
+    executor.failOnMatch('collaborators/mallory/permission');
+
+    const accessLevel = await buildGateway().resolve('octo-org/api', 'mallory');
+
+    expect(accessLevel).toBeNull();
+  });
+
+  it('returns null when the response does not match the expected shape', async () => {
+    executor.onMatch('collaborators/alice/permission', JSON.stringify({ message: 'Not Found' }));
+
+    const accessLevel = await buildGateway().resolve('octo-org/api', 'alice');
+
+    expect(accessLevel).toBeNull();
+  });
+
+  it('caches per username and does not re-query within the TTL', async () => {
+    executor.onMatch('collaborators/alice/permission', permissionResponse('admin', 'admin'));
+
+    const gateway = buildGateway();
+    await gateway.resolve('octo-org/api', 'alice');
+    await gateway.resolve('octo-org/api', 'alice');
+
+    expect(executor.commands).toHaveLength(1);
+  });
+
+  it('does not apply a cached result for one username to another (AC5)', async () => {
+    executor.onMatch('collaborators/alice/permission', permissionResponse('admin', 'admin'));
+    executor.failOnMatch('collaborators/mallory/permission');
+
+    const gateway = buildGateway();
+    await gateway.resolve('octo-org/api', 'alice');
+    const mallory = await gateway.resolve('octo-org/api', 'mallory');
+
+    expect(mallory).toBeNull();
+  });
+
+  it('re-queries after the TTL expires', async () => {
+    executor.onMatch('collaborators/alice/permission', permissionResponse('write', 'write'));
+
+    const gateway = buildGateway(1_000);
+    await gateway.resolve('octo-org/api', 'alice');
+    now += 2_000;
+    await gateway.resolve('octo-org/api', 'alice');
+
+    expect(executor.commands).toHaveLength(2);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import Fastify from 'fastify';
+import { idempotencyRoutes } from '@/modules/platform-integration/interface-adapters/controllers/http/idempotency.routes.js';
+import { InMemoryIdempotencyStore } from '@/modules/platform-integration/interface-adapters/gateways/inMemoryIdempotencyStore.gateway.js';
+
+async function buildApp(store: InMemoryIdempotencyStore) {
+  const app = Fastify();
+  await app.register(idempotencyRoutes, { idempotencyStore: store, retentionMs: 86_400_000 });
+  return app;
+}
+
+describe('idempotencyRoutes', () => {
+  describe('GET /api/idempotency', () => {
+    it('returns the retention window and recent keys with hit counts', async () => {
+      const store = new InMemoryIdempotencyStore({ ttlMs: 86_400_000, clock: () => Date.parse('2026-06-01T10:00:00.000Z') });
+      await store.recordIfAbsent('uuid-1');
+      await store.recordIfAbsent('uuid-1');
+      const app = await buildApp(store);
+
+      const response = await app.inject({ method: 'GET', url: '/api/idempotency' });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({
+        retentionMs: 86_400_000,
+        keys: [
+          {
+            eventKey: 'uuid-1',
+            recordedAt: '2026-06-01T10:00:00.000Z',
+            expiresAt: '2026-06-02T10:00:00.000Z',
+            hits: 1,
+          },
+        ],
+      });
+    });
+
+    it('honours the limit query parameter', async () => {
+      let now = 0;
+      const store = new InMemoryIdempotencyStore({ ttlMs: 1_000_000, clock: () => now });
+      for (const key of ['a', 'b', 'c']) {
+        await store.recordIfAbsent(key);
+        now += 1;
+      }
+      const app = await buildApp(store);
+
+      const response = await app.inject({ method: 'GET', url: '/api/idempotency?limit=2' });
+
+      expect(response.json().keys.map((key: { eventKey: string }) => key.eventKey)).toEqual(['c', 'b']);
+    });
+
+    it.each(['0', '501', 'abc'])('rejects limit=%s with 400', async (limit) => {
+      const app = await buildApp(new InMemoryIdempotencyStore({ ttlMs: 1000 }));
+
+      const response = await app.inject({ method: 'GET', url: `/api/idempotency?limit=${limit}` });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+});
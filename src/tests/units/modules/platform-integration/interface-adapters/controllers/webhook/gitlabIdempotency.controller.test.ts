@@ -127,6 +127,8 @@ function createStubContextGateway() {
     appendAction: vi.fn(() => ({ success: true })),
     updateProgress: vi.fn(() => ({ success: true })),
     setResult: vi.fn(() => ({ success: true })),
+    appendFinding: vi.fn(() => ({ success: true })),
+    submitResult: vi.fn(() => ({ success: true })),
     listAll: vi.fn(() => []),
   };
 }
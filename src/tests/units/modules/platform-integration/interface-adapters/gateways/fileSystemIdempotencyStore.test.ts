@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFileSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileSystemIdempotencyStore } from '@/modules/platform-integration/interface-adapters/gateways/fileSystemIdempotencyStore.gateway.js';
+
+function createClock(start: number): { now: () => number; advance: (ms: number) => void } {
+  let current = start;
+  return {
+    now: () => current,
+    advance: (ms: number) => {
+      current += ms;
+    },
+  };
+}
+
+function readLogLines(filePath: string): Array<Record<string, unknown>> {
+  return readFileSync(filePath, 'utf-8')
+    .split('\n')
+    .filter((line) => line !== '')
+    .map((line) => JSON.parse(line));
+}
+
+describe('FileSystemIdempotencyStore', () => {
+  let rootDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(join(tmpdir(), 'reviewflow-idempotency-'));
+    filePath = join(rootDir, 'nested', 'idempotency.log');
+  });
+
+  afterEach(() => {
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('accepts a new key once and rejects the immediate duplicate', async () => {
+    const store = new FileSystemIdempotencyStore({ ttlMs: 1000, filePath, clock: () => 0 });
+
+    const first = await store.recordIfAbsent('event-1');
+    const second = await store.recordIfAbsent('event-1');
+
+    expect(first).toBe(true);
+    expect(second).toBe(false);
+  });
+
+  it('appends one record line and one hit line to the log', async () => {
+    const store = new FileSystemIdempotencyStore({ ttlMs: 1000, filePath, clock: () => 5 });
+
+    await store.recordIfAbsent('event-1');
+    await store.recordIfAbsent('event-1');
+
+    expect(readLogLines(filePath)).toEqual([
+      { type: 'record', eventKey: 'event-1', recordedAt: 5, expiresAt: 1005 },
+      { type: 'hit', eventKey: 'event-1', at: 5 },
+    ]);
+  });
+
+  it('still rejects a duplicate after a restart inside the retention window', async () => {
+    const clock = createClock(0);
+    const beforeRestart = new FileSystemIdempotencyStore({ ttlMs: 1000, filePath, clock: clock.now });
+    await beforeRestart.recordIfAbsent('event-1');
+
+    clock.advance(500);
+    const afterRestart = new FileSystemIdempotencyStore({ ttlMs: 1000, filePath, clock: clock.now });
+    const replayed = await afterRestart.recordIfAbsent('event-1');
+
+    expect(replayed).toBe(false);
+  });
+
+  it('re-accepts a key after a restart past the retention window', async () => {
+    const clock = createClock(0);
+    const beforeRestart = new FileSystemIdempotencyStore({ ttlMs: 1000, filePath, clock: clock.now });
+    await beforeRestart.recordIfAbsent('event-1');
+
+    clock.advance(1001);
+    const afterRestart = new FileSystemIdempotencyStore({ ttlMs: 1000, filePath, clock: clock.now });
+
+    expect(await afterRestart.recordIfAbsent('event-1')).toBe(true);
+  });
+
+  it('restores hit counts from the log', async () => {
+    const first = new FileSystemIdempotencyStore({ ttlMs: 1000, filePath, clock: () => 0 });
+    await first.recordIfAbsent('event-1');
+    await first.recordIfAbsent('event-1');
+    await first.recordIfAbsent('event-1');
+
+    const restarted = new FileSystemIdempotencyStore({ ttlMs: 1000, filePath, clock: () => 10 });
+
+    expect(await restarted.listRecent(10)).toEqual([
+      { eventKey: 'event-1', recordedAt: 0, expiresAt: 1000, hits: 2 },
+    ]);
+  });
+
+  it('compacts expired keys and hit lines away when the log is replayed', async () => {
+    const clock = createClock(0);
+    const first = new FileSystemIdempotencyStore({ ttlMs: 1000, filePath, clock: clock.now });
+    await first.recordIfAbsent('old');
+    await first.recordIfAbsent('old');
+    clock.advance(600);
+    await first.recordIfAbsent('fresh');
+    await first.recordIfAbsent('fresh');
+
+    clock.advance(500);
+    const restarted = new FileSystemIdempotencyStore({ ttlMs: 1000, filePath, clock: clock.now });
+    await restarted.listRecent(10);
+
+    expect(readLogLines(filePath)).toEqual([
+      { type: 'record', eventKey: 'fresh', recordedAt: 600, expiresAt: 1600, hits: 1 },
+    ]);
+  });
+
+  it('compacts while running once the log outgrows the live keys', async () => {
+    const clock = createClock(0);
+    const store = new FileSystemIdempotencyStore({
+      ttlMs: 10,
+      filePath,
+      clock: clock.now,
+      compactionThreshold: 4,
+    });
+
+    for (const key of ['a', 'b', 'c', 'd']) {
+      await store.recordIfAbsent(key);
+      clock.advance(20);
+    }
+
+    expect(readLogLines(filePath)).toEqual([
+      { type: 'record', eventKey: 'd', recordedAt: 60, expiresAt: 70, hits: 0 },
+    ]);
+  });
+
+  it('skips torn or malformed lines instead of failing', async () => {
+    const logPath = join(rootDir, 'idempotency.log');
+    writeFileSync(
+      logPath,
+      `${JSON.stringify({ type: 'record', eventKey: 'event-1', recordedAt: 0, expiresAt: 1000 })}\n`,
+    );
+    appendFileSync(logPath, 'not json\n{"type":"record","eventKey":');
+    const store = new FileSystemIdempotencyStore({ ttlMs: 1000, filePath: logPath, clock: () => 10 });
+
+    expect(await store.recordIfAbsent('event-1')).toBe(false);
+    expect(await store.recordIfAbsent('event-2')).toBe(true);
+  });
+
+  it('lists live keys most recent first, capped at the limit', async () => {
+    const clock = createClock(0);
+    const store = new FileSystemIdempotencyStore({ ttlMs: 1000, filePath, clock: clock.now });
+    await store.recordIfAbsent('event-1');
+    clock.advance(1);
+    await store.recordIfAbsent('event-2');
+    clock.advance(1);
+    await store.recordIfAbsent('event-3');
+
+    const recent = await store.listRecent(2);
+
+    expect(recent.map((entry) => entry.eventKey)).toEqual(['event-3', 'event-2']);
+  });
+});
@@ -60,4 +60,19 @@ describe('InMemoryIdempotencyStore', () => {
 
     expect(afterWindow).toBe(true);
   });
+
+  it('lists live keys most recent first with their duplicate hit counts', async () => {
+    const clock = createClock(0);
+    const store = new InMemoryIdempotencyStore({ ttlMs: 1000, clock: clock.now });
+
+    await store.recordIfAbsent('event-1');
+    clock.advance(10);
+    await store.recordIfAbsent('event-2');
+    await store.recordIfAbsent('event-1');
+
+    expect(await store.listRecent(10)).toEqual([
+      { eventKey: 'event-2', recordedAt: 10, expiresAt: 1010, hits: 0 },
+      { eventKey: 'event-1', recordedAt: 0, expiresAt: 1000, hits: 1 },
+    ]);
+  });
 });
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  cancelReviewflowJobs,
+  describeQueuedReviewflowCommand,
+  recordReviewflowPreference,
+  startDeferredReviewflowJobs,
+  type ReviewflowCommandTarget,
+} from '@/modules/platform-integration/services/reviewflowCommandRouter.js';
+import { RecordReviewPreferenceUseCase } from '@/modules/tracking/usecases/tracking/recordReviewPreference.usecase.js';
+import { StubReviewQueuePort } from '@/tests/stubs/reviewQueue.stub.js';
+import { InMemoryReviewRequestTrackingGateway } from '@/tests/stubs/reviewRequestTracking.stub.js';
+import { createStubLogger } from '@/tests/stubs/logger.stub.js';
+import { TrackedMrFactory } from '@/tests/factories/trackedMr.factory.js';
+
+const TARGET: ReviewflowCommandTarget = {
+  platform: 'gitlab',
+  projectPath: 'group/project',
+  localPath: '/repos/project',
+  mrNumber: 7,
+};
+const now = (): string => '2026-06-02T09:00:00.000Z';
+
+describe('cancelReviewflowJobs', () => {
+  let queuePort: StubReviewQueuePort;
+
+  beforeEach(() => {
+    queuePort = new StubReviewQueuePort();
+  });
+
+  it('cancels the running followup of the merge request', () => {
+    queuePort.addActiveJob('gitlab-followup:group/project:7');
+
+    const outcome = cancelReviewflowJobs(TARGET, 'alice', { queuePort, logger: createStubLogger() });
+
+    expect(outcome).toEqual({ status: 'cancelled', acknowledgement: 'Review cancelled by @alice.' });
+    expect(queuePort.cancelledJobs).toEqual(['gitlab-followup:group/project:7']);
+  });
+
+  it('reports that nothing was cancelled when no job is queued or running', () => {
+    queuePort.setJobStatus('gitlab:group/project:7', 'completed');
+
+    const outcome = cancelReviewflowJobs(TARGET, 'alice', { queuePort, logger: createStubLogger() });
+
+    expect(outcome.status).toBe('nothing-to-cancel');
+    expect(queuePort.cancelledJobs).toEqual([]);
+  });
+});
+
+describe('startDeferredReviewflowJobs', () => {
+  let queuePort: StubReviewQueuePort;
+
+  beforeEach(() => {
+    queuePort = new StubReviewQueuePort();
+  });
+
+  it('starts the review held until the next review window', () => {
+    queuePort.addDeferredJob('gitlab:group/project:7');
+
+    const outcome = startDeferredReviewflowJobs(TARGET, 'alice', { queuePort, logger: createStubLogger() });
+
+    expect(outcome).toEqual({
+      status: 'started',
+      acknowledgement: 'Review started outside the review window by @alice.',
+    });
+    expect(queuePort.startedDeferredJobs).toEqual(['gitlab:group/project:7']);
+  });
+
+  it('reports that nothing is deferred when the queued review may already run', () => {
+    queuePort.setJobStatus('gitlab:group/project:7', 'queued');
+
+    const outcome = startDeferredReviewflowJobs(TARGET, 'alice', { queuePort, logger: createStubLogger() });
+
+    expect(outcome.status).toBe('nothing-deferred');
+    expect(queuePort.startedDeferredJobs).toEqual([]);
+  });
+});
+
+describe('recordReviewflowPreference', () => {
+  it('records the preference on the tracked merge request', () => {
+    const trackingGateway = new InMemoryReviewRequestTrackingGateway();
+    trackingGateway.create(TARGET.localPath, TrackedMrFactory.create({ id: 'gitlab-group/project-7', mrNumber: 7 }));
+
+    const outcome = recordReviewflowPreference({ name: 'model', model: 'opus' }, TARGET, 'alice', {
+      recordReviewPreference: new RecordReviewPreferenceUseCase(trackingGateway),
+      now,
+    });
+
+    expect(outcome).toEqual({
+      status: 'preference-recorded',
+      acknowledgement: 'Next reviews will use the **opus** model (set by @alice).',
+    });
+    expect(trackingGateway.getById(TARGET.localPath, 'gitlab-group/project-7')?.preferences?.model).toBe('opus');
+  });
+
+  it('asks for a first review when the merge request is not tracked', () => {
+    const outcome = recordReviewflowPreference({ name: 'focus', focus: 'security' }, TARGET, 'alice', {
+      recordReviewPreference: new RecordReviewPreferenceUseCase(new InMemoryReviewRequestTrackingGateway()),
+      now,
+    });
+
+    expect(outcome.status).toBe('not-tracked');
+  });
+
+  it('reports the command as unavailable when preferences are not wired', () => {
+    const outcome = recordReviewflowPreference({ name: 'focus', focus: 'security' }, TARGET, 'alice', { now });
+
+    expect(outcome.status).toBe('unsupported');
+  });
+});
+
+describe('describeQueuedReviewflowCommand', () => {
+  it('names the requester and the thread to explain', () => {
+    expect(describeQueuedReviewflowCommand({ name: 'review' }, 'alice')).toBe('Review requested by @alice.');
+    expect(describeQueuedReviewflowCommand({ name: 'explain', threadId: 'abc' }, 'alice')).toBe(
+      'Explanation of thread `abc` requested by @alice.',
+    );
+  });
+});
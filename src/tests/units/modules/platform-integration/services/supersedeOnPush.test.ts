@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { supersedeStaleReviews } from '@/modules/platform-integration/services/supersedeOnPush.js';
+import type { ReviewflowCommandTarget } from '@/modules/platform-integration/services/reviewflowCommandRouter.js';
+import { RecordSupersessionUseCase } from '@/modules/tracking/usecases/tracking/recordSupersession.usecase.js';
+import { StubReviewQueuePort } from '@/tests/stubs/reviewQueue.stub.js';
+import { StubReviewContextGateway } from '@/tests/stubs/reviewContextGateway.stub.js';
+import { InMemoryReviewRequestTrackingGateway } from '@/tests/stubs/reviewRequestTracking.stub.js';
+import { createStubLogger } from '@/tests/stubs/logger.stub.js';
+import { ReviewContextFactory } from '@/tests/factories/reviewContext.factory.js';
+import { ReviewJobFactory } from '@/tests/factories/reviewJob.factory.js';
+import { TrackedMrFactory } from '@/tests/factories/trackedMr.factory.js';
+
+const TARGET: ReviewflowCommandTarget = {
+  platform: 'gitlab',
+  projectPath: 'group/project',
+  localPath: '/repos/project',
+  mrNumber: 7,
+};
+const MR_ID = 'gitlab-group/project-7';
+const now = (): string => '2026-06-02T09:00:00.000Z';
+
+describe('supersedeStaleReviews', () => {
+  let queuePort: StubReviewQueuePort;
+  let reviewContextGateway: StubReviewContextGateway;
+  let trackingGateway: InMemoryReviewRequestTrackingGateway;
+
+  beforeEach(() => {
+    queuePort = new StubReviewQueuePort();
+    reviewContextGateway = new StubReviewContextGateway();
+    trackingGateway = new InMemoryReviewRequestTrackingGateway();
+    trackingGateway.create(TARGET.localPath, TrackedMrFactory.create({ id: MR_ID }));
+  });
+
+  function supersede(headSha: string) {
+    return supersedeStaleReviews(TARGET, headSha, {
+      queuePort,
+      reviewContextGateway,
+      recordSupersession: new RecordSupersessionUseCase(trackingGateway),
+      now,
+      logger: createStubLogger(),
+    });
+  }
+
+  it('cancels the stale review, drops its unpublished actions and records the supersession', async () => {
+    const staleJob = ReviewJobFactory.create({ id: 'gitlab:group/project:7', headSha: 'old-sha' });
+    queuePort.addRunningJob(staleJob);
+    reviewContextGateway.setContext(
+      MR_ID,
+      ReviewContextFactory.create({
+        mergeRequestId: MR_ID,
+        actions: [{ type: 'POST_COMMENT', body: 'stale finding' }],
+      }),
+    );
+
+    const superseded = supersede('new-sha');
+
+    expect(superseded).toEqual([staleJob]);
+    expect(queuePort.supersededJobs).toEqual(['gitlab:group/project:7']);
+    await vi.waitFor(() => expect(reviewContextGateway.exists(TARGET.localPath, MR_ID)).toBe(false));
+    expect(trackingGateway.getById(TARGET.localPath, MR_ID)?.supersessions).toEqual([
+      { type: 'review', supersededHeadSha: 'old-sha', headSha: 'new-sha', supersededAt: '2026-06-02T09:00:00.000Z' },
+    ]);
+  });
+
+  it('drops the actions only once the stale job has stopped', async () => {
+    queuePort.addRunningJob(ReviewJobFactory.create({ id: 'gitlab:group/project:7', headSha: 'old-sha' }));
+    queuePort.holdJob('gitlab:group/project:7');
+    reviewContextGateway.setContext(MR_ID, ReviewContextFactory.create({ mergeRequestId: MR_ID }));
+
+    supersede('new-sha');
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(reviewContextGateway.exists(TARGET.localPath, MR_ID)).toBe(true);
+    queuePort.settleJob('gitlab:group/project:7');
+    await vi.waitFor(() => expect(reviewContextGateway.exists(TARGET.localPath, MR_ID)).toBe(false));
+  });
+
+  it('checks the followup job of the merge request too', () => {
+    queuePort.addRunningJob(ReviewJobFactory.createFollowup({ id: 'gitlab-followup:group/project:7' }));
+
+    const superseded = supersede('new-sha');
+
+    expect(superseded.map((job) => job.id)).toEqual(['gitlab-followup:group/project:7']);
+    expect(trackingGateway.getById(TARGET.localPath, MR_ID)?.supersessions?.[0].type).toBe('followup');
+  });
+
+  it('keeps the review context when nothing was superseded', () => {
+    queuePort.addRunningJob(ReviewJobFactory.create({ id: 'gitlab:group/project:7', headSha: 'new-sha' }));
+    reviewContextGateway.setContext(MR_ID, ReviewContextFactory.create({ mergeRequestId: MR_ID }));
+
+    expect(supersede('new-sha')).toEqual([]);
+    expect(reviewContextGateway.exists(TARGET.localPath, MR_ID)).toBe(true);
+    expect(trackingGateway.getById(TARGET.localPath, MR_ID)?.supersessions).toBeUndefined();
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TRIGGER_RULES,
+  type TriggerRules,
+  triggerRulesSchema,
+} from '@/modules/platform-integration/entities/triggerRules/triggerRules.schema.js';
+import {
+  evaluateTriggerRules,
+  fetchMergeRequestAuthor,
+  findTriggerCommand,
+  isSkippedDraft,
+  lazyChangedFiles,
+  matchesTriggerLabel,
+} from '@/modules/platform-integration/services/triggerRuleEngine.js';
+import type { ChangedFilesFetchGateway } from '@/modules/platform-integration/entities/changedFiles/changedFilesFetch.gateway.js';
+import type { MergeRequestMetadataFetchGateway } from '@/modules/platform-integration/entities/mergeRequestMetadata/mergeRequestMetadata.gateway.js';
+
+function rules(overrides: Record<string, unknown>): TriggerRules {
+  return triggerRulesSchema.parse(overrides);
+}
+
+const silentLogger = { warn: () => {} };
+
+describe('evaluateTriggerRules', () => {
+  it('allows any merge request under the default rules except drafts', () => {
+    expect(evaluateTriggerRules(DEFAULT_TRIGGER_RULES, { targetBranch: 'main', author: 'alice' })).toEqual({
+      allowed: true,
+    });
+    expect(evaluateTriggerRules(DEFAULT_TRIGGER_RULES, { targetBranch: 'main', draft: true })).toEqual({
+      allowed: false,
+      reason: 'Merge request is a draft',
+    });
+  });
+
+  it('reviews drafts when skipDrafts is disabled', () => {
+    const decision = evaluateTriggerRules(rules({ skipDrafts: false }), { targetBranch: 'main', draft: true });
+
+    expect(decision.allowed).toBe(true);
+  });
+
+  it('rejects a target branch outside the configured globs', () => {
+    const branchRules = rules({ targetBranches: ['main', 'release/*'] });
+
+    expect(evaluateTriggerRules(branchRules, { targetBranch: 'release/2.0' }).allowed).toBe(true);
+    expect(evaluateTriggerRules(branchRules, { targetBranch: 'feature/x' })).toEqual({
+      allowed: false,
+      reason: 'Target branch "feature/x" does not match trigger rules',
+    });
+  });
+
+  it('lets the deny list win over the allow list', () => {
+    const authorRules = rules({ authors: { allow: ['*'], deny: ['renovate*'] } });
+
+    expect(evaluateTriggerRules(authorRules, { targetBranch: 'main', author: 'renovate[bot]' })).toEqual({
+      allowed: false,
+      reason: 'Author "renovate[bot]" is denied by trigger rules',
+    });
+  });
+
+  it('rejects authors missing from a non-empty allow list', () => {
+    const authorRules = rules({ authors: { allow: ['alice'] } });
+
+    expect(evaluateTriggerRules(authorRules, { targetBranch: 'main', author: 'bob' })).toEqual({
+      allowed: false,
+      reason: 'Author "bob" is not allowed by trigger rules',
+    });
+  });
+
+  it('skips author rules when the author is unknown', () => {
+    const authorRules = rules({ authors: { allow: ['alice'] } });
+
+    expect(evaluateTriggerRules(authorRules, { targetBranch: 'main' }).allowed).toBe(true);
+  });
+
+  it('refuses a review whose author could not be resolved when author rules are set', () => {
+    expect(evaluateTriggerRules(rules({ authors: { deny: ['renovate*'] } }), { targetBranch: 'main', author: null })).toEqual({
+      allowed: false,
+      reason: 'Author could not be resolved for trigger rules',
+    });
+    expect(evaluateTriggerRules(rules({}), { targetBranch: 'main', author: null }).allowed).toBe(true);
+  });
+
+  it('requires one changed file to match the path globs', () => {
+    const pathRules = rules({ paths: ['src/**'] });
+
+    expect(
+      evaluateTriggerRules(pathRules, { targetBranch: 'main', changedFiles: () => ['docs/a.md', 'src/b.ts'] }).allowed,
+    ).toBe(true);
+    expect(evaluateTriggerRules(pathRules, { targetBranch: 'main', changedFiles: () => ['docs/a.md'] })).toEqual({
+      allowed: false,
+      reason: 'No changed file matches trigger paths',
+    });
+  });
+
+  it('never lists changed files when no path rule is set', () => {
+    let fetched = false;
+    evaluateTriggerRules(DEFAULT_TRIGGER_RULES, {
+      targetBranch: 'main',
+      changedFiles: () => {
+        fetched = true;
+        return [];
+      },
+    });
+
+    expect(fetched).toBe(false);
+  });
+
+  it('falls open when the changed files are unknown', () => {
+    const pathRules = rules({ paths: ['src/**'] });
+
+    expect(evaluateTriggerRules(pathRules, { targetBranch: 'main', changedFiles: () => null }).allowed).toBe(true);
+  });
+});
+
+describe('lazyChangedFiles', () => {
+  it('returns the gateway listing', () => {
+    const gateway: ChangedFilesFetchGateway = { fetchChangedFiles: () => ['src/a.ts'] };
+
+    expect(lazyChangedFiles(gateway, 'group/project', 1, silentLogger)()).toEqual(['src/a.ts']);
+  });
+
+  it('returns null without a gateway or when the fetch fails', () => {
+    const failing: ChangedFilesFetchGateway = {
+      fetchChangedFiles: () => {
+        throw new Error('glab failed');
+      },
+    };
+
+    expect(lazyChangedFiles(undefined, 'group/project', 1, silentLogger)()).toBeNull();
+    expect(lazyChangedFiles(failing, 'group/project', 1, silentLogger)()).toBeNull();
+  });
+});
+
+describe('fetchMergeRequestAuthor', () => {
+  it('returns the author of the merge request metadata', () => {
+    const gateway: MergeRequestMetadataFetchGateway = {
+      fetchMergeRequestMetadata: () => ({
+        title: 'Add offline mode',
+        description: '',
+        author: 'alice',
+        sourceBranch: 'feature/offline',
+        targetBranch: 'main',
+        labels: [],
+        linkedIssues: [],
+        webUrl: null,
+      }),
+    };
+
+    expect(fetchMergeRequestAuthor(gateway, 'group/project', 1, silentLogger)).toBe('alice');
+  });
+
+  it('returns null without a gateway or when the fetch fails', () => {
+    const failing: MergeRequestMetadataFetchGateway = {
+      fetchMergeRequestMetadata: () => {
+        throw new Error('glab failed');
+      },
+    };
+
+    expect(fetchMergeRequestAuthor(undefined, 'group/project', 1, silentLogger)).toBeNull();
+    expect(fetchMergeRequestAuthor(failing, 'group/project', 1, silentLogger)).toBeNull();
+  });
+});
+
+describe('findTriggerCommand', () => {
+  const commandRules = rules({ commands: ['/review', '/ai-review'] });
+
+  it('finds a command opening any line of the comment', () => {
+    expect(findTriggerCommand(commandRules, 'Ready now.\n/review please')).toBe('/review');
+    expect(findTriggerCommand(commandRules, '  /ai-review  ')).toBe('/ai-review');
+  });
+
+  it('ignores commands that are only a prefix of a word or appear mid-line', () => {
+    expect(findTriggerCommand(commandRules, '/reviewed already')).toBeNull();
+    expect(findTriggerCommand(commandRules, 'please run /review')).toBeNull();
+  });
+
+  it('finds nothing when no command is configured', () => {
+    expect(findTriggerCommand(DEFAULT_TRIGGER_RULES, '/review')).toBeNull();
+  });
+});
+
+describe('label and draft helpers', () => {
+  it('matches only configured labels', () => {
+    const labelRules = rules({ labels: ['ai-review', 'needs-review'] });
+
+    expect(matchesTriggerLabel(labelRules, 'ai-review')).toBe(true);
+    expect(matchesTriggerLabel(labelRules, 'bug')).toBe(false);
+    expect(matchesTriggerLabel(labelRules, undefined)).toBe(false);
+  });
+
+  it('skips drafts only when skipDrafts is on', () => {
+    expect(isSkippedDraft(DEFAULT_TRIGGER_RULES, true)).toBe(true);
+    expect(isSkippedDraft(rules({ skipDrafts: false }), true)).toBe(false);
+    expect(isSkippedDraft(DEFAULT_TRIGGER_RULES, undefined)).toBe(false);
+  });
+});
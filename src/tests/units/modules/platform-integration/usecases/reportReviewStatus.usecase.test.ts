@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ReportReviewStatusUseCase } from '@/modules/platform-integration/usecases/reportReviewStatus.usecase.js';
+import type {
+  CommitStatusGateway,
+  CommitStatusInput,
+} from '@/modules/platform-integration/entities/commitStatus/commitStatus.gateway.js';
+import type { DiffMetadataFetchGateway } from '@/modules/platform-integration/entities/diffMetadata/diffMetadata.gateway.js';
+import type { JobStatus } from '@/frameworks/queue/pQueueAdapter.js';
+import { InMemoryReviewRequestTrackingGateway } from '@/tests/stubs/reviewRequestTracking.stub.js';
+import { createStubLogger } from '@/tests/stubs/logger.stub.js';
+import { ReviewJobFactory } from '@/tests/factories/reviewJob.factory.js';
+import { TrackedMrFactory } from '@/tests/factories/trackedMr.factory.js';
+
+class RecordingCommitStatusGateway implements CommitStatusGateway {
+  public readonly published: CommitStatusInput[] = [];
+  private error: Error | null = null;
+
+  setError(error: Error): void {
+    this.error = error;
+  }
+
+  async publish(input: CommitStatusInput): Promise<void> {
+    if (this.error) throw this.error;
+    this.published.push(input);
+  }
+}
+
+class CountingDiffMetadataGateway implements DiffMetadataFetchGateway {
+  public calls = 0;
+
+  fetchDiffMetadata() {
+    this.calls += 1;
+    return { baseSha: 'base', headSha: `head-${this.calls}`, startSha: 'start' };
+  }
+}
+
+const JOB = ReviewJobFactory.createGitHub();
+const STARTED_AT = new Date('2026-06-02T09:00:00.000Z');
+
+describe('ReportReviewStatusUseCase', () => {
+  let commitStatusGateway: RecordingCommitStatusGateway;
+  let diffMetadataGateway: CountingDiffMetadataGateway;
+  let trackingGateway: InMemoryReviewRequestTrackingGateway;
+  let enabled: boolean;
+  let useCase: ReportReviewStatusUseCase;
+
+  beforeEach(() => {
+    commitStatusGateway = new RecordingCommitStatusGateway();
+    diffMetadataGateway = new CountingDiffMetadataGateway();
+    trackingGateway = new InMemoryReviewRequestTrackingGateway();
+    enabled = true;
+    useCase = new ReportReviewStatusUseCase({
+      commitStatusGatewayFor: (platform) => (platform === 'github' ? commitStatusGateway : null),
+      diffMetadataFetchGatewayFor: () => diffMetadataGateway,
+      trackingGateway,
+      isEnabled: () => enabled,
+      getQualityThreshold: () => null,
+      dashboardUrl: 'https://reviewflow.example.com',
+      logger: createStubLogger(),
+    });
+  });
+
+  it('reports every state of the job on the head commit resolved when it was queued', async () => {
+    trackingGateway.create(
+      JOB.localPath,
+      TrackedMrFactory.create({
+        id: 'github-test-owner/test-repo-123',
+        reviews: [
+          {
+            type: 'review',
+            timestamp: '2026-06-02T09:05:00.000Z',
+            durationMs: 1000,
+            score: 9,
+            blocking: 0,
+            warnings: 0,
+            suggestions: 1,
+            threadsClosed: 0,
+            threadsOpened: 1,
+            diffStats: null,
+          },
+        ],
+      }),
+    );
+
+    await useCase.execute('queued', { job: JOB, status: 'queued' });
+    await useCase.execute('running', { job: JOB, status: 'running', startedAt: STARTED_AT });
+    await useCase.execute('finished', { job: JOB, status: 'completed', startedAt: STARTED_AT });
+
+    expect(commitStatusGateway.published.map((input) => [input.sha, input.state])).toEqual([
+      ['head-1', 'pending'],
+      ['head-1', 'running'],
+      ['head-1', 'success'],
+    ]);
+    expect(commitStatusGateway.published[2]).toMatchObject({
+      projectPath: 'test-owner/test-repo',
+      title: '9/10, ready to merge',
+      targetUrl: 'https://reviewflow.example.com',
+    });
+  });
+
+  it('ignores a review recorded before the job started', async () => {
+    trackingGateway.create(
+      JOB.localPath,
+      TrackedMrFactory.create({
+        id: 'github-test-owner/test-repo-123',
+        reviews: [
+          {
+            type: 'review',
+            timestamp: '2026-06-01T09:00:00.000Z',
+            durationMs: 1000,
+            score: 9,
+            blocking: 0,
+            warnings: 0,
+            suggestions: 0,
+            threadsClosed: 0,
+            threadsOpened: 0,
+            diffStats: null,
+          },
+        ],
+      }),
+    );
+    const finished: JobStatus = { job: JOB, status: 'completed', startedAt: STARTED_AT };
+
+    await useCase.execute('finished', finished);
+
+    expect(commitStatusGateway.published[0]).toMatchObject({ state: 'failure', title: 'No review result' });
+  });
+
+  it('does nothing when the project has not opted in', async () => {
+    enabled = false;
+
+    await useCase.execute('queued', { job: JOB, status: 'queued' });
+
+    expect(commitStatusGateway.published).toEqual([]);
+    expect(diffMetadataGateway.calls).toBe(0);
+  });
+
+  it('does nothing on a platform without status reporting', async () => {
+    await useCase.execute('queued', { job: ReviewJobFactory.create({ platform: 'gitea' }), status: 'queued' });
+
+    expect(diffMetadataGateway.calls).toBe(0);
+  });
+
+  it('swallows publish failures so the review job is unaffected', async () => {
+    commitStatusGateway.setError(new Error('gh: 403'));
+
+    await expect(useCase.execute('queued', { job: JOB, status: 'queued' })).resolves.toBeUndefined();
+  });
+});
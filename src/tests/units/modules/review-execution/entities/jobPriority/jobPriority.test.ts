@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { resolveJobPriority } from '@/modules/review-execution/entities/jobPriority/jobPriority.js';
+import {
+  DEFAULT_PRIORITY_RULES,
+  priorityRulesSchema,
+} from '@/modules/review-execution/entities/jobPriority/jobPriority.schema.js';
+
+const rules = priorityRulesSchema.parse({
+  labels: { hotfix: 'urgent', chore: 'low' },
+  targetBranches: { 'release/*': 'high' },
+});
+
+describe('resolveJobPriority', () => {
+  it('keeps a job matching no rule in the normal lane', () => {
+    expect(
+      resolveJobPriority({ labels: ['docs'], targetBranch: 'main', jobType: 'review' }, DEFAULT_PRIORITY_RULES),
+    ).toBe(0);
+  });
+
+  it('uses the lane of a matching label', () => {
+    expect(resolveJobPriority({ labels: ['chore'], targetBranch: 'main', jobType: 'review' }, rules)).toBe(-100);
+  });
+
+  it('matches target branches as globs', () => {
+    expect(resolveJobPriority({ labels: [], targetBranch: 'release/2.4', jobType: 'review' }, rules)).toBe(100);
+  });
+
+  it('takes the highest lane when several rules match', () => {
+    expect(
+      resolveJobPriority({ labels: ['chore', 'hotfix'], targetBranch: 'release/2.4', jobType: 'review' }, rules),
+    ).toBe(200);
+  });
+
+  it('moves followups ahead of reviews of their lane when followupsFirst is set', () => {
+    const followupsFirst = { ...rules, followupsFirst: true };
+
+    expect(resolveJobPriority({ labels: [], targetBranch: 'main', jobType: 'followup' }, followupsFirst)).toBe(50);
+    expect(resolveJobPriority({ labels: [], targetBranch: 'main', jobType: 'followup' }, rules)).toBe(0);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  collectLinkedMergeRequests,
+  extractCrossRepoSection,
+  formatLinkedMergeRequest,
+  parseDependsOnLinks,
+  parseLinkedMergeRequestReference,
+} from '@/modules/review-execution/entities/linkedMergeRequest/linkedMergeRequest.js';
+
+describe('parseLinkedMergeRequestReference', () => {
+  it.each([
+    ['group/backend!12', { projectPath: 'group/backend', mrNumber: 12 }],
+    ['owner/api-client#7', { projectPath: 'owner/api-client', mrNumber: 7 }],
+    ['  group/sub.group/front!3 ', { projectPath: 'group/sub.group/front', mrNumber: 3 }],
+  ])('parses %s', (reference, expected) => {
+    expect(parseLinkedMergeRequestReference(reference)).toEqual(expected);
+  });
+
+  it.each(['backend!12', 'group/backend', 'group/backend!0', 'https://gitlab.com/group/backend/-/merge_requests/12'])(
+    'rejects %s',
+    (reference) => {
+      expect(parseLinkedMergeRequestReference(reference)).toBeNull();
+    },
+  );
+});
+
+describe('parseDependsOnLinks', () => {
+  it('reads every Depends on line of the description', () => {
+    const description = [
+      'Adds the invoice export.',
+      '',
+      'Depends on group/backend!12',
+      '- depends on: group/schemas!4',
+      'This depends on group/other!9 as well',
+    ].join('\n');
+
+    expect(parseDependsOnLinks(description)).toEqual([
+      { projectPath: 'group/backend', mrNumber: 12 },
+      { projectPath: 'group/schemas', mrNumber: 4 },
+    ]);
+  });
+
+  it('returns nothing without a description', () => {
+    expect(parseDependsOnLinks(undefined)).toEqual([]);
+  });
+});
+
+describe('collectLinkedMergeRequests', () => {
+  it('merges the sources without duplicates or the merge request itself', () => {
+    const self = { projectPath: 'group/front', mrNumber: 3 };
+
+    const links = collectLinkedMergeRequests(
+      self,
+      [{ projectPath: 'group/backend', mrNumber: 12 }, { projectPath: 'Group/Front', mrNumber: 3 }],
+      [{ projectPath: 'group/Backend', mrNumber: 12 }, { projectPath: 'group/schemas', mrNumber: 4 }],
+    );
+
+    expect(links).toEqual([
+      { projectPath: 'group/backend', mrNumber: 12 },
+      { projectPath: 'group/schemas', mrNumber: 4 },
+    ]);
+  });
+});
+
+describe('formatLinkedMergeRequest', () => {
+  it('uses the reference syntax of the platform', () => {
+    const link = { projectPath: 'group/backend', mrNumber: 12 };
+
+    expect(formatLinkedMergeRequest(link, 'gitlab')).toBe('group/backend!12');
+    expect(formatLinkedMergeRequest(link, 'github')).toBe('group/backend#12');
+  });
+});
+
+describe('extractCrossRepoSection', () => {
+  it('returns the section up to the next heading', () => {
+    const report = [
+      '# Review',
+      '## Cross-repository consistency',
+      '- `InvoiceDto.total` is a string in group/backend!12',
+      '### Details',
+      'The front parses it as a number.',
+      '## Summary',
+      'Two warnings.',
+    ].join('\n');
+
+    expect(extractCrossRepoSection(report)).toBe(
+      '## Cross-repository consistency\n- `InvoiceDto.total` is a string in group/backend!12\n### Details\nThe front parses it as a number.',
+    );
+  });
+
+  it('returns null when the section is missing or empty', () => {
+    expect(extractCrossRepoSection('# Review\n## Summary\nAll good.')).toBeNull();
+    expect(extractCrossRepoSection('## Cross-repository consistency\n\n## Summary')).toBeNull();
+  });
+});
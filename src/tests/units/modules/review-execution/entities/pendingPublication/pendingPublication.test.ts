@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toPendingPublicationItems,
+  toPublicationContext,
+  undecidedItemCount,
+  updatePendingPublicationItem,
+} from '@/modules/review-execution/entities/pendingPublication/pendingPublication.js';
+import { pendingPublicationGuard } from '@/modules/review-execution/entities/pendingPublication/pendingPublication.guard.js';
+import { PendingPublicationFactory } from '@/tests/factories/pendingPublication.factory.js';
+
+describe('toPendingPublicationItems', () => {
+  it('keeps only the comments, numbered in review order', () => {
+    const items = toPendingPublicationItems([
+      { type: 'FETCH_THREADS' },
+      { type: 'POST_COMMENT', body: 'Summary' },
+      { type: 'THREAD_RESOLVE', threadId: 't1' },
+      { type: 'THREAD_REPLY', threadId: 't2', message: 'Fixed?' },
+      { type: 'ADD_LABEL', label: 'reviewed' },
+    ]);
+
+    expect(items).toEqual([
+      { itemId: '1', action: { type: 'POST_COMMENT', body: 'Summary' }, decision: 'pending', edited: false },
+      { itemId: '2', action: { type: 'THREAD_REPLY', threadId: 't2', message: 'Fixed?' }, decision: 'pending', edited: false },
+    ]);
+  });
+});
+
+describe('updatePendingPublicationItem', () => {
+  it('records the decision of one item only', () => {
+    const updated = updatePendingPublicationItem(PendingPublicationFactory.create(), '2', { decision: 'dropped' });
+
+    expect(updated.items.map((item) => item.decision)).toEqual(['pending', 'dropped']);
+  });
+
+  it('replaces the body of a comment and marks it edited', () => {
+    const updated = updatePendingPublicationItem(PendingPublicationFactory.create(), '1', { text: 'Shorter summary' });
+
+    expect(updated.items[0]).toMatchObject({ action: { body: 'Shorter summary' }, decision: 'pending', edited: true });
+  });
+
+  it('replaces the message of a thread reply', () => {
+    const publication = PendingPublicationFactory.create({
+      items: [{ itemId: '1', action: { type: 'THREAD_REPLY', threadId: 't1', message: 'Old' }, decision: 'pending', edited: false }],
+    });
+
+    const updated = updatePendingPublicationItem(publication, '1', { text: 'New' });
+
+    expect(updated.items[0].action).toEqual({ type: 'THREAD_REPLY', threadId: 't1', message: 'New' });
+  });
+});
+
+describe('toPublicationContext', () => {
+  it('carries only the approved comments and the diff anchor', () => {
+    const publication = updatePendingPublicationItem(
+      updatePendingPublicationItem(PendingPublicationFactory.create(), '1', { decision: 'dropped' }),
+      '2',
+      { decision: 'approved' },
+    );
+
+    const context = toPublicationContext(publication);
+
+    expect(undecidedItemCount(publication)).toBe(0);
+    expect(context).toMatchObject({
+      mergeRequestId: 'github-acme/api-7',
+      platform: 'github',
+      projectPath: 'acme/api',
+      mergeRequestNumber: 7,
+      diffMetadata: { headSha: 'head' },
+    });
+    expect(context.actions).toEqual([
+      { type: 'POST_INLINE_COMMENT', filePath: 'src/a.ts', line: 12, body: 'Null check missing' },
+    ]);
+  });
+});
+
+describe('pendingPublicationGuard', () => {
+  it('rejects a parked action that is not a comment', () => {
+    const publication = {
+      ...PendingPublicationFactory.create(),
+      items: [{ itemId: '1', action: { type: 'THREAD_RESOLVE', threadId: 't1' }, decision: 'pending', edited: false }],
+    };
+
+    expect(pendingPublicationGuard.safeParse(publication).success).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  matchesEnabledWhen,
+  resolveSelectedAgents,
+  selectAgentsForChanges,
+} from '@/modules/review-execution/entities/progress/agentSelection.js';
+import {
+  DEFAULT_DOC_AGENTS,
+  DEFAULT_FULLSTACK_AGENTS,
+} from '@/modules/review-execution/entities/progress/agentDefinition.type.js';
+
+const names = (agents: { name: string }[]) => agents.map((agent) => agent.name);
+
+describe('matchesEnabledWhen', () => {
+  it('matches a changed file against the path globs', () => {
+    expect(matchesEnabledWhen({ paths: ['db/migrations/**'] }, ['db/migrations/001_init.sql'])).toBe(true);
+    expect(matchesEnabledWhen({ paths: ['db/migrations/**'] }, ['src/app.ts'])).toBe(false);
+  });
+
+  it('matches the language of a changed file', () => {
+    expect(matchesEnabledWhen({ languages: ['python'] }, ['scripts/seed.py'])).toBe(true);
+    expect(matchesEnabledWhen({ languages: ['python'] }, ['README.md'])).toBe(false);
+  });
+
+  it('matches either condition when both are set', () => {
+    expect(matchesEnabledWhen({ paths: ['infra/**'], languages: ['go'] }, ['cmd/main.go'])).toBe(true);
+  });
+});
+
+describe('selectAgentsForChanges', () => {
+  it('keeps every agent when the changed files are unknown', () => {
+    expect(selectAgentsForChanges(DEFAULT_FULLSTACK_AGENTS, null)).toEqual({
+      agents: DEFAULT_FULLSTACK_AGENTS,
+      skipped: [],
+    });
+    expect(selectAgentsForChanges(DEFAULT_FULLSTACK_AGENTS, []).skipped).toEqual([]);
+  });
+
+  it('runs react-best-practices only when a tsx or jsx file changed', () => {
+    const backOnly = selectAgentsForChanges(DEFAULT_FULLSTACK_AGENTS, ['src/orders/order.service.ts']);
+    expect(names(backOnly.agents)).not.toContain('react-best-practices');
+    expect(backOnly.skipped).toEqual([
+      { name: 'react-best-practices', reason: 'No changed file matches paths **/*.tsx, **/*.jsx' },
+    ]);
+
+    const withComponent = selectAgentsForChanges(DEFAULT_FULLSTACK_AGENTS, ['src/ui/Cart.tsx']);
+    expect(names(withComponent.agents)).toContain('react-best-practices');
+  });
+
+  it('keeps only the agents without a code condition for a docs-only change', () => {
+    const selection = selectAgentsForChanges(DEFAULT_FULLSTACK_AGENTS, ['README.md', 'docs/guide/setup.md']);
+
+    expect(names(selection.agents)).toEqual(['threads', 'report']);
+    expect(selection.skipped).toContainEqual({ name: 'security', reason: 'Only documentation changed' });
+  });
+
+  it('skips the doc agents when no documentation changed', () => {
+    const selection = selectAgentsForChanges(DEFAULT_DOC_AGENTS, ['db/migrations/002_orders.sql']);
+
+    expect(names(selection.agents)).toEqual(['threads', 'report']);
+    expect(names(selection.skipped)).toEqual([
+      'markdown-quality',
+      'link-validity',
+      'terminology',
+      'freshness',
+      'examples-validity',
+    ]);
+  });
+
+  it('prefers the enabledWhen of the project config over the built-in condition', () => {
+    const selection = selectAgentsForChanges(
+      [
+        { name: 'react-best-practices', displayName: 'React', enabledWhen: { paths: ['apps/web/**'] } },
+        { name: 'sql', displayName: 'SQL', enabledWhen: { languages: ['sql'] } },
+      ],
+      ['apps/web/routes.ts'],
+    );
+
+    expect(names(selection.agents)).toEqual(['react-best-practices']);
+    expect(selection.skipped).toEqual([{ name: 'sql', reason: 'No changed file matches languages sql' }]);
+  });
+
+  it('keeps the order of the agents', () => {
+    const selection = selectAgentsForChanges(DEFAULT_FULLSTACK_AGENTS, ['src/ui/Cart.tsx']);
+
+    expect(names(selection.agents)).toEqual(names(DEFAULT_FULLSTACK_AGENTS));
+  });
+});
+
+describe('resolveSelectedAgents', () => {
+  const configured = [
+    { name: 'security', displayName: 'Security', model: 'opus' as const },
+    { name: 'code-quality', displayName: 'Code Quality', model: 'haiku' as const },
+  ];
+
+  it('keeps only the selected agents, with their configured settings', () => {
+    expect(resolveSelectedAgents(configured, [{ name: 'security', displayName: 'Security' }])).toEqual([
+      { name: 'security', displayName: 'Security', model: 'opus' },
+    ]);
+  });
+
+  it('returns the configured agents when no selection was recorded', () => {
+    expect(resolveSelectedAgents(configured, undefined)).toEqual(configured);
+    expect(resolveSelectedAgents(undefined, undefined)).toBeUndefined();
+  });
+
+  it('returns no agent when the selection skipped all of them', () => {
+    expect(resolveSelectedAgents(configured, [])).toEqual([]);
+  });
+});
@@ -0,0 +1,13 @@
+import { describe, it, expect } from 'vitest';
+import { resolvePublishMode } from '@/modules/review-execution/entities/publishMode/publishMode.js';
+
+describe('resolvePublishMode', () => {
+  it.each([
+    [undefined, undefined, 'live'],
+    [undefined, 'shadow', 'shadow'],
+    ['shadow', 'live', 'shadow'],
+    ['live', 'shadow', 'live'],
+  ] as const)('resolves job %s over project %s to %s', (jobMode, projectMode, expected) => {
+    expect(resolvePublishMode(jobMode, projectMode)).toBe(expected);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { findUnfinishedJobs } from '@/modules/review-execution/entities/queueJournal/queueJournal.js';
+import { ReviewJobFactory } from '@/tests/factories/reviewJob.factory.js';
+
+const AT = '2026-06-02T09:00:00.000Z';
+const REVIEW = ReviewJobFactory.create();
+const FOLLOWUP = ReviewJobFactory.createFollowup({ id: 'gitlab-followup:test-org/test-project:42' });
+
+describe('findUnfinishedJobs', () => {
+  it('returns queued and interrupted jobs, in enqueue order', () => {
+    const unfinished = findUnfinishedJobs([
+      { type: 'enqueued', job: REVIEW, at: AT },
+      { type: 'enqueued', job: FOLLOWUP, at: AT },
+      { type: 'started', jobId: REVIEW.id, at: AT },
+    ]);
+
+    expect(unfinished).toEqual([
+      { job: REVIEW, interrupted: true },
+      { job: FOLLOWUP, interrupted: false },
+    ]);
+  });
+
+  it('leaves out finished jobs', () => {
+    const unfinished = findUnfinishedJobs([
+      { type: 'enqueued', job: REVIEW, at: AT },
+      { type: 'started', jobId: REVIEW.id, at: AT },
+      { type: 'finished', jobId: REVIEW.id, at: AT },
+    ]);
+
+    expect(unfinished).toEqual([]);
+  });
+
+  it('keeps the latest snapshot of a job enqueued again after finishing', () => {
+    const retried = { ...REVIEW, title: 'Retried' };
+
+    const unfinished = findUnfinishedJobs([
+      { type: 'enqueued', job: REVIEW, at: AT },
+      { type: 'started', jobId: REVIEW.id, at: AT },
+      { type: 'finished', jobId: REVIEW.id, at: AT },
+      { type: 'enqueued', job: retried, at: AT },
+    ]);
+
+    expect(unfinished).toEqual([{ job: retried, interrupted: false }]);
+  });
+});
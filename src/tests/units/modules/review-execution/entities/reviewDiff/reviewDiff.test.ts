@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import {
+  languageOfPath,
+  paginate,
+  parseChangedFiles,
+  parseFileDiffs,
+} from '@/modules/review-execution/entities/reviewDiff/reviewDiff.js';
+
+describe('languageOfPath', () => {
+  it.each([
+    ['src/orders.ts', 'typescript'],
+    ['app/models/User.RB', 'ruby'],
+    ['docker/Dockerfile', 'dockerfile'],
+    ['assets/logo.png', null],
+  ])('should detect the language of %s', (path, language) => {
+    expect(languageOfPath(path)).toBe(language);
+  });
+});
+
+describe('parseChangedFiles', () => {
+  it('should join statuses with line counts, renames and binary files included', () => {
+    const nameStatus = ['M', 'src/a.ts', 'A', 'src/b.py', 'D', 'old.md', 'R087', 'src/c.ts', 'src/d.ts', 'M', 'logo.png', ''].join('\0');
+    const numstat = [
+      '3\t1\tsrc/a.ts',
+      '10\t0\tsrc/b.py',
+      '0\t4\told.md',
+      '2\t2\t',
+      'src/c.ts',
+      'src/d.ts',
+      '-\t-\tlogo.png',
+      '',
+    ].join('\0');
+
+    expect(parseChangedFiles(nameStatus, numstat)).toEqual([
+      { path: 'src/a.ts', previousPath: null, status: 'modified', additions: 3, deletions: 1, language: 'typescript' },
+      { path: 'src/b.py', previousPath: null, status: 'added', additions: 10, deletions: 0, language: 'python' },
+      { path: 'old.md', previousPath: null, status: 'deleted', additions: 0, deletions: 4, language: 'markdown' },
+      { path: 'src/d.ts', previousPath: 'src/c.ts', status: 'renamed', additions: 2, deletions: 2, language: 'typescript' },
+      { path: 'logo.png', previousPath: null, status: 'modified', additions: null, deletions: null, language: null },
+    ]);
+  });
+
+  it('should return no file for an empty diff', () => {
+    expect(parseChangedFiles('', '')).toEqual([]);
+  });
+});
+
+describe('parseFileDiffs', () => {
+  it('should split a patch into files and hunks', () => {
+    const patch = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      'index 1111111..2222222 100644',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1,3 +1,3 @@ export function a() {',
+      ' const x = 1;',
+      '-const y = 2;',
+      '+const y = 3;',
+      '@@ -10 +10,2 @@',
+      ' return x;',
+      '+// done',
+      'diff --git a/src/new.ts b/src/new.ts',
+      'new file mode 100644',
+      'index 0000000..3333333',
+      '--- /dev/null',
+      '+++ b/src/new.ts',
+      '@@ -0,0 +1 @@',
+      '+export {};',
+      'diff --git a/gone.ts b/gone.ts',
+      'deleted file mode 100644',
+      '--- a/gone.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-x',
+      'diff --git a/old.ts b/moved.ts',
+      'similarity index 100%',
+      'rename from old.ts',
+      'rename to moved.ts',
+      'diff --git a/logo.png b/logo.png',
+      'Binary files a/logo.png and b/logo.png differ',
+      '',
+    ].join('\n');
+
+    const files = parseFileDiffs(patch);
+
+    expect(files.map(file => [file.path, file.previousPath, file.status, file.binary, file.hunks.length])).toEqual([
+      ['src/a.ts', null, 'modified', false, 2],
+      ['src/new.ts', null, 'added', false, 1],
+      ['gone.ts', null, 'deleted', false, 1],
+      ['moved.ts', 'old.ts', 'renamed', false, 0],
+      ['logo.png', null, 'modified', true, 0],
+    ]);
+    expect(files[0].hunks[0]).toEqual({
+      header: '@@ -1,3 +1,3 @@ export function a() {',
+      oldStart: 1,
+      oldLines: 3,
+      newStart: 1,
+      newLines: 3,
+      content: ' const x = 1;\n-const y = 2;\n+const y = 3;',
+    });
+    expect(files[0].hunks[1]).toMatchObject({ oldStart: 10, oldLines: 1, newStart: 10, newLines: 2 });
+  });
+});
+
+describe('paginate', () => {
+  it('should return the requested page and the totals', () => {
+    expect(paginate([1, 2, 3, 4, 5], 2, 2)).toEqual({ items: [3, 4], page: 2, pageSize: 2, totalItems: 5, totalPages: 3 });
+  });
+
+  it('should return an empty page past the end', () => {
+    expect(paginate([1], 3, 10)).toEqual({ items: [], page: 3, pageSize: 10, totalItems: 1, totalPages: 1 });
+  });
+});
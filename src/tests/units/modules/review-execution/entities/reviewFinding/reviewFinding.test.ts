@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countFindingsBySeverity,
+  findingAnchorLine,
+  formatFindingComment,
+  resolveReviewStats,
+} from '@/modules/review-execution/entities/reviewFinding/reviewFinding.js';
+import type { ReviewFinding } from '@/modules/review-execution/entities/reviewFinding/reviewFinding.schema.js';
+import { ReviewContextFactory } from '@/tests/factories/reviewContext.factory.js';
+
+function finding(overrides: Partial<ReviewFinding> = {}): ReviewFinding {
+  return {
+    id: 'finding-1',
+    severity: 'blocking',
+    agent: 'security',
+    title: 'SQL built from user input',
+    body: 'The order id is concatenated into the query.',
+    filePath: 'src/orders.ts',
+    startLine: 40,
+    endLine: 42,
+    suggestedPatch: null,
+    confidence: 0.9,
+    reportedAt: '2026-10-18T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const markdownStats = { score: 6, blocking: 3, warnings: 2, suggestions: 1 };
+
+describe('countFindingsBySeverity', () => {
+  it('counts each severity', () => {
+    const findings = [
+      finding(),
+      finding({ severity: 'warning' }),
+      finding({ severity: 'warning' }),
+      finding({ severity: 'suggestion' }),
+    ];
+
+    expect(countFindingsBySeverity(findings)).toEqual({ blocking: 1, warnings: 2, suggestions: 1 });
+  });
+});
+
+describe('findingAnchorLine', () => {
+  it('anchors on the end of the range, or its start when there is no end', () => {
+    expect(findingAnchorLine(finding())).toBe(42);
+    expect(findingAnchorLine(finding({ endLine: null }))).toBe(40);
+    expect(findingAnchorLine(finding({ startLine: null, endLine: null }))).toBeNull();
+  });
+});
+
+describe('formatFindingComment', () => {
+  it('renders the severity, title, agent, confidence and body', () => {
+    expect(formatFindingComment(finding())).toBe(
+      '🚨 **[BLOQUANT]** SQL built from user input\n\n_security · confiance 90%_\n\nThe order id is concatenated into the query.',
+    );
+  });
+
+  it('appends the suggested patch as a diff block', () => {
+    const comment = formatFindingComment(finding({ severity: 'suggestion', suggestedPatch: '-a\n+b\n' }));
+
+    expect(comment.startsWith('💡 **[SUGGESTION]**')).toBe(true);
+    expect(comment.endsWith('```diff\n-a\n+b\n```')).toBe(true);
+  });
+});
+
+describe('resolveReviewStats', () => {
+  it('keeps the stats parsed from the report when the agent reported nothing', () => {
+    expect(resolveReviewStats(markdownStats, ReviewContextFactory.create())).toEqual({ ...markdownStats, findings: [] });
+    expect(resolveReviewStats(markdownStats, null)).toEqual({ ...markdownStats, findings: [] });
+  });
+
+  it('counts the reported findings and takes the submitted score and verdict', () => {
+    const context = ReviewContextFactory.create({
+      findings: [finding(), finding({ id: 'finding-2', severity: 'suggestion', filePath: null, startLine: null, endLine: null })],
+      submittedResult: { score: 7.5, verdict: 'needs_fixes', submittedAt: '2026-10-18T10:05:00.000Z' },
+    });
+
+    const stats = resolveReviewStats(markdownStats, context);
+
+    expect(stats).toMatchObject({ score: 7.5, blocking: 1, warnings: 0, suggestions: 1, verdict: 'needs_fixes' });
+    expect(stats.findings).toEqual([
+      { severity: 'blocking', agent: 'security', title: 'SQL built from user input', filePath: 'src/orders.ts', startLine: 40, endLine: 42, confidence: 0.9 },
+      { severity: 'suggestion', agent: 'security', title: 'SQL built from user input', filePath: null, startLine: null, endLine: null, confidence: 0.9 },
+    ]);
+  });
+
+  it('falls back to the parsed score when findings were reported without a result', () => {
+    const stats = resolveReviewStats(markdownStats, ReviewContextFactory.create({ findings: [finding()] }));
+
+    expect(stats).toMatchObject({ score: 6, blocking: 1, warnings: 0, suggestions: 0 });
+    expect(stats).not.toHaveProperty('verdict');
+  });
+
+  it('trusts a submitted result with no finding as a clean review', () => {
+    const context = ReviewContextFactory.create({
+      submittedResult: { score: 9, verdict: 'ready_to_merge', submittedAt: '2026-10-18T10:05:00.000Z' },
+    });
+
+    expect(resolveReviewStats(markdownStats, context)).toEqual({
+      score: 9,
+      blocking: 0,
+      warnings: 0,
+      suggestions: 0,
+      verdict: 'ready_to_merge',
+      findings: [],
+    });
+  });
+});
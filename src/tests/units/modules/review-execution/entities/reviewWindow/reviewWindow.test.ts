@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isWithinReviewSchedule,
+  nextReviewWindowOpening,
+} from '@/modules/review-execution/entities/reviewWindow/reviewWindow.js';
+import { reviewScheduleSchema } from '@/modules/review-execution/entities/reviewWindow/reviewWindow.schema.js';
+
+// Evenings on weekdays, all day on weekends, Paris time.
+const schedule = reviewScheduleSchema.parse({
+  timezone: 'Europe/Paris',
+  windows: [
+    { days: ['weekdays'], from: '19:00', to: '08:00' },
+    { days: ['weekend'], from: '00:00', to: '00:00' },
+  ],
+});
+
+describe('reviewScheduleSchema', () => {
+  it('expands day shorthands and defaults to every day in UTC', () => {
+    expect(reviewScheduleSchema.parse({ windows: [{ from: '09:00', to: '17:00' }] })).toEqual({
+      timezone: 'UTC',
+      windows: [{ days: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'], from: '09:00', to: '17:00' }],
+    });
+  });
+
+  it.each([
+    [{ timezone: 'Mars/Olympus', windows: [{ from: '09:00', to: '17:00' }] }],
+    [{ windows: [{ from: '9:00', to: '17:00' }] }],
+    [{ windows: [] }],
+  ])('rejects %j', (value) => {
+    expect(reviewScheduleSchema.safeParse(value).success).toBe(false);
+  });
+});
+
+describe('isWithinReviewSchedule', () => {
+  it.each([
+    ['2026-06-03T15:00:00Z', false], // Wednesday 17:00 in Paris
+    ['2026-06-03T17:30:00Z', true], // Wednesday 19:30
+    ['2026-06-04T05:30:00Z', true], // Thursday 07:30, after a weekday evening
+    ['2026-06-06T10:00:00Z', true], // Saturday noon
+  ])('at %s is %s', (at, expected) => {
+    expect(isWithinReviewSchedule(schedule, new Date(at))).toBe(expected);
+  });
+});
+
+describe('nextReviewWindowOpening', () => {
+  it('returns the time itself inside a window', () => {
+    const at = new Date('2026-06-03T17:30:00Z');
+
+    expect(nextReviewWindowOpening(schedule, at)).toEqual(at);
+  });
+
+  it('returns the next opening in the schedule time zone', () => {
+    expect(nextReviewWindowOpening(schedule, new Date('2026-06-03T09:12:30Z'))).toEqual(
+      new Date('2026-06-03T17:00:00Z'),
+    );
+  });
+
+  it('handles a daylight saving change before the opening', () => {
+    // Paris moves to summer time on 2026-03-29; Friday 27 at noon waits for 19:00 CET.
+    expect(nextReviewWindowOpening(schedule, new Date('2026-03-27T11:00:00Z'))).toEqual(
+      new Date('2026-03-27T18:00:00Z'),
+    );
+    const weekdayOnly = reviewScheduleSchema.parse({
+      timezone: 'Europe/Paris',
+      windows: [{ days: ['mon'], from: '09:00', to: '10:00' }],
+    });
+    // Saturday 28 (CET) to Monday 30 09:00 CEST.
+    expect(nextReviewWindowOpening(weekdayOnly, new Date('2026-03-28T12:00:00Z'))).toEqual(
+      new Date('2026-03-30T07:00:00Z'),
+    );
+  });
+});
@@ -0,0 +1,14 @@
+import { describe, it, expect } from 'vitest';
+import { shadowReportFile } from '@/modules/review-execution/entities/shadowLog/shadowLog.js';
+
+describe('shadowReportFile', () => {
+  const now = new Date('2026-05-01T10:00:00.000Z');
+
+  it('names the log after the report the session wrote', () => {
+    expect(shadowReportFile('/repo/.claude/reviews/2026-04-30-MR-42-front.md', 42, now)).toBe('2026-04-30-MR-42-front.md');
+  });
+
+  it('falls back to a dated name when the session left no report path', () => {
+    expect(shadowReportFile(undefined, 42, now)).toBe('2026-05-01-MR-42-shadow.md');
+  });
+});
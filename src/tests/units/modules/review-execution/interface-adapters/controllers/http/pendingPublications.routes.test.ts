@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import Fastify, { type FastifyInstance } from 'fastify';
+import type { ReviewContext } from '@/modules/review-execution/entities/reviewContext/reviewContext.js';
+import { pendingPublicationsRoutes } from '@/modules/review-execution/interface-adapters/controllers/http/pendingPublications.routes.js';
+import { GetPendingPublicationUseCase } from '@/modules/review-execution/usecases/getPendingPublication.usecase.js';
+import { UpdatePendingPublicationUseCase } from '@/modules/review-execution/usecases/updatePendingPublication.usecase.js';
+import { PublishPendingPublicationUseCase } from '@/modules/review-execution/usecases/publishPendingPublication.usecase.js';
+import { StubPendingPublicationGateway } from '@/tests/stubs/pendingPublication.stub.js';
+import { PendingPublicationFactory } from '@/tests/factories/pendingPublication.factory.js';
+import { createStubLogger } from '@/tests/stubs/logger.stub.js';
+
+const mrId = 'github-acme/api-7';
+
+describe('pendingPublicationsRoutes', () => {
+  let app: FastifyInstance;
+  let gateway: StubPendingPublicationGateway;
+  let published: ReviewContext[];
+  let posting: Promise<void>;
+
+  beforeEach(async () => {
+    gateway = new StubPendingPublicationGateway();
+    gateway.prepopulate(PendingPublicationFactory.create());
+    published = [];
+    posting = Promise.resolve();
+    const logger = createStubLogger();
+    app = Fastify();
+    await app.register(pendingPublicationsRoutes, {
+      getPendingPublication: new GetPendingPublicationUseCase({ pendingPublicationGateway: gateway }),
+      updatePendingPublication: new UpdatePendingPublicationUseCase({ pendingPublicationGateway: gateway, logger }),
+      publishPendingPublication: new PublishPendingPublicationUseCase({
+        pendingPublicationGateway: gateway,
+        executeActions: async (context) => {
+          published.push(context);
+          await posting;
+          return { total: context.actions.length, succeeded: context.actions.length, failed: 0, skipped: 0 };
+        },
+        postLinkedComments: async (publication) => publication.linkedComments?.length ?? 0,
+        logger,
+      }),
+    });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('returns the pending publication of a merge request', async () => {
+    const response = await app.inject({ method: 'GET', url: `/api/pending-publications?mrId=${encodeURIComponent(mrId)}` });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().publication.items).toHaveLength(2);
+  });
+
+  it('returns a null publication when nothing is parked', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/pending-publications?mrId=gitlab-other-1' });
+
+    expect(response.json()).toEqual({ publication: null });
+  });
+
+  it('rejects an unknown decision', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/pending-publications/items',
+      payload: { mrId, itemId: '1', decision: 'maybe' },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json()).toEqual({ error: 'Invalid decision' });
+  });
+
+  it('rejects an emptied comment', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/pending-publications/items',
+      payload: { mrId, itemId: '1', text: '  ' },
+    });
+
+    expect(response.statusCode).toBe(400);
+  });
+
+  it('answers 404 for an unknown comment', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/pending-publications/items',
+      payload: { mrId, itemId: '9', decision: 'approved' },
+    });
+
+    expect(response.statusCode).toBe(404);
+    expect(response.json()).toEqual({ status: 'item-not-found' });
+  });
+
+  it('answers 409 while comments are undecided, then publishes once all are decided', async () => {
+    const early = await app.inject({ method: 'POST', url: '/api/pending-publications/publish', payload: { mrId } });
+    expect(early.statusCode).toBe(409);
+    expect(early.json()).toEqual({ status: 'undecided', pendingCount: 2 });
+
+    for (const [itemId, decision] of [['1', 'approved'], ['2', 'dropped']]) {
+      const update = await app.inject({
+        method: 'POST',
+        url: '/api/pending-publications/items',
+        payload: { mrId, itemId, decision },
+      });
+      expect(update.statusCode).toBe(200);
+    }
+
+    const response = await app.inject({ method: 'POST', url: '/api/pending-publications/publish', payload: { mrId } });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().status).toBe('published');
+    expect(published[0].actions).toEqual([{ type: 'POST_COMMENT', body: '## Review summary' }]);
+  });
+  it('answers 409 while the same merge request is being published', async () => {
+    for (const itemId of ['1', '2']) {
+      await app.inject({ method: 'POST', url: '/api/pending-publications/items', payload: { mrId, itemId, decision: 'approved' } });
+    }
+    let finishPosting = (): void => {};
+    posting = new Promise<void>((resolve) => {
+      finishPosting = resolve;
+    });
+
+    const first = app.inject({ method: 'POST', url: '/api/pending-publications/publish', payload: { mrId } });
+    await vi.waitFor(async () => expect(await gateway.isClaimed(mrId)).toBe(true));
+    const second = await app.inject({ method: 'POST', url: '/api/pending-publications/publish', payload: { mrId } });
+    finishPosting();
+
+    expect(second.statusCode).toBe(409);
+    expect(second.json()).toEqual({ status: 'publishing' });
+    expect((await first).statusCode).toBe(200);
+    expect(published).toHaveLength(1);
+  });
+});
@@ -3,6 +3,7 @@ import Fastify, { type FastifyInstance } from 'fastify';
 import { reviewRoutes } from '@/modules/review-execution/interface-adapters/controllers/http/reviews.routes.js';
 import { InMemoryReviewFileGateway } from '@/tests/stubs/reviewFile.stub.js';
 import { InMemoryReviewRequestTrackingGateway } from '@/tests/stubs/reviewRequestTracking.stub.js';
+import { InMemoryShadowLogGateway } from '@/tests/stubs/shadowLog.stub.js';
 import { StubReviewQueuePort } from '@/tests/stubs/reviewQueue.stub.js';
 import { createStubLogger } from '@/tests/stubs/logger.stub.js';
 import { TrackedMrFactory } from '@/tests/factories/trackedMr.factory.js';
@@ -13,6 +14,7 @@ describe('reviewRoutes', () => {
   let app: FastifyInstance;
   let reviewFileGateway: InMemoryReviewFileGateway;
   let reviewRequestTrackingGateway: InMemoryReviewRequestTrackingGateway;
+  let shadowLogGateway: InMemoryShadowLogGateway;
   let queuePort: StubReviewQueuePort;
   let repositories: Repository[];
 
@@ -20,12 +22,14 @@ describe('reviewRoutes', () => {
     app = Fastify();
     reviewFileGateway = new InMemoryReviewFileGateway();
     reviewRequestTrackingGateway = new InMemoryReviewRequestTrackingGateway();
+    shadowLogGateway = new InMemoryShadowLogGateway();
     queuePort = new StubReviewQueuePort();
     repositories = [];
 
     await app.register(reviewRoutes, {
       reviewFileGateway,
       reviewRequestTrackingGateway,
+      shadowLogGateway,
       getRepositories: () => repositories,
       queuePort,
       logger: createStubLogger(),
@@ -148,6 +152,50 @@ describe('reviewRoutes', () => {
     });
   });
 
+  describe('GET /api/reviews/:filename/shadow', () => {
+    const entry = {
+      recordedAt: '2026-05-01T10:00:00.000Z',
+      platform: 'gitlab' as const,
+      projectPath: 'group/app',
+      mrNumber: 12,
+      actions: [{ type: 'POST_COMMENT' as const, body: 'Looks good' }],
+    };
+
+    it('returns what the shadow review would have posted', async () => {
+      shadowLogGateway.append('/repo/a', '2026-05-01-MR-12-front.md', entry);
+      repositories = [{ localPath: '/repo/a', enabled: true }];
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/reviews/2026-05-01-MR-12-front.md/shadow',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ filename: '2026-05-01-MR-12-front.md', entries: [entry] });
+    });
+
+    it('returns no entries for a review that published live', async () => {
+      repositories = [{ localPath: '/repo/a', enabled: true }];
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/reviews/2026-05-01-MR-12-front.md/shadow',
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json().entries).toEqual([]);
+    });
+
+    it('returns 400 for an invalid filename format', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/reviews/not-a-valid-name/shadow',
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
   describe('DELETE /api/reviews/:filename', () => {
     it('returns 400 for an invalid filename format', async () => {
       const response = await app.inject({
@@ -254,4 +302,94 @@ describe('reviewRoutes', () => {
       expect(body.error).toBe('Job non trouvé');
     });
   });
+
+  describe('POST /api/reviews/:jobId/priority', () => {
+    it('sets the priority of a queued job', async () => {
+      queuePort.setJobStatus('gitlab:group/project:7', 'queued');
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/reviews/${encodeURIComponent('gitlab:group/project:7')}/priority`,
+        payload: { priority: 42 },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toEqual({ success: true, jobId: 'gitlab:group/project:7', priority: 42 });
+      expect(queuePort.priorities.get('gitlab:group/project:7')).toBe(42);
+    });
+
+    it('maps a lane to its priority', async () => {
+      queuePort.setJobStatus('job-1', 'queued');
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/reviews/job-1/priority',
+        payload: { lane: 'urgent' },
+      });
+
+      expect(response.json().priority).toBe(200);
+    });
+
+    it('rejects a body without a valid priority or lane', async () => {
+      queuePort.setJobStatus('job-1', 'queued');
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/reviews/job-1/priority',
+        payload: { lane: 'asap', priority: 1.5 },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(queuePort.priorities.size).toBe(0);
+    });
+
+    it('returns 409 when the job is already running', async () => {
+      queuePort.setJobStatus('job-1', 'running');
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/reviews/job-1/priority',
+        payload: { priority: 10 },
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(response.json().status).toBe('not-queued');
+    });
+
+    it('returns 404 when the job does not exist', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/reviews/unknown-job/priority',
+        payload: { priority: 10 },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('POST /api/reviews/:jobId/start-now', () => {
+    it('starts a deferred job', async () => {
+      queuePort.addDeferredJob('job-1');
+
+      const response = await app.inject({ method: 'POST', url: '/api/reviews/job-1/start-now' });
+
+      expect(response.statusCode).toBe(200);
+      expect(queuePort.startedDeferredJobs).toEqual(['job-1']);
+    });
+
+    it('returns 409 when the job is not deferred', async () => {
+      queuePort.setJobStatus('job-1', 'queued');
+
+      const response = await app.inject({ method: 'POST', url: '/api/reviews/job-1/start-now' });
+
+      expect(response.statusCode).toBe(409);
+      expect(response.json().status).toBe('not-deferred');
+    });
+
+    it('returns 404 when the job does not exist', async () => {
+      const response = await app.inject({ method: 'POST', url: '/api/reviews/unknown-job/start-now' });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
 });
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFileSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { QueueJournalFileSystemGateway } from '@/modules/review-execution/interface-adapters/gateways/fileSystem/queueJournal.fileSystem.gateway.js';
+import { ReviewJobFactory } from '@/tests/factories/reviewJob.factory.js';
+import { createCapturingLogger } from '@/tests/stubs/capturingLogger.stub.js';
+
+const AT = '2026-06-02T09:00:00.000Z';
+
+describe('QueueJournalFileSystemGateway', () => {
+  let rootDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(join(tmpdir(), 'reviewflow-queue-journal-'));
+    filePath = join(rootDir, 'nested', 'queue-journal.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('reads back the entries it appended, in order', () => {
+    const { logger } = createCapturingLogger();
+    const gateway = new QueueJournalFileSystemGateway({ filePath, logger });
+    const job = ReviewJobFactory.create();
+
+    gateway.append({ type: 'enqueued', job, at: AT });
+    gateway.append({ type: 'started', jobId: job.id, at: AT });
+
+    expect(new QueueJournalFileSystemGateway({ filePath, logger }).readAll()).toEqual([
+      { type: 'enqueued', job, at: AT },
+      { type: 'started', jobId: job.id, at: AT },
+    ]);
+  });
+
+  it('keeps the head commit a job was enqueued for', () => {
+    const { logger } = createCapturingLogger();
+    const gateway = new QueueJournalFileSystemGateway({ filePath, logger });
+    const job = ReviewJobFactory.create({ headSha: 'abc123' });
+
+    gateway.append({ type: 'enqueued', job, at: AT });
+
+    expect(new QueueJournalFileSystemGateway({ filePath, logger }).readAll()).toEqual([
+      { type: 'enqueued', job: expect.objectContaining({ headSha: 'abc123' }), at: AT },
+    ]);
+  });
+
+  it('returns no entries when the journal does not exist', () => {
+    const { logger } = createCapturingLogger();
+
+    expect(new QueueJournalFileSystemGateway({ filePath, logger }).readAll()).toEqual([]);
+  });
+
+  it('skips a torn line left by a crash mid-append', () => {
+    const { logger } = createCapturingLogger();
+    const gateway = new QueueJournalFileSystemGateway({ filePath, logger });
+    gateway.append({ type: 'started', jobId: 'gitlab:a/b:1', at: AT });
+    appendFileSync(filePath, '{"type":"enqueued","jo');
+
+    expect(gateway.readAll()).toEqual([{ type: 'started', jobId: 'gitlab:a/b:1', at: AT }]);
+  });
+
+  it('replaces the whole journal', () => {
+    const { logger } = createCapturingLogger();
+    const gateway = new QueueJournalFileSystemGateway({ filePath, logger });
+    gateway.append({ type: 'started', jobId: 'gitlab:a/b:1', at: AT });
+
+    gateway.replaceAll([]);
+
+    expect(readFileSync(filePath, 'utf-8')).toBe('');
+  });
+});
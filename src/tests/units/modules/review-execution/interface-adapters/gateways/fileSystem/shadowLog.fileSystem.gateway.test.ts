@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { appendFileSync, existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ShadowLogFileSystemGateway } from '@/modules/review-execution/interface-adapters/gateways/fileSystem/shadowLog.fileSystem.gateway.js';
+import type { ShadowLogEntry } from '@/modules/review-execution/entities/shadowLog/shadowLog.schema.js';
+import { createCapturingLogger } from '@/tests/stubs/capturingLogger.stub.js';
+
+const REPORT_FILE = '2026-05-01-MR-42-review.md';
+
+const entry: ShadowLogEntry = {
+  recordedAt: '2026-05-01T10:00:00.000Z',
+  platform: 'gitlab',
+  projectPath: 'group/app',
+  mrNumber: 42,
+  actions: [
+    { type: 'POST_COMMENT', body: 'Summary' },
+    { type: 'THREAD_RESOLVE', threadId: '10' },
+  ],
+};
+
+describe('ShadowLogFileSystemGateway', () => {
+  let localPath: string;
+
+  beforeEach(() => {
+    localPath = mkdtempSync(join(tmpdir(), 'reviewflow-shadow-log-'));
+  });
+
+  afterEach(() => {
+    rmSync(localPath, { recursive: true, force: true });
+  });
+
+  it('reads back the entries appended for a report, in order', () => {
+    const { logger } = createCapturingLogger();
+    const gateway = new ShadowLogFileSystemGateway(logger);
+    const second = { ...entry, actions: [{ type: 'ADD_LABEL' as const, label: 'reviewed' }] };
+
+    gateway.append(localPath, REPORT_FILE, entry);
+    gateway.append(localPath, REPORT_FILE, second);
+
+    expect(existsSync(join(localPath, '.claude', 'reviews', 'shadow', '2026-05-01-MR-42-review.jsonl'))).toBe(true);
+    expect(new ShadowLogFileSystemGateway(logger).read(localPath, REPORT_FILE)).toEqual([entry, second]);
+  });
+
+  it('returns no entries for a report without shadow log', () => {
+    const { logger } = createCapturingLogger();
+
+    expect(new ShadowLogFileSystemGateway(logger).read(localPath, REPORT_FILE)).toEqual([]);
+  });
+
+  it('skips a torn line left by a crash mid-append', () => {
+    const { logger } = createCapturingLogger();
+    const gateway = new ShadowLogFileSystemGateway(logger);
+    gateway.append(localPath, REPORT_FILE, entry);
+    appendFileSync(join(localPath, '.claude', 'reviews', 'shadow', '2026-05-01-MR-42-review.jsonl'), '{"recordedAt":');
+
+    expect(gateway.read(localPath, REPORT_FILE)).toEqual([entry]);
+  });
+});
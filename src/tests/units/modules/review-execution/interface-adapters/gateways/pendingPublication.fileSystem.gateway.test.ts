@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PendingPublicationFileSystemGateway } from '@/modules/review-execution/interface-adapters/gateways/pendingPublication.fileSystem.gateway.js';
+import { PendingPublicationFactory } from '@/tests/factories/pendingPublication.factory.js';
+
+describe('PendingPublicationFileSystemGateway', () => {
+  let rootDir: string;
+  let gateway: PendingPublicationFileSystemGateway;
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(join(tmpdir(), 'reviewflow-publication-fs-'));
+    gateway = new PendingPublicationFileSystemGateway({ rootDir });
+  });
+
+  afterEach(() => {
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('saves then loads a publication by merge request id', async () => {
+    const publication = PendingPublicationFactory.create();
+
+    await gateway.save(publication);
+
+    expect(await gateway.load('github-acme/api-7')).toEqual(publication);
+  });
+
+  it('replaces the publication of a merge request parked again', async () => {
+    await gateway.save(PendingPublicationFactory.create());
+    await gateway.save(PendingPublicationFactory.create({ parkedAt: '2026-10-18T10:00:00.000Z' }));
+
+    const all = await gateway.listAll();
+
+    expect(all).toHaveLength(1);
+    expect(all[0].parkedAt).toBe('2026-10-18T10:00:00.000Z');
+  });
+
+  it('skips malformed files when listing', async () => {
+    writeFileSync(join(rootDir, 'broken.json'), 'not json');
+    await gateway.save(PendingPublicationFactory.create());
+
+    expect(await gateway.listAll()).toHaveLength(1);
+  });
+
+  it('deletes a publication and returns false once gone', async () => {
+    await gateway.save(PendingPublicationFactory.create());
+
+    expect(await gateway.delete('github-acme/api-7')).toBe(true);
+    expect(await gateway.load('github-acme/api-7')).toBeNull();
+    expect(await gateway.delete('github-acme/api-7')).toBe(false);
+  });
+  it('hands a publication to a single claimer and hides it from the parked ones', async () => {
+    const publication = PendingPublicationFactory.create();
+    await gateway.save(publication);
+
+    expect(await gateway.claim('github-acme/api-7')).toEqual(publication);
+    expect(await gateway.claim('github-acme/api-7')).toBeNull();
+    expect(await gateway.isClaimed('github-acme/api-7')).toBe(true);
+    expect(await gateway.load('github-acme/api-7')).toBeNull();
+    expect(await gateway.listAll()).toEqual([]);
+  });
+
+  it('drops the claimed copy on release', async () => {
+    await gateway.save(PendingPublicationFactory.create());
+    await gateway.claim('github-acme/api-7');
+
+    await gateway.releaseClaim('github-acme/api-7');
+
+    expect(await gateway.isClaimed('github-acme/api-7')).toBe(false);
+  });
+});
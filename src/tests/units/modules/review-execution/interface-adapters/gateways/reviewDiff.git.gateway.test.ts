@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ReviewDiffGitGateway } from '@/modules/review-execution/interface-adapters/gateways/reviewDiff.git.gateway.js';
+import { StubGitCommandExecutor } from '@/tests/stubs/gitCommandExecutor.stub.js';
+
+const range = { baseSha: 'base', headSha: 'head' };
+
+describe('ReviewDiffGitGateway', () => {
+  it('should resolve the merge base of the range', async () => {
+    const executor = new StubGitCommandExecutor();
+    executor.programResponse('merge-base', { exitCode: 0, stdout: 'abc123\n', stderr: '' });
+
+    const sha = await new ReviewDiffGitGateway(executor).mergeBase('/repo', range);
+
+    expect(sha).toBe('abc123');
+    expect(executor.calls[0]).toEqual({ kind: 'merge-base', args: ['merge-base', 'base', 'head'], cwd: '/repo' });
+  });
+
+  it('should list changed files from name-status and numstat', async () => {
+    const executor = new StubGitCommandExecutor();
+    executor.programResponse('diff', { exitCode: 0, stdout: 'M\0src/a.ts\0', stderr: '' });
+    executor.programResponse('diff', { exitCode: 0, stdout: '4\t1\tsrc/a.ts\0', stderr: '' });
+
+    const files = await new ReviewDiffGitGateway(executor).listChangedFiles('/repo', range);
+
+    expect(files).toEqual([
+      { path: 'src/a.ts', previousPath: null, status: 'modified', additions: 4, deletions: 1, language: 'typescript' },
+    ]);
+    expect(executor.callsOfKind('diff').map(call => call.args[2])).toEqual(['--name-status', '--numstat']);
+  });
+
+  it('should restrict the diff to the given paths', async () => {
+    const executor = new StubGitCommandExecutor();
+
+    await new ReviewDiffGitGateway(executor).readFileDiffs('/repo', range, ['src/a.ts']);
+
+    expect(executor.calls[0].args).toEqual(['diff', '-M', '--no-color', '--no-ext-diff', 'base', 'head', '--', 'src/a.ts']);
+  });
+
+  it('should return null for a file missing at the ref', async () => {
+    const executor = new StubGitCommandExecutor();
+    executor.programResponse('cat-file', { exitCode: 128, stdout: '', stderr: 'fatal: path does not exist' });
+
+    const content = await new ReviewDiffGitGateway(executor).readFileAtRef('/repo', 'base', 'src/new.ts');
+
+    expect(content).toBeNull();
+    expect(executor.callsOfKind('cat-file')).toHaveLength(1);
+  });
+
+  it('should read the blob of a file at the ref', async () => {
+    const executor = new StubGitCommandExecutor();
+    executor.programResponse('cat-file', { exitCode: 0, stdout: '', stderr: '' });
+    executor.programResponse('cat-file', { exitCode: 0, stdout: 'export {};\n', stderr: '' });
+
+    const content = await new ReviewDiffGitGateway(executor).readFileAtRef('/repo', 'head', 'src/a.ts');
+
+    expect(content).toBe('export {};\n');
+    expect(executor.calls[1].args).toEqual(['cat-file', 'blob', 'head:src/a.ts']);
+  });
+
+  it('should reject when git fails', async () => {
+    const executor = new StubGitCommandExecutor();
+    executor.programResponse('merge-base', { exitCode: 128, stdout: '', stderr: 'fatal: Not a valid object name head\n' });
+
+    await expect(new ReviewDiffGitGateway(executor).mergeBase('/repo', range)).rejects.toThrow(
+      'git merge-base failed: fatal: Not a valid object name head',
+    );
+  });
+});
@@ -0,0 +1,138 @@
+import { GitHubThreadInventoryGateway } from '@/modules/review-execution/interface-adapters/gateways/threadInventory.github.gateway.js'
+import { resolveThreadInventory } from '@/modules/review-execution/services/resolveThreadInventory.js'
+import { GitHubApiResponseFactory } from '../../../../../factories/githubApiResponse.factory.js'
+
+class RecordingExecutor {
+  readonly commands: string[] = []
+  private responses: string[] = []
+  setResponses(responses: string[]): void {
+    this.responses = responses
+  }
+  run = (command: string): string => {
+    this.commands.push(command)
+    const response = this.responses[this.commands.length - 1]
+    if (!response) throw new Error('no response configured')
+    return response
+  }
+}
+
+const firstPage = GitHubApiResponseFactory.createReviewThreadsPage({
+  totalCount: 101,
+  hasNextPage: true,
+  endCursor: 'Y3Vyc29yOjEwMA==',
+  threads: [
+    { id: 'PRRT_open', firstCommentId: 1001 },
+    { id: 'PRRT_resolved', isResolved: true, firstCommentId: 1002 },
+  ],
+})
+
+const secondPage = GitHubApiResponseFactory.createReviewThreadsPage({
+  totalCount: 101,
+  hasNextPage: false,
+  endCursor: 'Y3Vyc29yOjEwMQ==',
+  threads: [{ id: 'PRRT_outdated', isOutdated: true, firstCommentId: 1003 }],
+})
+
+describe('GitHubThreadInventoryGateway', () => {
+  it('queries reviewThreads for the pinned repository and pull request', () => {
+    const executor = new RecordingExecutor()
+    executor.setResponses([firstPage])
+
+    const gateway = new GitHubThreadInventoryGateway(executor.run)
+    gateway.fetchPage('octo-org/api', 42, 1)
+
+    expect(executor.commands[0]).toContain('gh api graphql')
+    expect(executor.commands[0]).toContain('repository(owner: "octo-org", name: "api")')
+    expect(executor.commands[0]).toContain('pullRequest(number: 42)')
+    expect(executor.commands[0]).toContain('reviewThreads(first: 100)')
+    expect(executor.commands[0]).toContain('isResolved')
+  })
+
+  it('derives totalPages from totalCount so completeness can be proven', () => {
+    const executor = new RecordingExecutor()
+    executor.setResponses([firstPage])
+
+    const gateway = new GitHubThreadInventoryGateway(executor.run)
+    const page = gateway.fetchPage('octo-org/api', 42, 1)
+
+    expect(page.totalPages).toBe(2)
+  })
+
+  it('exposes thread node ids and first comment ids, resolved threads included', () => {
+    const executor = new RecordingExecutor()
+    executor.setResponses([firstPage])
+
+    const gateway = new GitHubThreadInventoryGateway(executor.run)
+    const page = gateway.fetchPage('octo-org/api', 42, 1)
+
+    expect(page.threadIds.sort()).toEqual(['1001', '1002', 'PRRT_open', 'PRRT_resolved'])
+  })
+
+  it('follows the end cursor of the previous page when asked for the next one', () => {
+    const executor = new RecordingExecutor()
+    executor.setResponses([firstPage, secondPage])
+
+    const gateway = new GitHubThreadInventoryGateway(executor.run)
+    gateway.fetchPage('octo-org/api', 42, 1)
+    const page = gateway.fetchPage('octo-org/api', 42, 2)
+
+    expect(executor.commands).toHaveLength(2)
+    expect(executor.commands[1]).toContain('after: "Y3Vyc29yOjEwMA=="')
+    expect(page.threadIds.sort()).toEqual(['1003', 'PRRT_outdated'])
+  })
+
+  it('walks forward from the first page when a later page is requested cold', () => {
+    const executor = new RecordingExecutor()
+    executor.setResponses([firstPage, secondPage])
+
+    const gateway = new GitHubThreadInventoryGateway(executor.run)
+    const page = gateway.fetchPage('octo-org/api', 42, 2)
+
+    expect(executor.commands).toHaveLength(2)
+    expect(page.page).toBe(2)
+    expect(page.threadIds).toContain('PRRT_outdated')
+  })
+
+  it('keeps threads whose first comment has no database id', () => {
+    const executor = new RecordingExecutor()
+    executor.setResponses([
+      GitHubApiResponseFactory.createReviewThreadsPage({
+        totalCount: 1,
+        hasNextPage: false,
+        endCursor: null,
+        threads: [{ id: 'PRRT_empty', firstCommentId: null }],
+      }),
+    ])
+
+    const gateway = new GitHubThreadInventoryGateway(executor.run)
+    const page = gateway.fetchPage('octo-org/api', 42, 1)
+
+    expect(page.threadIds).toEqual(['PRRT_empty'])
+  })
+
+  it('throws when the requested page lies past the last cursor', () => {
+    const executor = new RecordingExecutor()
+    executor.setResponses([secondPage])
+
+    const gateway = new GitHubThreadInventoryGateway(executor.run)
+
+    expect(() => gateway.fetchPage('octo-org/api', 42, 2)).toThrow('out of range')
+  })
+
+  it('resolves a complete inventory across paginated threads, outdated ones included', () => {
+    const executor = new RecordingExecutor()
+    executor.setResponses([firstPage, secondPage])
+    const logger = { error: vi.fn() }
+
+    const inventory = resolveThreadInventory(
+      new GitHubThreadInventoryGateway(executor.run),
+      { projectPath: 'octo-org/api', mrNumber: 42 },
+      logger
+    )
+
+    expect([...inventory].sort()).toEqual([
+      '1001', '1002', '1003', 'PRRT_open', 'PRRT_outdated', 'PRRT_resolved',
+    ])
+    expect(logger.error).not.toHaveBeenCalled()
+  })
+})
@@ -40,6 +40,20 @@ describe('constrainActionSurface', () => {
     })
   })
 
+  describe('POST_INLINE_COMMENT restricted to trusted (posted outside the scanned sink)', () => {
+    const inline: ReviewAction = { type: 'POST_INLINE_COMMENT', filePath: 'src/app.ts', line: 3, body: 'nit' }
+
+    it('drops POST_INLINE_COMMENT for untrusted', () => {
+      const result = constrainActionSurface([inline], { provenance: 'untrusted', threadInventory: inventory() })
+      expect(result).toEqual([])
+    })
+
+    it('keeps POST_INLINE_COMMENT for trusted', () => {
+      const result = constrainActionSurface([inline], { provenance: 'trusted', threadInventory: inventory() })
+      expect(result).toEqual([inline])
+    })
+  })
+
   describe('AC-6 THREAD_RESOLVE target validation', () => {
     it('keeps in-set ids (with trim) and drops out-of-set on a trusted job', () => {
       const actions: ReviewAction[] = [
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCrossRepoComments,
+  postLinkedComments,
+} from '@/modules/review-execution/services/crossRepoPublisher.js';
+import { StubNoteCommentPostGateway } from '@/tests/stubs/noteCommentPost.stub.js';
+import { InMemoryShadowLogGateway } from '@/tests/stubs/shadowLog.stub.js';
+import { createStubLogger } from '@/tests/stubs/logger.stub.js';
+
+const REPORT = [
+  '# Review',
+  '## Cross-repository consistency',
+  '- `InvoiceDto.total` changed type in group/backend!12',
+  '## Summary',
+  'One warning.',
+].join('\n');
+const REVIEWED = { platform: 'gitlab' as const, projectPath: 'group/front', mrNumber: 3 };
+const LINKED = [
+  { projectPath: 'group/backend', mrNumber: 12 },
+  { projectPath: 'group/schemas', mrNumber: 4 },
+];
+const EXPECTED_BODY =
+  '## Cross-repository consistency\n- `InvoiceDto.total` changed type in group/backend!12\n\n_From the review of group/front!3._';
+
+describe('buildCrossRepoComments', () => {
+  it('addresses the section to every linked merge request', () => {
+    expect(buildCrossRepoComments(REPORT, REVIEWED, LINKED, createStubLogger())).toEqual([
+      { projectPath: 'group/backend', mrNumber: 12, body: EXPECTED_BODY },
+      { projectPath: 'group/schemas', mrNumber: 4, body: EXPECTED_BODY },
+    ]);
+  });
+
+  it('builds nothing when the report has no cross-repository section', () => {
+    expect(buildCrossRepoComments('# Review\nAll good.', REVIEWED, LINKED, createStubLogger())).toEqual([]);
+  });
+
+  it('builds nothing without linked merge requests', () => {
+    expect(buildCrossRepoComments(REPORT, REVIEWED, undefined, createStubLogger())).toEqual([]);
+  });
+});
+
+describe('postLinkedComments', () => {
+  const comments = buildCrossRepoComments(REPORT, REVIEWED, LINKED, createStubLogger());
+
+  it('posts the section on every linked merge request', async () => {
+    const postGateway = new StubNoteCommentPostGateway();
+
+    const posted = await postLinkedComments(comments, 'gitlab', postGateway, null, createStubLogger());
+
+    expect(posted).toBe(2);
+    expect(postGateway.calls).toEqual([
+      { projectPath: 'group/backend', mrNumber: 12, body: EXPECTED_BODY },
+      { projectPath: 'group/schemas', mrNumber: 4, body: EXPECTED_BODY },
+    ]);
+  });
+
+  it('keeps posting when one linked merge request fails', async () => {
+    const postGateway = new StubNoteCommentPostGateway();
+    const failing = {
+      postComment: async (input: { projectPath: string; mrNumber: number; body: string }) => {
+        if (input.mrNumber === 12) throw new Error('403 Forbidden');
+        await postGateway.postComment(input);
+      },
+    };
+
+    const posted = await postLinkedComments(comments, 'gitlab', failing, null, createStubLogger());
+
+    expect(posted).toBe(1);
+    expect(postGateway.calls.map((call) => call.projectPath)).toEqual(['group/schemas']);
+  });
+
+  it('records the section in the shadow log instead of posting it', async () => {
+    const postGateway = new StubNoteCommentPostGateway();
+    const shadowLog = new InMemoryShadowLogGateway();
+    const shadow = {
+      gateway: shadowLog,
+      localPath: '/repo/front',
+      reportFile: 'report.md',
+      now: () => new Date('2026-10-01T10:00:00.000Z'),
+    };
+
+    await postLinkedComments(comments, 'gitlab', postGateway, shadow, createStubLogger());
+
+    expect(postGateway.calls).toEqual([]);
+    expect(shadowLog.read('/repo/front', 'report.md')).toEqual([
+      expect.objectContaining({ projectPath: 'group/backend', mrNumber: 12, actions: [{ type: 'POST_COMMENT', body: EXPECTED_BODY }] }),
+      expect.objectContaining({ projectPath: 'group/schemas', mrNumber: 4, actions: [{ type: 'POST_COMMENT', body: EXPECTED_BODY }] }),
+    ]);
+  });
+});
@@ -1,5 +1,6 @@
 import { dispatchConstrainedActions } from '@/modules/review-execution/services/dispatchConstrainedActions.js'
 import type { ReviewAction } from '@/modules/review-execution/entities/reviewAction/reviewAction.js'
+import { InMemoryShadowLogGateway } from '@/tests/stubs/shadowLog.stub.js'
 import type {
   ThreadInventoryGateway,
   ThreadInventoryPage,
@@ -144,4 +145,86 @@ describe('dispatchConstrainedActions (breach closure: forged ids never reach liv
 
     expect(executor.calls.length).toBe(0)
   })
+
+  it('shadow mode: the surviving actions are recorded and no command runs', async () => {
+    const executor = new RecordingExecutor()
+    const inventory = new StubInventoryGateway()
+    inventory.setPages([{ page: 1, totalPages: 1, threadIds: ['10'] }])
+    const shadowLogGateway = new InMemoryShadowLogGateway()
+
+    const result = await dispatchConstrainedActions(
+      [
+        { type: 'THREAD_RESOLVE', threadId: '999' },
+        { type: 'THREAD_RESOLVE', threadId: '10' },
+        { type: 'FETCH_THREADS' },
+      ],
+      {
+        context: baseContext,
+        provenance: 'trusted',
+        inventoryGateway: inventory,
+        logger: new RecordingLogger(),
+        executor: executor.run,
+        shadow: {
+          gateway: shadowLogGateway,
+          localPath: '/tmp/repo',
+          reportFile: '2026-05-01-MR-42-review.md',
+          now: () => new Date('2026-05-01T10:00:00.000Z'),
+        },
+      }
+    )
+
+    expect(executor.calls).toEqual([])
+    expect(result).toEqual({ total: 2, succeeded: 1, failed: 0, skipped: 1 })
+    expect(shadowLogGateway.read('/tmp/repo', '2026-05-01-MR-42-review.md')[0].actions).toEqual([
+      { type: 'THREAD_RESOLVE', threadId: '10' },
+    ])
+  })
+
+  it('held for approval: the surviving comments are handed over and only the resolves run', async () => {
+    const executor = new RecordingExecutor()
+    const inventory = new StubInventoryGateway()
+    inventory.setPages([{ page: 1, totalPages: 1, threadIds: ['10'] }])
+    const held: ReviewAction[][] = []
+
+    await dispatchConstrainedActions(
+      [
+        { type: 'THREAD_RESOLVE', threadId: '10' },
+        { type: 'THREAD_REPLY', threadId: '999', message: 'forged' },
+        { type: 'POST_COMMENT', body: 'Review complete' },
+      ],
+      {
+        context: baseContext,
+        provenance: 'trusted',
+        inventoryGateway: inventory,
+        logger: new RecordingLogger(),
+        executor: executor.run,
+        holdForApproval: async comments => {
+          held.push(comments)
+          return true
+        },
+      }
+    )
+
+    expect(held).toEqual([[{ type: 'POST_COMMENT', body: 'Review complete' }]])
+    expect(executor.calls.length).toBe(1)
+    expect(resolvedDiscussions(executor)).toEqual([expect.stringContaining('/discussions/10')])
+  })
+
+  it('not held: the comments are published with the other actions', async () => {
+    const executor = new RecordingExecutor()
+    const inventory = new StubInventoryGateway()
+    inventory.setPages([{ page: 1, totalPages: 1, threadIds: ['10'] }])
+
+    await dispatchConstrainedActions([{ type: 'POST_COMMENT', body: 'Review complete' }], {
+      context: baseContext,
+      provenance: 'trusted',
+      inventoryGateway: inventory,
+      logger: new RecordingLogger(),
+      executor: executor.run,
+      holdForApproval: async () => false,
+    })
+
+    expect(executor.calls.length).toBe(1)
+    expect(executor.calls[0].args.some(a => a.endsWith('/notes'))).toBe(true)
+  })
 })
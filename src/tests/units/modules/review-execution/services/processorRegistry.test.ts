@@ -75,3 +75,20 @@ describe('ProcessorRegistry', () => {
     expect(resolved).toBe(newProcessor);
   });
 });
+
+describe('ProcessorRegistry.resolveJob', () => {
+  it('builds a journaled job with the webhook builder of its platform and job type', () => {
+    const registry = new ProcessorRegistry();
+    const processor = vi.fn(async () => {});
+    registry.register({ triggerSource: 'webhook-followup', platform: 'github', jobType: 'followup' }, () => processor);
+    const job = PendingReviewRequestFactory.create().job;
+
+    expect(registry.resolveJob({ ...job, platform: 'github', jobType: 'followup' })).toBe(processor);
+  });
+
+  it('returns null when no builder is registered for the job', () => {
+    const registry = new ProcessorRegistry();
+
+    expect(registry.resolveJob(PendingReviewRequestFactory.create().job)).toBeNull();
+  });
+});
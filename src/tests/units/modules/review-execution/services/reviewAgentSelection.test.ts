@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { selectReviewAgents } from '@/modules/review-execution/services/reviewAgentSelection.js';
+import { DEFAULT_FRONT_AGENTS } from '@/modules/review-execution/entities/progress/agentDefinition.type.js';
+
+const silentLogger = { info: () => {}, warn: () => {} };
+
+describe('selectReviewAgents', () => {
+  it('selects the agents from the changed files of the merge request', () => {
+    const gateway = { fetchChangedFiles: () => ['CHANGELOG.md'] };
+
+    const selection = selectReviewAgents(DEFAULT_FRONT_AGENTS, gateway, 'group/project', 12, silentLogger);
+
+    expect(selection.agents.map((agent) => agent.name)).toEqual(['threads', 'report']);
+    expect(selection.skipped).toHaveLength(DEFAULT_FRONT_AGENTS.length - 2);
+  });
+
+  it('keeps every agent without a gateway or when the fetch fails', () => {
+    const failing = {
+      fetchChangedFiles: () => {
+        throw new Error('API down');
+      },
+    };
+
+    expect(selectReviewAgents(DEFAULT_FRONT_AGENTS, undefined, 'group/project', 12, silentLogger).skipped).toEqual([]);
+    expect(selectReviewAgents(DEFAULT_FRONT_AGENTS, failing, 'group/project', 12, silentLogger)).toEqual({
+      agents: DEFAULT_FRONT_AGENTS,
+      skipped: [],
+    });
+  });
+});
@@ -152,4 +152,17 @@ describe('PersistJobRecordUseCase', () => {
     expect(gateway.lastAppended?.mergeRequestId).toBe(123);
     expect(gateway.lastAppended?.jobType).toBe('followup');
   });
+
+  it('persists the number of sessions of a retried job', async () => {
+    const { logger } = createCapturingLogger();
+    const useCase = new PersistJobRecordUseCase({ jobHistoryGateway: gateway, logger });
+
+    await useCase.execute({
+      jobStatus: makeJobStatus({ attempts: 3 }),
+      abortSignalAborted: false,
+      now: () => new Date('2026-05-25T10:05:01.000Z'),
+    });
+
+    expect(gateway.lastAppended?.attempts).toBe(3);
+  });
 });
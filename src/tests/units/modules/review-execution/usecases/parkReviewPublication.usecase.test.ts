@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { ReviewContext } from '@/modules/review-execution/entities/reviewContext/reviewContext.js';
+import { ParkReviewPublicationUseCase } from '@/modules/review-execution/usecases/parkReviewPublication.usecase.js';
+import { StubPendingPublicationGateway } from '@/tests/stubs/pendingPublication.stub.js';
+import { createStubLogger } from '@/tests/stubs/logger.stub.js';
+
+const context: ReviewContext = {
+  version: '1.0',
+  mergeRequestId: 'gitlab-group/project-42',
+  platform: 'gitlab',
+  projectPath: 'group/project',
+  mergeRequestNumber: 42,
+  createdAt: '2026-10-18T08:00:00.000Z',
+  threads: [],
+  actions: [
+    { type: 'POST_COMMENT', body: 'Summary' },
+    { type: 'THREAD_RESOLVE', threadId: 't1' },
+  ],
+  progress: { phase: 'completed', currentStep: null },
+  diffMetadata: { baseSha: 'base', headSha: 'head', startSha: 'start' },
+};
+
+const input = {
+  context,
+  localPath: '/projects/project',
+  jobType: 'review' as const,
+  baseUrl: 'https://gitlab.example.com',
+  verdict: 'needs_fixes' as const,
+};
+
+describe('ParkReviewPublicationUseCase', () => {
+  let gateway: StubPendingPublicationGateway;
+  let enabled: boolean;
+
+  beforeEach(() => {
+    gateway = new StubPendingPublicationGateway();
+    enabled = true;
+  });
+
+  function makeUseCase(): ParkReviewPublicationUseCase {
+    return new ParkReviewPublicationUseCase({
+      pendingPublicationGateway: gateway,
+      isEnabled: () => enabled,
+      now: () => '2026-10-18T09:00:00.000Z',
+      logger: createStubLogger(),
+    });
+  }
+
+  it('parks the comments of the review for approval', async () => {
+    const result = await makeUseCase().execute(input);
+
+    expect(result).toEqual({ status: 'parked', itemCount: 1 });
+    expect(await gateway.load('gitlab-group/project-42')).toEqual({
+      mergeRequestId: 'gitlab-group/project-42',
+      localPath: '/projects/project',
+      platform: 'gitlab',
+      projectPath: 'group/project',
+      mergeRequestNumber: 42,
+      jobType: 'review',
+      parkedAt: '2026-10-18T09:00:00.000Z',
+      baseUrl: 'https://gitlab.example.com',
+      verdict: 'needs_fixes',
+      diffMetadata: { baseSha: 'base', headSha: 'head', startSha: 'start' },
+      items: [{ itemId: '1', action: { type: 'POST_COMMENT', body: 'Summary' }, decision: 'pending', edited: false }],
+    });
+  });
+
+  it('leaves the review to be published when the project does not require approval', async () => {
+    enabled = false;
+
+    const result = await makeUseCase().execute(input);
+
+    expect(result).toEqual({ status: 'disabled' });
+    expect(await gateway.listAll()).toEqual([]);
+  });
+
+  it('parks nothing when the review posts no comment', async () => {
+    const result = await makeUseCase().execute({
+      ...input,
+      context: { ...context, actions: [{ type: 'THREAD_RESOLVE', threadId: 't1' }] },
+    });
+
+    expect(result).toEqual({ status: 'nothing-to-review' });
+    expect(await gateway.listAll()).toEqual([]);
+  });
+
+  it('holds the comments for linked merge requests with the review', async () => {
+    const linkedComments = [{ projectPath: 'group/backend', mrNumber: 12, body: '## Cross-repository consistency' }];
+
+    await makeUseCase().execute({ ...input, linkedComments });
+
+    expect((await gateway.load('gitlab-group/project-42'))?.linkedComments).toEqual(linkedComments);
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { LinkedComment } from '@/modules/review-execution/entities/pendingPublication/pendingPublication.schema.js';
+import type { ExecutionResult } from '@/modules/review-execution/entities/reviewAction/reviewAction.gateway.js';
+import type { ReviewContext } from '@/modules/review-execution/entities/reviewContext/reviewContext.js';
+import { PublishPendingPublicationUseCase } from '@/modules/review-execution/usecases/publishPendingPublication.usecase.js';
+import { UpdatePendingPublicationUseCase } from '@/modules/review-execution/usecases/updatePendingPublication.usecase.js';
+import { StubPendingPublicationGateway } from '@/tests/stubs/pendingPublication.stub.js';
+import { PendingPublicationFactory } from '@/tests/factories/pendingPublication.factory.js';
+import { createStubLogger } from '@/tests/stubs/logger.stub.js';
+
+const mergeRequestId = 'github-acme/api-7';
+
+describe('PublishPendingPublicationUseCase', () => {
+  let gateway: StubPendingPublicationGateway;
+  let published: ReviewContext[];
+  let linkedPosted: LinkedComment[];
+  const logger = createStubLogger();
+
+  beforeEach(() => {
+    gateway = new StubPendingPublicationGateway();
+    gateway.prepopulate(PendingPublicationFactory.create());
+    published = [];
+    linkedPosted = [];
+  });
+
+  function makeUseCase(
+    outcome: (context: ReviewContext) => Promise<ExecutionResult> = async (context) => ({
+      total: context.actions.length,
+      succeeded: context.actions.length,
+      failed: 0,
+      skipped: 0,
+    }),
+  ): PublishPendingPublicationUseCase {
+    return new PublishPendingPublicationUseCase({
+      pendingPublicationGateway: gateway,
+      executeActions: async (context) => {
+        published.push(context);
+        return outcome(context);
+      },
+      postLinkedComments: async (publication) => {
+        linkedPosted.push(...(publication.linkedComments ?? []));
+        return publication.linkedComments?.length ?? 0;
+      },
+      logger,
+    });
+  }
+
+  async function decide(itemId: string, decision: 'approved' | 'dropped', text?: string): Promise<void> {
+    await new UpdatePendingPublicationUseCase({ pendingPublicationGateway: gateway, logger }).execute({
+      mergeRequestId,
+      itemId,
+      decision,
+      text,
+    });
+  }
+
+  it('refuses to publish while a comment has no decision', async () => {
+    await decide('1', 'approved');
+
+    const result = await makeUseCase().execute({ mergeRequestId });
+
+    expect(result).toEqual({ status: 'undecided', pendingCount: 1 });
+    expect(published).toEqual([]);
+    expect(await gateway.load(mergeRequestId)).not.toBeNull();
+  });
+
+  it('publishes the approved comments as edited and discards the publication', async () => {
+    await decide('1', 'dropped');
+    await decide('2', 'approved', 'Guard against a null user');
+
+    const result = await makeUseCase().execute({ mergeRequestId });
+
+    expect(result).toEqual({ status: 'published', result: { total: 1, succeeded: 1, failed: 0, skipped: 0 } });
+    expect(published[0].actions).toEqual([
+      { type: 'POST_INLINE_COMMENT', filePath: 'src/a.ts', line: 12, body: 'Guard against a null user' },
+    ]);
+    expect(await gateway.load(mergeRequestId)).toBeNull();
+  });
+
+  it('posts nothing when every comment was dropped', async () => {
+    await decide('1', 'dropped');
+    await decide('2', 'dropped');
+
+    const result = await makeUseCase().execute({ mergeRequestId });
+
+    expect(result).toEqual({ status: 'published', result: { total: 0, succeeded: 0, failed: 0, skipped: 0 } });
+    expect(published).toEqual([]);
+    expect(await gateway.load(mergeRequestId)).toBeNull();
+  });
+
+  it('posts the comments for linked merge requests with the approved comments', async () => {
+    const linkedComments = [{ projectPath: 'acme/web', mrNumber: 3, body: '## Cross-repository consistency' }];
+    gateway.prepopulate(PendingPublicationFactory.create({ linkedComments }));
+    await decide('1', 'approved');
+    await decide('2', 'dropped');
+
+    await makeUseCase().execute({ mergeRequestId });
+
+    expect(linkedPosted).toEqual(linkedComments);
+  });
+
+  it('does not post the comments for linked merge requests when every comment was dropped', async () => {
+    gateway.prepopulate(
+      PendingPublicationFactory.create({
+        linkedComments: [{ projectPath: 'acme/web', mrNumber: 3, body: '## Cross-repository consistency' }],
+      }),
+    );
+    await decide('1', 'dropped');
+    await decide('2', 'dropped');
+
+    await makeUseCase().execute({ mergeRequestId });
+
+    expect(linkedPosted).toEqual([]);
+  });
+
+  it('publishes once when the same merge request is published twice concurrently', async () => {
+    await decide('1', 'approved');
+    await decide('2', 'approved');
+    let finishPosting = (): void => {};
+    const posting = new Promise<void>((resolve) => {
+      finishPosting = resolve;
+    });
+    const useCase = makeUseCase(async (context) => {
+      await posting;
+      return { total: context.actions.length, succeeded: context.actions.length, failed: 0, skipped: 0 };
+    });
+
+    const first = useCase.execute({ mergeRequestId });
+    await vi.waitFor(async () => expect(await gateway.isClaimed(mergeRequestId)).toBe(true));
+    const second = await useCase.execute({ mergeRequestId });
+    finishPosting();
+
+    expect(second).toEqual({ status: 'publishing' });
+    expect((await first).status).toBe('published');
+    expect(published).toHaveLength(1);
+  });
+
+  it('refuses to publish a publication another publisher claimed after it was loaded', async () => {
+    await decide('1', 'approved');
+    await decide('2', 'approved');
+    const load = gateway.load.bind(gateway);
+    vi.spyOn(gateway, 'load').mockImplementation(async (id) => {
+      const publication = await load(id);
+      await gateway.claim(id);
+      return publication;
+    });
+
+    const result = await makeUseCase().execute({ mergeRequestId });
+
+    expect(result).toEqual({ status: 'publishing' });
+    expect(published).toEqual([]);
+  });
+
+  it('keeps the comments the platform rejected parked, approved, and drops the claim', async () => {
+    gateway.prepopulate(
+      PendingPublicationFactory.create({
+        linkedComments: [{ projectPath: 'acme/web', mrNumber: 3, body: '## Cross-repository consistency' }],
+      }),
+    );
+    await decide('1', 'approved');
+    await decide('2', 'approved');
+
+    const result = await makeUseCase(async (context) => ({
+      total: 2,
+      succeeded: 1,
+      failed: 1,
+      skipped: 0,
+      failedActions: [context.actions[1]],
+    })).execute({ mergeRequestId });
+
+    expect(result.status).toBe('published');
+    const parked = await gateway.load(mergeRequestId);
+    expect(parked?.items).toEqual([
+      {
+        itemId: '2',
+        action: { type: 'POST_INLINE_COMMENT', filePath: 'src/a.ts', line: 12, body: 'Null check missing' },
+        decision: 'approved',
+        edited: false,
+      },
+    ]);
+    expect(parked?.linkedComments).toBeUndefined();
+    expect(await gateway.isClaimed(mergeRequestId)).toBe(false);
+  });
+
+  it('parks the publication again when posting throws', async () => {
+    await decide('1', 'approved');
+    await decide('2', 'dropped');
+
+    await expect(
+      makeUseCase(async () => {
+        throw new Error('egress blocked');
+      }).execute({ mergeRequestId }),
+    ).rejects.toThrow('egress blocked');
+
+    expect((await gateway.load(mergeRequestId))?.items.map((item) => item.decision)).toEqual(['approved', 'dropped']);
+    expect(await gateway.isClaimed(mergeRequestId)).toBe(false);
+  });
+
+  it('reports a merge request without pending publication', async () => {
+    const result = await makeUseCase().execute({ mergeRequestId: 'gitlab-other-1' });
+
+    expect(result).toEqual({ status: 'not-found' });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { JournalJobLifecycleUseCase } from '@/modules/review-execution/usecases/queueJournal/journalJobLifecycle.usecase.js';
+import { InMemoryQueueJournalGateway } from '@/tests/stubs/queueJournal.stub.js';
+import { ReviewJobFactory } from '@/tests/factories/reviewJob.factory.js';
+
+const NOW = new Date('2026-06-02T09:00:00.000Z');
+const FIRST = ReviewJobFactory.create();
+const SECOND = ReviewJobFactory.createGitHub();
+
+describe('JournalJobLifecycleUseCase', () => {
+  let gateway: InMemoryQueueJournalGateway;
+  let useCase: JournalJobLifecycleUseCase;
+
+  beforeEach(() => {
+    gateway = new InMemoryQueueJournalGateway();
+    useCase = new JournalJobLifecycleUseCase({ queueJournalGateway: gateway, now: () => NOW });
+  });
+
+  it('journals the enqueue with the job snapshot, then its start', () => {
+    useCase.execute('queued', { job: FIRST, status: 'queued' });
+    useCase.execute('running', { job: FIRST, status: 'running' });
+
+    expect(gateway.entries).toEqual([
+      { type: 'enqueued', job: FIRST, at: NOW.toISOString() },
+      { type: 'started', jobId: FIRST.id, at: NOW.toISOString() },
+    ]);
+  });
+
+  it('journals a finish while other jobs are still open', () => {
+    useCase.execute('queued', { job: FIRST, status: 'queued' });
+    useCase.execute('queued', { job: SECOND, status: 'queued' });
+    useCase.execute('finished', { job: FIRST, status: 'completed' });
+
+    expect(gateway.entries.at(-1)).toEqual({ type: 'finished', jobId: FIRST.id, at: NOW.toISOString() });
+    expect(gateway.rewriteCount).toBe(0);
+  });
+
+  it('empties the journal when the last open job finishes', () => {
+    useCase.execute('queued', { job: FIRST, status: 'queued' });
+    useCase.execute('running', { job: FIRST, status: 'running' });
+    useCase.execute('finished', { job: FIRST, status: 'failed' });
+
+    expect(gateway.entries).toEqual([]);
+  });
+
+  it('keeps the replacement of a superseded job open when the stale one finishes', () => {
+    const replacement = { ...FIRST, headSha: 'new-sha' };
+    useCase.execute('queued', { job: FIRST, status: 'queued' });
+    useCase.execute('running', { job: FIRST, status: 'running' });
+    useCase.execute('queued', { job: replacement, status: 'queued' });
+    useCase.execute('finished', { job: FIRST, status: 'failed', superseded: true });
+
+    expect(gateway.entries.map((entry) => entry.type)).toEqual(['enqueued', 'started', 'enqueued']);
+    expect(gateway.rewriteCount).toBe(0);
+
+    useCase.execute('running', { job: replacement, status: 'running' });
+    useCase.execute('finished', { job: replacement, status: 'completed' });
+
+    expect(gateway.entries).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { ReviewJob } from '@/frameworks/queue/pQueueAdapter.js';
+import { ResumeQueuedJobsUseCase } from '@/modules/review-execution/usecases/queueJournal/resumeQueuedJobs.usecase.js';
+import { InMemoryQueueJournalGateway } from '@/tests/stubs/queueJournal.stub.js';
+import { createStubLogger } from '@/tests/stubs/logger.stub.js';
+import { ReviewJobFactory } from '@/tests/factories/reviewJob.factory.js';
+
+const AT = '2026-06-02T09:00:00.000Z';
+const QUEUED = ReviewJobFactory.create();
+const RUNNING = ReviewJobFactory.createGitHub();
+
+describe('ResumeQueuedJobsUseCase', () => {
+  let gateway: InMemoryQueueJournalGateway;
+  let enqueued: ReviewJob[];
+  let processor: (job: ReviewJob, signal: AbortSignal) => Promise<void>;
+
+  beforeEach(() => {
+    gateway = new InMemoryQueueJournalGateway();
+    gateway.entries = [
+      { type: 'enqueued', job: RUNNING, at: AT },
+      { type: 'started', jobId: RUNNING.id, at: AT },
+      { type: 'enqueued', job: QUEUED, at: AT },
+    ];
+    enqueued = [];
+    processor = vi.fn(async () => {});
+  });
+
+  function createUseCase(overrides: Partial<ConstructorParameters<typeof ResumeQueuedJobsUseCase>[0]> = {}) {
+    return new ResumeQueuedJobsUseCase({
+      queueJournalGateway: gateway,
+      resolveProcessor: () => processor,
+      enqueue: async (job) => {
+        enqueued.push(job);
+        return true;
+      },
+      logger: createStubLogger(),
+      ...overrides,
+    });
+  }
+
+  it('enqueues interrupted and queued jobs again, flagged as resumed', async () => {
+    const summary = await createUseCase().execute();
+
+    expect(summary).toEqual({
+      resumed: [
+        { jobId: RUNNING.id, interrupted: true },
+        { jobId: QUEUED.id, interrupted: false },
+      ],
+      dropped: [],
+    });
+    expect(enqueued).toEqual([
+      { ...RUNNING, resumedFrom: 'running' },
+      { ...QUEUED, resumedFrom: 'queued' },
+    ]);
+  });
+
+  it('empties the journal before enqueuing, the new enqueues journal themselves', async () => {
+    const journalSizes: number[] = [];
+    await createUseCase({
+      enqueue: async () => {
+        journalSizes.push(gateway.entries.length);
+        return true;
+      },
+    }).execute();
+
+    expect(journalSizes).toEqual([0, 0]);
+  });
+
+  it('drops a job no processor can be rebuilt for', async () => {
+    const summary = await createUseCase({
+      resolveProcessor: (job) => (job.platform === 'github' ? null : processor),
+    }).execute();
+
+    expect(summary.dropped).toEqual([{ jobId: RUNNING.id, reason: 'no-processor' }]);
+    expect(enqueued.map((job) => job.id)).toEqual([QUEUED.id]);
+  });
+
+  it('reports a job the queue refused', async () => {
+    const summary = await createUseCase({ enqueue: async () => false }).execute();
+
+    expect(summary.resumed).toEqual([]);
+    expect(summary.dropped.map((entry) => entry.reason)).toEqual(['refused', 'refused']);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { UpdatePendingPublicationUseCase } from '@/modules/review-execution/usecases/updatePendingPublication.usecase.js';
+import { StubPendingPublicationGateway } from '@/tests/stubs/pendingPublication.stub.js';
+import { PendingPublicationFactory } from '@/tests/factories/pendingPublication.factory.js';
+import { createStubLogger } from '@/tests/stubs/logger.stub.js';
+
+const mergeRequestId = 'github-acme/api-7';
+
+describe('UpdatePendingPublicationUseCase', () => {
+  let gateway: StubPendingPublicationGateway;
+  let useCase: UpdatePendingPublicationUseCase;
+
+  beforeEach(() => {
+    gateway = new StubPendingPublicationGateway();
+    gateway.prepopulate(PendingPublicationFactory.create());
+    useCase = new UpdatePendingPublicationUseCase({ pendingPublicationGateway: gateway, logger: createStubLogger() });
+  });
+
+  it('saves the decision and edited text of a comment', async () => {
+    const result = await useCase.execute({ mergeRequestId, itemId: '1', decision: 'approved', text: 'Edited' });
+
+    expect(result.status).toBe('updated');
+    const saved = await gateway.load(mergeRequestId);
+    expect(saved?.items[0]).toEqual({
+      itemId: '1',
+      action: { type: 'POST_COMMENT', body: 'Edited' },
+      decision: 'approved',
+      edited: true,
+    });
+  });
+
+  it('reports an unknown comment', async () => {
+    const result = await useCase.execute({ mergeRequestId, itemId: '9', decision: 'approved' });
+
+    expect(result).toEqual({ status: 'item-not-found' });
+  });
+
+  it('reports a merge request without pending publication', async () => {
+    const result = await useCase.execute({ mergeRequestId: 'gitlab-other-1', itemId: '1', decision: 'dropped' });
+
+    expect(result).toEqual({ status: 'not-found' });
+  });
+});
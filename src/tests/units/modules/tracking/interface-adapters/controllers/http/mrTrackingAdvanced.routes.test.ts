@@ -841,3 +841,92 @@ describe('mrTrackingAdvancedRoutes POST /api/mr-tracking/sync', () => {
     await app.close();
   });
 });
+
+describe('mrTrackingAdvancedRoutes POST /api/mr-tracking/links', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns 400 when the reference is not a merge request reference', async () => {
+    const { app } = await buildApp({ enforceBudgetAccepted: true });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/mr-tracking/links',
+      payload: { mrId: 'gitlab-test-org/test-project-42', projectPath: '/home/user/projects/test', reference: 'backend', linked: true },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(response.json().success).toBe(false);
+
+    await app.close();
+  });
+
+  it('returns 404 when the MR is not tracked', async () => {
+    const { app } = await buildApp({ enforceBudgetAccepted: true, tracking: { getById: vi.fn(() => null) } });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/mr-tracking/links',
+      payload: {
+        mrId: 'gitlab-test-org/test-project-42',
+        projectPath: '/home/user/projects/test',
+        reference: 'test-org/backend!12',
+        linked: true,
+      },
+    });
+
+    expect(response.statusCode).toBe(404);
+    expect(response.json()).toEqual({ success: false, error: 'MR non trouvée' });
+
+    await app.close();
+  });
+
+  it('returns 400 when the MR is linked to itself', async () => {
+    const mr = TrackedMrFactory.create({ id: 'gitlab-test-org/test-project-42', project: 'test-org/test-project', mrNumber: 42 });
+    const { app, update } = await buildApp({ enforceBudgetAccepted: true, tracking: { getById: vi.fn(() => mr) } });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/mr-tracking/links',
+      payload: {
+        mrId: 'gitlab-test-org/test-project-42',
+        projectPath: '/home/user/projects/test',
+        reference: 'test-org/test-project!42',
+        linked: true,
+      },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(update).not.toHaveBeenCalled();
+
+    await app.close();
+  });
+
+  it('stores the link and returns the linked merge requests', async () => {
+    const mr = TrackedMrFactory.create({ id: 'gitlab-test-org/test-project-42', project: 'test-org/test-project', mrNumber: 42 });
+    const { app, update } = await buildApp({
+      enforceBudgetAccepted: true,
+      tracking: { update: vi.fn(), getById: vi.fn(() => mr) },
+    });
+
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/mr-tracking/links',
+      payload: {
+        mrId: 'gitlab-test-org/test-project-42',
+        projectPath: '/home/user/projects/test',
+        reference: 'test-org/backend!12',
+        linked: true,
+      },
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ success: true, linkedMrs: [{ projectPath: 'test-org/backend', mrNumber: 12 }] });
+    expect(update).toHaveBeenCalledWith('/home/user/projects/test', 'gitlab-test-org/test-project-42', {
+      linkedMrs: [{ projectPath: 'test-org/backend', mrNumber: 12 }],
+    });
+
+    await app.close();
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { LinkMergeRequestUseCase } from '@/modules/tracking/usecases/tracking/linkMergeRequest.usecase.js';
+import { InMemoryReviewRequestTrackingGateway } from '@/tests/stubs/reviewRequestTracking.stub.js';
+import { TrackedMrFactory } from '@/tests/factories/trackedMr.factory.js';
+
+const PROJECT_PATH = '/project';
+const MR_ID = 'mr-1';
+const BACKEND = { projectPath: 'group/backend', mrNumber: 12 };
+
+describe('LinkMergeRequestUseCase', () => {
+  it('links a merge request of another repository', () => {
+    const gateway = new InMemoryReviewRequestTrackingGateway();
+    gateway.create(PROJECT_PATH, TrackedMrFactory.create({ id: MR_ID }));
+    const useCase = new LinkMergeRequestUseCase(gateway);
+
+    const result = useCase.execute({ projectPath: PROJECT_PATH, mrId: MR_ID, link: BACKEND, linked: true });
+
+    expect(result).toEqual({ kind: 'updated', linkedMrs: [BACKEND] });
+    expect(gateway.getById(PROJECT_PATH, MR_ID)?.linkedMrs).toEqual([BACKEND]);
+  });
+
+  it('does not link the same merge request twice', () => {
+    const gateway = new InMemoryReviewRequestTrackingGateway();
+    gateway.create(PROJECT_PATH, TrackedMrFactory.create({ id: MR_ID, linkedMrs: [BACKEND] }));
+    const useCase = new LinkMergeRequestUseCase(gateway);
+
+    const result = useCase.execute({
+      projectPath: PROJECT_PATH,
+      mrId: MR_ID,
+      link: { projectPath: 'Group/Backend', mrNumber: 12 },
+      linked: true,
+    });
+
+    expect(result).toEqual({ kind: 'updated', linkedMrs: [{ projectPath: 'Group/Backend', mrNumber: 12 }] });
+  });
+
+  it('removes a link', () => {
+    const gateway = new InMemoryReviewRequestTrackingGateway();
+    const schemas = { projectPath: 'group/schemas', mrNumber: 4 };
+    gateway.create(PROJECT_PATH, TrackedMrFactory.create({ id: MR_ID, linkedMrs: [BACKEND, schemas] }));
+    const useCase = new LinkMergeRequestUseCase(gateway);
+
+    useCase.execute({ projectPath: PROJECT_PATH, mrId: MR_ID, link: BACKEND, linked: false });
+
+    expect(gateway.getById(PROJECT_PATH, MR_ID)?.linkedMrs).toEqual([schemas]);
+  });
+
+  it('refuses to link a merge request to itself', () => {
+    const gateway = new InMemoryReviewRequestTrackingGateway();
+    gateway.create(PROJECT_PATH, TrackedMrFactory.create({ id: MR_ID, project: 'group/front', mrNumber: 3 }));
+    const useCase = new LinkMergeRequestUseCase(gateway);
+
+    const result = useCase.execute({
+      projectPath: PROJECT_PATH,
+      mrId: MR_ID,
+      link: { projectPath: 'group/front', mrNumber: 3 },
+      linked: true,
+    });
+
+    expect(result).toEqual({ kind: 'self-link' });
+    expect(gateway.getById(PROJECT_PATH, MR_ID)?.linkedMrs).toBeUndefined();
+  });
+
+  it('reports an untracked merge request', () => {
+    const useCase = new LinkMergeRequestUseCase(new InMemoryReviewRequestTrackingGateway());
+
+    expect(useCase.execute({ projectPath: PROJECT_PATH, mrId: MR_ID, link: BACKEND, linked: true })).toEqual({
+      kind: 'mr-not-found',
+    });
+  });
+});
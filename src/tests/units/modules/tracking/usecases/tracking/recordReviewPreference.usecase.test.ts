@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { RecordReviewPreferenceUseCase } from '@/modules/tracking/usecases/tracking/recordReviewPreference.usecase.js';
+import { InMemoryReviewRequestTrackingGateway } from '@/tests/stubs/reviewRequestTracking.stub.js';
+import { TrackedMrFactory } from '@/tests/factories/trackedMr.factory.js';
+
+const PROJECT_PATH = '/project';
+const MR_ID = 'mr-1';
+const FIXED_NOW = '2026-06-02T09:00:00.000Z';
+const now = (): string => FIXED_NOW;
+
+describe('RecordReviewPreferenceUseCase', () => {
+  it('records a focus on the tracked merge request', () => {
+    const gateway = new InMemoryReviewRequestTrackingGateway();
+    gateway.create(PROJECT_PATH, TrackedMrFactory.create({ id: MR_ID }));
+    const useCase = new RecordReviewPreferenceUseCase(gateway);
+
+    const result = useCase.execute({
+      projectPath: PROJECT_PATH,
+      mrId: MR_ID,
+      change: { focus: 'security' },
+      author: 'alice',
+      now,
+    });
+
+    expect(result).toEqual({
+      kind: 'recorded',
+      preferences: { focus: 'security', model: undefined, updatedBy: 'alice', updatedAt: FIXED_NOW },
+    });
+    expect(gateway.getById(PROJECT_PATH, MR_ID)?.preferences?.focus).toBe('security');
+  });
+
+  it('keeps the focus when the model changes', () => {
+    const gateway = new InMemoryReviewRequestTrackingGateway();
+    gateway.create(
+      PROJECT_PATH,
+      TrackedMrFactory.create({
+        id: MR_ID,
+        preferences: { focus: 'security', updatedBy: 'alice', updatedAt: '2026-06-01T09:00:00.000Z' },
+      }),
+    );
+    const useCase = new RecordReviewPreferenceUseCase(gateway);
+
+    useCase.execute({ projectPath: PROJECT_PATH, mrId: MR_ID, change: { model: 'opus' }, author: 'bob', now });
+
+    expect(gateway.getById(PROJECT_PATH, MR_ID)?.preferences).toEqual({
+      focus: 'security',
+      model: 'opus',
+      updatedBy: 'bob',
+      updatedAt: FIXED_NOW,
+    });
+  });
+
+  it('returns mr-not-found when the merge request is not tracked', () => {
+    const gateway = new InMemoryReviewRequestTrackingGateway();
+    const useCase = new RecordReviewPreferenceUseCase(gateway);
+
+    const result = useCase.execute({
+      projectPath: PROJECT_PATH,
+      mrId: 'unknown-mr',
+      change: { focus: 'security' },
+      author: 'alice',
+      now,
+    });
+
+    expect(result).toEqual({ kind: 'mr-not-found' });
+  });
+});
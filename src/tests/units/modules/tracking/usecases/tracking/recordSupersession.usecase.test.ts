@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { RecordSupersessionUseCase } from '@/modules/tracking/usecases/tracking/recordSupersession.usecase.js';
+import { InMemoryReviewRequestTrackingGateway } from '@/tests/stubs/reviewRequestTracking.stub.js';
+import { TrackedMrFactory } from '@/tests/factories/trackedMr.factory.js';
+
+const PROJECT_PATH = '/project';
+const MR_ID = 'mr-1';
+const FIXED_NOW = '2026-06-02T09:00:00.000Z';
+const now = (): string => FIXED_NOW;
+
+describe('RecordSupersessionUseCase', () => {
+  it('appends the supersession to the tracked merge request history', () => {
+    const gateway = new InMemoryReviewRequestTrackingGateway();
+    gateway.create(
+      PROJECT_PATH,
+      TrackedMrFactory.create({
+        id: MR_ID,
+        supersessions: [{ type: 'review', headSha: 'aaa111', supersededAt: '2026-06-01T09:00:00.000Z' }],
+      }),
+    );
+    const useCase = new RecordSupersessionUseCase(gateway);
+
+    const result = useCase.execute({
+      projectPath: PROJECT_PATH,
+      mrId: MR_ID,
+      type: 'followup',
+      supersededHeadSha: 'aaa111',
+      headSha: 'bbb222',
+      now,
+    });
+
+    expect(result).toEqual({
+      kind: 'recorded',
+      supersession: { type: 'followup', supersededHeadSha: 'aaa111', headSha: 'bbb222', supersededAt: FIXED_NOW },
+    });
+    expect(gateway.getById(PROJECT_PATH, MR_ID)?.supersessions).toHaveLength(2);
+  });
+
+  it('omits the superseded head when the cancelled job did not know it', () => {
+    const gateway = new InMemoryReviewRequestTrackingGateway();
+    gateway.create(PROJECT_PATH, TrackedMrFactory.create({ id: MR_ID }));
+    const useCase = new RecordSupersessionUseCase(gateway);
+
+    useCase.execute({ projectPath: PROJECT_PATH, mrId: MR_ID, type: 'review', headSha: 'bbb222', now });
+
+    expect(gateway.getById(PROJECT_PATH, MR_ID)?.supersessions).toEqual([
+      { type: 'review', headSha: 'bbb222', supersededAt: FIXED_NOW },
+    ]);
+  });
+
+  it('reports an untracked merge request', () => {
+    const useCase = new RecordSupersessionUseCase(new InMemoryReviewRequestTrackingGateway());
+
+    expect(
+      useCase.execute({ projectPath: PROJECT_PATH, mrId: MR_ID, type: 'review', headSha: 'bbb222', now }),
+    ).toEqual({ kind: 'mr-not-found' });
+  });
+});
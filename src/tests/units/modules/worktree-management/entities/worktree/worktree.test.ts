@@ -59,8 +59,16 @@ describe('worktree entity helpers', () => {
       });
     });
 
+    it('parses a bitbucket directory name', () => {
+      expect(parseWorktreeDirectoryName('bitbucket-workspace-repo-7')).toEqual({
+        platform: 'bitbucket',
+        projectPath: 'workspace-repo',
+        mrNumber: 7,
+      });
+    });
+
     it('returns null when the name does not match the pattern', () => {
-      expect(parseWorktreeDirectoryName('bitbucket-owner-repo-17')).toBeNull();
+      expect(parseWorktreeDirectoryName('sourcehut-owner-repo-17')).toBeNull();
     });
 
     it('returns null when there is no trailing mr number', () => {
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { computeIncrementalDiff } from '@/modules/worktree-management/usecases/computeIncrementalDiff.usecase.js';
+import { StubGitCommandExecutor } from '@/tests/stubs/gitCommandExecutor.stub.js';
+
+const input = { worktreePath: '/worktrees/mr-42', sinceSha: 'abc123' };
+const headSha = 'def456';
+
+describe('computeIncrementalDiff use case', () => {
+  let executor: StubGitCommandExecutor;
+
+  beforeEach(() => {
+    executor = new StubGitCommandExecutor();
+    executor.programResponse('rev-parse-head', { exitCode: 0, stdout: `${headSha}\n`, stderr: '' });
+  });
+
+  it('diffs the new commits when the branch grew on top of the reviewed head', async () => {
+    executor.programResponse('diff', { exitCode: 0, stdout: 'diff --git a/src/a.ts b/src/a.ts\n', stderr: '' });
+    executor.programResponse('diff', { exitCode: 0, stdout: '10\t2\tsrc/a.ts\n-\t-\tlogo.png\n3\t0\tsrc/b.ts\n', stderr: '' });
+    executor.programResponse('rev-list', { exitCode: 0, stdout: '2\n', stderr: '' });
+
+    const result = await computeIncrementalDiff(input, { executor });
+
+    expect(result).toEqual({
+      status: 'computed',
+      mode: 'fast-forward',
+      sinceSha: 'abc123',
+      headSha,
+      diff: 'diff --git a/src/a.ts b/src/a.ts\n',
+      diffStats: { commitsCount: 2, additions: 13, deletions: 2 },
+    });
+    expect(executor.callsOfKind('merge-base')[0].args).toEqual(['merge-base', '--is-ancestor', 'abc123', headSha]);
+    expect(executor.callsOfKind('range-diff')).toHaveLength(0);
+  });
+
+  it('uses git range-diff when the reviewed head is no longer an ancestor', async () => {
+    executor.programResponse('merge-base', { exitCode: 1, stdout: '', stderr: '' });
+    executor.programResponse('range-diff', { exitCode: 0, stdout: '1:  abc123 ! 1:  def456 fix\n', stderr: '' });
+
+    const result = await computeIncrementalDiff(input, { executor });
+
+    expect(result).toMatchObject({ status: 'computed', mode: 'rewritten', diff: '1:  abc123 ! 1:  def456 fix\n' });
+    expect(executor.callsOfKind('range-diff')[0].args).toEqual(['range-diff', `abc123...${headSha}`]);
+    expect(executor.callsOfKind('diff')).toHaveLength(1);
+  });
+
+  it('reports the reviewed head as missing when the worktree does not know it', async () => {
+    executor.programResponse('cat-file', { exitCode: 1, stdout: '', stderr: 'fatal: Not a valid object name' });
+
+    const result = await computeIncrementalDiff(input, { executor });
+
+    expect(result).toEqual({ status: 'unavailable', reason: 'since-sha-missing' });
+    expect(executor.callsOfKind('merge-base')).toHaveLength(0);
+  });
+
+  it('reports the head as unknown when rev-parse fails', async () => {
+    executor = new StubGitCommandExecutor();
+    executor.programResponse('rev-parse-head', { exitCode: 128, stdout: '', stderr: 'fatal: not a git repository' });
+
+    const result = await computeIncrementalDiff(input, { executor });
+
+    expect(result).toEqual({ status: 'unavailable', reason: 'head-unknown' });
+  });
+
+  it('reports a git failure when the ancestry check errors', async () => {
+    executor.programResponse('merge-base', { exitCode: 128, stdout: '', stderr: 'fatal: bad object' });
+
+    const result = await computeIncrementalDiff(input, { executor });
+
+    expect(result).toEqual({ status: 'unavailable', reason: 'git-failed' });
+  });
+});
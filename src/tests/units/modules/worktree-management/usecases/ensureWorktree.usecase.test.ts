@@ -102,6 +102,48 @@ describe('ensureWorktree use case', () => {
     expect(addCall?.args).toContain(`refs/remotes/pr-${identity.mrNumber}/head`);
   });
 
+  it('checks out a local commit detached, without fetching', async () => {
+    const result = await ensureWorktree(
+      {
+        identity,
+        sourceBranch: 'abc1234',
+        source: { kind: 'local' },
+        sourceCheckoutPath: '/repo',
+      },
+      {
+        executor,
+        worktreeExists: async path => fileSystem.existingPaths.has(path),
+        writeWorktreeSettings: async () => ({ status: 'ok' }),
+      },
+    );
+
+    expect(result).toEqual({ status: 'created', path: expectedPath, settingsWarning: null });
+    expect(executor.calls.map(c => c.kind)).toEqual(['worktree-prune', 'worktree-add']);
+    expect(executor.callsOfKind('worktree-add')[0]?.args).toEqual(['worktree', 'add', '--detach', expectedPath, 'abc1234']);
+  });
+
+  it('resets an existing worktree to the local commit', async () => {
+    fileSystem.existingPaths.add(expectedPath);
+
+    const result = await ensureWorktree(
+      {
+        identity,
+        sourceBranch: 'abc1234',
+        source: { kind: 'local' },
+        sourceCheckoutPath: '/repo',
+      },
+      {
+        executor,
+        worktreeExists: async path => fileSystem.existingPaths.has(path),
+        writeWorktreeSettings: async () => ({ status: 'ok' }),
+      },
+    );
+
+    expect(result).toEqual({ status: 'reused', path: expectedPath });
+    expect(executor.callsOfKind('fetch')).toHaveLength(0);
+    expect(executor.callsOfKind('reset-hard')[0]?.args).toEqual(['reset', '--hard', 'abc1234']);
+  });
+
   it('returns branch-not-found when the fetch fails', async () => {
     executor.programResponse('fetch', { exitCode: 128, stdout: '', stderr: "fatal: couldn't find remote ref feat/x" });
 
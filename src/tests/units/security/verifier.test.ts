@@ -4,11 +4,15 @@ import { createFastifyRequestStub } from '../../stubs/fastifyRequest.stub.js'
 
 const TEST_GITLAB_TOKEN = 'gitlab-secret-token-123'
 const TEST_GITHUB_SECRET = 'github-webhook-secret-456'
+const TEST_BITBUCKET_SECRET = 'bitbucket-webhook-secret-789'
+const TEST_GITEA_SECRET = 'gitea-webhook-secret-012'
 
 vi.mock('../../../config/loader.js', () => ({
   loadEnvSecrets: vi.fn(() => ({
     gitlabWebhookToken: TEST_GITLAB_TOKEN,
     githubWebhookSecret: TEST_GITHUB_SECRET,
+    bitbucketWebhookSecret: TEST_BITBUCKET_SECRET,
+    giteaWebhookSecret: TEST_GITEA_SECRET,
   })),
 }))
 
@@ -18,6 +22,11 @@ import {
   getGitLabEventType,
   getGitLabEventUuid,
   getGitHubEventType,
+  verifyBitbucketSignature,
+  getBitbucketEventKey,
+  getBitbucketRequestUuid,
+  verifyGiteaSignature,
+  getGiteaEventType,
 } from '../../../security/verifier.js'
 
 describe('verifyGitLabSignature', () => {
@@ -296,3 +305,143 @@ describe('getGitHubEventType', () => {
     expect(result).toBeUndefined()
   })
 })
+
+describe('verifyBitbucketSignature', () => {
+  function computeHmac(body: string, secret: string): string {
+    return `sha256=${createHmac('sha256', secret).update(Buffer.from(body)).digest('hex')}`
+  }
+
+  it('should return valid: true when the X-Hub-Signature matches the raw body', () => {
+    const body = '{"pullrequest": {"id": 7}}'
+    const request = createFastifyRequestStub({
+      headers: { 'x-hub-signature': computeHmac(body, TEST_BITBUCKET_SECRET) },
+      rawBody: body,
+    })
+
+    expect(verifyBitbucketSignature(request)).toEqual({ valid: true })
+  })
+
+  it('should return valid: false when signed with another secret', () => {
+    const body = '{"pullrequest": {"id": 7}}'
+    const request = createFastifyRequestStub({
+      headers: { 'x-hub-signature': computeHmac(body, 'wrong-secret') },
+      rawBody: body,
+    })
+
+    const result = verifyBitbucketSignature(request)
+
+    expect(result.valid).toBe(false)
+    expect(result.error).toContain('invalide')
+  })
+
+  it('should return valid: false when the signature header is missing', () => {
+    const request = createFastifyRequestStub({ headers: {}, rawBody: '{}' })
+
+    const result = verifyBitbucketSignature(request)
+
+    expect(result.valid).toBe(false)
+    expect(result.error).toContain('manquant')
+  })
+
+  it('should return valid: false when rawBody is missing', () => {
+    const request = createFastifyRequestStub({
+      headers: { 'x-hub-signature': computeHmac('{}', TEST_BITBUCKET_SECRET) },
+    })
+
+    expect(verifyBitbucketSignature(request).valid).toBe(false)
+  })
+})
+
+describe('getBitbucketEventKey', () => {
+  it('should extract the event key from the header', () => {
+    const request = createFastifyRequestStub({
+      headers: { 'x-event-key': 'pullrequest:created' },
+    })
+
+    expect(getBitbucketEventKey(request)).toBe('pullrequest:created')
+  })
+
+  it('should return undefined when header is missing', () => {
+    expect(getBitbucketEventKey(createFastifyRequestStub({ headers: {} }))).toBeUndefined()
+  })
+})
+
+describe('getBitbucketRequestUuid', () => {
+  it('should extract the delivery UUID from the header', () => {
+    const request = createFastifyRequestStub({
+      headers: { 'x-request-uuid': '5c1f5bb9-1e5d-4f2a-9a5c-8f7e2b3c4d5e' },
+    })
+
+    expect(getBitbucketRequestUuid(request)).toBe('5c1f5bb9-1e5d-4f2a-9a5c-8f7e2b3c4d5e')
+  })
+})
+
+describe('verifyGiteaSignature', () => {
+  function computeHexHmac(body: string, secret: string): string {
+    return createHmac('sha256', secret).update(Buffer.from(body)).digest('hex')
+  }
+
+  it('should return valid: true when the X-Gitea-Signature matches the raw body', () => {
+    const body = '{"number": 12}'
+    const request = createFastifyRequestStub({
+      headers: { 'x-gitea-signature': computeHexHmac(body, TEST_GITEA_SECRET) },
+      rawBody: body,
+    })
+
+    expect(verifyGiteaSignature(request)).toEqual({ valid: true })
+  })
+
+  it('should accept the Forgejo signature header', () => {
+    const body = '{"number": 12}'
+    const request = createFastifyRequestStub({
+      headers: { 'x-forgejo-signature': computeHexHmac(body, TEST_GITEA_SECRET) },
+      rawBody: body,
+    })
+
+    expect(verifyGiteaSignature(request)).toEqual({ valid: true })
+  })
+
+  it('should reject a GitHub-style prefixed signature', () => {
+    const body = '{"number": 12}'
+    const request = createFastifyRequestStub({
+      headers: { 'x-gitea-signature': `sha256=${computeHexHmac(body, TEST_GITEA_SECRET)}` },
+      rawBody: body,
+    })
+
+    const result = verifyGiteaSignature(request)
+
+    expect(result.valid).toBe(false)
+    expect(result.error).toContain('invalide')
+  })
+
+  it('should return valid: false when the signature header is missing', () => {
+    const request = createFastifyRequestStub({ headers: {}, rawBody: '{}' })
+
+    const result = verifyGiteaSignature(request)
+
+    expect(result.valid).toBe(false)
+    expect(result.error).toContain('manquant')
+  })
+})
+
+describe('getGiteaEventType', () => {
+  it('should extract the event type from the Gitea header', () => {
+    const request = createFastifyRequestStub({
+      headers: { 'x-gitea-event': 'pull_request' },
+    })
+
+    expect(getGiteaEventType(request)).toBe('pull_request')
+  })
+
+  it('should prefer the Forgejo header when present', () => {
+    const request = createFastifyRequestStub({
+      headers: { 'x-forgejo-event': 'issue_comment', 'x-gitea-event': 'issue_comment' },
+    })
+
+    expect(getGiteaEventType(request)).toBe('issue_comment')
+  })
+
+  it('should return undefined when header is missing', () => {
+    expect(getGiteaEventType(createFastifyRequestStub({ headers: {} }))).toBeUndefined()
+  })
+})
@@ -1,6 +1,10 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { executeActionsFromContext } from '@/modules/review-execution/services/contextActionsExecutor.js'
 import type { ReviewContext } from '@/modules/review-execution/entities/reviewContext/reviewContext.js'
+import { EgressBlockedError } from '@/modules/platform-integration/interface-adapters/gateways/egressScanned.noteCommentPost.gateway.js'
+import { StubNoteCommentPostGateway } from '@/tests/stubs/noteCommentPost.stub.js'
+import { StubPullRequestReviewGateway } from '@/tests/stubs/pullRequestReview.stub.js'
+import { InMemoryShadowLogGateway } from '@/tests/stubs/shadowLog.stub.js'
 
 // AC6/AC7: the context auto-path executor is bounded to read + postComment.
 // THREAD_RESOLVE / ADD_LABEL are dropped (no-op, logged), POST_COMMENT executes.
@@ -136,4 +140,124 @@ describe('executeActionsFromContext (auto path, capability-bounded)', () => {
     expect(result.failed).toBe(1)
     expect(result.succeeded).toBe(1)
   })
+
+  describe('batched pull request review', () => {
+    const diffMetadata = { baseSha: 'base111', headSha: 'head222', startSha: 'start333' }
+    const reviewContext: ReviewContext = {
+      ...baseContext,
+      diffMetadata,
+      actions: [
+        { type: 'POST_COMMENT', body: '## Review\n\n1 blocking issue' },
+        { type: 'POST_INLINE_COMMENT', filePath: 'src/app.ts', line: 12, body: 'Unchecked null.' },
+        { type: 'THREAD_REPLY', threadId: '99', message: 'Still open.' },
+      ],
+    }
+
+    it('publishes the summary and inline comments as one review, replies separately', async () => {
+      const reviewGateway = new StubPullRequestReviewGateway()
+      const postGateway = new StubNoteCommentPostGateway()
+
+      const result = await executeActionsFromContext(
+        reviewContext, '/tmp/repo', mockLogger, mockExecutor, null, postGateway,
+        { gateway: reviewGateway, verdict: 'needs_fixes' },
+      )
+
+      expect(reviewGateway.calls).toEqual([{
+        projectPath: 'owner/repo',
+        mrNumber: 42,
+        commitId: 'head222',
+        body: '## Review\n\n1 blocking issue',
+        event: 'REQUEST_CHANGES',
+        comments: [{ path: 'src/app.ts', line: 12, body: 'Unchecked null.' }],
+      }])
+      expect(postGateway.calls.map(call => call.body)).toEqual(['Still open.'])
+      expect(mockExecutor).not.toHaveBeenCalled()
+      expect(result).toEqual({ total: 3, succeeded: 3, failed: 0, skipped: 0 })
+    })
+
+    it('posts the comments one by one when the review is rejected', async () => {
+      const reviewGateway = new StubPullRequestReviewGateway()
+      reviewGateway.setError(new Error('HTTP 422: Line could not be resolved'))
+      const postGateway = new StubNoteCommentPostGateway()
+
+      await executeActionsFromContext(
+        reviewContext, '/tmp/repo', mockLogger, mockExecutor, null, postGateway,
+        { gateway: reviewGateway, verdict: 'needs_discussion' },
+      )
+
+      expect(postGateway.calls.map(call => call.body)).toEqual(['## Review\n\n1 blocking issue', 'Still open.'])
+      expect(mockExecutor).toHaveBeenCalledWith('gh', expect.arrayContaining(['path=src/app.ts']), '/tmp/repo')
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ error: 'HTTP 422: Line could not be resolved' }),
+        'Batched review rejected, posting comments one by one',
+      )
+    })
+
+    it('never retries comment by comment when the egress scan blocks the review', async () => {
+      const reviewGateway = new StubPullRequestReviewGateway()
+      reviewGateway.setError(new EgressBlockedError('postComment'))
+      const postGateway = new StubNoteCommentPostGateway()
+
+      await expect(
+        executeActionsFromContext(
+          reviewContext, '/tmp/repo', mockLogger, mockExecutor, null, postGateway,
+          { gateway: reviewGateway, verdict: 'needs_fixes' },
+        ),
+      ).rejects.toThrow(EgressBlockedError)
+
+      expect(postGateway.calls).toEqual([])
+      expect(mockExecutor).not.toHaveBeenCalled()
+    })
+
+    it('does not batch when the head commit is unknown', async () => {
+      const reviewGateway = new StubPullRequestReviewGateway()
+
+      await executeActionsFromContext(
+        { ...reviewContext, diffMetadata: undefined }, '/tmp/repo', mockLogger, mockExecutor, null,
+        new StubNoteCommentPostGateway(),
+        { gateway: reviewGateway, verdict: 'ready_to_merge' },
+      )
+
+      expect(reviewGateway.calls).toEqual([])
+    })
+  })
+
+  describe('shadow publish mode', () => {
+    const now = () => new Date('2026-05-01T10:00:00.000Z')
+
+    it('records the allowed actions instead of posting them', async () => {
+      const shadowLogGateway = new InMemoryShadowLogGateway()
+      const postGateway = new StubNoteCommentPostGateway()
+      const reviewGateway = new StubPullRequestReviewGateway()
+      const context: ReviewContext = {
+        ...baseContext,
+        diffMetadata: { baseSha: 'base111', headSha: 'head222', startSha: 'start333' },
+        actions: [
+          { type: 'POST_COMMENT', body: 'Summary' },
+          { type: 'POST_INLINE_COMMENT', filePath: 'src/app.ts', line: 12, body: 'Unchecked null.' },
+          { type: 'ADD_LABEL', label: 'reviewed' },
+        ],
+      }
+
+      const result = await executeActionsFromContext(
+        context, '/tmp/repo', mockLogger, mockExecutor, null, postGateway,
+        { gateway: reviewGateway, verdict: 'needs_fixes' },
+        { gateway: shadowLogGateway, localPath: '/tmp/repo', reportFile: '2026-05-01-PR-42-review.md', now },
+      )
+
+      expect(result).toEqual({ total: 2, succeeded: 2, failed: 0, skipped: 0 })
+      expect(shadowLogGateway.read('/tmp/repo', '2026-05-01-PR-42-review.md')).toEqual([
+        {
+          recordedAt: '2026-05-01T10:00:00.000Z',
+          platform: 'github',
+          projectPath: 'owner/repo',
+          mrNumber: 42,
+          actions: context.actions.slice(0, 2),
+        },
+      ])
+      expect(postGateway.calls).toEqual([])
+      expect(reviewGateway.calls).toEqual([])
+      expect(mockExecutor).not.toHaveBeenCalled()
+    })
+  })
 })
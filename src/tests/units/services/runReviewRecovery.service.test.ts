@@ -1,7 +1,11 @@
 import { describe, expect, it, vi } from 'vitest'
-import { runReviewRecovery } from '@/modules/review-execution/services/reviewRecovery.service.js'
+import {
+  createRecoveryActionsExecutor,
+  runReviewRecovery,
+} from '@/modules/review-execution/services/reviewRecovery.service.js'
 import { StubReviewContextGateway } from '@/tests/stubs/reviewContextGateway.stub.js'
 import { ReviewContextFactory } from '@/tests/factories/reviewContext.factory.js'
+import { InMemoryShadowLogGateway } from '@/tests/stubs/shadowLog.stub.js'
 
 const NOW = new Date('2026-05-25T21:00:00Z').getTime()
 const ONE_HOUR_AGO = new Date('2026-05-25T20:00:00Z').toISOString()
@@ -244,3 +248,37 @@ describe('runReviewRecovery', () => {
     expect(gateway.read('/repo', 'github-owner/repo-3')?.result).toBeUndefined()
   })
 })
+
+describe('createRecoveryActionsExecutor', () => {
+  it('records the actions of a shadow job to its shadow log instead of posting them', async () => {
+    const shadowLogGateway = new InMemoryShadowLogGateway()
+    const executor = vi.fn()
+    const executeActions = createRecoveryActionsExecutor({
+      logger: { ...silentLogger(), debug: vi.fn() },
+      executor,
+      shadowLogGateway,
+      now: () => new Date(NOW),
+    })
+    const context = ReviewContextFactory.create({
+      mergeRequestId: 'github-owner/repo-7',
+      mergeRequestNumber: 7,
+      publishMode: 'shadow',
+      progress: { phase: 'completed', currentStep: null },
+      actions: [{ type: 'POST_COMMENT', body: 'Summary' }],
+    })
+
+    const outcome = await executeActions(context, '/repo')
+
+    expect(outcome).toEqual({ posted: 1, failed: 0 })
+    expect(executor).not.toHaveBeenCalled()
+    expect(shadowLogGateway.read('/repo', '2026-05-25-MR-7-shadow.md')).toEqual([
+      {
+        recordedAt: '2026-05-25T21:00:00.000Z',
+        platform: 'github',
+        projectPath: 'owner/repo',
+        mrNumber: 7,
+        actions: [{ type: 'POST_COMMENT', body: 'Summary' }],
+      },
+    ])
+  })
+})
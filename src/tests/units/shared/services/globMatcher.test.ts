@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { matchesAnyGlob, matchesGlob } from '@/shared/services/globMatcher.js';
+
+describe('matchesGlob', () => {
+  it('matches literal values exactly', () => {
+    expect(matchesGlob('main', 'main')).toBe(true);
+    expect(matchesGlob('mainline', 'main')).toBe(false);
+  });
+
+  it('keeps a single star inside one path segment', () => {
+    expect(matchesGlob('release/1.2', 'release/*')).toBe(true);
+    expect(matchesGlob('release/1.2/hotfix', 'release/*')).toBe(false);
+  });
+
+  it('lets a double star cross segments', () => {
+    expect(matchesGlob('src/api/routes/user.ts', 'src/**')).toBe(true);
+    expect(matchesGlob('docs/readme.md', 'src/**')).toBe(false);
+  });
+
+  it('lets a leading double star segment match zero directories', () => {
+    expect(matchesGlob('package.json', '**/package.json')).toBe(true);
+    expect(matchesGlob('apps/web/package.json', '**/package.json')).toBe(true);
+  });
+
+  it('matches one non-separator character with a question mark', () => {
+    expect(matchesGlob('v1', 'v?')).toBe(true);
+    expect(matchesGlob('v10', 'v?')).toBe(false);
+  });
+
+  it('treats regular expression characters as literals', () => {
+    expect(matchesGlob('renovate[bot]', 'renovate[bot]')).toBe(true);
+    expect(matchesGlob('file.ts', 'file.ts')).toBe(true);
+    expect(matchesGlob('fileXts', 'file.ts')).toBe(false);
+  });
+});
+
+describe('matchesAnyGlob', () => {
+  it('is true when one pattern matches and false for an empty list', () => {
+    expect(matchesAnyGlob('develop', ['main', 'dev*'])).toBe(true);
+    expect(matchesAnyGlob('develop', [])).toBe(false);
+  });
+});
@@ -78,4 +78,17 @@ describe("completeAgent usecase", () => {
 			expect(result.overallProgress).toBeGreaterThan(0);
 		}
 	});
+
+	it("should return the duration and the tokens reported by the agent", () => {
+		const gateway = new ReviewProgressMemoryGateway();
+		gateway.createProgress("job-1", ["security"]);
+		gateway.startAgent("job-1", "security");
+
+		const result = completeAgent("job-1", "security", "success", undefined, { progressGateway: gateway }, 8000);
+
+		expect(result).toMatchObject({ success: true, tokens: 8000 });
+		if (result.success) {
+			expect(result.durationMs).toBeGreaterThanOrEqual(0);
+		}
+	});
 });
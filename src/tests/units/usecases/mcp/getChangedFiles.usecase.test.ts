@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { JobContextMemoryGateway } from "@/modules/review-execution/interface-adapters/gateways/jobContext.memory.gateway.js";
+import { ReviewContextFileSystemGateway } from "@/modules/review-execution/interface-adapters/gateways/reviewContext.fileSystem.gateway.js";
+import { getChangedFiles } from "@/modules/review-execution/usecases/mcp/getChangedFiles.usecase.js";
+import { StubReviewDiffGateway } from "@/tests/stubs/reviewDiffGateway.stub.js";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+describe("getChangedFiles usecase", () => {
+	let tempDir: string;
+	let jobContextGateway: JobContextMemoryGateway;
+	let reviewContextGateway: ReviewContextFileSystemGateway;
+	let reviewDiffGateway: StubReviewDiffGateway;
+	let fetchedDiffMetadata: number;
+	const jobId = "gitlab:project/path:123";
+	const mergeRequestId = "gitlab-project-path-123";
+
+	const deps = () => ({
+		jobContextGateway,
+		reviewContextGateway,
+		reviewDiffGateway,
+		diffMetadataFetchGatewayFactory: () => ({
+			fetchDiffMetadata: () => {
+				fetchedDiffMetadata += 1;
+				return { baseSha: "platform-base", headSha: "platform-head", startSha: "platform-base" };
+			},
+		}),
+	});
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "getChangedFiles-test-"));
+		jobContextGateway = new JobContextMemoryGateway();
+		reviewContextGateway = new ReviewContextFileSystemGateway();
+		reviewDiffGateway = new StubReviewDiffGateway();
+		fetchedDiffMetadata = 0;
+
+		jobContextGateway.register(jobId, { localPath: tempDir, mergeRequestId });
+		reviewDiffGateway.changedFiles = [
+			{ path: "src/a.ts", previousPath: null, status: "modified", additions: 4, deletions: 1, language: "typescript" },
+			{ path: "logo.png", previousPath: null, status: "added", additions: null, deletions: null, language: null },
+		];
+	});
+
+	const createContext = (withDiffMetadata: boolean) =>
+		reviewContextGateway.create({
+			localPath: tempDir,
+			mergeRequestId,
+			platform: "gitlab",
+			projectPath: "project/path",
+			mergeRequestNumber: 123,
+			...(withDiffMetadata ? { diffMetadata: { baseSha: "base", headSha: "head", startSha: "start" } } : {}),
+		});
+
+	it("should list the files between the merge base and the head of the review context", async () => {
+		createContext(true);
+
+		const result = await getChangedFiles(jobId, deps());
+
+		expect(result).toEqual({
+			success: true,
+			range: { baseSha: "merge-base-sha", headSha: "head" },
+			files: reviewDiffGateway.changedFiles,
+			additions: 4,
+			deletions: 1,
+		});
+		expect(reviewDiffGateway.ranges[0]).toEqual({ baseSha: "base", headSha: "head" });
+		expect(fetchedDiffMetadata).toBe(0);
+	});
+
+	it("should fetch the SHAs from the platform when the context has none", async () => {
+		createContext(false);
+
+		const result = await getChangedFiles(jobId, deps());
+
+		expect(result).toMatchObject({ success: true, range: { baseSha: "merge-base-sha", headSha: "platform-head" } });
+		expect(fetchedDiffMetadata).toBe(1);
+	});
+
+	it("should return the git error", async () => {
+		createContext(true);
+		reviewDiffGateway.failure = new Error("git merge-base failed: fatal: bad object head");
+
+		const result = await getChangedFiles(jobId, deps());
+
+		expect(result).toEqual({ success: false, error: "git merge-base failed: fatal: bad object head" });
+	});
+
+	it("should return error when job context not found", async () => {
+		const result = await getChangedFiles("unknown-job", deps());
+
+		expect(result).toEqual({ success: false, error: "Job context not found: unknown-job" });
+	});
+
+	it("should return error when review context not found", async () => {
+		const result = await getChangedFiles(jobId, deps());
+
+		expect(result).toEqual({ success: false, error: `Review context not found for job: ${jobId}` });
+	});
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { JobContextMemoryGateway } from "@/modules/review-execution/interface-adapters/gateways/jobContext.memory.gateway.js";
+import { ReviewContextFileSystemGateway } from "@/modules/review-execution/interface-adapters/gateways/reviewContext.fileSystem.gateway.js";
+import { getDiff } from "@/modules/review-execution/usecases/mcp/getDiff.usecase.js";
+import type { FileDiff } from "@/modules/review-execution/entities/reviewDiff/reviewDiff.js";
+import { StubReviewDiffGateway } from "@/tests/stubs/reviewDiffGateway.stub.js";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+const fileDiff = (filePath: string): FileDiff => ({
+	path: filePath,
+	previousPath: null,
+	status: "modified",
+	binary: false,
+	hunks: [{ header: "@@ -1 +1 @@", oldStart: 1, oldLines: 1, newStart: 1, newLines: 1, content: "-a\n+b" }],
+});
+
+describe("getDiff usecase", () => {
+	let tempDir: string;
+	let jobContextGateway: JobContextMemoryGateway;
+	let reviewContextGateway: ReviewContextFileSystemGateway;
+	let reviewDiffGateway: StubReviewDiffGateway;
+	const jobId = "gitlab:project/path:123";
+	const mergeRequestId = "gitlab-project-path-123";
+
+	const deps = () => ({
+		jobContextGateway,
+		reviewContextGateway,
+		reviewDiffGateway,
+		diffMetadataFetchGatewayFactory: () => {
+			throw new Error("unexpected platform call");
+		},
+	});
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "getDiff-test-"));
+		jobContextGateway = new JobContextMemoryGateway();
+		reviewContextGateway = new ReviewContextFileSystemGateway();
+		reviewDiffGateway = new StubReviewDiffGateway();
+		reviewDiffGateway.fileDiffs = ["a.ts", "b.ts", "c.ts"].map(fileDiff);
+
+		jobContextGateway.register(jobId, { localPath: tempDir, mergeRequestId });
+		reviewContextGateway.create({
+			localPath: tempDir,
+			mergeRequestId,
+			platform: "gitlab",
+			projectPath: "project/path",
+			mergeRequestNumber: 123,
+			diffMetadata: { baseSha: "base", headSha: "head", startSha: "start" },
+		});
+	});
+
+	it("should return one page of file diffs", async () => {
+		const result = await getDiff(jobId, { paths: [], page: 2, pageSize: 2 }, deps());
+
+		expect(result).toEqual({
+			success: true,
+			range: { baseSha: "merge-base-sha", headSha: "head" },
+			items: [fileDiff("c.ts")],
+			page: 2,
+			pageSize: 2,
+			totalItems: 3,
+			totalPages: 2,
+		});
+	});
+
+	it("should restrict the diff to the requested paths", async () => {
+		const result = await getDiff(jobId, { paths: ["b.ts"], page: 1, pageSize: 10 }, deps());
+
+		expect(result).toMatchObject({ success: true, items: [fileDiff("b.ts")], totalItems: 1 });
+	});
+
+	it.each([
+		[{ page: 0, pageSize: 10 }, "page must be an integer >= 1"],
+		[{ page: 1, pageSize: 51 }, "pageSize must be an integer between 1 and 50"],
+	])("should reject %o", async (pagination, error) => {
+		const result = await getDiff(jobId, { paths: [], ...pagination }, deps());
+
+		expect(result).toEqual({ success: false, error });
+	});
+
+	it("should return the platform error when the SHAs cannot be fetched", async () => {
+		reviewContextGateway.create({
+			localPath: tempDir,
+			mergeRequestId,
+			platform: "gitlab",
+			projectPath: "project/path",
+			mergeRequestNumber: 123,
+		});
+
+		const result = await getDiff(jobId, { paths: [], page: 1, pageSize: 10 }, deps());
+
+		expect(result).toEqual({ success: false, error: "Failed to fetch diff metadata: unexpected platform call" });
+	});
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { JobContextMemoryGateway } from "@/modules/review-execution/interface-adapters/gateways/jobContext.memory.gateway.js";
+import { ReviewContextFileSystemGateway } from "@/modules/review-execution/interface-adapters/gateways/reviewContext.fileSystem.gateway.js";
+import { getFileAtRef, MAX_FILE_LINES } from "@/modules/review-execution/usecases/mcp/getFileAtRef.usecase.js";
+import { StubReviewDiffGateway } from "@/tests/stubs/reviewDiffGateway.stub.js";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+describe("getFileAtRef usecase", () => {
+	let tempDir: string;
+	let jobContextGateway: JobContextMemoryGateway;
+	let reviewContextGateway: ReviewContextFileSystemGateway;
+	let reviewDiffGateway: StubReviewDiffGateway;
+	const jobId = "gitlab:project/path:123";
+	const mergeRequestId = "gitlab-project-path-123";
+
+	const deps = () => ({
+		jobContextGateway,
+		reviewContextGateway,
+		reviewDiffGateway,
+		diffMetadataFetchGatewayFactory: () => {
+			throw new Error("unexpected platform call");
+		},
+	});
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "getFileAtRef-test-"));
+		jobContextGateway = new JobContextMemoryGateway();
+		reviewContextGateway = new ReviewContextFileSystemGateway();
+		reviewDiffGateway = new StubReviewDiffGateway();
+
+		jobContextGateway.register(jobId, { localPath: tempDir, mergeRequestId });
+		reviewContextGateway.create({
+			localPath: tempDir,
+			mergeRequestId,
+			platform: "gitlab",
+			projectPath: "project/path",
+			mergeRequestNumber: 123,
+			diffMetadata: { baseSha: "base", headSha: "head", startSha: "start" },
+		});
+		reviewDiffGateway.setFile("merge-base-sha", "src/a.ts", "one\ntwo\nthree\n");
+		reviewDiffGateway.setFile("head", "src/a.ts", "one\n2\nthree\nfour\n");
+	});
+
+	it("should read the file on the merge base", async () => {
+		const result = await getFileAtRef(jobId, { path: "src/a.ts", ref: "base", startLine: null, endLine: null }, deps());
+
+		expect(result).toEqual({
+			success: true,
+			path: "src/a.ts",
+			ref: "base",
+			sha: "merge-base-sha",
+			exists: true,
+			content: "one\ntwo\nthree",
+			startLine: 1,
+			endLine: 3,
+			totalLines: 3,
+			truncated: false,
+		});
+	});
+
+	it("should return the requested lines of the head", async () => {
+		const result = await getFileAtRef(jobId, { path: "src/a.ts", ref: "head", startLine: 2, endLine: 3 }, deps());
+
+		expect(result).toMatchObject({ success: true, sha: "head", content: "2\nthree", startLine: 2, endLine: 3, totalLines: 4 });
+	});
+
+	it("should truncate long files", async () => {
+		const lines = Array.from({ length: MAX_FILE_LINES + 5 }, (_, index) => `line ${index + 1}`);
+		reviewDiffGateway.setFile("head", "big.txt", lines.join("\n"));
+
+		const result = await getFileAtRef(jobId, { path: "big.txt", ref: "head", startLine: null, endLine: null }, deps());
+
+		expect(result).toMatchObject({ success: true, endLine: MAX_FILE_LINES, totalLines: MAX_FILE_LINES + 5, truncated: true });
+	});
+
+	it("should report a file that does not exist at the ref", async () => {
+		const result = await getFileAtRef(jobId, { path: "src/new.ts", ref: "base", startLine: null, endLine: null }, deps());
+
+		expect(result).toMatchObject({ success: true, exists: false, content: null, totalLines: null });
+	});
+
+	it.each([
+		[{ path: "" }, "path required"],
+		[{ startLine: 0 }, "startLine and endLine must be > 0"],
+		[{ startLine: 5, endLine: 2 }, "endLine must be >= startLine"],
+	])("should reject %o", async (overrides, error) => {
+		const input = { path: "src/a.ts", ref: "head" as const, startLine: null, endLine: null, ...overrides };
+
+		const result = await getFileAtRef(jobId, input, deps());
+
+		expect(result).toEqual({ success: false, error });
+	});
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { JobContextMemoryGateway } from "@/modules/review-execution/interface-adapters/gateways/jobContext.memory.gateway.js";
+import { ReviewContextFileSystemGateway } from "@/modules/review-execution/interface-adapters/gateways/reviewContext.fileSystem.gateway.js";
+import { getMrMetadata } from "@/modules/review-execution/usecases/mcp/getMrMetadata.usecase.js";
+import type { MergeRequestMetadata } from "@/modules/platform-integration/entities/mergeRequestMetadata/mergeRequestMetadata.gateway.js";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+describe("getMrMetadata usecase", () => {
+	let tempDir: string;
+	let jobContextGateway: JobContextMemoryGateway;
+	let reviewContextGateway: ReviewContextFileSystemGateway;
+	const jobId = "github:owner/repo:42";
+	const mergeRequestId = "github-owner-repo-42";
+
+	const metadata: MergeRequestMetadata = {
+		title: "Refund orders partially",
+		description: "Closes #12",
+		author: "jdoe",
+		sourceBranch: "feat/refund",
+		targetBranch: "main",
+		labels: ["billing"],
+		linkedIssues: ["#12"],
+		webUrl: null,
+	};
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "getMrMetadata-test-"));
+		jobContextGateway = new JobContextMemoryGateway();
+		reviewContextGateway = new ReviewContextFileSystemGateway();
+
+		jobContextGateway.register(jobId, { localPath: tempDir, mergeRequestId });
+		reviewContextGateway.create({
+			localPath: tempDir,
+			mergeRequestId,
+			platform: "github",
+			projectPath: "owner/repo",
+			mergeRequestNumber: 42,
+		});
+	});
+
+	it("should fetch the metadata from the platform of the review", () => {
+		const calls: string[] = [];
+		const result = getMrMetadata(jobId, {
+			jobContextGateway,
+			reviewContextGateway,
+			mergeRequestMetadataFetchGatewayFactory: (platform) => ({
+				fetchMergeRequestMetadata: (projectPath, mergeRequestNumber) => {
+					calls.push(`${platform}:${projectPath}:${mergeRequestNumber}`);
+					return metadata;
+				},
+			}),
+		});
+
+		expect(result).toEqual({
+			success: true,
+			platform: "github",
+			projectPath: "owner/repo",
+			mergeRequestNumber: 42,
+			...metadata,
+		});
+		expect(calls).toEqual(["github:owner/repo:42"]);
+	});
+
+	it("should return the platform error", () => {
+		const result = getMrMetadata(jobId, {
+			jobContextGateway,
+			reviewContextGateway,
+			mergeRequestMetadataFetchGatewayFactory: () => ({
+				fetchMergeRequestMetadata: () => {
+					throw new Error("HTTP 404");
+				},
+			}),
+		});
+
+		expect(result).toEqual({ success: false, error: "Failed to fetch merge request metadata: HTTP 404" });
+	});
+
+	it("should return error when job context not found", () => {
+		const result = getMrMetadata("unknown-job", {
+			jobContextGateway,
+			reviewContextGateway,
+			mergeRequestMetadataFetchGatewayFactory: () => ({ fetchMergeRequestMetadata: () => metadata }),
+		});
+
+		expect(result).toEqual({ success: false, error: "Job context not found: unknown-job" });
+	});
+});
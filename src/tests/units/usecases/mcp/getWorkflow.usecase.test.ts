@@ -64,4 +64,42 @@ describe("getWorkflow usecase", () => {
 			expect(result.workflow.instructions.length).toBeGreaterThan(0);
 		}
 	});
+
+	it("should include the dispatch settings of configured agents", () => {
+		const jobId = "gitlab:project:123";
+		progressGateway.createProgress(jobId, [
+			{ name: "code-quality", displayName: "Code Quality", model: "haiku", allowedTools: ["Read", "Grep"] },
+			{ name: "report", displayName: "Rapport" },
+		]);
+
+		const result = getWorkflow(jobId, { progressGateway });
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.workflow.agents).toEqual([
+				{
+					name: "code-quality",
+					displayName: "Code Quality",
+					status: "pending",
+					dispatch: { model: "haiku", allowedTools: ["Read", "Grep"] },
+				},
+				{ name: "report", displayName: "Rapport", status: "pending" },
+			]);
+		}
+	});
+
+	it("should list the agents skipped for the changed files", () => {
+		const jobId = "gitlab:project:123";
+		progressGateway.createProgress(jobId, ["threads", "report"], [
+			{ name: "security", reason: "Only documentation changed" },
+		]);
+
+		const result = getWorkflow(jobId, { progressGateway });
+
+		expect(result.success).toBe(true);
+		if (result.success) {
+			expect(result.workflow.agents.map((a) => a.name)).toEqual(["threads", "report"]);
+			expect(result.workflow.skippedAgents).toEqual([{ name: "security", reason: "Only documentation changed" }]);
+		}
+	});
 });
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { JobContextMemoryGateway } from "@/modules/review-execution/interface-adapters/gateways/jobContext.memory.gateway.js";
+import { ReviewContextFileSystemGateway } from "@/modules/review-execution/interface-adapters/gateways/reviewContext.fileSystem.gateway.js";
+import { type FindingInput, reportFinding } from "@/modules/review-execution/usecases/mcp/reportFinding.usecase.js";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+describe("reportFinding usecase", () => {
+	let tempDir: string;
+	let jobContextGateway: JobContextMemoryGateway;
+	let reviewContextGateway: ReviewContextFileSystemGateway;
+	const jobId = "gitlab:project/path:123";
+	const mergeRequestId = "gitlab-project-path-123";
+
+	const input: FindingInput = {
+		severity: "blocking",
+		agent: "security",
+		title: "SQL built from user input",
+		body: "The order id is concatenated into the query.",
+		filePath: "src/orders.ts",
+		startLine: 40,
+		endLine: 42,
+		suggestedPatch: null,
+		confidence: 0.8,
+	};
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "reportFinding-test-"));
+		jobContextGateway = new JobContextMemoryGateway();
+		reviewContextGateway = new ReviewContextFileSystemGateway();
+
+		jobContextGateway.register(jobId, { localPath: tempDir, mergeRequestId });
+		reviewContextGateway.create({
+			localPath: tempDir,
+			mergeRequestId,
+			platform: "gitlab",
+			projectPath: "project/path",
+			mergeRequestNumber: 123,
+		});
+	});
+
+	it("should store the finding and queue its inline comment", () => {
+		const result = reportFinding(jobId, input, { jobContextGateway, reviewContextGateway });
+
+		expect(result).toMatchObject({ success: true, inlineComment: true });
+		const context = reviewContextGateway.read(tempDir, mergeRequestId);
+		expect(context?.findings).toHaveLength(1);
+		expect(context?.findings?.[0]).toMatchObject({ ...input });
+		expect(context?.actions).toEqual([
+			{
+				type: "POST_INLINE_COMMENT",
+				filePath: "src/orders.ts",
+				line: 42,
+				body: expect.stringContaining("SQL built from user input"),
+				findingId: context?.findings?.[0].id,
+			},
+		]);
+	});
+
+	it("should store a finding without a location and queue no comment", () => {
+		const result = reportFinding(
+			jobId,
+			{ ...input, filePath: null, startLine: null, endLine: null },
+			{ jobContextGateway, reviewContextGateway },
+		);
+
+		expect(result).toMatchObject({ success: true, inlineComment: false });
+		const context = reviewContextGateway.read(tempDir, mergeRequestId);
+		expect(context?.findings).toHaveLength(1);
+		expect(context?.actions).toHaveLength(0);
+	});
+
+	it.each([
+		[{ title: "" }, "title required"],
+		[{ agent: "" }, "agent required"],
+		[{ confidence: 1.5 }, "confidence must be between 0 and 1"],
+		[{ startLine: 0 }, "startLine and endLine must be > 0"],
+		[{ startLine: 50, endLine: 42 }, "endLine must be >= startLine"],
+		[{ filePath: null }, "filePath required when a line range is given"],
+	])("should reject %o", (overrides, error) => {
+		const result = reportFinding(jobId, { ...input, ...overrides }, { jobContextGateway, reviewContextGateway });
+
+		expect(result).toEqual({ success: false, error });
+		expect(reviewContextGateway.read(tempDir, mergeRequestId)?.findings).toBeUndefined();
+	});
+
+	it("should return error when job context not found", () => {
+		const result = reportFinding("unknown-job", input, { jobContextGateway, reviewContextGateway });
+
+		expect(result).toEqual({ success: false, error: "Job context not found: unknown-job" });
+	});
+});
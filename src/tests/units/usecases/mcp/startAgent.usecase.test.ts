@@ -50,4 +50,18 @@ describe("startAgent usecase", () => {
 			expect(result.overallProgress).toBeGreaterThan(0);
 		}
 	});
+
+	it("should return the dispatch settings of the agent", () => {
+		const gateway = new ReviewProgressMemoryGateway();
+		gateway.createProgress("job-1", [
+			{ name: "security", displayName: "Security", model: "opus", promptFile: ".claude/agents/security.md" },
+		]);
+
+		const result = startAgent("job-1", "security", { progressGateway: gateway });
+
+		expect(result).toMatchObject({
+			success: true,
+			dispatch: { model: "opus", promptFile: ".claude/agents/security.md" },
+		});
+	});
 });
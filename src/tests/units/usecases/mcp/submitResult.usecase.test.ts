@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { JobContextMemoryGateway } from "@/modules/review-execution/interface-adapters/gateways/jobContext.memory.gateway.js";
+import { ReviewContextFileSystemGateway } from "@/modules/review-execution/interface-adapters/gateways/reviewContext.fileSystem.gateway.js";
+import { reportFinding } from "@/modules/review-execution/usecases/mcp/reportFinding.usecase.js";
+import { submitResult } from "@/modules/review-execution/usecases/mcp/submitResult.usecase.js";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+
+describe("submitResult usecase", () => {
+	let tempDir: string;
+	let jobContextGateway: JobContextMemoryGateway;
+	let reviewContextGateway: ReviewContextFileSystemGateway;
+	const jobId = "gitlab:project/path:123";
+	const mergeRequestId = "gitlab-project-path-123";
+
+	beforeEach(() => {
+		tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "submitResult-test-"));
+		jobContextGateway = new JobContextMemoryGateway();
+		reviewContextGateway = new ReviewContextFileSystemGateway();
+
+		jobContextGateway.register(jobId, { localPath: tempDir, mergeRequestId });
+		reviewContextGateway.create({
+			localPath: tempDir,
+			mergeRequestId,
+			platform: "gitlab",
+			projectPath: "project/path",
+			mergeRequestNumber: 123,
+		});
+	});
+
+	it("should store the score and verdict in the review context", () => {
+		reportFinding(
+			jobId,
+			{
+				severity: "warning",
+				agent: "architecture",
+				title: "Controller reaches the database",
+				body: "",
+				filePath: null,
+				startLine: null,
+				endLine: null,
+				suggestedPatch: null,
+				confidence: 1,
+			},
+			{ jobContextGateway, reviewContextGateway },
+		);
+
+		const result = submitResult(jobId, 7.5, "needs_discussion", { jobContextGateway, reviewContextGateway });
+
+		expect(result).toEqual({ success: true, score: 7.5, verdict: "needs_discussion", findings: 1 });
+		expect(reviewContextGateway.read(tempDir, mergeRequestId)?.submittedResult).toMatchObject({
+			score: 7.5,
+			verdict: "needs_discussion",
+		});
+	});
+
+	it("should reject a score outside 0-10", () => {
+		const result = submitResult(jobId, 11, "ready_to_merge", { jobContextGateway, reviewContextGateway });
+
+		expect(result).toEqual({ success: false, error: "score must be between 0 and 10" });
+		expect(reviewContextGateway.read(tempDir, mergeRequestId)?.submittedResult).toBeUndefined();
+	});
+
+	it("should return error when job context not found", () => {
+		const result = submitResult("unknown-job", 8, "ready_to_merge", { jobContextGateway, reviewContextGateway });
+
+		expect(result).toEqual({ success: false, error: "Job context not found: unknown-job" });
+	});
+});
@@ -60,7 +60,7 @@ describe('recalculateWithBackfill', () => {
       { projectPath: '/test/project', shouldBackfill: true, platform: 'gitlab' },
       {
         statsGateway,
-        diffStatsFetchGateways: { gitlab: diffStatsFetchGateway, github: diffStatsFetchGateway },
+        diffStatsFetchGateways: { gitlab: diffStatsFetchGateway, github: diffStatsFetchGateway, bitbucket: diffStatsFetchGateway, gitea: diffStatsFetchGateway },
         onProgress: (progress) => progressUpdates.push({ ...progress }),
         logger: { warn: vi.fn(), error: vi.fn() },
       },
@@ -88,7 +88,7 @@ describe('recalculateWithBackfill', () => {
       { projectPath: '/test/project', shouldBackfill: true, platform: null },
       {
         statsGateway,
-        diffStatsFetchGateways: { gitlab: diffStatsFetchGateway, github: diffStatsFetchGateway },
+        diffStatsFetchGateways: { gitlab: diffStatsFetchGateway, github: diffStatsFetchGateway, bitbucket: diffStatsFetchGateway, gitea: diffStatsFetchGateway },
         onProgress: (progress) => progressUpdates.push({ ...progress }),
         logger: { warn: vi.fn(), error: vi.fn() },
       },
@@ -115,7 +115,7 @@ describe('recalculateWithBackfill', () => {
       { projectPath: '/test/project', shouldBackfill: true, platform: 'github' },
       {
         statsGateway,
-        diffStatsFetchGateways: { gitlab: gitlabGateway, github: githubGateway },
+        diffStatsFetchGateways: { gitlab: gitlabGateway, github: githubGateway, bitbucket: gitlabGateway, gitea: gitlabGateway },
         onProgress: vi.fn(),
         logger: { warn: vi.fn(), error: vi.fn() },
       },
@@ -144,7 +144,7 @@ describe('recalculateWithBackfill', () => {
       { projectPath: '/test/project', shouldBackfill: true, platform: 'gitlab' },
       {
         statsGateway,
-        diffStatsFetchGateways: { gitlab: diffStatsFetchGateway, github: diffStatsFetchGateway },
+        diffStatsFetchGateways: { gitlab: diffStatsFetchGateway, github: diffStatsFetchGateway, bitbucket: diffStatsFetchGateway, gitea: diffStatsFetchGateway },
         onProgress: vi.fn(),
         logger: { warn: vi.fn(), error: errorLogger },
       },
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { supersedeReview } from '@/modules/review-execution/usecases/supersedeReview.usecase.js';
+import { StubReviewQueuePort } from '../../stubs/reviewQueue.stub.js';
+import { createStubLogger } from '../../stubs/logger.stub.js';
+import { ReviewJobFactory } from '../../factories/reviewJob.factory.js';
+
+describe('supersedeReview usecase', () => {
+  let queuePort: StubReviewQueuePort;
+
+  beforeEach(() => {
+    queuePort = new StubReviewQueuePort();
+  });
+
+  it('should supersede a running job queued for an older head', () => {
+    const job = ReviewJobFactory.create({ headSha: 'old-sha' });
+    queuePort.addRunningJob(job);
+
+    const result = supersedeReview(job.id, 'new-sha', { queuePort, logger: createStubLogger() });
+
+    expect(result).toEqual({ status: 'superseded', job });
+    expect(queuePort.supersededJobs).toEqual([job.id]);
+  });
+
+  it('should supersede a running job whose head is unknown', () => {
+    const job = ReviewJobFactory.create();
+    queuePort.addRunningJob(job);
+
+    const result = supersedeReview(job.id, 'new-sha', { queuePort, logger: createStubLogger() });
+
+    expect(result.status).toBe('superseded');
+  });
+
+  it('should keep a running job already queued for the pushed head', () => {
+    const job = ReviewJobFactory.createFollowup({ headSha: 'new-sha' });
+    queuePort.addRunningJob(job);
+
+    const result = supersedeReview(job.id, 'new-sha', { queuePort, logger: createStubLogger() });
+
+    expect(result).toEqual({ status: 'up-to-date', jobId: job.id });
+    expect(queuePort.supersededJobs).toEqual([]);
+  });
+
+  it('should leave queued jobs alone', () => {
+    queuePort.setJobStatus('job-123', 'queued');
+
+    const result = supersedeReview('job-123', 'new-sha', { queuePort, logger: createStubLogger() });
+
+    expect(result).toEqual({ status: 'not-running', jobId: 'job-123' });
+  });
+});
@@ -184,6 +184,52 @@ describe('RecordReviewCompletionUseCase', () => {
     expect(result?.reviews[0].diffStats).toBeNull();
   });
 
+  it('should record the reviewed head sha when provided', () => {
+    const gateway = new InMemoryReviewRequestTrackingGateway();
+    const mr = TrackedMrFactory.create({ id: 'mr-1' });
+    gateway.create('/project', mr);
+    const useCase = new RecordReviewCompletionUseCase(gateway);
+
+    const result = useCase.execute({
+      projectPath: '/project',
+      mrId: 'mr-1',
+      reviewData: { ...reviewData, headSha: 'abc123' },
+    });
+
+    expect(result?.reviews[0].headSha).toBe('abc123');
+  });
+
+  it('should omit the head sha when unknown', () => {
+    const gateway = new InMemoryReviewRequestTrackingGateway();
+    const mr = TrackedMrFactory.create({ id: 'mr-1' });
+    gateway.create('/project', mr);
+    const useCase = new RecordReviewCompletionUseCase(gateway);
+
+    const result = useCase.execute({
+      projectPath: '/project',
+      mrId: 'mr-1',
+      reviewData: { ...reviewData, headSha: null },
+    });
+
+    expect(result?.reviews[0]).not.toHaveProperty('headSha');
+  });
+
+  it('should record the findings the agent reported', () => {
+    const gateway = new InMemoryReviewRequestTrackingGateway();
+    const mr = TrackedMrFactory.create({ id: 'mr-1' });
+    gateway.create('/project', mr);
+    const useCase = new RecordReviewCompletionUseCase(gateway);
+    const findings = [
+      { severity: 'blocking' as const, agent: 'security', title: 'SQL injection', filePath: 'src/a.ts', startLine: 4, endLine: 4, confidence: 0.9 },
+    ];
+
+    const withFindings = useCase.execute({ projectPath: '/project', mrId: 'mr-1', reviewData: { ...reviewData, findings } });
+    const withoutFindings = useCase.execute({ projectPath: '/project', mrId: 'mr-1', reviewData: { ...reviewData, findings: [] } });
+
+    expect(withFindings?.reviews[0].findings).toEqual(findings);
+    expect(withoutFindings?.reviews[1]).not.toHaveProperty('findings');
+  });
+
   it('should return null for unknown MR', () => {
     const gateway = new InMemoryReviewRequestTrackingGateway();
     const useCase = new RecordReviewCompletionUseCase(gateway);